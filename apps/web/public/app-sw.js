@@ -1,6 +1,11 @@
 /* App SW: update prompts + light caching */
 const CACHE = 'gb-app-v1';
 const PRECACHE = ['/', '/overview', '/m', '/brand.css', '/brand/logo-white.svg', '/brand/manifest.webmanifest', '/offline'];
+// Caches owned by brand-sw.js (scoped to /commissioning); cleanup leaves them alone.
+const SHARED_CACHES = /^(brand$|commissioning-)/;
+// A commissioning page opened by in-app navigation stays under this worker, so it fills brand-sw's data cache.
+const COMMISSIONING_DATA_CACHE = 'commissioning-data-v1';
+const COMMISSIONING_API = /^\/api\/commissioning\/(checklists|settings|sessions|session\/[^/]+)$/;
 
 self.addEventListener('install', (event) => {
   event.waitUntil(
@@ -18,7 +23,7 @@ self.addEventListener('activate', (event) => {
       const keys = await caches.keys();
       await Promise.all(
         keys.map((key) => {
-          if (key !== CACHE) {
+          if (key !== CACHE && !SHARED_CACHES.test(key)) {
             return caches.delete(key);
           }
           return undefined;
@@ -52,6 +57,26 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // commissioning data: network-first, falling back to the last copy seen online
+  if (COMMISSIONING_API.test(url.pathname)) {
+    event.respondWith(
+      fetch(event.request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            event.waitUntil(caches.open(COMMISSIONING_DATA_CACHE).then((cache) => cache.put(event.request, copy)));
+          }
+          return response;
+        })
+        .catch(() =>
+          caches
+            .match(event.request, { cacheName: COMMISSIONING_DATA_CACHE })
+            .then((cached) => cached || Response.error()),
+        ),
+    );
+    return;
+  }
+
   // app routes: network-first with offline fallback
   if (['/', '/overview', '/m', '/login', '/alerts', '/devices'].some((path) => url.pathname.startsWith(path))) {
     event.respondWith(
@@ -1,4 +1,5 @@
 import { apiFetch } from './client';
+import type { FaultCatalogueEntry } from './types';
 
 export interface ArchiveRow {
   table: string;
@@ -83,3 +84,441 @@ export async function fetchArchivePresets(
     .map((entry) => normalisePresetEntry(entry))
     .filter((preset): preset is ArchivePresetDefinition => Boolean(preset));
 }
+
+export type ExportJobStatus = 'queued' | 'running' | 'assembling' | 'done' | 'failed' | 'cancelled';
+export type ExportJobFormat = 'ndjson' | 'csv' | 'parquet' | 'arrow';
+export type ExportJobResolution = 'raw' | '1m' | '15m' | '1h' | '1d';
+
+export interface ExportJobInput {
+  clientId: string | null;
+  siteIds: string[];
+  deviceIds: string[];
+  metrics: string[];
+  from: string;
+  to: string;
+  resolution: ExportJobResolution;
+  format: ExportJobFormat;
+  notify: boolean;
+}
+
+export interface ExportJob {
+  id: string;
+  requestedBy: string;
+  status: ExportJobStatus;
+  filters: ExportJobInput;
+  deviceCount: number;
+  format: ExportJobFormat;
+  progress: { done: number; total: number };
+  rows: number;
+  sizeBytes: number | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export async function fetchExportJobs(fetchImpl: typeof fetch = fetch): Promise<ExportJob[]> {
+  return apiFetch<ExportJob[]>('/api/admin/exports', undefined, fetchImpl);
+}
+
+export async function createExportJob(
+  input: ExportJobInput,
+  fetchImpl: typeof fetch = fetch,
+): Promise<{ ok: boolean; id: string; devices: number; chunks: number }> {
+  return apiFetch(
+    '/api/admin/exports',
+    {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(input),
+    },
+    fetchImpl,
+  );
+}
+
+export async function cancelExportJob(id: string, fetchImpl: typeof fetch = fetch): Promise<void> {
+  await apiFetch(`/api/admin/exports/${encodeURIComponent(id)}/cancel`, { method: 'POST' }, fetchImpl);
+}
+
+export type NotificationChannel = 'webhook' | 'slack' | 'teams';
+
+export interface NotificationSubscription {
+  id: string;
+  name: string;
+  channel: NotificationChannel;
+  url: string;
+  hasSecret: boolean;
+  template: string | null;
+  events: string[];
+  severities: string[];
+  rules: string[];
+  clientIds: string[];
+  siteIds: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+export interface NotificationSubscriptionInput {
+  name: string;
+  channel: NotificationChannel;
+  url: string;
+  secret?: string;
+  template?: string | null;
+  events?: string[] | null;
+  severities?: string[] | null;
+  rules?: string[] | null;
+  clientIds?: string[] | null;
+  siteIds?: string[] | null;
+  enabled?: boolean;
+}
+
+export interface NotificationDelivery {
+  id: string;
+  subscription_id: string;
+  subscription_name: string | null;
+  channel: NotificationChannel | null;
+  event_key: string;
+  event_type: string;
+  status: 'pending' | 'sending' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+export async function fetchNotificationSubscriptions(
+  fetchImpl: typeof fetch = fetch,
+): Promise<NotificationSubscription[]> {
+  return apiFetch<NotificationSubscription[]>('/api/admin/notifications/subscriptions', undefined, fetchImpl);
+}
+
+export async function saveNotificationSubscription(
+  input: NotificationSubscriptionInput,
+  id: string | null,
+  fetchImpl: typeof fetch = fetch,
+): Promise<{ ok: boolean; id: string }> {
+  return apiFetch<{ ok: boolean; id: string }>(
+    id ? `/api/admin/notifications/subscriptions/${encodeURIComponent(id)}` : '/api/admin/notifications/subscriptions',
+    {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(input),
+    },
+    fetchImpl,
+  );
+}
+
+export async function deleteNotificationSubscription(id: string, fetchImpl: typeof fetch = fetch): Promise<void> {
+  await apiFetch(
+    `/api/admin/notifications/subscriptions/${encodeURIComponent(id)}`,
+    { method: 'DELETE' },
+    fetchImpl,
+  );
+}
+
+export async function testNotificationSubscription(
+  id: string,
+  fetchImpl: typeof fetch = fetch,
+): Promise<{ ok: boolean; status: number | null; error: string | null }> {
+  return apiFetch(
+    `/api/admin/notifications/subscriptions/${encodeURIComponent(id)}/test`,
+    { method: 'POST' },
+    fetchImpl,
+  );
+}
+
+export async function fetchNotificationDeliveries(
+  subscriptionId: string | null,
+  fetchImpl: typeof fetch = fetch,
+): Promise<NotificationDelivery[]> {
+  const params = new URLSearchParams({ limit: '100' });
+  if (subscriptionId) {
+    params.set('subscriptionId', subscriptionId);
+  }
+  return apiFetch<NotificationDelivery[]>(
+    `/api/admin/notifications/deliveries?${params.toString()}`,
+    undefined,
+    fetchImpl,
+  );
+}
+
+export async function retryNotificationDelivery(id: string, fetchImpl: typeof fetch = fetch): Promise<void> {
+  await apiFetch(
+    `/api/admin/notifications/deliveries/${encodeURIComponent(id)}/retry`,
+    { method: 'POST' },
+    fetchImpl,
+  );
+}
+
+export type FaultCatalogueInput = Omit<FaultCatalogueEntry, 'id'>;
+
+export async function fetchFaultCatalogue(fetchImpl: typeof fetch = fetch): Promise<FaultCatalogueEntry[]> {
+  return apiFetch<FaultCatalogueEntry[]>('/api/admin/fault-catalogue', undefined, fetchImpl);
+}
+
+export async function saveFaultCatalogueEntry(
+  input: FaultCatalogueInput,
+  id: string | null,
+  fetchImpl: typeof fetch = fetch,
+): Promise<{ ok: boolean; id: string }> {
+  return apiFetch<{ ok: boolean; id: string }>(
+    id ? `/api/admin/fault-catalogue/${encodeURIComponent(id)}` : '/api/admin/fault-catalogue',
+    {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(input),
+    },
+    fetchImpl,
+  );
+}
+
+export async function deleteFaultCatalogueEntry(id: string, fetchImpl: typeof fetch = fetch): Promise<void> {
+  await apiFetch(`/api/admin/fault-catalogue/${encodeURIComponent(id)}`, { method: 'DELETE' }, fetchImpl);
+}
+
+export async function saveDeviceModel(
+  deviceId: string,
+  model: { manufacturer: string | null; model: string | null },
+  fetchImpl: typeof fetch = fetch,
+): Promise<void> {
+  await apiFetch(
+    `/api/admin/devices/${encodeURIComponent(deviceId)}/model`,
+    {
+      method: 'PUT',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(model),
+    },
+    fetchImpl,
+  );
+}
+
+export type ProfileMetric =
+  | 'supplyC'
+  | 'returnC'
+  | 'tankC'
+  | 'ambientC'
+  | 'flowLps'
+  | 'compCurrentA'
+  | 'eevSteps'
+  | 'powerKW';
+
+export interface ControllerProfileField {
+  metric: ProfileMetric;
+  keys: string[];
+  unit: string;
+  scale: number;
+  offset: number;
+}
+
+export interface ControllerProfile {
+  id: string;
+  name: string;
+  manufacturer: string | null;
+  model: string | null;
+  description: string | null;
+  fields: ControllerProfileField[];
+  required: ProfileMetric[];
+  deviceCount?: number;
+}
+
+export type ControllerProfileInput = Omit<ControllerProfile, 'id' | 'deviceCount'>;
+
+export interface ControllerProfilesResponse {
+  profiles: ControllerProfile[];
+  builtin: ControllerProfile;
+}
+
+export interface ControllerProfileTestResult {
+  profileId: string;
+  accepted: boolean;
+  metrics: Partial<Record<ProfileMetric, number>>;
+  missing: string[];
+}
+
+export async function fetchControllerProfiles(fetchImpl: typeof fetch = fetch): Promise<ControllerProfilesResponse> {
+  return apiFetch<ControllerProfilesResponse>('/api/admin/controller-profiles', undefined, fetchImpl);
+}
+
+export async function saveControllerProfile(
+  id: string,
+  input: ControllerProfileInput,
+  existing: boolean,
+  fetchImpl: typeof fetch = fetch,
+): Promise<{ ok: boolean; id: string }> {
+  return apiFetch<{ ok: boolean; id: string }>(
+    existing ? `/api/admin/controller-profiles/${encodeURIComponent(id)}` : '/api/admin/controller-profiles',
+    {
+      method: existing ? 'PUT' : 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(existing ? input : { id, ...input }),
+    },
+    fetchImpl,
+  );
+}
+
+export async function deleteControllerProfile(id: string, fetchImpl: typeof fetch = fetch): Promise<void> {
+  await apiFetch(`/api/admin/controller-profiles/${encodeURIComponent(id)}`, { method: 'DELETE' }, fetchImpl);
+}
+
+export async function testControllerProfile(
+  id: string,
+  metrics: Record<string, unknown>,
+  profile: ControllerProfileInput | null,
+  fetchImpl: typeof fetch = fetch,
+): Promise<ControllerProfileTestResult> {
+  return apiFetch<ControllerProfileTestResult>(
+    `/api/admin/controller-profiles/${encodeURIComponent(id || 'draft')}/test`,
+    {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ metrics, profile }),
+    },
+    fetchImpl,
+  );
+}
+
+export interface ProvisionedDevice {
+  deviceId: string;
+  keyId: string;
+  /** Plaintext key; shown once and never returned again. */
+  key: string;
+}
+
+export interface BulkProvisionResult {
+  ok: boolean;
+  batchId: string;
+  devices: ProvisionedDevice[];
+}
+
+export type DeviceKeyStatus = 'active' | 'expiring' | 'expired' | 'revoked';
+
+export interface DeviceKeyUsage {
+  ip: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface DeviceKey {
+  id: string;
+  deviceId: string;
+  label: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  status: DeviceKeyStatus;
+  usage: DeviceKeyUsage[];
+}
+
+export interface RotatedDeviceKey extends ProvisionedDevice {
+  ok: boolean;
+  previousExpiresAt: string;
+}
+
+export async function bulkProvisionDevices(csv: string, fetchImpl: typeof fetch = fetch): Promise<BulkProvisionResult> {
+  return apiFetch<BulkProvisionResult>(
+    '/api/admin/devices/bulk',
+    { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ csv }) },
+    fetchImpl,
+  );
+}
+
+export async function createProvisioningZip(
+  deviceIds: string[],
+  batchId: string | null,
+  fetchImpl: typeof fetch = fetch,
+): Promise<{ ok: boolean; r2_key: string; size: number; url: string }> {
+  return apiFetch<{ ok: boolean; r2_key: string; size: number; url: string }>(
+    '/api/admin/devices/provisioning-zip',
+    {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ deviceIds, batchId }),
+    },
+    fetchImpl,
+  );
+}
+
+export interface DeviceKeysResponse {
+  deviceId: string;
+  keys: DeviceKey[];
+  quarantinedAt: string | null;
+  quarantineReason: string | null;
+}
+
+export async function fetchDeviceKeys(deviceId: string, fetchImpl: typeof fetch = fetch): Promise<DeviceKeysResponse> {
+  return apiFetch<DeviceKeysResponse>(`/api/admin/devices/${encodeURIComponent(deviceId)}/keys`, undefined, fetchImpl);
+}
+
+export async function rotateDeviceKey(
+  deviceId: string,
+  graceHours: number,
+  fetchImpl: typeof fetch = fetch,
+): Promise<RotatedDeviceKey> {
+  return apiFetch<RotatedDeviceKey>(
+    `/api/admin/devices/${encodeURIComponent(deviceId)}/keys/rotate`,
+    { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ graceHours }) },
+    fetchImpl,
+  );
+}
+
+export async function revokeDeviceKey(deviceId: string, keyId: string, fetchImpl: typeof fetch = fetch): Promise<void> {
+  await apiFetch(
+    `/api/admin/devices/${encodeURIComponent(deviceId)}/keys/${encodeURIComponent(keyId)}/revoke`,
+    { method: 'POST' },
+    fetchImpl,
+  );
+}
+
+export async function releaseDeviceQuarantine(deviceId: string, fetchImpl: typeof fetch = fetch): Promise<void> {
+  await apiFetch(`/api/admin/devices/${encodeURIComponent(deviceId)}/quarantine/release`, { method: 'POST' }, fetchImpl);
+}
+
+export type ChecklistStepType = 'manual' | 'photo' | 'reading' | 'auto';
+
+export interface ChecklistAutoThresholds {
+  delta_t_min: number | null;
+  flow_min_lpm: number | null;
+  cop_min: number | null;
+}
+
+export interface ChecklistStep {
+  id: string;
+  title: string;
+  type: ChecklistStepType;
+  required: boolean;
+  hint: string | null;
+  unit?: string | null;
+  min?: number | null;
+  max?: number | null;
+  window_s?: number;
+  thresholds?: ChecklistAutoThresholds;
+}
+
+export interface ChecklistVersion {
+  checklist_id: string;
+  name: string;
+  version: number;
+  steps: ChecklistStep[];
+}
+
+export async function fetchChecklists(fetchImpl: typeof fetch = fetch): Promise<ChecklistVersion[]> {
+  return apiFetch<ChecklistVersion[]>('/api/commissioning/checklists', undefined, fetchImpl);
+}
+
+export async function createChecklistVersion(
+  input: { name: string; steps: ChecklistStep[] },
+  fetchImpl: typeof fetch = fetch,
+): Promise<{ ok: boolean; checklist_id: string; version: number }> {
+  return apiFetch(
+    '/api/admin/commissioning/checklists',
+    { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(input) },
+    fetchImpl,
+  );
+}
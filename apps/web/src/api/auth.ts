@@ -1,4 +1,5 @@
 import type { User } from '@utils/types';
+import type { DisplayPreferences } from '@utils/units';
 import { apiFetch, getCsrfToken, resolveApiUrl, setCsrfToken } from './client';
 
 export interface LoginInput {
@@ -40,6 +41,84 @@ export async function fetchMe(): Promise<User> {
   return apiFetch<User>('/api/auth/me');
 }
 
+export async function fetchPreferences(): Promise<DisplayPreferences> {
+  return apiFetch<DisplayPreferences>('/api/me/preferences');
+}
+
+export async function savePreferences(preferences: DisplayPreferences): Promise<DisplayPreferences> {
+  const data = await apiFetch<{ ok: boolean; preferences: DisplayPreferences }>('/api/me/preferences', {
+    method: 'PUT',
+    body: JSON.stringify(preferences),
+    headers: { 'Content-Type': 'application/json' },
+  });
+  return data.preferences;
+}
+
+export interface NotificationPreferences {
+  email: boolean;
+  digest: 'off' | 'hourly' | 'daily';
+  digestHour: number;
+  quietHours: { start: string; end: string } | null;
+  timezone: string;
+}
+
+export interface AlertSubscription {
+  id: string;
+  name: string;
+  siteIds: string[];
+  clientIds: string[];
+  deviceIds: string[];
+  rules: string[];
+  severities: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+export type AlertSubscriptionInput = Omit<AlertSubscription, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface MyNotifications {
+  email: string;
+  preferences: NotificationPreferences;
+  subscriptions: AlertSubscription[];
+}
+
+export async function fetchMyNotifications(): Promise<MyNotifications> {
+  return apiFetch<MyNotifications>('/api/me/notifications');
+}
+
+export async function saveNotificationPreferences(
+  preferences: NotificationPreferences,
+): Promise<NotificationPreferences> {
+  const data = await apiFetch<{ ok: boolean; preferences: NotificationPreferences }>(
+    '/api/me/notifications/preferences',
+    {
+      method: 'PUT',
+      body: JSON.stringify(preferences),
+      headers: { 'Content-Type': 'application/json' },
+    },
+  );
+  return data.preferences;
+}
+
+export async function saveAlertSubscription(
+  input: AlertSubscriptionInput,
+  id: string | null,
+): Promise<{ ok: boolean; id: string }> {
+  return apiFetch<{ ok: boolean; id: string }>(
+    id ? `/api/me/notifications/subscriptions/${encodeURIComponent(id)}` : '/api/me/notifications/subscriptions',
+    {
+      method: id ? 'PUT' : 'POST',
+      body: JSON.stringify(input),
+      headers: { 'Content-Type': 'application/json' },
+    },
+  );
+}
+
+export async function deleteAlertSubscription(id: string): Promise<void> {
+  await apiFetch(`/api/me/notifications/subscriptions/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
 export async function refresh(): Promise<RefreshResponse> {
   const headers = new Headers();
   const csrf = getCsrfToken();
@@ -13,8 +13,8 @@ export async function getDeviceLatest(deviceId: string) {
   return (await res.json()) as DeviceLatestState;
 }
 
-export async function getDeviceTelemetry(deviceId: string, range: '24h' | '7d') {
-  const params = new URLSearchParams({ range });
+export async function getDeviceTelemetry(deviceId: string, window: { from: Date; to: Date }) {
+  const params = new URLSearchParams({ from: window.from.toISOString(), to: window.to.toISOString() });
   const res = await authFetch(`/api/devices/${deviceId}/series?${params.toString()}`);
   if (!res.ok) throw res;
   return (await res.json()) as TelemetryPoint[];
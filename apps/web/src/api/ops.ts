@@ -4,3 +4,167 @@ import type { OpsSloSnapshot } from './types';
 export function getOpsSnapshot(fetchImpl?: typeof fetch) {
   return apiFetch<OpsSloSnapshot>('/api/ops/slo', undefined, fetchImpl);
 }
+
+export type IncidentStatus = 'investigating' | 'mitigated' | 'resolved';
+export type IncidentSeverity = 'minor' | 'major' | 'critical';
+
+export interface IncidentSummary {
+  incidentId: string;
+  siteId: string;
+  siteName: string | null;
+  startedAt: string;
+  lastAlertAt: string;
+  resolvedAt: string | null;
+  title: string | null;
+  status: IncidentStatus;
+  severity: IncidentSeverity | null;
+  owner: string | null;
+  alerts: { total: number; open: number; ack: number; closed: number };
+  types: Array<{ type: string; severity: string; count: number }>;
+}
+
+export interface IncidentTimelineEntry {
+  ts: string;
+  kind: string;
+  actor: string | null;
+  body: string | null;
+  meta: Record<string, unknown> | null;
+}
+
+export interface IncidentDetail {
+  incidentId: string;
+  siteId: string;
+  siteName: string | null;
+  startedAt: string;
+  lastAlertAt: string;
+  resolvedAt: string | null;
+  title: string | null;
+  status: IncidentStatus;
+  severity: IncidentSeverity | null;
+  owner: string | null;
+  rootCause: string | null;
+  postmortem: string | null;
+  mergedInto: string | null;
+  alerts: Array<{
+    alertId: string;
+    deviceId: string;
+    type: string;
+    severity: string;
+    state: string;
+    openedAt: string;
+    closedAt: string | null;
+    ackBy: string | null;
+  }>;
+  timeline: IncidentTimelineEntry[];
+}
+
+export interface IncidentUpdateInput {
+  title?: string | null;
+  status?: IncidentStatus;
+  severity?: IncidentSeverity | null;
+  owner?: string | null;
+  rootCause?: string | null;
+}
+
+const incidentUrl = (id: string, suffix = '') => `/api/ops/incidents/${encodeURIComponent(id)}${suffix}`;
+
+const jsonInit = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'content-type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+export function listIncidents(params: { since?: string; siteId?: string } = {}, fetchImpl?: typeof fetch) {
+  const query = new URLSearchParams();
+  if (params.since) query.set('since', params.since);
+  if (params.siteId) query.set('siteId', params.siteId);
+  const qs = query.toString();
+  return apiFetch<IncidentSummary[]>(`/api/ops/incidents${qs ? `?${qs}` : ''}`, undefined, fetchImpl);
+}
+
+export function getIncident(id: string, fetchImpl?: typeof fetch) {
+  return apiFetch<IncidentDetail>(incidentUrl(id), undefined, fetchImpl);
+}
+
+export function updateIncident(id: string, input: IncidentUpdateInput, fetchImpl?: typeof fetch) {
+  return apiFetch(incidentUrl(id), jsonInit('PUT', input), fetchImpl);
+}
+
+export function addIncidentComment(id: string, body: string, fetchImpl?: typeof fetch) {
+  return apiFetch(incidentUrl(id, '/comments'), jsonInit('POST', { body }), fetchImpl);
+}
+
+export function saveIncidentPostmortem(id: string, postmortem: string, fetchImpl?: typeof fetch) {
+  return apiFetch(incidentUrl(id, '/postmortem'), jsonInit('PUT', { postmortem }), fetchImpl);
+}
+
+export function linkIncidentAlerts(id: string, alertIds: string[], fetchImpl?: typeof fetch) {
+  return apiFetch<{ ok: boolean; linked: string[] }>(incidentUrl(id, '/alerts'), jsonInit('POST', { alertIds }), fetchImpl);
+}
+
+export function mergeIncidents(id: string, incidentIds: string[], fetchImpl?: typeof fetch) {
+  return apiFetch<{ ok: boolean; merged: string[] }>(
+    incidentUrl(id, '/merge'),
+    jsonInit('POST', { incidentIds }),
+    fetchImpl,
+  );
+}
+
+export function splitIncident(id: string, alertIds: string[], fetchImpl?: typeof fetch) {
+  return apiFetch<{ ok: boolean; incidentId: string }>(incidentUrl(id, '/split'), jsonInit('POST', { alertIds }), fetchImpl);
+}
+
+export type DemandResponseStatus = 'scheduled' | 'active' | 'completed' | 'cancelled';
+
+export interface DemandResponseTotals {
+  devices: number;
+  compliant: number;
+  shiftedKw: number;
+  shiftedKwh: number;
+  preheatExtraKwh: number;
+}
+
+export interface DemandResponseEvent {
+  id: string;
+  name: string;
+  status: DemandResponseStatus;
+  preheatStart: string;
+  startsAt: string;
+  endsAt: string;
+  preheatMin: number;
+  deviceCount: number;
+  totals: DemandResponseTotals | null;
+}
+
+export interface DemandResponseReport {
+  final: boolean;
+  eventId: string;
+  generatedAt: string;
+  window: { preheatStart: string; start: string; end: string; hours: number };
+  totals: DemandResponseTotals;
+  devices: Array<{
+    deviceId: string;
+    ackStatus: string | null;
+    compliance: 'compliant' | 'not_reduced' | 'no_ack' | 'no_data' | 'not_dispatched';
+    baselineKw: number | null;
+    eventKw: number | null;
+    shiftedKw: number | null;
+    shiftedKwh: number | null;
+    preheatKwh: number | null;
+    baselinePreheatKwh: number | null;
+  }>;
+}
+
+const drEventUrl = (id: string, suffix = '') => `/api/ops/dr-events/${encodeURIComponent(id)}${suffix}`;
+
+export function listDemandResponseEvents(fetchImpl?: typeof fetch) {
+  return apiFetch<DemandResponseEvent[]>('/api/ops/dr-events', undefined, fetchImpl);
+}
+
+export function getDemandResponseReport(id: string, fetchImpl?: typeof fetch) {
+  return apiFetch<DemandResponseReport>(drEventUrl(id, '/report'), undefined, fetchImpl);
+}
+
+export function cancelDemandResponseEvent(id: string, fetchImpl?: typeof fetch) {
+  return apiFetch(drEventUrl(id, '/cancel'), { method: 'POST' }, fetchImpl);
+}
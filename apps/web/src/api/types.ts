@@ -31,7 +31,57 @@ export interface DeviceLatestState {
     online?: boolean;
     flags?: Record<string, Record<string, boolean>>;
   };
-  faults?: Array<{ code: string; description?: string; active: boolean }>;
+  faults?: Array<{
+    code: string;
+    description?: string;
+    active: boolean;
+    severity?: FaultSeverity;
+    title?: string;
+  }>;
+}
+
+export type FaultSeverity = 'minor' | 'major' | 'critical';
+
+export interface FaultCatalogueEntry {
+  id: string;
+  manufacturer: string | null;
+  model: string | null;
+  code: string;
+  severity: FaultSeverity;
+  title: string;
+  description: string | null;
+  causes: string[];
+  actions: string[];
+  links: Array<{ label: string; url: string }>;
+}
+
+export interface DeviceFaultHistory {
+  deviceId: string;
+  manufacturer: string | null;
+  model: string | null;
+  from: string;
+  to: string;
+  stats: Array<{
+    code: string;
+    title: string | null;
+    severity: FaultSeverity | null;
+    occurrences: number;
+    totalActiveSec: number;
+    meanDurationSec: number;
+    longestSec: number;
+    lastStartedAt: string;
+    active: boolean;
+  }>;
+  events: Array<{
+    id: string;
+    code: string;
+    severity: FaultSeverity | null;
+    description: string | null;
+    startedAt: string;
+    lastSeenAt: string;
+    endedAt: string | null;
+  }>;
+  catalogue: FaultCatalogueEntry[];
 }
 
 export interface TelemetryPoint {
@@ -39,11 +89,35 @@ export interface TelemetryPoint {
   metrics: Record<string, number | null>;
 }
 
+export interface SeriesComparison {
+  metric: string;
+  mode: 'absolute' | 'difference';
+  normalize: 'none' | 'minmax' | 'zscore';
+  resolution: 'raw' | '1m' | '15m' | '1h' | '1d';
+  from: string;
+  to: string;
+  timestamps: string[];
+  series: Array<{ deviceId: string; siteId: string | null; values: Array<number | null> }>;
+  medians: Array<{ siteId: string; values: Array<number | null> }>;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  route: string;
+  params_json: string;
+  created_at: string;
+}
+
 export interface OverviewKpis {
   online_pct: number;
   open_alerts: number;
   avg_cop: number;
   low_dt: number;
+  /** Running cost over the last 30 days; null until a tariff has priced some telemetry. */
+  cost_30d?: number | null;
+  cost_per_kwh_heat?: number | null;
+  cost_currency?: string | null;
   updated_at?: string;
 }
 
@@ -129,3 +203,72 @@ export interface PublicSettings {
   readOnly: boolean;
   canToggle?: boolean;
 }
+
+export interface EnergySummary {
+  kwhElectric: number;
+  kwhThermal: number;
+  spf: number | null;
+  referenceKwh: number;
+  savingsKwh: number;
+  co2AvoidedKg: number;
+}
+
+export interface EnergyReport {
+  from: string;
+  to: string;
+  granularity: 'day' | 'month';
+  deviceCount: number;
+  settings: {
+    reference: 'resistive' | 'gas';
+    referenceEfficiency: number;
+    gridKgCo2PerKwh: number;
+    gasKgCo2PerKwh: number;
+  };
+  totals: EnergySummary;
+  periods: Array<EnergySummary & { period: string; coveredSec: number }>;
+}
+
+export interface ScheduleSetting {
+  dhwSetC?: number;
+  mode?: string;
+}
+
+export type CommandField =
+  | { name: string; type: 'number'; label: string; required?: boolean; unit?: string; min: number; max: number; step: number; integer?: boolean }
+  | { name: string; type: 'enum'; label: string; required?: boolean; options: string[] }
+  | { name: string; type: 'boolean'; label: string; required?: boolean }
+  | { name: string; type: 'text'; label: string; required?: boolean; pattern: string; maxLength: number };
+
+export interface CommandKind {
+  kind: string;
+  label: string;
+  description: string;
+  confirm: boolean;
+  requireAny: boolean;
+  fields: CommandField[];
+}
+
+export interface IssuedCommand {
+  ok: boolean;
+  commandId: string;
+  expiresAt: string;
+  desired: Record<string, unknown>;
+  clamped: Record<string, unknown>;
+}
+
+export interface DeviceSchedule {
+  deviceId: string;
+  programs: Array<{ id: string; name: string; scope: 'device' | 'site'; timezone: string }>;
+  overrides: Array<{
+    id: string;
+    scope: 'device' | 'site';
+    startsAt: string;
+    endsAt: string;
+    setting: ScheduleSetting;
+    reason: string | null;
+  }>;
+  current: { setting: ScheduleSetting; source: string; label: string; summary: string } | null;
+  next: { at: string; setting: ScheduleSetting | null; source: string | null; label: string; summary: string } | null;
+  conflicts: Array<{ kind: 'duplicate_schedule' | 'overlapping_blocks' | 'overlapping_overrides' | 'clamped'; message: string }>;
+  lastIssued: { source: string; commandId: string | null; issuedAt: string; status: string } | null;
+}
@@ -10,6 +10,7 @@ import { useDeployRibbon } from '@hooks/useDeployRibbon';
 import { useVersion } from '@hooks/useVersion';
 import { useInstallPrompt } from '@hooks/useInstallPrompt';
 import { AboutModal } from '@/components/AboutModal';
+import { PreferencesModal } from '@/components/PreferencesModal';
 
 interface NavItem {
   to: string;
@@ -20,11 +21,13 @@ interface NavItem {
 const NAV_ITEMS: NavItem[] = [
   { to: '/overview', label: 'Overview', roleKey: 'overview' },
   { to: '/devices', label: 'Devices', roleKey: 'devices' },
+  { to: '/devices/compare', label: 'Compare', roleKey: 'devices' },
   { to: '/alerts', label: 'Alerts', roleKey: 'alerts' },
   { to: '/commissioning', label: 'Commissioning', roleKey: 'commissioning' },
   { to: '/ops', label: 'Ops', roleKey: 'ops' },
   { to: '/admin', label: 'Admin', roleKey: 'admin' },
   { to: '/admin/archive', label: 'Archive', roleKey: 'admin' },
+  { to: '/profile', label: 'Profile', roleKey: 'profile' },
 ];
 
 export function AppLayout(): JSX.Element {
@@ -35,6 +38,7 @@ export function AppLayout(): JSX.Element {
   const { data: version } = useVersion();
   const { canInstall, install } = useInstallPrompt();
   const [aboutOpen, setAboutOpen] = useState(false);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
 
   const permittedNav = NAV_ITEMS.filter((item) => hasAnyRole(user?.roles ?? [], ROUTE_ROLES[item.roleKey]));
   const allowToggle = Boolean(user?.roles.includes('admin')) && canToggle;
@@ -126,6 +130,9 @@ export function AppLayout(): JSX.Element {
                     <span className="app-topbar__user-name">{user.name ?? user.email}</span>
                     <span className="app-topbar__user-roles">{user.roles.join(', ')}</span>
                   </div>
+                  <button className="app-button" onClick={() => setPreferencesOpen(true)} type="button">
+                    Preferences
+                  </button>
                   <button className="app-button" onClick={() => void logout()} type="button">
                     Log out
                   </button>
@@ -135,6 +142,7 @@ export function AppLayout(): JSX.Element {
           </div>
         </header>
         <AboutModal open={aboutOpen} onClose={() => setAboutOpen(false)} />
+        <PreferencesModal open={preferencesOpen} onClose={() => setPreferencesOpen(false)} />
         <main className="app-content">
           <Outlet />
         </main>
@@ -13,11 +13,18 @@ import { AlertsPage } from '@pages/AlertsPage';
 import { CommissioningPage } from '@pages/CommissioningPage';
 import OpsPage from '@pages/ops/OpsPage';
 import { AdminPage } from '@pages/AdminPage';
+import { ProfilePage } from '@pages/ProfilePage';
 import { UnauthorizedPage } from '@pages/UnauthorizedPage';
 const DeviceDetailPage = lazy(() =>
   import('@pages/DeviceDetailPage').then((module) => ({ default: module.DeviceDetailPage })),
 );
 
+const ComparePage = lazy(() => import('@pages/ComparePage').then((module) => ({ default: module.ComparePage })));
+
+const IncidentDetailPage = lazy(() =>
+  import('@pages/ops/IncidentDetailPage').then((module) => ({ default: module.IncidentDetailPage })),
+);
+
 const AdminArchivePage = lazy(() =>
   import('@pages/AdminArchivePage').then((module) => ({ default: module.AdminArchivePage })),
 );
@@ -54,6 +61,16 @@ export function AppRouter(): JSX.Element {
               </RoleGuard>
             }
           />
+          <Route
+            path="devices/compare"
+            element={
+              <Suspense fallback={<FullScreenLoader />}>
+                <RoleGuard roles={ROUTE_ROLES.devices}>
+                  <ComparePage />
+                </RoleGuard>
+              </Suspense>
+            }
+          />
           <Route
             path="devices/:deviceId"
             element={
@@ -88,6 +105,16 @@ export function AppRouter(): JSX.Element {
               </RoleGuard>
             }
           />
+          <Route
+            path="ops/incidents/:incidentId"
+            element={
+              <Suspense fallback={<FullScreenLoader />}>
+                <RoleGuard roles={ROUTE_ROLES.ops}>
+                  <IncidentDetailPage />
+                </RoleGuard>
+              </Suspense>
+            }
+          />
           <Route
             path="admin"
             element={
@@ -106,6 +133,14 @@ export function AppRouter(): JSX.Element {
               }
             />
           </Route>
+          <Route
+            path="profile"
+            element={
+              <RoleGuard roles={ROUTE_ROLES.profile}>
+                <ProfilePage />
+              </RoleGuard>
+            }
+          />
         </Route>
         <Route path="*" element={<Navigate to="/overview" replace />} />
       </Routes>
@@ -0,0 +1,96 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { useToast } from '@app/providers/ToastProvider';
+import { usePreferences, useSavePreferences } from '@hooks/usePreferences';
+import { formatNumber, formatQuantity, UNIT_OPTIONS, type DisplayPreferences } from '@utils/units';
+import '@/styles/about.css';
+
+interface PreferencesModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const LOCALES = [
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'de-DE', label: 'Deutsch' },
+  { value: 'fr-FR', label: 'Français' },
+  { value: 'nl-NL', label: 'Nederlands' },
+  { value: 'es-ES', label: 'Español' },
+];
+
+export function PreferencesModal({ open, onClose }: PreferencesModalProps): JSX.Element | null {
+  const preferences = usePreferences();
+  const saveMutation = useSavePreferences();
+  const toast = useToast();
+  const [draft, setDraft] = useState<DisplayPreferences>(preferences);
+
+  useEffect(() => {
+    if (open) setDraft(preferences);
+  }, [open, preferences]);
+
+  if (!open) {
+    return null;
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveMutation.mutate(draft, {
+      onSuccess: () => {
+        toast.success('Display preferences saved.');
+        onClose();
+      },
+      onError: (error) => toast.error(error instanceof Error ? error.message : String(error)),
+    });
+  };
+
+  const select = <K extends keyof typeof UNIT_OPTIONS>(key: K, label: string) => (
+    <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+      <span>{label}</span>
+      <select value={draft[key]} onChange={(event) => setDraft({ ...draft, [key]: event.target.value })}>
+        {UNIT_OPTIONS[key].map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div role="dialog" aria-modal="true" className="modal" aria-label="Display preferences">
+      <form className="card" onSubmit={handleSubmit} style={{ display: 'grid', gap: 12 }}>
+        <h3>Display preferences</h3>
+        <p className="muted">Applies to dashboards, charts, CSV exports and the reports you generate.</p>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Number format</span>
+          <select value={draft.locale} onChange={(event) => setDraft({ ...draft, locale: event.target.value })}>
+            {(LOCALES.some((option) => option.value === draft.locale)
+              ? LOCALES
+              : [...LOCALES, { value: draft.locale, label: draft.locale }]
+            ).map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label} — {formatNumber(1234.5, 1, option.value)}
+              </option>
+            ))}
+          </select>
+        </label>
+        {select('temperature', 'Temperature')}
+        {select('flow', 'Flow')}
+        {select('power', 'Power')}
+        {select('energy', 'Energy')}
+        <p className="muted">
+          Preview: supply {formatQuantity('temperature', 45, draft)}, flow {formatQuantity('flow', 0.5, draft, 2)}, power{' '}
+          {formatQuantity('power', 3.2, draft)}
+        </p>
+        <footer className="row">
+          <button className="btn" type="button" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="app-button" type="submit" disabled={saveMutation.isPending}>
+            Save
+          </button>
+        </footer>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+import { useMemo, useState, type FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  createChecklistVersion,
+  fetchChecklists,
+  type ChecklistStep,
+  type ChecklistStepType,
+  type ChecklistVersion,
+} from '@api/admin';
+import { useToast } from '@app/providers/ToastProvider';
+import { useAuthFetch } from '@hooks/useAuthFetch';
+import { useReadOnly } from '@hooks/useReadOnly';
+import { provisioningErrorMessage } from './DeviceProvisioningCard';
+
+const STEP_TYPES: Array<{ type: ChecklistStepType; label: string }> = [
+  { type: 'manual', label: 'Manual check' },
+  { type: 'photo', label: 'Photo' },
+  { type: 'reading', label: 'Numeric reading' },
+  { type: 'auto', label: 'Auto-measured' },
+];
+
+type StepForm = {
+  id: string;
+  title: string;
+  type: ChecklistStepType;
+  required: boolean;
+  hint: string;
+  unit: string;
+  min: string;
+  max: string;
+  windowS: string;
+  deltaTMin: string;
+  flowMinLpm: string;
+  copMin: string;
+};
+
+type FormState = { name: string; basedOn: string | null; steps: StepForm[] };
+
+const EMPTY_STEP: StepForm = {
+  id: '',
+  title: '',
+  type: 'manual',
+  required: true,
+  hint: '',
+  unit: '',
+  min: '',
+  max: '',
+  windowS: '90',
+  deltaTMin: '',
+  flowMinLpm: '',
+  copMin: '',
+};
+
+const EMPTY_FORM: FormState = { name: '', basedOn: null, steps: [{ ...EMPTY_STEP }] };
+
+const text = (value: number | null | undefined) => (value == null ? '' : String(value));
+const numberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+function toForm(checklist: ChecklistVersion): FormState {
+  return {
+    name: checklist.name,
+    basedOn: checklist.checklist_id,
+    steps: checklist.steps.map((step) => ({
+      id: step.id,
+      title: step.title,
+      type: step.type,
+      required: step.required,
+      hint: step.hint ?? '',
+      unit: step.unit ?? '',
+      min: text(step.min),
+      max: text(step.max),
+      windowS: text(step.window_s ?? 90),
+      deltaTMin: text(step.thresholds?.delta_t_min),
+      flowMinLpm: text(step.thresholds?.flow_min_lpm),
+      copMin: text(step.thresholds?.cop_min),
+    })),
+  };
+}
+
+function toStep(form: StepForm): ChecklistStep {
+  const step: ChecklistStep = {
+    id: form.id.trim(),
+    title: form.title.trim(),
+    type: form.type,
+    required: form.required,
+    hint: form.hint.trim() || null,
+  };
+  if (form.type === 'reading') {
+    step.unit = form.unit.trim() || null;
+    step.min = numberOrNull(form.min);
+    step.max = numberOrNull(form.max);
+  }
+  if (form.type === 'auto') {
+    step.window_s = Number(form.windowS);
+    step.thresholds = {
+      delta_t_min: numberOrNull(form.deltaTMin),
+      flow_min_lpm: numberOrNull(form.flowMinLpm),
+      cop_min: numberOrNull(form.copMin),
+    };
+  }
+  return step;
+}
+
+export function ChecklistEditorCard(): JSX.Element {
+  const authFetch = useAuthFetch();
+  const toast = useToast();
+  const queryClient = useQueryClient();
+  const { ro } = useReadOnly();
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+
+  const checklistsQuery = useQuery({
+    queryKey: ['admin:checklists'],
+    queryFn: () => fetchChecklists(authFetch),
+    staleTime: 60_000,
+  });
+
+  // Newest version of each checklist name, with how many versions exist.
+  const latest = useMemo(() => {
+    const byName = new Map<string, { checklist: ChecklistVersion; versions: number }>();
+    for (const checklist of checklistsQuery.data ?? []) {
+      const current = byName.get(checklist.name);
+      if (!current) {
+        byName.set(checklist.name, { checklist, versions: 1 });
+      } else {
+        current.versions += 1;
+        if (checklist.version > current.checklist.version) current.checklist = checklist;
+      }
+    }
+    return [...byName.values()].sort((a, b) => a.checklist.name.localeCompare(b.checklist.name));
+  }, [checklistsQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (state: FormState) =>
+      createChecklistVersion({ name: state.name.trim(), steps: state.steps.map(toStep) }, authFetch),
+    onSuccess: (data) => {
+      toast.success(`Published ${data.checklist_id}.`);
+      setForm(EMPTY_FORM);
+      void queryClient.invalidateQueries({ queryKey: ['admin:checklists'] });
+      void queryClient.invalidateQueries({ queryKey: ['comm:lists'] });
+    },
+    onError: (error) => toast.error(provisioningErrorMessage(error)),
+  });
+
+  const updateStep = (index: number, patch: Partial<StepForm>) =>
+    setForm({ ...form, steps: form.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)) });
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...form.steps];
+    const [step] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, step!);
+    setForm({ ...form, steps });
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  return (
+    <section className="card" aria-busy={checklistsQuery.isLoading}>
+      <h3>Commissioning checklists</h3>
+      <p className="muted">
+        Saving publishes a new version; sessions keep the version they were started with. Auto-measured steps are
+        passed or failed by the median of the measurement window, numeric readings by their range.
+      </p>
+      {checklistsQuery.isError ? <p className="card__error">Unable to load checklists.</p> : null}
+      {latest.length > 0 ? (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Checklist</th>
+              <th>Latest version</th>
+              <th>Steps</th>
+              <th>Versions</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {latest.map(({ checklist, versions }) => (
+              <tr key={checklist.name}>
+                <td>{checklist.name}</td>
+                <td>v{checklist.version}</td>
+                <td>{checklist.steps.length}</td>
+                <td>{versions}</td>
+                <td>
+                  <button className="app-button" type="button" onClick={() => setForm(toForm(checklist))}>
+                    Edit as new version
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : checklistsQuery.isLoading ? (
+        <p>Loading checklists…</p>
+      ) : null}
+
+      <form onSubmit={handleSubmit} style={{ display: 'grid', gap: 12, marginTop: 16 }}>
+        <h4>{form.basedOn ? `New version of ${form.name} (from ${form.basedOn})` : 'New checklist'}</h4>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Name</span>
+          <input
+            value={form.name}
+            disabled={Boolean(form.basedOn)}
+            placeholder="field-install"
+            onChange={(event) => setForm({ ...form, name: event.target.value })}
+            required
+          />
+        </label>
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Step id</th>
+              <th>Title</th>
+              <th>Type</th>
+              <th>Required</th>
+              <th>Pass criteria</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {form.steps.map((step, index) => (
+              <tr key={index}>
+                <td>
+                  <input
+                    value={step.id}
+                    placeholder="flow_detected"
+                    style={{ width: 140 }}
+                    onChange={(event) => updateStep(index, { id: event.target.value })}
+                    required
+                  />
+                </td>
+                <td>
+                  <input value={step.title} onChange={(event) => updateStep(index, { title: event.target.value })} required />
+                  <input
+                    value={step.hint}
+                    placeholder="Hint for the engineer (optional)"
+                    style={{ display: 'block', marginTop: 4 }}
+                    onChange={(event) => updateStep(index, { hint: event.target.value })}
+                  />
+                </td>
+                <td>
+                  <select
+                    value={step.type}
+                    onChange={(event) => updateStep(index, { type: event.target.value as ChecklistStepType })}
+                  >
+                    {STEP_TYPES.map((entry) => (
+                      <option key={entry.type} value={entry.type}>
+                        {entry.label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={step.required}
+                    onChange={(event) => updateStep(index, { required: event.target.checked })}
+                  />
+                </td>
+                <td>
+                  {step.type === 'reading' ? (
+                    <div className="button-row">
+                      <input
+                        type="number"
+                        step="any"
+                        value={step.min}
+                        placeholder="Min"
+                        style={{ width: 70 }}
+                        onChange={(event) => updateStep(index, { min: event.target.value })}
+                      />
+                      <input
+                        type="number"
+                        step="any"
+                        value={step.max}
+                        placeholder="Max"
+                        style={{ width: 70 }}
+                        onChange={(event) => updateStep(index, { max: event.target.value })}
+                      />
+                      <input
+                        value={step.unit}
+                        placeholder="Unit"
+                        style={{ width: 60 }}
+                        onChange={(event) => updateStep(index, { unit: event.target.value })}
+                      />
+                    </div>
+                  ) : step.type === 'auto' ? (
+                    <div style={{ display: 'grid', gap: 4 }}>
+                      <label>
+                        Window (s){' '}
+                        <input
+                          type="number"
+                          min={10}
+                          max={300}
+                          value={step.windowS}
+                          style={{ width: 70 }}
+                          onChange={(event) => updateStep(index, { windowS: event.target.value })}
+                        />
+                      </label>
+                      <label>
+                        ΔT ≥ (°C){' '}
+                        <input
+                          type="number"
+                          step="any"
+                          value={step.deltaTMin}
+                          style={{ width: 70 }}
+                          onChange={(event) => updateStep(index, { deltaTMin: event.target.value })}
+                        />
+                      </label>
+                      <label>
+                        Flow ≥ (L/min){' '}
+                        <input
+                          type="number"
+                          step="any"
+                          value={step.flowMinLpm}
+                          style={{ width: 70 }}
+                          onChange={(event) => updateStep(index, { flowMinLpm: event.target.value })}
+                        />
+                      </label>
+                      <label>
+                        COP ≥{' '}
+                        <input
+                          type="number"
+                          step="any"
+                          value={step.copMin}
+                          style={{ width: 70 }}
+                          onChange={(event) => updateStep(index, { copMin: event.target.value })}
+                        />
+                      </label>
+                    </div>
+                  ) : (
+                    <span className="muted">{step.type === 'photo' ? 'Photo evidence' : 'Engineer decides'}</span>
+                  )}
+                </td>
+                <td>
+                  <div className="button-row">
+                    <button
+                      className="app-button"
+                      type="button"
+                      disabled={index === 0}
+                      onClick={() => moveStep(index, -1)}
+                      aria-label="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      className="app-button"
+                      type="button"
+                      disabled={index === form.steps.length - 1}
+                      onClick={() => moveStep(index, 1)}
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      className="app-button"
+                      type="button"
+                      disabled={form.steps.length === 1}
+                      onClick={() => setForm({ ...form, steps: form.steps.filter((_, i) => i !== index) })}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="button-row">
+          <button
+            className="app-button"
+            type="button"
+            onClick={() => setForm({ ...form, steps: [...form.steps, { ...EMPTY_STEP }] })}
+          >
+            Add step
+          </button>
+          <button className="app-button" type="submit" disabled={ro || saveMutation.isPending}>
+            {saveMutation.isPending ? 'Publishing…' : 'Publish version'}
+          </button>
+          {form.basedOn || form.name ? (
+            <button className="app-button" type="button" onClick={() => setForm(EMPTY_FORM)}>
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,431 @@
+import { useState, type FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  deleteControllerProfile,
+  fetchControllerProfiles,
+  saveControllerProfile,
+  testControllerProfile,
+  type ControllerProfile,
+  type ControllerProfileInput,
+  type ControllerProfileTestResult,
+  type ProfileMetric,
+} from '@api/admin';
+import { useToast } from '@app/providers/ToastProvider';
+import { useAuthFetch } from '@hooks/useAuthFetch';
+import { useReadOnly } from '@hooks/useReadOnly';
+
+const METRICS: Array<{ metric: ProfileMetric; label: string; units: string[] }> = [
+  { metric: 'supplyC', label: 'Supply temperature', units: ['C', 'F', 'K'] },
+  { metric: 'returnC', label: 'Return temperature', units: ['C', 'F', 'K'] },
+  { metric: 'tankC', label: 'Tank temperature', units: ['C', 'F', 'K'] },
+  { metric: 'ambientC', label: 'Ambient temperature', units: ['C', 'F', 'K'] },
+  { metric: 'flowLps', label: 'Flow', units: ['lps', 'lpm', 'm3h', 'gpm'] },
+  { metric: 'compCurrentA', label: 'Compressor current', units: ['A', 'mA'] },
+  { metric: 'eevSteps', label: 'EEV position', units: ['steps'] },
+  { metric: 'powerKW', label: 'Electrical power', units: ['kW', 'W'] },
+];
+
+type FieldState = { metric: ProfileMetric; keys: string; unit: string; scale: string; offset: string };
+
+type FormState = {
+  id: string;
+  existing: boolean;
+  name: string;
+  manufacturer: string;
+  model: string;
+  description: string;
+  fields: FieldState[];
+  required: ProfileMetric[];
+};
+
+const EMPTY_FORM: FormState = {
+  id: '',
+  existing: false,
+  name: '',
+  manufacturer: '',
+  model: '',
+  description: '',
+  fields: [
+    { metric: 'supplyC', keys: '', unit: 'C', scale: '1', offset: '0' },
+    { metric: 'returnC', keys: '', unit: 'C', scale: '1', offset: '0' },
+  ],
+  required: ['supplyC', 'returnC'],
+};
+
+function toForm(profile: ControllerProfile, existing: boolean): FormState {
+  return {
+    id: existing ? profile.id : '',
+    existing,
+    name: existing ? profile.name : `${profile.name} (copy)`,
+    manufacturer: profile.manufacturer ?? '',
+    model: profile.model ?? '',
+    description: profile.description ?? '',
+    fields: profile.fields.map((field) => ({
+      metric: field.metric,
+      keys: field.keys.join(', '),
+      unit: field.unit,
+      scale: String(field.scale),
+      offset: String(field.offset),
+    })),
+    required: profile.required,
+  };
+}
+
+function toInput(state: FormState): ControllerProfileInput {
+  return {
+    name: state.name,
+    manufacturer: state.manufacturer.trim() || null,
+    model: state.model.trim() || null,
+    description: state.description.trim() || null,
+    fields: state.fields.map((field) => ({
+      metric: field.metric,
+      keys: field.keys
+        .split(',')
+        .map((key) => key.trim())
+        .filter(Boolean),
+      unit: field.unit,
+      scale: Number(field.scale),
+      offset: Number(field.offset),
+    })),
+    required: state.required,
+  };
+}
+
+const metricLabel = (metric: ProfileMetric) => METRICS.find((entry) => entry.metric === metric)?.label ?? metric;
+
+export function ControllerProfilesCard(): JSX.Element {
+  const authFetch = useAuthFetch();
+  const toast = useToast();
+  const queryClient = useQueryClient();
+  const { ro } = useReadOnly();
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [sample, setSample] = useState('{\n  "supply_c": 45.2,\n  "return_c": 40.1\n}');
+  const [testResult, setTestResult] = useState<ControllerProfileTestResult | null>(null);
+
+  const profilesQuery = useQuery({
+    queryKey: ['admin:controller-profiles'],
+    queryFn: () => fetchControllerProfiles(authFetch),
+    staleTime: 60_000,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (state: FormState) => saveControllerProfile(state.id.trim(), toInput(state), state.existing, authFetch),
+    onSuccess: () => {
+      toast.success('Controller profile saved.');
+      setForm(EMPTY_FORM);
+      setTestResult(null);
+      void queryClient.invalidateQueries({ queryKey: ['admin:controller-profiles'] });
+    },
+    onError: (error) => toast.error(error instanceof Error ? error.message : String(error)),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteControllerProfile(id, authFetch),
+    onSuccess: () => {
+      toast.success('Controller profile removed.');
+      void queryClient.invalidateQueries({ queryKey: ['admin:controller-profiles'] });
+    },
+    onError: () => toast.error('Failed to remove the profile. Devices may still use it.'),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (state: FormState) => {
+      const metrics = JSON.parse(sample) as Record<string, unknown>;
+      return testControllerProfile(state.id.trim(), metrics, toInput(state), authFetch);
+    },
+    onSuccess: setTestResult,
+    onError: (error) => {
+      setTestResult(null);
+      toast.error(error instanceof SyntaxError ? 'Sample metrics must be a JSON object.' : String(error));
+    },
+  });
+
+  const updateField = (index: number, patch: Partial<FieldState>) =>
+    setForm({ ...form, fields: form.fields.map((field, i) => (i === index ? { ...field, ...patch } : field)) });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  const profiles = profilesQuery.data?.profiles ?? [];
+  const builtin = profilesQuery.data?.builtin;
+  const mappedMetrics = Array.from(new Set(form.fields.map((field) => field.metric)));
+
+  return (
+    <section className="card" aria-busy={profilesQuery.isLoading}>
+      <h3>Controller profiles</h3>
+      <p className="muted">
+        A profile maps the metric keys a controller posts to <code>/api/ingest/:profileId</code> onto Greenbro metrics,
+        converting units and scaling on the way. Devices on a profile id without an entry here use the built-in
+        Greenbro mapping.
+      </p>
+      {profilesQuery.isError ? <p className="card__error">Unable to load controller profiles.</p> : null}
+      {profiles.length > 0 ? (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Profile id</th>
+              <th>Name</th>
+              <th>Heat pump</th>
+              <th>Devices</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {profiles.map((profile) => (
+              <tr key={profile.id}>
+                <td>{profile.id}</td>
+                <td>{profile.name}</td>
+                <td>{[profile.manufacturer, profile.model].filter(Boolean).join(' · ') || '—'}</td>
+                <td>{profile.deviceCount ?? 0}</td>
+                <td>
+                  <div className="button-row">
+                    <button
+                      className="app-button"
+                      type="button"
+                      onClick={() => {
+                        setForm(toForm(profile, true));
+                        setTestResult(null);
+                      }}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      className="app-button"
+                      type="button"
+                      disabled={ro || deleteMutation.isPending || (profile.deviceCount ?? 0) > 0}
+                      onClick={() => {
+                        if (window.confirm(`Remove controller profile ${profile.id}?`)) {
+                          deleteMutation.mutate(profile.id);
+                        }
+                      }}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : profilesQuery.isLoading ? (
+        <p>Loading controller profiles…</p>
+      ) : (
+        <p className="muted">No controller profiles registered; all devices use the built-in mapping.</p>
+      )}
+      {builtin ? (
+        <div className="button-row">
+          <button
+            className="app-button"
+            type="button"
+            onClick={() => {
+              setForm(toForm(builtin, false));
+              setTestResult(null);
+            }}
+          >
+            Start from built-in mapping
+          </button>
+        </div>
+      ) : null}
+
+      <form onSubmit={handleSubmit} style={{ display: 'grid', gap: 12, marginTop: 16 }}>
+        <h4>{form.existing ? `Edit ${form.id}` : 'Add controller profile'}</h4>
+        <div style={{ display: 'grid', gap: 12, gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))' }}>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+            <span>Profile id</span>
+            <input
+              value={form.id}
+              disabled={form.existing}
+              placeholder="acme-aw12"
+              onChange={(event) => setForm({ ...form, id: event.target.value })}
+              required
+            />
+          </label>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+            <span>Name</span>
+            <input value={form.name} onChange={(event) => setForm({ ...form, name: event.target.value })} required />
+          </label>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+            <span>Manufacturer</span>
+            <input
+              value={form.manufacturer}
+              onChange={(event) => setForm({ ...form, manufacturer: event.target.value })}
+            />
+          </label>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+            <span>Model</span>
+            <input value={form.model} onChange={(event) => setForm({ ...form, model: event.target.value })} />
+          </label>
+        </div>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Description</span>
+          <textarea
+            rows={2}
+            value={form.description}
+            onChange={(event) => setForm({ ...form, description: event.target.value })}
+          />
+        </label>
+
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Metric</th>
+              <th>Payload keys</th>
+              <th>Unit</th>
+              <th>Scale</th>
+              <th>Offset</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {form.fields.map((field, index) => {
+              const units = METRICS.find((entry) => entry.metric === field.metric)?.units ?? [];
+              return (
+                <tr key={index}>
+                  <td>
+                    <select
+                      value={field.metric}
+                      onChange={(event) => {
+                        const metric = event.target.value as ProfileMetric;
+                        const nextUnits = METRICS.find((entry) => entry.metric === metric)?.units ?? [];
+                        updateField(index, { metric, unit: nextUnits.includes(field.unit) ? field.unit : nextUnits[0]! });
+                      }}
+                    >
+                      {METRICS.map((entry) => (
+                        <option key={entry.metric} value={entry.metric}>
+                          {entry.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      value={field.keys}
+                      placeholder="supply_c, LWT"
+                      onChange={(event) => updateField(index, { keys: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <select value={field.unit} onChange={(event) => updateField(index, { unit: event.target.value })}>
+                      {units.map((unit) => (
+                        <option key={unit} value={unit}>
+                          {unit}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      step="any"
+                      value={field.scale}
+                      style={{ width: 80 }}
+                      onChange={(event) => updateField(index, { scale: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      step="any"
+                      value={field.offset}
+                      style={{ width: 80 }}
+                      onChange={(event) => updateField(index, { offset: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      className="app-button"
+                      type="button"
+                      onClick={() => setForm({ ...form, fields: form.fields.filter((_, i) => i !== index) })}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div className="button-row">
+          <button
+            className="app-button"
+            type="button"
+            onClick={() =>
+              setForm({
+                ...form,
+                fields: [...form.fields, { metric: 'tankC', keys: '', unit: 'C', scale: '1', offset: '0' }],
+              })
+            }
+          >
+            Add field
+          </button>
+        </div>
+        <fieldset style={{ display: 'flex', flexWrap: 'wrap', gap: 12 }}>
+          <legend>Required metrics</legend>
+          {mappedMetrics.map((metric) => (
+            <label key={metric} style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+              <input
+                type="checkbox"
+                checked={form.required.includes(metric)}
+                onChange={(event) =>
+                  setForm({
+                    ...form,
+                    required: event.target.checked
+                      ? [...form.required, metric]
+                      : form.required.filter((entry) => entry !== metric),
+                  })
+                }
+              />
+              <span>{metricLabel(metric)}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Sample metrics (JSON)</span>
+          <textarea rows={4} value={sample} onChange={(event) => setSample(event.target.value)} />
+        </label>
+        {testResult ? (
+          <div>
+            <span className={`status-pill status-pill--${testResult.accepted ? 'positive' : 'negative'}`}>
+              {testResult.accepted ? 'Accepted' : `Rejected: missing ${testResult.missing.join(', ')}`}
+            </span>
+            <ul>
+              {Object.entries(testResult.metrics).map(([metric, value]) => (
+                <li key={metric}>
+                  {metricLabel(metric as ProfileMetric)}: {Number(value).toFixed(3)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+        <div className="button-row">
+          <button
+            className="app-button"
+            type="button"
+            disabled={testMutation.isPending}
+            onClick={() => testMutation.mutate(form)}
+          >
+            Test mapping
+          </button>
+          <button className="app-button" type="submit" disabled={ro || saveMutation.isPending}>
+            {form.existing ? 'Save changes' : 'Add profile'}
+          </button>
+          {form.existing || form.name ? (
+            <button
+              className="app-button"
+              type="button"
+              onClick={() => {
+                setForm(EMPTY_FORM);
+                setTestResult(null);
+              }}
+            >
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </form>
+    </section>
+  );
+}
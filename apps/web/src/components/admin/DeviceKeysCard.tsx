@@ -0,0 +1,231 @@
+import { useState, type FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  createProvisioningZip,
+  fetchDeviceKeys,
+  releaseDeviceQuarantine,
+  revokeDeviceKey,
+  rotateDeviceKey,
+  type DeviceKeyStatus,
+  type RotatedDeviceKey,
+} from '@api/admin';
+import { useToast } from '@app/providers/ToastProvider';
+import { useAuthFetch } from '@hooks/useAuthFetch';
+import { useReadOnly } from '@hooks/useReadOnly';
+import { provisioningErrorMessage } from './DeviceProvisioningCard';
+
+const STATUS_PILLS: Record<DeviceKeyStatus, { tone: string; label: string }> = {
+  active: { tone: 'positive', label: 'Active' },
+  expiring: { tone: 'warning', label: 'Grace period' },
+  expired: { tone: 'neutral', label: 'Expired' },
+  revoked: { tone: 'negative', label: 'Revoked' },
+};
+
+// Keys backfilled from devices carry SQLite `datetime('now')` timestamps without a zone.
+const formatTimestamp = (value: string | null) =>
+  value ? new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`).toLocaleString() : '—';
+
+export function DeviceKeysCard(): JSX.Element {
+  const authFetch = useAuthFetch();
+  const toast = useToast();
+  const queryClient = useQueryClient();
+  const { ro } = useReadOnly();
+  const [input, setInput] = useState('');
+  const [deviceId, setDeviceId] = useState('');
+  const [graceHours, setGraceHours] = useState('24');
+  const [rotated, setRotated] = useState<RotatedDeviceKey | null>(null);
+
+  const keysQuery = useQuery({
+    queryKey: ['admin:device-keys', deviceId],
+    queryFn: () => fetchDeviceKeys(deviceId, authFetch),
+    enabled: Boolean(deviceId),
+    staleTime: 30_000,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: () => rotateDeviceKey(deviceId, Number(graceHours), authFetch),
+    onSuccess: (data) => {
+      setRotated(data);
+      toast.success('New device key issued.');
+      void queryClient.invalidateQueries({ queryKey: ['admin:device-keys', deviceId] });
+    },
+    onError: (error) => toast.error(provisioningErrorMessage(error)),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (keyId: string) => revokeDeviceKey(deviceId, keyId, authFetch),
+    onSuccess: () => {
+      toast.success('Device key revoked.');
+      void queryClient.invalidateQueries({ queryKey: ['admin:device-keys', deviceId] });
+    },
+    onError: (error) => toast.error(provisioningErrorMessage(error)),
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: () => releaseDeviceQuarantine(deviceId, authFetch),
+    onSuccess: () => {
+      toast.success(`${deviceId} released from quarantine.`);
+      void queryClient.invalidateQueries({ queryKey: ['admin:device-keys', deviceId] });
+      void queryClient.invalidateQueries({ queryKey: ['devices'] });
+    },
+    onError: (error) => toast.error(provisioningErrorMessage(error)),
+  });
+
+  const zipMutation = useMutation({
+    mutationFn: () => createProvisioningZip([deviceId], null, authFetch),
+    onSuccess: (data) => window.open(data.url, '_blank', 'noopener'),
+    onError: (error) => toast.error(provisioningErrorMessage(error)),
+  });
+
+  const handleLoad = (event: FormEvent) => {
+    event.preventDefault();
+    setDeviceId(input.trim());
+    setRotated(null);
+  };
+
+  const keys = keysQuery.data?.keys ?? [];
+  const quarantinedAt = keysQuery.data?.quarantinedAt ?? null;
+
+  return (
+    <section className="card">
+      <h3>Device keys</h3>
+      <p className="muted">
+        Rotating issues a new key and keeps the previous one valid for the grace period so the controller can be
+        re-flashed without dropping telemetry. Revoking stops a key immediately.
+      </p>
+      <form onSubmit={handleLoad} className="button-row">
+        <input value={input} placeholder="Device id" onChange={(event) => setInput(event.target.value)} />
+        <button className="app-button" type="submit" disabled={!input.trim()}>
+          Load keys
+        </button>
+      </form>
+
+      {!deviceId ? null : keysQuery.isLoading ? (
+        <p>Loading keys…</p>
+      ) : keysQuery.isError ? (
+        <p className="card__error">Unable to load keys for {deviceId}.</p>
+      ) : (
+        <div style={{ display: 'grid', gap: 12, marginTop: 12 }}>
+          {quarantinedAt ? (
+            <div className="button-row">
+              <span className="status-pill status-pill--warning">
+                Quarantined {formatTimestamp(quarantinedAt)}
+                {keysQuery.data?.quarantineReason ? ` (${keysQuery.data.quarantineReason.replace(/_/g, ' ')})` : ''}.
+                Ingest, heartbeats and command polls are refused until released.
+              </span>
+              <button
+                className="app-button"
+                type="button"
+                disabled={ro || releaseMutation.isPending}
+                onClick={() => releaseMutation.mutate()}
+              >
+                {releaseMutation.isPending ? 'Releasing…' : 'Release'}
+              </button>
+            </div>
+          ) : null}
+          {keys.length ? (
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Key</th>
+                  <th>Status</th>
+                  <th>Created</th>
+                  <th>Expires</th>
+                  <th>Last used</th>
+                  <th>Seen from</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {keys.map((key) => {
+                  const pill = STATUS_PILLS[key.status];
+                  return (
+                    <tr key={key.id}>
+                      <td>{key.label ?? key.id.slice(0, 8)}</td>
+                      <td>
+                        <span className={`status-pill status-pill--${pill.tone}`}>{pill.label}</span>
+                      </td>
+                      <td>{formatTimestamp(key.createdAt)}</td>
+                      <td>{formatTimestamp(key.revokedAt ?? key.expiresAt)}</td>
+                      <td>
+                        {formatTimestamp(key.lastUsedAt)}
+                        {key.lastUsedIp ? <span className="muted"> ({key.lastUsedIp})</span> : null}
+                      </td>
+                      <td>
+                        {key.usage.length ? (
+                          <ul style={{ margin: 0, paddingLeft: 16 }}>
+                            {key.usage.map((entry) => (
+                              <li key={entry.ip} title={`First seen ${formatTimestamp(entry.firstSeenAt)}`}>
+                                {entry.ip} · {formatTimestamp(entry.lastSeenAt)}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                      <td>
+                        <button
+                          className="app-button"
+                          type="button"
+                          disabled={ro || revokeMutation.isPending || key.status === 'revoked' || key.status === 'expired'}
+                          onClick={() => {
+                            if (window.confirm(`Revoke this key? ${deviceId} will be rejected if it still uses it.`)) {
+                              revokeMutation.mutate(key.id);
+                            }
+                          }}
+                        >
+                          Revoke
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <p className="muted">No tracked keys; the device still uses its original key.</p>
+          )}
+          <div className="button-row">
+            <label style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+              <span>Grace period (hours)</span>
+              <input
+                type="number"
+                min={0}
+                max={720}
+                value={graceHours}
+                style={{ width: 80 }}
+                onChange={(event) => setGraceHours(event.target.value)}
+              />
+            </label>
+            <button
+              className="app-button"
+              type="button"
+              disabled={ro || rotateMutation.isPending || graceHours === ''}
+              onClick={() => rotateMutation.mutate()}
+            >
+              {rotateMutation.isPending ? 'Rotating…' : 'Rotate key'}
+            </button>
+            <button
+              className="app-button"
+              type="button"
+              disabled={ro || zipMutation.isPending}
+              onClick={() => zipMutation.mutate()}
+            >
+              Provisioning ZIP
+            </button>
+          </div>
+          {rotated ? (
+            <div style={{ display: 'grid', gap: 4 }}>
+              <span className="status-pill status-pill--warning">
+                Copy this key now; it cannot be shown again. The previous key works until{' '}
+                {formatTimestamp(rotated.previousExpiresAt)}.
+              </span>
+              <code>{rotated.key}</code>
+            </div>
+          ) : null}
+        </div>
+      )}
+    </section>
+  );
+}
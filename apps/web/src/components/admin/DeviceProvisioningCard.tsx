@@ -0,0 +1,151 @@
+import { useState, type ChangeEvent, type FormEvent } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { bulkProvisionDevices, createProvisioningZip, type BulkProvisionResult } from '@api/admin';
+import { useToast } from '@app/providers/ToastProvider';
+import { useAuthFetch } from '@hooks/useAuthFetch';
+import { useReadOnly } from '@hooks/useReadOnly';
+
+const SAMPLE_CSV = 'device_id,profile_id,site_id,manufacturer,model\nHP-2001,greenbro-v2,SITE-CPT-001,,\n';
+
+/** Turns the JSON error bodies of the provisioning routes into one readable line. */
+export function provisioningErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(message) as { error?: string; errors?: string[]; ids?: string[] };
+    if (body.errors?.length) return body.errors.join('; ');
+    if (body.error === 'exists' && body.ids?.length) return `Already provisioned: ${body.ids.join(', ')}`;
+    if (body.error === 'not_found' && body.ids?.length) return `Unknown devices: ${body.ids.join(', ')}`;
+  } catch {
+    // Plain-text error body.
+  }
+  return message;
+}
+
+function keysCsvHref(result: BulkProvisionResult): string {
+  const lines = ['device_id,key_id,device_key', ...result.devices.map((row) => `${row.deviceId},${row.keyId},${row.key}`)];
+  return `data:text/csv;charset=utf-8,${encodeURIComponent(`${lines.join('\n')}\n`)}`;
+}
+
+export function DeviceProvisioningCard(): JSX.Element {
+  const authFetch = useAuthFetch();
+  const toast = useToast();
+  const queryClient = useQueryClient();
+  const { ro } = useReadOnly();
+  const [csv, setCsv] = useState(SAMPLE_CSV);
+  const [result, setResult] = useState<BulkProvisionResult | null>(null);
+  const [zipUrl, setZipUrl] = useState<string | null>(null);
+
+  const provisionMutation = useMutation({
+    mutationFn: (text: string) => bulkProvisionDevices(text, authFetch),
+    onSuccess: (data) => {
+      setResult(data);
+      setZipUrl(null);
+      toast.success(`${data.devices.length} device${data.devices.length === 1 ? '' : 's'} provisioned.`);
+      void queryClient.invalidateQueries({ queryKey: ['devices'] });
+    },
+    onError: (error) => toast.error(provisioningErrorMessage(error)),
+  });
+
+  const zipMutation = useMutation({
+    mutationFn: (batch: BulkProvisionResult) =>
+      createProvisioningZip(
+        batch.devices.map((row) => row.deviceId),
+        batch.batchId,
+        authFetch,
+      ),
+    onSuccess: (data) => setZipUrl(data.url),
+    onError: (error) => toast.error(provisioningErrorMessage(error)),
+  });
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setCsv(await file.text());
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    provisionMutation.mutate(csv);
+  };
+
+  return (
+    <section className="card">
+      <h3>Device provisioning</h3>
+      <p className="muted">
+        Create devices in bulk from a CSV with a header row. <code>device_id</code> and <code>profile_id</code> are
+        required; <code>site_id</code>, <code>manufacturer</code> and <code>model</code> are optional. Each device gets
+        a new key, shown once below.
+      </p>
+      <form onSubmit={handleSubmit} style={{ display: 'grid', gap: 12 }}>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>CSV file</span>
+          <input type="file" accept=".csv,text/csv" onChange={(event) => void handleFile(event)} />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Devices</span>
+          <textarea rows={6} value={csv} onChange={(event) => setCsv(event.target.value)} spellCheck={false} />
+        </label>
+        <div className="button-row">
+          <button className="app-button" type="submit" disabled={ro || provisionMutation.isPending || !csv.trim()}>
+            {provisionMutation.isPending ? 'Provisioning…' : 'Provision devices'}
+          </button>
+        </div>
+      </form>
+
+      {result ? (
+        <div style={{ display: 'grid', gap: 12, marginTop: 16 }}>
+          <span className="status-pill status-pill--warning">
+            Copy or download these keys now; they cannot be shown again.
+          </span>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Device</th>
+                <th>Device key</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.devices.map((row) => (
+                <tr key={row.deviceId}>
+                  <td>{row.deviceId}</td>
+                  <td>
+                    <code>{row.key}</code>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="button-row">
+            <a className="app-button" href={keysCsvHref(result)} download={`device-keys-${result.batchId}.csv`}>
+              Download keys (CSV)
+            </a>
+            <button
+              className="app-button"
+              type="button"
+              disabled={zipMutation.isPending}
+              onClick={() => zipMutation.mutate(result)}
+            >
+              {zipMutation.isPending ? 'Building ZIP…' : 'Build provisioning ZIP'}
+            </button>
+            {zipUrl ? (
+              <a className="app-button" href={zipUrl} target="_blank" rel="noreferrer">
+                Download provisioning ZIP
+              </a>
+            ) : null}
+            <button
+              className="app-button"
+              type="button"
+              onClick={() => {
+                setResult(null);
+                setZipUrl(null);
+              }}
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
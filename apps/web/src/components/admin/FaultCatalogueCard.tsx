@@ -0,0 +1,322 @@
+import { useState, type FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  deleteFaultCatalogueEntry,
+  fetchFaultCatalogue,
+  saveDeviceModel,
+  saveFaultCatalogueEntry,
+  type FaultCatalogueInput,
+} from '@api/admin';
+import type { FaultCatalogueEntry, FaultSeverity } from '@api/types';
+import { useToast } from '@app/providers/ToastProvider';
+import { useAuthFetch } from '@hooks/useAuthFetch';
+import { useReadOnly } from '@hooks/useReadOnly';
+
+type FormState = {
+  id: string | null;
+  manufacturer: string;
+  model: string;
+  code: string;
+  severity: FaultSeverity;
+  title: string;
+  description: string;
+  causes: string;
+  actions: string;
+  links: string;
+};
+
+const EMPTY_FORM: FormState = {
+  id: null,
+  manufacturer: '',
+  model: '',
+  code: '',
+  severity: 'major',
+  title: '',
+  description: '',
+  causes: '',
+  actions: '',
+  links: '',
+};
+
+const splitLines = (value: string) =>
+  value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/** Links are entered one per line as `Label | https://…`; a bare URL is its own label. */
+function parseLinks(value: string): FaultCatalogueInput['links'] {
+  return splitLines(value).map((line) => {
+    const [label, url] = line.includes('|') ? line.split('|', 2).map((part) => part.trim()) : [line, line];
+    return { label: label || url!, url: url! };
+  });
+}
+
+function toForm(entry: FaultCatalogueEntry): FormState {
+  return {
+    id: entry.id,
+    manufacturer: entry.manufacturer ?? '',
+    model: entry.model ?? '',
+    code: entry.code,
+    severity: entry.severity,
+    title: entry.title,
+    description: entry.description ?? '',
+    causes: entry.causes.join('\n'),
+    actions: entry.actions.join('\n'),
+    links: entry.links.map((link) => `${link.label} | ${link.url}`).join('\n'),
+  };
+}
+
+export function FaultCatalogueCard(): JSX.Element {
+  const authFetch = useAuthFetch();
+  const toast = useToast();
+  const queryClient = useQueryClient();
+  const { ro } = useReadOnly();
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [filter, setFilter] = useState('');
+  const [deviceModel, setDeviceModel] = useState({ deviceId: '', manufacturer: '', model: '' });
+
+  const catalogueQuery = useQuery({
+    queryKey: ['admin:fault-catalogue'],
+    queryFn: () => fetchFaultCatalogue(authFetch),
+    staleTime: 60_000,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (state: FormState) => {
+      const input: FaultCatalogueInput = {
+        manufacturer: state.manufacturer.trim() || null,
+        model: state.model.trim() || null,
+        code: state.code,
+        severity: state.severity,
+        title: state.title,
+        description: state.description.trim() || null,
+        causes: splitLines(state.causes),
+        actions: splitLines(state.actions),
+        links: parseLinks(state.links),
+      };
+      return saveFaultCatalogueEntry(input, state.id, authFetch);
+    },
+    onSuccess: () => {
+      toast.success('Fault code saved.');
+      setForm(EMPTY_FORM);
+      void queryClient.invalidateQueries({ queryKey: ['admin:fault-catalogue'] });
+    },
+    onError: (error) => toast.error(error instanceof Error ? error.message : String(error)),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteFaultCatalogueEntry(id, authFetch),
+    onSuccess: () => {
+      toast.success('Fault code removed.');
+      void queryClient.invalidateQueries({ queryKey: ['admin:fault-catalogue'] });
+    },
+    onError: () => toast.error('Failed to remove fault code.'),
+  });
+
+  const modelMutation = useMutation({
+    mutationFn: (state: typeof deviceModel) =>
+      saveDeviceModel(
+        state.deviceId.trim(),
+        { manufacturer: state.manufacturer.trim() || null, model: state.model.trim() || null },
+        authFetch,
+      ),
+    onSuccess: () => {
+      toast.success('Device model saved.');
+      setDeviceModel({ deviceId: '', manufacturer: '', model: '' });
+    },
+    onError: (error) => toast.error(error instanceof Error ? error.message : String(error)),
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  const handleModelSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    modelMutation.mutate(deviceModel);
+  };
+
+  const term = filter.trim().toLowerCase();
+  const entries = (catalogueQuery.data ?? []).filter(
+    (entry) =>
+      !term ||
+      [entry.code, entry.title, entry.manufacturer ?? '', entry.model ?? ''].some((value) =>
+        value.toLowerCase().includes(term),
+      ),
+  );
+
+  return (
+    <section className="card" aria-busy={catalogueQuery.isLoading}>
+      <h3>Fault catalogue</h3>
+      <p className="muted">
+        Controller fault codes are enriched from this catalogue at ingest. A new occurrence of a catalogued code opens an
+        alert of its severity. Leave manufacturer or model blank to match any device.
+      </p>
+      {catalogueQuery.isError ? <p className="card__error">Unable to load the fault catalogue.</p> : null}
+      <label style={{ display: 'flex', flexDirection: 'column', gap: 4, maxWidth: 320 }}>
+        <span>Filter</span>
+        <input type="search" value={filter} onChange={(event) => setFilter(event.target.value)} />
+      </label>
+      {entries.length > 0 ? (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Code</th>
+              <th>Applies to</th>
+              <th>Severity</th>
+              <th>Title</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.id}>
+                <td>{entry.code}</td>
+                <td>{[entry.manufacturer ?? 'Any manufacturer', entry.model ?? 'any model'].join(' · ')}</td>
+                <td>{entry.severity}</td>
+                <td>{entry.title}</td>
+                <td>
+                  <div className="button-row">
+                    <button className="app-button" type="button" onClick={() => setForm(toForm(entry))}>
+                      Edit
+                    </button>
+                    <button
+                      className="app-button"
+                      type="button"
+                      disabled={ro || deleteMutation.isPending}
+                      onClick={() => {
+                        if (window.confirm(`Remove fault code ${entry.code}?`)) {
+                          deleteMutation.mutate(entry.id);
+                        }
+                      }}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : catalogueQuery.isLoading ? (
+        <p>Loading fault catalogue…</p>
+      ) : (
+        <p className="muted">No fault codes catalogued{term ? ' for this filter' : ''}.</p>
+      )}
+
+      <form onSubmit={handleSubmit} style={{ display: 'grid', gap: 12, maxWidth: 480, marginTop: 16 }}>
+        <h4>{form.id ? `Edit ${form.code}` : 'Add fault code'}</h4>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Code</span>
+          <input value={form.code} onChange={(event) => setForm({ ...form, code: event.target.value })} required />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Manufacturer</span>
+          <input
+            value={form.manufacturer}
+            placeholder="Any"
+            onChange={(event) => setForm({ ...form, manufacturer: event.target.value })}
+          />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Model</span>
+          <input value={form.model} placeholder="Any" onChange={(event) => setForm({ ...form, model: event.target.value })} />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Severity</span>
+          <select
+            value={form.severity}
+            onChange={(event) => setForm({ ...form, severity: event.target.value as FaultSeverity })}
+          >
+            <option value="critical">Critical</option>
+            <option value="major">Major</option>
+            <option value="minor">Minor</option>
+          </select>
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Title</span>
+          <input value={form.title} onChange={(event) => setForm({ ...form, title: event.target.value })} required />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Description</span>
+          <textarea
+            rows={3}
+            value={form.description}
+            onChange={(event) => setForm({ ...form, description: event.target.value })}
+          />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Likely causes</span>
+          <textarea
+            rows={3}
+            value={form.causes}
+            placeholder="One per line"
+            onChange={(event) => setForm({ ...form, causes: event.target.value })}
+          />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Recommended actions</span>
+          <textarea
+            rows={3}
+            value={form.actions}
+            placeholder="One per line, in order"
+            onChange={(event) => setForm({ ...form, actions: event.target.value })}
+          />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Documents</span>
+          <textarea
+            rows={2}
+            value={form.links}
+            placeholder="Service manual §4.2 | https://…"
+            onChange={(event) => setForm({ ...form, links: event.target.value })}
+          />
+        </label>
+        <div className="button-row">
+          <button className="app-button" type="submit" disabled={ro || saveMutation.isPending}>
+            {form.id ? 'Save changes' : 'Add fault code'}
+          </button>
+          {form.id ? (
+            <button className="app-button" type="button" onClick={() => setForm(EMPTY_FORM)}>
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </form>
+
+      <form onSubmit={handleModelSubmit} style={{ display: 'grid', gap: 12, maxWidth: 480, marginTop: 24 }}>
+        <h4>Device model</h4>
+        <p className="muted">Set the manufacturer and model of a device so model-specific entries apply to it.</p>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Device ID</span>
+          <input
+            value={deviceModel.deviceId}
+            onChange={(event) => setDeviceModel({ ...deviceModel, deviceId: event.target.value })}
+            required
+          />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Manufacturer</span>
+          <input
+            value={deviceModel.manufacturer}
+            onChange={(event) => setDeviceModel({ ...deviceModel, manufacturer: event.target.value })}
+          />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Model</span>
+          <input
+            value={deviceModel.model}
+            onChange={(event) => setDeviceModel({ ...deviceModel, model: event.target.value })}
+          />
+        </label>
+        <div className="button-row">
+          <button className="app-button" type="submit" disabled={ro || modelMutation.isPending}>
+            Save device model
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,418 @@
+import { useState, type FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  deleteNotificationSubscription,
+  fetchNotificationDeliveries,
+  fetchNotificationSubscriptions,
+  retryNotificationDelivery,
+  saveNotificationSubscription,
+  testNotificationSubscription,
+  type NotificationChannel,
+  type NotificationSubscription,
+  type NotificationSubscriptionInput,
+} from '@api/admin';
+import { useToast } from '@app/providers/ToastProvider';
+import { useAuthFetch } from '@hooks/useAuthFetch';
+import { useReadOnly } from '@hooks/useReadOnly';
+
+const EVENT_OPTIONS = [
+  { value: 'alert.opened', label: 'Alert opened' },
+  { value: 'incident.created', label: 'Incident created' },
+];
+const SEVERITY_OPTIONS = ['critical', 'major', 'minor'];
+
+type FormState = {
+  id: string | null;
+  name: string;
+  channel: NotificationChannel;
+  url: string;
+  secret: string;
+  template: string;
+  events: string[];
+  severities: string[];
+  rules: string;
+  clientIds: string;
+  siteIds: string;
+  enabled: boolean;
+};
+
+const EMPTY_FORM: FormState = {
+  id: null,
+  name: '',
+  channel: 'webhook',
+  url: '',
+  secret: '',
+  template: '',
+  events: [],
+  severities: [],
+  rules: '',
+  clientIds: '',
+  siteIds: '',
+  enabled: true,
+};
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+function toForm(sub: NotificationSubscription): FormState {
+  return {
+    id: sub.id,
+    name: sub.name,
+    channel: sub.channel,
+    url: sub.url,
+    secret: '',
+    template: sub.template ?? '',
+    events: sub.events,
+    severities: sub.severities,
+    rules: sub.rules.join(', '),
+    clientIds: sub.clientIds.join(', '),
+    siteIds: sub.siteIds.join(', '),
+    enabled: sub.enabled,
+  };
+}
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+export function NotificationChannelsCard(): JSX.Element {
+  const authFetch = useAuthFetch();
+  const toast = useToast();
+  const queryClient = useQueryClient();
+  const { ro } = useReadOnly();
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const subscriptionsQuery = useQuery({
+    queryKey: ['admin:notification-subscriptions'],
+    queryFn: () => fetchNotificationSubscriptions(authFetch),
+    staleTime: 30_000,
+  });
+
+  const deliveriesQuery = useQuery({
+    queryKey: ['admin:notification-deliveries', selectedId],
+    queryFn: () => fetchNotificationDeliveries(selectedId, authFetch),
+    refetchInterval: 30_000,
+  });
+
+  const invalidate = () => {
+    void queryClient.invalidateQueries({ queryKey: ['admin:notification-subscriptions'] });
+    void queryClient.invalidateQueries({ queryKey: ['admin:notification-deliveries'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (state: FormState) => {
+      if (ro) {
+        throw new Error('Read-only mode is active');
+      }
+      const input: NotificationSubscriptionInput = {
+        name: state.name,
+        channel: state.channel,
+        url: state.url,
+        template: state.channel === 'webhook' && state.template.trim() ? state.template : null,
+        events: state.events,
+        severities: state.severities,
+        rules: splitList(state.rules),
+        clientIds: splitList(state.clientIds),
+        siteIds: splitList(state.siteIds),
+        enabled: state.enabled,
+      };
+      // Leave the stored secret untouched unless a new one was typed.
+      if (state.secret) {
+        input.secret = state.secret;
+      }
+      return saveNotificationSubscription(input, state.id, authFetch);
+    },
+    onSuccess: () => {
+      toast.success('Notification channel saved.');
+      setForm(EMPTY_FORM);
+      invalidate();
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      toast.error(message.includes('Read-only') ? 'Read-only mode: writes are temporarily disabled.' : message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteNotificationSubscription(id, authFetch),
+    onSuccess: () => {
+      toast.success('Notification channel removed.');
+      invalidate();
+    },
+    onError: () => toast.error('Failed to remove notification channel.'),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (id: string) => testNotificationSubscription(id, authFetch),
+    onSuccess: (result) => {
+      if (result.ok) {
+        toast.success(`Test delivered (HTTP ${result.status ?? '—'}).`);
+      } else {
+        toast.error(`Test failed: ${result.error ?? `HTTP ${result.status ?? '—'}`}`);
+      }
+    },
+    onError: () => toast.error('Failed to send test notification.'),
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (id: string) => retryNotificationDelivery(id, authFetch),
+    onSuccess: () => {
+      toast.success('Delivery re-queued.');
+      void queryClient.invalidateQueries({ queryKey: ['admin:notification-deliveries'] });
+    },
+    onError: () => toast.error('Failed to re-queue delivery.'),
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  const subscriptions = subscriptionsQuery.data ?? [];
+  const deliveries = deliveriesQuery.data ?? [];
+
+  return (
+    <section className="card" aria-busy={subscriptionsQuery.isLoading}>
+      <h3>Notification channels</h3>
+      <p className="muted">
+        Push alerts and incidents to signed webhooks, Slack or Teams. Empty filters match everything.
+      </p>
+      {subscriptionsQuery.isError ? <p className="card__error">Unable to load notification channels.</p> : null}
+      {subscriptions.length > 0 ? (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Channel</th>
+              <th>Filters</th>
+              <th>Status</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {subscriptions.map((sub) => (
+              <tr key={sub.id} aria-selected={selectedId === sub.id}>
+                <td>{sub.name}</td>
+                <td>
+                  {sub.channel}
+                  {sub.hasSecret ? ' · signed' : ''}
+                </td>
+                <td>
+                  {[...sub.events, ...sub.severities, ...sub.rules, ...sub.siteIds, ...sub.clientIds].join(', ') ||
+                    'All events'}
+                </td>
+                <td>{sub.enabled ? 'Enabled' : 'Paused'}</td>
+                <td>
+                  <div className="button-row">
+                    <button className="app-button" type="button" onClick={() => setForm(toForm(sub))}>
+                      Edit
+                    </button>
+                    <button
+                      className="app-button"
+                      type="button"
+                      disabled={ro || testMutation.isPending}
+                      onClick={() => testMutation.mutate(sub.id)}
+                    >
+                      Test
+                    </button>
+                    <button
+                      className="app-button"
+                      type="button"
+                      onClick={() => setSelectedId((prev) => (prev === sub.id ? null : sub.id))}
+                    >
+                      {selectedId === sub.id ? 'All deliveries' : 'Deliveries'}
+                    </button>
+                    <button
+                      className="app-button"
+                      type="button"
+                      disabled={ro || deleteMutation.isPending}
+                      onClick={() => {
+                        if (window.confirm(`Remove ${sub.name}?`)) {
+                          deleteMutation.mutate(sub.id);
+                        }
+                      }}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : subscriptionsQuery.isLoading ? (
+        <p>Loading notification channels…</p>
+      ) : (
+        <p className="muted">No notification channels configured.</p>
+      )}
+
+      <form onSubmit={handleSubmit} style={{ display: 'grid', gap: 12, maxWidth: 480, marginTop: 16 }}>
+        <h4>{form.id ? 'Edit channel' : 'Add channel'}</h4>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Name</span>
+          <input value={form.name} onChange={(event) => setForm({ ...form, name: event.target.value })} required />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Format</span>
+          <select
+            value={form.channel}
+            onChange={(event) => setForm({ ...form, channel: event.target.value as NotificationChannel })}
+          >
+            <option value="webhook">Webhook (JSON)</option>
+            <option value="slack">Slack</option>
+            <option value="teams">Microsoft Teams</option>
+          </select>
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>URL</span>
+          <input
+            type="url"
+            value={form.url}
+            placeholder="https://"
+            onChange={(event) => setForm({ ...form, url: event.target.value })}
+            required
+          />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Signing secret</span>
+          <input
+            type="password"
+            value={form.secret}
+            autoComplete="new-password"
+            placeholder={form.id ? 'Leave blank to keep the current secret' : 'Optional, 16+ characters'}
+            onChange={(event) => setForm({ ...form, secret: event.target.value })}
+          />
+          <small className="muted">Requests carry X-Greenbro-Signature: sha256=HMAC(timestamp.body).</small>
+        </label>
+        {form.channel === 'webhook' ? (
+          <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+            <span>Payload template</span>
+            <textarea
+              rows={4}
+              value={form.template}
+              placeholder={'{"text": "{{severity}} {{title}}", "device": "{{deviceId}}"}'}
+              onChange={(event) => setForm({ ...form, template: event.target.value })}
+            />
+            <small className="muted">
+              Placeholders: type, ts, title, severity, rule, rules, deviceId, siteId, clientIds, alertId, incidentId.
+            </small>
+          </label>
+        ) : null}
+        <fieldset>
+          <legend>Events</legend>
+          {EVENT_OPTIONS.map((option) => (
+            <label key={option.value} style={{ marginRight: 12 }}>
+              <input
+                type="checkbox"
+                checked={form.events.includes(option.value)}
+                onChange={() => setForm({ ...form, events: toggle(form.events, option.value) })}
+              />{' '}
+              {option.label}
+            </label>
+          ))}
+        </fieldset>
+        <fieldset>
+          <legend>Severities</legend>
+          {SEVERITY_OPTIONS.map((severity) => (
+            <label key={severity} style={{ marginRight: 12 }}>
+              <input
+                type="checkbox"
+                checked={form.severities.includes(severity)}
+                onChange={() => setForm({ ...form, severities: toggle(form.severities, severity) })}
+              />{' '}
+              {severity}
+            </label>
+          ))}
+        </fieldset>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Rules</span>
+          <input
+            value={form.rules}
+            placeholder="overheat, low_cop"
+            onChange={(event) => setForm({ ...form, rules: event.target.value })}
+          />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Sites</span>
+          <input value={form.siteIds} onChange={(event) => setForm({ ...form, siteIds: event.target.value })} />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Clients</span>
+          <input value={form.clientIds} onChange={(event) => setForm({ ...form, clientIds: event.target.value })} />
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={form.enabled}
+            onChange={(event) => setForm({ ...form, enabled: event.target.checked })}
+          />{' '}
+          Enabled
+        </label>
+        <div className="button-row">
+          <button className="app-button" type="submit" disabled={ro || saveMutation.isPending}>
+            {form.id ? 'Save changes' : 'Add channel'}
+          </button>
+          {form.id ? (
+            <button className="app-button" type="button" onClick={() => setForm(EMPTY_FORM)}>
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </form>
+
+      <h4 style={{ marginTop: 24 }}>Delivery history</h4>
+      {deliveriesQuery.isError ? (
+        <p className="card__error">Unable to load deliveries.</p>
+      ) : deliveries.length === 0 ? (
+        <p className="muted">No deliveries yet.</p>
+      ) : (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Created</th>
+              <th>Channel</th>
+              <th>Event</th>
+              <th>Status</th>
+              <th>Attempts</th>
+              <th>Last result</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {deliveries.map((delivery) => (
+              <tr key={delivery.id}>
+                <td>{new Date(delivery.created_at.replace(' ', 'T') + 'Z').toLocaleString()}</td>
+                <td>{delivery.subscription_name ?? delivery.subscription_id}</td>
+                <td>
+                  {delivery.event_type} <small className="muted">{delivery.event_key}</small>
+                </td>
+                <td>{delivery.status}</td>
+                <td>{delivery.attempts}</td>
+                <td>
+                  {delivery.last_status_code ? `HTTP ${delivery.last_status_code}` : ''}
+                  {delivery.last_error ? <small className="muted"> {delivery.last_error}</small> : null}
+                </td>
+                <td>
+                  {delivery.status === 'failed' ? (
+                    <button
+                      className="app-button"
+                      type="button"
+                      disabled={ro || retryMutation.isPending}
+                      onClick={() => retryMutation.mutate(delivery.id)}
+                    >
+                      Retry
+                    </button>
+                  ) : null}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,72 @@
+import { useMemo } from 'react';
+
+export interface EnergyBarDatum {
+  label: string;
+  electric: number;
+  thermal: number;
+}
+
+type Props = {
+  data: EnergyBarDatum[];
+  width?: number;
+  height?: number;
+  ariaLabel?: string;
+};
+
+const PADDING = { top: 12, right: 8, bottom: 22, left: 44 };
+
+/** Paired bars of electricity in vs heat out per period. */
+export function EnergyBars({ data, width = 640, height = 200, ariaLabel = 'Energy per period' }: Props): JSX.Element {
+  const max = useMemo(() => data.reduce((acc, row) => Math.max(acc, row.electric, row.thermal), 0) || 1, [data]);
+  const innerW = width - PADDING.left - PADDING.right;
+  const innerH = height - PADDING.top - PADDING.bottom;
+  const slot = data.length > 0 ? innerW / data.length : innerW;
+  const barW = Math.max(1, Math.min(18, slot / 2 - 1));
+  const y = (value: number) => PADDING.top + innerH - (Math.max(value, 0) / max) * innerH;
+  const labelEvery = Math.max(1, Math.ceil(data.length / 8));
+
+  return (
+    <svg className="energy-bars" width="100%" viewBox={`0 0 ${width} ${height}`} role="img" aria-label={ariaLabel}>
+      <line
+        x1={PADDING.left}
+        x2={width - PADDING.right}
+        y1={PADDING.top + innerH}
+        y2={PADDING.top + innerH}
+        className="energy-bars__axis"
+      />
+      <text x={PADDING.left - 6} y={PADDING.top + 4} textAnchor="end" className="energy-bars__tick">
+        {max.toFixed(max >= 10 ? 0 : 1)}
+      </text>
+      <text x={PADDING.left - 6} y={PADDING.top + innerH} textAnchor="end" className="energy-bars__tick">
+        0
+      </text>
+      {data.map((row, index) => {
+        const center = PADDING.left + slot * index + slot / 2;
+        return (
+          <g key={row.label}>
+            <title>{`${row.label}: ${row.electric.toFixed(1)} kWh in, ${row.thermal.toFixed(1)} kWh heat`}</title>
+            <rect
+              className="energy-bars__electric"
+              x={center - barW - 0.5}
+              y={y(row.electric)}
+              width={barW}
+              height={PADDING.top + innerH - y(row.electric)}
+            />
+            <rect
+              className="energy-bars__thermal"
+              x={center + 0.5}
+              y={y(row.thermal)}
+              width={barW}
+              height={PADDING.top + innerH - y(row.thermal)}
+            />
+            {index % labelEvery === 0 ? (
+              <text x={center} y={height - 6} textAnchor="middle" className="energy-bars__tick">
+                {row.label}
+              </text>
+            ) : null}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
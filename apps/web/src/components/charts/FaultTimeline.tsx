@@ -0,0 +1,72 @@
+export interface FaultTimelineRow {
+  code: string;
+  label: string;
+  severity: 'minor' | 'major' | 'critical' | null;
+  spans: Array<{ start: number; end: number; open: boolean }>;
+}
+
+type Props = {
+  fromMs: number;
+  toMs: number;
+  rows: FaultTimelineRow[];
+  width?: number;
+  ariaLabel?: string;
+};
+
+const ROW_HEIGHT = 22;
+const PADDING = { top: 6, right: 12, bottom: 22, left: 96 };
+const SEVERITY_COLORS = { critical: '#f25f5c', major: '#e9b949', minor: '#2b7bb9' } as const;
+const UNCATALOGUED_COLOR = '#8a8f98';
+
+/** One lane per fault code with a bar for each occurrence; open occurrences run to the right edge. */
+export function FaultTimeline({ fromMs, toMs, rows, width = 720, ariaLabel = 'Fault history' }: Props): JSX.Element {
+  const height = PADDING.top + rows.length * ROW_HEIGHT + PADDING.bottom;
+  const innerW = width - PADDING.left - PADDING.right;
+  const span = Math.max(1, toMs - fromMs);
+  const x = (ms: number) => PADDING.left + ((Math.min(Math.max(ms, fromMs), toMs) - fromMs) / span) * innerW;
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((fraction) => fromMs + span * fraction);
+
+  return (
+    <svg className="fault-timeline" width="100%" viewBox={`0 0 ${width} ${height}`} role="img" aria-label={ariaLabel}>
+      {rows.map((row, index) => {
+        const y = PADDING.top + index * ROW_HEIGHT;
+        const color = row.severity ? SEVERITY_COLORS[row.severity] : UNCATALOGUED_COLOR;
+        return (
+          <g key={row.code}>
+            <text x={PADDING.left - 8} y={y + ROW_HEIGHT / 2 + 4} textAnchor="end" className="overlay-chart__tick">
+              {row.code}
+            </text>
+            <line
+              x1={PADDING.left}
+              x2={width - PADDING.right}
+              y1={y + ROW_HEIGHT / 2}
+              y2={y + ROW_HEIGHT / 2}
+              className="overlay-chart__axis"
+            />
+            {row.spans.map((entry, spanIndex) => (
+              <rect
+                key={spanIndex}
+                x={x(entry.start)}
+                y={y + 5}
+                width={Math.max(2, x(entry.end) - x(entry.start))}
+                height={ROW_HEIGHT - 10}
+                rx={2}
+                fill={color}
+                opacity={entry.open ? 1 : 0.75}
+              >
+                <title>
+                  {row.label}: {new Date(entry.start).toLocaleString()} – {entry.open ? 'ongoing' : new Date(entry.end).toLocaleString()}
+                </title>
+              </rect>
+            ))}
+          </g>
+        );
+      })}
+      {ticks.map((ts, index) => (
+        <text key={index} x={x(ts)} y={height - 6} textAnchor="middle" className="overlay-chart__tick">
+          {new Date(ts).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+        </text>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,105 @@
+import { useMemo } from 'react';
+
+export interface OverlaySeries {
+  key: string;
+  label: string;
+  values: Array<number | null>;
+  color: string;
+  dashed?: boolean;
+}
+
+type Props = {
+  timestamps: number[];
+  series: OverlaySeries[];
+  width?: number;
+  height?: number;
+  ariaLabel?: string;
+};
+
+const PADDING = { top: 12, right: 12, bottom: 22, left: 48 };
+
+/** Distinguishable line colours for overlaid devices, cycled when more are plotted. */
+export const OVERLAY_COLORS = ['#39b54a', '#2b7bb9', '#e9b949', '#f25f5c', '#8e5ea2', '#1fa39a', '#d97706', '#414042'];
+
+function formatTick(ms: number, spanMs: number): string {
+  const date = new Date(ms);
+  return spanMs > 2 * 24 * 60 * 60 * 1000
+    ? date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    : date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+/** Several series on a shared time axis; gaps (null) break the line. */
+export function OverlayChart({
+  timestamps,
+  series,
+  width = 720,
+  height = 260,
+  ariaLabel = 'Overlaid series',
+}: Props): JSX.Element {
+  const innerW = width - PADDING.left - PADDING.right;
+  const innerH = height - PADDING.top - PADDING.bottom;
+  const [minTs, maxTs] = [timestamps[0] ?? 0, timestamps[timestamps.length - 1] ?? 1];
+  const [minV, maxV] = useMemo(() => {
+    const values = series.flatMap((entry) => entry.values.filter((value): value is number => value !== null));
+    if (values.length === 0) return [0, 1];
+    const lo = Math.min(...values);
+    const hi = Math.max(...values);
+    return lo === hi ? [lo - 1, hi + 1] : [lo, hi];
+  }, [series]);
+  const x = (ts: number) => PADDING.left + (maxTs > minTs ? ((ts - minTs) / (maxTs - minTs)) * innerW : innerW / 2);
+  const y = (value: number) => PADDING.top + innerH - ((value - minV) / (maxV - minV)) * innerH;
+
+  const paths = series.map((entry) => {
+    let d = '';
+    let drawing = false;
+    entry.values.forEach((value, index) => {
+      const ts = timestamps[index];
+      if (value === null || ts === undefined) {
+        drawing = false;
+        return;
+      }
+      d += `${drawing ? 'L' : 'M'}${x(ts).toFixed(1)},${y(value).toFixed(1)} `;
+      drawing = true;
+    });
+    return { ...entry, d: d.trim() };
+  });
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((fraction) => minTs + (maxTs - minTs) * fraction);
+
+  return (
+    <svg className="overlay-chart" width="100%" viewBox={`0 0 ${width} ${height}`} role="img" aria-label={ariaLabel}>
+      <line
+        x1={PADDING.left}
+        x2={width - PADDING.right}
+        y1={PADDING.top + innerH}
+        y2={PADDING.top + innerH}
+        className="overlay-chart__axis"
+      />
+      {minV < 0 && maxV > 0 ? (
+        <line x1={PADDING.left} x2={width - PADDING.right} y1={y(0)} y2={y(0)} className="overlay-chart__zero" />
+      ) : null}
+      <text x={PADDING.left - 6} y={PADDING.top + 4} textAnchor="end" className="overlay-chart__tick">
+        {maxV.toFixed(Math.abs(maxV) >= 10 ? 0 : 2)}
+      </text>
+      <text x={PADDING.left - 6} y={PADDING.top + innerH} textAnchor="end" className="overlay-chart__tick">
+        {minV.toFixed(Math.abs(minV) >= 10 ? 0 : 2)}
+      </text>
+      {ticks.map((ts, index) => (
+        <text key={index} x={x(ts)} y={height - 6} textAnchor="middle" className="overlay-chart__tick">
+          {formatTick(ts, maxTs - minTs)}
+        </text>
+      ))}
+      {paths.map((entry) => (
+        <path
+          key={entry.key}
+          d={entry.d}
+          fill="none"
+          stroke={entry.color}
+          strokeWidth={entry.dashed ? 1.25 : 1.75}
+          strokeDasharray={entry.dashed ? '4 3' : undefined}
+        >
+          <title>{entry.label}</title>
+        </path>
+      ))}
+    </svg>
+  );
+}
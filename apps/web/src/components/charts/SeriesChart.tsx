@@ -115,6 +115,8 @@ interface SeriesChartProps {
   bandOverlay?: BandOverlay | BandOverlay[] | null;
   bandOverlayBuilder?: BandOverlayBuilder;
   tooltipExtras?: (ts: number) => string[];
+  /** Tooltip formatting for the value; defaults to two decimals. */
+  formatValue?: (value: number) => string;
   onXDomainChange?: (domain: [number, number] | null) => void;
 }
 
@@ -134,6 +136,7 @@ export const SeriesChart = forwardRef<SeriesChartHandle, SeriesChartProps>(funct
     bandOverlay: bandOverlayProp = null,
     bandOverlayBuilder,
     tooltipExtras,
+    formatValue,
     onXDomainChange,
   }: SeriesChartProps,
   ref,
@@ -319,7 +322,7 @@ export const SeriesChart = forwardRef<SeriesChartHandle, SeriesChartProps>(funct
 
   const tooltipLines = activePoint
     ? (() => {
-        const lines = [`Value: ${activePoint.v.toFixed(2)}`];
+        const lines = [`Value: ${formatValue ? formatValue(activePoint.v) : activePoint.v.toFixed(2)}`];
         if (activeOverlay) {
           lines.push(activeOverlay.kind === 'crit' ? 'Critical window' : 'Warning window');
         }
@@ -0,0 +1,28 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchPreferences, savePreferences } from '@api/auth';
+import { useAuth } from '@app/providers/AuthProvider';
+import { DEFAULT_DISPLAY_PREFERENCES, type DisplayPreferences } from '@utils/units';
+
+const PREFERENCES_KEY = ['me', 'preferences'] as const;
+
+/** The signed-in user's display units and locale; defaults until loaded or when none are stored. */
+export function usePreferences(): DisplayPreferences {
+  const { user } = useAuth();
+  const { data } = useQuery({
+    queryKey: PREFERENCES_KEY,
+    queryFn: fetchPreferences,
+    enabled: !!user,
+    staleTime: Infinity,
+  });
+  return data ?? DEFAULT_DISPLAY_PREFERENCES;
+}
+
+export function useSavePreferences() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: savePreferences,
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(PREFERENCES_KEY, preferences);
+    },
+  });
+}
@@ -22,8 +22,9 @@ ReactDOM.createRoot(root).render(
 
 if ('serviceWorker' in navigator) {
   window.addEventListener('load', () => {
+    // Scoped to the commissioning page, which it keeps usable offline; app-sw.js controls everything else.
     navigator.serviceWorker
-      .register('/brand-sw.js')
+      .register('/brand-sw.js', { scope: '/commissioning' })
       .catch((error) => console.error('Failed to register brand service worker', error));
 
     navigator.serviceWorker
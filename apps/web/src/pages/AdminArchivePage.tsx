@@ -1,14 +1,22 @@
-import { useEffect, useMemo, useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useEffect, useMemo, useRef, useState, type FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
+  cancelExportJob,
+  createExportJob,
   fetchArchiveLogs,
   fetchArchivePresets,
+  fetchExportJobs,
   type ArchivePresetDefinition,
   type ArchiveResponse,
   type ArchiveRow,
+  type ExportJob,
+  type ExportJobResolution,
+  type ExportJobStatus,
 } from '@api/admin';
 import { resolveApiUrl } from '@api/client';
+import { useToast } from '@app/providers/ToastProvider';
 import { useAuthFetch } from '@hooks/useAuthFetch';
+import { useReadOnly } from '@hooks/useReadOnly';
 
 const TABLE_KEYS = ['telemetry', 'alerts', 'incidents'] as const;
 type ArchiveTableKey = (typeof TABLE_KEYS)[number];
@@ -27,7 +35,30 @@ type Preset = {
 
 type SelectionMap = Record<ArchiveTableKey, string[]>;
 
-type ArchiveFormat = 'ndjson' | 'csv';
+type ArchiveFormat = 'ndjson' | 'csv' | 'parquet' | 'arrow';
+
+const ARCHIVE_FORMAT_LABELS: Record<ArchiveFormat, string> = {
+  ndjson: 'NDJSON',
+  csv: 'CSV',
+  parquet: 'Parquet',
+  arrow: 'Arrow IPC',
+};
+
+const EXPORT_RESOLUTIONS: ExportJobResolution[] = ['raw', '1m', '15m', '1h', '1d'];
+const EXPORT_POLL_MS = 5000;
+const ACTIVE_EXPORT_STATUSES: ExportJobStatus[] = ['queued', 'running', 'assembling'];
+
+type ExportForm = {
+  clientId: string;
+  siteIds: string;
+  deviceIds: string;
+  metrics: string;
+  from: string;
+  to: string;
+  resolution: ExportJobResolution;
+  format: ArchiveFormat;
+  notify: boolean;
+};
 
 const GZIP_LEVEL_STORAGE_KEY = 'greenbro-archive-gz-level';
 const STAGE_STORAGE_KEY = 'greenbro-archive-stage';
@@ -222,11 +253,15 @@ function formatTimestamp(value: string | null): string {
 
 function buildDownloadHref(
   row: ArchiveRow,
+  format: ArchiveFormat,
   gzipEnabled: boolean,
   gzipLevel: number,
   stageEnabled: boolean,
 ): string {
   const params = new URLSearchParams({ key: row.key });
+  if (format !== 'ndjson') {
+    params.set('format', format);
+  }
   if (gzipEnabled) {
     params.set('gz', '1');
     params.set('gzl', String(gzipLevel));
@@ -259,6 +294,39 @@ function buildOnDemandHref(
   return resolveApiUrl(`/api/admin/archive/export?${params.toString()}`);
 }
 
+function initialExportForm(): ExportForm {
+  const to = getYesterdayIso();
+  const from = new Date(Date.parse(`${to}T00:00:00Z`) - 29 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return {
+    clientId: '',
+    siteIds: '',
+    deviceIds: '',
+    metrics: 'cop,deltaT',
+    from,
+    to,
+    resolution: '15m',
+    format: 'csv',
+    notify: true,
+  };
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function describeExportScope(job: ExportJob): string {
+  const { clientId, siteIds, deviceIds } = job.filters;
+  const parts = [
+    clientId ? `client ${clientId}` : null,
+    siteIds.length ? `${siteIds.length} site${siteIds.length === 1 ? '' : 's'}` : null,
+    deviceIds.length ? `${deviceIds.length} device${deviceIds.length === 1 ? '' : 's'}` : null,
+  ].filter(Boolean);
+  return `${parts.join(', ')} → ${job.deviceCount} devices`;
+}
+
 function buildDownloadName(table: ArchiveTableKey, format: ArchiveFormat, gzipEnabled: boolean): string {
   const base = `${table}-export.${format}`;
   return gzipEnabled ? `${base}.gz` : base;
@@ -271,7 +339,12 @@ export function AdminArchivePage(): JSX.Element {
   const [stageEnabled, setStageEnabled] = useState<boolean>(() => getDefaultStageEnabled());
   const [gzipEnabled, setGzipEnabled] = useState<boolean>(true);
   const [gzipLevel, setGzipLevel] = useState<number>(() => getDefaultGzipLevel());
+  const [archiveFormat, setArchiveFormat] = useState<ArchiveFormat>('ndjson');
   const [selections, setSelections] = useState<SelectionMap>(() => computeInitialSelections());
+  const [exportForm, setExportForm] = useState<ExportForm>(() => initialExportForm());
+  const toast = useToast();
+  const queryClient = useQueryClient();
+  const { ro } = useReadOnly();
 
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -297,6 +370,79 @@ export function AdminArchivePage(): JSX.Element {
     retry: 1,
   });
 
+  const exportJobsQuery = useQuery<ExportJob[]>({
+    queryKey: ['admin-export-jobs'],
+    queryFn: () => fetchExportJobs(authFetch),
+    refetchInterval: (query) =>
+      (query.state.data ?? []).some((job) => ACTIVE_EXPORT_STATUSES.includes(job.status)) ? EXPORT_POLL_MS : false,
+  });
+
+  // Announce jobs that finish while the page is open; the first load only seeds the snapshot.
+  const previousStatuses = useRef<Map<string, ExportJobStatus> | null>(null);
+  useEffect(() => {
+    const jobs = exportJobsQuery.data;
+    if (!jobs) {
+      return;
+    }
+    const previous = previousStatuses.current;
+    if (previous) {
+      for (const job of jobs) {
+        const before = previous.get(job.id);
+        if (!before || !ACTIVE_EXPORT_STATUSES.includes(before)) {
+          continue;
+        }
+        if (job.status === 'done') {
+          toast.success(`Export ready: ${job.rows.toLocaleString()} rows`);
+        } else if (job.status === 'failed') {
+          toast.error(`Export failed: ${job.error ?? 'unknown error'}`);
+        }
+      }
+    }
+    previousStatuses.current = new Map(jobs.map((job) => [job.id, job.status]));
+  }, [exportJobsQuery.data, toast]);
+
+  const createExport = useMutation({
+    mutationFn: (form: ExportForm) =>
+      createExportJob(
+        {
+          clientId: form.clientId.trim() || null,
+          siteIds: splitList(form.siteIds),
+          deviceIds: splitList(form.deviceIds),
+          metrics: splitList(form.metrics),
+          from: form.from,
+          to: form.to,
+          resolution: form.resolution,
+          format: form.format,
+          notify: form.notify,
+        },
+        authFetch,
+      ),
+    onSuccess: (result) => {
+      toast.success(`Export queued for ${result.devices} devices`);
+      void queryClient.invalidateQueries({ queryKey: ['admin-export-jobs'] });
+    },
+    onError: (error: unknown) => toast.error(error instanceof Error ? error.message : 'Could not queue export.'),
+  });
+
+  const cancelExport = useMutation({
+    mutationFn: (id: string) => cancelExportJob(id, authFetch),
+    onSuccess: () => {
+      toast.success('Export cancelled');
+      void queryClient.invalidateQueries({ queryKey: ['admin-export-jobs'] });
+    },
+    onError: (error: unknown) => toast.error(error instanceof Error ? error.message : 'Cancel failed.'),
+  });
+
+  const updateExportForm = (changes: Partial<ExportForm>) => setExportForm((previous) => ({ ...previous, ...changes }));
+  const exportScopeEmpty = !exportForm.clientId.trim() && !exportForm.siteIds.trim() && !exportForm.deviceIds.trim();
+  const onSubmitExport = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!exportScopeEmpty) {
+      createExport.mutate(exportForm);
+    }
+  };
+  const exportJobs = exportJobsQuery.data ?? [];
+
   const schema = COLUMN_SCHEMAS[selectedTable];
   const selectedColumns = selections[selectedTable] ?? [];
   const allowed = new Set(schema.map((column) => column.name));
@@ -524,17 +670,218 @@ export function AdminArchivePage(): JSX.Element {
       </section>
 
       <section className="card" style={{ display: 'grid', gap: 16 }}>
-        <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
-          <h3 style={{ margin: 0 }}>Nightly archives</h3>
-          <label className="data-table__muted" style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
-            Date
+        <header>
+          <h3 style={{ margin: 0 }}>Fleet export jobs</h3>
+          <p className="data-table__muted" style={{ margin: '4px 0 0' }}>
+            Large exports run in the background; you are emailed a download link when they finish.
+          </p>
+        </header>
+        <form
+          onSubmit={onSubmitExport}
+          style={{ display: 'grid', gap: 12, gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))' }}
+        >
+          <label className="form-field">
+            Client ID
+            <input
+              type="text"
+              value={exportForm.clientId}
+              onChange={(event) => updateExportForm({ clientId: event.target.value })}
+            />
+          </label>
+          <label className="form-field">
+            Site IDs
+            <input
+              type="text"
+              value={exportForm.siteIds}
+              placeholder="Comma-separated"
+              onChange={(event) => updateExportForm({ siteIds: event.target.value })}
+            />
+          </label>
+          <label className="form-field">
+            Device IDs
+            <input
+              type="text"
+              value={exportForm.deviceIds}
+              placeholder="Comma-separated"
+              onChange={(event) => updateExportForm({ deviceIds: event.target.value })}
+            />
+          </label>
+          <label className="form-field">
+            Metrics
+            <input
+              type="text"
+              value={exportForm.metrics}
+              placeholder="e.g. cop,deltaT"
+              onChange={(event) => updateExportForm({ metrics: event.target.value })}
+            />
+          </label>
+          <label className="form-field">
+            From
             <input
               type="date"
               max={maxDate}
-              value={selectedDate}
-              onChange={(event) => setSelectedDate(event.target.value)}
+              value={exportForm.from}
+              onChange={(event) => updateExportForm({ from: event.target.value })}
             />
           </label>
+          <label className="form-field">
+            To
+            <input
+              type="date"
+              max={maxDate}
+              value={exportForm.to}
+              onChange={(event) => updateExportForm({ to: event.target.value })}
+            />
+          </label>
+          <label className="form-field">
+            Resolution
+            <select
+              value={exportForm.resolution}
+              onChange={(event) => updateExportForm({ resolution: event.target.value as ExportJobResolution })}
+            >
+              {EXPORT_RESOLUTIONS.map((resolution) => (
+                <option key={resolution} value={resolution}>
+                  {resolution}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="form-field">
+            Format
+            <select
+              value={exportForm.format}
+              onChange={(event) => updateExportForm({ format: event.target.value as ArchiveFormat })}
+            >
+              {Object.entries(ARCHIVE_FORMAT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="data-table__muted" style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <input
+              type="checkbox"
+              checked={exportForm.notify}
+              onChange={(event) => updateExportForm({ notify: event.target.checked })}
+            />
+            Email me when ready
+          </label>
+          <div style={{ display: 'flex', alignItems: 'end' }}>
+            <button
+              className="app-button"
+              type="submit"
+              disabled={ro || createExport.isPending || exportScopeEmpty}
+              title={exportScopeEmpty ? 'Choose a client, sites or devices' : undefined}
+            >
+              {createExport.isPending ? 'Queuing…' : 'Start export'}
+            </button>
+          </div>
+        </form>
+        {exportJobsQuery.isLoading ? (
+          <div>Loading export jobs…</div>
+        ) : exportJobsQuery.isError ? (
+          <div className="card card--error">Failed to load export jobs.</div>
+        ) : exportJobs.length === 0 ? (
+          <p className="data-table__muted">No export jobs yet.</p>
+        ) : (
+          <div className="table-scroll">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Requested</th>
+                  <th>Scope</th>
+                  <th>Metrics</th>
+                  <th>Window</th>
+                  <th>Status</th>
+                  <th>Progress</th>
+                  <th>Rows</th>
+                  <th>Size</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {exportJobs.map((job) => {
+                  const active = ACTIVE_EXPORT_STATUSES.includes(job.status);
+                  const percent = job.progress.total ? Math.floor((job.progress.done / job.progress.total) * 100) : 0;
+                  return (
+                    <tr key={job.id}>
+                      <td>
+                        {formatTimestamp(job.createdAt)}
+                        <div className="data-table__muted">{job.requestedBy}</div>
+                      </td>
+                      <td>{describeExportScope(job)}</td>
+                      <td>
+                        {job.filters.metrics.join(', ')}
+                        <div className="data-table__muted">
+                          {job.filters.resolution} · {ARCHIVE_FORMAT_LABELS[job.format]}
+                        </div>
+                      </td>
+                      <td>
+                        {job.filters.from} → {job.filters.to}
+                      </td>
+                      <td>
+                        <span className="pill">{job.status}</span>
+                        {job.error ? <div className="data-table__muted">{job.error}</div> : null}
+                      </td>
+                      <td>
+                        {job.progress.done}/{job.progress.total}
+                        {active ? <div className="data-table__muted">{percent}%</div> : null}
+                      </td>
+                      <td>{job.rows.toLocaleString()}</td>
+                      <td>{job.sizeBytes === null ? '—' : formatSize(job.sizeBytes)}</td>
+                      <td>
+                        {job.status === 'done' ? (
+                          <a
+                            className="app-button"
+                            href={resolveApiUrl(`/api/admin/exports/${encodeURIComponent(job.id)}/download`)}
+                          >
+                            Download
+                          </a>
+                        ) : active ? (
+                          <button
+                            type="button"
+                            className="app-button app-button--ghost"
+                            disabled={ro || cancelExport.isPending}
+                            onClick={() => cancelExport.mutate(job.id)}
+                          >
+                            Cancel
+                          </button>
+                        ) : null}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="card" style={{ display: 'grid', gap: 16 }}>
+        <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+          <h3 style={{ margin: 0 }}>Nightly archives</h3>
+          <div style={{ display: 'flex', gap: 16, alignItems: 'center' }}>
+            <label className="data-table__muted" style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+              Format
+              <select value={archiveFormat} onChange={(event) => setArchiveFormat(event.target.value as ArchiveFormat)}>
+                {Object.entries(ARCHIVE_FORMAT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="data-table__muted" style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+              Date
+              <input
+                type="date"
+                max={maxDate}
+                value={selectedDate}
+                onChange={(event) => setSelectedDate(event.target.value)}
+              />
+            </label>
+          </div>
         </header>
         {archiveQuery.isLoading ? (
           <div>Loading exports…</div>
@@ -572,7 +919,7 @@ export function AdminArchivePage(): JSX.Element {
                       <td>
                         <a
                           className="app-button"
-                          href={buildDownloadHref(row, gzipEnabled, gzipLevel, stageEnabled)}
+                          href={buildDownloadHref(row, archiveFormat, gzipEnabled, gzipLevel, stageEnabled)}
                         >
                           Download
                         </a>
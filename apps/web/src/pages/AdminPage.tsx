@@ -2,6 +2,12 @@ import { useEffect, useState } from 'react';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { apiFetch } from '@api/client';
 import { useAuth } from '@app/providers/AuthProvider';
+import { ChecklistEditorCard } from '@components/admin/ChecklistEditorCard';
+import { ControllerProfilesCard } from '@components/admin/ControllerProfilesCard';
+import { DeviceKeysCard } from '@components/admin/DeviceKeysCard';
+import { DeviceProvisioningCard } from '@components/admin/DeviceProvisioningCard';
+import { FaultCatalogueCard } from '@components/admin/FaultCatalogueCard';
+import { NotificationChannelsCard } from '@components/admin/NotificationChannelsCard';
 import { useToast } from '@app/providers/ToastProvider';
 import { useAuthFetch } from '@hooks/useAuthFetch';
 import { ROUTE_ROLES } from '@utils/rbac';
@@ -262,6 +268,12 @@ export function AdminPage(): JSX.Element {
           </div>
         )}
       </section>
+      <NotificationChannelsCard />
+      <FaultCatalogueCard />
+      <ControllerProfilesCard />
+      <DeviceProvisioningCard />
+      <DeviceKeysCard />
+      <ChecklistEditorCard />
       <section className="card">
         <h3>Route access matrix</h3>
         <table className="data-table">
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useSearchParams } from 'react-router-dom';
 import { apiFetch } from '@api/client';
@@ -27,6 +28,80 @@ type AlertRow = {
   summary?: string | null;
 };
 
+type EscalationTimelineResponse = {
+  escalation: {
+    policy_id: string;
+    policy_name: string | null;
+    tier: number;
+    status: string;
+    next_escalation_at: string;
+    started_at: string;
+  } | null;
+  events: Array<{ ts: string; kind: string; tier: number | null; detail: Record<string, unknown> | null }>;
+};
+
+function describeEscalationEvent(event: EscalationTimelineResponse['events'][number]): string {
+  const tier = event.tier != null ? `tier ${event.tier + 1}` : '';
+  const detail = event.detail ?? {};
+  switch (event.kind) {
+    case 'started':
+      return `Escalation started${detail.policy ? ` (${String(detail.policy)})` : ''}`;
+    case 'notified': {
+      const recipients = Array.isArray(detail.recipients) ? detail.recipients.length : null;
+      const who = recipients != null ? ` ${recipients} recipient${recipients === 1 ? '' : 's'}` : '';
+      return `Paged ${tier}${who}${detail.sent === false ? ' — delivery failed' : ''}`;
+    }
+    case 'acked':
+      return `Acknowledged${detail.by ? ` by ${String(detail.by)}` : ''}`;
+    case 'resolved':
+      return `Resolved${detail.by ? ` by ${String(detail.by)}` : ''}`;
+    case 'exhausted':
+      return `All tiers paged without acknowledgement`;
+    default:
+      return event.kind;
+  }
+}
+
+function EscalationTimeline({ alertId }: { alertId: string }): JSX.Element {
+  const authFetch = useAuthFetch();
+  const [open, setOpen] = useState(false);
+  const timelineQuery = useQuery({
+    queryKey: ['alert-escalation', alertId],
+    queryFn: () => apiFetch<EscalationTimelineResponse>(`/api/alerts/${alertId}/escalation`, {}, authFetch),
+    enabled: open,
+  });
+  const data = timelineQuery.data;
+
+  return (
+    <details className="alert-card__escalation" onToggle={(event) => setOpen(event.currentTarget.open)}>
+      <summary>Escalation</summary>
+      {timelineQuery.isLoading ? (
+        <p className="page__subtitle">Loading timeline…</p>
+      ) : timelineQuery.isError ? (
+        <p className="page__subtitle">Failed to load escalation timeline.</p>
+      ) : !data?.escalation ? (
+        <p className="page__subtitle">No escalation policy applies to this alert.</p>
+      ) : (
+        <>
+          <p className="page__subtitle">
+            {data.escalation.policy_name ?? 'Deleted policy'} · {data.escalation.status}
+            {data.escalation.status === 'active'
+              ? ` · next tier ${new Date(data.escalation.next_escalation_at).toLocaleString()}`
+              : ''}
+          </p>
+          <ol className="alert-card__timeline">
+            {data.events.map((event, index) => (
+              <li key={`${event.ts}-${index}`}>
+                <time dateTime={event.ts}>{new Date(event.ts).toLocaleString()}</time> {describeEscalationEvent(event)}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </details>
+  );
+}
+
 function FocusIncidentsPill(): JSX.Element {
   const [params, setParams] = useSearchParams();
   const active = params.get('severity') === 'critical' && params.get('state') === 'open';
@@ -213,6 +288,7 @@ export function AlertsPage(): JSX.Element {
                 <span className="alert-card__timestamp">{new Date(alert.createdAt).toLocaleString()}</span>
               </header>
               <p className="alert-card__description">{alert.description ?? 'No description provided.'}</p>
+              <EscalationTimeline alertId={alert.id} />
               <footer className="alert-card__footer">
                 <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
                   <span className="alert-card__meta">{formatAlertMeta(alert)}</span>
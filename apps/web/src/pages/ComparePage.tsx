@@ -0,0 +1,310 @@
+import { useMemo, useState, type FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useSearchParams } from 'react-router-dom';
+import { apiFetch } from '@api/client';
+import type { Device, SavedView, SeriesComparison } from '@api/types';
+import { useToast } from '@app/providers/ToastProvider';
+import { OVERLAY_COLORS, OverlayChart } from '@components/charts/OverlayChart';
+import { useAuthFetch } from '@hooks/useAuthFetch';
+import { usePreferences } from '@hooks/usePreferences';
+import { useReadOnly } from '@hooks/useReadOnly';
+import { METRIC_QUANTITIES, convertQuantity, unitSymbol, type DisplayPreferences } from '@utils/units';
+
+const COMPARE_ROUTE = '/devices/compare';
+const MAX_DEVICES = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const METRICS = [
+  { key: 'deltaT', label: 'ΔT' },
+  { key: 'cop', label: 'COP' },
+  { key: 'thermalKW', label: 'Heat output' },
+  { key: 'powerKW', label: 'Power draw' },
+  { key: 'supplyC', label: 'Supply' },
+  { key: 'returnC', label: 'Return' },
+  { key: 'tankC', label: 'Tank' },
+  { key: 'ambientC', label: 'Ambient' },
+  { key: 'flowLps', label: 'Flow' },
+  { key: 'compCurrentA', label: 'Compressor current (A)' },
+] as const;
+
+function labelWithUnit(key: string, label: string, prefs: DisplayPreferences): string {
+  const quantity = METRIC_QUANTITIES[key];
+  return quantity ? `${label} (${unitSymbol(quantity, prefs)})` : label;
+}
+
+const RANGES: Record<string, number> = { '24h': DAY_MS, '7d': 7 * DAY_MS, '30d': 30 * DAY_MS, '90d': 90 * DAY_MS };
+
+const MODES = { absolute: 'Absolute', difference: 'vs site median' } as const;
+const NORMALIZATIONS = { none: 'Raw values', minmax: 'Scale 0–1', zscore: 'Z-score' } as const;
+
+function pick<T extends string>(value: string | null, options: Record<T, unknown>, fallback: T): T {
+  return value !== null && value in options ? (value as T) : fallback;
+}
+
+export function ComparePage(): JSX.Element {
+  const authFetch = useAuthFetch();
+  const toast = useToast();
+  const queryClient = useQueryClient();
+  const { ro } = useReadOnly();
+  const preferences = usePreferences();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [search, setSearch] = useState('');
+  const [viewName, setViewName] = useState('');
+
+  const deviceIds = useMemo(
+    () => (searchParams.get('devices') ?? '').split(',').filter(Boolean).slice(0, MAX_DEVICES),
+    [searchParams],
+  );
+  const metric = searchParams.get('metric') ?? 'deltaT';
+  const range = pick<string>(searchParams.get('range'), RANGES, '7d');
+  const mode = pick<keyof typeof MODES>(searchParams.get('mode'), MODES, 'absolute');
+  const normalize = pick<keyof typeof NORMALIZATIONS>(searchParams.get('normalize'), NORMALIZATIONS, 'none');
+
+  const update = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const devicesQuery = useQuery({
+    queryKey: ['devices', 'list'],
+    queryFn: () => apiFetch<Device[]>('/api/devices', undefined, authFetch),
+    staleTime: 5 * 60_000,
+  });
+  const viewsQuery = useQuery({
+    queryKey: ['me', 'saved-views'],
+    queryFn: () => apiFetch<SavedView[]>('/api/me/saved-views', undefined, authFetch),
+    staleTime: 60_000,
+  });
+  const compareViews = (viewsQuery.data ?? []).filter((view) => view.route === COMPARE_ROUTE);
+
+  const comparisonQuery = useQuery({
+    queryKey: ['series', 'compare', deviceIds, metric, range, mode, normalize],
+    queryFn: () => {
+      const to = Date.now();
+      const params = new URLSearchParams({
+        devices: deviceIds.join(','),
+        metric,
+        mode,
+        normalize,
+        from: new Date(to - (RANGES[range] ?? DAY_MS)).toISOString(),
+        to: new Date(to).toISOString(),
+      });
+      return apiFetch<SeriesComparison>(`/api/series/batch?${params.toString()}`, undefined, authFetch);
+    },
+    enabled: deviceIds.length > 0,
+    staleTime: 60_000,
+  });
+
+  const saveView = useMutation({
+    mutationFn: (name: string) =>
+      apiFetch<{ ok: boolean; id: string }>(
+        '/api/me/saved-views',
+        {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ name, route: COMPARE_ROUTE, params: Object.fromEntries(searchParams.entries()) }),
+        },
+        authFetch,
+      ),
+    onSuccess: () => {
+      toast.success('Comparison saved');
+      setViewName('');
+      void queryClient.invalidateQueries({ queryKey: ['me', 'saved-views'] });
+    },
+    onError: () => toast.error('Could not save comparison'),
+  });
+
+  const suggestions = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    return (devicesQuery.data ?? [])
+      .filter((device) => !deviceIds.includes(device.id))
+      .filter((device) => [device.id, device.name, device.siteId ?? ''].some((value) => value.toLowerCase().includes(term)))
+      .slice(0, 8);
+  }, [devicesQuery.data, deviceIds, search]);
+
+  const addDevice = (id: string) => {
+    if (deviceIds.length >= MAX_DEVICES || deviceIds.includes(id)) return;
+    update({ devices: [...deviceIds, id].join(',') });
+    setSearch('');
+  };
+  const removeDevice = (id: string) => update({ devices: deviceIds.filter((entry) => entry !== id).join(',') || null });
+
+  const applyView = (id: string) => {
+    const view = compareViews.find((entry) => entry.id === id);
+    if (!view) return;
+    try {
+      setSearchParams(new URLSearchParams(JSON.parse(view.params_json) as Record<string, string>), { replace: true });
+    } catch {
+      toast.error('Saved comparison is unreadable');
+    }
+  };
+
+  const handleSave = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (viewName.trim()) saveView.mutate(viewName.trim());
+  };
+
+  const comparison = comparisonQuery.data;
+  const timestamps = useMemo(() => (comparison?.timestamps ?? []).map((ts) => Date.parse(ts)), [comparison]);
+  // Normalised series are unitless; differences from the site median convert like ΔT.
+  const quantity = normalize === 'none' ? METRIC_QUANTITIES[metric] : undefined;
+  const valueQuantity = quantity === 'temperature' && mode === 'difference' ? 'temperatureDelta' : quantity;
+  const overlay = (comparison?.series ?? []).map((entry, index) => ({
+    key: entry.deviceId,
+    label: entry.siteId ? `${entry.deviceId} (${entry.siteId})` : entry.deviceId,
+    values: valueQuantity
+      ? entry.values.map((value) => (value == null ? value : convertQuantity(valueQuantity, value, preferences)))
+      : entry.values,
+    color: OVERLAY_COLORS[index % OVERLAY_COLORS.length]!,
+  }));
+  const metricEntry = METRICS.find((entry) => entry.key === metric);
+  const metricLabel = metricEntry ? labelWithUnit(metricEntry.key, metricEntry.label, preferences) : metric;
+
+  return (
+    <div className="page">
+      <header className="page__header">
+        <div>
+          <h2>Compare devices</h2>
+          <p className="page__subtitle">Overlay one metric across up to {MAX_DEVICES} devices on a shared time axis</p>
+        </div>
+        <div className="chip-group">
+          {Object.keys(RANGES).map((option) => (
+            <button
+              key={option}
+              className={`pill${range === option ? ' is-active' : ''}`}
+              onClick={() => update({ range: option })}
+              type="button"
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <section className="card">
+        <div className="compare-picker">
+          {deviceIds.map((id, index) => (
+            <span key={id} className="pill" style={{ borderColor: OVERLAY_COLORS[index % OVERLAY_COLORS.length] }}>
+              <Link to={`/devices/${encodeURIComponent(id)}`}>{id}</Link>{' '}
+              <button type="button" className="compare-picker__remove" aria-label={`Remove ${id}`} onClick={() => removeDevice(id)}>
+                ×
+              </button>
+            </span>
+          ))}
+          <label className="form-field">
+            Add device
+            <input
+              type="search"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder={deviceIds.length >= MAX_DEVICES ? `Limit of ${MAX_DEVICES} reached` : 'Search by device or site'}
+              disabled={deviceIds.length >= MAX_DEVICES}
+            />
+          </label>
+          {suggestions.map((device) => (
+            <button key={device.id} type="button" className="app-button app-button--ghost" onClick={() => addDevice(device.id)}>
+              {device.id}
+              {device.siteId ? ` · ${device.siteId}` : ''}
+            </button>
+          ))}
+        </div>
+        <div className="compare-picker" style={{ marginTop: 12 }}>
+          <label className="form-field">
+            Metric
+            <select value={metric} onChange={(event) => update({ metric: event.target.value })}>
+              {METRICS.map((entry) => (
+                <option key={entry.key} value={entry.key}>
+                  {labelWithUnit(entry.key, entry.label, preferences)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="form-field">
+            Show
+            <select value={mode} onChange={(event) => update({ mode: event.target.value })}>
+              {Object.entries(MODES).map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="form-field">
+            Normalise
+            <select value={normalize} onChange={(event) => update({ normalize: event.target.value })}>
+              {Object.entries(NORMALIZATIONS).map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {compareViews.length > 0 ? (
+            <label className="form-field">
+              Saved comparisons
+              <select value="" onChange={(event) => applyView(event.target.value)}>
+                <option value="">Load…</option>
+                {compareViews.map((view) => (
+                  <option key={view.id} value={view.id}>
+                    {view.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+        </div>
+      </section>
+
+      <section className="card">
+        <h3 style={{ marginTop: 0 }}>
+          {metricLabel}
+          {mode === 'difference' ? ' vs site median' : ''}
+          {comparison ? ` · ${comparison.resolution} resolution` : ''}
+        </h3>
+        {deviceIds.length === 0 ? (
+          <p>Add devices above to start comparing.</p>
+        ) : comparisonQuery.isLoading ? (
+          <p>Loading series…</p>
+        ) : comparisonQuery.isError || !comparison ? (
+          <p className="card__error">Unable to load the comparison.</p>
+        ) : timestamps.length === 0 ? (
+          <p>No {metricLabel} data for these devices in the selected window.</p>
+        ) : (
+          <>
+            <OverlayChart timestamps={timestamps} series={overlay} ariaLabel={`${metricLabel} by device`} />
+            <ul className="compare-legend">
+              {overlay.map((entry) => (
+                <li key={entry.key}>
+                  <span className="compare-legend__swatch" style={{ background: entry.color }} />
+                  {entry.label}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        {deviceIds.length > 0 ? (
+          <form onSubmit={handleSave} className="compare-picker" style={{ marginTop: 12 }}>
+            <label className="form-field">
+              Save as
+              <input
+                type="text"
+                value={viewName}
+                onChange={(event) => setViewName(event.target.value)}
+                placeholder="e.g. Site 12 DHW units"
+                disabled={ro || saveView.isPending}
+              />
+            </label>
+            <button className="app-button app-button--secondary" type="submit" disabled={ro || saveView.isPending || !viewName.trim()}>
+              {saveView.isPending ? 'Saving…' : 'Save comparison'}
+            </button>
+          </form>
+        ) : null}
+      </section>
+    </div>
+  );
+}
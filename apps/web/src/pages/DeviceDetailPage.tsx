@@ -1,10 +1,23 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from 'react';
-import { Navigate, useParams, useSearchParams } from 'react-router-dom';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, Navigate, useParams, useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiFetch } from '@api/client';
 import { useAuthFetch } from '@hooks/useAuthFetch';
 import { useBaselineCompare } from '@hooks/useBaselineCompare';
-import type { DeviceLatestState, TelemetryPoint } from '@api/types';
+import { usePreferences } from '@hooks/usePreferences';
+import { useReadOnly } from '@hooks/useReadOnly';
+import type {
+  CommandField,
+  CommandKind,
+  DeviceFaultHistory,
+  DeviceLatestState,
+  DeviceSchedule,
+  EnergyReport,
+  IssuedCommand,
+  TelemetryPoint,
+} from '@api/types';
+import { EnergyBars } from '@components/charts/EnergyBars';
+import { FaultTimeline, type FaultTimelineRow } from '@components/charts/FaultTimeline';
 import { Legend } from '@components/charts/Legend';
 import {
   SeriesChart,
@@ -16,9 +29,25 @@ import {
   type TimeWindow,
 } from '@components/charts/SeriesChart';
 import { rollingStats, type RollingPoint } from '@utils/rolling';
+import { convertQuantity, formatMetric, formatNumber, formatQuantity, unitSymbol } from '@utils/units';
 import { toast } from '@app/providers/toast';
 
-const TELEMETRY_RANGES: Array<'24h' | '7d'> = ['24h', '7d'];
+type TelemetryRange = '24h' | '7d' | '30d' | '90d' | '1y';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longer windows are served from hourly/daily rollups, so they stay cheap to fetch.
+const TELEMETRY_RANGE_MS: Record<TelemetryRange, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+  '1y': 365 * DAY_MS,
+};
+
+const TELEMETRY_RANGES = Object.keys(TELEMETRY_RANGE_MS) as TelemetryRange[];
+
+const FAULT_SEVERITY_TONE = { critical: 'negative', major: 'warning', minor: 'neutral' } as const;
 
 function humanizeKey(label: string): string {
   return label
@@ -97,10 +126,12 @@ const SUGGESTION_CONFIG = [
 
 export function DeviceDetailPage(): JSX.Element {
   const { deviceId } = useParams<{ deviceId: string }>();
-  const [range, setRange] = useState<'24h' | '7d'>('24h');
+  const [range, setRange] = useState<TelemetryRange>('24h');
+  const [zoomWindow, setZoomWindow] = useState<[number, number] | null>(null);
   const [searchParams, setSearchParams] = useSearchParams();
   const authFetch = useAuthFetch();
   const queryClient = useQueryClient();
+  const preferences = usePreferences();
   const [baselineSaving, setBaselineSaving] = useState(false);
   const [baselineMutating, setBaselineMutating] = useState<string | null>(null);
   const [drawerTab, setDrawerTab] = useState<'checks' | 'baselines'>('checks');
@@ -210,10 +241,15 @@ export function DeviceDetailPage(): JSX.Element {
   });
 
   const telemetryQuery = useQuery({
-    queryKey: ['device', deviceId, 'telemetry', range],
-    queryFn: () => apiFetch<TelemetryPoint[]>(`/api/devices/${deviceId}/series?range=${range}`, undefined, authFetch),
+    queryKey: ['device', deviceId, 'telemetry', range, zoomWindow],
+    queryFn: () => {
+      const to = zoomWindow ? zoomWindow[1] : Date.now();
+      const from = zoomWindow ? zoomWindow[0] : to - TELEMETRY_RANGE_MS[range];
+      const params = new URLSearchParams({ from: new Date(from).toISOString(), to: new Date(to).toISOString() });
+      return apiFetch<TelemetryPoint[]>(`/api/devices/${deviceId}/series?${params.toString()}`, undefined, authFetch);
+    },
     enabled: !!deviceId,
-    refetchInterval: range === '24h' ? 20_000 : 60_000,
+    refetchInterval: zoomWindow ? false : range === '24h' ? 20_000 : range === '7d' ? 60_000 : 5 * 60_000,
   });
 
   const alertWindowsQuery = useQuery({
@@ -265,6 +301,10 @@ export function DeviceDetailPage(): JSX.Element {
     const span = Math.max(1, end - start);
     const pad = Math.max(span * 0.15, 1_000);
     const domain: [number, number] = [start - pad, end + pad];
+    // Windows older than the default range are fetched directly at their own resolution.
+    if (domain[0] < Date.now() - TELEMETRY_RANGE_MS['24h']) {
+      setZoomWindow(domain);
+    }
     deltaChartRef.current?.setXDomain(domain);
     copChartRef.current?.setXDomain(domain);
     currentChartRef.current?.setXDomain(domain);
@@ -648,11 +688,17 @@ export function DeviceDetailPage(): JSX.Element {
           <p className="page__subtitle">Live telemetry and state snapshot</p>
         </div>
         <div className="chip-group">
+          <Link className="pill" to={`/devices/compare?devices=${encodeURIComponent(deviceId)}`}>
+            Compare…
+          </Link>
           {TELEMETRY_RANGES.map((option) => (
             <button
               key={option}
-              className={`pill${range === option ? ' is-active' : ''}`}
-              onClick={() => setRange(option)}
+              className={`pill${range === option && !zoomWindow ? ' is-active' : ''}`}
+              onClick={() => {
+                setRange(option);
+                setZoomWindow(null);
+              }}
               type="button"
             >
               {option}
@@ -688,7 +734,7 @@ export function DeviceDetailPage(): JSX.Element {
               {Object.entries(latest.metrics).map(([metric, value]) => (
                 <li key={metric}>
                   <span>{humanizeKey(metric)}</span>
-                  <span>{value ?? 'N/A'}</span>
+                  <span>{value == null ? 'N/A' : formatMetric(metric, value, preferences)}</span>
                 </li>
               ))}
               {latest.status.mode ? (
@@ -732,7 +778,10 @@ export function DeviceDetailPage(): JSX.Element {
               {latest.faults.map((fault) => (
                 <li key={fault.code} className={fault.active ? 'fault fault--active' : 'fault'}>
                   <span className="fault__code">{fault.code}</span>
-                  <span className="fault__description">{fault.description ?? 'No description'}</span>
+                  <span className="fault__description">{fault.title ?? fault.description ?? 'No description'}</span>
+                  {fault.severity ? (
+                    <span className={`status-pill status-pill--${FAULT_SEVERITY_TONE[fault.severity]}`}>{fault.severity}</span>
+                  ) : null}
                 </li>
               ))}
             </ul>
@@ -742,7 +791,7 @@ export function DeviceDetailPage(): JSX.Element {
         </div>
       </section>
       <section className="card">
-        <h3>Telemetry ({range})</h3>
+        <h3>Telemetry ({zoomWindow ? 'focus' : range})</h3>
         {telemetryQuery.isLoading ? (
           <p>Loading telemetry…</p>
         ) : telemetryQuery.isError ? (
@@ -756,7 +805,7 @@ export function DeviceDetailPage(): JSX.Element {
           current={currentSeries}
           overlays={alertWindows}
           measurementWindow={measurementWindow}
-          range={range}
+          range={zoomWindow ? 'focus' : range}
           windows={windows}
           lastWindow={lastWindow}
           onJumpToWindow={handleJumpToWindow}
@@ -796,7 +845,7 @@ export function DeviceDetailPage(): JSX.Element {
                       <div className="kv-inline">
                         {Object.entries(point.metrics).map(([key, value]) => (
                           <span key={key}>
-                            {key}: <strong>{value ?? '—'}</strong>
+                            {key}: <strong>{formatMetric(key, value, preferences)}</strong>
                           </span>
                         ))}
                       </div>
@@ -810,10 +859,504 @@ export function DeviceDetailPage(): JSX.Element {
           <p>No telemetry points for the selected window.</p>
         )}
       </section>
+      <DeviceCommandCard deviceId={deviceId} />
+      <DeviceScheduleCard deviceId={deviceId} />
+      <DeviceEnergyCard deviceId={deviceId} />
+      <DeviceFaultHistoryCard deviceId={deviceId} />
     </div>
   );
 }
 
+function commandPayload(kind: CommandKind, values: Record<string, string | boolean>): Record<string, unknown> {
+  const body: Record<string, unknown> = { kind: kind.kind };
+  for (const field of kind.fields) {
+    const value = values[field.name];
+    if (field.type === 'boolean') {
+      body[field.name] = value === true;
+    } else if (typeof value === 'string' && value.trim() !== '') {
+      body[field.name] = field.type === 'number' ? Number(value) : value.trim();
+    }
+  }
+  return body;
+}
+
+function CommandFieldInput({
+  field,
+  value,
+  disabled,
+  onChange,
+}: {
+  field: CommandField;
+  value: string | boolean | undefined;
+  disabled: boolean;
+  onChange: (value: string | boolean) => void;
+}): JSX.Element {
+  const label = field.type === 'number' && field.unit ? `${field.label} (${field.unit})` : field.label;
+  switch (field.type) {
+    case 'number':
+      return (
+        <label className="form-field">
+          {label}
+          <input
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            required={field.required}
+            value={typeof value === 'string' ? value : ''}
+            placeholder={`${field.min}–${field.max}`}
+            onChange={(event) => onChange(event.target.value)}
+            disabled={disabled}
+          />
+        </label>
+      );
+    case 'enum':
+      return (
+        <label className="form-field">
+          {label}
+          <select
+            value={typeof value === 'string' ? value : ''}
+            required={field.required}
+            onChange={(event) => onChange(event.target.value)}
+            disabled={disabled}
+          >
+            <option value="">{field.required ? 'Select…' : 'Unchanged'}</option>
+            {field.options.map((option) => (
+              <option key={option} value={option}>
+                {humanizeKey(option)}
+              </option>
+            ))}
+          </select>
+        </label>
+      );
+    case 'boolean':
+      return (
+        <label className="form-field">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(event) => onChange(event.target.checked)}
+            disabled={disabled}
+          />{' '}
+          {label}
+        </label>
+      );
+    case 'text':
+      return (
+        <label className="form-field">
+          {label}
+          <input
+            type="text"
+            pattern={field.pattern}
+            maxLength={field.maxLength}
+            required={field.required}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(event) => onChange(event.target.value)}
+            disabled={disabled}
+          />
+        </label>
+      );
+  }
+}
+
+function DeviceCommandCard({ deviceId }: { deviceId: string }): JSX.Element | null {
+  const authFetch = useAuthFetch();
+  const queryClient = useQueryClient();
+  const { ro } = useReadOnly();
+  const registryQuery = useQuery({
+    queryKey: ['commands', 'registry'],
+    queryFn: () => apiFetch<{ kinds: CommandKind[] }>('/api/commands/registry', undefined, authFetch),
+    staleTime: 10 * 60_000,
+  });
+  const kinds = registryQuery.data?.kinds ?? [];
+  const [selected, setSelected] = useState('');
+  const [values, setValues] = useState<Record<string, string | boolean>>({});
+  const kind = kinds.find((entry) => entry.kind === selected) ?? kinds[0];
+
+  const send = useMutation({
+    mutationFn: (body: Record<string, unknown>) =>
+      apiFetch<IssuedCommand>(
+        `/api/devices/${deviceId}/command`,
+        { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) },
+        authFetch,
+      ),
+    onSuccess: (result) => {
+      const clamped = Object.entries(result.clamped ?? {});
+      if (clamped.length > 0) {
+        toast.warning(`Command queued; clamped ${clamped.map(([key, value]) => `${key} to ${String(value)}`).join(', ')}`);
+      } else {
+        toast.success('Command queued for the device');
+      }
+      setValues({});
+      void queryClient.invalidateQueries({ queryKey: ['device', deviceId, 'schedule'] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error && error.message ? error.message : 'Command failed');
+    },
+  });
+
+  if (registryQuery.isLoading || registryQuery.isError || !kind) {
+    return null;
+  }
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (kind.confirm && !window.confirm(`${kind.label}: send to ${deviceId}?`)) {
+      return;
+    }
+    send.mutate(commandPayload(kind, values));
+  };
+  const disabled = ro || send.isPending;
+
+  return (
+    <section className="card">
+      <h3 style={{ marginTop: 0 }}>Commands</h3>
+      <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '10px' }}>
+        <label className="form-field">
+          Command
+          <select
+            value={kind.kind}
+            onChange={(event) => {
+              setSelected(event.target.value);
+              setValues({});
+            }}
+            disabled={disabled}
+          >
+            {kinds.map((entry) => (
+              <option key={entry.kind} value={entry.kind}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <p className="muted" style={{ margin: 0 }}>
+          {kind.description}
+        </p>
+        {kind.fields.map((field) => (
+          <CommandFieldInput
+            key={`${kind.kind}:${field.name}`}
+            field={field}
+            value={values[field.name]}
+            disabled={disabled}
+            onChange={(value) => setValues((current) => ({ ...current, [field.name]: value }))}
+          />
+        ))}
+        <button className="app-button" type="submit" disabled={disabled}>
+          {send.isPending ? 'Sending…' : 'Send command'}
+        </button>
+        {ro ? <p className="muted">Commands are disabled while the app is read-only.</p> : null}
+      </form>
+    </section>
+  );
+}
+
+function DeviceScheduleCard({ deviceId }: { deviceId: string }): JSX.Element | null {
+  const authFetch = useAuthFetch();
+  const scheduleQuery = useQuery({
+    queryKey: ['device', deviceId, 'schedule'],
+    queryFn: () => apiFetch<DeviceSchedule>(`/api/devices/${deviceId}/schedule`, undefined, authFetch),
+    staleTime: 60_000,
+  });
+  const schedule = scheduleQuery.data;
+  if (scheduleQuery.isLoading || scheduleQuery.isError || !schedule) {
+    return null;
+  }
+  if (schedule.programs.length === 0 && schedule.overrides.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="card">
+      <h3 style={{ marginTop: 0 }}>Schedule</h3>
+      <ul className="kv-list">
+        <li>
+          <span>Now</span>
+          <span>{schedule.current ? `${schedule.current.summary} (${schedule.current.label})` : 'Not scheduled'}</span>
+        </li>
+        <li>
+          <span>Next change</span>
+          <span>
+            {schedule.next
+              ? `${new Date(schedule.next.at).toLocaleString()} → ${schedule.next.summary} (${schedule.next.label})`
+              : 'None in the next 7 days'}
+          </span>
+        </li>
+        {schedule.lastIssued ? (
+          <li>
+            <span>Last scheduled command</span>
+            <span>
+              {new Date(schedule.lastIssued.issuedAt).toLocaleString()} · {schedule.lastIssued.status}
+            </span>
+          </li>
+        ) : null}
+        {schedule.programs.map((program) => (
+          <li key={program.id}>
+            <span>{program.scope === 'site' ? 'Site program' : 'Device program'}</span>
+            <span>
+              {program.name} ({program.timezone})
+            </span>
+          </li>
+        ))}
+        {schedule.overrides.map((override) => (
+          <li key={override.id}>
+            <span>{override.reason ?? 'Override'}</span>
+            <span>
+              {new Date(override.startsAt).toLocaleString()} – {new Date(override.endsAt).toLocaleString()}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {schedule.conflicts.length > 0 ? (
+        <ul className="schedule-conflicts" aria-label="Schedule conflicts">
+          {schedule.conflicts.map((conflict) => (
+            <li key={`${conflict.kind}:${conflict.message}`} className={`schedule-conflicts__item schedule-conflicts__item--${conflict.kind}`}>
+              {conflict.message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </section>
+  );
+}
+
+const ENERGY_VIEWS = {
+  day: { label: '30 days', days: 30 },
+  month: { label: '12 months', days: 365 },
+} as const;
+
+function DeviceEnergyCard({ deviceId }: { deviceId: string }): JSX.Element {
+  const authFetch = useAuthFetch();
+  const preferences = usePreferences();
+  const [granularity, setGranularity] = useState<keyof typeof ENERGY_VIEWS>('day');
+  const energyQuery = useQuery({
+    queryKey: ['device', deviceId, 'energy', granularity],
+    queryFn: () => {
+      const to = new Date();
+      const from = new Date(to.getTime() - (ENERGY_VIEWS[granularity].days - 1) * 24 * 60 * 60 * 1000);
+      const params = new URLSearchParams({
+        granularity,
+        from: from.toISOString().slice(0, 10),
+        to: to.toISOString().slice(0, 10),
+      });
+      return apiFetch<EnergyReport>(`/api/devices/${deviceId}/energy?${params.toString()}`, undefined, authFetch);
+    },
+    staleTime: 5 * 60_000,
+  });
+  const report = energyQuery.data;
+  const bars = useMemo(
+    () =>
+      (report?.periods ?? []).map((row) => ({
+        label: granularity === 'day' ? row.period.slice(5) : row.period,
+        electric: convertQuantity('energy', row.kwhElectric, preferences),
+        thermal: convertQuantity('energy', row.kwhThermal, preferences),
+      })),
+    [granularity, preferences, report],
+  );
+
+  return (
+    <section className="card">
+      <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h3 style={{ margin: 0 }}>Energy &amp; carbon</h3>
+        <div className="chip-group">
+          {(Object.keys(ENERGY_VIEWS) as Array<keyof typeof ENERGY_VIEWS>).map((option) => (
+            <button
+              key={option}
+              className={`pill${granularity === option ? ' is-active' : ''}`}
+              onClick={() => setGranularity(option)}
+              type="button"
+            >
+              {ENERGY_VIEWS[option].label}
+            </button>
+          ))}
+        </div>
+      </header>
+      {energyQuery.isLoading ? (
+        <p>Loading energy totals…</p>
+      ) : energyQuery.isError || !report ? (
+        <p className="card__error">Unable to load energy totals.</p>
+      ) : report.periods.length === 0 ? (
+        <p>No integrated energy yet. Totals are rolled up nightly from telemetry.</p>
+      ) : (
+        <>
+          <ul className="kv-list">
+            <li>
+              <span>Electricity used</span>
+              <span>{formatQuantity('energy', report.totals.kwhElectric, preferences)}</span>
+            </li>
+            <li>
+              <span>Heat delivered</span>
+              <span>{formatQuantity('energy', report.totals.kwhThermal, preferences)}</span>
+            </li>
+            <li>
+              <span>SPF</span>
+              <span>{formatNumber(report.totals.spf, 2, preferences.locale)}</span>
+            </li>
+            <li>
+              <span>Saved vs {report.settings.reference === 'gas' ? 'gas boiler' : 'resistive heater'}</span>
+              <span>{formatQuantity('energy', report.totals.savingsKwh, preferences)}</span>
+            </li>
+            <li>
+              <span>CO₂ avoided</span>
+              <span>{formatNumber(report.totals.co2AvoidedKg, 1, preferences.locale)} kg</span>
+            </li>
+          </ul>
+          <EnergyBars data={bars} ariaLabel="Electricity used and heat delivered per period" />
+          <div className="energy-bars__legend">
+            <span className="energy-bars__swatch energy-bars__swatch--electric" /> Electricity ({unitSymbol('energy', preferences)})
+            <span className="energy-bars__swatch energy-bars__swatch--thermal" /> Heat ({unitSymbol('energy', preferences)})
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+const FAULT_HISTORY_RANGES = ['7d', '30d', '90d'] as const;
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86_400) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / 86_400).toFixed(1)}d`;
+}
+
+function DeviceFaultHistoryCard({ deviceId }: { deviceId: string }): JSX.Element {
+  const authFetch = useAuthFetch();
+  const [range, setRange] = useState<(typeof FAULT_HISTORY_RANGES)[number]>('30d');
+  const historyQuery = useQuery({
+    queryKey: ['device', deviceId, 'faults', range],
+    queryFn: () => apiFetch<DeviceFaultHistory>(`/api/devices/${deviceId}/faults?range=${range}`, undefined, authFetch),
+    staleTime: 60_000,
+  });
+  const history = historyQuery.data;
+  const timeline = useMemo<FaultTimelineRow[]>(() => {
+    if (!history) return [];
+    const toMs = Date.parse(history.to);
+    return history.stats.map((stat) => ({
+      code: stat.code,
+      label: stat.title ? `${stat.code} · ${stat.title}` : stat.code,
+      severity: stat.severity,
+      spans: history.events
+        .filter((event) => event.code === stat.code)
+        .map((event) => ({
+          start: Date.parse(event.startedAt),
+          end: event.endedAt ? Date.parse(event.endedAt) : toMs,
+          open: !event.endedAt,
+        })),
+    }));
+  }, [history]);
+
+  return (
+    <section className="card">
+      <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h3 style={{ margin: 0 }}>Fault history</h3>
+        <div className="chip-group">
+          {FAULT_HISTORY_RANGES.map((option) => (
+            <button
+              key={option}
+              className={`pill${range === option ? ' is-active' : ''}`}
+              onClick={() => setRange(option)}
+              type="button"
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </header>
+      {historyQuery.isLoading ? (
+        <p>Loading fault history…</p>
+      ) : historyQuery.isError || !history ? (
+        <p className="card__error">Unable to load fault history.</p>
+      ) : history.stats.length === 0 ? (
+        <p>No faults reported in the last {range}.</p>
+      ) : (
+        <>
+          <FaultTimeline
+            fromMs={Date.parse(history.from)}
+            toMs={Date.parse(history.to)}
+            rows={timeline}
+            ariaLabel="Fault occurrences by code"
+          />
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Code</th>
+                <th>Severity</th>
+                <th>Occurrences</th>
+                <th>Time active</th>
+                <th>Mean</th>
+                <th>Longest</th>
+                <th>Last started</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.stats.map((stat) => (
+                <tr key={stat.code}>
+                  <td>
+                    <strong>{stat.code}</strong> {stat.title ?? ''}
+                    {stat.active ? <span className="status-pill status-pill--negative">active</span> : null}
+                  </td>
+                  <td>
+                    {stat.severity ? (
+                      <span className={`status-pill status-pill--${FAULT_SEVERITY_TONE[stat.severity]}`}>{stat.severity}</span>
+                    ) : (
+                      'uncatalogued'
+                    )}
+                  </td>
+                  <td>{stat.occurrences}</td>
+                  <td>{formatDuration(stat.totalActiveSec)}</td>
+                  <td>{formatDuration(stat.meanDurationSec)}</td>
+                  <td>{formatDuration(stat.longestSec)}</td>
+                  <td>{new Date(stat.lastStartedAt).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {history.catalogue.map((entry) => (
+            <details key={entry.id} className="fault-guidance">
+              <summary>
+                {entry.code} · {entry.title}
+              </summary>
+              {entry.description ? <p>{entry.description}</p> : null}
+              {entry.causes.length > 0 ? (
+                <>
+                  <h4>Likely causes</h4>
+                  <ul>
+                    {entry.causes.map((cause) => (
+                      <li key={cause}>{cause}</li>
+                    ))}
+                  </ul>
+                </>
+              ) : null}
+              {entry.actions.length > 0 ? (
+                <>
+                  <h4>Recommended actions</h4>
+                  <ol>
+                    {entry.actions.map((action) => (
+                      <li key={action}>{action}</li>
+                    ))}
+                  </ol>
+                </>
+              ) : null}
+              {entry.links.length > 0 ? (
+                <ul>
+                  {entry.links.map((link) => (
+                    <li key={link.url}>
+                      <a href={link.url} target="_blank" rel="noreferrer">
+                        {link.label}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </details>
+          ))}
+        </>
+      )}
+    </section>
+  );
+}
+
 function extractTimestamp(entry: Record<string, unknown>, keys: string[]): string | undefined {
   for (const key of keys) {
     const value = entry[key];
@@ -847,7 +1390,7 @@ function buildSeries(points: TelemetryPoint[], metricKeys: string[]): SeriesPoin
     .sort((a, b) => a.ts - b.ts);
 }
 
-function MinMaxBadges({ pts }: { pts: SeriesPoint[] }) {
+function MinMaxBadges({ pts, format }: { pts: SeriesPoint[]; format?: (value: number) => string }) {
   const stats = useMemo(() => {
     if (!pts.length) {
       return null as { min: number; max: number } | null;
@@ -862,8 +1405,8 @@ function MinMaxBadges({ pts }: { pts: SeriesPoint[] }) {
 
   return (
     <div style={{ display: 'flex', gap: 8 }}>
-      <span className="chip">min {stats.min.toFixed(2)}</span>
-      <span className="chip ok">max {stats.max.toFixed(2)}</span>
+      <span className="chip">min {format ? format(stats.min) : stats.min.toFixed(2)}</span>
+      <span className="chip ok">max {format ? format(stats.max) : stats.max.toFixed(2)}</span>
     </div>
   );
 }
@@ -872,10 +1415,13 @@ function BaselineCompareChips({
   result,
   unit,
   precision = 1,
+  format,
 }: {
   result: BaselineCompareResult;
   unit: string;
   precision?: number;
+  /** Formats the drift magnitude including its unit; `precision` and `unit` are used otherwise. */
+  format?: (value: number) => string;
 }) {
   if (result.isLoading) {
     return <span className="chip">Loading…</span>;
@@ -904,8 +1450,7 @@ function BaselineCompareChips({
           title="Median drift vs baseline"
         >
           {drift >= 0 ? '+' : ''}
-          {drift.toFixed(precision)}
-          {unit} vs baseline
+          {format ? format(drift) : `${drift.toFixed(precision)}${unit}`} vs baseline
         </span>
       ) : null}
     </>
@@ -919,7 +1464,7 @@ interface DeviceDetailChartsProps {
   current: SeriesPoint[];
   overlays: AlertWindow[];
   measurementWindow: { start: number; end: number } | null;
-  range: '24h' | '7d';
+  range: string;
   windows: CommissioningWindowSummary[];
   lastWindow: CommissioningWindowSummary | null;
   onJumpToWindow: () => void;
@@ -983,6 +1528,11 @@ function DeviceDetailCharts({
   onBaselineExpiryChange,
   onBaselineDelete,
 }: DeviceDetailChartsProps) {
+  const preferences = usePreferences();
+  const formatDelta = useCallback(
+    (value: number) => formatQuantity('temperatureDelta', value, preferences),
+    [preferences],
+  );
   const hasSeries = delta.length > 0 || cop.length > 0 || current.length > 0;
   const measurementWindows: TimeWindow[] = measurementWindow
     ? [{ start: measurementWindow.start, end: measurementWindow.end, kind: 'info' }]
@@ -1048,13 +1598,11 @@ function DeviceDetailCharts({
       parts.push(`${baselineSummary.coverage}% in-range`);
     }
     if (baselineSummary.drift != null) {
-      const signed = baselineSummary.drift >= 0
-        ? `+${baselineSummary.drift.toFixed(1)}`
-        : baselineSummary.drift.toFixed(1);
-      parts.push(`drift ${signed}°C`);
+      const signed = `${baselineSummary.drift >= 0 ? '+' : ''}${formatDelta(baselineSummary.drift)}`;
+      parts.push(`drift ${signed}`);
     }
     return parts.length ? ` — ${parts.join('; ')}` : '';
-  }, [baselineSummary]);
+  }, [baselineSummary, formatDelta]);
 
   const focusBaseline = useCallback(() => {
     if (!baselineOverlay) {
@@ -1100,9 +1648,9 @@ function DeviceDetailCharts({
       if (!sample || sample.median == null) {
         return [];
       }
-      return [`Median ΔT (90 s): ${sample.median.toFixed(1)}°C`];
+      return [`Median ΔT (90 s): ${formatDelta(sample.median)}`];
     },
-    [deltaRollingLookup],
+    [deltaRollingLookup, formatDelta],
   );
   const deltaTooltipExtrasFn = deltaRollingLookup.size ? deltaTooltipExtras : undefined;
 
@@ -1213,7 +1761,7 @@ function DeviceDetailCharts({
           >
             <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
               <strong>ΔT</strong>
-              <MinMaxBadges pts={delta} />
+              <MinMaxBadges pts={delta} format={formatDelta} />
             </div>
             <div
               style={{
@@ -1225,7 +1773,7 @@ function DeviceDetailCharts({
               }}
             >
               <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'flex-end' }}>
-                <BaselineCompareChips result={deltaCompare} unit="°C" precision={1} />
+                <BaselineCompareChips result={deltaCompare} unit="°C" precision={1} format={formatDelta} />
               </div>
               <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'flex-end' }}>
                 <button
@@ -1268,6 +1816,7 @@ function DeviceDetailCharts({
             ariaLabel="Delta T trend with alert overlays"
             bandOverlayBuilder={deltaBandOverlayBuilder}
             tooltipExtras={deltaTooltipExtrasFn}
+            formatValue={formatDelta}
             onXDomainChange={onDomainChange}
           />
           {measurementCaption ? (
@@ -22,6 +22,7 @@ type DeviceSearchRow = {
   model: string | null;
   online: number | boolean | null;
   last_seen_at: string | null;
+  quarantined_at?: string | null;
   open_alerts: number | null;
   health?: 'healthy' | 'unhealthy' | 'empty';
 };
@@ -41,6 +42,8 @@ type DeviceListRow = {
   region: string | null;
   online: number | null;
   last_seen_at: string | null;
+  quarantined_at?: string | null;
+  quarantinedAt?: string | null;
   open_alerts?: number | null;
   openAlerts?: number | null;
 };
@@ -52,6 +55,7 @@ type DeviceRow = {
   region?: string;
   lastSeen?: string | null;
   online?: boolean | null;
+  quarantinedAt?: string | null;
   openAlerts?: number;
   health?: 'healthy' | 'unhealthy';
 };
@@ -106,6 +110,7 @@ function mapSearchRow(row: DeviceSearchRow): DeviceRow {
     region: row.region ?? undefined,
     lastSeen: row.last_seen_at ?? null,
     online,
+    quarantinedAt: row.quarantined_at ?? null,
     openAlerts,
     health: derivedUnhealthy ? 'unhealthy' : 'healthy',
   };
@@ -125,6 +130,7 @@ function mapClientRow(row: DeviceListRow): DeviceRow {
     region: row.region ?? undefined,
     lastSeen: row.last_seen_at ?? null,
     online,
+    quarantinedAt: row.quarantined_at ?? row.quarantinedAt ?? null,
     openAlerts,
     health: derivedUnhealthy ? 'unhealthy' : 'healthy',
   };
@@ -156,7 +162,13 @@ function matchesHealth(row: DeviceRow, health: string): boolean {
   return true;
 }
 
-function statusFor(row: DeviceRow): 'online' | 'offline' | 'unknown' {
+type DeviceStatus = 'online' | 'offline' | 'unknown' | 'quarantined';
+
+function statusFor(row: DeviceRow): DeviceStatus {
+  // Quarantined controllers are refused by ingest until ops release them, whatever their last heartbeat said.
+  if (row.quarantinedAt) {
+    return 'quarantined';
+  }
   if (row.online === true) {
     return 'online';
   }
@@ -673,7 +685,7 @@ export default function DevicesPage() {
                             ) : null}
                           </td>
                           <td>
-                            <StatusPill status={statusFor(device)} />
+                            <StatusPill status={statusFor(device)} since={device.quarantinedAt} />
                           </td>
                           <td>{device.siteName ?? '—'}</td>
                           <td>{device.region ?? '—'}</td>
@@ -693,7 +705,7 @@ export default function DevicesPage() {
                           ) : null}
                         </td>
                         <td>
-                          <StatusPill status={statusFor(device)} />
+                          <StatusPill status={statusFor(device)} since={device.quarantinedAt} />
                         </td>
                         <td>{device.siteName ?? '—'}</td>
                         <td>{device.region ?? '—'}</td>
@@ -763,9 +775,22 @@ export default function DevicesPage() {
   );
 }
 
-function StatusPill({ status }: { status: 'online' | 'offline' | 'unknown' }) {
-  const tone = status === 'online' ? 'positive' : status === 'offline' ? 'negative' : 'neutral';
-  return <span className={`status-pill status-pill--${tone}`}>{status}</span>;
+const STATUS_TONES: Record<DeviceStatus, string> = {
+  online: 'positive',
+  offline: 'negative',
+  unknown: 'neutral',
+  quarantined: 'warning',
+};
+
+function StatusPill({ status, since }: { status: DeviceStatus; since?: string | null }) {
+  return (
+    <span
+      className={`status-pill status-pill--${STATUS_TONES[status]}`}
+      title={since ? `Quarantined since ${new Date(since).toLocaleString()}` : undefined}
+    >
+      {status}
+    </span>
+  );
 }
 
 export { DevicesPage };
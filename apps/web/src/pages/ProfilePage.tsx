@@ -0,0 +1,471 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  deleteAlertSubscription,
+  fetchMyNotifications,
+  saveAlertSubscription,
+  saveNotificationPreferences,
+  type AlertSubscription,
+  type NotificationPreferences,
+} from '@api/auth';
+import { useAuth } from '@app/providers/AuthProvider';
+import { useToast } from '@app/providers/ToastProvider';
+import { useReadOnly } from '@hooks/useReadOnly';
+import type { Role } from '@utils/types';
+
+const SEVERITY_OPTIONS = ['critical', 'major', 'minor'];
+// Contractors have no client or site scope to subscribe to; they only see commissioning work.
+const SUBSCRIBER_ROLES: Role[] = ['admin', 'ops', 'client'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+type PreferencesForm = {
+  email: boolean;
+  digest: NotificationPreferences['digest'];
+  digestHour: number;
+  quietEnabled: boolean;
+  quietStart: string;
+  quietEnd: string;
+  timezone: string;
+};
+
+function toPreferencesForm(prefs: NotificationPreferences): PreferencesForm {
+  return {
+    email: prefs.email,
+    digest: prefs.digest,
+    digestHour: prefs.digestHour,
+    quietEnabled: prefs.quietHours !== null,
+    quietStart: prefs.quietHours?.start ?? '22:00',
+    quietEnd: prefs.quietHours?.end ?? '07:00',
+    timezone: prefs.timezone,
+  };
+}
+
+type SubscriptionForm = {
+  id: string | null;
+  name: string;
+  severities: string[];
+  rules: string;
+  siteIds: string;
+  clientIds: string;
+  deviceIds: string;
+  enabled: boolean;
+};
+
+const EMPTY_SUBSCRIPTION: SubscriptionForm = {
+  id: null,
+  name: '',
+  severities: [],
+  rules: '',
+  siteIds: '',
+  clientIds: '',
+  deviceIds: '',
+  enabled: true,
+};
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+function toSubscriptionForm(sub: AlertSubscription): SubscriptionForm {
+  return {
+    id: sub.id,
+    name: sub.name,
+    severities: sub.severities,
+    rules: sub.rules.join(', '),
+    siteIds: sub.siteIds.join(', '),
+    clientIds: sub.clientIds.join(', '),
+    deviceIds: sub.deviceIds.join(', '),
+    enabled: sub.enabled,
+  };
+}
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+function errorText(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('Read-only') ? 'Read-only mode: writes are temporarily disabled.' : message;
+}
+
+export function ProfilePage(): JSX.Element {
+  const { user } = useAuth();
+  const toast = useToast();
+  const queryClient = useQueryClient();
+  const { ro } = useReadOnly();
+  const [prefsForm, setPrefsForm] = useState<PreferencesForm | null>(null);
+  const [subForm, setSubForm] = useState<SubscriptionForm>(EMPTY_SUBSCRIPTION);
+
+  const canSubscribe = Boolean(user?.roles.some((role) => SUBSCRIBER_ROLES.includes(role)));
+  const scopedToClients = !user?.roles.some((role) => role === 'admin' || role === 'ops');
+
+  const notificationsQuery = useQuery({
+    queryKey: ['me:notifications'],
+    queryFn: fetchMyNotifications,
+    staleTime: 30_000,
+  });
+
+  useEffect(() => {
+    if (notificationsQuery.data && !prefsForm) {
+      setPrefsForm(toPreferencesForm(notificationsQuery.data.preferences));
+    }
+  }, [notificationsQuery.data, prefsForm]);
+
+  const invalidate = () => {
+    void queryClient.invalidateQueries({ queryKey: ['me:notifications'] });
+  };
+
+  const savePreferencesMutation = useMutation({
+    mutationFn: (state: PreferencesForm) => {
+      if (ro) {
+        throw new Error('Read-only mode is active');
+      }
+      return saveNotificationPreferences({
+        email: state.email,
+        digest: state.digest,
+        digestHour: state.digestHour,
+        quietHours: state.quietEnabled ? { start: state.quietStart, end: state.quietEnd } : null,
+        timezone: state.timezone.trim(),
+      });
+    },
+    onSuccess: (saved) => {
+      toast.success('Notification preferences saved.');
+      setPrefsForm(toPreferencesForm(saved));
+      invalidate();
+    },
+    onError: (error) => toast.error(errorText(error)),
+  });
+
+  const saveSubscriptionMutation = useMutation({
+    mutationFn: (state: SubscriptionForm) => {
+      if (ro) {
+        throw new Error('Read-only mode is active');
+      }
+      return saveAlertSubscription(
+        {
+          name: state.name,
+          severities: state.severities,
+          rules: splitList(state.rules),
+          siteIds: splitList(state.siteIds),
+          clientIds: splitList(state.clientIds),
+          deviceIds: splitList(state.deviceIds),
+          enabled: state.enabled,
+        },
+        state.id,
+      );
+    },
+    onSuccess: () => {
+      toast.success('Subscription saved.');
+      setSubForm(EMPTY_SUBSCRIPTION);
+      invalidate();
+    },
+    onError: (error) => toast.error(errorText(error)),
+  });
+
+  const deleteSubscriptionMutation = useMutation({
+    mutationFn: (id: string) => deleteAlertSubscription(id),
+    onSuccess: () => {
+      toast.success('Subscription removed.');
+      invalidate();
+    },
+    onError: () => toast.error('Failed to remove subscription.'),
+  });
+
+  const handlePreferencesSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (prefsForm) {
+      savePreferencesMutation.mutate(prefsForm);
+    }
+  };
+
+  const handleSubscriptionSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveSubscriptionMutation.mutate(subForm);
+  };
+
+  const subscriptions = notificationsQuery.data?.subscriptions ?? [];
+
+  return (
+    <div className="page">
+      <header className="page__header">
+        <div>
+          <h2>Profile</h2>
+          <p className="page__subtitle">Choose which alerts you hear about and when</p>
+        </div>
+      </header>
+      <section className="card">
+        <h3>Account</h3>
+        {user ? (
+          <ul className="kv-list">
+            <li>
+              <span>Email</span>
+              <span>{user.email}</span>
+            </li>
+            {user.name ? (
+              <li>
+                <span>Name</span>
+                <span>{user.name}</span>
+              </li>
+            ) : null}
+            <li>
+              <span>Roles</span>
+              <span>{user.roles.join(', ')}</span>
+            </li>
+            {user.clientIds?.length ? (
+              <li>
+                <span>Clients</span>
+                <span>{user.clientIds.join(', ')}</span>
+              </li>
+            ) : null}
+          </ul>
+        ) : null}
+      </section>
+
+      <section className="card" aria-busy={notificationsQuery.isLoading}>
+        <h3>Notification delivery</h3>
+        <p className="muted">
+          Alerts matching your subscriptions are emailed to {notificationsQuery.data?.email ?? user?.email}. Alerts
+          raised during quiet hours are held and sent together once they end.
+        </p>
+        {notificationsQuery.isError ? <p className="card__error">Unable to load notification settings.</p> : null}
+        {prefsForm ? (
+          <form onSubmit={handlePreferencesSubmit} style={{ display: 'grid', gap: 12, maxWidth: 480 }}>
+            <label>
+              <input
+                type="checkbox"
+                checked={prefsForm.email}
+                onChange={(event) => setPrefsForm({ ...prefsForm, email: event.target.checked })}
+              />{' '}
+              Email me about matching alerts
+            </label>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+              <span>Delivery</span>
+              <select
+                value={prefsForm.digest}
+                onChange={(event) =>
+                  setPrefsForm({ ...prefsForm, digest: event.target.value as PreferencesForm['digest'] })
+                }
+              >
+                <option value="off">As they happen</option>
+                <option value="hourly">Hourly digest</option>
+                <option value="daily">Daily digest</option>
+              </select>
+            </label>
+            {prefsForm.digest === 'daily' ? (
+              <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                <span>Send the daily digest at</span>
+                <select
+                  value={prefsForm.digestHour}
+                  onChange={(event) => setPrefsForm({ ...prefsForm, digestHour: Number(event.target.value) })}
+                >
+                  {HOURS.map((hour) => (
+                    <option key={hour} value={hour}>
+                      {`${String(hour).padStart(2, '0')}:00`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            <fieldset>
+              <legend>Quiet hours</legend>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={prefsForm.quietEnabled}
+                  onChange={(event) => setPrefsForm({ ...prefsForm, quietEnabled: event.target.checked })}
+                />{' '}
+                Hold emails overnight
+              </label>
+              {prefsForm.quietEnabled ? (
+                <div style={{ display: 'flex', gap: 12, marginTop: 8 }}>
+                  <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                    <span>From</span>
+                    <input
+                      type="time"
+                      value={prefsForm.quietStart}
+                      onChange={(event) => setPrefsForm({ ...prefsForm, quietStart: event.target.value })}
+                      required
+                    />
+                  </label>
+                  <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                    <span>Until</span>
+                    <input
+                      type="time"
+                      value={prefsForm.quietEnd}
+                      onChange={(event) => setPrefsForm({ ...prefsForm, quietEnd: event.target.value })}
+                      required
+                    />
+                  </label>
+                </div>
+              ) : null}
+            </fieldset>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+              <span>Time zone</span>
+              <input
+                value={prefsForm.timezone}
+                placeholder="Africa/Johannesburg"
+                onChange={(event) => setPrefsForm({ ...prefsForm, timezone: event.target.value })}
+                required
+              />
+              {prefsForm.timezone !== deviceTimeZone() ? (
+                <button
+                  className="app-button"
+                  type="button"
+                  style={{ justifySelf: 'start' }}
+                  onClick={() => setPrefsForm({ ...prefsForm, timezone: deviceTimeZone() })}
+                >
+                  Use this device&apos;s time zone ({deviceTimeZone()})
+                </button>
+              ) : null}
+            </label>
+            <div className="button-row">
+              <button className="app-button" type="submit" disabled={ro || savePreferencesMutation.isPending}>
+                Save preferences
+              </button>
+            </div>
+          </form>
+        ) : notificationsQuery.isLoading ? (
+          <p>Loading notification settings…</p>
+        ) : null}
+      </section>
+
+      {canSubscribe ? (
+        <section className="card" aria-busy={notificationsQuery.isLoading}>
+          <h3>Alert subscriptions</h3>
+          <p className="muted">
+            You are emailed about alerts and incidents that match any enabled subscription. Empty filters match
+            everything{scopedToClients ? ' for your clients' : ''}.
+          </p>
+          {subscriptions.length > 0 ? (
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Filters</th>
+                  <th>Status</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {subscriptions.map((sub) => (
+                  <tr key={sub.id}>
+                    <td>{sub.name}</td>
+                    <td>
+                      {[...sub.severities, ...sub.rules, ...sub.siteIds, ...sub.clientIds, ...sub.deviceIds].join(
+                        ', ',
+                      ) || 'All alerts'}
+                    </td>
+                    <td>{sub.enabled ? 'Enabled' : 'Paused'}</td>
+                    <td>
+                      <div className="button-row">
+                        <button
+                          className="app-button"
+                          type="button"
+                          onClick={() => setSubForm(toSubscriptionForm(sub))}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          className="app-button"
+                          type="button"
+                          disabled={ro || deleteSubscriptionMutation.isPending}
+                          onClick={() => {
+                            if (window.confirm(`Remove ${sub.name}?`)) {
+                              deleteSubscriptionMutation.mutate(sub.id);
+                            }
+                          }}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : notificationsQuery.isLoading ? null : (
+            <p className="muted">No subscriptions yet.</p>
+          )}
+
+          <form onSubmit={handleSubscriptionSubmit} style={{ display: 'grid', gap: 12, maxWidth: 480, marginTop: 16 }}>
+            <h4>{subForm.id ? 'Edit subscription' : 'Add subscription'}</h4>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+              <span>Name</span>
+              <input
+                value={subForm.name}
+                placeholder="Critical alerts at my sites"
+                onChange={(event) => setSubForm({ ...subForm, name: event.target.value })}
+                required
+              />
+            </label>
+            <fieldset>
+              <legend>Severities</legend>
+              {SEVERITY_OPTIONS.map((severity) => (
+                <label key={severity} style={{ marginRight: 12 }}>
+                  <input
+                    type="checkbox"
+                    checked={subForm.severities.includes(severity)}
+                    onChange={() => setSubForm({ ...subForm, severities: toggle(subForm.severities, severity) })}
+                  />{' '}
+                  {severity}
+                </label>
+              ))}
+            </fieldset>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+              <span>Rules</span>
+              <input
+                value={subForm.rules}
+                placeholder="overheat, low_cop"
+                onChange={(event) => setSubForm({ ...subForm, rules: event.target.value })}
+              />
+            </label>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+              <span>Sites</span>
+              <input
+                value={subForm.siteIds}
+                onChange={(event) => setSubForm({ ...subForm, siteIds: event.target.value })}
+              />
+            </label>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+              <span>Clients</span>
+              <input
+                value={subForm.clientIds}
+                placeholder={scopedToClients ? user?.clientIds?.join(', ') : undefined}
+                onChange={(event) => setSubForm({ ...subForm, clientIds: event.target.value })}
+              />
+            </label>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+              <span>Devices</span>
+              <input
+                value={subForm.deviceIds}
+                onChange={(event) => setSubForm({ ...subForm, deviceIds: event.target.value })}
+              />
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={subForm.enabled}
+                onChange={(event) => setSubForm({ ...subForm, enabled: event.target.checked })}
+              />{' '}
+              Enabled
+            </label>
+            <div className="button-row">
+              <button className="app-button" type="submit" disabled={ro || saveSubscriptionMutation.isPending}>
+                {subForm.id ? 'Save changes' : 'Add subscription'}
+              </button>
+              {subForm.id ? (
+                <button className="app-button" type="button" onClick={() => setSubForm(EMPTY_SUBSCRIPTION)}>
+                  Cancel
+                </button>
+              ) : null}
+            </div>
+          </form>
+        </section>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useRef, type ChangeEvent } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api/http';
+import { useToast } from '@app/providers/ToastProvider';
+import { isNetworkError, queueAttachments, type QueuedFile } from './outbox';
+
+export type SessionAttachment = {
+  attachment_id: string;
+  step_id: string | null;
+  kind: 'photo' | 'document';
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  uploaded_by: string | null;
+  created_at: string;
+  url: string;
+  thumb_url: string | null;
+};
+
+const ACCEPT = 'image/jpeg,image/png,application/pdf';
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const THUMBNAIL_PX = 240;
+
+/** Renders a small JPEG preview so the worker never has to decode full-size photos. */
+async function createThumbnail(file: File): Promise<Blob | null> {
+  if (!file.type.startsWith('image/') || typeof createImageBitmap !== 'function') {
+    return null;
+  }
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_PX / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.7));
+  } catch (error) {
+    console.warn('Failed to render attachment thumbnail', error);
+    return null;
+  }
+}
+
+async function uploadErrorMessage(response: Response): Promise<string> {
+  const body = (await response.json().catch(() => null)) as { errors?: string[]; error?: string } | null;
+  if (body?.errors?.length) return body.errors.join('; ');
+  if (body?.error === 'too_many_attachments') return 'This session already has the maximum number of attachments';
+  if (body?.error === 'attachments_too_large') return 'This session has reached its attachment storage limit';
+  return 'Failed to upload attachments';
+}
+
+type AttachmentPanelProps = {
+  sessionId: string;
+  stepId: string | null;
+  attachments: SessionAttachment[];
+  /** Files captured offline that are still in the outbox. */
+  queued?: number;
+  disabled: boolean;
+};
+
+export function AttachmentPanel({
+  sessionId,
+  stepId,
+  attachments,
+  queued = 0,
+  disabled,
+}: AttachmentPanelProps): JSX.Element {
+  const qc = useQueryClient();
+  const toast = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const upload = useMutation({
+    networkMode: 'always',
+    mutationFn: async (files: File[]): Promise<{ queued: boolean }> => {
+      const prepared: QueuedFile[] = [];
+      const form = new FormData();
+      if (stepId) {
+        form.append('step_id', stepId);
+      }
+      for (const [index, file] of files.entries()) {
+        form.append('file', file, file.name);
+        const thumbnail = await createThumbnail(file);
+        if (thumbnail) {
+          form.append(`thumbnail_${index}`, thumbnail, 'thumb.jpg');
+        }
+        prepared.push({ blob: file, name: file.name, thumbnail });
+      }
+      if (!navigator.onLine) {
+        await queueAttachments(sessionId, stepId, prepared);
+        return { queued: true };
+      }
+      let response: Response;
+      try {
+        response = await api.post(`/api/commissioning/session/${sessionId}/attachments`, form);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        await queueAttachments(sessionId, stepId, prepared);
+        return { queued: true };
+      }
+      if (!response.ok) {
+        throw new Error(await uploadErrorMessage(response));
+      }
+      return { queued: false };
+    },
+    onSuccess: (result, files) => {
+      const count = `${files.length} attachment${files.length === 1 ? '' : 's'}`;
+      if (result.queued) {
+        toast.info(`${count} saved on this device; they upload when you are back online`);
+        return;
+      }
+      void qc.invalidateQueries({ queryKey: ['comm:session', sessionId] });
+      toast.success(`${count} uploaded`);
+    },
+    onError: (error) => toast.error(error instanceof Error ? error.message : 'Failed to upload attachments'),
+  });
+
+  const remove = useMutation({
+    mutationFn: (attachmentId: string) =>
+      api.delete(`/api/commissioning/attachments/${attachmentId}`).then((r) => {
+        if (!r.ok) throw new Error('delete_failed');
+      }),
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ['comm:session', sessionId] });
+      toast.success('Attachment deleted');
+    },
+    onError: () => toast.error('Failed to delete attachment'),
+  });
+
+  const handleFiles = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    const tooLarge = files.filter((file) => file.size > MAX_FILE_BYTES);
+    if (tooLarge.length) {
+      toast.warning(`Larger than 10 MB: ${tooLarge.map((file) => file.name).join(', ')}`);
+      return;
+    }
+    upload.mutate(files);
+  };
+
+  return (
+    <div className="commissioning-attachments" style={{ display: 'grid', gap: '6px', marginTop: '8px' }}>
+      {attachments.length ? (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+          {attachments.map((attachment) => (
+            <figure key={attachment.attachment_id} style={{ margin: 0, width: 120, fontSize: '0.8em' }}>
+              <a href={attachment.url} target="_blank" rel="noreferrer">
+                {attachment.thumb_url ? (
+                  <img
+                    src={attachment.thumb_url}
+                    alt={attachment.filename}
+                    style={{ width: 120, height: 90, objectFit: 'cover', borderRadius: '6px' }}
+                  />
+                ) : (
+                  <span
+                    style={{
+                      display: 'grid',
+                      placeItems: 'center',
+                      width: 120,
+                      height: 90,
+                      borderRadius: '6px',
+                      background: 'rgba(148, 163, 184, 0.2)',
+                    }}
+                  >
+                    PDF
+                  </span>
+                )}
+              </a>
+              <figcaption style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {attachment.filename}
+              </figcaption>
+              <button
+                className="app-button"
+                type="button"
+                disabled={disabled || remove.isPending}
+                onClick={() => {
+                  if (window.confirm(`Delete ${attachment.filename}?`)) {
+                    remove.mutate(attachment.attachment_id);
+                  }
+                }}
+              >
+                Delete
+              </button>
+            </figure>
+          ))}
+        </div>
+      ) : null}
+      {queued > 0 ? (
+        <span className="muted" style={{ fontSize: '0.85em' }}>
+          {queued} file{queued === 1 ? '' : 's'} waiting to upload
+        </span>
+      ) : null}
+      <div>
+        <input ref={inputRef} type="file" accept={ACCEPT} multiple hidden onChange={handleFiles} />
+        <button
+          className="app-button"
+          type="button"
+          disabled={disabled || upload.isPending}
+          onClick={() => inputRef.current?.click()}
+        >
+          {upload.isPending ? 'Uploading…' : stepId ? 'Attach photo or document' : 'Add attachments'}
+        </button>
+      </div>
+    </div>
+  );
+}
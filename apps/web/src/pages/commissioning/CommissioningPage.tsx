@@ -1,10 +1,18 @@
 import { useEffect, useMemo, useState, type CSSProperties, type ReactNode } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { z } from 'zod';
+import type { ChecklistStep } from '@api/admin';
 import { api } from '@/api/http';
 import { useToast } from '@app/providers/ToastProvider';
+import { usePreferences } from '@hooks/usePreferences';
 import { useReadOnly } from '@hooks/useReadOnly';
 import { assertDefined } from '@/utils/invariant';
+import { convertQuantity, formatQuantity } from '@utils/units';
+import { AttachmentPanel, type SessionAttachment } from './AttachmentPanel';
+import { OutboxBanner } from './OutboxBanner';
+import { isNetworkError, queueStepUpdate, type OutboxEntry } from './outbox';
+import { SignaturePad } from './SignaturePad';
+import { useOutbox } from './useOutbox';
 
 type CommState = 'in_progress' | 'passed' | 'failed' | 'aborted';
 type StepState = 'pending' | 'pass' | 'fail' | 'skip';
@@ -40,6 +48,7 @@ type ChecklistSummary = {
   version: number;
   steps_json: string;
   required_steps_json?: string | null;
+  steps?: ChecklistStep[];
 };
 
 type SessionSummary = CommSession & {
@@ -57,12 +66,24 @@ type StepResult = CommStep & {
   readings?: Record<string, unknown> | null;
   comment: string | null;
   updated_at: string;
+  version: number;
 };
 
 type SessionDetail = {
   session: SessionSummary | null;
   steps: StepResult[];
   artifacts: Record<string, ArtifactInfo | undefined>;
+  checklist?: { checklist_id: string; name: string; version: number; steps: ChecklistStep[] } | null;
+  attachments?: SessionAttachment[];
+  signature?: { signer_name: string; signed_at: string; state_hash: string; image_url: string } | null;
+};
+
+type SignatureCheck = {
+  signed: boolean;
+  valid?: boolean;
+  state_matches?: boolean;
+  image_matches?: boolean;
+  seal_valid?: boolean;
 };
 
 type CommissioningSettings = {
@@ -71,12 +92,15 @@ type CommissioningSettings = {
   cop_min: number;
 };
 
+// Checklists written before steps were typed measure these steps by id; typed checklists use `auto` steps.
 const MEASURE_STEPS = new Set(['deltaT_under_load', 'flow_detected']);
 const WINDOW_MEASURE_STEP = 'deltaT_under_load';
+const DEFAULT_WINDOW_S = 90;
 
 export default function CommissioningPage(): JSX.Element {
   const qc = useQueryClient();
   const toast = useToast();
+  const preferences = usePreferences();
   const { ro } = useReadOnly();
   const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
   const [deviceId, setDeviceId] = useState('');
@@ -84,24 +108,32 @@ export default function CommissioningPage(): JSX.Element {
   const [notes, setNotes] = useState('');
   const [checklistId, setChecklistId] = useState('');
   const [noteDraft, setNoteDraft] = useState('');
+  const [signerName, setSignerName] = useState('');
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
   const [missingSteps, setMissingSteps] = useState<string[]>([]);
+  const outbox = useOutbox();
+  const offline = !outbox.online;
 
+  // offlineFirst lets queries reach the service worker, which answers from its cache without a connection.
   const { data: checklists } = useQuery<ChecklistSummary[]>({
     queryKey: ['comm:lists'],
     queryFn: () => api.get('/api/commissioning/checklists').then((r) => r.json()),
     staleTime: 5 * 60 * 1000,
+    networkMode: 'offlineFirst',
   });
 
   const sessionsQuery = useQuery<SessionSummary[]>({
     queryKey: ['comm:sessions'],
     queryFn: () => api.get('/api/commissioning/sessions').then((r) => r.json()),
     refetchInterval: 20_000,
+    networkMode: 'offlineFirst',
   });
 
   const settingsQuery = useQuery<CommissioningSettings>({
     queryKey: ['comm:settings'],
     queryFn: () => api.get('/api/commissioning/settings').then((r) => r.json()),
     staleTime: 60_000,
+    networkMode: 'offlineFirst',
   });
 
   const sessions = useMemo(() => {
@@ -127,19 +159,77 @@ export default function CommissioningPage(): JSX.Element {
     queryKey: ['comm:session', selectedSessionId],
     queryFn: () => api.get(`/api/commissioning/session/${selectedSessionId}`).then((r) => r.json()),
     enabled: Boolean(selectedSessionId),
+    networkMode: 'offlineFirst',
   });
 
+  // Loading open sessions while online puts them in the service worker cache for use in plant rooms.
+  useEffect(() => {
+    if (offline) return;
+    for (const item of sessions) {
+      if (item.status !== 'in_progress') continue;
+      void qc.prefetchQuery({
+        queryKey: ['comm:session', item.session_id],
+        queryFn: () => api.get(`/api/commissioning/session/${item.session_id}`).then((r) => r.json()),
+      });
+    }
+  }, [offline, qc, sessions]);
+
   const detail = detailQuery.data;
   const session = detail?.session ?? null;
   const stepsData = detail?.steps;
   const artifacts = detail?.artifacts ?? {};
+  const attachments = detail?.attachments ?? [];
   const sid = session?.session_id ?? null;
   const did = session?.device_id ?? null;
-  const steps = stepsData ?? [];
+
+  const queuedSteps = useMemo(
+    () =>
+      new Map(
+        outbox.entries.flatMap((entry) =>
+          entry.kind === 'step' && entry.session_id === sid ? [[entry.step_id, entry] as const] : [],
+        ),
+      ),
+    [outbox.entries, sid],
+  );
+  const queuedFiles = (stepId: string | null) =>
+    outbox.entries.reduce(
+      (total, entry) =>
+        entry.kind === 'attachments' && entry.session_id === sid && entry.step_id === stepId
+          ? total + entry.files.length
+          : total,
+      0,
+    );
+  const sessionQueued = outbox.entries.some((entry) => entry.session_id === sid);
+
+  // Steps as the engineer last left them: queued changes are shown on top of the server copy.
+  const steps = useMemo(
+    () =>
+      (stepsData ?? []).map((step) => {
+        const queued = queuedSteps.get(step.step_id);
+        return queued
+          ? {
+              ...step,
+              state: queued.payload.state,
+              readings: queued.payload.readings ?? null,
+              comment: queued.payload.comment ?? null,
+            }
+          : step;
+      }),
+    [stepsData, queuedSteps],
+  );
+
+  const definitions = useMemo(
+    () => new Map((detail?.checklist?.steps ?? []).map((step) => [step.id, step])),
+    [detail?.checklist],
+  );
 
   const requiredMap = useMemo(() => {
     const map = new Map<string, Set<string>>();
     for (const cl of checklists ?? []) {
+      if (cl.steps?.length) {
+        map.set(cl.checklist_id, new Set(cl.steps.filter((step) => step.required).map((step) => step.id)));
+        continue;
+      }
       const parseIds = (raw: string | null | undefined): string[] => {
         if (!raw) return [];
         try {
@@ -196,18 +286,64 @@ export default function CommissioningPage(): JSX.Element {
   });
 
   const updateStep = useMutation({
-    mutationFn: (payload: StepUpdateInput) =>
-      api.post('/api/commissioning/step', StepUpdateSchema.parse(payload)).then((r) => r.json()),
-    onSuccess: (_data, variables) => {
+    networkMode: 'always',
+    mutationFn: async (payload: StepUpdateInput): Promise<{ ok?: boolean; state?: StepState; queued?: boolean }> => {
+      const body = StepUpdateSchema.parse(payload);
+      const queue = async () => {
+        const base = stepsData?.find((step) => step.step_id === body.step_id)?.version ?? null;
+        await queueStepUpdate(body, base);
+        return { queued: true };
+      };
+      // Changes wait behind anything already queued for the session so they reach the worker in order.
+      const behindQueue = outbox.entries.some(
+        (entry) => entry.session_id === body.session_id && entry.status === 'pending',
+      );
+      if (offline || behindQueue) {
+        return queue();
+      }
+      let response: Response;
+      try {
+        response = await api.post('/api/commissioning/step', body);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        return queue();
+      }
+      if (!response.ok) {
+        throw new Error(`Step update failed (${response.status})`);
+      }
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      if (data.queued) {
+        if (navigator.onLine) {
+          void outbox.sync();
+        } else {
+          toast.info('Saved on this device; it syncs when you are back online');
+        }
+        return;
+      }
       void qc.invalidateQueries({ queryKey: ['comm:session', variables.session_id] });
       void qc.invalidateQueries({ queryKey: ['comm:sessions'] });
-      toast.success('Step updated');
+      if (data?.state && data.state !== variables.state) {
+        toast.warning(`Step recorded as ${statusLabel(data.state).toLowerCase()}`);
+      } else {
+        toast.success('Step updated');
+      }
+    },
+    onError: (_error, variables) => {
+      // A 409 means the step changed or the session closed; show what the server holds now.
+      void qc.invalidateQueries({ queryKey: ['comm:session', variables.session_id] });
+      toast.error('Failed to update step');
     },
-    onError: () => toast.error('Failed to update step'),
   });
 
   const finalise = useMutation({
-    mutationFn: async (payload: { session_id: string; outcome: 'passed' | 'failed'; notes?: string }) => {
+    mutationFn: async (payload: {
+      session_id: string;
+      outcome: 'passed' | 'failed';
+      notes?: string;
+      signature?: { signer_name: string; image: string };
+    }) => {
       const response = await api.post('/api/commissioning/finalise', payload);
       const body = await response.json().catch(() => ({}));
       if (!response.ok && response.status !== 409) {
@@ -233,7 +369,13 @@ export default function CommissioningPage(): JSX.Element {
         toast.warning(`Required steps outstanding: ${label}`);
         return;
       }
+      if (result.status === 409 && result.body?.error === 'already_signed') {
+        toast.warning('The customer has already signed this session');
+        return;
+      }
       if (result.body?.ok) {
+        setSignerName('');
+        setSignatureImage(null);
         toast.success(`Session ${variables.outcome === 'passed' ? 'finalised' : 'marked as failed'}`);
         setMissingSteps([]);
         void qc.invalidateQueries({ queryKey: ['comm:session', variables.session_id] });
@@ -278,9 +420,9 @@ export default function CommissioningPage(): JSX.Element {
           ? data.thresholds.delta_t_min
           : thresholds.delta_t_min;
         const threshold = Number.isFinite(thresholdRaw) ? thresholdRaw : 0;
-        const dtText = dt != null ? `${dt.toFixed(1)}°C` : '—';
+        const dtText = formatQuantity('temperatureDelta', dt, preferences);
         if (data.pass) {
-          toast.success(`ΔT ${dtText} ≥ ${threshold.toFixed(1)}°C`);
+          toast.success(`ΔT ${dtText} ≥ ${formatQuantity('temperatureDelta', threshold, preferences)}`);
         } else {
           toast.warning(`Below threshold — ΔT ${dtText}`);
         }
@@ -291,6 +433,27 @@ export default function CommissioningPage(): JSX.Element {
     onError: () => toast.error('Failed to capture window measurement'),
   });
 
+  const verifySignature = useMutation({
+    mutationFn: (session_id: string) =>
+      api.get(`/api/commissioning/session/${session_id}/signature`).then((r) => r.json() as Promise<SignatureCheck>),
+    onSuccess: (data) => {
+      if (data.valid) {
+        toast.success('Signature verified: the session is unchanged since signing');
+      } else if (!data.signed) {
+        toast.warning('This session has not been signed');
+      } else {
+        toast.error(
+          data.seal_valid === false
+            ? 'Signature seal is invalid'
+            : data.image_matches === false
+              ? 'The stored signature image does not match the one that was signed'
+              : 'The session changed after it was signed',
+        );
+      }
+    },
+    onError: () => toast.error('Failed to verify signature'),
+  });
+
   const labels = useMutation({
     mutationFn: (session_id: string) =>
       api.post('/api/commissioning/labels', { session_id }).then((r) => r.json()),
@@ -387,6 +550,8 @@ export default function CommissioningPage(): JSX.Element {
 
   useEffect(() => {
     setMissingSteps([]);
+    setSignerName('');
+    setSignatureImage(null);
   }, [selectedSessionId]);
 
   const missingHighlight = useMemo(() => {
@@ -422,26 +587,47 @@ export default function CommissioningPage(): JSX.Element {
       session_id: sid,
       step_id: step.step_id,
       state: step.state,
+      readings: step.readings ?? undefined,
       comment: comment.trim() ? comment : undefined,
     });
   };
 
+  const handleRecordReading = (step: StepResult, value: number) => {
+    assertDefined(sid, 'No session id');
+    // The worker decides pass or fail from the step's range; the local guess only shows while the reading is queued.
+    const definition = definitions.get(step.step_id);
+    const inRange =
+      (definition?.min == null || value >= definition.min) && (definition?.max == null || value <= definition.max);
+    updateStep.mutate({
+      session_id: sid,
+      step_id: step.step_id,
+      state: inRange ? 'pass' : 'fail',
+      readings: { value },
+    });
+  };
+
   const handleMeasure = (step: StepResult) => {
     assertDefined(sid, 'No session id');
     measure.mutate({ session_id: sid, step_id: step.step_id });
   };
 
-  const handleMeasureWindow = (step: StepResult) => {
+  const handleMeasureWindow = (step: StepResult, windowS = DEFAULT_WINDOW_S) => {
     assertDefined(sid, 'No session id');
-    measureWindow.mutate({ session_id: sid, step_id: step.step_id, window_s: 90 });
+    measureWindow.mutate({ session_id: sid, step_id: step.step_id, window_s: windowS });
   };
 
   const handleFinalize = (outcome: 'passed' | 'failed') => {
     assertDefined(sid, 'No session id');
+    if (outcome === 'passed' && (!signerName.trim() || !signatureImage)) {
+      toast.warning('The customer must enter their name and sign before the session can pass');
+      return;
+    }
     finalise.mutate({
       session_id: sid,
       outcome,
       notes: noteDraft.trim() || undefined,
+      signature:
+        outcome === 'passed' && signatureImage ? { signer_name: signerName.trim(), image: signatureImage } : undefined,
     });
   };
 
@@ -521,9 +707,10 @@ export default function CommissioningPage(): JSX.Element {
             disabled={actionDisabled || create.isPending}
           />
         </label>
-        <button className="app-button" type="submit" disabled={actionDisabled || create.isPending}>
+        <button className="app-button" type="submit" disabled={actionDisabled || offline || create.isPending}>
           {create.isPending ? 'Starting…' : 'Start session'}
         </button>
+        {offline ? <span className="muted">Starting a session needs a connection.</span> : null}
       </form>
 
       <h3 style={{ marginTop: '24px' }}>Sessions</h3>
@@ -594,6 +781,20 @@ export default function CommissioningPage(): JSX.Element {
           <p className="page__subtitle">Track, measure, and finalise commissioning sessions</p>
         </div>
       </header>
+      <OutboxBanner
+        online={outbox.online}
+        syncing={outbox.syncing}
+        pending={outbox.pending}
+        problems={outbox.problems}
+        stepTitle={(entry) =>
+          (entry.session_id === sid ? stepsData?.find((step) => step.step_id === entry.step_id)?.title : null) ??
+          entry.step_id ??
+          'session'
+        }
+        onSync={() => void outbox.sync()}
+        onRetry={(entry, force) => void outbox.retry(entry, force)}
+        onDiscard={(entry) => void outbox.discard(entry)}
+      />
       <div
         className="commissioning-grid"
         style={{
@@ -679,12 +880,55 @@ export default function CommissioningPage(): JSX.Element {
         />
       </label>
 
+      {detail?.signature ? (
+        <div className="commissioning-signature" style={{ display: 'grid', gap: '6px', justifyItems: 'start' }}>
+          <strong>Customer acceptance</strong>
+          <img
+            src={detail.signature.image_url}
+            alt={`Signature of ${detail.signature.signer_name}`}
+            style={{ maxWidth: 240, background: '#fff', borderRadius: '6px' }}
+          />
+          <span>
+            Signed by {detail.signature.signer_name} on {formatDate(detail.signature.signed_at)}
+          </span>
+          <code style={{ fontSize: '0.75em', wordBreak: 'break-all' }}>{detail.signature.state_hash}</code>
+          <button
+            className="app-button"
+            type="button"
+            onClick={() => verifySignature.mutate(session.session_id)}
+            disabled={offline || verifySignature.isPending}
+          >
+            {verifySignature.isPending ? 'Verifying…' : 'Verify signature'}
+          </button>
+        </div>
+      ) : session.status === 'in_progress' ? (
+        <div className="commissioning-signature" style={{ display: 'grid', gap: '6px' }}>
+          <strong>Customer acceptance</strong>
+          <span style={{ fontSize: '0.85em', color: 'rgba(71, 85, 105, 0.85)' }}>
+            The customer signs here before the session is finalised as passed.
+          </span>
+          <label className="form-field">
+            Customer name
+            <input
+              value={signerName}
+              onChange={(event) => setSignerName(event.target.value)}
+              disabled={actionDisabled || finalise.isPending}
+            />
+          </label>
+          <SignaturePad
+            key={session.session_id}
+            onChange={setSignatureImage}
+            disabled={actionDisabled || finalise.isPending}
+          />
+        </div>
+      ) : null}
+
       <div className="commissioning-actions" style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
         <button
           className="app-button"
           type="button"
           onClick={() => handleFinalize('passed')}
-          disabled={actionDisabled || waiting || session.status !== 'in_progress'}
+          disabled={actionDisabled || waiting || offline || sessionQueued || session.status !== 'in_progress'}
         >
           {finalise.isPending ? 'Finalising…' : 'Finalise – Passed'}
         </button>
@@ -692,7 +936,7 @@ export default function CommissioningPage(): JSX.Element {
           className="app-button"
           type="button"
           onClick={() => handleFinalize('failed')}
-          disabled={actionDisabled || waiting || session.status !== 'in_progress'}
+          disabled={actionDisabled || waiting || offline || sessionQueued || session.status !== 'in_progress'}
         >
           {finalise.isPending ? 'Finalising…' : 'Finalise – Failed'}
         </button>
@@ -700,7 +944,7 @@ export default function CommissioningPage(): JSX.Element {
           className="app-button"
           type="button"
           onClick={handleGenerateLabels}
-          disabled={actionDisabled || labels.isPending}
+          disabled={actionDisabled || offline || labels.isPending}
         >
           {labels.isPending ? 'Generating…' : 'Generate labels'}
         </button>
@@ -708,7 +952,7 @@ export default function CommissioningPage(): JSX.Element {
           className="app-button"
           type="button"
           onClick={handleProvisioningZip}
-          disabled={actionDisabled || provisioningZip.isPending}
+          disabled={actionDisabled || offline || provisioningZip.isPending}
         >
           {provisioningZip.isPending ? 'Generating…' : 'Provisioning ZIP'}
         </button>
@@ -717,13 +961,21 @@ export default function CommissioningPage(): JSX.Element {
             className="app-button"
             type="button"
             onClick={handleEmailBundle}
-            disabled={actionDisabled || emailBundle.isPending}
+            disabled={actionDisabled || offline || emailBundle.isPending}
           >
             {emailBundle.isPending ? 'Emailing…' : 'Email bundle'}
           </button>
         ) : null}
       </div>
 
+      {session.status === 'in_progress' && (offline || sessionQueued) ? (
+        <span className="muted" style={{ fontSize: '0.85em' }}>
+          {offline
+            ? 'Finalising, labels and reports need a connection.'
+            : 'Sync the changes waiting for this session before finalising.'}
+        </span>
+      ) : null}
+
       <div className="commissioning-artifacts" style={{ display: 'grid', gap: '4px', fontSize: '0.9em' }}>
         <div>
           <strong>PDF</strong>: {artifacts.pdf ? <code>{artifacts.pdf.r2_key}</code> : '—'}
@@ -736,27 +988,55 @@ export default function CommissioningPage(): JSX.Element {
         </div>
       </div>
 
+      <div className="commissioning-session-attachments">
+        <strong>Session attachments</strong>
+        <AttachmentPanel
+          sessionId={session.session_id}
+          stepId={null}
+          attachments={attachments.filter((attachment) => !attachment.step_id)}
+          queued={queuedFiles(null)}
+          disabled={actionDisabled || session.status !== 'in_progress'}
+        />
+      </div>
+
       <div className="commissioning-steps" style={{ display: 'grid', gap: '12px' }}>
         {steps.length === 0 ? (
           <p>No steps configured for this session.</p>
         ) : (
-          steps.map((step) => (
-            <StepCard
-              key={step.step_id}
-              step={step}
-              thresholds={thresholds}
-              onChange={(state) => handleStateChange(step, state)}
-              onSaveComment={(comment) => handleSaveComment(step, comment)}
-              onMeasure={MEASURE_STEPS.has(step.step_id) ? () => handleMeasure(step) : undefined}
-              onMeasureWindow={step.step_id === WINDOW_MEASURE_STEP ? () => handleMeasureWindow(step) : undefined}
-              disabled={actionDisabled}
-              updating={updateStep.isPending}
-              measuring={measure.isPending && measure.variables?.step_id === step.step_id}
-              measuringWindow={measureWindow.isPending && measureWindow.variables?.step_id === step.step_id}
-              required={currentRequired.has(step.step_id)}
-              missing={missingHighlight.has(step.step_id)}
-            />
-          ))
+          steps.map((step) => {
+            const definition = definitions.get(step.step_id);
+            const auto = definition?.type === 'auto';
+            return (
+              <StepCard
+                key={step.step_id}
+                step={step}
+                definition={definition}
+                sessionId={session.session_id}
+                attachments={attachments.filter((attachment) => attachment.step_id === step.step_id)}
+                queuedFiles={queuedFiles(step.step_id)}
+                syncState={queuedSteps.get(step.step_id)?.status}
+                thresholds={thresholds}
+                onChange={(state) => handleStateChange(step, state)}
+                onSaveComment={(comment) => handleSaveComment(step, comment)}
+                onRecordReading={
+                  definition?.type === 'reading' ? (value) => handleRecordReading(step, value) : undefined
+                }
+                onMeasure={!auto && MEASURE_STEPS.has(step.step_id) ? () => handleMeasure(step) : undefined}
+                onMeasureWindow={
+                  auto || step.step_id === WINDOW_MEASURE_STEP
+                    ? () => handleMeasureWindow(step, definition?.window_s)
+                    : undefined
+                }
+                disabled={actionDisabled || session.status !== 'in_progress'}
+                offline={offline}
+                updating={updateStep.isPending}
+                measuring={measure.isPending && measure.variables?.step_id === step.step_id}
+                measuringWindow={measureWindow.isPending && measureWindow.variables?.step_id === step.step_id}
+                required={currentRequired.has(step.step_id)}
+                missing={missingHighlight.has(step.step_id)}
+              />
+            );
+          })
         )}
       </div>
     </div>
@@ -767,12 +1047,19 @@ export default function CommissioningPage(): JSX.Element {
 
 type StepCardProps = {
   step: StepResult;
+  definition?: ChecklistStep;
+  sessionId: string;
+  attachments: SessionAttachment[];
+  queuedFiles: number;
+  syncState?: OutboxEntry['status'];
   thresholds: CommissioningSettings;
   onChange: (state: StepResult['state']) => void;
   onSaveComment: (comment: string) => void;
+  onRecordReading?: (value: number) => void;
   onMeasure?: () => void;
   onMeasureWindow?: () => void;
   disabled: boolean;
+  offline: boolean;
   updating: boolean;
   measuring: boolean;
   measuringWindow: boolean;
@@ -782,19 +1069,28 @@ type StepCardProps = {
 
 function StepCard({
   step,
+  definition,
+  sessionId,
+  attachments,
+  queuedFiles,
+  syncState,
   thresholds,
   onChange,
   onSaveComment,
+  onRecordReading,
   onMeasure,
   onMeasureWindow,
   disabled,
+  offline,
   updating,
   measuring,
   measuringWindow,
   required,
   missing,
 }: StepCardProps) {
+  const preferences = usePreferences();
   const [comment, setComment] = useState(step.comment ?? '');
+  const [readingDraft, setReadingDraft] = useState('');
 
   useEffect(() => {
     setComment(step.comment ?? '');
@@ -809,8 +1105,17 @@ function StepCard({
   const cop = toNumber(readings?.cop ?? readings?.cop_med);
   const windowSeconds = toNumber(readings?.window_s);
   const sampleCount = toNumber(readings?.count);
+  const recordedValue = toNumber(readings?.value);
 
   const showMeasurements = Boolean(onMeasure || onMeasureWindow);
+  // The worker passes or fails auto and reading steps; the engineer can still skip them.
+  const systemDecides = definition?.type === 'auto' || definition?.type === 'reading';
+  const targets =
+    definition?.type === 'auto' && definition.thresholds
+      ? definition.thresholds
+      : { delta_t_min: thresholds.delta_t_min, flow_min_lpm: thresholds.flow_min_lpm, cop_min: thresholds.cop_min };
+  const windowS = definition?.window_s ?? DEFAULT_WINDOW_S;
+  const unit = definition?.unit ? ` ${definition.unit}` : '';
 
   const cardStyle: CSSProperties = {
     border: missing ? '2px solid rgba(244, 63, 94, 0.6)' : '1px solid rgba(0,0,0,0.1)',
@@ -842,22 +1147,43 @@ function StepCard({
             </span>
           ) : null}
         </div>
-        <span className={statePillClass(step.state)}>{statusLabel(step.state)}</span>
+        <span style={{ display: 'flex', gap: '6px' }}>
+          {syncState ? (
+            <span
+              className={`status-pill ${syncState === 'pending' ? 'status-pill--neutral' : 'status-pill--negative'}`}
+            >
+              {syncState === 'pending' ? 'Waiting to sync' : syncState === 'conflict' ? 'Conflict' : 'Sync failed'}
+            </span>
+          ) : null}
+          <span className={statePillClass(step.state)}>{statusLabel(step.state)}</span>
+        </span>
       </div>
       <div style={{ fontSize: '0.85em', color: 'rgba(71, 85, 105, 0.85)' }}>Updated {formatDate(step.updated_at)}</div>
+      {definition?.hint ? <p style={{ margin: '6px 0', fontSize: '0.9em' }}>{definition.hint}</p> : null}
 
-      {capturedAt || deltaT != null || flow != null || cop != null ? (
+      {capturedAt || recordedValue != null || deltaT != null || flow != null || cop != null ? (
         <ul style={{ margin: '8px 0', paddingLeft: '18px', fontSize: '0.9em' }}>
           {capturedAt ? <li>Captured at {formatDate(capturedAt)}</li> : null}
+          {recordedValue != null ? (
+            <li>
+              Recorded {recordedValue}
+              {unit}
+            </li>
+          ) : null}
           {windowSeconds != null ? (
             <li>
               Window {formatNumber(windowSeconds, 0)} s
               {sampleCount != null ? ` (${formatNumber(sampleCount, 0)} samples)` : null}
             </li>
           ) : null}
-          {deltaT != null ? <li>ΔT {formatNumber(deltaT, 1)} °C</li> : null}
-          {flow != null ? <li>Flow {formatNumber(flow, 2)} L/min</li> : null}
-          {outlet != null && ret != null ? <li>Temps {formatNumber(outlet, 1)} / {formatNumber(ret, 1)} °C</li> : null}
+          {deltaT != null ? <li>ΔT {formatQuantity('temperatureDelta', deltaT, preferences)}</li> : null}
+          {flow != null ? <li>Flow {formatQuantity('flow', flow / 60, preferences, 2)}</li> : null}
+          {outlet != null && ret != null ? (
+            <li>
+              Temps {formatNumber(convertQuantity('temperature', outlet, preferences), 1)} /{' '}
+              {formatQuantity('temperature', ret, preferences)}
+            </li>
+          ) : null}
           {cop != null ? <li>COP {formatNumber(cop, 2)}</li> : null}
         </ul>
       ) : null}
@@ -870,7 +1196,7 @@ function StepCard({
                 className="app-button"
                 type="button"
                 onClick={onMeasure}
-                disabled={disabled || measuring}
+                disabled={disabled || offline || measuring}
               >
                 {measuring ? 'Measuring…' : 'Measure now'}
               </button>
@@ -880,36 +1206,84 @@ function StepCard({
                 className="app-button"
                 type="button"
                 onClick={onMeasureWindow}
-                disabled={disabled || measuringWindow}
+                disabled={disabled || offline || measuringWindow}
               >
-                {measuringWindow ? 'Measuring…' : 'Measure (90 s median)'}
+                {measuringWindow ? 'Measuring…' : `Measure (${windowS} s median)`}
               </button>
             ) : null}
           </div>
+          {offline ? (
+            <span style={{ fontSize: '0.8em', color: 'rgba(217, 119, 6, 0.95)' }}>
+              Measuring reads live telemetry and needs a connection.
+            </span>
+          ) : null}
           <span style={{ fontSize: '0.8em', color: 'rgba(71, 85, 105, 0.85)' }}>
-            Targets: ΔT ≥ {formatNumber(thresholds.delta_t_min, 1)} °C, Flow ≥ {formatNumber(thresholds.flow_min_lpm, 1)} L/min,
-            COP ≥ {formatNumber(thresholds.cop_min, 1)}
+            Targets:{' '}
+            {[
+              targets.delta_t_min != null
+                ? `ΔT ≥ ${formatQuantity('temperatureDelta', targets.delta_t_min, preferences)}`
+                : null,
+              targets.flow_min_lpm != null
+                ? `Flow ≥ ${formatQuantity('flow', targets.flow_min_lpm / 60, preferences)}`
+                : null,
+              targets.cop_min != null ? `COP ≥ ${formatNumber(targets.cop_min, 1)}` : null,
+            ]
+              .filter(Boolean)
+              .join(', ')}
           </span>
         </div>
       ) : null}
 
-      <div className="step-actions" style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
-        <button
-          className="app-button"
-          type="button"
-          onClick={() => onChange('pass')}
-          disabled={disabled || updating}
-        >
-          Pass
-        </button>
-        <button
-          className="app-button"
-          type="button"
-          onClick={() => onChange('fail')}
-          disabled={disabled || updating}
+      {onRecordReading ? (
+        <form
+          className="step-actions"
+          style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', alignItems: 'center', marginBottom: '8px' }}
+          onSubmit={(event) => {
+            event.preventDefault();
+            onRecordReading(Number(readingDraft));
+            setReadingDraft('');
+          }}
         >
-          Fail
-        </button>
+          <input
+            type="number"
+            step="any"
+            value={readingDraft}
+            onChange={(event) => setReadingDraft(event.target.value)}
+            disabled={disabled || updating}
+            style={{ width: 100 }}
+            aria-label={`${step.title} reading`}
+          />
+          <button className="app-button" type="submit" disabled={disabled || updating || readingDraft.trim() === ''}>
+            Record
+          </button>
+          <span style={{ fontSize: '0.8em', color: 'rgba(71, 85, 105, 0.85)' }}>
+            Accepted: {definition?.min ?? '−∞'} – {definition?.max ?? '∞'}
+            {unit}
+          </span>
+        </form>
+      ) : null}
+
+      <div className="step-actions" style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+        {systemDecides ? null : (
+          <>
+            <button
+              className="app-button"
+              type="button"
+              onClick={() => onChange('pass')}
+              disabled={disabled || updating}
+            >
+              Pass
+            </button>
+            <button
+              className="app-button"
+              type="button"
+              onClick={() => onChange('fail')}
+              disabled={disabled || updating}
+            >
+              Fail
+            </button>
+          </>
+        )}
         <button
           className="app-button"
           type="button"
@@ -920,6 +1294,14 @@ function StepCard({
         </button>
       </div>
 
+      <AttachmentPanel
+        sessionId={sessionId}
+        stepId={step.step_id}
+        attachments={attachments}
+        queued={queuedFiles}
+        disabled={disabled}
+      />
+
       <label className="form-field" style={{ display: 'block', marginTop: '10px' }}>
         Comment
         <textarea
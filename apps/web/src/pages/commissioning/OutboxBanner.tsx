@@ -0,0 +1,90 @@
+import type { OutboxEntry } from './outbox';
+
+type OutboxBannerProps = {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  problems: OutboxEntry[];
+  stepTitle: (entry: OutboxEntry) => string;
+  onSync: () => void;
+  onRetry: (entry: OutboxEntry, force?: boolean) => void;
+  onDiscard: (entry: OutboxEntry) => void;
+};
+
+function describe(entry: OutboxEntry, stepTitle: string): string {
+  if (entry.kind === 'step') {
+    return `${stepTitle}: ${entry.payload.state}${entry.payload.comment ? ' with comment' : ''}`;
+  }
+  return `${entry.files.length} file${entry.files.length === 1 ? '' : 's'} for ${stepTitle}`;
+}
+
+export function OutboxBanner({
+  online,
+  syncing,
+  pending,
+  problems,
+  stepTitle,
+  onSync,
+  onRetry,
+  onDiscard,
+}: OutboxBannerProps): JSX.Element | null {
+  if (online && pending === 0 && problems.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="card commissioning-outbox" role="status" style={{ display: 'grid', gap: '8px' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px' }}>
+        <span className={`status-pill ${online ? 'status-pill--positive' : 'status-pill--warning'}`}>
+          {online ? 'Online' : 'Offline'}
+        </span>
+        <span>
+          {pending > 0
+            ? `${pending} change${pending === 1 ? '' : 's'} waiting to sync`
+            : online
+              ? 'All changes synced'
+              : 'Changes are saved on this device and sync when the connection returns'}
+        </span>
+        {pending > 0 ? (
+          <button className="app-button" type="button" onClick={onSync} disabled={!online || syncing}>
+            {syncing ? 'Syncing…' : 'Sync now'}
+          </button>
+        ) : null}
+      </div>
+      {problems.length > 0 ? (
+        <ul style={{ margin: 0, paddingLeft: '18px', display: 'grid', gap: '6px' }}>
+          {problems.map((entry) => (
+            <li key={entry.id}>
+              <span className="status-pill status-pill--negative">
+                {entry.status === 'conflict' ? 'Conflict' : 'Failed'}
+              </span>{' '}
+              {describe(entry, stepTitle(entry))} — {entry.error}
+              <div className="button-row" style={{ display: 'flex', gap: '6px', marginTop: '4px' }}>
+                {entry.status === 'conflict' && entry.kind === 'step' ? (
+                  <button className="app-button" type="button" onClick={() => onRetry(entry, true)} disabled={!online}>
+                    Keep my change
+                  </button>
+                ) : (
+                  <button className="app-button" type="button" onClick={() => onRetry(entry)} disabled={!online}>
+                    Retry
+                  </button>
+                )}
+                <button
+                  className="app-button"
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm('Discard this offline change?')) {
+                      onDiscard(entry);
+                    }
+                  }}
+                >
+                  Discard
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useRef, type PointerEvent } from 'react';
+
+type SignaturePadProps = {
+  /** Called with a PNG data URL after each stroke, or `null` once cleared. */
+  onChange: (image: string | null) => void;
+  disabled?: boolean;
+};
+
+const WIDTH = 480;
+const HEIGHT = 160;
+
+export function SignaturePad({ onChange, disabled = false }: SignaturePadProps): JSX.Element {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#0f172a';
+  }, []);
+
+  // Pointer coordinates in canvas pixels; the canvas is scaled down with CSS on narrow screens.
+  const point = (event: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handleDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    const { x, y } = point(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handleMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = event.currentTarget.getContext('2d');
+    const { x, y } = point(event);
+    context?.lineTo(x, y);
+    context?.stroke();
+  };
+
+  const handleUp = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(event.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div style={{ display: 'grid', gap: '6px', justifyItems: 'start' }}>
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        aria-label="Customer signature"
+        onPointerDown={handleDown}
+        onPointerMove={handleMove}
+        onPointerUp={handleUp}
+        onPointerCancel={handleUp}
+        style={{
+          width: '100%',
+          maxWidth: WIDTH,
+          border: '1px dashed rgba(71, 85, 105, 0.6)',
+          borderRadius: '8px',
+          background: '#fff',
+          touchAction: 'none',
+          cursor: disabled ? 'not-allowed' : 'crosshair',
+        }}
+      />
+      <button className="app-button" type="button" onClick={handleClear} disabled={disabled}>
+        Clear signature
+      </button>
+    </div>
+  );
+}
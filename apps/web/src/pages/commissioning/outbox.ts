@@ -0,0 +1,260 @@
+import { api } from '@/api/http';
+
+/**
+ * Commissioning changes made without a connection. Entries live in IndexedDB so they survive reloads and are
+ * replayed in order once the browser is back online.
+ */
+export type StepUpdatePayload = {
+  session_id: string;
+  step_id: string;
+  state: 'pending' | 'pass' | 'fail' | 'skip';
+  readings?: Record<string, unknown>;
+  comment?: string;
+};
+
+export type QueuedFile = { blob: Blob; name: string; thumbnail: Blob | null };
+
+type OutboxBase = {
+  id: string;
+  session_id: string;
+  step_id: string | null;
+  created_at: string;
+  /** `conflict` and `failed` entries wait for the engineer to retry or discard them. */
+  status: 'pending' | 'failed' | 'conflict';
+  error: string | null;
+};
+
+export type OutboxEntry =
+  | (OutboxBase & {
+      kind: 'step';
+      payload: StepUpdatePayload;
+      /** The step's `version` when it was last loaded from the server; null forces the write. */
+      base_version: number | null;
+    })
+  | (OutboxBase & { kind: 'attachments'; files: QueuedFile[] });
+
+export type SyncResult = { synced: number; failed: number; offline: boolean };
+
+const DB_NAME = 'greenbro-commissioning';
+const STORE = 'outbox';
+const CHANGE_EVENT = 'commissioning-outbox-change';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let syncing: Promise<SyncResult> | null = null;
+/** The latest version the worker returned for each step this outbox synced; the page's copy may still be older. */
+const syncedVersions = new Map<string, number>();
+
+const stepKey = (sessionId: string, stepId: string | null) => `${sessionId}:${stepId ?? ''}`;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function notifyChange() {
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+export function onOutboxChange(listener: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>('readonly', (store) => store.getAll());
+  return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+async function putEntry(entry: OutboxEntry) {
+  await withStore('readwrite', (store) => store.put(entry));
+  notifyChange();
+}
+
+export async function removeOutboxEntry(id: string) {
+  await withStore('readwrite', (store) => store.delete(id));
+  notifyChange();
+}
+
+/**
+ * Queues a step update. A newer change to a step that is still waiting replaces the queued payload but keeps the
+ * original base version, since the server has not seen either change yet. A base older than a version this outbox
+ * has already synced is the page lagging behind the engineer's own change, so the synced version is used instead.
+ */
+export async function queueStepUpdate(payload: StepUpdatePayload, baseVersion: number | null) {
+  const synced = syncedVersions.get(stepKey(payload.session_id, payload.step_id));
+  const base = baseVersion !== null && synced !== undefined ? Math.max(baseVersion, synced) : baseVersion;
+  // While a sync runs the waiting entry may already be on the wire, so later changes get their own entry.
+  const waiting = (syncing ? [] : await listOutbox()).find(
+    (entry) =>
+      entry.kind === 'step' &&
+      entry.status === 'pending' &&
+      entry.session_id === payload.session_id &&
+      entry.step_id === payload.step_id,
+  );
+  if (waiting?.kind === 'step') {
+    await putEntry({ ...waiting, payload });
+    return;
+  }
+  await putEntry({
+    id: crypto.randomUUID(),
+    kind: 'step',
+    session_id: payload.session_id,
+    step_id: payload.step_id,
+    created_at: new Date().toISOString(),
+    status: 'pending',
+    error: null,
+    payload,
+    base_version: base,
+  });
+}
+
+export async function queueAttachments(sessionId: string, stepId: string | null, files: QueuedFile[]) {
+  await putEntry({
+    id: crypto.randomUUID(),
+    kind: 'attachments',
+    session_id: sessionId,
+    step_id: stepId,
+    created_at: new Date().toISOString(),
+    status: 'pending',
+    error: null,
+    files,
+  });
+}
+
+/** Puts a failed or conflicting entry back in the queue; `force` drops the conflict check for step updates. */
+export async function retryOutboxEntry(entry: OutboxEntry, force = false) {
+  await putEntry({
+    ...entry,
+    status: 'pending',
+    error: null,
+    ...(entry.kind === 'step' && force ? { base_version: null } : {}),
+  });
+}
+
+/** A fetch that rejects, rather than an error status, means there is still no connection. */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine);
+}
+
+async function errorMessage(response: Response): Promise<{ status: OutboxEntry['status']; error: string }> {
+  const body = (await response.json().catch(() => null)) as {
+    error?: string;
+    errors?: string[];
+    current?: { state?: string };
+  } | null;
+  if (response.status === 409 && body?.error === 'conflict') {
+    return { status: 'conflict', error: `Changed by someone else (now ${body.current?.state ?? 'updated'})` };
+  }
+  if (response.status === 409 && (body?.error === 'session_closed' || body?.error === 'already_signed')) {
+    // Not a conflict the engineer can override: the session is closed or sealed.
+    return { status: 'failed', error: 'The session was finalised before this change synced' };
+  }
+  if (body?.errors?.length) {
+    return { status: 'failed', error: body.errors.join('; ') };
+  }
+  return { status: 'failed', error: body?.error ?? `Request failed (${response.status})` };
+}
+
+async function send(entry: OutboxEntry): Promise<Response> {
+  if (entry.kind === 'step') {
+    return api.post('/api/commissioning/step', {
+      ...entry.payload,
+      ...(entry.base_version !== null ? { base_version: entry.base_version } : {}),
+    });
+  }
+  const form = new FormData();
+  if (entry.step_id) {
+    form.append('step_id', entry.step_id);
+  }
+  for (const [index, file] of entry.files.entries()) {
+    form.append('file', file.blob, file.name);
+    if (file.thumbnail) {
+      form.append(`thumbnail_${index}`, file.thumbnail, 'thumb.jpg');
+    }
+  }
+  return api.post(`/api/commissioning/session/${entry.session_id}/attachments`, form);
+}
+
+/**
+ * Later changes to the same step were made on top of the one that just synced, so they move onto the version the
+ * worker returned for it. Forced entries keep no base.
+ */
+async function rebaseStepEntries(synced: OutboxEntry, version: number) {
+  const key = stepKey(synced.session_id, synced.step_id);
+  syncedVersions.set(key, version);
+  for (const entry of await listOutbox()) {
+    if (
+      entry.kind === 'step' &&
+      entry.status === 'pending' &&
+      entry.base_version !== null &&
+      stepKey(entry.session_id, entry.step_id) === key
+    ) {
+      await putEntry({ ...entry, base_version: version });
+    }
+  }
+}
+
+/**
+ * Replays pending entries oldest first until none are left, including ones queued while the sync runs, and stops
+ * at the first network error.
+ */
+export function syncOutbox(): Promise<SyncResult> {
+  syncing ??= (async () => {
+    const result: SyncResult = { synced: 0, failed: 0, offline: false };
+    try {
+      for (;;) {
+        // Re-read each time: entries are added and rebased while earlier ones are on the wire.
+        const entry = (await listOutbox()).find((item) => item.status === 'pending');
+        if (!entry) break;
+        let response: Response;
+        try {
+          response = await send(entry);
+        } catch (error) {
+          if (isNetworkError(error)) {
+            result.offline = true;
+            break;
+          }
+          throw error;
+        }
+        if (response.ok) {
+          await removeOutboxEntry(entry.id);
+          result.synced += 1;
+          if (entry.kind === 'step') {
+            const body = (await response.json().catch(() => null)) as { version?: number } | null;
+            if (typeof body?.version === 'number') {
+              await rebaseStepEntries(entry, body.version);
+            }
+          }
+        } else {
+          await putEntry({ ...entry, ...(await errorMessage(response)) });
+          result.failed += 1;
+        }
+      }
+      return result;
+    } finally {
+      syncing = null;
+    }
+  })();
+  return syncing;
+}
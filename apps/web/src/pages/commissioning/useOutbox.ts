@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@app/providers/ToastProvider';
+import {
+  listOutbox,
+  onOutboxChange,
+  removeOutboxEntry,
+  retryOutboxEntry,
+  syncOutbox,
+  type OutboxEntry,
+} from './outbox';
+
+/** Tracks connectivity and the offline outbox, and syncs whenever the browser comes back online. */
+export function useOutbox() {
+  const qc = useQueryClient();
+  const toast = useToast();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+
+  const refresh = useCallback(() => {
+    listOutbox()
+      .then(setEntries)
+      .catch((error) => console.warn('Failed to read the commissioning outbox', error));
+  }, []);
+
+  const sync = useCallback(async () => {
+    setSyncing(true);
+    try {
+      const result = await syncOutbox();
+      if (result.synced > 0) {
+        void qc.invalidateQueries({ queryKey: ['comm:session'] });
+        void qc.invalidateQueries({ queryKey: ['comm:sessions'] });
+        toast.success(`${result.synced} offline change${result.synced === 1 ? '' : 's'} synced`);
+      }
+      if (result.failed > 0) {
+        toast.error(`${result.failed} offline change${result.failed === 1 ? '' : 's'} could not be synced`);
+      }
+    } catch (error) {
+      console.warn('Commissioning outbox sync failed', error);
+    } finally {
+      setSyncing(false);
+    }
+  }, [qc, toast]);
+
+  // Listeners are registered once; a new toast context must not trigger another sync.
+  const syncRef = useRef(sync);
+  syncRef.current = sync;
+
+  useEffect(() => {
+    refresh();
+    return onOutboxChange(refresh);
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      void syncRef.current();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    if (navigator.onLine) {
+      void syncRef.current();
+    }
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const retry = useCallback(
+    async (entry: OutboxEntry, force = false) => {
+      await retryOutboxEntry(entry, force);
+      if (navigator.onLine) {
+        await sync();
+      }
+    },
+    [sync],
+  );
+
+  const discard = useCallback((entry: OutboxEntry) => removeOutboxEntry(entry.id), []);
+
+  return {
+    entries,
+    online,
+    syncing,
+    pending: entries.filter((entry) => entry.status === 'pending').length,
+    problems: entries.filter((entry) => entry.status !== 'pending'),
+    sync,
+    retry,
+    discard,
+  };
+}
@@ -0,0 +1,430 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  addIncidentComment,
+  getIncident,
+  linkIncidentAlerts,
+  mergeIncidents,
+  saveIncidentPostmortem,
+  splitIncident,
+  updateIncident,
+  type IncidentDetail,
+  type IncidentSeverity,
+  type IncidentStatus,
+  type IncidentTimelineEntry,
+  type IncidentUpdateInput,
+} from '@api/ops';
+import { useToast } from '@app/providers/ToastProvider';
+import { useAuthFetch } from '@hooks/useAuthFetch';
+import { useReadOnly } from '@hooks/useReadOnly';
+
+const STATUS_OPTIONS: IncidentStatus[] = ['investigating', 'mitigated', 'resolved'];
+const SEVERITY_OPTIONS: IncidentSeverity[] = ['minor', 'major', 'critical'];
+
+const splitIds = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+function describeTimelineEntry(entry: IncidentTimelineEntry): string {
+  const meta = entry.meta ?? {};
+  const list = (key: string) => (Array.isArray(meta[key]) ? (meta[key] as unknown[]).length : 0);
+  switch (entry.kind) {
+    case 'opened':
+      return 'Incident opened';
+    case 'status':
+      return `Status changed to ${entry.body ?? '—'}`;
+    case 'severity':
+      return entry.body ? `Severity set to ${entry.body}` : 'Severity cleared';
+    case 'owner':
+      return entry.body ? `Assigned to ${entry.body}` : 'Unassigned';
+    case 'title':
+      return entry.body ? `Renamed to “${entry.body}”` : 'Title cleared';
+    case 'comment':
+      return entry.body ?? '';
+    case 'postmortem':
+      return meta.field === 'root_cause' ? 'Root cause updated' : 'Post-mortem updated';
+    case 'alerts_linked':
+      return `Linked ${list('alertIds')} alert(s)`;
+    case 'merged':
+      return `Merged ${list('incidentIds')} incident(s) into this one`;
+    case 'merged_into':
+      return `Merged into ${String(meta.incidentId ?? '')}`;
+    case 'split':
+      return `Split ${list('alertIds')} alert(s) into ${String(meta.incidentId ?? '')}`;
+    case 'split_from':
+      return `Split from ${String(meta.incidentId ?? '')}`;
+    default:
+      return entry.kind;
+  }
+}
+
+export function IncidentDetailPage(): JSX.Element {
+  const { incidentId = '' } = useParams<{ incidentId: string }>();
+  const authFetch = useAuthFetch();
+  const toast = useToast();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { ro } = useReadOnly();
+
+  const [title, setTitle] = useState('');
+  const [owner, setOwner] = useState('');
+  const [rootCause, setRootCause] = useState('');
+  const [postmortem, setPostmortem] = useState('');
+  const [comment, setComment] = useState('');
+  const [linkIds, setLinkIds] = useState('');
+  const [mergeIds, setMergeIds] = useState('');
+  const [selectedAlerts, setSelectedAlerts] = useState<string[]>([]);
+
+  const incidentQuery = useQuery({
+    queryKey: ['incident', incidentId],
+    queryFn: () => getIncident(incidentId, authFetch),
+    enabled: Boolean(incidentId),
+  });
+  const incident = incidentQuery.data;
+
+  useEffect(() => {
+    if (!incident) return;
+    setTitle(incident.title ?? '');
+    setOwner(incident.owner ?? '');
+    setRootCause(incident.rootCause ?? '');
+    setPostmortem(incident.postmortem ?? '');
+    setSelectedAlerts([]);
+  }, [incident]);
+
+  const refresh = () => {
+    void queryClient.invalidateQueries({ queryKey: ['incident', incidentId] });
+    void queryClient.invalidateQueries({ queryKey: ['ops:incidents'] });
+  };
+  const onError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    toast.error(message || 'Request failed.');
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: (input: IncidentUpdateInput) => updateIncident(incidentId, input, authFetch),
+    onSuccess: () => {
+      toast.success('Incident updated.');
+      refresh();
+    },
+    onError,
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: (body: string) => addIncidentComment(incidentId, body, authFetch),
+    onSuccess: () => {
+      setComment('');
+      refresh();
+    },
+    onError,
+  });
+
+  const postmortemMutation = useMutation({
+    mutationFn: (text: string) => saveIncidentPostmortem(incidentId, text, authFetch),
+    onSuccess: () => {
+      toast.success('Post-mortem saved.');
+      refresh();
+    },
+    onError,
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: (ids: string[]) => linkIncidentAlerts(incidentId, ids, authFetch),
+    onSuccess: (result) => {
+      toast.success(`Linked ${result.linked.length} alert(s).`);
+      setLinkIds('');
+      refresh();
+    },
+    onError,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: (ids: string[]) => mergeIncidents(incidentId, ids, authFetch),
+    onSuccess: (result) => {
+      toast.success(`Merged ${result.merged.length} incident(s).`);
+      setMergeIds('');
+      refresh();
+    },
+    onError,
+  });
+
+  const splitMutation = useMutation({
+    mutationFn: (ids: string[]) => splitIncident(incidentId, ids, authFetch),
+    onSuccess: (result) => {
+      toast.success('Alerts moved to a new incident.');
+      refresh();
+      navigate(`/ops/incidents/${encodeURIComponent(result.incidentId)}`);
+    },
+    onError,
+  });
+
+  if (incidentQuery.isLoading) {
+    return <div className="card">Loading incident…</div>;
+  }
+  if (incidentQuery.isError || !incident) {
+    return <div className="card card--error">Incident not found.</div>;
+  }
+
+  const locked = ro || Boolean(incident.mergedInto);
+  const handleDetails = (event: FormEvent) => {
+    event.preventDefault();
+    updateMutation.mutate({ title: title || null, owner: owner || null, rootCause: rootCause || null });
+  };
+
+  return (
+    <div className="page">
+      <header className="page__header">
+        <div>
+          <h2>{incident.title ?? `Incident ${incident.incidentId.slice(0, 8)}`}</h2>
+          <p className="page__subtitle">
+            {incident.siteName ?? incident.siteId} · started {new Date(incident.startedAt).toLocaleString()}
+            {incident.resolvedAt ? ` · resolved ${new Date(incident.resolvedAt).toLocaleString()}` : ''}
+          </p>
+        </div>
+        <Link to="/ops" className="pill">
+          Back to ops
+        </Link>
+      </header>
+
+      {incident.mergedInto ? (
+        <div className="card">
+          This incident was merged into{' '}
+          <Link to={`/ops/incidents/${encodeURIComponent(incident.mergedInto)}`}>{incident.mergedInto}</Link>.
+        </div>
+      ) : null}
+
+      <IncidentWorkflowCard
+        incident={incident}
+        disabled={locked || updateMutation.isPending}
+        onChange={(input) => updateMutation.mutate(input)}
+      />
+
+      <form className="card" onSubmit={handleDetails} style={{ display: 'grid', gap: 12 }}>
+        <h3>Details</h3>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Title</span>
+          <input value={title} maxLength={200} onChange={(event) => setTitle(event.target.value)} />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Owner</span>
+          <input
+            type="email"
+            value={owner}
+            placeholder="Unassigned"
+            onChange={(event) => setOwner(event.target.value)}
+          />
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span>Root cause</span>
+          <textarea rows={3} value={rootCause} onChange={(event) => setRootCause(event.target.value)} />
+        </label>
+        <div className="button-row">
+          <button className="app-button" type="submit" disabled={locked || updateMutation.isPending}>
+            Save details
+          </button>
+        </div>
+      </form>
+
+      <section className="card">
+        <h3>Alerts ({incident.alerts.length})</h3>
+        {incident.alerts.length === 0 ? (
+          <p className="muted">No alerts linked.</p>
+        ) : (
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th />
+                <th>Opened</th>
+                <th>Device</th>
+                <th>Type</th>
+                <th>Severity</th>
+                <th>State</th>
+              </tr>
+            </thead>
+            <tbody>
+              {incident.alerts.map((alert) => (
+                <tr key={alert.alertId}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      aria-label={`Select alert ${alert.alertId}`}
+                      checked={selectedAlerts.includes(alert.alertId)}
+                      onChange={() =>
+                        setSelectedAlerts((prev) =>
+                          prev.includes(alert.alertId)
+                            ? prev.filter((id) => id !== alert.alertId)
+                            : [...prev, alert.alertId],
+                        )
+                      }
+                    />
+                  </td>
+                  <td>{new Date(alert.openedAt).toLocaleString()}</td>
+                  <td>
+                    <Link to={`/devices/${encodeURIComponent(alert.deviceId)}`}>{alert.deviceId}</Link>
+                  </td>
+                  <td>{alert.type}</td>
+                  <td>{alert.severity}</td>
+                  <td>{alert.state}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="button-row" style={{ marginTop: 12 }}>
+          <button
+            className="app-button"
+            type="button"
+            disabled={locked || selectedAlerts.length === 0 || splitMutation.isPending}
+            onClick={() => splitMutation.mutate(selectedAlerts)}
+          >
+            Split selected into new incident
+          </button>
+        </div>
+        <form
+          style={{ display: 'flex', gap: 8, marginTop: 12 }}
+          onSubmit={(event) => {
+            event.preventDefault();
+            const ids = splitIds(linkIds);
+            if (ids.length > 0) linkMutation.mutate(ids);
+          }}
+        >
+          <input
+            value={linkIds}
+            placeholder="Alert IDs to link"
+            aria-label="Alert IDs to link"
+            onChange={(event) => setLinkIds(event.target.value)}
+          />
+          <button className="app-button" type="submit" disabled={locked || linkMutation.isPending}>
+            Link alerts
+          </button>
+        </form>
+        <form
+          style={{ display: 'flex', gap: 8, marginTop: 12 }}
+          onSubmit={(event) => {
+            event.preventDefault();
+            const ids = splitIds(mergeIds);
+            if (ids.length > 0 && window.confirm(`Merge ${ids.length} incident(s) into this one?`)) {
+              mergeMutation.mutate(ids);
+            }
+          }}
+        >
+          <input
+            value={mergeIds}
+            placeholder="Incident IDs to merge in"
+            aria-label="Incident IDs to merge in"
+            onChange={(event) => setMergeIds(event.target.value)}
+          />
+          <button className="app-button" type="submit" disabled={locked || mergeMutation.isPending}>
+            Merge incidents
+          </button>
+        </form>
+      </section>
+
+      <section className="card">
+        <h3>Post-mortem</h3>
+        <textarea
+          rows={8}
+          style={{ width: '100%' }}
+          value={postmortem}
+          placeholder="Impact, timeline, contributing factors, follow-up actions…"
+          onChange={(event) => setPostmortem(event.target.value)}
+        />
+        <div className="button-row">
+          <button
+            className="app-button"
+            type="button"
+            disabled={locked || !postmortem.trim() || postmortemMutation.isPending}
+            onClick={() => postmortemMutation.mutate(postmortem)}
+          >
+            Save post-mortem
+          </button>
+        </div>
+      </section>
+
+      <section className="card">
+        <h3>Timeline</h3>
+        <ol className="incident-timeline">
+          {incident.timeline.map((entry, index) => (
+            <li key={`${entry.ts}-${index}`} className={`incident-timeline__item incident-timeline__item--${entry.kind}`}>
+              <time dateTime={entry.ts}>{new Date(entry.ts).toLocaleString()}</time>
+              {entry.actor ? <span className="muted"> {entry.actor}</span> : null}
+              <div>{describeTimelineEntry(entry)}</div>
+            </li>
+          ))}
+        </ol>
+        <form
+          style={{ display: 'grid', gap: 8 }}
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (comment.trim()) commentMutation.mutate(comment);
+          }}
+        >
+          <textarea
+            rows={3}
+            value={comment}
+            placeholder="Add a comment"
+            aria-label="Add a comment"
+            onChange={(event) => setComment(event.target.value)}
+          />
+          <div className="button-row">
+            <button className="app-button" type="submit" disabled={ro || commentMutation.isPending}>
+              Comment
+            </button>
+          </div>
+        </form>
+      </section>
+    </div>
+  );
+}
+
+function IncidentWorkflowCard({
+  incident,
+  disabled,
+  onChange,
+}: {
+  incident: IncidentDetail;
+  disabled: boolean;
+  onChange: (input: IncidentUpdateInput) => void;
+}): JSX.Element {
+  return (
+    <section className="card" style={{ display: 'flex', gap: 24, flexWrap: 'wrap', alignItems: 'center' }}>
+      <div>
+        <span className="muted">Status</span>
+        <div className="chip-group">
+          {STATUS_OPTIONS.map((status) => (
+            <button
+              key={status}
+              type="button"
+              className={`chip${incident.status === status ? ' chip--active' : ''}`}
+              disabled={disabled || incident.status === status}
+              onClick={() => onChange({ status })}
+            >
+              {status}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+        <span className="muted">Severity</span>
+        <select
+          value={incident.severity ?? ''}
+          disabled={disabled}
+          onChange={(event) => onChange({ severity: (event.target.value || null) as IncidentSeverity | null })}
+        >
+          <option value="">Unset</option>
+          {SEVERITY_OPTIONS.map((severity) => (
+            <option key={severity} value={severity}>
+              {severity}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div>
+        <span className="muted">Owner</span>
+        <div>{incident.owner ?? 'Unassigned'}</div>
+      </div>
+    </section>
+  );
+}
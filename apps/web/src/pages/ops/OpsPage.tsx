@@ -1,6 +1,18 @@
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import {
+  cancelDemandResponseEvent,
+  getDemandResponseReport,
+  listDemandResponseEvents,
+  listIncidents,
+  type DemandResponseEvent,
+} from '@api/ops';
+import { useToast } from '@app/providers/ToastProvider';
 import { Sparkline } from '@components/charts/Sparkline';
+import { useAuthFetch } from '@hooks/useAuthFetch';
 import { useBurnNotifier } from '@hooks/useBurnNotifier';
+import { useReadOnly } from '@hooks/useReadOnly';
 
 type DeviationCounters = Record<'delta_t' | 'cop' | 'current', { warning: number; critical: number }>;
 
@@ -115,6 +127,198 @@ function DeviationCountersCard() {
   );
 }
 
+function IncidentsCard() {
+  const authFetch = useAuthFetch();
+  const { data, isError } = useQuery({
+    queryKey: ['ops:incidents'],
+    queryFn: () => listIncidents({}, authFetch),
+    refetchInterval: 30_000,
+    staleTime: 15_000,
+  });
+  const incidents = data ?? [];
+
+  return (
+    <div className="card">
+      <h3>Incidents (72 h)</h3>
+      {isError ? (
+        <p className="card__error">Unable to load incidents.</p>
+      ) : incidents.length === 0 ? (
+        <p className="muted">No incidents in the last 72 hours.</p>
+      ) : (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Incident</th>
+              <th>Site</th>
+              <th>Status</th>
+              <th>Severity</th>
+              <th>Owner</th>
+              <th>Alerts</th>
+            </tr>
+          </thead>
+          <tbody>
+            {incidents.map((incident) => (
+              <tr key={incident.incidentId}>
+                <td>
+                  <Link to={`/ops/incidents/${encodeURIComponent(incident.incidentId)}`}>
+                    {incident.title ?? new Date(incident.startedAt).toLocaleString()}
+                  </Link>
+                </td>
+                <td>{incident.siteName ?? incident.siteId}</td>
+                <td>{incident.status}</td>
+                <td>{incident.severity ?? '—'}</td>
+                <td>{incident.owner ?? 'Unassigned'}</td>
+                <td>
+                  {incident.alerts.open + incident.alerts.ack} active / {incident.alerts.total}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+const COMPLIANCE_LABELS: Record<string, string> = {
+  compliant: 'Reduced',
+  not_reduced: 'Not reduced',
+  no_ack: 'No ack',
+  no_data: 'No data',
+  not_dispatched: 'Not sent',
+};
+
+function DemandResponseReport({ event }: { event: DemandResponseEvent }) {
+  const authFetch = useAuthFetch();
+  const [open, setOpen] = useState(false);
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['ops:dr-report', event.id],
+    queryFn: () => getDemandResponseReport(event.id, authFetch),
+    enabled: open,
+    staleTime: 60_000,
+  });
+
+  return (
+    <details onToggle={(toggle) => setOpen(toggle.currentTarget.open)}>
+      <summary>{event.name}</summary>
+      {isLoading ? (
+        <p className="muted">Loading report…</p>
+      ) : isError || !data ? (
+        <p className="card__error">Unable to load report.</p>
+      ) : (
+        <>
+          <p className="muted">
+            {data.final ? 'Final report' : 'Provisional report'} · baseline is the same window one day earlier.
+          </p>
+          <table className="data-table data-table--compact">
+            <thead>
+              <tr>
+                <th>Device</th>
+                <th>Result</th>
+                <th>Baseline kW</th>
+                <th>Event kW</th>
+                <th>Shifted kWh</th>
+                <th>Pre-heat kWh</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.devices.map((device) => (
+                <tr key={device.deviceId}>
+                  <td>
+                    <Link to={`/devices/${encodeURIComponent(device.deviceId)}`}>{device.deviceId}</Link>
+                  </td>
+                  <td>{COMPLIANCE_LABELS[device.compliance] ?? device.compliance}</td>
+                  <td>{device.baselineKw?.toFixed(2) ?? '—'}</td>
+                  <td>{device.eventKw?.toFixed(2) ?? '—'}</td>
+                  <td>{device.shiftedKwh?.toFixed(2) ?? '—'}</td>
+                  <td>{device.preheatKwh?.toFixed(2) ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </details>
+  );
+}
+
+function DemandResponseCard() {
+  const authFetch = useAuthFetch();
+  const toast = useToast();
+  const queryClient = useQueryClient();
+  const { ro } = useReadOnly();
+  const { data, isError } = useQuery({
+    queryKey: ['ops:dr-events'],
+    queryFn: () => listDemandResponseEvents(authFetch),
+    refetchInterval: 60_000,
+  });
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => cancelDemandResponseEvent(id, authFetch),
+    onSuccess: () => {
+      toast.success('Event cancelled. Devices are restored on the next scheduler run.');
+      void queryClient.invalidateQueries({ queryKey: ['ops:dr-events'] });
+    },
+    onError: (error: unknown) => toast.error(error instanceof Error ? error.message : 'Cancel failed.'),
+  });
+  const events = data ?? [];
+
+  return (
+    <div className="card">
+      <h3>Demand response</h3>
+      {isError ? (
+        <p className="card__error">Unable to load demand-response events.</p>
+      ) : events.length === 0 ? (
+        <p className="muted">No demand-response events yet.</p>
+      ) : (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Event</th>
+              <th>Window</th>
+              <th>Status</th>
+              <th>Devices</th>
+              <th>Shifted</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {events.map((event) => (
+              <tr key={event.id}>
+                <td>
+                  <DemandResponseReport event={event} />
+                </td>
+                <td>
+                  {new Date(event.startsAt).toLocaleString()} – {new Date(event.endsAt).toLocaleTimeString()}
+                  {event.preheatMin > 0 ? <div className="muted">Pre-heat {event.preheatMin} min</div> : null}
+                </td>
+                <td>{event.status}</td>
+                <td>
+                  {event.totals ? `${event.totals.compliant} / ${event.totals.devices} reduced` : event.deviceCount}
+                </td>
+                <td>
+                  {event.totals ? `${event.totals.shiftedKw.toFixed(1)} kW · ${event.totals.shiftedKwh.toFixed(1)} kWh` : '—'}
+                </td>
+                <td>
+                  {event.status === 'scheduled' || event.status === 'active' ? (
+                    <button
+                      type="button"
+                      className="app-button app-button--ghost"
+                      disabled={ro || cancelMutation.isPending}
+                      onClick={() => cancelMutation.mutate(event.id)}
+                    >
+                      Cancel
+                    </button>
+                  ) : null}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
 export default function OpsPage(){
   useBurnNotifier({ refetchMs: 60000 }); // keep in sync with wallboard cadence
   const slo = useQuery({
@@ -176,6 +380,9 @@ export default function OpsPage(){
         <DeviationHotlistCard />
       </div>
 
+      <IncidentsCard />
+      <DemandResponseCard />
+
       <div className="card">
         <h3>Snapshot</h3>
         <pre style={{ background:'#0b1119', color:'#e6edf3', padding:12, borderRadius:8 }}>{JSON.stringify(d, null, 2)}</pre>
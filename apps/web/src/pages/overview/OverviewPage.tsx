@@ -69,6 +69,10 @@ export default function OverviewPage() {
     return Number.isFinite(value) && value > max ? value : max;
   }, 0);
   const hbFreshMin = heartbeatFromKpi ?? heartbeatFromSites;
+  const cost30d = typeof kpis?.cost_30d === 'number' && Number.isFinite(kpis.cost_30d) ? kpis.cost_30d : null;
+  const costPerKwhHeat =
+    typeof kpis?.cost_per_kwh_heat === 'number' && Number.isFinite(kpis.cost_per_kwh_heat) ? kpis.cost_per_kwh_heat : null;
+  const costCurrency = kpis?.cost_currency ?? '';
 
   const onlineBand = bandHigh(onlinePct, 98, 95);
   const copBand = bandHigh(avgCop, 3.0, 2.5);
@@ -119,6 +123,19 @@ export default function OverviewPage() {
           </div>
         </KPI>
       </div>
+      {cost30d != null ? (
+        <div className="area-kpi-5">
+          <KPI
+            label="Running cost (30 days)"
+            value={`${costCurrency} ${cost30d.toLocaleString(undefined, { maximumFractionDigits: 0 })}`.trim()}
+            band="ok"
+          >
+            <div className="muted" style={{ marginTop: 4 }}>
+              {costPerKwhHeat != null ? `${costCurrency} ${costPerKwhHeat.toFixed(2)} per kWh of heat` : 'No heat metered yet'}
+            </div>
+          </KPI>
+        </div>
+      ) : null}
 
       <section className="card area-activity" style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
         <header style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'space-between', alignItems: 'center', gap: 12 }}>
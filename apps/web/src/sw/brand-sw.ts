@@ -3,16 +3,64 @@
 const sw = self as unknown as ServiceWorkerGlobalScope;
 const PRECACHE = ['/_app/brand.css', '/brand/logo.svg', '/brand/logo-white.svg', '/brand/logo-mono.svg'];
 
+// Registered with the /commissioning scope (app-sw.js owns /), so everything below only runs for the
+// commissioning page and the requests it makes. A page reached by in-app navigation stays under app-sw.js,
+// which writes the same DATA_CACHE, so an offline reload here still finds the data.
+const SHELL_URL = '/commissioning';
+const SHELL_CACHE = 'commissioning-shell-v1';
+const ASSET_CACHE = 'commissioning-assets-v1';
+const DATA_CACHE = 'commissioning-data-v1';
+const ASSET_PATTERN = /(?:src|href)="(\/assets\/[^"]+)"/g;
+const COMMISSIONING_API = /^\/api\/commissioning\/(checklists|settings|sessions|session\/[^/]+)$/;
+
+/** Stores the app shell and, when a deploy changed it, the hashed bundles it references. */
+async function cacheShell(response: Response) {
+  const html = await response.clone().text();
+  const cache = await caches.open(SHELL_CACHE);
+  const previous = await cache.match(SHELL_URL);
+  if (previous && (await previous.text()) === html) {
+    return;
+  }
+  await caches.delete(ASSET_CACHE);
+  await cache.put(SHELL_URL, response);
+  const assets = Array.from(html.matchAll(ASSET_PATTERN), (match) => match[1]!);
+  await (await caches.open(ASSET_CACHE)).addAll(assets);
+}
+
 sw.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open('brand').then((cache) => cache.addAll(PRECACHE)).catch(() => undefined),
+    Promise.all([
+      caches.open('brand').then((cache) => cache.addAll(PRECACHE)).catch(() => undefined),
+      fetch(SHELL_URL, { credentials: 'include' })
+        .then((response) => (response.ok ? cacheShell(response) : undefined))
+        .catch(() => undefined),
+    ]),
   );
 });
 
-sw.addEventListener('activate', () => {
-  // noop - no upgrade logic yet
+sw.addEventListener('activate', (event) => {
+  // Take over an already open commissioning page so it works offline without a reload.
+  event.waitUntil(sw.clients.claim());
 });
 
+function networkFirst(event: FetchEvent, cacheName: string, fallback: () => Promise<Response | undefined>) {
+  event.respondWith(
+    fetch(event.request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          event.waitUntil(
+            cacheName === SHELL_CACHE
+              ? cacheShell(copy)
+              : caches.open(cacheName).then((cache) => cache.put(event.request, copy)),
+          );
+        }
+        return response;
+      })
+      .catch(async () => (await fallback()) ?? Response.error()),
+  );
+}
+
 sw.addEventListener('fetch', (event) => {
   const fetchEvent = event as FetchEvent;
   const url = new URL(fetchEvent.request.url);
@@ -28,5 +76,38 @@ sw.addEventListener('fetch', (event) => {
         return cached ?? fresh;
       })(),
     );
+    return;
+  }
+  if (fetchEvent.request.method !== 'GET') {
+    return;
+  }
+
+  if (fetchEvent.request.mode === 'navigate') {
+    networkFirst(fetchEvent, SHELL_CACHE, () => caches.match(SHELL_URL, { cacheName: SHELL_CACHE }));
+    return;
+  }
+
+  // Bundles are content-hashed, so a cached copy never goes stale.
+  if (url.origin === sw.location.origin && url.pathname.startsWith('/assets/')) {
+    fetchEvent.respondWith(
+      (async () => {
+        const cache = await caches.open(ASSET_CACHE);
+        const cached = await cache.match(fetchEvent.request);
+        if (cached) {
+          return cached;
+        }
+        const response = await fetch(fetchEvent.request);
+        if (response.ok) {
+          await cache.put(fetchEvent.request, response.clone());
+        }
+        return response;
+      })(),
+    );
+    return;
+  }
+
+  // Checklists, sessions and session detail fall back to the last copy seen online.
+  if (COMMISSIONING_API.test(url.pathname)) {
+    networkFirst(fetchEvent, DATA_CACHE, () => caches.match(fetchEvent.request, { cacheName: DATA_CACHE }));
   }
 });
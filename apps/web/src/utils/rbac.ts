@@ -11,6 +11,7 @@ export const ROUTE_ROLES = {
   commissioning: ['admin', 'contractor'] satisfies Role[],
   ops: ['admin', 'ops'] satisfies Role[],
   admin: ['admin'] satisfies Role[],
+  profile: ALL_ROLES,
 } as const;
 
 type RouteKey = keyof typeof ROUTE_ROLES;
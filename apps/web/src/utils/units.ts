@@ -0,0 +1,130 @@
+// Display conversion for metrics the API returns in °C, L/s, kW and kWh. Mirrors src/lib/units.ts in the worker.
+
+export type TemperatureUnit = 'C' | 'F';
+export type FlowUnit = 'lps' | 'lpm' | 'm3h' | 'gpm';
+export type PowerUnit = 'kW' | 'BTUh';
+export type EnergyUnit = 'kWh' | 'kBTU';
+
+export interface DisplayPreferences {
+  locale: string;
+  temperature: TemperatureUnit;
+  flow: FlowUnit;
+  power: PowerUnit;
+  energy: EnergyUnit;
+}
+
+export type Quantity = 'temperature' | 'temperatureDelta' | 'flow' | 'power' | 'energy';
+
+export const DEFAULT_DISPLAY_PREFERENCES: DisplayPreferences = {
+  locale: 'en-GB',
+  temperature: 'C',
+  flow: 'lps',
+  power: 'kW',
+  energy: 'kWh',
+};
+
+export const UNIT_OPTIONS = {
+  temperature: [
+    { value: 'C', label: 'Celsius (°C)' },
+    { value: 'F', label: 'Fahrenheit (°F)' },
+  ],
+  flow: [
+    { value: 'lps', label: 'Litres per second (L/s)' },
+    { value: 'lpm', label: 'Litres per minute (L/min)' },
+    { value: 'm3h', label: 'Cubic metres per hour (m³/h)' },
+    { value: 'gpm', label: 'US gallons per minute (GPM)' },
+  ],
+  power: [
+    { value: 'kW', label: 'Kilowatts (kW)' },
+    { value: 'BTUh', label: 'BTU per hour (BTU/h)' },
+  ],
+  energy: [
+    { value: 'kWh', label: 'Kilowatt-hours (kWh)' },
+    { value: 'kBTU', label: 'Thousand BTU (kBTU)' },
+  ],
+} as const;
+
+const BTUH_PER_KW = 3412.142;
+const GPM_PER_LPS = 15.850323;
+
+const SYMBOLS: Record<string, string> = {
+  C: '°C',
+  F: '°F',
+  lps: 'L/s',
+  lpm: 'L/min',
+  m3h: 'm³/h',
+  gpm: 'GPM',
+  kW: 'kW',
+  BTUh: 'BTU/h',
+  kWh: 'kWh',
+  kBTU: 'kBTU',
+};
+
+/** Quantity of each metric key the API returns, in both the camelCase and snake_case spellings. */
+export const METRIC_QUANTITIES: Record<string, Quantity> = {
+  supplyC: 'temperature',
+  returnC: 'temperature',
+  tankC: 'temperature',
+  ambientC: 'temperature',
+  supply_c: 'temperature',
+  return_c: 'temperature',
+  tank_c: 'temperature',
+  ambient_c: 'temperature',
+  deltaT: 'temperatureDelta',
+  delta_t: 'temperatureDelta',
+  flowLps: 'flow',
+  flow_lps: 'flow',
+  powerKW: 'power',
+  power_kw: 'power',
+  thermalKW: 'power',
+  thermal_kw: 'power',
+};
+
+const unitFor = (quantity: Quantity, prefs: DisplayPreferences): string =>
+  quantity === 'temperature' || quantity === 'temperatureDelta' ? prefs.temperature : prefs[quantity];
+
+export function convertQuantity(quantity: Quantity, value: number, prefs: DisplayPreferences): number {
+  switch (unitFor(quantity, prefs)) {
+    case 'F':
+      return quantity === 'temperatureDelta' ? value * 1.8 : value * 1.8 + 32;
+    case 'lpm':
+      return value * 60;
+    case 'm3h':
+      return value * 3.6;
+    case 'gpm':
+      return value * GPM_PER_LPS;
+    case 'BTUh':
+      return value * BTUH_PER_KW;
+    case 'kBTU':
+      return (value * BTUH_PER_KW) / 1000;
+    default:
+      return value;
+  }
+}
+
+export function unitSymbol(quantity: Quantity, prefs: DisplayPreferences): string {
+  return SYMBOLS[unitFor(quantity, prefs)] ?? '';
+}
+
+export function formatNumber(value: number | null | undefined, digits: number, locale: string): string {
+  if (value == null || !Number.isFinite(value)) return '—';
+  return new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+}
+
+export function formatQuantity(
+  quantity: Quantity,
+  value: number | null | undefined,
+  prefs: DisplayPreferences,
+  digits = 1,
+): string {
+  if (value == null || !Number.isFinite(value)) return '—';
+  return `${formatNumber(convertQuantity(quantity, value, prefs), digits, prefs.locale)} ${unitSymbol(quantity, prefs)}`;
+}
+
+/** Formats a metric by key: known metrics are converted and get their unit, others (COP, steps, amps) are just localised. */
+export function formatMetric(metric: string, value: number | null | undefined, prefs: DisplayPreferences, digits = 1): string {
+  const quantity = METRIC_QUANTITIES[metric];
+  if (quantity) return formatQuantity(quantity, value, prefs, digits);
+  if (value == null || !Number.isFinite(value)) return '—';
+  return new Intl.NumberFormat(prefs.locale, { maximumFractionDigits: 2 }).format(value);
+}
@@ -0,0 +1,20 @@
+-- Alert rule overrides layered over the built-in defaults in src/lib/alert-rules.ts.
+-- Precedence: device > site > client > fleet. NULL columns inherit from the next layer down.
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id TEXT PRIMARY KEY,
+  rule TEXT NOT NULL,              -- overheat|low_flow_under_load|low_cop|short_cycling|no_heartbeat_warn|no_heartbeat_crit
+  scope TEXT NOT NULL,             -- fleet|client|site|device
+  scope_id TEXT,                   -- NULL for fleet scope
+  enabled INTEGER,
+  severity TEXT,                   -- minor|major|critical
+  dwell_sec INTEGER,
+  cooldown_sec INTEGER,
+  thresholds_json TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_alert_rules_scope
+  ON alert_rules(rule, scope, COALESCE(scope_id, ''));
+CREATE INDEX IF NOT EXISTS idx_alert_rules_scope ON alert_rules(scope, scope_id);
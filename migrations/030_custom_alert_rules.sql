@@ -0,0 +1,18 @@
+-- User-defined expression alerts (see src/lib/expr.ts for the language).
+-- Alerts raised by these rules use type 'custom:<id>'.
+CREATE TABLE IF NOT EXISTS custom_alert_rules (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  expression TEXT NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'major', -- minor|major|critical
+  dwell_sec INTEGER NOT NULL DEFAULT 0,
+  cooldown_sec INTEGER NOT NULL DEFAULT 900,
+  scope TEXT NOT NULL DEFAULT 'fleet',    -- fleet|client|site|device
+  scope_id TEXT,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_alert_rules_enabled ON custom_alert_rules(enabled, scope, scope_id);
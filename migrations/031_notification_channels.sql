@@ -0,0 +1,40 @@
+-- Outbound notification channels (signed webhooks, Slack, Teams) for alerts and incidents.
+CREATE TABLE IF NOT EXISTS notification_subscriptions (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  channel TEXT NOT NULL,            -- webhook|slack|teams
+  url TEXT NOT NULL,
+  secret TEXT,                      -- HMAC-SHA256 signing key; NULL disables signing
+  template TEXT,                    -- webhook body template with {{placeholders}}; NULL sends the raw event
+  events TEXT,                      -- JSON array of alert.opened|incident.created; NULL matches all
+  severities TEXT,                  -- JSON array; NULL matches all
+  rules TEXT,                       -- JSON array of alert types; NULL matches all
+  client_ids TEXT,                  -- JSON array; NULL matches all
+  site_ids TEXT,                    -- JSON array; NULL matches all
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id TEXT PRIMARY KEY,
+  subscription_id TEXT NOT NULL,
+  event_key TEXT NOT NULL,          -- alert:<alert_id> | incident:<incident_id>
+  event_type TEXT NOT NULL,
+  event_json TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending|sending|delivered|failed
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT NOT NULL,
+  last_attempt_at TEXT,
+  last_status_code INTEGER,
+  last_error TEXT,
+  delivered_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_notification_deliveries_event
+  ON notification_deliveries(subscription_id, event_key);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due
+  ON notification_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_alerts_opened_at ON alerts(opened_at);
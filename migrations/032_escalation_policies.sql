@@ -0,0 +1,37 @@
+-- On-call escalation: ordered tiers of users/roles paged until an alert is acknowledged.
+CREATE TABLE IF NOT EXISTS escalation_policies (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  severities TEXT,                 -- JSON array; NULL means critical only
+  rules TEXT,                      -- JSON array of alert types; NULL matches all
+  site_ids TEXT,                   -- JSON array; NULL matches all
+  client_ids TEXT,                 -- JSON array; NULL matches all
+  tiers_json TEXT NOT NULL,        -- [{ targets: [{ kind: 'user'|'role', value }], timeoutMin }]
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS alert_escalations (
+  alert_id TEXT PRIMARY KEY,
+  policy_id TEXT NOT NULL,
+  tier INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'active', -- active|acked|resolved|exhausted|unmatched
+  next_escalation_at TEXT NOT NULL,
+  started_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_escalations_due ON alert_escalations(status, next_escalation_at);
+
+CREATE TABLE IF NOT EXISTS alert_escalation_events (
+  id TEXT PRIMARY KEY,
+  alert_id TEXT NOT NULL,
+  ts TEXT NOT NULL,
+  kind TEXT NOT NULL,              -- started|notified|acked|resolved|exhausted
+  tier INTEGER,
+  detail_json TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_escalation_events_alert ON alert_escalation_events(alert_id, ts);
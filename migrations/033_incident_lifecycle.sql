@@ -0,0 +1,23 @@
+-- Incident workflow: ownership, status, severity, post-mortem and a timeline of actions.
+ALTER TABLE incidents ADD COLUMN title TEXT;
+ALTER TABLE incidents ADD COLUMN status TEXT NOT NULL DEFAULT 'investigating'; -- investigating|mitigated|resolved
+ALTER TABLE incidents ADD COLUMN severity TEXT; -- minor|major|critical
+ALTER TABLE incidents ADD COLUMN owner TEXT;
+ALTER TABLE incidents ADD COLUMN root_cause TEXT;
+ALTER TABLE incidents ADD COLUMN postmortem TEXT;
+ALTER TABLE incidents ADD COLUMN merged_into TEXT;
+
+UPDATE incidents SET status='resolved' WHERE resolved_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS incident_events (
+  id TEXT PRIMARY KEY,
+  incident_id TEXT NOT NULL,
+  ts TEXT NOT NULL,
+  actor TEXT,
+  kind TEXT NOT NULL, -- status|severity|owner|title|comment|postmortem|alerts_linked|merged|merged_into|split|split_from
+  body TEXT,
+  meta_json TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_events_incident ON incident_events (incident_id, ts);
+CREATE INDEX IF NOT EXISTS idx_incidents_merged_into ON incidents (merged_into);
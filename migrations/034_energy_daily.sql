@@ -0,0 +1,13 @@
+-- Daily integrated energy per device (trapezoidal over telemetry powerKW / thermalKW).
+CREATE TABLE IF NOT EXISTS device_energy_daily (
+  device_id TEXT NOT NULL,
+  day TEXT NOT NULL, -- UTC YYYY-MM-DD
+  kwh_electric REAL NOT NULL DEFAULT 0,
+  kwh_thermal REAL NOT NULL DEFAULT 0,
+  covered_sec INTEGER NOT NULL DEFAULT 0,
+  samples INTEGER NOT NULL DEFAULT 0,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (device_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_energy_daily_day ON device_energy_daily (day);
@@ -0,0 +1,36 @@
+-- Electricity tariffs (flat, seasonal, time-of-use) assigned to sites or clients.
+CREATE TABLE IF NOT EXISTS tariffs (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'ZAR',
+  timezone TEXT NOT NULL DEFAULT 'Africa/Johannesburg',
+  definition_json TEXT NOT NULL, -- { seasons: [{ name, months, rate, bands: [{ name, rate, days, start, end }] }] }
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS tariff_assignments (
+  tariff_id TEXT NOT NULL REFERENCES tariffs(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('site', 'client')),
+  scope_id TEXT NOT NULL,
+  PRIMARY KEY (scope, scope_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tariff_assignments_tariff ON tariff_assignments (tariff_id);
+
+-- Daily running cost per device, priced interval-by-interval against the assigned tariff.
+CREATE TABLE IF NOT EXISTS device_cost_daily (
+  device_id TEXT NOT NULL,
+  day TEXT NOT NULL, -- UTC YYYY-MM-DD
+  tariff_id TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  cost REAL NOT NULL DEFAULT 0,
+  kwh_electric REAL NOT NULL DEFAULT 0,
+  kwh_thermal REAL NOT NULL DEFAULT 0,
+  bands_json TEXT NOT NULL DEFAULT '{}',
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (device_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_cost_daily_day ON device_cost_daily (day);
@@ -0,0 +1,40 @@
+-- Weekly setpoint/mode programs for a device or every device on a site.
+CREATE TABLE IF NOT EXISTS device_schedules (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  scope TEXT NOT NULL CHECK (scope IN ('device', 'site')),
+  scope_id TEXT NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'Africa/Johannesburg',
+  default_json TEXT NOT NULL DEFAULT '{}', -- { dhwSetC?, mode? } outside every block
+  blocks_json TEXT NOT NULL DEFAULT '[]', -- [{ days, start, end, dhwSetC?, mode? }]
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_schedules_scope ON device_schedules (scope, scope_id);
+
+-- Holiday / away overrides that replace the weekly program for a fixed window.
+CREATE TABLE IF NOT EXISTS schedule_overrides (
+  id TEXT PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('device', 'site')),
+  scope_id TEXT NOT NULL,
+  starts_at TEXT NOT NULL,
+  ends_at TEXT NOT NULL,
+  body_json TEXT NOT NULL, -- { dhwSetC?, mode? }
+  reason TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_overrides_scope ON schedule_overrides (scope, scope_id, ends_at);
+
+-- What the scheduler last asked each device for, so it only issues commands on change.
+CREATE TABLE IF NOT EXISTS device_schedule_state (
+  device_id TEXT PRIMARY KEY,
+  source TEXT NOT NULL, -- schedule:<id> | override:<id>
+  desired_json TEXT NOT NULL,
+  command_id TEXT,
+  issued_at TEXT NOT NULL
+);
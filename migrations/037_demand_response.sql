@@ -0,0 +1,33 @@
+-- Fleet demand-response events (pre-heat before a load-shedding window, then hold or reduce).
+CREATE TABLE IF NOT EXISTS dr_events (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled', -- scheduled|active|completed|cancelled
+  target_json TEXT NOT NULL, -- { siteIds, regions, clientIds }
+  strategy_json TEXT NOT NULL, -- default { preheat?, during, restore? }
+  starts_at TEXT NOT NULL,
+  ends_at TEXT NOT NULL,
+  preheat_min INTEGER NOT NULL DEFAULT 0,
+  report_json TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_dr_events_status ON dr_events (status, starts_at);
+
+-- Devices snapshotted into an event when it is created, with their per-device progress.
+CREATE TABLE IF NOT EXISTS dr_event_devices (
+  event_id TEXT NOT NULL REFERENCES dr_events(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  strategy_json TEXT, -- per-device override of the event strategy
+  phase TEXT NOT NULL DEFAULT 'pending', -- pending|preheat|event|restored
+  preheat_command_id TEXT,
+  event_command_id TEXT,
+  restore_command_id TEXT,
+  last_error TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (event_id, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dr_event_devices_device ON dr_event_devices (device_id);
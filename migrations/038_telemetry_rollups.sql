@@ -0,0 +1,13 @@
+-- Downsampled telemetry (min/max/avg/last per metric) at 1m, 15m, 1h and 1d resolution.
+CREATE TABLE IF NOT EXISTS telemetry_rollups (
+  device_id TEXT NOT NULL,
+  resolution TEXT NOT NULL, -- 1m|15m|1h|1d
+  bucket TEXT NOT NULL, -- UTC ISO start of the bucket
+  samples INTEGER NOT NULL DEFAULT 0,
+  last_ts TEXT NOT NULL,
+  stats_json TEXT NOT NULL, -- {"metric": {"min", "max", "avg", "last", "n"}}
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (device_id, resolution, bucket)
+);
+
+CREATE INDEX IF NOT EXISTS idx_telemetry_rollups_resolution_bucket ON telemetry_rollups (resolution, bucket);
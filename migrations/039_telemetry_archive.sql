@@ -0,0 +1,14 @@
+-- Manifest of raw telemetry moved to the ARCHIVE bucket, one NDJSON object per device and UTC day.
+CREATE TABLE IF NOT EXISTS telemetry_archive (
+  device_id TEXT NOT NULL,
+  day TEXT NOT NULL, -- YYYY-MM-DD (UTC)
+  object_key TEXT NOT NULL,
+  row_count INTEGER NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  first_ts TEXT NOT NULL,
+  last_ts TEXT NOT NULL,
+  archived_at TEXT NOT NULL,
+  PRIMARY KEY (device_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_telemetry_archive_day ON telemetry_archive (day);
@@ -0,0 +1,22 @@
+-- Ad-hoc fleet telemetry exports, processed in chunks (one device × time slice each) by the queue.
+CREATE TABLE IF NOT EXISTS export_jobs (
+  id TEXT PRIMARY KEY,
+  requested_by TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued', -- queued|running|assembling|done|failed|cancelled
+  filters_json TEXT NOT NULL,            -- {clientId, siteIds, deviceIds, metrics, from, to, resolution}
+  device_ids_json TEXT NOT NULL,         -- devices resolved from the filters when the job was created
+  format TEXT NOT NULL,                  -- ndjson|csv|parquet|arrow
+  notify INTEGER NOT NULL DEFAULT 1,     -- email the requester when the job finishes
+  total_chunks INTEGER NOT NULL,
+  done_chunks INTEGER NOT NULL DEFAULT 0,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  object_key TEXT,
+  size_bytes INTEGER,
+  error TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  completed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_export_jobs_status ON export_jobs (status, updated_at);
+CREATE INDEX IF NOT EXISTS idx_export_jobs_created ON export_jobs (created_at);
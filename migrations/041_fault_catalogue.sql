@@ -0,0 +1,40 @@
+-- Manufacturer/model of the heat pump behind each controller, used to pick fault catalogue entries.
+ALTER TABLE devices ADD COLUMN manufacturer TEXT;
+ALTER TABLE devices ADD COLUMN model TEXT;
+
+-- Fault code catalogue. An empty manufacturer or model matches any device; the most specific entry wins.
+CREATE TABLE IF NOT EXISTS fault_catalogue (
+  id TEXT PRIMARY KEY,
+  manufacturer TEXT NOT NULL DEFAULT '',
+  model TEXT NOT NULL DEFAULT '',
+  code TEXT NOT NULL,
+  severity TEXT NOT NULL,          -- minor|major|critical, used for the alert opened on a new occurrence
+  title TEXT NOT NULL,
+  description TEXT,
+  causes_json TEXT NOT NULL DEFAULT '[]',   -- ["Blocked strainer", ...]
+  actions_json TEXT NOT NULL DEFAULT '[]',  -- ["Clean the strainer and re-check flow", ...]
+  links_json TEXT NOT NULL DEFAULT '[]',    -- [{"label":"Service manual §4.2","url":"https://..."}]
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (manufacturer, model, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fault_catalogue_code ON fault_catalogue (code);
+
+-- One row per fault occurrence: opened when a code turns active, ended when it clears.
+CREATE TABLE IF NOT EXISTS device_fault_events (
+  id TEXT PRIMARY KEY,
+  device_id TEXT NOT NULL,
+  code TEXT NOT NULL,
+  catalogue_id TEXT,
+  severity TEXT,
+  description TEXT,                -- controller-reported description at the start of the occurrence
+  started_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL,
+  ended_at TEXT,
+  FOREIGN KEY (device_id) REFERENCES devices(device_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_fault_events_device ON device_fault_events (device_id, started_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_device_fault_events_open ON device_fault_events (device_id, code) WHERE ended_at IS NULL;
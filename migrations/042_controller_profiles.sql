@@ -0,0 +1,14 @@
+-- Controller profile registry. `id` is the profile id devices post to (`/api/ingest/:profileId`, `devices.profile_id`);
+-- a profile id with no row here is normalised with the built-in Greenbro mapping.
+CREATE TABLE IF NOT EXISTS controller_profiles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  manufacturer TEXT,               -- default heat pump manufacturer/model for devices on this profile
+  model TEXT,
+  description TEXT,
+  fields_json TEXT NOT NULL,       -- [{"metric":"supplyC","keys":["LWT"],"unit":"F","scale":0.1,"offset":0}, ...]
+  required_json TEXT NOT NULL DEFAULT '[]',  -- ["supplyC","returnC"]
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
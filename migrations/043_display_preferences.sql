@@ -0,0 +1,6 @@
+-- Per-user display units and locale ({"locale":"de-DE","temperature":"F","flow":"gpm","power":"BTUh","energy":"kBTU"}).
+-- Stored metrics stay in °C, L/s, kW and kWh; conversion happens when values are shown or exported.
+ALTER TABLE auth_users ADD COLUMN preferences_json TEXT;
+
+-- Requester's preferences captured when an export job is created, so queued chunks convert consistently.
+ALTER TABLE export_jobs ADD COLUMN display_json TEXT;
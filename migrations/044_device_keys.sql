@@ -0,0 +1,32 @@
+-- Device keys: several keys per device so a rotation can keep the previous key valid for a grace period.
+-- devices.key_hash keeps mirroring the newest key for tooling that still reads it.
+CREATE TABLE IF NOT EXISTS device_keys (
+  id TEXT PRIMARY KEY,
+  device_id TEXT NOT NULL,
+  key_hash TEXT NOT NULL,           -- SHA-256 hex of the device key
+  label TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  expires_at TEXT,                  -- set on the previous key when rotated; NULL = no expiry
+  revoked_at TEXT,
+  revoked_by TEXT,
+  last_used_at TEXT,
+  last_used_ip TEXT,
+  FOREIGN KEY (device_id) REFERENCES devices(device_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_keys_device ON device_keys (device_id, created_at);
+
+-- One row per key and client IP, refreshed at most once a minute.
+CREATE TABLE IF NOT EXISTS device_key_usage (
+  key_id TEXT NOT NULL,
+  ip TEXT NOT NULL,
+  first_seen_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL,
+  PRIMARY KEY (key_id, ip)
+);
+
+INSERT OR IGNORE INTO device_keys (id, device_id, key_hash, label, created_at)
+SELECT 'legacy-' || device_id, device_id, lower(key_hash), 'Provisioned before key tracking', created_at
+  FROM devices
+ WHERE key_hash IS NOT NULL AND key_hash <> '';
@@ -0,0 +1,3 @@
+-- Devices quarantined by the ingest rate limiter stay rejected until ops release them.
+ALTER TABLE devices ADD COLUMN quarantined_at TEXT;
+ALTER TABLE devices ADD COLUMN quarantine_reason TEXT;
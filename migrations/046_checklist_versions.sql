@@ -0,0 +1,16 @@
+-- Checklist authoring: every edit inserts a new version (checklist_id `<name>-v<version>`).
+-- Sessions keep pointing at the version they started with, so published versions are frozen.
+ALTER TABLE commissioning_checklists ADD COLUMN created_by TEXT;
+
+CREATE TRIGGER IF NOT EXISTS commissioning_checklists_no_update
+BEFORE UPDATE ON commissioning_checklists
+BEGIN
+  SELECT RAISE(ABORT, 'commissioning checklist versions are immutable');
+END;
+
+CREATE TRIGGER IF NOT EXISTS commissioning_checklists_no_delete
+BEFORE DELETE ON commissioning_checklists
+WHEN EXISTS (SELECT 1 FROM commissioning_sessions WHERE checklist_id = OLD.checklist_id)
+BEGIN
+  SELECT RAISE(ABORT, 'commissioning checklist version is used by a session');
+END;
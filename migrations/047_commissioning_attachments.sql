@@ -0,0 +1,18 @@
+-- Photos and documents captured during commissioning, for the whole session or one step.
+-- Files live in REPORTS under commissioning/<session_id>/attachments/<attachment_id>/.
+CREATE TABLE IF NOT EXISTS commissioning_attachments (
+  attachment_id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  step_id TEXT,                     -- NULL = attached to the session
+  kind TEXT NOT NULL,               -- photo|document
+  filename TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  r2_key TEXT NOT NULL,
+  thumb_key TEXT,                   -- browser-rendered thumbnail for photos
+  uploaded_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (session_id) REFERENCES commissioning_sessions(session_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_commissioning_attachments_session ON commissioning_attachments (session_id, created_at);
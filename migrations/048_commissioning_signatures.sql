@@ -0,0 +1,13 @@
+-- Customer handover signature captured when a session is finalised as passed.
+-- state_hash covers the session, steps, attachments and the signature; seal is an HMAC of it with the worker's signing secret.
+CREATE TABLE IF NOT EXISTS commissioning_signatures (
+  session_id TEXT PRIMARY KEY,
+  signer_name TEXT NOT NULL,
+  signed_at TEXT NOT NULL,
+  signature_key TEXT NOT NULL,      -- PNG of the drawn signature in REPORTS
+  signature_sha256 TEXT NOT NULL,
+  state_hash TEXT NOT NULL,
+  seal TEXT NOT NULL,
+  captured_by TEXT,
+  FOREIGN KEY (session_id) REFERENCES commissioning_sessions(session_id) ON DELETE CASCADE
+);
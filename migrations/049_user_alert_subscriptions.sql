@@ -0,0 +1,34 @@
+-- Personal alert subscriptions, emailed to the user who owns them.
+-- Delivery preferences ({"email":true,"digest":"daily","digestHour":7,"quietHours":{"start":"22:00","end":"07:00"},"timezone":"Africa/Johannesburg"}).
+ALTER TABLE auth_users ADD COLUMN notification_prefs_json TEXT;
+
+CREATE TABLE IF NOT EXISTS user_alert_subscriptions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  site_ids TEXT,                    -- JSON array; NULL matches all
+  client_ids TEXT,                  -- JSON array; NULL matches all
+  device_ids TEXT,                  -- JSON array; NULL matches all
+  rules TEXT,                       -- JSON array of alert types; NULL matches all
+  severities TEXT,                  -- JSON array; NULL matches all
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (user_id) REFERENCES auth_users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_alert_subscriptions_user ON user_alert_subscriptions(user_id);
+
+-- One row per user and event, however many of their subscriptions match; held until quiet hours or the digest end.
+CREATE TABLE IF NOT EXISTS user_notifications (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  event_key TEXT NOT NULL,          -- alert:<alert_id> | incident:<incident_id>
+  event_json TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending|sent|dropped
+  created_at TEXT NOT NULL,
+  sent_at TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_user_notifications_event ON user_notifications(user_id, event_key);
+CREATE INDEX IF NOT EXISTS idx_user_notifications_pending ON user_notifications(status, user_id);
@@ -0,0 +1,2 @@
+-- Conflict token for offline step updates: bumped on every write, so two writes in the same second still differ.
+ALTER TABLE commissioning_steps ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
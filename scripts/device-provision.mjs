@@ -10,7 +10,8 @@ Options:
   --print-sql          Emit the generated SQL instead of executing it (dry run).
 
 The script provisions or rotates the shared secret for a device and updates the
-profile/site linkage. The plaintext device key is printed to stdout.
+profile/site linkage. Existing keys are revoked immediately; use the admin API
+for rotations with a grace period. The plaintext device key is printed to stdout.
 `);
 }
 
@@ -35,8 +36,9 @@ function escapeSql(value) {
   return value.replace(/'/g, "''");
 }
 
-function buildSql({ deviceId, profileId, siteId, keyHash }) {
+function buildSql({ deviceId, profileId, siteId, keyHash, keyId }) {
   const siteClause = siteId ? `'${escapeSql(siteId)}'` : 'NULL';
+  const id = escapeSql(deviceId);
   return `
 INSERT INTO devices (device_id, profile_id, site_id, key_hash, created_at)
 VALUES ('${escapeSql(deviceId)}', '${escapeSql(profileId)}', ${siteClause}, '${keyHash}', datetime('now'))
@@ -45,6 +47,10 @@ DO UPDATE SET
   profile_id=excluded.profile_id,
   site_id=excluded.site_id,
   key_hash=excluded.key_hash;
+UPDATE device_keys SET revoked_at=datetime('now'), revoked_by='cli'
+WHERE device_id='${id}' AND revoked_at IS NULL;
+INSERT INTO device_keys (id, device_id, key_hash, label, created_by, created_at)
+VALUES ('${keyId}', '${id}', '${keyHash}', 'CLI', 'cli', datetime('now'));
 `;
 }
 
@@ -84,7 +90,7 @@ async function main() {
   const deviceKey = crypto.randomBytes(32).toString('hex');
   const keyHash = crypto.createHash('sha256').update(deviceKey).digest('hex');
 
-  const sql = buildSql({ deviceId, profileId, siteId, keyHash });
+  const sql = buildSql({ deviceId, profileId, siteId, keyHash, keyId: crypto.randomUUID() });
 
   if (printSql) {
     console.log(sql.trim());
@@ -2,33 +2,24 @@ import type { Env } from './types/env';
 import type { TelemetryPayload } from './types';
 import { evaluateBaselineDeviation } from './lib/baseline-eval';
 import { isSnoozed } from './lib/snooze';
-
-export type Severity = 'minor' | 'major' | 'critical';
-
-export type RuleName =
-  | 'overheat'
-  | 'low_flow_under_load'
-  | 'low_cop'
-  | 'short_cycling'
-  | 'no_heartbeat_warn'
-  | 'no_heartbeat_crit';
-
-export type RuleConfig = {
-  dwellSec: number;
-  cooldownSec: number;
-  suppressWhenOffline?: boolean;
-};
-
-export const RULES: Record<RuleName, RuleConfig> = {
-  overheat: { dwellSec: 120, cooldownSec: 300 },
-  low_flow_under_load: { dwellSec: 90, cooldownSec: 300, suppressWhenOffline: true },
-  low_cop: { dwellSec: 600, cooldownSec: 900, suppressWhenOffline: true },
-  short_cycling: { dwellSec: 0, cooldownSec: 900, suppressWhenOffline: false },
-  no_heartbeat_warn: { dwellSec: 0, cooldownSec: 0 },
-  no_heartbeat_crit: { dwellSec: 0, cooldownSec: 0 },
-};
-
-const isRuleName = (value: string): value is RuleName => value in RULES;
+import {
+  DEFAULT_RULES,
+  isRuleName,
+  loadAlertConfig,
+  loadAlertConfigResolver,
+  loadAlertTarget,
+  type AlertRuleTarget,
+  type EffectiveAlertConfig,
+  type EffectiveRule,
+  type RuleName,
+  type Severity,
+} from './lib/alert-rules';
+import { customAlertType, loadCustomAlertRules } from './lib/custom-alerts';
+import { faultAlertType, type FaultTransitions } from './lib/faults';
+
+export type { Severity, RuleName, RuleConfig } from './lib/alert-rules';
+
+export const RULES = DEFAULT_RULES;
 
 export type Derived = {
   deltaT: number | null;
@@ -37,47 +28,97 @@ export type Derived = {
   copQuality: 'measured' | 'estimated' | null;
 };
 
-const THRESH = {
-  overheatC: 60,
-  minFlowLps: 0.05,
-  lowCop: 2.0,
-  minPowerKWForLowCop: 0.8,
-  shortCycleWindowSec: 600,
-  shortCycleToggles: 3,
-  heartbeatWarnSec: 300,
-  heartbeatCritSec: 1200,
-};
-
 export async function evaluateTelemetryAlerts(env: Env, t: TelemetryPayload, d: Derived) {
   const deviceId = t.deviceId;
   const ts = t.ts;
   const online = t.status?.online ?? true;
   const compRunning = (t.metrics.compCurrentA ?? 0) > 0.5 || (t.metrics.powerKW ?? 0) > 0.3;
+  const target = await loadAlertTarget(env, deviceId);
+  const config = await loadAlertConfig(env, target);
+  const { thresholds } = config;
 
-  for (const [ruleName, cfg] of Object.entries(RULES) as Array<[RuleName, RuleConfig]>) {
+  for (const [ruleName, cfg] of Object.entries(config.rules) as Array<[RuleName, EffectiveRule]>) {
     if (!cfg.suppressWhenOffline) continue;
     await setSuppress(env, deviceId, ruleName, online ? false : true);
   }
 
-  if (t.metrics.supplyC != null && t.metrics.supplyC >= THRESH.overheatC) {
-    await maybeOpen(env, deviceId, ts, 'overheat', 'critical', { supplyC: t.metrics.supplyC });
+  if (t.metrics.supplyC != null && t.metrics.supplyC >= thresholds.overheatC) {
+    await maybeOpen(env, deviceId, ts, 'overheat', config.rules.overheat, { supplyC: t.metrics.supplyC });
   } else {
-    await maybeClose(env, deviceId, ts, 'overheat');
+    await maybeClose(env, deviceId, ts, 'overheat', config.rules.overheat);
   }
 
-  if (compRunning && t.metrics.flowLps != null && t.metrics.flowLps < THRESH.minFlowLps && online) {
-    await maybeOpen(env, deviceId, ts, 'low_flow_under_load', 'major', { flowLps: t.metrics.flowLps });
+  if (compRunning && t.metrics.flowLps != null && t.metrics.flowLps < thresholds.minFlowLps && online) {
+    await maybeOpen(env, deviceId, ts, 'low_flow_under_load', config.rules.low_flow_under_load, {
+      flowLps: t.metrics.flowLps,
+    });
   } else {
-    await maybeClose(env, deviceId, ts, 'low_flow_under_load');
+    await maybeClose(env, deviceId, ts, 'low_flow_under_load', config.rules.low_flow_under_load);
   }
 
-  if (d.cop != null && (t.metrics.powerKW ?? 0) >= THRESH.minPowerKWForLowCop && d.cop < THRESH.lowCop) {
-    await maybeOpen(env, deviceId, ts, 'low_cop', 'minor', { cop: d.cop });
+  if (d.cop != null && (t.metrics.powerKW ?? 0) >= thresholds.minPowerKWForLowCop && d.cop < thresholds.lowCop) {
+    await maybeOpen(env, deviceId, ts, 'low_cop', config.rules.low_cop, { cop: d.cop });
   } else {
-    await maybeClose(env, deviceId, ts, 'low_cop');
+    await maybeClose(env, deviceId, ts, 'low_cop', config.rules.low_cop);
+  }
+
+  await trackShortCycling(env, config, deviceId, ts, compRunning);
+  await evaluateCustomAlerts(env, target, t, d);
+}
+
+async function evaluateCustomAlerts(env: Env, target: AlertRuleTarget, t: TelemetryPayload, d: Derived) {
+  const rules = await loadCustomAlertRules(env, target);
+  if (rules.length === 0) return;
+
+  const ctx = { metrics: t.metrics, status: t.status, faults: t.faults, derived: d };
+  for (const rule of rules) {
+    const type = customAlertType(rule.id);
+    const cfg: EffectiveRule = {
+      dwellSec: rule.dwellSec,
+      cooldownSec: rule.cooldownSec,
+      enabled: true,
+      severity: rule.severity,
+    };
+
+    if (!rule.expr.test(ctx)) {
+      await maybeClose(env, t.deviceId, t.ts, type, cfg);
+      continue;
+    }
+
+    if (await isSnoozed(env.DB, t.deviceId, type)) {
+      await resetDwell(env, t.deviceId, type);
+      continue;
+    }
+
+    await maybeOpen(env, t.deviceId, t.ts, type, cfg, {
+      ruleId: rule.id,
+      name: rule.name,
+      expression: rule.expr.source,
+    });
   }
+}
 
-  await trackShortCycling(env, deviceId, ts, compRunning);
+// Fault alerts close as soon as the controller clears the code; there is no dwell or cooldown.
+const FAULT_CLOSE_RULE: EffectiveRule = { dwellSec: 0, cooldownSec: 0, enabled: true, severity: 'major' };
+
+/**
+ * A catalogued fault opens an alert of its catalogue severity when a new occurrence starts and
+ * closes it when the occurrence ends. Uncatalogued codes are only recorded in the fault history.
+ */
+export async function syncFaultAlerts(env: Env, deviceId: string, tsISO: string, transitions: FaultTransitions) {
+  for (const fault of transitions.started) {
+    if (!fault.severity) continue;
+    const type = faultAlertType(fault.code);
+    if (await isSnoozed(env.DB, deviceId, type)) continue;
+    await openAlertIfNeeded(env, deviceId, type, fault.severity, tsISO, {
+      code: fault.code,
+      title: fault.title ?? null,
+      description: fault.description ?? null,
+    });
+  }
+  for (const code of transitions.cleared) {
+    await maybeClose(env, deviceId, tsISO, faultAlertType(code), FAULT_CLOSE_RULE);
+  }
 }
 
 export async function evaluateBaselineAlerts(env: Env, deviceId: string, now = Date.now()) {
@@ -153,10 +194,16 @@ export async function openAlertIfNeeded(
     .run();
 }
 
-async function trackShortCycling(env: Env, deviceId: string, tsISO: string, compRunning: boolean) {
+async function trackShortCycling(
+  env: Env,
+  config: EffectiveAlertConfig,
+  deviceId: string,
+  tsISO: string,
+  compRunning: boolean,
+) {
   const rule: RuleName = 'short_cycling';
   const now = Date.parse(tsISO);
-  const windowMs = THRESH.shortCycleWindowSec * 1000;
+  const windowMs = config.thresholds.shortCycleWindowSec * 1000;
 
   const row = await env.DB.prepare('SELECT data FROM short_cycle_buf WHERE device_id=?')
     .bind(deviceId)
@@ -176,8 +223,8 @@ async function trackShortCycling(env: Env, deviceId: string, tsISO: string, comp
     .bind(deviceId, JSON.stringify(data))
     .run();
 
-  if (data.toggles.length >= THRESH.shortCycleToggles) {
-    await maybeOpen(env, deviceId, tsISO, rule, 'major', { toggles: data.toggles.length });
+  if (data.toggles.length >= config.thresholds.shortCycleToggles) {
+    await maybeOpen(env, deviceId, tsISO, rule, config.rules[rule], { toggles: data.toggles.length });
   }
 }
 
@@ -289,36 +336,39 @@ async function openOrUpdateBaselineAlert(
 
 export async function evaluateHeartbeatAlerts(env: Env, nowISO: string) {
   const now = Date.parse(nowISO);
-  const warnMs = THRESH.heartbeatWarnSec * 1000;
-  const critMs = THRESH.heartbeatCritSec * 1000;
+  const configFor = await loadAlertConfigResolver(env);
 
-  const devices = await env.DB.prepare('SELECT device_id, last_seen_at FROM devices').all<{
+  const devices = await env.DB.prepare('SELECT device_id, site_id, last_seen_at FROM devices').all<{
     device_id: string;
+    site_id: string | null;
     last_seen_at: string;
   }>();
   for (const row of devices.results ?? []) {
+    const config = configFor(row.device_id, row.site_id);
+    const warnMs = config.thresholds.heartbeatWarnSec * 1000;
+    const critMs = config.thresholds.heartbeatCritSec * 1000;
     const last = row.last_seen_at ? Date.parse(row.last_seen_at) : 0;
     const gap = now - last;
     const online = gap <= warnMs;
 
-    for (const [ruleName, cfg] of Object.entries(RULES) as Array<[RuleName, RuleConfig]>) {
+    for (const [ruleName, cfg] of Object.entries(config.rules) as Array<[RuleName, EffectiveRule]>) {
       if (!cfg.suppressWhenOffline) continue;
       await setSuppress(env, row.device_id, ruleName, online ? false : true);
     }
 
     if (gap > critMs) {
-      await maybeOpen(env, row.device_id, nowISO, 'no_heartbeat_crit', 'critical', {
+      await maybeOpen(env, row.device_id, nowISO, 'no_heartbeat_crit', config.rules.no_heartbeat_crit, {
         minutes: Math.round(gap / 60000),
       });
-      await maybeClose(env, row.device_id, nowISO, 'no_heartbeat_warn');
+      await maybeClose(env, row.device_id, nowISO, 'no_heartbeat_warn', config.rules.no_heartbeat_warn);
     } else if (gap > warnMs) {
-      await maybeOpen(env, row.device_id, nowISO, 'no_heartbeat_warn', 'major', {
+      await maybeOpen(env, row.device_id, nowISO, 'no_heartbeat_warn', config.rules.no_heartbeat_warn, {
         minutes: Math.round(gap / 60000),
       });
-      await maybeClose(env, row.device_id, nowISO, 'no_heartbeat_crit');
+      await maybeClose(env, row.device_id, nowISO, 'no_heartbeat_crit', config.rules.no_heartbeat_crit);
     } else {
-      await maybeClose(env, row.device_id, nowISO, 'no_heartbeat_warn');
-      await maybeClose(env, row.device_id, nowISO, 'no_heartbeat_crit');
+      await maybeClose(env, row.device_id, nowISO, 'no_heartbeat_warn', config.rules.no_heartbeat_warn);
+      await maybeClose(env, row.device_id, nowISO, 'no_heartbeat_crit', config.rules.no_heartbeat_crit);
     }
 
     await env.DB.prepare('UPDATE devices SET online=? WHERE device_id=?')
@@ -331,13 +381,18 @@ async function maybeOpen(
   env: Env,
   deviceId: string,
   tsISO: string,
-  rule: RuleName,
-  severity: Severity,
+  rule: string,
+  cfg: EffectiveRule,
   meta: Record<string, unknown>,
 ) {
-  const cfg = RULES[rule];
   const now = Date.parse(tsISO);
 
+  // A disabled rule behaves as if the condition cleared so open alerts close out.
+  if (!cfg.enabled) {
+    await maybeClose(env, deviceId, tsISO, rule, cfg);
+    return;
+  }
+
   if (await isMaintenanceActive(env, deviceId, tsISO)) {
     await resetDwell(env, deviceId, rule);
     return;
@@ -375,11 +430,11 @@ async function maybeOpen(
     `INSERT INTO alerts (alert_id, device_id, type, severity, state, opened_at, meta_json)
      VALUES (?, ?, ?, ?, 'open', ?, ?)`,
   )
-    .bind(alertId, deviceId, rule, severity, tsISO, JSON.stringify(meta))
+    .bind(alertId, deviceId, rule, cfg.severity, tsISO, JSON.stringify(meta))
     .run();
 }
 
-async function maybeClose(env: Env, deviceId: string, tsISO: string, rule: RuleName) {
+async function maybeClose(env: Env, deviceId: string, tsISO: string, rule: string, cfg: EffectiveRule) {
   const open = await env.DB.prepare(
     "SELECT alert_id, opened_at FROM alerts WHERE device_id=? AND type=? AND state IN ('open','ack') ORDER BY opened_at DESC LIMIT 1",
   )
@@ -398,7 +453,7 @@ async function maybeClose(env: Env, deviceId: string, tsISO: string, rule: RuleN
     .bind(tsISO, open.alert_id)
     .run();
 
-  const cooldownUntil = new Date(Date.parse(tsISO) + RULES[rule].cooldownSec * 1000).toISOString();
+  const cooldownUntil = new Date(Date.parse(tsISO) + cfg.cooldownSec * 1000).toISOString();
   const st = await loadState(env, deviceId, rule);
   await saveState(env, deviceId, rule, {
     ...st,
@@ -19,6 +19,7 @@ import {
   evaluateTelemetryAlerts,
   evaluateHeartbeatAlerts,
   evaluateBaselineAlerts,
+  openAlertIfNeeded,
   type Derived,
 } from './alerts';
 import { BRAND, brandCss, brandEmail, brandLogoSvg, brandLogoWhiteSvg, brandLogoMonoSvg } from './brand';
@@ -55,17 +56,226 @@ import {
   sampleClientMonthlyReportPayload,
 } from './report-html';
 import { handleQueueBatch as baseQueueHandler } from './queue';
-import { sweepIncidents } from './incidents';
+import {
+  INCIDENT_COLUMNS,
+  linkAlertsToIncident,
+  loadIncident,
+  loadIncidentTimeline,
+  mergeIncidents,
+  parseIdListInput,
+  parseIncidentTextInput,
+  parseIncidentUpdateInput,
+  recordIncidentEvent,
+  splitIncident,
+  sweepIncidents,
+  updateIncident,
+  type IncidentRow,
+} from './incidents';
+import {
+  parseEscalationPolicyInput,
+  parseTiers,
+  runEscalations,
+  stopEscalation,
+  type EscalationPolicyRow,
+} from './escalations';
+import {
+  describeSetting,
+  findNextChange,
+  findScheduleConflicts,
+  loadDeviceSchedules,
+  parseOverrideRow,
+  parseScheduleInput,
+  parseScheduleOverrideInput,
+  parseScheduleRow,
+  resolveScheduleAt,
+  runSchedules,
+  type DeviceScheduleRow,
+  type ScheduleInput,
+  type ScheduleDeps,
+  type ScheduleOverrideRow,
+} from './schedules';
+import {
+  computeDemandResponseReport,
+  DR_EVENT_COLUMNS,
+  eventWindow,
+  loadDemandResponseHolds,
+  MAX_DR_EVENT_DEVICES,
+  parseDrEventInput,
+  resolveDrTargetDevices,
+  runDemandResponse,
+  type DrEventRow,
+  type DrReport,
+} from './demand-response';
+import {
+  parseNotificationSubscriptionInput,
+  runNotificationJobs,
+  sendNotification,
+  SAMPLE_NOTIFICATION_EVENT,
+  type NotificationSubscriptionRow,
+} from './notifications';
+import {
+  parseNotificationPreferences,
+  parseUserSubscriptionInput,
+  readNotificationPreferences,
+  runUserNotifications,
+  scopeSubscriptionClients,
+  type UserAlertSubscriptionRow,
+} from './user-notifications';
 import { withSecurityHeaders } from './security';
 import { preflight } from './utils/preflight';
 import { getVersion } from './utils/version';
 import { validateHeartbeat, validateIngest } from './lib/schemas';
 import { getLatestTelemetry, computeDeltaT, getWindowSample } from './lib/commissioning';
-import { emailCommissioning, emailCommissioningWithZip } from './lib/email';
+import { emailCommissioning, emailCommissioningWithZip, getSignedR2Url } from './lib/email';
 import { audit } from './lib/audit';
+import {
+  defaultAlertConfig,
+  isRuleName,
+  parseAlertRuleInput,
+  parseThresholds,
+  ruleAppliesTo,
+  type AlertRuleRow,
+} from './lib/alert-rules';
+import {
+  closeCustomRuleAlerts,
+  customAlertType,
+  parseCustomAlertRuleInput,
+  simulateCustomAlert,
+  telemetryRowToSample,
+  type CustomAlertRuleRow,
+  type TelemetryRow,
+} from './lib/custom-alerts';
+import { compileExpression } from './lib/expr';
 import { pruneR2Prefix } from './lib/prune';
 import { compareToIqr } from './lib/baseline';
 import { getSetting, setSetting } from './lib/settings';
+import {
+  loadEnergyPeriods,
+  loadEnergySettings,
+  parseEnergyRange,
+  rollupEnergyDaily,
+  summarizeEnergy,
+  type EnergySummary,
+} from './lib/energy';
+import {
+  encodeArrowFile,
+  encodeParquet,
+  inferColumns,
+  MAX_COLUMNAR_ROWS,
+  parseNdjsonRecords,
+  type ColumnarRecord,
+  type ColumnSpec,
+} from './lib/columnar';
+import {
+  loadDeviceModel,
+  loadFaultCatalogue,
+  matchFaultEntry,
+  parseFaultCatalogueInput,
+  summarizeFaultHistory,
+  toFaultCatalogueEntry,
+  type FaultCatalogueRow,
+  type FaultEventRow,
+} from './lib/faults';
+import {
+  countExportChunks,
+  exportWindow,
+  loadExportJob,
+  MAX_EXPORT_CHUNKS,
+  MAX_EXPORT_DEVICES,
+  parseExportJobInput,
+  processExportJob,
+  resolveExportDevices,
+  sweepExportJobs,
+  type ExportDeps,
+  type ExportJobInput,
+  type ExportJobRow,
+} from './exports';
+import {
+  canIssueCommand,
+  describeCommandKinds,
+  parseCommandInput,
+  type CommandBody,
+  type WriteLimits,
+} from './lib/commands';
+import {
+  loadDeviceSeries,
+  loadSeriesAtResolution,
+  pickSeriesResolution,
+  refreshTelemetryRollups,
+  seriesStepMs,
+  type SeriesPoint,
+  type SeriesResolution,
+} from './lib/rollups';
+import {
+  BUILTIN_PROFILE,
+  CONTROLLER_PROFILE_COLUMNS,
+  isValidProfileId,
+  loadControllerProfile,
+  normalizeMetrics,
+  parseControllerProfileInput,
+  toControllerProfile,
+  type ControllerProfileRow,
+} from './lib/profiles';
+import { buildComparison, MAX_REFERENCE_DEVICES, parseCompareInput } from './lib/series-compare';
+import {
+  archiveTelemetry,
+  createArchiveReader,
+  loadTelemetryRetention,
+  type ArchiveManifestEntry,
+} from './lib/telemetry-archive';
+import { loadCostSummary, parseTariffInput, parseTariffRow, rollupCostDaily, type TariffInput, type TariffRow } from './lib/tariffs';
+import { loadDisplayPreferences, parseDisplayPreferences } from './lib/units';
+import {
+  DEVICE_KEY_COLUMNS,
+  MAX_PROVISIONING_ROWS,
+  MAX_ROTATION_GRACE_HOURS,
+  findExistingDevices,
+  isValidBatchId,
+  isValidDeviceId,
+  parseGraceHours,
+  parseProvisioningCsv,
+  provisionDevices,
+  rotateDeviceKey,
+  toDeviceKey,
+  verifyDeviceKey,
+  type DeviceKeyRow,
+} from './lib/device-keys';
+import {
+  checklistId,
+  evaluateReading,
+  evaluateWindowSample,
+  hasTypedSteps,
+  isStepState,
+  parseChecklistInput,
+  readChecklistSteps,
+  type AutoThresholds,
+  type ChecklistStep,
+} from './lib/checklists';
+import {
+  attachmentKeys,
+  loadSessionAttachments,
+  MAX_FILES_PER_UPLOAD,
+  MAX_SESSION_ATTACHMENT_BYTES,
+  MAX_SESSION_ATTACHMENTS,
+  thumbnailContentType,
+  validateAttachment,
+  type AttachmentRow,
+  type ValidatedAttachment,
+} from './lib/attachments';
+import {
+  loadSignature,
+  parseSignatureInput,
+  recordSignature,
+  verifySignature,
+  type SignatureInput,
+} from './lib/signatures';
+import {
+  loadIngestRateLimits,
+  PAYLOAD_RETRY_AFTER_S,
+  type RateLimitDecision,
+  type RateLimitedRoute,
+  type RateLimitRequest,
+} from './lib/rate-limit';
 import argon2Module from 'argon2-wasm-esm/lib/argon2.js';
 const { ArgonType, hash: argon2Hash } = argon2Module;
 const DEV_BYPASS_AUTH: AccessContext = { sub: 'dev-bypass', roles: ['admin', 'ops'], clientIds: [] };
@@ -125,7 +335,7 @@ function parseWriteLimit(value: string, key: 'WRITE_MIN_C' | 'WRITE_MAX_C'): num
   return parsed;
 }
 
-function getWriteLimits(env: Env): { minC: number; maxC: number } {
+function getWriteLimits(env: Env): WriteLimits {
   return {
     minC: parseWriteLimit(env.WRITE_MIN_C, 'WRITE_MIN_C'),
     maxC: parseWriteLimit(env.WRITE_MAX_C, 'WRITE_MAX_C'),
@@ -1257,6 +1467,15 @@ function formatCsvValue(value: unknown): string {
   return /[",\r\n]/.test(str) ? `"${escaped}"` : escaped;
 }
 
+/** Archive download formats that are encoded from the whole NDJSON object at once. */
+const COLUMNAR_EXPORTS: Record<
+  string,
+  { contentType: string; encode: (columns: ColumnSpec[], records: ColumnarRecord[]) => Uint8Array<ArrayBuffer> } | undefined
+> = {
+  parquet: { contentType: 'application/vnd.apache.parquet', encode: encodeParquet },
+  arrow: { contentType: 'application/vnd.apache.arrow.file', encode: encodeArrowFile },
+};
+
 function ndjsonToCsvStream(
   stream: ReadableStream<Uint8Array>,
   columns?: string[],
@@ -1420,6 +1639,37 @@ async function fastBurnMonitor(env: Env): Promise<FastBurnResult> {
   return { snapshot, action };
 }
 
+function telemetryArchiveBucket(env: Env): R2Bucket | undefined {
+  return env.ARCHIVE ?? env.REPORTS;
+}
+
+/** Signed export links stay valid for a week; the files themselves are pruned after 30 days. */
+const EXPORT_LINK_TTL_S = 7 * 24 * 60 * 60;
+
+function exportDeps(env: Env): ExportDeps {
+  const readArchive = createArchiveReader(env.DB, telemetryArchiveBucket(env));
+  const queue = env.INGEST_Q;
+  return {
+    bucket: env.REPORTS,
+    loadSeries: async (deviceId, resolution, fromMs, toMs) =>
+      (await loadSeriesAtResolution(env.DB, deviceId, resolution, fromMs, toMs, readArchive)).points,
+    enqueue: queue
+      ? async (jobId) => {
+          await queue.send({ type: 'export', jobId });
+        }
+      : undefined,
+    notify: async (job, url) => {
+      const filters = JSON.parse(job.filters_json) as ExportJobInput;
+      const summary = `${filters.metrics.join(', ')} at ${filters.resolution}, ${filters.from} to ${filters.to}`;
+      const text = url
+        ? `Your telemetry export (${summary}) is ready: ${job.row_count} rows.\n${url}\nThe link expires in 7 days.`
+        : `Your telemetry export (${summary}) failed: ${job.error ?? 'unknown error'}`;
+      await sendEmail(env, job.requested_by, url ? 'Telemetry export ready' : 'Telemetry export failed', text);
+    },
+    signUrl: (key) => getSignedR2Url(env.REPORTS, key, EXPORT_LINK_TTL_S, { baseUrl: env.REPORTS_PUBLIC_BASE_URL }),
+  };
+}
+
 async function pruneStaged(env: Env, days = 14) {
   const bucket: any = (env as any).ARCHIVE || (env as any).REPORTS;
   if (!bucket?.list) return;
@@ -1496,7 +1746,7 @@ function bad(c: any, errors: unknown) {
   return c.json({ ok: false, errors }, 400);
 }
 
-type DeviceCommandBody = { dhwSetC?: number; mode?: string };
+type DeviceCommandBody = CommandBody;
 
 const COMMAND_TTL_MS = 30 * 60 * 1000;
 const MAX_COMMANDS_PER_POLL = 5;
@@ -1510,6 +1760,98 @@ async function getDeviceContext(DB: D1Database, deviceId: string): Promise<{ pro
   return DB.prepare('SELECT profile_id FROM devices WHERE device_id=?').bind(deviceId).first();
 }
 
+/**
+ * Charges a controller request to its device bucket and, when the profile is known, to the profile-wide bucket
+ * held by the DeviceState Durable Object. Returns the response to send when the request is refused. The limiter
+ * fails open: an unreachable Durable Object must not drop telemetry.
+ */
+async function enforceControllerRateLimit(
+  env: Env,
+  deviceId: string,
+  route: RateLimitedRoute,
+  options: { profileId?: string | null } = {},
+): Promise<Response | null> {
+  const limits = await loadIngestRateLimits(env.DB);
+  const checks: Array<{ name: string; request: RateLimitRequest }> = [
+    {
+      name: deviceId,
+      request: { bucket: route, limit: limits.device[route], quarantine: limits.quarantine },
+    },
+  ];
+  if (options.profileId) {
+    checks.push({
+      name: `profile:${options.profileId}`,
+      request: { bucket: 'profile', limit: limits.profiles[options.profileId] ?? limits.profile },
+    });
+  }
+
+  for (const check of checks) {
+    let res: Response;
+    try {
+      const stub = env.DeviceState.get(env.DeviceState.idFromName(check.name));
+      res = await stub.fetch('https://do/rate-limit', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(check.request),
+      });
+    } catch (error) {
+      console.warn('rate limit check failed', error);
+      continue;
+    }
+    if (res.status !== 429 && res.status !== 403) {
+      continue;
+    }
+    const decision = (await res.json().catch(() => null)) as RateLimitDecision | null;
+    if (!decision || decision.allowed) {
+      continue;
+    }
+    if (decision.quarantinedNow) {
+      await quarantineDevice(env, deviceId, decision.reason, decision.quarantinedAt ?? new Date().toISOString());
+    }
+    if (decision.reason === 'quarantined') {
+      return new Response('Device quarantined', { status: 403 });
+    }
+    const retryAfter = decision.retryAfter ?? 60;
+    return new Response(JSON.stringify({ error: decision.reason, retry_after: retryAfter }), {
+      status: 429,
+      headers: { 'content-type': 'application/json', 'Retry-After': String(retryAfter) },
+    });
+  }
+  return null;
+}
+
+/**
+ * Refuses a controller body over `maxPayloadBytes` before it is parsed or the device key is checked, going by
+ * Content-Length. A body sent without a length is read and measured; Hono keeps it for the route's own parse.
+ * These refusals happen before the device is known, so they do not count towards quarantine.
+ */
+async function rejectOversizedPayload(c: Context<Ctx>): Promise<Response | null> {
+  const { maxPayloadBytes } = await loadIngestRateLimits(c.env.DB);
+  const declared = c.req.header('content-length');
+  const bytes =
+    declared != null && /^\d+$/.test(declared)
+      ? Number(declared)
+      : new TextEncoder().encode(await c.req.text().catch(() => '')).byteLength;
+  if (bytes <= maxPayloadBytes) {
+    return null;
+  }
+  return c.json({ error: 'payload_too_large', retry_after: PAYLOAD_RETRY_AFTER_S }, 429, {
+    'Retry-After': String(PAYLOAD_RETRY_AFTER_S),
+  });
+}
+
+async function quarantineDevice(env: Env, deviceId: string, reason: string, tsISO: string): Promise<void> {
+  try {
+    await env.DB.prepare('UPDATE devices SET quarantined_at=?, quarantine_reason=? WHERE device_id=?')
+      .bind(tsISO, reason, deviceId)
+      .run();
+    await openAlertIfNeeded(env, deviceId, 'device_quarantined', 'critical', tsISO, { reason });
+  } catch (error) {
+    console.error('device quarantine failed', error);
+  }
+  await notifyOps(env, `Device ${deviceId} quarantined after repeated ${reason.replace(/_/g, ' ')} rejections`);
+}
+
 async function insertDeviceCommand(
   DB: D1Database,
   record: {
@@ -1637,31 +1979,47 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-async function dispatchDeviceCommand(
-  c: Context<Ctx>,
+type IssuedDeviceCommand = {
+  commandId: string;
+  issuedAt: string;
+  expiresAt: string;
+  desired: unknown;
+  clamped: unknown;
+};
+
+/**
+ * Sends a command through the audit and state Durable Objects (which apply write limits) and
+ * queues it for the device. Shared by operator writes and the scheduler.
+ */
+async function issueDeviceCommand(
+  env: Env,
   deviceId: string,
   actor: string,
   commandBody: DeviceCommandBody,
-): Promise<Response> {
-  const deviceContext = await getDeviceContext(c.env.DB, deviceId);
+  options: { notAfter?: Date } = {},
+): Promise<{ ok: true; command: IssuedDeviceCommand } | { ok: false; response: Response }> {
+  const deviceContext = await getDeviceContext(env.DB, deviceId);
   if (!deviceContext) {
-    return c.text('Device not registered', 404);
+    return { ok: false, response: new Response('Device not registered', { status: 404 }) };
   }
 
   const commandId = generateCommandId();
-  const expiresAt = new Date(Date.now() + COMMAND_TTL_MS).toISOString();
+  const ttlMs = options.notAfter
+    ? Math.min(COMMAND_TTL_MS, Math.max(options.notAfter.getTime() - Date.now(), 60_000))
+    : COMMAND_TTL_MS;
+  const expiresAt = new Date(Date.now() + ttlMs).toISOString();
   const envelope = {
     commandId,
     expiresAt,
     deviceId,
     actor,
     command: commandBody,
-    limits: getWriteLimits(c.env),
+    limits: getWriteLimits(env),
   };
   const payload = JSON.stringify(envelope);
 
-  const doId = c.env.DEVICE_DO.idFromName(deviceId);
-  const auditStub = c.env.DEVICE_DO.get(doId);
+  const doId = env.DEVICE_DO.idFromName(deviceId);
+  const auditStub = env.DEVICE_DO.get(doId);
   const auditRes = await auditStub.fetch(
     new Request(`https://do/devices/${deviceId}/command`, {
       method: 'POST',
@@ -1674,11 +2032,11 @@ async function dispatchDeviceCommand(
   );
 
   if (!auditRes.ok) {
-    return new Response(auditRes.body, { status: auditRes.status, headers: auditRes.headers });
+    return { ok: false, response: new Response(auditRes.body, { status: auditRes.status, headers: auditRes.headers }) };
   }
 
-  const stateId = c.env.DeviceState.idFromName(deviceId);
-  const stateStub = c.env.DeviceState.get(stateId);
+  const stateId = env.DeviceState.idFromName(deviceId);
+  const stateStub = env.DeviceState.get(stateId);
   const stateRes = await stateStub.fetch('https://do/command', {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
@@ -1686,12 +2044,12 @@ async function dispatchDeviceCommand(
   });
 
   if (!stateRes.ok) {
-    return new Response(stateRes.body, { status: stateRes.status, headers: stateRes.headers });
+    return { ok: false, response: new Response(stateRes.body, { status: stateRes.status, headers: stateRes.headers }) };
   }
 
   const stateJson = await stateRes.json().catch(() => null);
   if (!stateJson || typeof stateJson !== 'object') {
-    return c.text('Command dispatch failed', 500);
+    return { ok: false, response: new Response('Command dispatch failed', { status: 500 }) };
   }
 
   const issuedAt =
@@ -1701,7 +2059,7 @@ async function dispatchDeviceCommand(
   const writeId =
     typeof (stateJson as any).writeId === 'string' ? ((stateJson as any).writeId as string) : commandId;
 
-  await insertDeviceCommand(c.env.DB, {
+  await insertDeviceCommand(env.DB, {
     commandId,
     deviceId,
     profileId: deviceContext.profile_id ?? null,
@@ -1712,7 +2070,20 @@ async function dispatchDeviceCommand(
     writeId,
   });
 
-  return c.json({ ok: true, commandId, issuedAt, expiresAt, desired, clamped });
+  return { ok: true, command: { commandId, issuedAt, expiresAt, desired, clamped } };
+}
+
+async function dispatchDeviceCommand(
+  c: Context<Ctx>,
+  deviceId: string,
+  actor: string,
+  commandBody: DeviceCommandBody,
+): Promise<Response> {
+  const result = await issueDeviceCommand(c.env, deviceId, actor, commandBody);
+  if (!result.ok) {
+    return result.response;
+  }
+  return c.json({ ok: true, ...result.command });
 }
 
 type Ctx = {
@@ -2243,13 +2614,15 @@ app.get('/api/devices/:id/latest', async (c) => {
     online: row.online == null ? undefined : row.online === 1,
   };
 
-  const faults: Array<{ code: string; description?: string; active: boolean }> = [];
+  const faults: NonNullable<TelemetryPayload['faults']> = [];
   if (typeof row.faults_json === 'string' && row.faults_json.length > 0) {
     try {
       const parsed = JSON.parse(row.faults_json) as Array<{
         code?: string;
         description?: string;
         active?: boolean;
+        severity?: 'minor' | 'major' | 'critical';
+        title?: string;
       }>;
       for (const entry of parsed) {
         if (!entry || typeof entry.code !== 'string') {
@@ -2262,7 +2635,13 @@ app.get('/api/devices/:id/latest', async (c) => {
         const description =
           typeof entry.description === 'string' && entry.description.length > 0 ? entry.description : undefined;
         const active = typeof entry.active === 'boolean' ? entry.active : true;
-        faults.push({ code, description, active });
+        faults.push({
+          code,
+          description,
+          active,
+          ...(entry.severity ? { severity: entry.severity } : {}),
+          ...(typeof entry.title === 'string' ? { title: entry.title } : {}),
+        });
       }
     } catch (error) {
       console.warn('Failed to parse faults_json for latest_state', error);
@@ -2297,6 +2676,39 @@ app.get('/api/devices/:id/latest', async (c) => {
   });
 });
 
+const SERIES_RANGES_MS: Record<string, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000,
+  '1y': 365 * 24 * 60 * 60 * 1000,
+};
+const MAX_SERIES_SPAN_MS = 5 * SERIES_RANGES_MS['1y']!;
+
+/** `from`/`to` (ISO or epoch ms) win over the `range` preset; `to` defaults to now. */
+function parseSeriesWindow(
+  fromParam: string | undefined,
+  toParam: string | undefined,
+  rangeParam: string | undefined,
+  now: number,
+): { ok: true; fromMs: number; toMs: number } | { ok: false; errors: string[] } {
+  const parseInstant = (value: string) => (/^\d+$/.test(value) ? Number(value) : Date.parse(value));
+  const errors: string[] = [];
+  const toMs = toParam ? parseInstant(toParam) : now;
+  if (Number.isNaN(toMs)) errors.push('to must be an ISO timestamp or epoch milliseconds');
+  let fromMs: number;
+  if (fromParam) {
+    fromMs = parseInstant(fromParam);
+    if (Number.isNaN(fromMs)) errors.push('from must be an ISO timestamp or epoch milliseconds');
+  } else {
+    const span = SERIES_RANGES_MS[(rangeParam ?? '24h').toLowerCase()] ?? SERIES_RANGES_MS['24h']!;
+    fromMs = toMs - span;
+  }
+  if (errors.length === 0 && fromMs >= toMs) errors.push('from must be before to');
+  if (errors.length === 0 && toMs - fromMs > MAX_SERIES_SPAN_MS) errors.push('window may span at most 5 years');
+  return errors.length ? { ok: false, errors } : { ok: true, fromMs, toMs };
+}
+
 app.get('/api/devices/:id/series', async (c) => {
   const { DB } = c.env;
   const auth = c.get('auth');
@@ -2308,87 +2720,145 @@ app.get('/api/devices/:id/series', async (c) => {
     return c.text('Forbidden', 403);
   }
 
-  const rangeParam = (c.req.query('range') ?? '24h').toLowerCase();
-  const rangeConfig = {
-    '24h': { window: "-24 hours", limit: 1440 },
-    '7d': { window: "-7 days", limit: 10080 },
-  } as const;
-  type RangeKey = keyof typeof rangeConfig;
-  const rangeKey = (rangeParam in rangeConfig ? (rangeParam as RangeKey) : '24h') as RangeKey;
-  const selectedRange = rangeConfig[rangeKey];
-  const rangeWindow = selectedRange.window;
-  const rangeLimit = selectedRange.limit;
+  const seriesWindow = parseSeriesWindow(c.req.query('from'), c.req.query('to'), c.req.query('range'), Date.now());
+  if (!seriesWindow.ok) {
+    return bad(c, seriesWindow.errors);
+  }
+  const series = await loadDeviceSeries(
+    DB,
+    deviceId,
+    seriesWindow.fromMs,
+    seriesWindow.toMs,
+    createArchiveReader(DB, telemetryArchiveBucket(c.env)),
+  );
+  c.header('X-Series-Resolution', series.resolution);
+  if (series.truncated) {
+    c.header('X-Series-Truncated', '1');
+  }
+  return c.json(series.points);
+});
 
-  const rows = await DB.prepare(
-    `SELECT ts, metrics_json, deltaT, thermalKW, cop, flowLps, compCurrentA, powerKW
-       FROM telemetry
-      WHERE device_id=? AND ts >= datetime('now', ?)
-      ORDER BY ts DESC
-      LIMIT ?`,
-  )
-    .bind(deviceId, rangeWindow, rangeLimit)
-    .all<{
-      ts: string;
-      metrics_json: string | null;
-      deltaT: number | null;
-      thermalKW: number | null;
-      cop: number | null;
-      flowLps: number | null;
-      compCurrentA: number | null;
-      powerKW: number | null;
-    }>();
+app.get('/api/series/batch', async (c) => {
+  const { DB } = c.env;
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  const parsed = parseCompareInput({
+    devices: c.req.query('devices'),
+    metric: c.req.query('metric'),
+    mode: c.req.query('mode'),
+    normalize: c.req.query('normalize'),
+  });
+  const seriesWindow = parseSeriesWindow(c.req.query('from'), c.req.query('to'), c.req.query('range'), Date.now());
+  if (!parsed.ok || !seriesWindow.ok) {
+    return bad(c, [...(parsed.ok ? [] : parsed.errors), ...(seriesWindow.ok ? [] : seriesWindow.errors)]);
+  }
+  const { deviceIds, metric, mode, normalize } = parsed.value;
+  for (const deviceId of deviceIds) {
+    if (!(await canAccessDevice(DB, auth, deviceId))) {
+      return c.text('Forbidden', 403);
+    }
+  }
+  const placeholders = deviceIds.map(() => '?').join(',');
+  const rows = await DB.prepare(`SELECT device_id, site_id FROM devices WHERE device_id IN (${placeholders})`)
+    .bind(...deviceIds)
+    .all<{ device_id: string; site_id: string | null }>();
+  const siteByDevice = new Map((rows.results ?? []).map((row) => [row.device_id, row.site_id]));
+  const missing = deviceIds.filter((id) => !siteByDevice.has(id));
+  if (missing.length > 0) {
+    return c.json({ ok: false, errors: missing.map((id) => `unknown device: ${id}`) }, 404);
+  }
 
-  const points = (rows.results ?? [])
-    .reverse()
-    .map((row) => {
-      const metrics: Record<string, number | null> = {};
-      if (row.metrics_json) {
-        try {
-          const parsed = JSON.parse(row.metrics_json) as Record<string, unknown>;
-          for (const [key, value] of Object.entries(parsed)) {
-            if (typeof value === 'number') {
-              metrics[key] = Number.isFinite(value) ? value : null;
-            } else if (value == null) {
-              metrics[key] = null;
-            }
-          }
-        } catch (error) {
-          console.warn('Failed to parse metrics_json', error);
-        }
-      }
+  const referenceBySite = new Map<string, string[]>();
+  if (mode === 'difference') {
+    for (const siteId of new Set(Array.from(siteByDevice.values()).filter((id): id is string => Boolean(id)))) {
+      const siteDevices = await DB.prepare('SELECT device_id FROM devices WHERE site_id=? ORDER BY device_id LIMIT ?')
+        .bind(siteId, MAX_REFERENCE_DEVICES)
+        .all<{ device_id: string }>();
+      referenceBySite.set(siteId, (siteDevices.results ?? []).map((row) => row.device_id));
+    }
+  }
 
-      const setMetric = (key: string, value: unknown) => {
-        if (metrics[key] != null && typeof metrics[key] === 'number') {
-          return;
-        }
-        if (value == null) {
-          if (!(key in metrics)) {
-            metrics[key] = null;
-          }
-          return;
-        }
-        const num = typeof value === 'number' ? value : Number(value);
-        if (Number.isFinite(num)) {
-          metrics[key] = num;
-        }
-      };
+  const series = new Map<string, SeriesPoint[]>();
+  const readArchive = createArchiveReader(DB, telemetryArchiveBucket(c.env));
+  let resolution: SeriesResolution = pickSeriesResolution(seriesWindow.fromMs, seriesWindow.toMs);
+  for (const deviceId of new Set([...deviceIds, ...Array.from(referenceBySite.values()).flat()])) {
+    const loaded = await loadDeviceSeries(DB, deviceId, seriesWindow.fromMs, seriesWindow.toMs, readArchive);
+    series.set(deviceId, loaded.points);
+    resolution = loaded.resolution;
+  }
 
-      setMetric('delta_t', row.deltaT);
-      setMetric('deltaT', row.deltaT);
-      setMetric('cop', row.cop);
-      setMetric('thermal_kw', row.thermalKW);
-      setMetric('thermalKW', row.thermalKW);
-      setMetric('flow_lps', row.flowLps);
-      setMetric('flowLps', row.flowLps);
-      setMetric('compressor_current', row.compCurrentA);
-      setMetric('compCurrentA', row.compCurrentA);
-      setMetric('power_kw', row.powerKW);
-      setMetric('powerKW', row.powerKW);
-
-      return { timestamp: row.ts, metrics };
-    });
+  const comparison = buildComparison({
+    devices: deviceIds.map((deviceId) => ({ deviceId, siteId: siteByDevice.get(deviceId) ?? null })),
+    series,
+    referenceBySite,
+    metric,
+    mode,
+    normalize,
+    stepMs: seriesStepMs(resolution),
+  });
+  return c.json({
+    metric,
+    mode,
+    normalize,
+    resolution,
+    from: new Date(seriesWindow.fromMs).toISOString(),
+    to: new Date(seriesWindow.toMs).toISOString(),
+    ...comparison,
+  });
+});
 
-  return c.json(points);
+// Fault occurrences overlapping the window plus per-code frequency/duration and catalogue guidance.
+app.get('/api/devices/:id/faults', async (c) => {
+  const { DB } = c.env;
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  const id = c.req.param('id');
+  if (!(await canAccessDevice(DB, auth, id))) {
+    return c.text('Forbidden', 403);
+  }
+  const window = parseSeriesWindow(c.req.query('from'), c.req.query('to'), c.req.query('range') ?? '30d', Date.now());
+  if (!window.ok) {
+    return bad(c, window.errors);
+  }
+  const fromIso = new Date(window.fromMs).toISOString();
+  const toIso = new Date(window.toMs).toISOString();
+  const events = await DB.prepare(
+    `SELECT id, device_id, code, catalogue_id, severity, description, started_at, last_seen_at, ended_at
+       FROM device_fault_events
+      WHERE device_id=? AND started_at < ? AND (ended_at IS NULL OR ended_at >= ?)
+      ORDER BY started_at DESC
+      LIMIT 1000`,
+  )
+    .bind(id, toIso, fromIso)
+    .all<FaultEventRow>();
+  const rows = events.results ?? [];
+  const { manufacturer, model } = await loadDeviceModel(DB, id);
+  const catalogue = await loadFaultCatalogue(DB, Array.from(new Set(rows.map((row) => row.code))));
+  const guidance = Array.from(new Set(rows.map((row) => row.code)))
+    .map((code) => matchFaultEntry(catalogue, manufacturer, model, code))
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+  return c.json({
+    deviceId: id,
+    manufacturer,
+    model,
+    from: fromIso,
+    to: toIso,
+    stats: summarizeFaultHistory(rows, window.fromMs, window.toMs, catalogue),
+    events: rows.map((row) => ({
+      id: row.id,
+      code: row.code,
+      severity: row.severity,
+      description: row.description,
+      startedAt: row.started_at,
+      lastSeenAt: row.last_seen_at,
+      endedAt: row.ended_at,
+    })),
+    catalogue: guidance,
+  });
 });
 
 app.get('/api/devices/:id/commissioning/window', async (c) => {
@@ -2840,10 +3310,16 @@ app.post('/api/devices/:id/write', async (c) => {
   requireRole(auth, ['admin', 'ops']);
 
   const deviceId = c.req.param('id');
-  const body = await c.req.json<DeviceCommandBody>();
+  const parsed = parseCommandInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  if (!canIssueCommand(auth.roles, parsed.spec)) {
+    return c.text('Forbidden', 403);
+  }
   const actor = auth.email ?? auth.sub ?? 'operator';
 
-  return dispatchDeviceCommand(c, deviceId, actor, body);
+  return dispatchDeviceCommand(c, deviceId, actor, parsed.value);
 });
 
 app.post('/api/devices/:id/command', async (c) => {
@@ -2860,564 +3336,563 @@ app.post('/api/devices/:id/command', async (c) => {
 
   const deviceId = c.req.param('id');
   const raw = await c.req.text();
-  let commandBody: DeviceCommandBody = {};
+  let commandBody: unknown = {};
   if (raw.trim().length > 0) {
     try {
-      commandBody = JSON.parse(raw) as DeviceCommandBody;
+      commandBody = JSON.parse(raw);
     } catch {
       return c.text('Invalid JSON body', 400);
     }
   }
+  const parsed = parseCommandInput(commandBody);
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  if (!canIssueCommand(auth.roles, parsed.spec)) {
+    return c.text('Forbidden', 403);
+  }
 
   const actor = auth.email ?? auth.sub ?? 'operator';
 
-  return dispatchDeviceCommand(c, deviceId, actor, commandBody);
+  return dispatchDeviceCommand(c, deviceId, actor, parsed.value);
 });
 
-app.get('/api/me/saved-views', async (c) => {
+app.get('/api/commands/registry', (c) => {
   const auth = c.get('auth');
-  const uid = auth?.sub ?? auth?.email;
-  if (!uid) {
-    return c.json([]);
+  if (!auth) {
+    return c.text('Unauthorized', 401);
   }
+  return c.json({ kinds: describeCommandKinds(auth.roles, getWriteLimits(c.env)) });
+});
 
-  const rows = await c.env.DB.prepare(
-    'SELECT id, name, route, params_json, created_at FROM saved_views WHERE user_id=? ORDER BY created_at DESC',
-  )
-    .bind(uid)
-    .all<{ id: string; name: string; route: string; params_json: string; created_at: string }>();
+async function scheduleScopeExists(DB: D1Database, input: { scope: 'device' | 'site'; scopeId: string }) {
+  const row =
+    input.scope === 'device'
+      ? await DB.prepare('SELECT 1 AS found FROM devices WHERE device_id=?').bind(input.scopeId).first()
+      : await DB.prepare('SELECT 1 AS found FROM sites WHERE site_id=?').bind(input.scopeId).first();
+  return !!row;
+}
 
-  return c.json(rows.results ?? []);
-});
+const SCHEDULE_COLUMNS =
+  'id, name, scope, scope_id, timezone, default_json, blocks_json, enabled, created_at, updated_at';
 
-app.post('/api/me/saved-views', async (c) => {
-  const blocked = await guardWrite(c);
-  if (blocked) {
-    return blocked;
-  }
+function serializeSchedule(row: DeviceScheduleRow) {
+  const program = parseScheduleRow(row);
+  return { ...program, enabled: row.enabled !== 0, createdAt: row.created_at, updatedAt: row.updated_at };
+}
+
+app.get('/api/ops/schedules', async (c) => {
   const auth = c.get('auth');
-  const uid = auth?.sub ?? auth?.email;
-  if (!uid) {
+  if (!auth) {
     return c.text('Unauthorized', 401);
   }
+  requireRole(auth, ['admin', 'ops']);
+  const scope = c.req.query('scope');
+  const scopeId = c.req.query('scopeId');
+  const rows =
+    scope && scopeId
+      ? await c.env.DB.prepare(`SELECT ${SCHEDULE_COLUMNS} FROM device_schedules WHERE scope=? AND scope_id=? ORDER BY created_at`)
+          .bind(scope, scopeId)
+          .all<DeviceScheduleRow>()
+      : await c.env.DB.prepare(`SELECT ${SCHEDULE_COLUMNS} FROM device_schedules ORDER BY created_at`).all<DeviceScheduleRow>();
+  return c.json((rows.results ?? []).map(serializeSchedule));
+});
 
-  const body = await c.req
-    .json<{ name: string; route: string; params: unknown }>()
-    .catch(() => null);
-  if (!body?.name || !body?.route) {
-    return c.text('Bad Request', 400);
+async function writeSchedule(c: Context<Ctx>, id: string, input: ScheduleInput, insert: boolean, actor: string) {
+  const values = [
+    input.name,
+    input.scope,
+    input.scopeId,
+    input.timezone,
+    JSON.stringify(input.defaults),
+    JSON.stringify(input.blocks),
+    input.enabled ? 1 : 0,
+  ];
+  if (insert) {
+    await c.env.DB.prepare(
+      `INSERT INTO device_schedules (name, scope, scope_id, timezone, default_json, blocks_json, enabled, id, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+      .bind(...values, id, actor)
+      .run();
+    return;
   }
-
-  const id = crypto.randomUUID();
   await c.env.DB.prepare(
-    'INSERT INTO saved_views (id, user_id, name, route, params_json) VALUES (?, ?, ?, ?, ?)',
+    `UPDATE device_schedules
+        SET name=?, scope=?, scope_id=?, timezone=?, default_json=?, blocks_json=?, enabled=?, updated_at=datetime('now')
+      WHERE id=?`,
   )
-    .bind(id, uid, body.name, body.route, JSON.stringify(body.params ?? {}))
+    .bind(...values, id)
     .run();
+}
 
-  return c.json({ ok: true, id });
-});
-
-app.delete('/api/me/saved-views/:id', async (c) => {
+app.post('/api/ops/schedules', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
   }
   const auth = c.get('auth');
-  const uid = auth?.sub ?? auth?.email;
-  if (!uid) {
+  if (!auth) {
     return c.text('Unauthorized', 401);
   }
-
-  await c.env.DB.prepare('DELETE FROM saved_views WHERE id=? AND user_id=?')
-    .bind(c.req.param('id'), uid)
-    .run();
-
-  return c.json({ ok: true });
+  requireRole(auth, ['admin', 'ops']);
+  const parsed = parseScheduleInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  if (!(await scheduleScopeExists(c.env.DB, parsed.value))) {
+    return bad(c, [`${parsed.value.scope} ${parsed.value.scopeId} does not exist`]);
+  }
+  const id = crypto.randomUUID();
+  await writeSchedule(c, id, parsed.value, true, auth.email ?? auth.sub);
+  await audit(c.env as any, auth, 'schedule.create', id, parsed.value);
+  return c.json({ ok: true, id });
 });
 
-app.get('/api/settings/public', async (c) => c.json({ read_only: await isReadOnly(c.env.DB) }));
-
-app.get('/api/admin/settings', async (c) => {
+app.put('/api/ops/schedules/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
   requireRole(auth, ['admin', 'ops']);
-  const rows = await c.env.DB.prepare('SELECT key,value FROM settings').all<{ key: string; value: string }>();
-  return c.json(rows.results ?? []);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare(`SELECT ${SCHEDULE_COLUMNS} FROM device_schedules WHERE id=?`)
+    .bind(id)
+    .first<DeviceScheduleRow>();
+  if (!current) {
+    return c.text('Not Found', 404);
+  }
+  const parsed = parseScheduleInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  if (!(await scheduleScopeExists(c.env.DB, parsed.value))) {
+    return bad(c, [`${parsed.value.scope} ${parsed.value.scopeId} does not exist`]);
+  }
+  await writeSchedule(c, id, parsed.value, false, auth.email ?? auth.sub);
+  await audit(c.env as any, auth, 'schedule.update', id, { before: serializeSchedule(current), after: parsed.value });
+  return c.json({ ok: true, id });
 });
 
-app.post('/api/admin/settings', async (c) => {
+app.delete('/api/ops/schedules/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
   requireRole(auth, ['admin', 'ops']);
-  const { key, value } = await c.req.json<{ key: string; value: string }>().catch(() => ({ key: '', value: '' }));
-  if (!key) {
-    return c.text('Bad Request', 400);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare(`SELECT ${SCHEDULE_COLUMNS} FROM device_schedules WHERE id=?`)
+    .bind(id)
+    .first<DeviceScheduleRow>();
+  if (!current) {
+    return c.text('Not Found', 404);
   }
-  await setSetting(c.env.DB, key, value ?? '');
+  // Devices keep whatever the schedule last set; nothing is reverted.
+  await c.env.DB.prepare('DELETE FROM device_schedules WHERE id=?').bind(id).run();
+  await audit(c.env as any, auth, 'schedule.delete', id, serializeSchedule(current));
   return c.json({ ok: true });
 });
 
-app.get('/api/admin/archive/presets', async (c) => {
+app.get('/api/ops/schedule-overrides', async (c) => {
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
   requireRole(auth, ['admin', 'ops']);
-  const table = c.req.query('table');
-  if (!table) {
-    return c.json({ presets: [] });
-  }
-  const raw = await getSetting(c.env.DB, `export_presets_${table}`);
-  let presets: unknown = [];
-  if (raw) {
-    try {
-      const parsed = JSON.parse(raw);
-      if (Array.isArray(parsed)) {
-        presets = parsed;
-      }
-    } catch (error) {
-      console.warn('Failed to parse archive presets', error);
-    }
-  }
-  return c.json({ presets });
+  const rows = await c.env.DB.prepare(
+    `SELECT id, scope, scope_id, starts_at, ends_at, body_json, reason, created_by, created_at
+       FROM schedule_overrides
+      WHERE ends_at > ?
+      ORDER BY starts_at`,
+  )
+    .bind(new Date().toISOString())
+    .all<ScheduleOverrideRow>();
+  return c.json(
+    (rows.results ?? []).map((row) => ({
+      ...parseOverrideRow(row),
+      startsAt: row.starts_at,
+      endsAt: row.ends_at,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+    })),
+  );
 });
 
-app.post('/api/admin/archive/presets', async (c) => {
+app.post('/api/ops/schedule-overrides', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
   requireRole(auth, ['admin', 'ops']);
-  const body = await c.req.json<{ table?: string; presets?: unknown }>().catch(() => null);
-  const table = typeof body?.table === 'string' && body.table.trim().length > 0 ? body.table.trim() : null;
-  const presets = body?.presets ?? [];
-  if (!table) {
-    return c.text('Bad Request', 400);
+  const parsed = parseScheduleOverrideInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
   }
-  const errorMsg = validatePresets(presets);
-  if (errorMsg) {
-    return c.json({ ok: false, error: errorMsg }, 400);
+  const input = parsed.value;
+  if (!(await scheduleScopeExists(c.env.DB, input))) {
+    return bad(c, [`${input.scope} ${input.scopeId} does not exist`]);
   }
-  await setSetting(c.env.DB, `export_presets_${table}`, JSON.stringify(presets ?? []));
-  return c.json({ ok: true });
+  const id = crypto.randomUUID();
+  await c.env.DB.prepare(
+    `INSERT INTO schedule_overrides (id, scope, scope_id, starts_at, ends_at, body_json, reason, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  )
+    .bind(id, input.scope, input.scopeId, input.startsAt, input.endsAt, JSON.stringify(input.setting), input.reason, auth.email ?? auth.sub)
+    .run();
+  await audit(c.env as any, auth, 'schedule_override.create', id, input);
+  return c.json({ ok: true, id });
 });
 
-app.get('/api/admin/archive', async (c) => {
+app.delete('/api/ops/schedule-overrides/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
   requireRole(auth, ['admin', 'ops']);
-  const url = new URL(c.req.url);
-  const dateParam = url.searchParams.get('date');
-  const parsed = parseDateParam(dateParam);
-  const fallback = addUtcDays(startOfUtcDay(new Date()), -1);
-  const target = parsed ?? fallback;
-  const rows = await listArchiveRows(c.env.DB, target);
-  return c.json({ date: formatDateKey(target), results: rows });
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare(
+    'SELECT id, scope, scope_id, starts_at, ends_at, body_json, reason, created_by, created_at FROM schedule_overrides WHERE id=?',
+  )
+    .bind(id)
+    .first<ScheduleOverrideRow>();
+  if (!current) {
+    return c.text('Not Found', 404);
+  }
+  await c.env.DB.prepare('DELETE FROM schedule_overrides WHERE id=?').bind(id).run();
+  await audit(c.env as any, auth, 'schedule_override.delete', id, current);
+  return c.json({ ok: true });
 });
 
-app.get('/api/admin/archive/download', async (c) => {
-  const jwt = c.req.header('Cf-Access-Jwt-Assertion');
-  const auth = jwt ? await verifyAccessJWT(c.env, jwt).catch(() => null) : null;
+app.get('/api/devices/:id/schedule', async (c) => {
+  const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
-  requireRole(auth, ['admin', 'ops']);
-
-  const key = c.req.query('key');
-  if (!key) {
-    return c.text('Bad Request', 400);
-  }
-  const fmt = (c.req.query('format') || 'ndjson').toLowerCase();
-  const cols = c
-    .req
-    .query('columns')
-    ?.split(',')
-    .map((s) => s.trim())
-    .filter(Boolean);
-  const gz = c.req.query('gz') === '1' || c.req.query('gzip') === '1';
-  const gzl = Math.max(1, Math.min(9, Number(c.req.query('gzl') || 0) || 0));
-  const stage = c.req.query('stage') === '1';
-
-  const bucket: any = (c.env as any).ARCHIVE || (c.env as any).REPORTS;
-  const src = await bucket.get(key);
-  if (!src) {
-    return c.text('Not Found', 404);
+  const deviceId = c.req.param('id');
+  if (!(await canAccessDevice(c.env.DB, auth, deviceId))) {
+    return c.text('Forbidden', 403);
   }
+  const now = new Date();
+  const schedules = (await loadDeviceSchedules(c.env.DB, [deviceId], now)).get(deviceId) ?? {
+    programs: [],
+    overrides: [],
+  };
+  const { programs, overrides } = schedules;
+  const current = resolveScheduleAt(programs, overrides, now.getTime());
+  const next = findNextChange(programs, overrides, now.getTime());
+  const state = await c.env.DB.prepare(
+    `SELECT s.source, s.desired_json, s.command_id, s.issued_at, dc.status AS command_status
+       FROM device_schedule_state s
+       LEFT JOIN device_commands dc ON dc.command_id = s.command_id
+      WHERE s.device_id=?`,
+  )
+    .bind(deviceId)
+    .first<{ source: string; desired_json: string; command_id: string | null; issued_at: string; command_status: string | null }>();
+  return c.json({
+    deviceId,
+    programs: programs.map((program) => ({ id: program.id, name: program.name, scope: program.scope, timezone: program.timezone })),
+    overrides: overrides.map((override) => ({
+      id: override.id,
+      scope: override.scope,
+      startsAt: new Date(override.startsAt).toISOString(),
+      endsAt: new Date(override.endsAt).toISOString(),
+      setting: override.setting,
+      reason: override.reason,
+    })),
+    current: current ? { ...current, summary: describeSetting(current.setting) } : null,
+    next: next
+      ? {
+          at: new Date(next.at).toISOString(),
+          setting: next.resolved?.setting ?? null,
+          source: next.resolved?.source ?? null,
+          label: next.resolved?.label ?? 'No schedule',
+          summary: next.resolved ? describeSetting(next.resolved.setting) : 'Schedule ends',
+        }
+      : null,
+    conflicts: findScheduleConflicts(programs, overrides, getWriteLimits(c.env)),
+    lastIssued: state
+      ? {
+          source: state.source,
+          commandId: state.command_id,
+          issuedAt: state.issued_at,
+          status: state.command_status ?? 'unknown',
+        }
+      : null,
+  });
+});
 
-  const base = (key.split('/').pop() || 'export').replace(/\.ndjson$/, '');
-
-  const withGzip = (stream: ReadableStream<Uint8Array>) => {
-    if (!gz) return stream;
+function serializeDrEvent(row: DrEventRow) {
+  const parse = (json: string | null) => {
     try {
-      return stream.pipeThrough(new (globalThis as any).CompressionStream('gzip', { level: gzl || 6 }));
-    } catch (error) {
-      try {
-        return stream.pipeThrough(new (globalThis as any).CompressionStream('gzip'));
-      } catch (fallbackError) {
-        console.warn('gzip unavailable', error, fallbackError);
-        return stream;
-      }
+      return json ? JSON.parse(json) : null;
+    } catch {
+      return null;
     }
   };
+  const window = eventWindow(row);
+  return {
+    id: row.id,
+    name: row.name,
+    status: row.status,
+    target: parse(row.target_json),
+    strategy: parse(row.strategy_json),
+    preheatStart: new Date(window.preheatStart).toISOString(),
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    preheatMin: row.preheat_min,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
 
-  if (stage) {
-    const sig = await sha256Hex(JSON.stringify({ key, fmt, cols, gz, gzl }));
-    const stamp = new Date().toISOString().slice(0, 10);
-    const stagedKey = `staged/${stamp}/${base}-${sig}.${fmt}${gz ? '.gz' : ''}`;
-    if (!(await bucket.head?.(stagedKey))) {
-      const body = withGzip(
-        fmt === 'csv'
-          ? ndjsonToCsvStream(src.body as ReadableStream<Uint8Array>, cols?.length ? cols : undefined)
-          : (src.body as ReadableStream<Uint8Array>),
-      );
-      await bucket.put(stagedKey, body, {
-        httpMetadata: { contentType: fmt === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson' },
-      });
-    }
-    return c.redirect(`/api/admin/archive/object?key=${encodeURIComponent(stagedKey)}`, 302);
+app.get('/api/ops/dr-events', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
   }
+  requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare(
+    `SELECT ${DR_EVENT_COLUMNS}, (SELECT COUNT(*) FROM dr_event_devices ded WHERE ded.event_id = e.id) AS device_count
+       FROM dr_events e
+      ORDER BY starts_at DESC
+      LIMIT 100`,
+  ).all<DrEventRow & { device_count: number }>();
+  return c.json(
+    (rows.results ?? []).map((row) => {
+      const report = row.report_json ? (JSON.parse(row.report_json) as DrReport) : null;
+      return { ...serializeDrEvent(row), deviceCount: row.device_count, totals: report?.totals ?? null };
+    }),
+  );
+});
 
-  if (fmt === 'csv') {
-    const s = ndjsonToCsvStream(src.body as ReadableStream<Uint8Array>, cols?.length ? cols : undefined);
-    return new Response(withGzip(s), {
-      headers: {
-        'Content-Type': 'text/csv; charset=utf-8',
-        'Content-Disposition': `attachment; filename="${base}.csv${gz ? '.gz' : ''}"`,
-        'Cache-Control': 'no-store',
-        ...(gz ? { 'Content-Encoding': 'gzip' } : {}),
-      },
-    });
+app.post('/api/ops/dr-events', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const parsed = parseDrEventInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
+  const deviceIds = await resolveDrTargetDevices(c.env.DB, input.target);
+  if (deviceIds.length === 0) {
+    return bad(c, ['target matches no devices']);
+  }
+  if (deviceIds.length > MAX_DR_EVENT_DEVICES) {
+    return bad(c, [`target matches more than ${MAX_DR_EVENT_DEVICES} devices; split the event`]);
+  }
+  const unknown = Object.keys(input.deviceStrategies).filter((deviceId) => !deviceIds.includes(deviceId));
+  if (unknown.length > 0) {
+    return bad(c, [`deviceStrategies reference devices outside the target: ${unknown.join(', ')}`]);
   }
 
-  return new Response(withGzip(src.body as ReadableStream<Uint8Array>), {
-    headers: {
-      'Content-Type': 'application/x-ndjson',
-      'Content-Disposition': `attachment; filename="${base}.ndjson${gz ? '.gz' : ''}"`,
-      'Cache-Control': 'no-store',
-      ...(gz ? { 'Content-Encoding': 'gzip' } : {}),
-    },
+  const id = crypto.randomUUID();
+  const statements = [
+    c.env.DB.prepare(
+      `INSERT INTO dr_events (id, name, status, target_json, strategy_json, starts_at, ends_at, preheat_min, created_by)
+       VALUES (?, ?, 'scheduled', ?, ?, ?, ?, ?, ?)`,
+    ).bind(
+      id,
+      input.name,
+      JSON.stringify(input.target),
+      JSON.stringify(input.strategy),
+      input.startsAt,
+      input.endsAt,
+      input.preheatMin,
+      auth.email ?? auth.sub,
+    ),
+    ...deviceIds.map((deviceId) =>
+      c.env.DB.prepare('INSERT INTO dr_event_devices (event_id, device_id, strategy_json) VALUES (?, ?, ?)').bind(
+        id,
+        deviceId,
+        input.deviceStrategies[deviceId] ? JSON.stringify(input.deviceStrategies[deviceId]) : null,
+      ),
+    ),
+  ];
+  await c.env.DB.batch(statements);
+  await audit(c.env as any, auth, 'dr_event.create', id, { ...input, deviceCount: deviceIds.length });
+  return c.json({ ok: true, id, deviceCount: deviceIds.length });
+});
+
+app.get('/api/ops/dr-events/:id', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const event = await c.env.DB.prepare(`SELECT ${DR_EVENT_COLUMNS} FROM dr_events WHERE id=?`).bind(id).first<DrEventRow>();
+  if (!event) {
+    return c.text('Not Found', 404);
+  }
+  const devices = await c.env.DB.prepare(
+    `SELECT ded.device_id, ded.phase, ded.last_error, ded.updated_at,
+            pc.status AS preheat_status, ec.status AS event_status, rc.status AS restore_status
+       FROM dr_event_devices ded
+       LEFT JOIN device_commands pc ON pc.command_id = ded.preheat_command_id
+       LEFT JOIN device_commands ec ON ec.command_id = ded.event_command_id
+       LEFT JOIN device_commands rc ON rc.command_id = ded.restore_command_id
+      WHERE ded.event_id = ?
+      ORDER BY ded.device_id`,
+  )
+    .bind(id)
+    .all<{
+      device_id: string;
+      phase: string;
+      last_error: string | null;
+      updated_at: string;
+      preheat_status: string | null;
+      event_status: string | null;
+      restore_status: string | null;
+    }>();
+  return c.json({
+    ...serializeDrEvent(event),
+    devices: (devices.results ?? []).map((row) => ({
+      deviceId: row.device_id,
+      phase: row.phase,
+      commands: { preheat: row.preheat_status, event: row.event_status, restore: row.restore_status },
+      lastError: row.last_error,
+      updatedAt: row.updated_at,
+    })),
   });
 });
 
-app.get('/api/admin/archive/staged-for', async (c) => {
-  const jwt = c.req.header('Cf-Access-Jwt-Assertion');
-  if (!jwt) {
+app.get('/api/ops/dr-events/:id/report', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
     return c.text('Unauthorized', 401);
   }
-  const auth = await verifyAccessJWT(c.env, jwt).catch(() => null);
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const event = await c.env.DB.prepare(`SELECT ${DR_EVENT_COLUMNS} FROM dr_events WHERE id=?`).bind(id).first<DrEventRow>();
+  if (!event) {
+    return c.text('Not Found', 404);
+  }
+  if (event.report_json) {
+    return c.json({ final: true, ...(JSON.parse(event.report_json) as DrReport) });
+  }
+  // Events still running get a provisional report from the telemetry so far.
+  return c.json({ final: false, ...(await computeDemandResponseReport(c.env.DB, event)) });
+});
+
+app.post('/api/ops/dr-events/:id/cancel', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
   requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const result = await c.env.DB.prepare(
+    "UPDATE dr_events SET status='cancelled', updated_at=? WHERE id=? AND status IN ('scheduled', 'active')",
+  )
+    .bind(new Date().toISOString(), id)
+    .run();
+  if (!result.meta?.changes) {
+    const exists = await c.env.DB.prepare('SELECT status FROM dr_events WHERE id=?').bind(id).first<{ status: string }>();
+    return exists ? c.json({ ok: false, errors: [`event is already ${exists.status}`] }, 409) : c.text('Not Found', 404);
+  }
+  await audit(c.env as any, auth, 'dr_event.cancel', id);
+  return c.json({ ok: true });
+});
 
-  const date = c.req.query('date');
-  const base = c.req.query('base');
-  if (!date || !base) {
-    return c.text('Bad Request', 400);
+app.get('/api/me/saved-views', async (c) => {
+  const auth = c.get('auth');
+  const uid = auth?.sub ?? auth?.email;
+  if (!uid) {
+    return c.json([]);
   }
 
-  const bucket: any = (c.env as any).ARCHIVE || (c.env as any).REPORTS;
-  if (!bucket?.list) {
-    return c.json({});
+  const rows = await c.env.DB.prepare(
+    'SELECT id, name, route, params_json, created_at FROM saved_views WHERE user_id=? ORDER BY created_at DESC',
+  )
+    .bind(uid)
+    .all<{ id: string; name: string; route: string; params_json: string; created_at: string }>();
+
+  return c.json(rows.results ?? []);
+});
+
+app.post('/api/me/saved-views', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  const uid = auth?.sub ?? auth?.email;
+  if (!uid) {
+    return c.text('Unauthorized', 401);
   }
-  let latest: any = null;
 
-  try {
-    const prefix = `staged/${date}/${base}-`;
-    const res = await bucket.list({ prefix });
-    for (const o of res.objects || []) {
-      const m = /-p-([A-Za-z0-9_-]+)-/.exec(o.key);
-      const preset = m ? m[1] : o.customMetadata?.preset || null;
-      if (!latest || (o.uploaded && latest.uploaded && o.uploaded > latest.uploaded)) {
-        latest = { key: o.key, preset, size: o.size, uploaded: o.uploaded };
-      }
-    }
-  } catch (error) {
-    console.warn('staged-for lookup failed', error);
+  const body = await c.req
+    .json<{ name: string; route: string; params: unknown }>()
+    .catch(() => null);
+  if (!body?.name || !body?.route) {
+    return c.text('Bad Request', 400);
   }
 
-  return c.json(latest || {});
+  const id = crypto.randomUUID();
+  await c.env.DB.prepare(
+    'INSERT INTO saved_views (id, user_id, name, route, params_json) VALUES (?, ?, ?, ?, ?)',
+  )
+    .bind(id, uid, body.name, body.route, JSON.stringify(body.params ?? {}))
+    .run();
+
+  return c.json({ ok: true, id });
 });
 
-// --- Ingest: Telemetry & Heartbeat ---
-// Simple shape guard (keep strict & small): 256KB max handled by Cloudflare automatically if set.
-type IngestStatus = {
-  mode?: string;
-  defrost?: boolean;
-  online?: boolean;
-  flags?: Record<string, unknown>;
-  [key: string]: unknown;
-};
-
-type IngestFault = {
-  code?: string;
-  description?: string;
-  active?: boolean;
-};
-
-type ValidIngestPayload = {
-  device_id: string;
-  ts: string;
-  metrics: Record<string, unknown>;
-  status?: IngestStatus | null;
-  faults?: IngestFault[] | null;
-  meta?: Record<string, unknown> | null;
-};
-
-type ValidHeartbeatPayload = {
-  device_id: string;
-  timestamp: string;
-  rssi?: number | null;
-};
-
-app.post('/api/ingest/:profileId', async (c) => {
-  const started = Date.now();
-  let status = 500;
-  let deviceId: string | undefined;
-  try {
-    const body = await c.req.json().catch(() => null);
-    if (!body || !validateIngest(body)) {
-      status = 400;
-      return bad(c, validateIngest.errors);
-    }
-
-    const payload = body as ValidIngestPayload;
-    deviceId = payload.device_id;
-    if (!deviceId) {
-      status = 400;
-      return c.text('Invalid device_id', 400);
-    }
-    const ok = await verifyDeviceKey(c.env.DB, deviceId, c.req.header('X-GREENBRO-DEVICE-KEY'));
-    if (!ok) {
-      status = 403;
-      return c.text('Forbidden', 403);
-    }
-
-    const profileId = c.req.param('profileId');
-    const deviceContext = await getDeviceContext(c.env.DB, deviceId);
-    if (!deviceContext) {
-      status = 404;
-      return c.text('Unknown device', 404);
-    }
-    if (deviceContext.profile_id && deviceContext.profile_id !== profileId) {
-      status = 403;
-      return c.text('Profile mismatch', 403);
-    }
-    const idemKey = await (async () => {
-      const bytes = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(body)));
-      return [...new Uint8Array(bytes)].map((b) => b.toString(16).padStart(2, '0')).join('');
-    })();
-
-    if (await isDuplicate(c.env.DB, idemKey)) {
-      status = 200;
-      return c.json({ ok: true, deduped: true });
-    }
-
-    const rawMetrics = payload.metrics ?? {};
-    const rawStatus: IngestStatus =
-      typeof payload.status === 'object' && payload.status ? (payload.status as IngestStatus) : {};
-
-    const readNumber = (...keys: Array<string>): number | undefined => {
-      for (const key of keys) {
-        const value = (rawMetrics as Record<string, unknown>)[key];
-        if (value == null) continue;
-        if (typeof value === 'number' && Number.isFinite(value)) {
-          return value;
-        }
-        if (typeof value === 'string') {
-          const parsed = Number(value);
-          if (Number.isFinite(parsed)) {
-            return parsed;
-          }
-        }
-      }
-      return undefined;
-    };
-
-    const telemetryMetrics: TelemetryPayload['metrics'] = {
-      supplyC: readNumber('supply_c', 'supplyC', 'outlet_temp_c'),
-      returnC: readNumber('return_c', 'returnC', 'inlet_temp_c'),
-      tankC: readNumber('tank_c', 'tankC'),
-      ambientC: readNumber('ambient_c', 'ambientC'),
-      flowLps: (() => {
-        const lps = readNumber('flow_lps', 'flowLps');
-        if (lps != null) return lps;
-        const lpm = readNumber('flow_lpm', 'flowLpm');
-        return lpm != null ? lpm / 60 : undefined;
-      })(),
-      compCurrentA: readNumber('compressor_a', 'compCurrentA'),
-      eevSteps: readNumber('eev_steps', 'eevSteps'),
-      powerKW: readNumber('power_kw', 'powerKW'),
-    };
-
-    if (telemetryMetrics.supplyC == null || telemetryMetrics.returnC == null) {
-      status = 400;
-      return c.text('Missing supply_c or return_c metrics', 400);
-    }
-
-    let statusFlags = normalizeFlagMap(rawStatus.flags);
-    const telemetryStatus: TelemetryPayload['status'] = {
-      mode: typeof rawStatus.mode === 'string' ? rawStatus.mode : undefined,
-      defrost: typeof rawStatus.defrost === 'boolean' ? rawStatus.defrost : undefined,
-      online: typeof rawStatus.online === 'boolean' ? rawStatus.online : undefined,
-    };
-    if (statusFlags && Object.keys(statusFlags).length > 0) {
-      telemetryStatus.flags = statusFlags;
-    }
-
-    const telemetryFaults = Array.isArray(payload.faults)
-      ? payload.faults
-          .map((fault) => {
-            if (!fault || typeof fault.code !== 'string') {
-              return null;
-            }
-            const trimmed = fault.code.trim();
-            if (!trimmed) {
-              return null;
-            }
-            const active =
-              typeof fault.active === 'boolean' ? fault.active : fault.active == null ? true : Boolean(fault.active);
-            const description =
-              typeof fault.description === 'string' && fault.description.trim().length > 0
-                ? fault.description.trim()
-                : undefined;
-            return { code: trimmed, active, ...(description ? { description } : {}) };
-          })
-          .filter((fault): fault is { code: string; active: boolean; description?: string } => fault !== null)
-      : undefined;
-
-    const telemetry: TelemetryPayload = {
-      deviceId,
-      ts: payload.ts,
-      metrics: telemetryMetrics,
-      status: telemetryStatus,
-    };
-    if (telemetryFaults) {
-      telemetry.faults = telemetryFaults;
-    }
-
-    const enqueued = Boolean(c.env.INGEST_Q);
-    if (enqueued) {
-      await c.env.INGEST_Q.send({ type: 'telemetry', profileId, body: telemetry });
-    } else {
-      await processTelemetryInline(c.env, telemetry, payload.ts);
-    }
-
-    status = enqueued ? 202 : 200;
-    return c.json({ ok: true, queued: enqueued }, status);
-  } catch (error) {
-    console.error('Failed to ingest telemetry', error);
-    status = 500;
-    return c.text('Internal Server Error', 500);
-  } finally {
-    const duration = Date.now() - started;
-    await logOpsMetric(c.env.DB, '/api/ingest', status, duration, deviceId);
+app.delete('/api/me/saved-views/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
   }
-});
-
-app.get('/api/ops/deviation-counters', async (c) => {
   const auth = c.get('auth');
-  requireRole(auth, ['admin', 'ops']);
-  const rows = await c.env.DB.prepare(
-    `SELECT
-      COALESCE(json_extract(meta_json, '$.kind'), 'delta_t') AS kind,
-      severity,
-      COUNT(*) AS n
-    FROM alerts
-    WHERE type='baseline_deviation'
-      AND state IN ('open','ack')
-      AND opened_at >= datetime('now','-24 hours')
-    GROUP BY kind, severity`,
-  ).all<{ kind: string | null; severity: string | null; n: number }>();
-
-  const counters: Record<'delta_t' | 'cop' | 'current', { warning: number; critical: number }> = {
-    delta_t: { warning: 0, critical: 0 },
-    cop: { warning: 0, critical: 0 },
-    current: { warning: 0, critical: 0 },
-  };
-
-  for (const row of rows.results ?? []) {
-    const kind = (row.kind ?? 'delta_t') as 'delta_t' | 'cop' | 'current';
-    if (!counters[kind]) {
-      continue;
-    }
-    const severity = row.severity === 'critical' ? 'critical' : row.severity === 'warning' ? 'warning' : null;
-    if (!severity) {
-      continue;
-    }
-    counters[kind][severity] = row.n;
+  const uid = auth?.sub ?? auth?.email;
+  if (!uid) {
+    return c.text('Unauthorized', 401);
   }
 
-  return c.json(counters);
-});
-
-app.get('/api/ops/deviation-hotlist', async (c) => {
-  const auth = c.get('auth');
-  requireRole(auth, ['admin', 'ops']);
-  const rawLimit = Number(c.req.query('limit') ?? 5);
-  const limit = Number.isFinite(rawLimit) ? Math.min(10, Math.max(1, rawLimit)) : 5;
-  const rows = await c.env.DB.prepare(
-    `WITH last_hour AS (
-       SELECT a.device_id,
-              COALESCE(json_extract(a.meta_json,'$.kind'),'delta_t') AS kind,
-              MAX(CASE WHEN a.severity='critical' THEN 1 ELSE 0 END) AS any_crit,
-              MIN(a.opened_at) AS since,
-              json_extract(a.meta_json,'$.coverage') AS coverage,
-              json_extract(a.meta_json,'$.drift') AS drift
-         FROM alerts a
-        WHERE a.type='baseline_deviation'
-          AND a.state IN ('open','ack')
-          AND a.opened_at >= datetime('now','-60 minutes')
-        GROUP BY a.device_id, kind
-     )
-     SELECT lh.device_id, lh.kind, lh.any_crit, lh.since, lh.coverage, lh.drift,
-            s.site_id, s.name AS site_name, s.region
-       FROM last_hour lh
-       LEFT JOIN devices d ON d.device_id = lh.device_id
-       LEFT JOIN sites s ON s.site_id = d.site_id
-      ORDER BY lh.any_crit DESC,
-               (1.0 - COALESCE(lh.coverage, 0.0)) DESC,
-               lh.since ASC
-      LIMIT ?`,
-  )
-    .bind(limit)
-    .all<{
-      device_id: string;
-      kind: 'delta_t' | 'cop' | 'current';
-      any_crit: number;
-      since: string;
-      coverage: number | null;
-      drift: number | null;
-      site_id: string | null;
-      site_name: string | null;
-      region: string | null;
-    }>();
+  await c.env.DB.prepare('DELETE FROM saved_views WHERE id=? AND user_id=?')
+    .bind(c.req.param('id'), uid)
+    .run();
 
-  return c.json(rows.results ?? []);
+  return c.json({ ok: true });
 });
 
-app.post('/api/ops/recompute-baselines', async (c) => {
-  const blocked = await guardWrite(c);
-  if (blocked) {
-    return blocked;
-  }
+app.get('/api/me/preferences', async (c) => {
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
-  requireRole(auth, ['admin', 'ops']);
-  await recomputeBaselines(c.env.DB);
-  return c.json({ ok: true });
+  return c.json(await loadDisplayPreferences(c.env.DB, auth.sub));
 });
 
-app.post('/api/ops/incidents/sweep', async (c) => {
+app.put('/api/me/preferences', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
@@ -3426,1073 +3901,3634 @@ app.post('/api/ops/incidents/sweep', async (c) => {
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
-  requireRole(auth, ['admin', 'ops']);
-  const url = new URL(c.req.url);
-  const hoursParam = url.searchParams.get('hours');
-  const hours = Number(hoursParam ?? '48');
-  const windowHours = Number.isFinite(hours) && hours > 0 ? Math.min(hours, 240) : 48;
-  const result = await sweepIncidents(c.env.DB, windowHours);
-  return c.json({ ok: true, windowHours, ...result });
+  const parsed = parseDisplayPreferences(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  // Preferences live on the auth_users record, so identities without one (Access-only logins) cannot save them.
+  const result = await c.env.DB.prepare('UPDATE auth_users SET preferences_json=? WHERE id=?')
+    .bind(JSON.stringify(parsed.value), auth.sub)
+    .run();
+  if (!result.meta?.changes) {
+    return c.text('Not Found', 404);
+  }
+  return c.json({ ok: true, preferences: parsed.value });
 });
 
-app.get('/api/ops/incidents', async (c) => {
+const USER_SUBSCRIPTION_COLUMNS =
+  'id, user_id, name, site_ids, client_ids, device_ids, rules, severities, enabled, created_at, updated_at';
+
+function presentUserSubscription(row: UserAlertSubscriptionRow) {
+  const list = (json: string | null) => (json ? (JSON.parse(json) as string[]) : []);
+  return {
+    id: row.id,
+    name: row.name,
+    siteIds: list(row.site_ids),
+    clientIds: list(row.client_ids),
+    deviceIds: list(row.device_ids),
+    rules: list(row.rules),
+    severities: list(row.severities),
+    enabled: row.enabled !== 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? null,
+  };
+}
+
+app.get('/api/me/notifications', async (c) => {
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
-  requireRole(auth, ['admin', 'ops']);
-  const url = new URL(c.req.url);
-  const sinceParam = url.searchParams.get('since');
-  const siteId = url.searchParams.get('siteId');
-
-  let sinceExpr = "datetime('now', ?)";
-  const bind: string[] = [];
-
-  if (sinceParam && /^\d{4}-\d{2}-\d{2}/.test(sinceParam)) {
-    sinceExpr = '?';
-    bind.push(sinceParam);
-  } else {
-    bind.push(sinceParam ?? '-72 hours');
-  }
-
-  let siteClause = '';
-  if (siteId) {
-    siteClause = ' AND i.site_id = ?';
-    bind.push(siteId);
+  const user = await c.env.DB.prepare('SELECT email, notification_prefs_json FROM auth_users WHERE id=?')
+    .bind(auth.sub)
+    .first<{ email: string; notification_prefs_json: string | null }>();
+  if (!user) {
+    return c.text('Not Found', 404);
   }
-
   const rows = await c.env.DB.prepare(
-    `SELECT i.incident_id, i.site_id, i.started_at, i.last_alert_at, i.resolved_at, s.name AS site_name
-       FROM incidents i
-       LEFT JOIN sites s ON s.site_id = i.site_id
-      WHERE i.started_at >= ${sinceExpr}${siteClause}
-      ORDER BY i.started_at DESC
-      LIMIT 200`,
+    `SELECT ${USER_SUBSCRIPTION_COLUMNS} FROM user_alert_subscriptions WHERE user_id=? ORDER BY name`,
   )
-    .bind(...bind)
-    .all<{
-      incident_id: string;
-      site_id: string;
-      started_at: string;
-      last_alert_at: string;
-      resolved_at: string | null;
-      site_name: string | null;
-    }>();
+    .bind(auth.sub)
+    .all<UserAlertSubscriptionRow>();
+  return c.json({
+    email: user.email,
+    preferences: readNotificationPreferences(user.notification_prefs_json),
+    subscriptions: (rows.results ?? []).map(presentUserSubscription),
+  });
+});
 
-  const incidents = rows.results ?? [];
-  if (incidents.length === 0) {
-    return c.json([]);
+app.put('/api/me/notifications/preferences', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  const parsed = parseNotificationPreferences(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const result = await c.env.DB.prepare('UPDATE auth_users SET notification_prefs_json=? WHERE id=?')
+    .bind(JSON.stringify(parsed.value), auth.sub)
+    .run();
+  if (!result.meta?.changes) {
+    return c.text('Not Found', 404);
   }
+  return c.json({ ok: true, preferences: parsed.value });
+});
 
-  const ids = incidents.map((r) => r.incident_id);
-  const placeholders = ids.map(() => '?').join(',');
-  const alertRows = await c.env.DB.prepare(
-    `SELECT ia.incident_id, a.type, a.severity, a.state, COUNT(*) as count
-       FROM incident_alerts ia
-       JOIN alerts a ON a.alert_id = ia.alert_id
-      WHERE ia.incident_id IN (${placeholders})
-      GROUP BY ia.incident_id, a.type, a.severity, a.state`,
+app.post('/api/me/notifications/subscriptions', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops', 'client']);
+  const parsed = parseUserSubscriptionInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const scoped = scopeSubscriptionClients(
+    { roles: auth.roles, clientIds: auth.clientIds ?? [] },
+    parsed.value.clientIds,
+  );
+  if (!scoped.ok) {
+    return bad(c, [scoped.error]);
+  }
+  const user = await c.env.DB.prepare('SELECT id FROM auth_users WHERE id=?').bind(auth.sub).first<{ id: string }>();
+  if (!user) {
+    return c.text('Not Found', 404);
+  }
+  const input = { ...parsed.value, clientIds: scoped.clientIds };
+  const id = crypto.randomUUID();
+  await c.env.DB.prepare(
+    `INSERT INTO user_alert_subscriptions (id, user_id, name, site_ids, client_ids, device_ids, rules, severities, enabled)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
   )
-    .bind(...ids)
-    .all<{ incident_id: string; type: string; severity: string; state: string; count: number }>();
+    .bind(
+      id,
+      auth.sub,
+      input.name,
+      toJsonList(input.siteIds),
+      toJsonList(input.clientIds),
+      toJsonList(input.deviceIds),
+      toJsonList(input.rules),
+      toJsonList(input.severities),
+      input.enabled ? 1 : 0,
+    )
+    .run();
+  await audit(c.env as any, auth, 'user_subscription.create', id, input);
+  return c.json({ ok: true, id });
+});
 
-  const grouped = new Map<
-    string,
-    {
-      states: Record<string, number>;
-      types: Map<string, { type: string; severity: string; count: number }>;
-    }
-  >();
+app.put('/api/me/notifications/subscriptions/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops', 'client']);
+  const id = c.req.param('id');
+  const parsed = parseUserSubscriptionInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const scoped = scopeSubscriptionClients(
+    { roles: auth.roles, clientIds: auth.clientIds ?? [] },
+    parsed.value.clientIds,
+  );
+  if (!scoped.ok) {
+    return bad(c, [scoped.error]);
+  }
+  const input = { ...parsed.value, clientIds: scoped.clientIds };
+  const result = await c.env.DB.prepare(
+    `UPDATE user_alert_subscriptions
+        SET name=?, site_ids=?, client_ids=?, device_ids=?, rules=?, severities=?, enabled=?, updated_at=datetime('now')
+      WHERE id=? AND user_id=?`,
+  )
+    .bind(
+      input.name,
+      toJsonList(input.siteIds),
+      toJsonList(input.clientIds),
+      toJsonList(input.deviceIds),
+      toJsonList(input.rules),
+      toJsonList(input.severities),
+      input.enabled ? 1 : 0,
+      id,
+      auth.sub,
+    )
+    .run();
+  if (!result.meta?.changes) {
+    return c.text('Not Found', 404);
+  }
+  await audit(c.env as any, auth, 'user_subscription.update', id, input);
+  return c.json({ ok: true, id });
+});
 
-  for (const row of alertRows.results ?? []) {
-    if (!grouped.has(row.incident_id)) {
-      grouped.set(row.incident_id, { states: {}, types: new Map() });
-    }
-    const bucket = grouped.get(row.incident_id)!;
-    bucket.states[row.state] = (bucket.states[row.state] ?? 0) + row.count;
-    const key = `${row.type}::${row.severity}`;
-    const prev = bucket.types.get(key);
-    if (prev) {
-      prev.count += row.count;
-    } else {
-      bucket.types.set(key, { type: row.type, severity: row.severity, count: row.count });
-    }
+app.delete('/api/me/notifications/subscriptions/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
   }
+  const id = c.req.param('id');
+  const result = await c.env.DB.prepare('DELETE FROM user_alert_subscriptions WHERE id=? AND user_id=?')
+    .bind(id, auth.sub)
+    .run();
+  if (!result.meta?.changes) {
+    return c.text('Not Found', 404);
+  }
+  await audit(c.env as any, auth, 'user_subscription.delete', id, {});
+  return c.json({ ok: true });
+});
 
-  const out = incidents.map((incident) => {
-    const meta = grouped.get(incident.incident_id);
-    const states = meta?.states ?? {};
-    const total = Object.values(states).reduce((acc, value) => acc + value, 0);
-    return {
-      incidentId: incident.incident_id,
-      siteId: incident.site_id,
-      siteName: incident.site_name ?? null,
-      startedAt: incident.started_at,
-      lastAlertAt: incident.last_alert_at,
-      resolvedAt: incident.resolved_at,
-      alerts: {
-        total,
-        open: states.open ?? 0,
-        ack: states.ack ?? 0,
-        closed: states.closed ?? 0,
-      },
-      types: meta ? Array.from(meta.types.values()) : [],
-    };
-  });
+app.get('/api/settings/public', async (c) => c.json({ read_only: await isReadOnly(c.env.DB) }));
 
-  return c.json(out);
+app.get('/api/admin/settings', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare('SELECT key,value FROM settings').all<{ key: string; value: string }>();
+  return c.json(rows.results ?? []);
 });
 
-app.post('/api/heartbeat/:profileId', async (c) => {
-  const body = await c.req.json().catch(() => null);
-  if (!body || !validateHeartbeat(body)) {
-    return bad(c, validateHeartbeat.errors);
+app.post('/api/admin/settings', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
   }
-  const payload = body as ValidHeartbeatPayload;
-  const deviceId = payload.device_id;
-  const timestamp = payload.timestamp;
-  const rssi = typeof payload.rssi === 'number' && Number.isFinite(payload.rssi) ? payload.rssi : null;
-
-  const ok = await verifyDeviceKey(c.env.DB, deviceId, c.req.header('X-GREENBRO-DEVICE-KEY'));
-  if (!ok) return c.text('Forbidden', 403);
+  requireRole(auth, ['admin', 'ops']);
+  const { key, value } = await c.req.json<{ key: string; value: string }>().catch(() => ({ key: '', value: '' }));
+  if (!key) {
+    return c.text('Bad Request', 400);
+  }
+  await setSetting(c.env.DB, key, value ?? '');
+  return c.json({ ok: true });
+});
 
-  const profileId = c.req.param('profileId');
-  const heartbeat: HeartbeatPayload = { deviceId, ts: timestamp, rssi: rssi ?? undefined };
-  const deviceContext = await getDeviceContext(c.env.DB, deviceId);
-  if (!deviceContext) {
-    return c.text('Unknown device', 404);
+app.get('/api/admin/archive/presets', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
   }
-  if (deviceContext.profile_id && deviceContext.profile_id !== profileId) {
-    return c.text('Profile mismatch', 403);
+  requireRole(auth, ['admin', 'ops']);
+  const table = c.req.query('table');
+  if (!table) {
+    return c.json({ presets: [] });
   }
-
-  const enqueued = Boolean(c.env.INGEST_Q);
-  if (enqueued) {
-    await c.env.INGEST_Q.send({ type: 'heartbeat', profileId, body: heartbeat });
-  } else {
-    await processHeartbeatInline(c.env, heartbeat, timestamp);
+  const raw = await getSetting(c.env.DB, `export_presets_${table}`);
+  let presets: unknown = [];
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) {
+        presets = parsed;
+      }
+    } catch (error) {
+      console.warn('Failed to parse archive presets', error);
+    }
   }
+  return c.json({ presets });
+});
 
-  return c.json({ ok: true, queued: enqueued }, enqueued ? 202 : 200);
+app.post('/api/admin/archive/presets', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const body = await c.req.json<{ table?: string; presets?: unknown }>().catch(() => null);
+  const table = typeof body?.table === 'string' && body.table.trim().length > 0 ? body.table.trim() : null;
+  const presets = body?.presets ?? [];
+  if (!table) {
+    return c.text('Bad Request', 400);
+  }
+  const errorMsg = validatePresets(presets);
+  if (errorMsg) {
+    return c.json({ ok: false, error: errorMsg }, 400);
+  }
+  await setSetting(c.env.DB, `export_presets_${table}`, JSON.stringify(presets ?? []));
+  return c.json({ ok: true });
 });
 
-app.post('/api/device/:deviceId/commands/poll', async (c) => {
-  const started = Date.now();
-  const deviceId = c.req.param('deviceId');
-  let status = 500;
-  try {
-    const ok = await verifyDeviceKey(c.env.DB, deviceId, c.req.header('X-GREENBRO-DEVICE-KEY'));
-    if (!ok) {
-      status = 403;
-      return c.text('Forbidden', 403);
-    }
+app.get('/api/admin/archive', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const url = new URL(c.req.url);
+  const dateParam = url.searchParams.get('date');
+  const parsed = parseDateParam(dateParam);
+  const fallback = addUtcDays(startOfUtcDay(new Date()), -1);
+  const target = parsed ?? fallback;
+  const rows = await listArchiveRows(c.env.DB, target);
+  return c.json({ date: formatDateKey(target), results: rows });
+});
 
-    const body = (await c.req.json().catch(() => ({}))) as { max?: number; wait_s?: number; last_ack?: string };
-    const max = clampInt(body?.max, 1, MAX_COMMANDS_PER_POLL, 1);
-    const waitS = clampInt(body?.wait_s, 0, MAX_COMMAND_WAIT_S, 0);
+app.get('/api/admin/archive/telemetry', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const deviceId = c.req.query('device');
+  const from = parseDateParam(c.req.query('from'));
+  const to = parseDateParam(c.req.query('to'));
+  const clauses: string[] = [];
+  const binds: unknown[] = [];
+  if (deviceId) {
+    clauses.push('device_id=?');
+    binds.push(deviceId);
+  }
+  if (from) {
+    clauses.push('day >= ?');
+    binds.push(formatDateKey(from));
+  }
+  if (to) {
+    clauses.push('day <= ?');
+    binds.push(formatDateKey(to));
+  }
+  const rows = await c.env.DB.prepare(
+    `SELECT device_id, day, object_key, row_count, size_bytes, first_ts, last_ts, archived_at
+       FROM telemetry_archive
+      ${clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''}
+      ORDER BY day DESC, device_id
+      LIMIT 500`,
+  )
+    .bind(...binds)
+    .all<ArchiveManifestEntry>();
+  return c.json({ retention: await loadTelemetryRetention(c.env.DB), results: rows.results ?? [] });
+});
 
-    await expireStaleCommands(c.env.DB, deviceId);
+app.get('/api/admin/archive/download', async (c) => {
+  const jwt = c.req.header('Cf-Access-Jwt-Assertion');
+  const auth = jwt ? await verifyAccessJWT(c.env, jwt).catch(() => null) : null;
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
 
-    const deadline = Date.now() + waitS * 1000;
-    let commands = await fetchPendingCommands(c.env.DB, deviceId, max);
-    while (commands.length === 0 && waitS > 0 && Date.now() < deadline) {
-      await sleep(1000);
-      await expireStaleCommands(c.env.DB, deviceId);
-      commands = await fetchPendingCommands(c.env.DB, deviceId, max);
+  const key = c.req.query('key');
+  if (!key) {
+    return c.text('Bad Request', 400);
+  }
+  const fmt = (c.req.query('format') || 'ndjson').toLowerCase();
+  const cols = c
+    .req
+    .query('columns')
+    ?.split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const gz = c.req.query('gz') === '1' || c.req.query('gzip') === '1';
+  const gzl = Math.max(1, Math.min(9, Number(c.req.query('gzl') || 0) || 0));
+  const stage = c.req.query('stage') === '1';
+
+  const bucket: any = (c.env as any).ARCHIVE || (c.env as any).REPORTS;
+  const src = await bucket.get(key);
+  if (!src) {
+    return c.text('Not Found', 404);
+  }
+
+  const base = (key.split('/').pop() || 'export').replace(/\.ndjson$/, '');
+
+  const withGzip = (stream: ReadableStream<Uint8Array>) => {
+    if (!gz) return stream;
+    try {
+      return stream.pipeThrough(new (globalThis as any).CompressionStream('gzip', { level: gzl || 6 }));
+    } catch (error) {
+      try {
+        return stream.pipeThrough(new (globalThis as any).CompressionStream('gzip'));
+      } catch (fallbackError) {
+        console.warn('gzip unavailable', error, fallbackError);
+        return stream;
+      }
     }
+  };
 
-    if (commands.length === 0) {
-      status = 204;
-      return new Response(null, { status: 204 });
+  const columnar = COLUMNAR_EXPORTS[fmt];
+  const ext = columnar ? fmt : fmt === 'csv' ? 'csv' : 'ndjson';
+  const contentType = columnar?.contentType ?? (fmt === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+  const render = async (): Promise<ReadableStream<Uint8Array> | null> => {
+    const body = src.body as ReadableStream<Uint8Array>;
+    if (columnar) {
+      // Columnar files need the full schema up front, so the object is buffered rather than streamed.
+      const records = parseNdjsonRecords(await new Response(body).text());
+      if (records.length > MAX_COLUMNAR_ROWS) return null;
+      return new Response(columnar.encode(inferColumns(records, cols), records)).body as ReadableStream<Uint8Array>;
+    }
+    return fmt === 'csv' ? ndjsonToCsvStream(body, cols?.length ? cols : undefined) : body;
+  };
+  const tooLarge = () => c.text(`Too many rows for ${fmt}; download as ndjson or csv instead`, 413);
+
+  if (stage) {
+    const sig = await sha256Hex(JSON.stringify({ key, fmt, cols, gz, gzl }));
+    const stamp = new Date().toISOString().slice(0, 10);
+    const stagedKey = `staged/${stamp}/${base}-${sig}.${ext}${gz ? '.gz' : ''}`;
+    if (!(await bucket.head?.(stagedKey))) {
+      const body = await render();
+      if (!body) {
+        return tooLarge();
+      }
+      await bucket.put(stagedKey, withGzip(body), { httpMetadata: { contentType } });
     }
+    return c.redirect(`/api/admin/archive/object?key=${encodeURIComponent(stagedKey)}`, 302);
+  }
 
-    await markCommandsAttempted(
-      c.env.DB,
-      commands.map((cmd) => cmd.command_id),
-    );
+  const body = await render();
+  if (!body) {
+    return tooLarge();
+  }
+  return new Response(withGzip(body), {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${base}.${ext}${gz ? '.gz' : ''}"`,
+      'Cache-Control': 'no-store',
+      ...(gz ? { 'Content-Encoding': 'gzip' } : {}),
+    },
+  });
+});
 
-    const response = {
-      commands: commands.map((cmd) => ({
-        id: cmd.command_id,
-        ts: cmd.created_at,
-        expires_at: cmd.expires_at,
-        body: safeParseCommandBody(cmd.body_json),
-      })),
-    };
+const presentExportJob = (job: ExportJobRow) => ({
+  id: job.id,
+  requestedBy: job.requested_by,
+  status: job.status,
+  filters: JSON.parse(job.filters_json) as ExportJobInput,
+  deviceCount: (JSON.parse(job.device_ids_json) as string[]).length,
+  format: job.format,
+  progress: { done: job.done_chunks, total: job.total_chunks },
+  rows: job.row_count,
+  sizeBytes: job.size_bytes,
+  error: job.error,
+  createdAt: job.created_at,
+  completedAt: job.completed_at,
+});
 
-    status = 200;
-    return c.json(response);
-  } catch (error) {
-    console.error('command poll failed', error);
-    status = 500;
-    return c.text('Internal Server Error', 500);
-  } finally {
-    const duration = Date.now() - started;
-    await logOpsMetric(c.env.DB, '/api/device/commands/poll', status, duration, deviceId);
+app.get('/api/admin/exports', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
   }
+  requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare('SELECT * FROM export_jobs ORDER BY created_at DESC LIMIT 50').all<ExportJobRow>();
+  return c.json((rows.results ?? []).map(presentExportJob));
 });
 
-app.post('/api/device/:deviceId/commands/:commandId/ack', async (c) => {
-  const started = Date.now();
-  const deviceId = c.req.param('deviceId');
-  const commandId = c.req.param('commandId');
-  let status = 500;
-  try {
-    const ok = await verifyDeviceKey(c.env.DB, deviceId, c.req.header('X-GREENBRO-DEVICE-KEY'));
-    if (!ok) {
-      status = 403;
-      return c.text('Forbidden', 403);
-    }
+app.post('/api/admin/exports', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const parsed = parseExportJobInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
+  const deviceIds = await resolveExportDevices(c.env.DB, input);
+  if (deviceIds.length === 0) {
+    return bad(c, ['no devices match the selected client, sites or devices']);
+  }
+  if (deviceIds.length > MAX_EXPORT_DEVICES) {
+    return bad(c, [`exports may cover at most ${MAX_EXPORT_DEVICES} devices`]);
+  }
+  const { fromMs, toMs } = exportWindow(input);
+  const totalChunks = countExportChunks(deviceIds.length, fromMs, toMs, input.resolution);
+  if (totalChunks > MAX_EXPORT_CHUNKS) {
+    return bad(c, ['export is too large; narrow the window, pick a coarser resolution or fewer devices']);
+  }
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  await c.env.DB.prepare(
+    `INSERT INTO export_jobs
+       (id, requested_by, status, filters_json, device_ids_json, format, notify, display_json, total_chunks, created_at, updated_at)
+     VALUES (?, ?, 'queued', ?, ?, ?, ?, ?, ?, ?, ?)`,
+  )
+    .bind(
+      id,
+      auth.email ?? auth.sub,
+      JSON.stringify(input),
+      JSON.stringify(deviceIds),
+      input.format,
+      input.notify ? 1 : 0,
+      JSON.stringify(await loadDisplayPreferences(c.env.DB, auth.sub)),
+      totalChunks,
+      now,
+      now,
+    )
+    .run();
+  await audit(c.env as any, auth, 'export.create', id, { ...input, devices: deviceIds.length });
+  await exportDeps(c.env).enqueue?.(id);
+  return c.json({ ok: true, id, devices: deviceIds.length, chunks: totalChunks }, 202);
+});
 
-    const body = (await c.req.json().catch(() => null)) as {
-      status?: string;
-      details?: string;
-      applied_at?: string;
-    } | null;
-    if (!body || (body.status !== 'applied' && body.status !== 'failed')) {
-      status = 400;
-      return c.text('Bad Request', 400);
-    }
+app.post('/api/admin/exports/:id/cancel', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const result = await c.env.DB.prepare(
+    "UPDATE export_jobs SET status='cancelled', updated_at=?, completed_at=? WHERE id=? AND status IN ('queued','running','assembling')",
+  )
+    .bind(new Date().toISOString(), new Date().toISOString(), id)
+    .run();
+  if (!result.meta?.changes) {
+    return c.json({ ok: false, errors: ['export is not running'] }, 409);
+  }
+  await audit(c.env as any, auth, 'export.cancel', id);
+  return c.json({ ok: true });
+});
 
-    await expireStaleCommands(c.env.DB, deviceId);
+app.get('/api/admin/exports/:id/download', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const job = await loadExportJob(c.env.DB, c.req.param('id'));
+  if (!job || job.status !== 'done' || !job.object_key) {
+    return c.text('Not Found', 404);
+  }
+  return c.redirect(await exportDeps(c.env).signUrl(job.object_key), 302);
+});
 
-    const row = await c.env.DB
-      .prepare('SELECT status, write_id FROM device_commands WHERE command_id=? AND device_id=?')
-      .bind(commandId, deviceId)
-      .first<{ status: string; write_id: string | null }>();
-    if (!row) {
-      status = 404;
-      return c.text('Not Found', 404);
-    }
-    if (row.status === 'applied' || row.status === 'failed') {
-      status = 409;
-      return c.text('Conflict', 409);
-    }
-    if (row.status === 'expired') {
-      status = 404;
-      return c.text('Not Found', 404);
-    }
+app.get('/api/admin/archive/staged-for', async (c) => {
+  const jwt = c.req.header('Cf-Access-Jwt-Assertion');
+  if (!jwt) {
+    return c.text('Unauthorized', 401);
+  }
+  const auth = await verifyAccessJWT(c.env, jwt).catch(() => null);
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
 
-    const ackStatus = body.status === 'applied' ? 'applied' : 'failed';
-    const detail =
-      typeof body.details === 'string' && body.details.trim().length > 0 ? body.details.trim() : null;
-    const ackAt =
-      typeof body.applied_at === 'string' && body.applied_at.length > 0
-        ? body.applied_at
-        : new Date().toISOString();
+  const date = c.req.query('date');
+  const base = c.req.query('base');
+  if (!date || !base) {
+    return c.text('Bad Request', 400);
+  }
 
-    await c.env.DB
-      .prepare(
-        `UPDATE device_commands
-           SET status=?, ack_status=?, ack_detail=?, ack_at=?
-         WHERE command_id=? AND device_id=?`,
-      )
-      .bind(ackStatus, ackStatus, detail, ackAt, commandId, deviceId)
-      .run();
+  const bucket: any = (c.env as any).ARCHIVE || (c.env as any).REPORTS;
+  if (!bucket?.list) {
+    return c.json({});
+  }
+  let latest: any = null;
 
-    if (row.write_id) {
-      await c.env.DB
-        .prepare('UPDATE writes SET result=? WHERE id=?')
-        .bind(ackStatus, row.write_id)
-        .run()
-        .catch(() => {});
+  try {
+    const prefix = `staged/${date}/${base}-`;
+    const res = await bucket.list({ prefix });
+    for (const o of res.objects || []) {
+      const m = /-p-([A-Za-z0-9_-]+)-/.exec(o.key);
+      const preset = m ? m[1] : o.customMetadata?.preset || null;
+      if (!latest || (o.uploaded && latest.uploaded && o.uploaded > latest.uploaded)) {
+        latest = { key: o.key, preset, size: o.size, uploaded: o.uploaded };
+      }
     }
-
-    try {
-      const stateId = c.env.DeviceState.idFromName(deviceId);
-      const stateStub = c.env.DeviceState.get(stateId);
-      await stateStub.fetch('https://do/command/ack', {
-        method: 'POST',
-        headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({
-          commandId,
-          status: ackStatus,
-          details: detail ?? undefined,
-          ackAt,
-        }),
-      });
-    } catch (error) {
-      console.warn('device state ack propagate failed', error);
+  } catch (error) {
+    console.warn('staged-for lookup failed', error);
+  }
+
+  return c.json(latest || {});
+});
+
+// --- Ingest: Telemetry & Heartbeat ---
+// Simple shape guard (keep strict & small): 256KB max handled by Cloudflare automatically if set.
+type IngestStatus = {
+  mode?: string;
+  defrost?: boolean;
+  online?: boolean;
+  flags?: Record<string, unknown>;
+  [key: string]: unknown;
+};
+
+type IngestFault = {
+  code?: string;
+  description?: string;
+  active?: boolean;
+};
+
+type ValidIngestPayload = {
+  device_id: string;
+  ts: string;
+  metrics: Record<string, unknown>;
+  status?: IngestStatus | null;
+  faults?: IngestFault[] | null;
+  meta?: Record<string, unknown> | null;
+};
+
+type ValidHeartbeatPayload = {
+  device_id: string;
+  timestamp: string;
+  rssi?: number | null;
+};
+
+app.post('/api/ingest/:profileId', async (c) => {
+  const started = Date.now();
+  let status = 500;
+  let deviceId: string | undefined;
+  try {
+    const oversized = await rejectOversizedPayload(c);
+    if (oversized) {
+      status = oversized.status;
+      return oversized;
+    }
+    const body = await c.req.json().catch(() => null);
+    if (!body || !validateIngest(body)) {
+      status = 400;
+      return bad(c, validateIngest.errors);
     }
 
-    status = 200;
-    return c.json({ ok: true });
+    const payload = body as ValidIngestPayload;
+    deviceId = payload.device_id;
+    if (!deviceId) {
+      status = 400;
+      return c.text('Invalid device_id', 400);
+    }
+    const ok = await verifyDeviceKey(c.env.DB, deviceId, c.req.header('X-GREENBRO-DEVICE-KEY'), c.req.header('CF-Connecting-IP'));
+    if (!ok) {
+      status = 403;
+      return c.text('Forbidden', 403);
+    }
+
+    const profileId = c.req.param('profileId');
+    const deviceContext = await getDeviceContext(c.env.DB, deviceId);
+    if (!deviceContext) {
+      status = 404;
+      return c.text('Unknown device', 404);
+    }
+    if (deviceContext.profile_id && deviceContext.profile_id !== profileId) {
+      status = 403;
+      return c.text('Profile mismatch', 403);
+    }
+    const limited = await enforceControllerRateLimit(c.env, deviceId, 'ingest', { profileId });
+    if (limited) {
+      status = limited.status;
+      return limited;
+    }
+    const idemKey = await (async () => {
+      const bytes = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(body)));
+      return [...new Uint8Array(bytes)].map((b) => b.toString(16).padStart(2, '0')).join('');
+    })();
+
+    if (await isDuplicate(c.env.DB, idemKey)) {
+      status = 200;
+      return c.json({ ok: true, deduped: true });
+    }
+
+    const rawMetrics = payload.metrics ?? {};
+    const rawStatus: IngestStatus =
+      typeof payload.status === 'object' && payload.status ? (payload.status as IngestStatus) : {};
+
+    const profile = await loadControllerProfile(c.env.DB, profileId);
+    const normalized = normalizeMetrics(profile, rawMetrics as Record<string, unknown>);
+    if (!normalized.ok) {
+      status = 400;
+      return c.text(`Missing ${normalized.missing.join(' or ')} metrics`, 400);
+    }
+    const telemetryMetrics = normalized.metrics;
+
+    let statusFlags = normalizeFlagMap(rawStatus.flags);
+    const telemetryStatus: TelemetryPayload['status'] = {
+      mode: typeof rawStatus.mode === 'string' ? rawStatus.mode : undefined,
+      defrost: typeof rawStatus.defrost === 'boolean' ? rawStatus.defrost : undefined,
+      online: typeof rawStatus.online === 'boolean' ? rawStatus.online : undefined,
+    };
+    if (statusFlags && Object.keys(statusFlags).length > 0) {
+      telemetryStatus.flags = statusFlags;
+    }
+
+    const telemetryFaults = Array.isArray(payload.faults)
+      ? payload.faults
+          .map((fault) => {
+            if (!fault || typeof fault.code !== 'string') {
+              return null;
+            }
+            const trimmed = fault.code.trim();
+            if (!trimmed) {
+              return null;
+            }
+            const active =
+              typeof fault.active === 'boolean' ? fault.active : fault.active == null ? true : Boolean(fault.active);
+            const description =
+              typeof fault.description === 'string' && fault.description.trim().length > 0
+                ? fault.description.trim()
+                : undefined;
+            return { code: trimmed, active, ...(description ? { description } : {}) };
+          })
+          .filter((fault): fault is { code: string; active: boolean; description?: string } => fault !== null)
+      : undefined;
+
+    const telemetry: TelemetryPayload = {
+      deviceId,
+      ts: payload.ts,
+      metrics: telemetryMetrics,
+      status: telemetryStatus,
+    };
+    if (telemetryFaults) {
+      telemetry.faults = telemetryFaults;
+    }
+
+    const enqueued = Boolean(c.env.INGEST_Q);
+    if (enqueued) {
+      await c.env.INGEST_Q.send({ type: 'telemetry', profileId, body: telemetry });
+    } else {
+      await processTelemetryInline(c.env, telemetry, payload.ts);
+    }
+
+    status = enqueued ? 202 : 200;
+    return c.json({ ok: true, queued: enqueued }, status);
   } catch (error) {
-    console.error('command ack failed', error);
+    console.error('Failed to ingest telemetry', error);
     status = 500;
     return c.text('Internal Server Error', 500);
   } finally {
     const duration = Date.now() - started;
-    await logOpsMetric(c.env.DB, '/api/device/commands/ack', status, duration, deviceId);
+    await logOpsMetric(c.env.DB, '/api/ingest', status, duration, deviceId);
+  }
+});
+
+app.get('/api/ops/deviation-counters', async (c) => {
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare(
+    `SELECT
+      COALESCE(json_extract(meta_json, '$.kind'), 'delta_t') AS kind,
+      severity,
+      COUNT(*) AS n
+    FROM alerts
+    WHERE type='baseline_deviation'
+      AND state IN ('open','ack')
+      AND opened_at >= datetime('now','-24 hours')
+    GROUP BY kind, severity`,
+  ).all<{ kind: string | null; severity: string | null; n: number }>();
+
+  const counters: Record<'delta_t' | 'cop' | 'current', { warning: number; critical: number }> = {
+    delta_t: { warning: 0, critical: 0 },
+    cop: { warning: 0, critical: 0 },
+    current: { warning: 0, critical: 0 },
+  };
+
+  for (const row of rows.results ?? []) {
+    const kind = (row.kind ?? 'delta_t') as 'delta_t' | 'cop' | 'current';
+    if (!counters[kind]) {
+      continue;
+    }
+    const severity = row.severity === 'critical' ? 'critical' : row.severity === 'warning' ? 'warning' : null;
+    if (!severity) {
+      continue;
+    }
+    counters[kind][severity] = row.n;
+  }
+
+  return c.json(counters);
+});
+
+app.get('/api/ops/deviation-hotlist', async (c) => {
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const rawLimit = Number(c.req.query('limit') ?? 5);
+  const limit = Number.isFinite(rawLimit) ? Math.min(10, Math.max(1, rawLimit)) : 5;
+  const rows = await c.env.DB.prepare(
+    `WITH last_hour AS (
+       SELECT a.device_id,
+              COALESCE(json_extract(a.meta_json,'$.kind'),'delta_t') AS kind,
+              MAX(CASE WHEN a.severity='critical' THEN 1 ELSE 0 END) AS any_crit,
+              MIN(a.opened_at) AS since,
+              json_extract(a.meta_json,'$.coverage') AS coverage,
+              json_extract(a.meta_json,'$.drift') AS drift
+         FROM alerts a
+        WHERE a.type='baseline_deviation'
+          AND a.state IN ('open','ack')
+          AND a.opened_at >= datetime('now','-60 minutes')
+        GROUP BY a.device_id, kind
+     )
+     SELECT lh.device_id, lh.kind, lh.any_crit, lh.since, lh.coverage, lh.drift,
+            s.site_id, s.name AS site_name, s.region
+       FROM last_hour lh
+       LEFT JOIN devices d ON d.device_id = lh.device_id
+       LEFT JOIN sites s ON s.site_id = d.site_id
+      ORDER BY lh.any_crit DESC,
+               (1.0 - COALESCE(lh.coverage, 0.0)) DESC,
+               lh.since ASC
+      LIMIT ?`,
+  )
+    .bind(limit)
+    .all<{
+      device_id: string;
+      kind: 'delta_t' | 'cop' | 'current';
+      any_crit: number;
+      since: string;
+      coverage: number | null;
+      drift: number | null;
+      site_id: string | null;
+      site_name: string | null;
+      region: string | null;
+    }>();
+
+  return c.json(rows.results ?? []);
+});
+
+app.post('/api/ops/recompute-baselines', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  await recomputeBaselines(c.env.DB);
+  return c.json({ ok: true });
+});
+
+app.post('/api/ops/incidents/sweep', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const url = new URL(c.req.url);
+  const hoursParam = url.searchParams.get('hours');
+  const hours = Number(hoursParam ?? '48');
+  const windowHours = Number.isFinite(hours) && hours > 0 ? Math.min(hours, 240) : 48;
+  const result = await sweepIncidents(c.env.DB, windowHours);
+  return c.json({ ok: true, windowHours, ...result });
+});
+
+app.get('/api/ops/incidents', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const url = new URL(c.req.url);
+  const sinceParam = url.searchParams.get('since');
+  const siteId = url.searchParams.get('siteId');
+
+  let sinceExpr = "datetime('now', ?)";
+  const bind: string[] = [];
+
+  if (sinceParam && /^\d{4}-\d{2}-\d{2}/.test(sinceParam)) {
+    sinceExpr = '?';
+    bind.push(sinceParam);
+  } else {
+    bind.push(sinceParam ?? '-72 hours');
+  }
+
+  let siteClause = '';
+  if (siteId) {
+    siteClause = ' AND i.site_id = ?';
+    bind.push(siteId);
+  }
+
+  const rows = await c.env.DB.prepare(
+    `SELECT i.incident_id, i.site_id, i.started_at, i.last_alert_at, i.resolved_at,
+            i.title, i.status, i.severity, i.owner, s.name AS site_name
+       FROM incidents i
+       LEFT JOIN sites s ON s.site_id = i.site_id
+      WHERE i.started_at >= ${sinceExpr}${siteClause}
+        AND i.merged_into IS NULL
+      ORDER BY i.started_at DESC
+      LIMIT 200`,
+  )
+    .bind(...bind)
+    .all<{
+      incident_id: string;
+      site_id: string;
+      started_at: string;
+      last_alert_at: string;
+      resolved_at: string | null;
+      title: string | null;
+      status: string | null;
+      severity: string | null;
+      owner: string | null;
+      site_name: string | null;
+    }>();
+
+  const incidents = rows.results ?? [];
+  if (incidents.length === 0) {
+    return c.json([]);
+  }
+
+  const ids = incidents.map((r) => r.incident_id);
+  const placeholders = ids.map(() => '?').join(',');
+  const alertRows = await c.env.DB.prepare(
+    `SELECT ia.incident_id, a.type, a.severity, a.state, COUNT(*) as count
+       FROM incident_alerts ia
+       JOIN alerts a ON a.alert_id = ia.alert_id
+      WHERE ia.incident_id IN (${placeholders})
+      GROUP BY ia.incident_id, a.type, a.severity, a.state`,
+  )
+    .bind(...ids)
+    .all<{ incident_id: string; type: string; severity: string; state: string; count: number }>();
+
+  const grouped = new Map<
+    string,
+    {
+      states: Record<string, number>;
+      types: Map<string, { type: string; severity: string; count: number }>;
+    }
+  >();
+
+  for (const row of alertRows.results ?? []) {
+    if (!grouped.has(row.incident_id)) {
+      grouped.set(row.incident_id, { states: {}, types: new Map() });
+    }
+    const bucket = grouped.get(row.incident_id)!;
+    bucket.states[row.state] = (bucket.states[row.state] ?? 0) + row.count;
+    const key = `${row.type}::${row.severity}`;
+    const prev = bucket.types.get(key);
+    if (prev) {
+      prev.count += row.count;
+    } else {
+      bucket.types.set(key, { type: row.type, severity: row.severity, count: row.count });
+    }
+  }
+
+  const out = incidents.map((incident) => {
+    const meta = grouped.get(incident.incident_id);
+    const states = meta?.states ?? {};
+    const total = Object.values(states).reduce((acc, value) => acc + value, 0);
+    return {
+      incidentId: incident.incident_id,
+      siteId: incident.site_id,
+      siteName: incident.site_name ?? null,
+      startedAt: incident.started_at,
+      lastAlertAt: incident.last_alert_at,
+      resolvedAt: incident.resolved_at,
+      title: incident.title ?? null,
+      status: incident.status ?? (incident.resolved_at ? 'resolved' : 'investigating'),
+      severity: incident.severity ?? null,
+      owner: incident.owner ?? null,
+      alerts: {
+        total,
+        open: states.open ?? 0,
+        ack: states.ack ?? 0,
+        closed: states.closed ?? 0,
+      },
+      types: meta ? Array.from(meta.types.values()) : [],
+    };
+  });
+
+  return c.json(out);
+});
+
+function serializeIncident(incident: IncidentRow) {
+  return {
+    incidentId: incident.incident_id,
+    siteId: incident.site_id,
+    startedAt: incident.started_at,
+    lastAlertAt: incident.last_alert_at,
+    resolvedAt: incident.resolved_at,
+    title: incident.title,
+    status: incident.status,
+    severity: incident.severity,
+    owner: incident.owner,
+    rootCause: incident.root_cause,
+    postmortem: incident.postmortem,
+    mergedInto: incident.merged_into,
+  };
+}
+
+app.get('/api/ops/incidents/:id', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const incident = await loadIncident(c.env.DB, c.req.param('id'));
+  if (!incident) {
+    return c.text('Not Found', 404);
+  }
+  const [site, alerts, timeline] = await Promise.all([
+    c.env.DB.prepare('SELECT name FROM sites WHERE site_id=?').bind(incident.site_id).first<{ name: string | null }>(),
+    c.env.DB.prepare(
+      `SELECT a.alert_id, a.device_id, a.type, a.severity, a.state, a.opened_at, a.closed_at, a.ack_by
+         FROM incident_alerts ia
+         JOIN alerts a ON a.alert_id = ia.alert_id
+        WHERE ia.incident_id=?
+        ORDER BY a.opened_at`,
+    )
+      .bind(incident.incident_id)
+      .all<{
+        alert_id: string;
+        device_id: string;
+        type: string;
+        severity: string;
+        state: string;
+        opened_at: string;
+        closed_at: string | null;
+        ack_by: string | null;
+      }>(),
+    loadIncidentTimeline(c.env.DB, incident),
+  ]);
+  return c.json({
+    ...serializeIncident(incident),
+    siteName: site?.name ?? null,
+    alerts: (alerts.results ?? []).map((row) => ({
+      alertId: row.alert_id,
+      deviceId: row.device_id,
+      type: row.type,
+      severity: row.severity,
+      state: row.state,
+      openedAt: row.opened_at,
+      closedAt: row.closed_at,
+      ackBy: row.ack_by,
+    })),
+    timeline,
+  });
+});
+
+app.put('/api/ops/incidents/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const incident = await loadIncident(c.env.DB, c.req.param('id'));
+  if (!incident || incident.merged_into) {
+    return c.text('Not Found', 404);
+  }
+  const parsed = parseIncidentUpdateInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const actor = auth.email ?? auth.sub;
+  const updated = await updateIncident(c.env.DB, incident, parsed.value, actor);
+  await audit(c.env as any, auth, 'incident.update', incident.incident_id, parsed.value);
+  return c.json(serializeIncident(updated));
+});
+
+app.post('/api/ops/incidents/:id/comments', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const incident = await loadIncident(c.env.DB, c.req.param('id'));
+  if (!incident) {
+    return c.text('Not Found', 404);
+  }
+  const parsed = parseIncidentTextInput(await c.req.json().catch(() => null), 'body');
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  await recordIncidentEvent(c.env.DB, incident.incident_id, 'comment', auth.email ?? auth.sub, parsed.value);
+  await audit(c.env as any, auth, 'incident.comment', incident.incident_id, { length: parsed.value.length });
+  return c.json({ ok: true });
+});
+
+app.put('/api/ops/incidents/:id/postmortem', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const incident = await loadIncident(c.env.DB, c.req.param('id'));
+  if (!incident || incident.merged_into) {
+    return c.text('Not Found', 404);
+  }
+  const parsed = parseIncidentTextInput(await c.req.json().catch(() => null), 'postmortem');
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  await c.env.DB.prepare("UPDATE incidents SET postmortem=?, updated_at=datetime('now') WHERE incident_id=?")
+    .bind(parsed.value, incident.incident_id)
+    .run();
+  await recordIncidentEvent(c.env.DB, incident.incident_id, 'postmortem', auth.email ?? auth.sub, null, {
+    field: 'postmortem',
+  });
+  await audit(c.env as any, auth, 'incident.postmortem', incident.incident_id, { length: parsed.value.length });
+  return c.json({ ok: true });
+});
+
+app.post('/api/ops/incidents/:id/alerts', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const incident = await loadIncident(c.env.DB, c.req.param('id'));
+  if (!incident || incident.merged_into) {
+    return c.text('Not Found', 404);
+  }
+  const parsed = parseIdListInput(await c.req.json().catch(() => null), 'alertIds');
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const linked = await linkAlertsToIncident(c.env.DB, incident.incident_id, parsed.value, auth.email ?? auth.sub);
+  await audit(c.env as any, auth, 'incident.link_alerts', incident.incident_id, { alertIds: linked });
+  return c.json({ ok: true, linked });
+});
+
+app.post('/api/ops/incidents/:id/merge', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const incident = await loadIncident(c.env.DB, c.req.param('id'));
+  if (!incident || incident.merged_into) {
+    return c.text('Not Found', 404);
+  }
+  const parsed = parseIdListInput(await c.req.json().catch(() => null), 'incidentIds');
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const merged = await mergeIncidents(c.env.DB, incident, parsed.value, auth.email ?? auth.sub);
+  if (merged.length === 0) {
+    return bad(c, ['no mergeable incidents found']);
+  }
+  await audit(c.env as any, auth, 'incident.merge', incident.incident_id, { incidentIds: merged });
+  return c.json({ ok: true, merged });
+});
+
+app.post('/api/ops/incidents/:id/split', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const incident = await loadIncident(c.env.DB, c.req.param('id'));
+  if (!incident || incident.merged_into) {
+    return c.text('Not Found', 404);
+  }
+  const parsed = parseIdListInput(await c.req.json().catch(() => null), 'alertIds');
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const incidentId = await splitIncident(c.env.DB, incident, parsed.value, auth.email ?? auth.sub);
+  if (!incidentId) {
+    return bad(c, ['none of the alerts belong to this incident']);
+  }
+  await audit(c.env as any, auth, 'incident.split', incident.incident_id, { incidentId, alertIds: parsed.value });
+  return c.json({ ok: true, incidentId });
+});
+
+app.post('/api/heartbeat/:profileId', async (c) => {
+  const oversized = await rejectOversizedPayload(c);
+  if (oversized) return oversized;
+  const body = await c.req.json().catch(() => null);
+  if (!body || !validateHeartbeat(body)) {
+    return bad(c, validateHeartbeat.errors);
+  }
+  const payload = body as ValidHeartbeatPayload;
+  const deviceId = payload.device_id;
+  const timestamp = payload.timestamp;
+  const rssi = typeof payload.rssi === 'number' && Number.isFinite(payload.rssi) ? payload.rssi : null;
+
+  const ok = await verifyDeviceKey(c.env.DB, deviceId, c.req.header('X-GREENBRO-DEVICE-KEY'), c.req.header('CF-Connecting-IP'));
+  if (!ok) return c.text('Forbidden', 403);
+
+  const profileId = c.req.param('profileId');
+  const heartbeat: HeartbeatPayload = { deviceId, ts: timestamp, rssi: rssi ?? undefined };
+  const deviceContext = await getDeviceContext(c.env.DB, deviceId);
+  if (!deviceContext) {
+    return c.text('Unknown device', 404);
+  }
+  if (deviceContext.profile_id && deviceContext.profile_id !== profileId) {
+    return c.text('Profile mismatch', 403);
+  }
+  const limited = await enforceControllerRateLimit(c.env, deviceId, 'heartbeat', { profileId });
+  if (limited) return limited;
+
+  const enqueued = Boolean(c.env.INGEST_Q);
+  if (enqueued) {
+    await c.env.INGEST_Q.send({ type: 'heartbeat', profileId, body: heartbeat });
+  } else {
+    await processHeartbeatInline(c.env, heartbeat, timestamp);
+  }
+
+  return c.json({ ok: true, queued: enqueued }, enqueued ? 202 : 200);
+});
+
+app.post('/api/device/:deviceId/commands/poll', async (c) => {
+  const started = Date.now();
+  const deviceId = c.req.param('deviceId');
+  let status = 500;
+  try {
+    const oversized = await rejectOversizedPayload(c);
+    if (oversized) {
+      status = oversized.status;
+      return oversized;
+    }
+    const ok = await verifyDeviceKey(c.env.DB, deviceId, c.req.header('X-GREENBRO-DEVICE-KEY'), c.req.header('CF-Connecting-IP'));
+    if (!ok) {
+      status = 403;
+      return c.text('Forbidden', 403);
+    }
+    const limited = await enforceControllerRateLimit(c.env, deviceId, 'poll');
+    if (limited) {
+      status = limited.status;
+      return limited;
+    }
+
+    const body = (await c.req.json().catch(() => ({}))) as { max?: number; wait_s?: number; last_ack?: string };
+    const max = clampInt(body?.max, 1, MAX_COMMANDS_PER_POLL, 1);
+    const waitS = clampInt(body?.wait_s, 0, MAX_COMMAND_WAIT_S, 0);
+
+    await expireStaleCommands(c.env.DB, deviceId);
+
+    const deadline = Date.now() + waitS * 1000;
+    let commands = await fetchPendingCommands(c.env.DB, deviceId, max);
+    while (commands.length === 0 && waitS > 0 && Date.now() < deadline) {
+      await sleep(1000);
+      await expireStaleCommands(c.env.DB, deviceId);
+      commands = await fetchPendingCommands(c.env.DB, deviceId, max);
+    }
+
+    if (commands.length === 0) {
+      status = 204;
+      return new Response(null, { status: 204 });
+    }
+
+    await markCommandsAttempted(
+      c.env.DB,
+      commands.map((cmd) => cmd.command_id),
+    );
+
+    const response = {
+      commands: commands.map((cmd) => ({
+        id: cmd.command_id,
+        ts: cmd.created_at,
+        expires_at: cmd.expires_at,
+        body: safeParseCommandBody(cmd.body_json),
+      })),
+    };
+
+    status = 200;
+    return c.json(response);
+  } catch (error) {
+    console.error('command poll failed', error);
+    status = 500;
+    return c.text('Internal Server Error', 500);
+  } finally {
+    const duration = Date.now() - started;
+    await logOpsMetric(c.env.DB, '/api/device/commands/poll', status, duration, deviceId);
+  }
+});
+
+app.post('/api/device/:deviceId/commands/:commandId/ack', async (c) => {
+  const started = Date.now();
+  const deviceId = c.req.param('deviceId');
+  const commandId = c.req.param('commandId');
+  let status = 500;
+  try {
+    const ok = await verifyDeviceKey(c.env.DB, deviceId, c.req.header('X-GREENBRO-DEVICE-KEY'), c.req.header('CF-Connecting-IP'));
+    if (!ok) {
+      status = 403;
+      return c.text('Forbidden', 403);
+    }
+
+    const body = (await c.req.json().catch(() => null)) as {
+      status?: string;
+      details?: string;
+      applied_at?: string;
+    } | null;
+    if (!body || (body.status !== 'applied' && body.status !== 'failed')) {
+      status = 400;
+      return c.text('Bad Request', 400);
+    }
+
+    await expireStaleCommands(c.env.DB, deviceId);
+
+    const row = await c.env.DB
+      .prepare('SELECT status, write_id FROM device_commands WHERE command_id=? AND device_id=?')
+      .bind(commandId, deviceId)
+      .first<{ status: string; write_id: string | null }>();
+    if (!row) {
+      status = 404;
+      return c.text('Not Found', 404);
+    }
+    if (row.status === 'applied' || row.status === 'failed') {
+      status = 409;
+      return c.text('Conflict', 409);
+    }
+    if (row.status === 'expired') {
+      status = 404;
+      return c.text('Not Found', 404);
+    }
+
+    const ackStatus = body.status === 'applied' ? 'applied' : 'failed';
+    const detail =
+      typeof body.details === 'string' && body.details.trim().length > 0 ? body.details.trim() : null;
+    const ackAt =
+      typeof body.applied_at === 'string' && body.applied_at.length > 0
+        ? body.applied_at
+        : new Date().toISOString();
+
+    await c.env.DB
+      .prepare(
+        `UPDATE device_commands
+           SET status=?, ack_status=?, ack_detail=?, ack_at=?
+         WHERE command_id=? AND device_id=?`,
+      )
+      .bind(ackStatus, ackStatus, detail, ackAt, commandId, deviceId)
+      .run();
+
+    if (row.write_id) {
+      await c.env.DB
+        .prepare('UPDATE writes SET result=? WHERE id=?')
+        .bind(ackStatus, row.write_id)
+        .run()
+        .catch(() => {});
+    }
+
+    try {
+      const stateId = c.env.DeviceState.idFromName(deviceId);
+      const stateStub = c.env.DeviceState.get(stateId);
+      await stateStub.fetch('https://do/command/ack', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          commandId,
+          status: ackStatus,
+          details: detail ?? undefined,
+          ackAt,
+        }),
+      });
+    } catch (error) {
+      console.warn('device state ack propagate failed', error);
+    }
+
+    status = 200;
+    return c.json({ ok: true });
+  } catch (error) {
+    console.error('command ack failed', error);
+    status = 500;
+    return c.text('Internal Server Error', 500);
+  } finally {
+    const duration = Date.now() - started;
+    await logOpsMetric(c.env.DB, '/api/device/commands/ack', status, duration, deviceId);
+  }
+});
+
+app.get('/api/commissioning/settings', async (c) => {
+  const [delta, flow, cop] = await Promise.all([
+    getSetting(c.env.DB, 'commissioning_delta_t_min'),
+    getSetting(c.env.DB, 'commissioning_flow_min_lpm'),
+    getSetting(c.env.DB, 'commissioning_cop_min'),
+  ]);
+  return c.json({
+    delta_t_min: numberFromSetting(delta, 0),
+    flow_min_lpm: numberFromSetting(flow, 0),
+    cop_min: numberFromSetting(cop, 0),
+  });
+});
+
+type ChecklistRow = {
+  checklist_id: string;
+  name: string;
+  version: number;
+  steps_json: string;
+  required_steps_json: string | null;
+};
+
+const withChecklistSteps = (row: ChecklistRow) => ({
+  ...row,
+  steps: readChecklistSteps(row.steps_json, row.required_steps_json),
+});
+
+async function loadChecklist(DB: D1Database, id: string): Promise<ChecklistRow | null> {
+  return DB.prepare(
+    'SELECT checklist_id,name,version,steps_json,required_steps_json FROM commissioning_checklists WHERE checklist_id=?',
+  )
+    .bind(id)
+    .first<ChecklistRow>();
+}
+
+/** The step definition from the checklist version the session started with, if the session has one. */
+async function loadSessionStep(
+  DB: D1Database,
+  sessionId: string,
+  stepId: string,
+): Promise<{
+  session: { device_id: string; checklist_id: string | null; status: string } | null;
+  step: ChecklistStep | null;
+  typed: boolean;
+}> {
+  const session = await DB.prepare('SELECT * FROM commissioning_sessions WHERE session_id=?')
+    .bind(sessionId)
+    .first<{ device_id: string; checklist_id: string | null; status: string }>();
+  if (!session?.checklist_id) {
+    return { session, step: null, typed: false };
+  }
+  const checklist = await loadChecklist(DB, session.checklist_id);
+  const steps = checklist ? readChecklistSteps(checklist.steps_json, checklist.required_steps_json) : [];
+  return {
+    session,
+    step: steps.find((step) => step.id === stepId) ?? null,
+    typed: hasTypedSteps(checklist?.steps_json),
+  };
+}
+
+/**
+ * Why a session no longer takes changes, or null while it is in progress and unsigned. A customer signature seals
+ * the session, its steps and attachments, so nothing it covers may change afterwards.
+ */
+async function sessionLockReason(
+  DB: D1Database,
+  sessionId: string,
+): Promise<'not_found' | 'already_signed' | 'session_closed' | null> {
+  const session = await DB.prepare('SELECT * FROM commissioning_sessions WHERE session_id=?')
+    .bind(sessionId)
+    .first<{ status: string }>();
+  if (!session) {
+    return 'not_found';
+  }
+  if (await loadSignature(DB, sessionId)) {
+    return 'already_signed';
+  }
+  return session.status === 'in_progress' ? null : 'session_closed';
+}
+
+app.get('/api/commissioning/checklists', async (c) => {
+  const rows = await c.env.DB.prepare(
+    'SELECT checklist_id,name,version,steps_json,required_steps_json FROM commissioning_checklists ORDER BY created_at DESC',
+  ).all<ChecklistRow>();
+  return c.json((rows.results ?? []).map(withChecklistSteps));
+});
+
+app.get('/api/commissioning/checklist/:id', async (c) => {
+  const row = await loadChecklist(c.env.DB, c.req.param('id'));
+  return row ? c.json(withChecklistSteps(row)) : c.text('Not Found', 404);
+});
+
+// Edits never touch an existing version: each save inserts `<name>-v<n+1>` and sessions keep their version.
+app.post('/api/admin/commissioning/checklists', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin']);
+  const parsed = parseChecklistInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const { name, steps } = parsed.value;
+  const latest = await c.env.DB.prepare('SELECT MAX(version) AS version FROM commissioning_checklists WHERE name=?')
+    .bind(name)
+    .first<{ version: number | null }>();
+  const version = Number(latest?.version ?? 0) + 1;
+  const id = checklistId(name, version);
+  try {
+    await c.env.DB.prepare(
+      `INSERT INTO commissioning_checklists (checklist_id, version, name, steps_json, required_steps_json, created_by)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    )
+      .bind(
+        id,
+        version,
+        name,
+        JSON.stringify(steps),
+        JSON.stringify(steps.filter((step) => step.required).map((step) => step.id)),
+        auth.sub ?? null,
+      )
+      .run();
+  } catch (error) {
+    console.warn('checklist version insert failed', error);
+    return c.json({ ok: false, error: 'exists', id }, 409);
+  }
+  await audit(c.env as any, auth, 'commissioning.checklist_version', id, { name, version, steps: steps.length });
+  return c.json({ ok: true, checklist_id: id, version });
+});
+
+app.get('/api/commissioning/sessions', async (c) => {
+  const rows = await c.env.DB.prepare(
+    `SELECT session_id, device_id, site_id, operator_sub, started_at, finished_at, status, notes, checklist_id,
+            (SELECT MAX(updated_at) FROM commissioning_steps WHERE session_id = cs.session_id) AS last_update
+       FROM commissioning_sessions cs
+       ORDER BY started_at DESC
+       LIMIT 200`,
+  ).all<{
+    session_id: string;
+    device_id: string;
+    site_id: string | null;
+    operator_sub: string;
+    started_at: string;
+    finished_at: string | null;
+    status: string;
+    notes: string | null;
+    last_update: string | null;
+    checklist_id: string | null;
+  }>();
+
+  const sessions = (rows.results ?? []).map((row) => ({
+    session_id: row.session_id,
+    device_id: row.device_id,
+    site_id: row.site_id ?? null,
+    operator_sub: row.operator_sub,
+    started_at: row.started_at,
+    finished_at: row.finished_at ?? null,
+    status: row.status,
+    notes: row.notes ?? null,
+    last_update: row.last_update ?? null,
+    checklist_id: row.checklist_id ?? null,
+  }));
+
+  return c.json(sessions);
+});
+
+app.get('/api/commissioning/session/:id', async (c) => {
+  const id = c.req.param('id');
+  const session = await c.env.DB.prepare(
+    'SELECT session_id, device_id, site_id, operator_sub, started_at, finished_at, status, notes, checklist_id FROM commissioning_sessions WHERE session_id=?',
+  )
+    .bind(id)
+    .first<{
+      session_id: string;
+      device_id: string;
+      site_id: string | null;
+      operator_sub: string;
+      started_at: string;
+      finished_at: string | null;
+      status: string;
+      notes: string | null;
+      checklist_id: string | null;
+    }>();
+
+  if (!session) {
+    return c.text('Not Found', 404);
+  }
+
+  const steps = await c.env.DB.prepare(
+    'SELECT step_id,title,state,readings_json,comment,updated_at,version FROM commissioning_steps WHERE session_id=? ORDER BY updated_at',
+  )
+    .bind(id)
+    .all<{
+      step_id: string;
+      title: string;
+      state: string;
+      readings_json: string | null;
+      comment: string | null;
+      updated_at: string;
+      version: number;
+    }>();
+
+  const artifacts = await c.env.DB.prepare(
+    'SELECT kind,r2_key,size_bytes,created_at FROM commissioning_artifacts WHERE session_id=?',
+  )
+    .bind(id)
+    .all<{
+      kind: string;
+      r2_key: string;
+      size_bytes: number | null;
+      created_at: string;
+    }>();
+
+  const parsedSteps = (steps.results ?? []).map((row) => {
+    let readings: Record<string, unknown> | null = null;
+    if (row.readings_json) {
+      try {
+        const parsed = JSON.parse(row.readings_json);
+        if (parsed && typeof parsed === 'object') {
+          readings = parsed as Record<string, unknown>;
+        }
+      } catch (error) {
+        console.warn('commissioning step readings parse failed', error);
+      }
+    }
+    return {
+      step_id: row.step_id,
+      title: row.title,
+      state: row.state,
+      readings,
+      comment: row.comment ?? null,
+      updated_at: row.updated_at,
+      version: row.version,
+    };
+  });
+
+  const artifactMap = new Map<string, { r2_key: string; size_bytes: number | null; created_at: string }>();
+  for (const row of artifacts.results ?? []) {
+    artifactMap.set(row.kind, {
+      r2_key: row.r2_key,
+      size_bytes: row.size_bytes ?? null,
+      created_at: row.created_at,
+    });
+  }
+
+  const checklist = session.checklist_id ? await loadChecklist(c.env.DB, session.checklist_id) : null;
+  const attachments = await loadSessionAttachments(c.env.DB, id);
+  const signature = await loadSignature(c.env.DB, id);
+
+  return c.json({
+    session: {
+      session_id: session.session_id,
+      device_id: session.device_id,
+      site_id: session.site_id ?? null,
+      operator_sub: session.operator_sub,
+      started_at: session.started_at,
+      finished_at: session.finished_at ?? null,
+      status: session.status,
+      notes: session.notes ?? null,
+      checklist_id: session.checklist_id ?? null,
+    },
+    checklist: checklist
+      ? {
+          checklist_id: checklist.checklist_id,
+          name: checklist.name,
+          version: checklist.version,
+          steps: readChecklistSteps(checklist.steps_json, checklist.required_steps_json),
+        }
+      : null,
+    steps: parsedSteps,
+    artifacts: Object.fromEntries(artifactMap.entries()),
+    attachments: await Promise.all(attachments.map((row) => attachmentView(c.env, row))),
+    signature: signature
+      ? {
+          signer_name: signature.signer_name,
+          signed_at: signature.signed_at,
+          state_hash: signature.state_hash,
+          image_url: await getSignedR2Url(c.env.REPORTS, signature.signature_key, ATTACHMENT_LINK_TTL_S, {
+            baseUrl: c.env.REPORTS_PUBLIC_BASE_URL,
+          }),
+        }
+      : null,
+  });
+});
+
+const ATTACHMENT_LINK_TTL_S = 3600;
+
+/** Attachment metadata with short-lived signed links for the SPA. */
+async function attachmentView(env: Env, row: AttachmentRow) {
+  const sign = (key: string) =>
+    getSignedR2Url(env.REPORTS, key, ATTACHMENT_LINK_TTL_S, { baseUrl: env.REPORTS_PUBLIC_BASE_URL });
+  const url = await sign(row.r2_key);
+  return {
+    attachment_id: row.attachment_id,
+    step_id: row.step_id,
+    kind: row.kind,
+    filename: row.filename,
+    content_type: row.content_type,
+    size_bytes: row.size_bytes,
+    uploaded_by: row.uploaded_by,
+    created_at: row.created_at,
+    url,
+    thumb_url: row.thumb_key ? await sign(row.thumb_key) : row.kind === 'photo' ? url : null,
+  };
+}
+
+app.post('/api/commissioning/session/:id/attachments', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const sessionId = c.req.param('id');
+  const session = await c.env.DB.prepare('SELECT device_id FROM commissioning_sessions WHERE session_id=?')
+    .bind(sessionId)
+    .first<{ device_id: string }>();
+  if (!session) {
+    return c.text('Not Found', 404);
+  }
+  const locked = await sessionLockReason(c.env.DB, sessionId);
+  if (locked) {
+    return c.json({ ok: false, error: locked }, 409);
+  }
+
+  const form = await c.req.formData().catch(() => null);
+  if (!form) {
+    return bad(c, ['body must be multipart/form-data']);
+  }
+  const stepField = form.get('step_id');
+  const stepId = typeof stepField === 'string' && stepField.trim() ? stepField.trim() : null;
+  if (stepId) {
+    const steps = await c.env.DB.prepare('SELECT step_id, state FROM commissioning_steps WHERE session_id=?')
+      .bind(sessionId)
+      .all<{ step_id: string; state: string }>();
+    if (!(steps.results ?? []).some((row) => row.step_id === stepId)) {
+      return bad(c, [`step_id ${stepId} is not part of this session`]);
+    }
+  }
+
+  const files = form.getAll('file').filter((value): value is File => typeof value !== 'string');
+  if (files.length === 0) {
+    return bad(c, ['file is required']);
+  }
+  if (files.length > MAX_FILES_PER_UPLOAD) {
+    return bad(c, [`at most ${MAX_FILES_PER_UPLOAD} files per upload`]);
+  }
+
+  const errors: string[] = [];
+  const uploads: Array<{
+    bytes: Uint8Array;
+    value: ValidatedAttachment;
+    thumb: { bytes: Uint8Array; contentType: string } | null;
+  }> = [];
+  for (const [index, file] of files.entries()) {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const result = validateAttachment(file, bytes);
+    if (!result.ok) {
+      errors.push(`${file.name || `file ${index + 1}`} ${result.error}`);
+      continue;
+    }
+    // Optional browser-rendered thumbnail, matched to its file by position.
+    const thumbField = form.get(`thumbnail_${index}`);
+    let thumb: { bytes: Uint8Array; contentType: string } | null = null;
+    if (thumbField && typeof thumbField !== 'string' && result.value.kind === 'photo') {
+      const thumbBytes = new Uint8Array(await thumbField.arrayBuffer());
+      const contentType = thumbnailContentType(thumbBytes);
+      if (!contentType) {
+        errors.push(`${file.name} thumbnail must be a JPEG or PNG under 128 KB`);
+        continue;
+      }
+      thumb = { bytes: thumbBytes, contentType };
+    }
+    uploads.push({ bytes, value: result.value, thumb });
+  }
+  if (errors.length > 0) {
+    return bad(c, errors);
+  }
+
+  const usage = await c.env.DB.prepare(
+    'SELECT COUNT(*) AS files, COALESCE(SUM(size_bytes), 0) AS bytes FROM commissioning_attachments WHERE session_id=?',
+  )
+    .bind(sessionId)
+    .first<{ files: number; bytes: number }>();
+  const addedBytes = uploads.reduce((sum, upload) => sum + upload.bytes.byteLength, 0);
+  if (Number(usage?.files ?? 0) + uploads.length > MAX_SESSION_ATTACHMENTS) {
+    return c.json({ ok: false, error: 'too_many_attachments', limit: MAX_SESSION_ATTACHMENTS }, 413);
+  }
+  if (Number(usage?.bytes ?? 0) + addedBytes > MAX_SESSION_ATTACHMENT_BYTES) {
+    return c.json({ ok: false, error: 'attachments_too_large', limit: MAX_SESSION_ATTACHMENT_BYTES }, 413);
+  }
+
+  const stored: AttachmentRow[] = [];
+  for (const upload of uploads) {
+    const attachmentId = crypto.randomUUID();
+    const { key, thumbKey } = attachmentKeys(sessionId, attachmentId, upload.value.filename);
+    await c.env.REPORTS.put(key, upload.bytes, {
+      httpMetadata: {
+        contentType: upload.value.contentType,
+        contentDisposition: `inline; filename="${upload.value.filename}"`,
+      },
+    });
+    if (upload.thumb) {
+      await c.env.REPORTS.put(thumbKey, upload.thumb.bytes, { httpMetadata: { contentType: upload.thumb.contentType } });
+    }
+    const row: AttachmentRow = {
+      attachment_id: attachmentId,
+      session_id: sessionId,
+      step_id: stepId,
+      kind: upload.value.kind,
+      filename: upload.value.filename,
+      content_type: upload.value.contentType,
+      size_bytes: upload.bytes.byteLength,
+      r2_key: key,
+      thumb_key: upload.thumb ? thumbKey : null,
+      uploaded_by: auth.sub ?? null,
+      created_at: new Date().toISOString(),
+    };
+    await c.env.DB.prepare(
+      `INSERT INTO commissioning_attachments
+         (attachment_id, session_id, step_id, kind, filename, content_type, size_bytes, r2_key, thumb_key, uploaded_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+      .bind(
+        row.attachment_id,
+        row.session_id,
+        row.step_id,
+        row.kind,
+        row.filename,
+        row.content_type,
+        row.size_bytes,
+        row.r2_key,
+        row.thumb_key,
+        row.uploaded_by,
+        row.created_at,
+      )
+      .run();
+    stored.push(row);
+  }
+
+  await audit(c.env as any, auth, 'commissioning.attachment_upload', sessionId, {
+    step_id: stepId,
+    attachments: stored.map((row) => ({ id: row.attachment_id, filename: row.filename, size: row.size_bytes })),
+  });
+  return c.json({ ok: true, attachments: await Promise.all(stored.map((row) => attachmentView(c.env, row))) });
+});
+
+app.delete('/api/commissioning/attachments/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const row = await c.env.DB.prepare('SELECT * FROM commissioning_attachments WHERE attachment_id=?')
+    .bind(id)
+    .first<AttachmentRow>();
+  if (!row) {
+    return c.text('Not Found', 404);
+  }
+  const locked = await sessionLockReason(c.env.DB, row.session_id);
+  if (locked) {
+    return c.json({ ok: false, error: locked }, 409);
+  }
+  for (const key of [row.r2_key, row.thumb_key]) {
+    if (key) {
+      await c.env.REPORTS.delete(key);
+    }
+  }
+  await c.env.DB.prepare('DELETE FROM commissioning_attachments WHERE attachment_id=?').bind(id).run();
+  await audit(c.env as any, auth, 'commissioning.attachment_delete', row.session_id, {
+    id,
+    filename: row.filename,
+    step_id: row.step_id,
+  });
+  return c.json({ ok: true });
+});
+
+app.post('/api/commissioning/start', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const body = await c.req
+    .json<{ device_id: string; site_id?: string | null; checklist_id?: string; notes?: string | null }>()
+    .catch(() => null);
+  if (!body?.device_id) {
+    return c.text('Bad Request', 400);
+  }
+  const sessionId = crypto.randomUUID();
+  await c.env.DB.prepare(
+    'INSERT INTO commissioning_sessions(session_id,device_id,site_id,operator_sub,notes,checklist_id) VALUES (?,?,?,?,?,?)',
+  )
+    .bind(
+      sessionId,
+      body.device_id,
+      body.site_id ?? null,
+      auth.sub,
+      body.notes ?? null,
+      body.checklist_id ?? null,
+    )
+    .run();
+
+  const cl = await c.env.DB.prepare('SELECT steps_json FROM commissioning_checklists WHERE checklist_id=?')
+    .bind(body.checklist_id ?? null)
+    .first<{ steps_json?: string | null }>();
+  let steps: Array<{ id: string; title: string }> = [];
+  if (cl?.steps_json) {
+    try {
+      steps = JSON.parse(cl.steps_json);
+    } catch (error) {
+      console.warn('Invalid commissioning checklist JSON', error);
+    }
+  }
+  const stmt = c.env.DB.prepare('INSERT INTO commissioning_steps(session_id,step_id,title,state) VALUES (?,?,?,?)');
+  for (const step of steps) {
+    await stmt.bind(sessionId, step.id, step.title, 'pending').run();
+  }
+
+  await audit(c.env as any, auth, 'commissioning.start', body.device_id, {
+    site_id: body.site_id ?? null,
+    checklist_id: body.checklist_id ?? null,
+  });
+
+  return c.json({ ok: true, session_id: sessionId });
+});
+
+app.post('/api/commissioning/step', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const body = await c.req
+    .json<{
+      session_id: string;
+      step_id: string;
+      state: string;
+      readings?: Record<string, unknown>;
+      comment?: string | null;
+      base_version?: number | null;
+    }>()
+    .catch(() => null);
+  if (!body?.session_id || !body.step_id || !body.state) {
+    return c.text('Bad Request', 400);
+  }
+  if (!isStepState(body.state)) {
+    return bad(c, ['state must be one of pending, pass, fail, skip']);
+  }
+  const current = await c.env.DB.prepare(
+    'SELECT step_id,title,state,readings_json,comment,updated_at,version FROM commissioning_steps WHERE session_id=? ORDER BY updated_at',
+  )
+    .bind(body.session_id)
+    .all<{ step_id: string; state: string; comment: string | null; updated_at: string; version: number }>();
+  const existing = (current.results ?? []).find((row) => row.step_id === body.step_id);
+  if (!existing) {
+    return c.text('Not Found', 404);
+  }
+
+  let state: string = body.state;
+  const { session, step } = await loadSessionStep(c.env.DB, body.session_id, body.step_id);
+  const locked = await sessionLockReason(c.env.DB, body.session_id);
+  if (locked) {
+    return c.json({ ok: false, error: locked, status: session?.status ?? null }, 409);
+  }
+  const conflict = () =>
+    c.json(
+      {
+        ok: false,
+        error: 'conflict',
+        current: {
+          state: existing.state,
+          comment: existing.comment ?? null,
+          updated_at: existing.updated_at,
+          version: existing.version,
+        },
+      },
+      409,
+    );
+  // Updates queued offline carry the step's version as the engineer last saw it.
+  if (body.base_version != null && existing.version !== body.base_version) {
+    return conflict();
+  }
+  if (step?.type === 'reading' && (state === 'pass' || state === 'fail')) {
+    const value = body.readings?.value;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return bad(c, ['readings.value must be a number for a reading step']);
+    }
+    state = evaluateReading(step, value);
+  }
+  // Auto-measured steps are marked by measure-window; a comment save may resend the state it already has.
+  if (step?.type === 'auto' && (state === 'pass' || state === 'fail') && state !== existing.state) {
+    return bad(c, ['auto-measured steps are marked by their measurement']);
+  }
+
+  // Written against the version read above, so a write that lands in between is reported rather than overwritten.
+  const written = await c.env.DB.prepare(
+    "UPDATE commissioning_steps SET state=?, readings_json=?, comment=?, updated_at=datetime('now'), version=version+1 WHERE session_id=? AND step_id=? AND version=?",
+  )
+    .bind(
+      state,
+      body.readings ? JSON.stringify(body.readings) : null,
+      body.comment ?? null,
+      body.session_id,
+      body.step_id,
+      existing.version,
+    )
+    .run();
+  if (!written.meta?.changes) {
+    return conflict();
+  }
+  await audit(c.env as any, auth, 'commissioning.step', `${body.session_id}:${body.step_id}`, {
+    state,
+    readings: body.readings ?? null,
+    comment: body.comment ?? null,
+  });
+  return c.json({ ok: true, state, version: existing.version + 1 });
+});
+
+app.post('/api/commissioning/finalise', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const body = await c.req
+    .json<{ session_id: string; outcome?: string; notes?: string | null; signature?: unknown }>()
+    .catch(() => null);
+  if (!body?.session_id) {
+    return c.text('Bad Request', 400);
+  }
+  const outcome = body.outcome ?? 'passed';
+  let signature: SignatureInput | null = null;
+  if (body.signature != null) {
+    if (outcome !== 'passed') {
+      return bad(c, ['signature is only recorded when the session passes']);
+    }
+    const parsed = parseSignatureInput(body.signature);
+    if (!parsed.ok) {
+      return bad(c, parsed.errors);
+    }
+    signature = parsed.value;
+  }
+  const locked = await sessionLockReason(c.env.DB, body.session_id);
+  if (locked === 'not_found') {
+    return c.text('Not Found', 404);
+  }
+  if (locked) {
+    return c.json({ ok: false, error: locked }, 409);
+  }
+  if (outcome === 'passed') {
+    const req = await c.env.DB.prepare(
+      `SELECT coalesce(required_steps_json, steps_json) AS steps FROM commissioning_checklists
+       WHERE checklist_id = (SELECT checklist_id FROM commissioning_sessions WHERE session_id=?)`,
+    )
+      .bind(body.session_id)
+      .first<{ steps: string } | null>();
+    let required: string[] = [];
+    if (req?.steps) {
+      try {
+        const parsed = JSON.parse(req.steps) as Array<{ id?: string } | string>;
+        required = parsed
+          .map((item) => (typeof item === 'string' ? item : item.id ?? null))
+          .filter((id): id is string => !!id);
+      } catch (error) {
+        console.warn('Invalid commissioning required steps JSON', error);
+      }
+    }
+    if (required.length) {
+      const rows = await c.env.DB.prepare(
+        'SELECT step_id, state FROM commissioning_steps WHERE session_id=?',
+      )
+        .bind(body.session_id)
+        .all<{ step_id: string; state: string }>();
+      const states = Object.fromEntries((rows.results ?? []).map((r) => [r.step_id, r.state]));
+      const missing = required.filter((id) => states[id] !== 'pass');
+      if (missing.length) {
+        return c.json({ ok: false, error: 'required_steps_not_passed', missing }, 409);
+      }
+    }
+  }
+  await c.env.DB.prepare(
+    "UPDATE commissioning_sessions SET status=?, finished_at=datetime('now'), notes=COALESCE(?,notes) WHERE session_id=?",
+  )
+    .bind(outcome, body.notes ?? null, body.session_id)
+    .run();
+  const signed = signature ? await recordSignature(c.env, body.session_id, signature, auth?.sub ?? null) : null;
+
+  const { renderCommissioningPdf } = await import('./reports/commissioning-pdf');
+  const { key, size } = await renderCommissioningPdf(c.env, body.session_id);
+  await c.env.DB.prepare(
+    'INSERT OR REPLACE INTO commissioning_artifacts(session_id,kind,r2_key,size_bytes) VALUES (?,?,?,?)',
+  )
+    .bind(body.session_id, 'pdf', key, size)
+    .run();
+
+  await audit(c.env as any, auth, 'commissioning.finalise', body.session_id, {
+    outcome,
+    notes: body.notes ?? null,
+    ...(signed ? { signer_name: signed.signer_name, state_hash: signed.state_hash } : {}),
+  });
+
+  return c.json({ ok: true, r2_key: key, ...(signed ? { state_hash: signed.state_hash } : {}) });
+});
+
+/** Re-derives the state hash and checks the seal; `?hash=` also compares the hash printed on a report. */
+app.get('/api/commissioning/session/:id/signature', async (c) => {
+  const row = await loadSignature(c.env.DB, c.req.param('id'));
+  if (!row) {
+    return c.json({ ok: true, signed: false });
+  }
+  const check = await verifySignature(c.env, row);
+  const hash = c.req.query('hash')?.trim().toLowerCase() || null;
+  const hashMatches = hash ? hash === row.state_hash : null;
+  return c.json({
+    ok: true,
+    signed: true,
+    signer_name: row.signer_name,
+    signed_at: row.signed_at,
+    state_hash: row.state_hash,
+    current_hash: check.stateHash,
+    state_matches: check.stateMatches,
+    image_matches: check.imageMatches,
+    seal_valid: check.sealValid,
+    hash_matches: hashMatches,
+    valid: check.valid && hashMatches !== false,
+  });
+});
+
+app.post('/api/commissioning/measure-now', async (c) => {
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+
+  const body = await c.req
+    .json<{
+      session_id: string;
+      step_id: string;
+      expectations?: { delta_t_min?: number; flow_min_lpm?: number; cop_min?: number };
+    }>()
+    .catch(() => null);
+
+  if (!body?.session_id || !body.step_id) {
+    return c.text('Bad Request', 400);
+  }
+
+  const { session, step, typed } = await loadSessionStep(c.env.DB, body.session_id, body.step_id);
+  if (!session) {
+    return c.text('Session not found', 404);
+  }
+  const locked = await sessionLockReason(c.env.DB, body.session_id);
+  if (locked) {
+    return c.json({ ok: false, error: locked }, 409);
+  }
+  if (typed && step?.type !== 'auto') {
+    return bad(c, ['only auto-measured steps can be measured']);
+  }
+
+  const latest = await getLatestTelemetry(c.env.DB, session.device_id);
+  if (!latest) {
+    return c.text('No telemetry yet', 409);
+  }
+
+  const outlet = typeof latest.outlet === 'number' ? latest.outlet : undefined;
+  const ret = typeof latest.ret === 'number' ? latest.ret : undefined;
+  const deltaT = typeof latest.delta_t === 'number' ? latest.delta_t : computeDeltaT(outlet, ret);
+  const flowValue = typeof latest.flow_lpm === 'number' ? latest.flow_lpm : undefined;
+  const copValue = typeof latest.cop === 'number' ? latest.cop : undefined;
+
+  // Typed auto steps are held to the thresholds stored on the step, as in measure-window; steps of untyped
+  // checklists use the request or the settings, where a zero minimum also passes a missing reading.
+  let thresholds: AutoThresholds;
+  let pass: boolean;
+  if (step?.type === 'auto' && step.thresholds) {
+    thresholds = step.thresholds;
+    pass = evaluateWindowSample(
+      { count: 1, delta_t_med: deltaT ?? null, flow_lpm_med: flowValue ?? null, cop_med: copValue ?? null },
+      thresholds,
+    );
+  } else {
+    const dtMin =
+      body.expectations?.delta_t_min ?? numberFromSetting(await getSetting(c.env.DB, 'commissioning_delta_t_min'), 0);
+    const flowMin = body.expectations?.flow_min_lpm
+      ?? numberFromSetting(await getSetting(c.env.DB, 'commissioning_flow_min_lpm'), 0);
+    const copMin =
+      body.expectations?.cop_min ?? numberFromSetting(await getSetting(c.env.DB, 'commissioning_cop_min'), 0);
+    thresholds = { delta_t_min: dtMin, flow_min_lpm: flowMin, cop_min: copMin };
+
+    const flowOk = flowValue === undefined ? flowMin === 0 : flowValue >= flowMin;
+    const dtOk = deltaT == null ? dtMin === 0 : deltaT >= dtMin;
+    const copOk = copValue === undefined ? copMin === 0 : copValue >= copMin;
+    pass = flowOk && dtOk && copOk;
+  }
+
+  const readings = {
+    ts: latest.ts,
+    outlet: typeof latest.outlet === 'number' ? latest.outlet : null,
+    return: typeof latest.ret === 'number' ? latest.ret : null,
+    flow_lpm: flowValue ?? null,
+    delta_t: deltaT,
+    cop: copValue ?? null,
+  };
+
+  await c.env.DB.prepare(
+    "UPDATE commissioning_steps SET state=?, readings_json=?, updated_at=datetime('now'), version=version+1 WHERE session_id=? AND step_id=?",
+  )
+    .bind(pass ? 'pass' : 'fail', JSON.stringify(readings), body.session_id, body.step_id)
+    .run();
+
+  await audit(c.env as any, auth, 'commissioning.measure-now', `${body.session_id}:${body.step_id}`, {
+    result: {
+      delta_t: deltaT,
+      flow_lpm: flowValue,
+      cop: copValue,
+    },
+  });
+
+  return c.json({
+    ok: true,
+    pass,
+    delta_t: deltaT,
+    flow_lpm: flowValue,
+    cop: copValue,
+    ts: latest.ts,
+    thresholds,
+  });
+});
+
+app.post('/api/commissioning/measure-window', async (c) => {
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+
+  const body = await c.req
+    .json<{
+      session_id: string;
+      step_id: string;
+      window_s?: number;
+      thresholds?: { delta_t_min?: number; flow_min_lpm?: number; cop_min?: number };
+    }>()
+    .catch(() => null);
+
+  if (!body?.session_id || !body.step_id) {
+    return c.text('Bad Request', 400);
+  }
+
+  const { session, step, typed } = await loadSessionStep(c.env.DB, body.session_id, body.step_id);
+  if (!session) {
+    return c.text('Session not found', 404);
+  }
+  const locked = await sessionLockReason(c.env.DB, body.session_id);
+  if (locked) {
+    return c.json({ ok: false, error: locked }, 409);
+  }
+  if (typed && step?.type !== 'auto') {
+    return bad(c, ['only auto-measured steps can be measured']);
+  }
+
+  // Typed auto steps carry their own window and thresholds; untyped steps use the request or the settings,
+  // where a zero flow or COP minimum means the metric is not checked.
+  let thresholds: AutoThresholds;
+  let windowSeconds: number;
+  if (step?.type === 'auto' && step.thresholds) {
+    thresholds = step.thresholds;
+    windowSeconds = step.window_s ?? 90;
+  } else {
+    const dtMin = body.thresholds?.delta_t_min
+      ?? numberFromSetting(await getSetting(c.env.DB, 'commissioning_delta_t_min'), 0);
+    const flowMin = body.thresholds?.flow_min_lpm
+      ?? numberFromSetting(await getSetting(c.env.DB, 'commissioning_flow_min_lpm'), 0);
+    const copMin = body.thresholds?.cop_min
+      ?? numberFromSetting(await getSetting(c.env.DB, 'commissioning_cop_min'), 0);
+    thresholds = { delta_t_min: dtMin, flow_min_lpm: flowMin || null, cop_min: copMin || null };
+    windowSeconds = body.window_s ?? 90;
+  }
+
+  windowSeconds = Math.max(10, Math.min(300, windowSeconds));
+  const sample = await getWindowSample(c.env.DB, session.device_id, windowSeconds);
+  const pass = evaluateWindowSample(sample, thresholds);
+
+  const thresholdsPayload = {
+    ...thresholds,
+    dtMin: thresholds.delta_t_min,
+    flMin: thresholds.flow_min_lpm,
+    copMin: thresholds.cop_min,
+  } as const;
+
+  await c.env.DB.prepare(
+    "UPDATE commissioning_steps SET state=?, readings_json=?, updated_at=datetime('now'), version=version+1 WHERE session_id=? AND step_id=?",
+  )
+    .bind(
+      pass ? 'pass' : 'fail',
+      JSON.stringify({
+        ...sample,
+        thresholds: thresholdsPayload,
+      }),
+      body.session_id,
+      body.step_id,
+    )
+    .run();
+
+  await audit(c.env as any, auth, 'commissioning.measure-window', `${body.session_id}:${body.step_id}`, {
+    sample,
+    thresholds: thresholdsPayload,
+  });
+
+  return c.json({
+    ok: true,
+    pass,
+    sample,
+    thresholds: thresholdsPayload,
+  });
+});
+
+app.post('/api/commissioning/labels', async (c) => {
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+
+  const body = await c.req.json<{ session_id: string }>().catch(() => null);
+  if (!body?.session_id) {
+    return c.text('Bad Request', 400);
+  }
+
+  const session = await c.env.DB.prepare('SELECT device_id, site_id FROM commissioning_sessions WHERE session_id=?')
+    .bind(body.session_id)
+    .first<{ device_id: string; site_id: string | null }>();
+  if (!session) {
+    return c.text('Not Found', 404);
+  }
+
+  const { renderDeviceLabels } = await import('./reports/labels-pdf');
+  const { key, size } = await renderDeviceLabels(c.env as Env, {
+    device_id: session.device_id,
+    site_id: session.site_id ?? null,
+  });
+
+  await c.env.DB.prepare(
+    'INSERT OR REPLACE INTO commissioning_artifacts (session_id, kind, r2_key, size_bytes) VALUES (?,?,?,?)',
+  )
+    .bind(body.session_id, 'labels', key, size)
+    .run();
+
+  await audit(c.env as any, auth, 'commissioning.labels', body.session_id, { r2_key: key });
+
+  return c.json({ ok: true, r2_key: key, size });
+});
+
+app.post('/api/commissioning/provisioning-zip', async (c) => {
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+
+  const body = await c.req.json<{ session_id: string }>().catch(() => null);
+  if (!body?.session_id) {
+    return c.text('Bad Request', 400);
+  }
+
+  const session = await c.env.DB.prepare('SELECT device_id FROM commissioning_sessions WHERE session_id=?')
+    .bind(body.session_id)
+    .first<{ device_id: string }>();
+  if (!session) {
+    return c.text('Not Found', 404);
+  }
+
+  const { renderProvisioningZip } = await import('./reports/provisioning-zip');
+  const { key, size } = await renderProvisioningZip(c.env, {
+    device_id: session.device_id,
+    session_id: body.session_id,
+  });
+
+  await c.env.DB.prepare(
+    'INSERT OR REPLACE INTO commissioning_artifacts(session_id, kind, r2_key, size_bytes) VALUES (?,?,?,?)',
+  )
+    .bind(body.session_id, 'zip', key, size)
+    .run();
+
+  await audit(c.env as any, auth, 'commissioning.provisioning-zip', body.session_id, { r2_key: key });
+
+  return c.json({ ok: true, r2_key: key, size });
+});
+
+app.post('/api/commissioning/email-bundle', async (c) => {
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const body = await c.req.json<{ session_id: string }>().catch(() => null);
+  if (!body?.session_id) {
+    return c.text('Bad Request', 400);
+  }
+
+  const to = (await getSetting(c.env.DB, 'commissioning_report_recipients')) ?? '';
+  const res = await emailCommissioningWithZip(c.env as any, to, body.session_id);
+  await audit(c.env as any, auth, 'commissioning.email-bundle', body.session_id, res);
+  return c.json(res);
+});
+
+app.post('/api/commissioning/email-report', async (c) => {
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const body = await c.req.json<{ session_id: string }>().catch(() => null);
+  if (!body?.session_id) {
+    return c.text('Bad Request', 400);
+  }
+
+  const row = await c.env.DB.prepare(
+    "SELECT r2_key FROM commissioning_artifacts WHERE session_id=? AND kind='pdf'",
+  )
+    .bind(body.session_id)
+    .first<{ r2_key: string }>();
+  if (!row) {
+    return c.text('No PDF artefact', 409);
+  }
+
+  const recipients = (await getSetting(c.env.DB, 'commissioning_report_recipients')) ?? '';
+  const res = await emailCommissioning(
+    c.env,
+    recipients,
+    'Commissioning Report',
+    `Session ${body.session_id}`,
+    row.r2_key,
+  );
+  return c.json(res);
+});
+
+app.post('/api/alerts/:id/snooze', async (c) => {
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const { id } = c.req.param();
+  const payload = await c.req.json<{ minutes?: number; reason?: string }>().catch(() => null);
+  const minutes = Number(payload?.minutes ?? 60);
+  const reasonRaw = payload?.reason;
+  const reason = typeof reasonRaw === 'string' && reasonRaw.trim().length > 0 ? reasonRaw.trim() : null;
+
+  const alertRow = await c.env.DB.prepare(
+    `SELECT alert_id, device_id, type, meta_json FROM alerts WHERE alert_id=? LIMIT 1`,
+  )
+    .bind(id)
+    .first<{ alert_id: string; device_id: string; type: string; meta_json: string | null }>();
+
+  if (!alertRow) {
+    return c.text('Not Found', 404);
+  }
+
+  const meta = alertRow.meta_json ? JSON.parse(alertRow.meta_json) : {};
+  const kind = typeof meta?.kind === 'string' ? meta.kind : null;
+  const durationMinutes = Number.isFinite(minutes) ? Math.max(5, minutes) : 60;
+  const untilISO = new Date(Date.now() + durationMinutes * 60_000).toISOString();
+
+  await c.env.DB.prepare(
+    `INSERT INTO alert_snoozes(id, device_id, type, kind, until_ts, reason, created_by)
+     VALUES(?,?,?,?,?,?,?)`,
+  )
+    .bind(
+      crypto.randomUUID(),
+      alertRow.device_id,
+      alertRow.type,
+      kind,
+      untilISO,
+      reason,
+      auth?.sub ?? auth?.email ?? 'ops',
+    )
+    .run();
+
+  await c.env.DB.prepare(
+    `UPDATE alerts
+        SET state='ack',
+            meta_json = json_set(COALESCE(meta_json,'{}'), '$.snoozed_until', ?)
+      WHERE alert_id=?`,
+  )
+    .bind(untilISO, alertRow.alert_id)
+    .run();
+
+  return c.json({ ok: true, until: untilISO });
+});
+
+app.get('/api/alerts/snoozes', async (c) => {
+  const auth = c.get('auth');
+  requireRole(auth, ['admin', 'ops']);
+  const deviceId = c.req.query('device_id') ?? null;
+  const sql = deviceId
+    ? `SELECT * FROM alert_snoozes WHERE device_id=? AND until_ts > datetime('now') ORDER BY until_ts ASC`
+    : `SELECT * FROM alert_snoozes WHERE until_ts > datetime('now') ORDER BY until_ts ASC LIMIT 100`;
+  const rows = deviceId
+    ? await c.env.DB.prepare(sql).bind(deviceId).all()
+    : await c.env.DB.prepare(sql).all();
+  return c.json(rows.results ?? []);
+});
+
+app.get('/api/alerts', async (c) => {
+  const { DB } = c.env;
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+
+  const url = new URL(c.req.url);
+  const state = url.searchParams.get('state');
+  const severity = url.searchParams.get('severity');
+  const type = url.searchParams.get('type');
+  const device = url.searchParams.get('deviceId');
+
+  let sql = `SELECT a.*, GROUP_CONCAT(DISTINCT sc.client_id) AS clients
+             FROM alerts a
+             JOIN devices d ON a.device_id = d.device_id
+             LEFT JOIN site_clients sc ON d.site_id = sc.site_id
+             WHERE 1=1`;
+  const bind: Array<string> = [];
+  if (state) {
+    sql += ' AND a.state=?';
+    bind.push(state);
+  }
+  if (severity) {
+    sql += ' AND a.severity=?';
+    bind.push(severity);
+  }
+  if (type) {
+    sql += ' AND a.type=?';
+    bind.push(type);
+  }
+  if (device) {
+    sql += ' AND a.device_id=?';
+    bind.push(device);
+  }
+
+  if (auth.roles.includes('client') || auth.roles.includes('contractor')) {
+    const clientIds = auth.clientIds ?? [];
+    if (clientIds.length === 0) {
+      return c.json([]);
+    }
+    const placeholders = clientIds.map(() => '?').join(',');
+    sql += ` AND EXISTS (
+      SELECT 1 FROM site_clients sc2 WHERE sc2.site_id = d.site_id AND sc2.client_id IN (${placeholders})
+    )`;
+    bind.push(...clientIds);
+  }
+
+  sql += ' GROUP BY a.alert_id ORDER BY a.opened_at DESC LIMIT 200';
+  const rows = await DB.prepare(sql).bind(...bind).all();
+  const results = (rows.results ?? []).map((row) => {
+    if (row?.type !== 'baseline_deviation') {
+      return row;
+    }
+    let coverage: number | null =
+      typeof row.coverage === 'number' && Number.isFinite(row.coverage) ? row.coverage : null;
+    let drift: number | null = typeof row.drift === 'number' && Number.isFinite(row.drift) ? row.drift : null;
+    let kind = typeof (row as { meta_kind?: string }).meta_kind === 'string' ? row.meta_kind! : 'delta_t';
+    let units = typeof (row as { meta_units?: string }).meta_units === 'string' ? row.meta_units! : '';
+    try {
+      const metaJson = typeof row.meta_json === 'string' ? row.meta_json : null;
+      const meta = metaJson ? JSON.parse(metaJson) : null;
+      if (meta && typeof meta === 'object') {
+        if (coverage == null && typeof meta.coverage === 'number' && Number.isFinite(meta.coverage)) {
+          coverage = meta.coverage;
+        }
+        if (drift == null && typeof meta.drift === 'number' && Number.isFinite(meta.drift)) {
+          drift = meta.drift;
+        }
+        if (typeof meta.kind === 'string') {
+          kind = meta.kind;
+        }
+        if (typeof meta.units === 'string') {
+          units = meta.units;
+        }
+      }
+    } catch (error) {
+      console.warn('failed to parse baseline meta', error);
+    }
+    if (!units) {
+      units = kind === 'cop' ? '' : kind === 'current' ? 'A' : '°C';
+    }
+    const summaryParts = [`Baseline deviation (${kind}) — ${Math.round((coverage ?? 0) * 100)}% in-range`];
+    if (typeof drift === 'number' && Number.isFinite(drift)) {
+      const signed = `${drift >= 0 ? '+' : ''}${drift.toFixed(2)}${units}`;
+      summaryParts.push(`drift ${signed}`);
+    }
+    return {
+      ...row,
+      coverage,
+      drift,
+      meta_kind: kind,
+      meta_units: units,
+      summary: summaryParts.join('; '),
+    };
+  });
+  const isClientOnly =
+    auth && auth.roles.includes('client') && !(auth.roles.includes('admin') || auth.roles.includes('ops'));
+  const out = isClientOnly ? results.map((r) => ({ ...r, device_id: maskId(r.device_id) })) : results;
+  return c.json(out);
+});
+
+app.post('/api/alerts/:id/ack', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  const id = c.req.param('id');
+  await c.env.DB.prepare("UPDATE alerts SET state='ack', ack_by=?, ack_at=datetime('now') WHERE alert_id=? AND state='open'")
+    .bind(auth.email ?? auth.sub, id)
+    .run();
+  await stopEscalation(c.env.DB, id, 'acked', auth.email ?? auth.sub).catch((error) => {
+    console.warn('escalation stop failed', error);
+  });
+  return c.json({ ok: true });
+});
+
+app.post('/api/alerts/:id/resolve', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  const id = c.req.param('id');
+  await c.env.DB.prepare(
+    "UPDATE alerts SET state='closed', closed_at=datetime('now') WHERE alert_id=? AND state IN ('open','ack')",
+  )
+    .bind(id)
+    .run();
+  await stopEscalation(c.env.DB, id, 'resolved', auth.email ?? auth.sub).catch((error) => {
+    console.warn('escalation stop failed', error);
+  });
+  return c.json({ ok: true });
+});
+
+app.get('/api/alerts/:id/escalation', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  const id = c.req.param('id');
+  const alert = await c.env.DB.prepare('SELECT device_id FROM alerts WHERE alert_id=?')
+    .bind(id)
+    .first<{ device_id: string }>();
+  if (!alert || !(await canAccessDevice(c.env.DB, auth, alert.device_id))) {
+    return c.text('Not Found', 404);
   }
-});
-
-app.get('/api/commissioning/settings', async (c) => {
-  const [delta, flow, cop] = await Promise.all([
-    getSetting(c.env.DB, 'commissioning_delta_t_min'),
-    getSetting(c.env.DB, 'commissioning_flow_min_lpm'),
-    getSetting(c.env.DB, 'commissioning_cop_min'),
+  const [escalation, events] = await Promise.all([
+    c.env.DB.prepare(
+      `SELECT ae.policy_id, p.name AS policy_name, ae.tier, ae.status, ae.next_escalation_at, ae.started_at
+         FROM alert_escalations ae
+         LEFT JOIN escalation_policies p ON p.id = ae.policy_id
+        WHERE ae.alert_id=? AND ae.status != 'unmatched'`,
+    )
+      .bind(id)
+      .first<{
+        policy_id: string;
+        policy_name: string | null;
+        tier: number;
+        status: string;
+        next_escalation_at: string;
+        started_at: string;
+      }>(),
+    c.env.DB.prepare('SELECT ts, kind, tier, detail_json FROM alert_escalation_events WHERE alert_id=? ORDER BY ts')
+      .bind(id)
+      .all<{ ts: string; kind: string; tier: number | null; detail_json: string | null }>(),
   ]);
+  // Recipient addresses are only shown to staff roles.
+  const staff = auth.roles.includes('admin') || auth.roles.includes('ops');
   return c.json({
-    delta_t_min: numberFromSetting(delta, 0),
-    flow_min_lpm: numberFromSetting(flow, 0),
-    cop_min: numberFromSetting(cop, 0),
+    escalation,
+    events: (events.results ?? []).map((event) => {
+      let detail: Record<string, unknown> | null = null;
+      try {
+        detail = event.detail_json ? (JSON.parse(event.detail_json) as Record<string, unknown>) : null;
+      } catch {
+        detail = null;
+      }
+      if (detail && !staff) {
+        delete detail.recipients;
+        delete detail.by;
+      }
+      return { ts: event.ts, kind: event.kind, tier: event.tier, detail };
+    }),
   });
 });
 
-app.get('/api/commissioning/checklists', async (c) => {
-  const rows = await c.env.DB.prepare(
-    'SELECT checklist_id,name,version,steps_json,required_steps_json FROM commissioning_checklists ORDER BY created_at DESC',
-  ).all();
-  return c.json(rows.results ?? []);
-});
-
-app.get('/api/commissioning/checklist/:id', async (c) => {
+app.post('/api/alerts/:id/comment', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
   const id = c.req.param('id');
-  const row = await c.env.DB.prepare(
-    'SELECT checklist_id,name,version,steps_json,required_steps_json FROM commissioning_checklists WHERE checklist_id=?',
+  const { body } = await c.req.json<{ body: string }>();
+  const cid = crypto.randomUUID();
+  await c.env.DB.prepare(
+    `INSERT INTO alert_comments (id, alert_id, author, ts, body) VALUES (?, ?, ?, datetime('now'), ?)`,
   )
-    .bind(id)
-    .first();
-  return row ? c.json(row) : c.text('Not Found', 404);
+    .bind(cid, id, auth.email ?? auth.sub, body)
+    .run();
+  return c.json({ ok: true, id: cid });
 });
 
-app.get('/api/commissioning/sessions', async (c) => {
+app.get('/api/admin/distinct/regions', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
   const rows = await c.env.DB.prepare(
-    `SELECT session_id, device_id, site_id, operator_sub, started_at, finished_at, status, notes, checklist_id,
-            (SELECT MAX(updated_at) FROM commissioning_steps WHERE session_id = cs.session_id) AS last_update
-       FROM commissioning_sessions cs
-       ORDER BY started_at DESC
-       LIMIT 200`,
-  ).all<{
-    session_id: string;
-    device_id: string;
-    site_id: string | null;
-    operator_sub: string;
-    started_at: string;
-    finished_at: string | null;
-    status: string;
-    notes: string | null;
-    last_update: string | null;
-    checklist_id: string | null;
-  }>();
-
-  const sessions = (rows.results ?? []).map((row) => ({
-    session_id: row.session_id,
-    device_id: row.device_id,
-    site_id: row.site_id ?? null,
-    operator_sub: row.operator_sub,
-    started_at: row.started_at,
-    finished_at: row.finished_at ?? null,
-    status: row.status,
-    notes: row.notes ?? null,
-    last_update: row.last_update ?? null,
-    checklist_id: row.checklist_id ?? null,
-  }));
-
-  return c.json(sessions);
+    "SELECT DISTINCT region FROM sites WHERE region IS NOT NULL AND TRIM(region)<>'' ORDER BY region",
+  ).all();
+  return c.json(rows.results ?? []);
 });
 
-app.get('/api/commissioning/session/:id', async (c) => {
-  const id = c.req.param('id');
-  const session = await c.env.DB.prepare(
-    'SELECT session_id, device_id, site_id, operator_sub, started_at, finished_at, status, notes, checklist_id FROM commissioning_sessions WHERE session_id=?',
-  )
-    .bind(id)
-    .first<{
-      session_id: string;
-      device_id: string;
-      site_id: string | null;
-      operator_sub: string;
-      started_at: string;
-      finished_at: string | null;
-      status: string;
-      notes: string | null;
-      checklist_id: string | null;
-    }>();
-
-  if (!session) {
-    return c.text('Not Found', 404);
+app.get('/api/admin/distinct/clients', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
   }
+  requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare(
+    'SELECT client_id, COALESCE(name, client_id) AS name FROM clients ORDER BY name',
+  ).all();
+  return c.json(rows.results ?? []);
+});
 
-  const steps = await c.env.DB.prepare(
-    'SELECT step_id,title,state,readings_json,comment,updated_at FROM commissioning_steps WHERE session_id=? ORDER BY updated_at',
-  )
-    .bind(id)
-    .all<{
-      step_id: string;
-      title: string;
-      state: string;
-      readings_json: string | null;
-      comment: string | null;
-      updated_at: string;
-    }>();
-
-  const artifacts = await c.env.DB.prepare(
-    'SELECT kind,r2_key,size_bytes,created_at FROM commissioning_artifacts WHERE session_id=?',
-  )
-    .bind(id)
-    .all<{
-      kind: string;
-      r2_key: string;
-      size_bytes: number | null;
-      created_at: string;
-    }>();
-
-  const parsedSteps = (steps.results ?? []).map((row) => {
-    let readings: Record<string, unknown> | null = null;
-    if (row.readings_json) {
-      try {
-        const parsed = JSON.parse(row.readings_json);
-        if (parsed && typeof parsed === 'object') {
-          readings = parsed as Record<string, unknown>;
-        }
-      } catch (error) {
-        console.warn('commissioning step readings parse failed', error);
-      }
-    }
-    return {
-      step_id: row.step_id,
-      title: row.title,
-      state: row.state,
-      readings,
-      comment: row.comment ?? null,
-      updated_at: row.updated_at,
-    };
-  });
-
-  const artifactMap = new Map<string, { r2_key: string; size_bytes: number | null; created_at: string }>();
-  for (const row of artifacts.results ?? []) {
-    artifactMap.set(row.kind, {
-      r2_key: row.r2_key,
-      size_bytes: row.size_bytes ?? null,
-      created_at: row.created_at,
-    });
+app.get('/api/admin/site-clients', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
   }
+  requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare('SELECT client_id, site_id FROM site_clients ORDER BY client_id, site_id').all();
+  return c.json(rows.results ?? []);
+});
 
-  return c.json({
-    session: {
-      session_id: session.session_id,
-      device_id: session.device_id,
-      site_id: session.site_id ?? null,
-      operator_sub: session.operator_sub,
-      started_at: session.started_at,
-      finished_at: session.finished_at ?? null,
-      status: session.status,
-      notes: session.notes ?? null,
-      checklist_id: session.checklist_id ?? null,
-    },
-    steps: parsedSteps,
-    artifacts: Object.fromEntries(artifactMap.entries()),
-  });
+app.post('/api/admin/site-clients', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const { clientId, siteId } = await c.req.json<{ clientId: string; siteId: string }>();
+  if (!clientId || !siteId) {
+    return c.text('Bad Request', 400);
+  }
+  await c.env.DB.prepare('INSERT OR IGNORE INTO site_clients (client_id, site_id) VALUES (?, ?)').bind(clientId, siteId).run();
+  return c.json({ ok: true });
 });
 
-app.post('/api/commissioning/start', async (c) => {
+app.delete('/api/admin/site-clients', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
   }
   const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
   requireRole(auth, ['admin', 'ops']);
-  const body = await c.req
-    .json<{ device_id: string; site_id?: string | null; checklist_id?: string; notes?: string | null }>()
-    .catch(() => null);
-  if (!body?.device_id) {
+  const url = new URL(c.req.url);
+  const clientId = url.searchParams.get('clientId');
+  const siteId = url.searchParams.get('siteId');
+  if (!clientId || !siteId) {
     return c.text('Bad Request', 400);
   }
-  const sessionId = crypto.randomUUID();
-  await c.env.DB.prepare(
-    'INSERT INTO commissioning_sessions(session_id,device_id,site_id,operator_sub,notes,checklist_id) VALUES (?,?,?,?,?,?)',
-  )
-    .bind(
-      sessionId,
-      body.device_id,
-      body.site_id ?? null,
-      auth.sub,
-      body.notes ?? null,
-      body.checklist_id ?? null,
-    )
-    .run();
+  await c.env.DB.prepare('DELETE FROM site_clients WHERE client_id=? AND site_id=?').bind(clientId, siteId).run();
+  return c.json({ ok: true });
+});
 
-  const cl = await c.env.DB.prepare('SELECT steps_json FROM commissioning_checklists WHERE checklist_id=?')
-    .bind(body.checklist_id ?? null)
-    .first<{ steps_json?: string | null }>();
-  let steps: Array<{ id: string; title: string }> = [];
-  if (cl?.steps_json) {
-    try {
-      steps = JSON.parse(cl.steps_json);
-    } catch (error) {
-      console.warn('Invalid commissioning checklist JSON', error);
-    }
+app.get('/api/admin/slo', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
   }
-  const stmt = c.env.DB.prepare('INSERT INTO commissioning_steps(session_id,step_id,title,state) VALUES (?,?,?,?)');
-  for (const step of steps) {
-    await stmt.bind(sessionId, step.id, step.title, 'pending').run();
+  requireRole(auth, ['admin', 'ops']);
+  const url = new URL(c.req.url);
+  const clientId = url.searchParams.get('clientId');
+  let sql =
+    'SELECT cs.client_id, cs.uptime_target, cs.ingest_target, cs.cop_target, cs.report_recipients, cs.updated_at, c.name AS client_name FROM client_slos cs LEFT JOIN clients c ON c.client_id = cs.client_id';
+  const bind: string[] = [];
+  if (clientId) {
+    sql += ' WHERE cs.client_id = ?';
+    bind.push(clientId);
   }
-
-  await audit(c.env as any, auth, 'commissioning.start', body.device_id, {
-    site_id: body.site_id ?? null,
-    checklist_id: body.checklist_id ?? null,
-  });
-
-  return c.json({ ok: true, session_id: sessionId });
+  sql += ' ORDER BY COALESCE(c.name, cs.client_id)';
+  const rows = await c.env.DB.prepare(sql).bind(...bind).all();
+  return c.json(rows.results ?? []);
 });
 
-app.post('/api/commissioning/step', async (c) => {
+app.post('/api/admin/slo', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
   }
   const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
   requireRole(auth, ['admin', 'ops']);
   const body = await c.req
     .json<{
-      session_id: string;
-      step_id: string;
-      state: string;
-      readings?: Record<string, unknown>;
-      comment?: string | null;
+      clientId: string;
+      uptimeTarget?: number | string | null;
+      ingestTarget?: number | string | null;
+      copTarget?: number | string | null;
+      reportRecipients?: string | null;
     }>()
     .catch(() => null);
-  if (!body?.session_id || !body.step_id || !body.state) {
-    return c.text('Bad Request', 400);
+  if (!body?.clientId) {
+    return c.text('clientId required', 400);
   }
+
+  const toRatio = (value: number | string | null | undefined): number | null => {
+    if (value == null) return null;
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? value : null;
+    }
+    if (typeof value === 'string' && value.trim() !== '') {
+      const parsed = Number(value);
+      if (Number.isFinite(parsed)) {
+        return parsed;
+      }
+    }
+    return null;
+  };
+
+  const uptimeTarget = toRatio(body.uptimeTarget);
+  const ingestTarget = toRatio(body.ingestTarget);
+  const copTarget = toRatio(body.copTarget);
+  const recipients = body.reportRecipients ?? null;
+
   await c.env.DB.prepare(
-    'UPDATE commissioning_steps SET state=?, readings_json=?, comment=?, updated_at=datetime(\'now\') WHERE session_id=? AND step_id=?',
+    `INSERT INTO client_slos (client_id, uptime_target, ingest_target, cop_target, report_recipients, updated_at)
+       VALUES (?, ?, ?, ?, ?, datetime('now'))
+       ON CONFLICT(client_id) DO UPDATE SET
+         uptime_target=excluded.uptime_target,
+         ingest_target=excluded.ingest_target,
+         cop_target=excluded.cop_target,
+         report_recipients=excluded.report_recipients,
+         updated_at=excluded.updated_at`,
   )
-    .bind(
-      body.state,
-      body.readings ? JSON.stringify(body.readings) : null,
-      body.comment ?? null,
-      body.session_id,
-      body.step_id,
-    )
+    .bind(body.clientId, uptimeTarget, ingestTarget, copTarget, recipients)
     .run();
-  await audit(c.env as any, auth, 'commissioning.step', `${body.session_id}:${body.step_id}`, {
-    state: body.state,
-    readings: body.readings ?? null,
-    comment: body.comment ?? null,
-  });
+
   return c.json({ ok: true });
 });
 
-app.post('/api/commissioning/finalise', async (c) => {
+app.get('/api/admin/sites', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare('SELECT site_id, name, region FROM sites ORDER BY site_id').all();
+  return c.json(rows.results ?? []);
+});
+
+app.get('/api/admin/maintenance', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare(
+    `SELECT id, site_id, device_id, start_ts, end_ts, reason,
+            CASE WHEN start_ts <= datetime('now') AND (end_ts IS NULL OR end_ts >= datetime('now')) THEN 1 ELSE 0 END AS active
+       FROM maintenance_windows
+       ORDER BY start_ts DESC
+       LIMIT 200`,
+  ).all<{
+    id: string;
+    site_id: string | null;
+    device_id: string | null;
+    start_ts: string;
+    end_ts: string;
+    reason: string | null;
+    active: number | null;
+  }>();
+  const results = (rows.results ?? []).map((row) => ({
+    ...row,
+    active: row.active === 1,
+  }));
+  return c.json(results);
+});
+
+app.post('/api/admin/maintenance', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
   }
   const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
   requireRole(auth, ['admin', 'ops']);
   const body = await c.req
-    .json<{ session_id: string; outcome?: string; notes?: string | null }>()
+    .json<{ siteId?: string; deviceId?: string; startTs?: string; endTs?: string; reason?: string }>()
     .catch(() => null);
-  if (!body?.session_id) {
+  if (!body) {
     return c.text('Bad Request', 400);
   }
-  const outcome = body.outcome ?? 'passed';
-  if (outcome === 'passed') {
-    const req = await c.env.DB.prepare(
-      `SELECT coalesce(required_steps_json, steps_json) AS steps FROM commissioning_checklists
-       WHERE checklist_id = (SELECT checklist_id FROM commissioning_sessions WHERE session_id=?)`,
-    )
-      .bind(body.session_id)
-      .first<{ steps: string } | null>();
-    let required: string[] = [];
-    if (req?.steps) {
-      try {
-        const parsed = JSON.parse(req.steps) as Array<{ id?: string } | string>;
-        required = parsed
-          .map((item) => (typeof item === 'string' ? item : item.id ?? null))
-          .filter((id): id is string => !!id);
-      } catch (error) {
-        console.warn('Invalid commissioning required steps JSON', error);
-      }
-    }
-    if (required.length) {
-      const rows = await c.env.DB.prepare(
-        'SELECT step_id, state FROM commissioning_steps WHERE session_id=?',
-      )
-        .bind(body.session_id)
-        .all<{ step_id: string; state: string }>();
-      const states = Object.fromEntries((rows.results ?? []).map((r) => [r.step_id, r.state]));
-      const missing = required.filter((id) => states[id] !== 'pass');
-      if (missing.length) {
-        return c.json({ ok: false, error: 'required_steps_not_passed', missing }, 409);
-      }
-    }
+
+  const siteId = body.siteId?.trim() || null;
+  const deviceId = body.deviceId?.trim() || null;
+  if (!siteId && !deviceId) {
+    return c.text('Must provide a siteId or deviceId', 400);
   }
-  await c.env.DB.prepare(
-    "UPDATE commissioning_sessions SET status=?, finished_at=datetime('now'), notes=COALESCE(?,notes) WHERE session_id=?",
-  )
-    .bind(outcome, body.notes ?? null, body.session_id)
-    .run();
 
-  const { renderCommissioningPdf } = await import('./reports/commissioning-pdf');
-  const { key, size } = await renderCommissioningPdf(c.env, body.session_id);
+  const startTs = parseIsoTimestamp(body.startTs);
+  const endTs = parseIsoTimestamp(body.endTs);
+  if (!startTs || !endTs) {
+    return c.text('Invalid start or end timestamp', 400);
+  }
+
+  if (Date.parse(startTs) >= Date.parse(endTs)) {
+    return c.text('End must be after start', 400);
+  }
+
+  const reason = body.reason?.trim();
+  const id = crypto.randomUUID();
   await c.env.DB.prepare(
-    'INSERT OR REPLACE INTO commissioning_artifacts(session_id,kind,r2_key,size_bytes) VALUES (?,?,?,?)',
+    'INSERT INTO maintenance_windows (id, site_id, device_id, start_ts, end_ts, reason) VALUES (?, ?, ?, ?, ?, ?)',
   )
-    .bind(body.session_id, 'pdf', key, size)
+    .bind(id, siteId, deviceId, startTs, endTs, reason && reason.length > 0 ? reason.slice(0, 500) : null)
     .run();
 
-  await audit(c.env as any, auth, 'commissioning.finalise', body.session_id, {
-    outcome,
-    notes: body.notes ?? null,
-  });
+  return c.json({ ok: true, id });
+});
 
-  return c.json({ ok: true, r2_key: key });
+app.delete('/api/admin/maintenance/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  await c.env.DB.prepare('DELETE FROM maintenance_windows WHERE id=?').bind(id).run();
+  return c.json({ ok: true });
 });
 
-app.post('/api/commissioning/measure-now', async (c) => {
+app.get('/api/admin/alert-rules', async (c) => {
   const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
   requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare(
+    `SELECT id, rule, scope, scope_id, enabled, severity, dwell_sec, cooldown_sec, thresholds_json,
+            created_by, created_at, updated_at
+       FROM alert_rules
+       ORDER BY rule, CASE scope WHEN 'fleet' THEN 0 WHEN 'client' THEN 1 WHEN 'site' THEN 2 ELSE 3 END, scope_id`,
+  ).all<AlertRuleRow & { created_by: string | null; created_at: string; updated_at: string }>();
+  const rules = (rows.results ?? []).map((row) => ({
+    ...row,
+    enabled: row.enabled == null ? null : row.enabled !== 0,
+    thresholds: isRuleName(row.rule) ? parseThresholds(row.rule, row.thresholds_json) : {},
+  }));
+  return c.json({ defaults: defaultAlertConfig(), rules });
+});
+
+app.post('/api/admin/alert-rules', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
   }
-
-  const body = await c.req
-    .json<{
-      session_id: string;
-      step_id: string;
-      expectations?: { delta_t_min?: number; flow_min_lpm?: number; cop_min?: number };
-    }>()
-    .catch(() => null);
-
-  if (!body?.session_id || !body.step_id) {
-    return c.text('Bad Request', 400);
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
   }
-
-  const session = await c.env.DB.prepare('SELECT device_id FROM commissioning_sessions WHERE session_id=?')
-    .bind(body.session_id)
-    .first<{ device_id: string }>();
-  if (!session) {
-    return c.text('Session not found', 404);
+  requireRole(auth, ['admin', 'ops']);
+  const parsed = parseAlertRuleInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
   }
+  const input = parsed.value;
 
-  const latest = await getLatestTelemetry(c.env.DB, session.device_id);
-  if (!latest) {
-    return c.text('No telemetry yet', 409);
+  const existing = await c.env.DB.prepare(
+    "SELECT id FROM alert_rules WHERE rule=? AND scope=? AND COALESCE(scope_id,'')=COALESCE(?,'')",
+  )
+    .bind(input.rule, input.scope, input.scopeId)
+    .first<{ id: string }>();
+  if (existing) {
+    return c.json({ ok: false, error: 'exists', id: existing.id }, 409);
   }
 
-  const dtMin =
-    body.expectations?.delta_t_min ?? numberFromSetting(await getSetting(c.env.DB, 'commissioning_delta_t_min'), 0);
-  const flowMin =
-    body.expectations?.flow_min_lpm ?? numberFromSetting(await getSetting(c.env.DB, 'commissioning_flow_min_lpm'), 0);
-  const copMin =
-    body.expectations?.cop_min ?? numberFromSetting(await getSetting(c.env.DB, 'commissioning_cop_min'), 0);
+  const id = crypto.randomUUID();
+  await c.env.DB.prepare(
+    `INSERT INTO alert_rules (id, rule, scope, scope_id, enabled, severity, dwell_sec, cooldown_sec, thresholds_json, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  )
+    .bind(
+      id,
+      input.rule,
+      input.scope,
+      input.scopeId,
+      input.enabled == null ? null : input.enabled ? 1 : 0,
+      input.severity,
+      input.dwellSec,
+      input.cooldownSec,
+      input.thresholds ? JSON.stringify(input.thresholds) : null,
+      auth.email ?? auth.sub,
+    )
+    .run();
 
-  const outlet = typeof latest.outlet === 'number' ? latest.outlet : undefined;
-  const ret = typeof latest.ret === 'number' ? latest.ret : undefined;
-  const deltaT = typeof latest.delta_t === 'number' ? latest.delta_t : computeDeltaT(outlet, ret);
-  const flowValue = typeof latest.flow_lpm === 'number' ? latest.flow_lpm : undefined;
-  const copValue = typeof latest.cop === 'number' ? latest.cop : undefined;
+  await audit(c.env as any, auth, 'alert_rule.create', id, input);
+  return c.json({ ok: true, id });
+});
 
-  const flowOk = flowValue === undefined ? flowMin === 0 : flowValue >= flowMin;
-  const dtOk = deltaT == null ? dtMin === 0 : deltaT >= dtMin;
-  const copOk = copValue === undefined ? copMin === 0 : copValue >= copMin;
-  const pass = flowOk && dtOk && copOk;
+app.put('/api/admin/alert-rules/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare(
+    'SELECT id, rule, scope, scope_id, enabled, severity, dwell_sec, cooldown_sec, thresholds_json FROM alert_rules WHERE id=?',
+  )
+    .bind(id)
+    .first<AlertRuleRow>();
+  if (!current) {
+    return c.text('Not Found', 404);
+  }
 
-  const readings = {
-    ts: latest.ts,
-    outlet: typeof latest.outlet === 'number' ? latest.outlet : null,
-    return: typeof latest.ret === 'number' ? latest.ret : null,
-    flow_lpm: flowValue ?? null,
-    delta_t: deltaT,
-    cop: copValue ?? null,
-  };
+  // Rule and scope identify the override; only the values are editable in place.
+  const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+  const parsed = parseAlertRuleInput({
+    ...(body ?? {}),
+    rule: current.rule,
+    scope: current.scope,
+    scopeId: current.scope_id,
+  });
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
 
   await c.env.DB.prepare(
-    "UPDATE commissioning_steps SET state=?, readings_json=?, updated_at=datetime('now') WHERE session_id=? AND step_id=?",
+    `UPDATE alert_rules
+        SET enabled=?, severity=?, dwell_sec=?, cooldown_sec=?, thresholds_json=?, updated_at=datetime('now')
+      WHERE id=?`,
   )
-    .bind(pass ? 'pass' : 'fail', JSON.stringify(readings), body.session_id, body.step_id)
+    .bind(
+      input.enabled == null ? null : input.enabled ? 1 : 0,
+      input.severity,
+      input.dwellSec,
+      input.cooldownSec,
+      input.thresholds ? JSON.stringify(input.thresholds) : null,
+      id,
+    )
     .run();
 
-  await audit(c.env as any, auth, 'commissioning.measure-now', `${body.session_id}:${body.step_id}`, {
-    result: {
-      delta_t: deltaT,
-      flow_lpm: flowValue,
-      cop: copValue,
+  await audit(c.env as any, auth, 'alert_rule.update', id, {
+    before: {
+      enabled: current.enabled,
+      severity: current.severity,
+      dwellSec: current.dwell_sec,
+      cooldownSec: current.cooldown_sec,
+      thresholds: isRuleName(current.rule) ? parseThresholds(current.rule, current.thresholds_json) : null,
     },
+    after: input,
   });
-
-  return c.json({
-    ok: true,
-    pass,
-    delta_t: deltaT,
-    flow_lpm: flowValue,
-    cop: copValue,
-    ts: latest.ts,
-    thresholds: { delta_t_min: dtMin, flow_min_lpm: flowMin, cop_min: copMin },
-  });
+  return c.json({ ok: true, id });
 });
 
-app.post('/api/commissioning/measure-window', async (c) => {
-  const auth = c.get('auth');
-  requireRole(auth, ['admin', 'ops']);
+app.delete('/api/admin/alert-rules/:id', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
   }
-
-  const body = await c.req
-    .json<{
-      session_id: string;
-      step_id: string;
-      window_s?: number;
-      thresholds?: { delta_t_min?: number; flow_min_lpm?: number; cop_min?: number };
-    }>()
-    .catch(() => null);
-
-  if (!body?.session_id || !body.step_id) {
-    return c.text('Bad Request', 400);
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
   }
-
-  const session = await c.env.DB.prepare('SELECT device_id FROM commissioning_sessions WHERE session_id=?')
-    .bind(body.session_id)
-    .first<{ device_id: string }>();
-  if (!session) {
-    return c.text('Session not found', 404);
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare('SELECT rule, scope, scope_id FROM alert_rules WHERE id=?')
+    .bind(id)
+    .first<{ rule: string; scope: string; scope_id: string | null }>();
+  if (!current) {
+    return c.text('Not Found', 404);
   }
+  await c.env.DB.prepare('DELETE FROM alert_rules WHERE id=?').bind(id).run();
+  await audit(c.env as any, auth, 'alert_rule.delete', id, current);
+  return c.json({ ok: true });
+});
 
-  const dtMin = body.thresholds?.delta_t_min
-    ?? numberFromSetting(await getSetting(c.env.DB, 'commissioning_delta_t_min'), 0);
-  const flowMin = body.thresholds?.flow_min_lpm
-    ?? numberFromSetting(await getSetting(c.env.DB, 'commissioning_flow_min_lpm'), 0);
-  const copMin = body.thresholds?.cop_min
-    ?? numberFromSetting(await getSetting(c.env.DB, 'commissioning_cop_min'), 0);
-
-  const windowSeconds = Math.max(10, Math.min(300, body.window_s ?? 90));
-  const sample = await getWindowSample(c.env.DB, session.device_id, windowSeconds);
+const FAULT_CATALOGUE_COLUMNS =
+  'id, manufacturer, model, code, severity, title, description, causes_json, actions_json, links_json';
 
-  const okDt = sample.delta_t_med != null ? sample.delta_t_med >= dtMin : false;
-  const okFlow = flowMin ? (sample.flow_lpm_med ?? Number.NEGATIVE_INFINITY) >= flowMin : true;
-  const okCop = copMin ? (sample.cop_med ?? Number.NEGATIVE_INFINITY) >= copMin : true;
-  const pass = okDt && okFlow && okCop;
+app.get('/api/admin/fault-catalogue', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare(
+    `SELECT ${FAULT_CATALOGUE_COLUMNS} FROM fault_catalogue ORDER BY code, manufacturer, model`,
+  ).all<FaultCatalogueRow>();
+  return c.json((rows.results ?? []).map(toFaultCatalogueEntry));
+});
 
-  const thresholdsPayload = {
-    delta_t_min: dtMin,
-    flow_min_lpm: flowMin,
-    cop_min: copMin,
-    dtMin,
-    flMin: flowMin,
-    copMin,
-  } as const;
+app.post('/api/admin/fault-catalogue', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const parsed = parseFaultCatalogueInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
+  const existing = await c.env.DB.prepare('SELECT id FROM fault_catalogue WHERE manufacturer=? AND model=? AND code=?')
+    .bind(input.manufacturer ?? '', input.model ?? '', input.code)
+    .first<{ id: string }>();
+  if (existing) {
+    return c.json({ ok: false, error: 'exists', id: existing.id }, 409);
+  }
 
+  const id = crypto.randomUUID();
   await c.env.DB.prepare(
-    "UPDATE commissioning_steps SET state=?, readings_json=?, updated_at=datetime('now') WHERE session_id=? AND step_id=?",
+    `INSERT INTO fault_catalogue
+       (id, manufacturer, model, code, severity, title, description, causes_json, actions_json, links_json, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
   )
     .bind(
-      pass ? 'pass' : 'fail',
-      JSON.stringify({
-        ...sample,
-        thresholds: thresholdsPayload,
-      }),
-      body.session_id,
-      body.step_id,
+      id,
+      input.manufacturer ?? '',
+      input.model ?? '',
+      input.code,
+      input.severity,
+      input.title,
+      input.description,
+      JSON.stringify(input.causes),
+      JSON.stringify(input.actions),
+      JSON.stringify(input.links),
+      auth.email ?? auth.sub,
     )
     .run();
 
-  await audit(c.env as any, auth, 'commissioning.measure-window', `${body.session_id}:${body.step_id}`, {
-    sample,
-    thresholds: thresholdsPayload,
-  });
-
-  return c.json({
-    ok: true,
-    pass,
-    sample,
-    thresholds: thresholdsPayload,
-  });
+  await audit(c.env as any, auth, 'fault_catalogue.create', id, input);
+  return c.json({ ok: true, id });
 });
 
-app.post('/api/commissioning/labels', async (c) => {
-  const auth = c.get('auth');
-  requireRole(auth, ['admin', 'ops']);
+app.put('/api/admin/fault-catalogue/:id', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
   }
-
-  const body = await c.req.json<{ session_id: string }>().catch(() => null);
-  if (!body?.session_id) {
-    return c.text('Bad Request', 400);
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
   }
-
-  const session = await c.env.DB.prepare('SELECT device_id, site_id FROM commissioning_sessions WHERE session_id=?')
-    .bind(body.session_id)
-    .first<{ device_id: string; site_id: string | null }>();
-  if (!session) {
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare(`SELECT ${FAULT_CATALOGUE_COLUMNS} FROM fault_catalogue WHERE id=?`)
+    .bind(id)
+    .first<FaultCatalogueRow>();
+  if (!current) {
     return c.text('Not Found', 404);
   }
-
-  const { renderDeviceLabels } = await import('./reports/labels-pdf');
-  const { key, size } = await renderDeviceLabels(c.env as Env, {
-    device_id: session.device_id,
-    site_id: session.site_id ?? null,
-  });
+  const parsed = parseFaultCatalogueInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
+  const existing = await c.env.DB.prepare(
+    'SELECT id FROM fault_catalogue WHERE manufacturer=? AND model=? AND code=? AND id<>?',
+  )
+    .bind(input.manufacturer ?? '', input.model ?? '', input.code, id)
+    .first<{ id: string }>();
+  if (existing) {
+    return c.json({ ok: false, error: 'exists', id: existing.id }, 409);
+  }
 
   await c.env.DB.prepare(
-    'INSERT OR REPLACE INTO commissioning_artifacts (session_id, kind, r2_key, size_bytes) VALUES (?,?,?,?)',
+    `UPDATE fault_catalogue
+        SET manufacturer=?, model=?, code=?, severity=?, title=?, description=?,
+            causes_json=?, actions_json=?, links_json=?, updated_at=datetime('now')
+      WHERE id=?`,
   )
-    .bind(body.session_id, 'labels', key, size)
+    .bind(
+      input.manufacturer ?? '',
+      input.model ?? '',
+      input.code,
+      input.severity,
+      input.title,
+      input.description,
+      JSON.stringify(input.causes),
+      JSON.stringify(input.actions),
+      JSON.stringify(input.links),
+      id,
+    )
     .run();
 
-  await audit(c.env as any, auth, 'commissioning.labels', body.session_id, { r2_key: key });
+  await audit(c.env as any, auth, 'fault_catalogue.update', id, { before: toFaultCatalogueEntry(current), after: input });
+  return c.json({ ok: true, id });
+});
 
-  return c.json({ ok: true, r2_key: key, size });
+app.delete('/api/admin/fault-catalogue/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare(`SELECT ${FAULT_CATALOGUE_COLUMNS} FROM fault_catalogue WHERE id=?`)
+    .bind(id)
+    .first<FaultCatalogueRow>();
+  if (!current) {
+    return c.text('Not Found', 404);
+  }
+  await c.env.DB.prepare('DELETE FROM fault_catalogue WHERE id=?').bind(id).run();
+  await audit(c.env as any, auth, 'fault_catalogue.delete', id, toFaultCatalogueEntry(current));
+  return c.json({ ok: true });
 });
 
-app.post('/api/commissioning/provisioning-zip', async (c) => {
+app.put('/api/admin/devices/:id/model', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
   const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
   requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const body = ((await c.req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim().slice(0, 80) : null);
+  const next = { manufacturer: text(body.manufacturer), model: text(body.model) };
+  const result = await c.env.DB.prepare('UPDATE devices SET manufacturer=?, model=? WHERE device_id=?')
+    .bind(next.manufacturer, next.model, id)
+    .run();
+  if (!result.meta?.changes) {
+    return c.text('Not Found', 404);
+  }
+  await audit(c.env as any, auth, 'device.model', id, next);
+  return c.json({ ok: true, id, ...next });
+});
+
+app.post('/api/admin/devices/bulk', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
   }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const body = ((await c.req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+  const parsed = parseProvisioningCsv(body.csv);
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const existing = await findExistingDevices(
+    c.env.DB,
+    parsed.value.map((row) => row.deviceId),
+  );
+  if (existing.length) {
+    return c.json({ ok: false, error: 'exists', ids: existing }, 409);
+  }
+  const batchId = crypto.randomUUID();
+  const devices = await provisionDevices(c.env.DB, parsed.value, auth.sub ?? null);
+  await audit(c.env as any, auth, 'device.bulk_provision', batchId, { devices: parsed.value });
+  return c.json({ ok: true, batchId, devices });
+});
 
-  const body = await c.req.json<{ session_id: string }>().catch(() => null);
-  if (!body?.session_id) {
-    return c.text('Bad Request', 400);
+app.post('/api/admin/devices/provisioning-zip', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const body = ((await c.req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+  const deviceIds = Array.isArray(body.deviceIds) ? [...new Set(body.deviceIds.filter(isValidDeviceId))] : [];
+  if (!deviceIds.length || deviceIds.length > MAX_PROVISIONING_ROWS) {
+    return bad(c, [`deviceIds must list 1-${MAX_PROVISIONING_ROWS} device ids`]);
   }
+  const existing = new Set(await findExistingDevices(c.env.DB, deviceIds));
+  const missing = deviceIds.filter((id) => !existing.has(id));
+  if (missing.length) {
+    return c.json({ ok: false, error: 'not_found', ids: missing }, 404);
+  }
+  if (body.batchId != null && !isValidBatchId(body.batchId)) {
+    return bad(c, ['batchId must be 1-64 letters, digits, underscores or hyphens']);
+  }
+  const batchId = isValidBatchId(body.batchId) ? body.batchId : crypto.randomUUID();
+  const { renderProvisioningZip } = await import('./reports/provisioning-zip');
+  const { key, size } = await renderProvisioningZip(
+    c.env,
+    deviceIds.length === 1 ? { device_id: deviceIds[0]! } : { device_ids: deviceIds, batch_id: batchId },
+  );
+  await audit(c.env as any, auth, 'device.provisioning-zip', batchId, { r2_key: key, deviceIds });
+  const url = await getSignedR2Url(c.env.REPORTS, key, 3600, { baseUrl: c.env.REPORTS_PUBLIC_BASE_URL });
+  return c.json({ ok: true, r2_key: key, size, url });
+});
 
-  const session = await c.env.DB.prepare('SELECT device_id FROM commissioning_sessions WHERE session_id=?')
-    .bind(body.session_id)
-    .first<{ device_id: string }>();
-  if (!session) {
+app.get('/api/admin/devices/:id/keys', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const device = await c.env.DB.prepare('SELECT quarantined_at, quarantine_reason FROM devices WHERE device_id=?')
+    .bind(id)
+    .first<{ quarantined_at: string | null; quarantine_reason: string | null }>();
+  if (!device) {
     return c.text('Not Found', 404);
   }
-
-  const { renderProvisioningZip } = await import('./reports/provisioning-zip');
-  const { key, size } = await renderProvisioningZip(c.env, {
-    device_id: session.device_id,
-    session_id: body.session_id,
+  const [keys, usage] = await Promise.all([
+    c.env.DB.prepare(`SELECT ${DEVICE_KEY_COLUMNS} FROM device_keys WHERE device_id=? ORDER BY created_at DESC`)
+      .bind(id)
+      .all<DeviceKeyRow>(),
+    c.env.DB.prepare(
+      `SELECT u.key_id, u.ip, u.first_seen_at, u.last_seen_at
+         FROM device_key_usage u JOIN device_keys k ON k.id = u.key_id
+        WHERE k.device_id=?
+        ORDER BY u.last_seen_at DESC
+        LIMIT 200`,
+    )
+      .bind(id)
+      .all<{ key_id: string; ip: string; first_seen_at: string; last_seen_at: string }>(),
+  ]);
+  const now = Date.now();
+  return c.json({
+    deviceId: id,
+    quarantinedAt: device.quarantined_at ?? null,
+    quarantineReason: device.quarantine_reason ?? null,
+    keys: (keys.results ?? []).map((row) => ({
+      ...toDeviceKey(row, now),
+      usage: (usage.results ?? [])
+        .filter((entry) => entry.key_id === row.id)
+        .map((entry) => ({ ip: entry.ip, firstSeenAt: entry.first_seen_at, lastSeenAt: entry.last_seen_at })),
+    })),
   });
+});
 
-  await c.env.DB.prepare(
-    'INSERT OR REPLACE INTO commissioning_artifacts(session_id, kind, r2_key, size_bytes) VALUES (?,?,?,?)',
-  )
-    .bind(body.session_id, 'zip', key, size)
-    .run();
-
-  await audit(c.env as any, auth, 'commissioning.provisioning-zip', body.session_id, { r2_key: key });
+app.post('/api/admin/devices/:id/keys/rotate', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const body = ((await c.req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+  const graceHours = parseGraceHours(body.graceHours);
+  if (graceHours == null) {
+    return bad(c, [`graceHours must be a number from 0 to ${MAX_ROTATION_GRACE_HOURS}`]);
+  }
+  const label = typeof body.label === 'string' && body.label.trim() ? body.label.trim().slice(0, 80) : null;
+  const device = await c.env.DB.prepare('SELECT device_id FROM devices WHERE device_id=?').bind(id).first();
+  if (!device) {
+    return c.text('Not Found', 404);
+  }
+  const rotated = await rotateDeviceKey(c.env.DB, id, { graceHours, actor: auth.sub ?? null, label });
+  await audit(c.env as any, auth, 'device.key_rotate', id, {
+    keyId: rotated.keyId,
+    graceHours,
+    previousExpiresAt: rotated.previousExpiresAt,
+  });
+  return c.json({ ok: true, ...rotated });
+});
 
-  return c.json({ ok: true, r2_key: key, size });
+app.post('/api/admin/devices/:id/keys/:keyId/revoke', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const keyId = c.req.param('keyId');
+  const current = await c.env.DB.prepare('SELECT revoked_at FROM device_keys WHERE id=? AND device_id=?')
+    .bind(keyId, id)
+    .first<{ revoked_at: string | null }>();
+  if (!current) {
+    return c.text('Not Found', 404);
+  }
+  if (current.revoked_at) {
+    return c.json({ ok: false, error: 'revoked', id: keyId }, 409);
+  }
+  const revokedAt = new Date().toISOString();
+  await c.env.DB.prepare('UPDATE device_keys SET revoked_at=?, revoked_by=? WHERE id=?')
+    .bind(revokedAt, auth.sub ?? null, keyId)
+    .run();
+  await audit(c.env as any, auth, 'device.key_revoke', id, { keyId });
+  return c.json({ ok: true, id: keyId, revokedAt });
 });
 
-app.post('/api/commissioning/email-bundle', async (c) => {
+app.post('/api/admin/devices/:id/quarantine/release', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
   const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
   requireRole(auth, ['admin', 'ops']);
-  const body = await c.req.json<{ session_id: string }>().catch(() => null);
-  if (!body?.session_id) {
-    return c.text('Bad Request', 400);
+  const id = c.req.param('id');
+  const device = await c.env.DB.prepare('SELECT quarantined_at, quarantine_reason FROM devices WHERE device_id=?')
+    .bind(id)
+    .first<{ quarantined_at: string | null; quarantine_reason: string | null }>();
+  if (!device) {
+    return c.text('Not Found', 404);
   }
+  const stub = c.env.DeviceState.get(c.env.DeviceState.idFromName(id));
+  const res = await stub.fetch('https://do/quarantine', { method: 'DELETE' });
+  if (!res.ok) {
+    return c.text('Release failed', 502);
+  }
+  const releasedAt = new Date().toISOString();
+  await c.env.DB.batch([
+    c.env.DB.prepare('UPDATE devices SET quarantined_at=NULL, quarantine_reason=NULL WHERE device_id=?').bind(id),
+    c.env.DB.prepare(
+      "UPDATE alerts SET state='closed', closed_at=? WHERE device_id=? AND type='device_quarantined' AND state IN ('open','ack')",
+    ).bind(releasedAt, id),
+  ]);
+  await audit(c.env as any, auth, 'device.quarantine_release', id, {
+    quarantinedAt: device.quarantined_at,
+    reason: device.quarantine_reason,
+  });
+  return c.json({ ok: true, id, releasedAt });
+});
 
-  const to = (await getSetting(c.env.DB, 'commissioning_report_recipients')) ?? '';
-  const res = await emailCommissioningWithZip(c.env as any, to, body.session_id);
-  await audit(c.env as any, auth, 'commissioning.email-bundle', body.session_id, res);
-  return c.json(res);
+app.get('/api/admin/controller-profiles', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare(
+    `SELECT ${CONTROLLER_PROFILE_COLUMNS},
+            (SELECT COUNT(*) FROM devices d WHERE d.profile_id = controller_profiles.id) AS device_count
+       FROM controller_profiles
+       ORDER BY name`,
+  ).all<ControllerProfileRow & { device_count: number }>();
+  return c.json({
+    profiles: (rows.results ?? []).map((row) => ({ ...toControllerProfile(row), deviceCount: Number(row.device_count ?? 0) })),
+    builtin: BUILTIN_PROFILE,
+  });
 });
 
-app.post('/api/commissioning/email-report', async (c) => {
+app.post('/api/admin/controller-profiles', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
   const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
   requireRole(auth, ['admin', 'ops']);
-  const body = await c.req.json<{ session_id: string }>().catch(() => null);
-  if (!body?.session_id) {
-    return c.text('Bad Request', 400);
+  const body = await c.req.json().catch(() => null);
+  const id = (body as { id?: unknown } | null)?.id;
+  const parsed = parseControllerProfileInput(body);
+  const errors = parsed.ok ? [] : [...parsed.errors];
+  if (!isValidProfileId(id)) {
+    errors.unshift('id must be 1-64 letters, digits, dots, dashes or underscores');
+  }
+  if (!parsed.ok || errors.length > 0) {
+    return bad(c, errors);
+  }
+  const existing = await c.env.DB.prepare('SELECT id FROM controller_profiles WHERE id=?').bind(id).first<{ id: string }>();
+  if (existing) {
+    return c.json({ ok: false, error: 'exists', id: existing.id }, 409);
   }
 
-  const row = await c.env.DB.prepare(
-    "SELECT r2_key FROM commissioning_artifacts WHERE session_id=? AND kind='pdf'",
+  const input = parsed.value;
+  await c.env.DB.prepare(
+    `INSERT INTO controller_profiles (id, name, manufacturer, model, description, fields_json, required_json, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
   )
-    .bind(body.session_id)
-    .first<{ r2_key: string }>();
-  if (!row) {
-    return c.text('No PDF artefact', 409);
-  }
+    .bind(
+      id,
+      input.name,
+      input.manufacturer,
+      input.model,
+      input.description,
+      JSON.stringify(input.fields),
+      JSON.stringify(input.required),
+      auth.email ?? auth.sub,
+    )
+    .run();
 
-  const recipients = (await getSetting(c.env.DB, 'commissioning_report_recipients')) ?? '';
-  const res = await emailCommissioning(
-    c.env,
-    recipients,
-    'Commissioning Report',
-    `Session ${body.session_id}`,
-    row.r2_key,
-  );
-  return c.json(res);
+  await audit(c.env as any, auth, 'controller_profile.create', id as string, input);
+  return c.json({ ok: true, id });
 });
 
-app.post('/api/alerts/:id/snooze', async (c) => {
-  const auth = c.get('auth');
-  requireRole(auth, ['admin', 'ops']);
+app.put('/api/admin/controller-profiles/:id', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
   }
-  const { id } = c.req.param();
-  const payload = await c.req.json<{ minutes?: number; reason?: string }>().catch(() => null);
-  const minutes = Number(payload?.minutes ?? 60);
-  const reasonRaw = payload?.reason;
-  const reason = typeof reasonRaw === 'string' && reasonRaw.trim().length > 0 ? reasonRaw.trim() : null;
-
-  const alertRow = await c.env.DB.prepare(
-    `SELECT alert_id, device_id, type, meta_json FROM alerts WHERE alert_id=? LIMIT 1`,
-  )
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare(`SELECT ${CONTROLLER_PROFILE_COLUMNS} FROM controller_profiles WHERE id=?`)
     .bind(id)
-    .first<{ alert_id: string; device_id: string; type: string; meta_json: string | null }>();
-
-  if (!alertRow) {
+    .first<ControllerProfileRow>();
+  if (!current) {
     return c.text('Not Found', 404);
   }
-
-  const meta = alertRow.meta_json ? JSON.parse(alertRow.meta_json) : {};
-  const kind = typeof meta?.kind === 'string' ? meta.kind : null;
-  const durationMinutes = Number.isFinite(minutes) ? Math.max(5, minutes) : 60;
-  const untilISO = new Date(Date.now() + durationMinutes * 60_000).toISOString();
-
+  const parsed = parseControllerProfileInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
   await c.env.DB.prepare(
-    `INSERT INTO alert_snoozes(id, device_id, type, kind, until_ts, reason, created_by)
-     VALUES(?,?,?,?,?,?,?)`,
+    `UPDATE controller_profiles
+        SET name=?, manufacturer=?, model=?, description=?, fields_json=?, required_json=?, updated_at=datetime('now')
+      WHERE id=?`,
   )
     .bind(
-      crypto.randomUUID(),
-      alertRow.device_id,
-      alertRow.type,
-      kind,
-      untilISO,
-      reason,
-      auth?.sub ?? auth?.email ?? 'ops',
+      input.name,
+      input.manufacturer,
+      input.model,
+      input.description,
+      JSON.stringify(input.fields),
+      JSON.stringify(input.required),
+      id,
     )
     .run();
 
-  await c.env.DB.prepare(
-    `UPDATE alerts
-        SET state='ack',
-            meta_json = json_set(COALESCE(meta_json,'{}'), '$.snoozed_until', ?)
-      WHERE alert_id=?`,
-  )
-    .bind(untilISO, alertRow.alert_id)
-    .run();
-
-  return c.json({ ok: true, until: untilISO });
+  await audit(c.env as any, auth, 'controller_profile.update', id, { before: toControllerProfile(current), after: input });
+  return c.json({ ok: true, id });
 });
 
-app.get('/api/alerts/snoozes', async (c) => {
+app.delete('/api/admin/controller-profiles/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
   const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
   requireRole(auth, ['admin', 'ops']);
-  const deviceId = c.req.query('device_id') ?? null;
-  const sql = deviceId
-    ? `SELECT * FROM alert_snoozes WHERE device_id=? AND until_ts > datetime('now') ORDER BY until_ts ASC`
-    : `SELECT * FROM alert_snoozes WHERE until_ts > datetime('now') ORDER BY until_ts ASC LIMIT 100`;
-  const rows = deviceId
-    ? await c.env.DB.prepare(sql).bind(deviceId).all()
-    : await c.env.DB.prepare(sql).all();
-  return c.json(rows.results ?? []);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare(`SELECT ${CONTROLLER_PROFILE_COLUMNS} FROM controller_profiles WHERE id=?`)
+    .bind(id)
+    .first<ControllerProfileRow>();
+  if (!current) {
+    return c.text('Not Found', 404);
+  }
+  // Devices on a deleted profile would silently fall back to the built-in mapping.
+  const inUse = await c.env.DB.prepare('SELECT COUNT(*) AS n FROM devices WHERE profile_id=?')
+    .bind(id)
+    .first<{ n: number }>();
+  if (Number(inUse?.n ?? 0) > 0) {
+    return c.json({ ok: false, error: 'in_use', devices: Number(inUse?.n) }, 409);
+  }
+  await c.env.DB.prepare('DELETE FROM controller_profiles WHERE id=?').bind(id).run();
+  await audit(c.env as any, auth, 'controller_profile.delete', id, toControllerProfile(current));
+  return c.json({ ok: true });
 });
 
-app.get('/api/alerts', async (c) => {
-  const { DB } = c.env;
+// Dry run: normalise a sample `metrics` object through a stored or draft profile without ingesting it.
+app.post('/api/admin/controller-profiles/:id/test', async (c) => {
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
-
-  const url = new URL(c.req.url);
-  const state = url.searchParams.get('state');
-  const severity = url.searchParams.get('severity');
-  const type = url.searchParams.get('type');
-  const device = url.searchParams.get('deviceId');
-
-  let sql = `SELECT a.*, GROUP_CONCAT(DISTINCT sc.client_id) AS clients
-             FROM alerts a
-             JOIN devices d ON a.device_id = d.device_id
-             LEFT JOIN site_clients sc ON d.site_id = sc.site_id
-             WHERE 1=1`;
-  const bind: Array<string> = [];
-  if (state) {
-    sql += ' AND a.state=?';
-    bind.push(state);
-  }
-  if (severity) {
-    sql += ' AND a.severity=?';
-    bind.push(severity);
-  }
-  if (type) {
-    sql += ' AND a.type=?';
-    bind.push(type);
-  }
-  if (device) {
-    sql += ' AND a.device_id=?';
-    bind.push(device);
+  requireRole(auth, ['admin', 'ops']);
+  const body = ((await c.req.json().catch(() => null)) ?? {}) as { metrics?: unknown; profile?: unknown };
+  if (!body.metrics || typeof body.metrics !== 'object' || Array.isArray(body.metrics)) {
+    return bad(c, ['metrics must be an object']);
   }
-
-  if (auth.roles.includes('client') || auth.roles.includes('contractor')) {
-    const clientIds = auth.clientIds ?? [];
-    if (clientIds.length === 0) {
-      return c.json([]);
+  let profile = await loadControllerProfile(c.env.DB, c.req.param('id'));
+  if (body.profile != null) {
+    const draft = parseControllerProfileInput(body.profile);
+    if (!draft.ok) {
+      return bad(c, draft.errors);
     }
-    const placeholders = clientIds.map(() => '?').join(',');
-    sql += ` AND EXISTS (
-      SELECT 1 FROM site_clients sc2 WHERE sc2.site_id = d.site_id AND sc2.client_id IN (${placeholders})
-    )`;
-    bind.push(...clientIds);
+    profile = { id: c.req.param('id'), ...draft.value };
   }
-
-  sql += ' GROUP BY a.alert_id ORDER BY a.opened_at DESC LIMIT 200';
-  const rows = await DB.prepare(sql).bind(...bind).all();
-  const results = (rows.results ?? []).map((row) => {
-    if (row?.type !== 'baseline_deviation') {
-      return row;
-    }
-    let coverage: number | null =
-      typeof row.coverage === 'number' && Number.isFinite(row.coverage) ? row.coverage : null;
-    let drift: number | null = typeof row.drift === 'number' && Number.isFinite(row.drift) ? row.drift : null;
-    let kind = typeof (row as { meta_kind?: string }).meta_kind === 'string' ? row.meta_kind! : 'delta_t';
-    let units = typeof (row as { meta_units?: string }).meta_units === 'string' ? row.meta_units! : '';
-    try {
-      const metaJson = typeof row.meta_json === 'string' ? row.meta_json : null;
-      const meta = metaJson ? JSON.parse(metaJson) : null;
-      if (meta && typeof meta === 'object') {
-        if (coverage == null && typeof meta.coverage === 'number' && Number.isFinite(meta.coverage)) {
-          coverage = meta.coverage;
-        }
-        if (drift == null && typeof meta.drift === 'number' && Number.isFinite(meta.drift)) {
-          drift = meta.drift;
-        }
-        if (typeof meta.kind === 'string') {
-          kind = meta.kind;
-        }
-        if (typeof meta.units === 'string') {
-          units = meta.units;
-        }
-      }
-    } catch (error) {
-      console.warn('failed to parse baseline meta', error);
-    }
-    if (!units) {
-      units = kind === 'cop' ? '' : kind === 'current' ? 'A' : '°C';
-    }
-    const summaryParts = [`Baseline deviation (${kind}) — ${Math.round((coverage ?? 0) * 100)}% in-range`];
-    if (typeof drift === 'number' && Number.isFinite(drift)) {
-      const signed = `${drift >= 0 ? '+' : ''}${drift.toFixed(2)}${units}`;
-      summaryParts.push(`drift ${signed}`);
-    }
-    return {
-      ...row,
-      coverage,
-      drift,
-      meta_kind: kind,
-      meta_units: units,
-      summary: summaryParts.join('; '),
-    };
+  const result = normalizeMetrics(profile, body.metrics as Record<string, unknown>);
+  return c.json({
+    profileId: profile.id,
+    accepted: result.ok,
+    metrics: result.metrics,
+    missing: result.ok ? [] : result.missing,
   });
-  const isClientOnly =
-    auth && auth.roles.includes('client') && !(auth.roles.includes('admin') || auth.roles.includes('ops'));
-  const out = isClientOnly ? results.map((r) => ({ ...r, device_id: maskId(r.device_id) })) : results;
-  return c.json(out);
 });
 
-app.post('/api/alerts/:id/ack', async (c) => {
+app.get('/api/admin/custom-alert-rules', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare(
+    `SELECT id, name, expression, severity, dwell_sec, cooldown_sec, scope, scope_id, enabled,
+            created_by, created_at, updated_at
+       FROM custom_alert_rules
+       ORDER BY name`,
+  ).all<CustomAlertRuleRow & { created_by: string | null; created_at: string; updated_at: string }>();
+  return c.json(
+    (rows.results ?? []).map((row) => ({ ...row, enabled: row.enabled !== 0, type: customAlertType(row.id) })),
+  );
+});
+
+app.post('/api/admin/custom-alert-rules', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
@@ -4501,14 +7537,36 @@ app.post('/api/alerts/:id/ack', async (c) => {
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
-  const id = c.req.param('id');
-  await c.env.DB.prepare("UPDATE alerts SET state='ack', ack_by=?, ack_at=datetime('now') WHERE alert_id=? AND state='open'")
-    .bind(auth.email ?? auth.sub, id)
+  requireRole(auth, ['admin', 'ops']);
+  const parsed = parseCustomAlertRuleInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
+  const id = crypto.randomUUID();
+  await c.env.DB.prepare(
+    `INSERT INTO custom_alert_rules (id, name, expression, severity, dwell_sec, cooldown_sec, scope, scope_id, enabled, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  )
+    .bind(
+      id,
+      input.name,
+      input.expression,
+      input.severity,
+      input.dwellSec,
+      input.cooldownSec,
+      input.scope,
+      input.scopeId,
+      input.enabled ? 1 : 0,
+      auth.email ?? auth.sub,
+    )
     .run();
-  return c.json({ ok: true });
+
+  await audit(c.env as any, auth, 'custom_alert_rule.create', id, input);
+  return c.json({ ok: true, id, type: customAlertType(id) });
 });
 
-app.post('/api/alerts/:id/resolve', async (c) => {
+app.put('/api/admin/custom-alert-rules/:id', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
@@ -4517,16 +7575,55 @@ app.post('/api/alerts/:id/resolve', async (c) => {
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
+  requireRole(auth, ['admin', 'ops']);
   const id = c.req.param('id');
-  await c.env.DB.prepare(
-    "UPDATE alerts SET state='closed', closed_at=datetime('now') WHERE alert_id=? AND state IN ('open','ack')",
+  const current = await c.env.DB.prepare(
+    'SELECT id, name, expression, severity, dwell_sec, cooldown_sec, scope, scope_id, enabled FROM custom_alert_rules WHERE id=?',
   )
     .bind(id)
+    .first<CustomAlertRuleRow>();
+  if (!current) {
+    return c.text('Not Found', 404);
+  }
+  const parsed = parseCustomAlertRuleInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
+  await c.env.DB.prepare(
+    `UPDATE custom_alert_rules
+        SET name=?, expression=?, severity=?, dwell_sec=?, cooldown_sec=?, scope=?, scope_id=?, enabled=?,
+            updated_at=datetime('now')
+      WHERE id=?`,
+  )
+    .bind(
+      input.name,
+      input.expression,
+      input.severity,
+      input.dwellSec,
+      input.cooldownSec,
+      input.scope,
+      input.scopeId,
+      input.enabled ? 1 : 0,
+      id,
+    )
     .run();
-  return c.json({ ok: true });
+
+  const now = new Date().toISOString();
+  const rescoped = input.scope !== current.scope || input.scopeId !== current.scope_id;
+  const closedAlerts = !input.enabled
+    ? await closeCustomRuleAlerts(c.env, id, now)
+    : rescoped
+      ? await closeCustomRuleAlerts(c.env, id, now, (target) =>
+          ruleAppliesTo({ scope: input.scope, scope_id: input.scopeId }, target),
+        )
+      : 0;
+
+  await audit(c.env as any, auth, 'custom_alert_rule.update', id, { before: current, after: input, closedAlerts });
+  return c.json({ ok: true, id });
 });
 
-app.post('/api/alerts/:id/comment', async (c) => {
+app.delete('/api/admin/custom-alert-rules/:id', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
@@ -4535,52 +7632,157 @@ app.post('/api/alerts/:id/comment', async (c) => {
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
+  requireRole(auth, ['admin', 'ops']);
   const id = c.req.param('id');
-  const { body } = await c.req.json<{ body: string }>();
-  const cid = crypto.randomUUID();
-  await c.env.DB.prepare(
-    `INSERT INTO alert_comments (id, alert_id, author, ts, body) VALUES (?, ?, ?, datetime('now'), ?)`,
-  )
-    .bind(cid, id, auth.email ?? auth.sub, body)
-    .run();
-  return c.json({ ok: true, id: cid });
+  const current = await c.env.DB.prepare('SELECT name, expression FROM custom_alert_rules WHERE id=?')
+    .bind(id)
+    .first<{ name: string; expression: string }>();
+  if (!current) {
+    return c.text('Not Found', 404);
+  }
+  await c.env.DB.prepare('DELETE FROM custom_alert_rules WHERE id=?').bind(id).run();
+  const closedAlerts = await closeCustomRuleAlerts(c.env, id, new Date().toISOString());
+  await audit(c.env as any, auth, 'custom_alert_rule.delete', id, { ...current, closedAlerts });
+  return c.json({ ok: true });
 });
 
-app.get('/api/admin/distinct/regions', async (c) => {
+// Replays the last 24h of a device's telemetry through an expression without raising alerts.
+app.post('/api/admin/custom-alert-rules/dry-run', async (c) => {
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
   requireRole(auth, ['admin', 'ops']);
+  const body = await c.req
+    .json<{ deviceId?: string; expression?: string; dwellSec?: number; cooldownSec?: number }>()
+    .catch(() => null);
+  const deviceId = body?.deviceId?.trim();
+  if (!deviceId) {
+    return c.text('deviceId required', 400);
+  }
+  const parsed = parseCustomAlertRuleInput({
+    name: 'dry-run',
+    expression: body?.expression,
+    dwellSec: body?.dwellSec,
+    cooldownSec: body?.cooldownSec,
+  });
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const compiled = compileExpression(parsed.value.expression);
+  if (!compiled.ok) {
+    return bad(c, [compiled.error]);
+  }
+
+  const to = new Date();
+  const from = new Date(to.getTime() - 24 * 60 * 60 * 1000);
   const rows = await c.env.DB.prepare(
-    "SELECT DISTINCT region FROM sites WHERE region IS NOT NULL AND TRIM(region)<>'' ORDER BY region",
-  ).all();
-  return c.json(rows.results ?? []);
+    `SELECT ts, metrics_json, status_json, faults_json, deltaT, thermalKW, cop, cop_quality
+       FROM telemetry
+      WHERE device_id=? AND ts >= ? AND ts <= ?
+      ORDER BY ts ASC
+      LIMIT 5000`,
+  )
+    .bind(deviceId, from.toISOString(), to.toISOString())
+    .all<TelemetryRow>();
+
+  const result = simulateCustomAlert(
+    compiled.expr,
+    (rows.results ?? []).map(telemetryRowToSample),
+    parsed.value.dwellSec,
+    parsed.value.cooldownSec,
+  );
+  return c.json({ deviceId, from: from.toISOString(), to: to.toISOString(), ...result });
 });
 
-app.get('/api/admin/distinct/clients', async (c) => {
+const NOTIFICATION_SUBSCRIPTION_COLUMNS =
+  'id, name, channel, url, secret, template, events, severities, rules, client_ids, site_ids, enabled, created_at';
+
+const toJsonList = (value: string[] | null) => (value ? JSON.stringify(value) : null);
+
+function presentSubscription(row: NotificationSubscriptionRow & { updated_at?: string }) {
+  const list = (json: string | null): string[] => {
+    if (!json) return [];
+    try {
+      const parsed = JSON.parse(json);
+      return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+      return [];
+    }
+  };
+  return {
+    id: row.id,
+    name: row.name,
+    channel: row.channel,
+    url: row.url,
+    hasSecret: Boolean(row.secret),
+    template: row.template,
+    events: list(row.events),
+    severities: list(row.severities),
+    rules: list(row.rules),
+    clientIds: list(row.client_ids),
+    siteIds: list(row.site_ids),
+    enabled: row.enabled !== 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? null,
+  };
+}
+
+app.get('/api/admin/notifications/subscriptions', async (c) => {
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
   requireRole(auth, ['admin', 'ops']);
   const rows = await c.env.DB.prepare(
-    'SELECT client_id, COALESCE(name, client_id) AS name FROM clients ORDER BY name',
-  ).all();
-  return c.json(rows.results ?? []);
+    `SELECT ${NOTIFICATION_SUBSCRIPTION_COLUMNS}, updated_at FROM notification_subscriptions ORDER BY name`,
+  ).all<NotificationSubscriptionRow & { updated_at: string }>();
+  return c.json((rows.results ?? []).map(presentSubscription));
 });
 
-app.get('/api/admin/site-clients', async (c) => {
+app.post('/api/admin/notifications/subscriptions', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
-  requireRole(auth, ['admin', 'ops']);
-  const rows = await c.env.DB.prepare('SELECT client_id, site_id FROM site_clients ORDER BY client_id, site_id').all();
-  return c.json(rows.results ?? []);
+  requireRole(auth, ['admin']);
+  const parsed = parseNotificationSubscriptionInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
+  const id = crypto.randomUUID();
+  await c.env.DB.prepare(
+    `INSERT INTO notification_subscriptions
+       (id, name, channel, url, secret, template, events, severities, rules, client_ids, site_ids, enabled, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  )
+    .bind(
+      id,
+      input.name,
+      input.channel,
+      input.url,
+      input.secret,
+      input.template,
+      toJsonList(input.events),
+      toJsonList(input.severities),
+      toJsonList(input.rules),
+      toJsonList(input.clientIds),
+      toJsonList(input.siteIds),
+      input.enabled ? 1 : 0,
+      auth.email ?? auth.sub,
+    )
+    .run();
+
+  await audit(c.env as any, auth, 'notification_subscription.create', id, { ...input, secret: Boolean(input.secret) });
+  return c.json({ ok: true, id });
 });
 
-app.post('/api/admin/site-clients', async (c) => {
+app.put('/api/admin/notifications/subscriptions/:id', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
@@ -4589,16 +7791,80 @@ app.post('/api/admin/site-clients', async (c) => {
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
-  requireRole(auth, ['admin', 'ops']);
-  const { clientId, siteId } = await c.req.json<{ clientId: string; siteId: string }>();
-  if (!clientId || !siteId) {
-    return c.text('Bad Request', 400);
+  requireRole(auth, ['admin']);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare(
+    `SELECT ${NOTIFICATION_SUBSCRIPTION_COLUMNS} FROM notification_subscriptions WHERE id=?`,
+  )
+    .bind(id)
+    .first<NotificationSubscriptionRow>();
+  if (!current) {
+    return c.text('Not Found', 404);
   }
-  await c.env.DB.prepare('INSERT OR IGNORE INTO site_clients (client_id, site_id) VALUES (?, ?)').bind(clientId, siteId).run();
+  const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+  const parsed = parseNotificationSubscriptionInput(body);
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
+  // Omitting `secret` keeps the stored key; sending an empty string clears it.
+  const secret = body && 'secret' in body ? input.secret : current.secret;
+
+  await c.env.DB.prepare(
+    `UPDATE notification_subscriptions
+        SET name=?, channel=?, url=?, secret=?, template=?, events=?, severities=?, rules=?, client_ids=?, site_ids=?,
+            enabled=?, updated_at=datetime('now')
+      WHERE id=?`,
+  )
+    .bind(
+      input.name,
+      input.channel,
+      input.url,
+      secret,
+      input.template,
+      toJsonList(input.events),
+      toJsonList(input.severities),
+      toJsonList(input.rules),
+      toJsonList(input.clientIds),
+      toJsonList(input.siteIds),
+      input.enabled ? 1 : 0,
+      id,
+    )
+    .run();
+
+  await audit(c.env as any, auth, 'notification_subscription.update', id, {
+    before: { ...presentSubscription(current) },
+    after: { ...input, secret: Boolean(secret) },
+  });
+  return c.json({ ok: true, id });
+});
+
+app.delete('/api/admin/notifications/subscriptions/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin']);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare('SELECT name, channel, url FROM notification_subscriptions WHERE id=?')
+    .bind(id)
+    .first<{ name: string; channel: string; url: string }>();
+  if (!current) {
+    return c.text('Not Found', 404);
+  }
+  await c.env.DB.batch([
+    c.env.DB.prepare("DELETE FROM notification_deliveries WHERE subscription_id=? AND status IN ('pending','sending')").bind(id),
+    c.env.DB.prepare('DELETE FROM notification_subscriptions WHERE id=?').bind(id),
+  ]);
+  await audit(c.env as any, auth, 'notification_subscription.delete', id, current);
   return c.json({ ok: true });
 });
 
-app.delete('/api/admin/site-clients', async (c) => {
+app.post('/api/admin/notifications/subscriptions/:id/test', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
@@ -4608,37 +7874,58 @@ app.delete('/api/admin/site-clients', async (c) => {
     return c.text('Unauthorized', 401);
   }
   requireRole(auth, ['admin', 'ops']);
-  const url = new URL(c.req.url);
-  const clientId = url.searchParams.get('clientId');
-  const siteId = url.searchParams.get('siteId');
-  if (!clientId || !siteId) {
-    return c.text('Bad Request', 400);
+  const id = c.req.param('id');
+  const sub = await c.env.DB.prepare(`SELECT ${NOTIFICATION_SUBSCRIPTION_COLUMNS} FROM notification_subscriptions WHERE id=?`)
+    .bind(id)
+    .first<NotificationSubscriptionRow>();
+  if (!sub) {
+    return c.text('Not Found', 404);
   }
-  await c.env.DB.prepare('DELETE FROM site_clients WHERE client_id=? AND site_id=?').bind(clientId, siteId).run();
-  return c.json({ ok: true });
+  const result = await sendNotification(sub, {
+    ...SAMPLE_NOTIFICATION_EVENT,
+    key: `test:${crypto.randomUUID()}`,
+    ts: new Date().toISOString(),
+  });
+  await audit(c.env as any, auth, 'notification_subscription.test', id, result);
+  return c.json(result);
 });
 
-app.get('/api/admin/slo', async (c) => {
+app.get('/api/admin/notifications/deliveries', async (c) => {
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
   requireRole(auth, ['admin', 'ops']);
   const url = new URL(c.req.url);
-  const clientId = url.searchParams.get('clientId');
-  let sql =
-    'SELECT cs.client_id, cs.uptime_target, cs.ingest_target, cs.cop_target, cs.report_recipients, cs.updated_at, c.name AS client_name FROM client_slos cs LEFT JOIN clients c ON c.client_id = cs.client_id';
-  const bind: string[] = [];
-  if (clientId) {
-    sql += ' WHERE cs.client_id = ?';
-    bind.push(clientId);
+  const subscriptionId = url.searchParams.get('subscriptionId');
+  const status = url.searchParams.get('status');
+  const limit = Math.min(Math.max(Number(url.searchParams.get('limit') ?? 100) || 100, 1), 500);
+
+  const where: string[] = [];
+  const bind: Array<string | number> = [];
+  if (subscriptionId) {
+    where.push('d.subscription_id = ?');
+    bind.push(subscriptionId);
   }
-  sql += ' ORDER BY COALESCE(c.name, cs.client_id)';
-  const rows = await c.env.DB.prepare(sql).bind(...bind).all();
+  if (status) {
+    where.push('d.status = ?');
+    bind.push(status);
+  }
+  const rows = await c.env.DB.prepare(
+    `SELECT d.id, d.subscription_id, s.name AS subscription_name, s.channel, d.event_key, d.event_type, d.status,
+            d.attempts, d.next_attempt_at, d.last_attempt_at, d.last_status_code, d.last_error, d.delivered_at, d.created_at
+       FROM notification_deliveries d
+       LEFT JOIN notification_subscriptions s ON s.id = d.subscription_id
+      ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+      ORDER BY d.created_at DESC
+      LIMIT ?`,
+  )
+    .bind(...bind, limit)
+    .all();
   return c.json(rows.results ?? []);
 });
 
-app.post('/api/admin/slo', async (c) => {
+app.post('/api/admin/notifications/deliveries/:id/retry', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
@@ -4648,93 +7935,242 @@ app.post('/api/admin/slo', async (c) => {
     return c.text('Unauthorized', 401);
   }
   requireRole(auth, ['admin', 'ops']);
-  const body = await c.req
-    .json<{
-      clientId: string;
-      uptimeTarget?: number | string | null;
-      ingestTarget?: number | string | null;
-      copTarget?: number | string | null;
-      reportRecipients?: string | null;
-    }>()
-    .catch(() => null);
-  if (!body?.clientId) {
-    return c.text('clientId required', 400);
+  const id = c.req.param('id');
+  const result = await c.env.DB.prepare(
+    "UPDATE notification_deliveries SET status='pending', attempts=0, next_attempt_at=? WHERE id=? AND status='failed'",
+  )
+    .bind(new Date().toISOString(), id)
+    .run();
+  if (!result.meta?.changes) {
+    return c.text('Not Found', 404);
   }
+  await audit(c.env as any, auth, 'notification_delivery.retry', id);
+  return c.json({ ok: true });
+});
 
-  const toRatio = (value: number | string | null | undefined): number | null => {
-    if (value == null) return null;
-    if (typeof value === 'number') {
-      return Number.isFinite(value) ? value : null;
-    }
-    if (typeof value === 'string' && value.trim() !== '') {
-      const parsed = Number(value);
-      if (Number.isFinite(parsed)) {
-        return parsed;
-      }
+app.get('/api/admin/escalation-policies', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const rows = await c.env.DB.prepare(
+    `SELECT id, name, severities, rules, site_ids, client_ids, tiers_json, enabled, created_at, updated_at
+       FROM escalation_policies
+       ORDER BY created_at`,
+  ).all<EscalationPolicyRow & { updated_at: string }>();
+  const list = (json: string | null) => {
+    try {
+      const parsed = json ? JSON.parse(json) : null;
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
     }
-    return null;
   };
+  return c.json(
+    (rows.results ?? []).map((row) => ({
+      id: row.id,
+      name: row.name,
+      severities: list(row.severities),
+      rules: list(row.rules),
+      siteIds: list(row.site_ids),
+      clientIds: list(row.client_ids),
+      tiers: parseTiers(row.tiers_json),
+      enabled: row.enabled !== 0,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    })),
+  );
+});
 
-  const uptimeTarget = toRatio(body.uptimeTarget);
-  const ingestTarget = toRatio(body.ingestTarget);
-  const copTarget = toRatio(body.copTarget);
-  const recipients = body.reportRecipients ?? null;
+app.post('/api/admin/escalation-policies', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin']);
+  const parsed = parseEscalationPolicyInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
+  const id = crypto.randomUUID();
+  await c.env.DB.prepare(
+    `INSERT INTO escalation_policies (id, name, severities, rules, site_ids, client_ids, tiers_json, enabled, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  )
+    .bind(
+      id,
+      input.name,
+      toJsonList(input.severities),
+      toJsonList(input.rules),
+      toJsonList(input.siteIds),
+      toJsonList(input.clientIds),
+      JSON.stringify(input.tiers),
+      input.enabled ? 1 : 0,
+      auth.email ?? auth.sub,
+    )
+    .run();
+  await audit(c.env as any, auth, 'escalation_policy.create', id, input);
+  return c.json({ ok: true, id });
+});
 
+app.put('/api/admin/escalation-policies/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin']);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare(
+    'SELECT id, name, severities, rules, site_ids, client_ids, tiers_json, enabled, created_at FROM escalation_policies WHERE id=?',
+  )
+    .bind(id)
+    .first<EscalationPolicyRow>();
+  if (!current) {
+    return c.text('Not Found', 404);
+  }
+  const parsed = parseEscalationPolicyInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
   await c.env.DB.prepare(
-    `INSERT INTO client_slos (client_id, uptime_target, ingest_target, cop_target, report_recipients, updated_at)
-       VALUES (?, ?, ?, ?, ?, datetime('now'))
-       ON CONFLICT(client_id) DO UPDATE SET
-         uptime_target=excluded.uptime_target,
-         ingest_target=excluded.ingest_target,
-         cop_target=excluded.cop_target,
-         report_recipients=excluded.report_recipients,
-         updated_at=excluded.updated_at`,
+    `UPDATE escalation_policies
+        SET name=?, severities=?, rules=?, site_ids=?, client_ids=?, tiers_json=?, enabled=?, updated_at=datetime('now')
+      WHERE id=?`,
   )
-    .bind(body.clientId, uptimeTarget, ingestTarget, copTarget, recipients)
+    .bind(
+      input.name,
+      toJsonList(input.severities),
+      toJsonList(input.rules),
+      toJsonList(input.siteIds),
+      toJsonList(input.clientIds),
+      JSON.stringify(input.tiers),
+      input.enabled ? 1 : 0,
+      id,
+    )
     .run();
+  await audit(c.env as any, auth, 'escalation_policy.update', id, { before: current, after: input });
+  return c.json({ ok: true, id });
+});
 
+app.delete('/api/admin/escalation-policies/:id', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin']);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare('SELECT name, tiers_json FROM escalation_policies WHERE id=?')
+    .bind(id)
+    .first<{ name: string; tiers_json: string }>();
+  if (!current) {
+    return c.text('Not Found', 404);
+  }
+  // Active escalations under this policy stop paging; their timelines are kept.
+  await c.env.DB.batch([
+    c.env.DB.prepare(
+      "UPDATE alert_escalations SET status='exhausted', updated_at=? WHERE policy_id=? AND status='active'",
+    ).bind(new Date().toISOString(), id),
+    c.env.DB.prepare('DELETE FROM escalation_policies WHERE id=?').bind(id),
+  ]);
+  await audit(c.env as any, auth, 'escalation_policy.delete', id, current);
   return c.json({ ok: true });
 });
 
-app.get('/api/admin/sites', async (c) => {
+function tariffAssignmentStatements(DB: D1Database, tariffId: string, input: TariffInput) {
+  // A site or client carries at most one tariff, so assigning here moves it off any other tariff.
+  return [
+    DB.prepare('DELETE FROM tariff_assignments WHERE tariff_id=?').bind(tariffId),
+    ...input.siteIds.map((siteId) =>
+      DB.prepare(
+        `INSERT INTO tariff_assignments (tariff_id, scope, scope_id) VALUES (?, 'site', ?)
+         ON CONFLICT(scope, scope_id) DO UPDATE SET tariff_id=excluded.tariff_id`,
+      ).bind(tariffId, siteId),
+    ),
+    ...input.clientIds.map((clientId) =>
+      DB.prepare(
+        `INSERT INTO tariff_assignments (tariff_id, scope, scope_id) VALUES (?, 'client', ?)
+         ON CONFLICT(scope, scope_id) DO UPDATE SET tariff_id=excluded.tariff_id`,
+      ).bind(tariffId, clientId),
+    ),
+  ];
+}
+
+app.get('/api/admin/tariffs', async (c) => {
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
   requireRole(auth, ['admin', 'ops']);
-  const rows = await c.env.DB.prepare('SELECT site_id, name, region FROM sites ORDER BY site_id').all();
-  return c.json(rows.results ?? []);
+  const [tariffs, assignments] = await Promise.all([
+    c.env.DB.prepare(
+      'SELECT id, name, currency, timezone, definition_json, created_at, updated_at FROM tariffs ORDER BY name',
+    ).all<TariffRow>(),
+    c.env.DB.prepare('SELECT tariff_id, scope, scope_id FROM tariff_assignments ORDER BY scope_id').all<{
+      tariff_id: string;
+      scope: 'site' | 'client';
+      scope_id: string;
+    }>(),
+  ]);
+  const assigned = assignments.results ?? [];
+  return c.json(
+    (tariffs.results ?? []).map((row) => {
+      const tariff = parseTariffRow(row);
+      return {
+        ...tariff,
+        seasons: tariff.definition.seasons,
+        definition: undefined,
+        siteIds: assigned.filter((a) => a.tariff_id === row.id && a.scope === 'site').map((a) => a.scope_id),
+        clientIds: assigned.filter((a) => a.tariff_id === row.id && a.scope === 'client').map((a) => a.scope_id),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      };
+    }),
+  );
 });
 
-app.get('/api/admin/maintenance', async (c) => {
+app.post('/api/admin/tariffs', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
   const auth = c.get('auth');
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
-  requireRole(auth, ['admin', 'ops']);
-  const rows = await c.env.DB.prepare(
-    `SELECT id, site_id, device_id, start_ts, end_ts, reason,
-            CASE WHEN start_ts <= datetime('now') AND (end_ts IS NULL OR end_ts >= datetime('now')) THEN 1 ELSE 0 END AS active
-       FROM maintenance_windows
-       ORDER BY start_ts DESC
-       LIMIT 200`,
-  ).all<{
-    id: string;
-    site_id: string | null;
-    device_id: string | null;
-    start_ts: string;
-    end_ts: string;
-    reason: string | null;
-    active: number | null;
-  }>();
-  const results = (rows.results ?? []).map((row) => ({
-    ...row,
-    active: row.active === 1,
-  }));
-  return c.json(results);
+  requireRole(auth, ['admin']);
+  const parsed = parseTariffInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
+  }
+  const input = parsed.value;
+  const id = crypto.randomUUID();
+  await c.env.DB.batch([
+    c.env.DB.prepare(
+      `INSERT INTO tariffs (id, name, currency, timezone, definition_json, created_by)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    ).bind(id, input.name, input.currency, input.timezone, JSON.stringify(input.definition), auth.email ?? auth.sub),
+    ...tariffAssignmentStatements(c.env.DB, id, input),
+  ]);
+  await audit(c.env as any, auth, 'tariff.create', id, input);
+  return c.json({ ok: true, id });
 });
 
-app.post('/api/admin/maintenance', async (c) => {
+app.put('/api/admin/tariffs/:id', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
@@ -4743,42 +8179,32 @@ app.post('/api/admin/maintenance', async (c) => {
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
-  requireRole(auth, ['admin', 'ops']);
-  const body = await c.req
-    .json<{ siteId?: string; deviceId?: string; startTs?: string; endTs?: string; reason?: string }>()
-    .catch(() => null);
-  if (!body) {
-    return c.text('Bad Request', 400);
-  }
-
-  const siteId = body.siteId?.trim() || null;
-  const deviceId = body.deviceId?.trim() || null;
-  if (!siteId && !deviceId) {
-    return c.text('Must provide a siteId or deviceId', 400);
-  }
-
-  const startTs = parseIsoTimestamp(body.startTs);
-  const endTs = parseIsoTimestamp(body.endTs);
-  if (!startTs || !endTs) {
-    return c.text('Invalid start or end timestamp', 400);
+  requireRole(auth, ['admin']);
+  const id = c.req.param('id');
+  const current = await c.env.DB.prepare(
+    'SELECT id, name, currency, timezone, definition_json, created_at, updated_at FROM tariffs WHERE id=?',
+  )
+    .bind(id)
+    .first<TariffRow>();
+  if (!current) {
+    return c.text('Not Found', 404);
   }
-
-  if (Date.parse(startTs) >= Date.parse(endTs)) {
-    return c.text('End must be after start', 400);
+  const parsed = parseTariffInput(await c.req.json().catch(() => null));
+  if (!parsed.ok) {
+    return bad(c, parsed.errors);
   }
-
-  const reason = body.reason?.trim();
-  const id = crypto.randomUUID();
-  await c.env.DB.prepare(
-    'INSERT INTO maintenance_windows (id, site_id, device_id, start_ts, end_ts, reason) VALUES (?, ?, ?, ?, ?, ?)',
-  )
-    .bind(id, siteId, deviceId, startTs, endTs, reason && reason.length > 0 ? reason.slice(0, 500) : null)
-    .run();
-
+  const input = parsed.value;
+  await c.env.DB.batch([
+    c.env.DB.prepare(
+      `UPDATE tariffs SET name=?, currency=?, timezone=?, definition_json=?, updated_at=datetime('now') WHERE id=?`,
+    ).bind(input.name, input.currency, input.timezone, JSON.stringify(input.definition), id),
+    ...tariffAssignmentStatements(c.env.DB, id, input),
+  ]);
+  await audit(c.env as any, auth, 'tariff.update', id, { before: parseTariffRow(current), after: input });
   return c.json({ ok: true, id });
 });
 
-app.delete('/api/admin/maintenance/:id', async (c) => {
+app.delete('/api/admin/tariffs/:id', async (c) => {
   const blocked = await guardWrite(c);
   if (blocked) {
     return blocked;
@@ -4787,9 +8213,20 @@ app.delete('/api/admin/maintenance/:id', async (c) => {
   if (!auth) {
     return c.text('Unauthorized', 401);
   }
-  requireRole(auth, ['admin', 'ops']);
+  requireRole(auth, ['admin']);
   const id = c.req.param('id');
-  await c.env.DB.prepare('DELETE FROM maintenance_windows WHERE id=?').bind(id).run();
+  const current = await c.env.DB.prepare('SELECT name, currency FROM tariffs WHERE id=?')
+    .bind(id)
+    .first<{ name: string; currency: string }>();
+  if (!current) {
+    return c.text('Not Found', 404);
+  }
+  // Stored daily costs keep their tariff_id so past reports stay reproducible.
+  await c.env.DB.batch([
+    c.env.DB.prepare('DELETE FROM tariff_assignments WHERE tariff_id=?').bind(id),
+    c.env.DB.prepare('DELETE FROM tariffs WHERE id=?').bind(id),
+  ]);
+  await audit(c.env as any, auth, 'tariff.delete', id, current);
   return c.json({ ok: true });
 });
 
@@ -4850,15 +8287,63 @@ app.get('/api/overview/kpis', async (c) => {
   }
   const snapshot = await collectOverviewSnapshot(c.env.DB, auth, { includeSites: false, includeSeries: false });
   const onlinePct = snapshot.totalDevices > 0 ? (100 * snapshot.onlineCount) / snapshot.totalDevices : 0;
+  const cost = await collectOverviewCost(c.env.DB, auth).catch(() => null);
   return c.json({
     online_pct: onlinePct,
     open_alerts: snapshot.openAlerts,
     avg_cop: snapshot.avgCop ?? 0,
     low_dt: snapshot.lowDeltaCount,
+    cost_30d: cost?.cost ?? null,
+    cost_per_kwh_heat: cost?.perKwhHeat ?? null,
+    cost_currency: cost?.currency ?? null,
     updated_at: snapshot.updatedAt,
   });
 });
 
+/**
+ * Running cost over the last 30 UTC days for the devices the caller can see. Returns null when no
+ * tariff has priced anything yet or when the visible fleet spans several currencies.
+ */
+async function collectOverviewCost(
+  DB: D1Database,
+  auth: AccessContext,
+): Promise<{ currency: string; cost: number; perKwhHeat: number | null } | null> {
+  const fromDay = new Date(Date.now() - 29 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const restricted = auth.roles.includes('client') || auth.roles.includes('contractor');
+  const clientIds = auth.clientIds ?? [];
+  if (restricted && clientIds.length === 0) {
+    return null;
+  }
+  const placeholders = clientIds.map(() => '?').join(',');
+  const rows = await DB.prepare(
+    restricted
+      ? `SELECT cd.currency, SUM(cd.cost) AS cost, SUM(cd.kwh_thermal) AS kwh_thermal
+           FROM device_cost_daily cd
+           JOIN devices d ON d.device_id = cd.device_id
+          WHERE cd.day >= ?
+            AND d.site_id IN (SELECT site_id FROM site_clients WHERE client_id IN (${placeholders}))
+          GROUP BY cd.currency`
+      : `SELECT currency, SUM(cost) AS cost, SUM(kwh_thermal) AS kwh_thermal
+           FROM device_cost_daily
+          WHERE day >= ?
+          GROUP BY currency`,
+  )
+    .bind(fromDay, ...(restricted ? clientIds : []))
+    .all<{ currency: string; cost: number | null; kwh_thermal: number | null }>();
+  const list = rows.results ?? [];
+  const row = list[0];
+  if (list.length !== 1 || !row) {
+    return null;
+  }
+  const cost = row.cost ?? 0;
+  const kwhThermal = row.kwh_thermal ?? 0;
+  return {
+    currency: row.currency,
+    cost: Math.round(cost * 100) / 100,
+    perKwhHeat: kwhThermal > 0 ? Math.round((cost / kwhThermal) * 10_000) / 10_000 : null,
+  };
+}
+
 app.get('/api/overview/sparklines', async (c) => {
   const auth = c.get('auth');
   if (!auth) {
@@ -4888,7 +8373,7 @@ app.get('/api/devices', async (c) => {
   const online = url.searchParams.get('online');
 
   let sql = `SELECT d.device_id, d.site_id, s.name AS site_name, s.region,
-                    d.online, d.last_seen_at,
+                    d.online, d.last_seen_at, d.quarantined_at,
                     GROUP_CONCAT(DISTINCT sc.client_id) AS clients
              FROM devices d
              LEFT JOIN sites s ON d.site_id = s.site_id
@@ -4940,6 +8425,7 @@ app.get('/api/devices', async (c) => {
       status: online ? 'online' : 'offline',
       siteId: (typeof row.site_id === 'string' && row.site_id) || null,
       lastHeartbeat: typeof row.last_seen_at === 'string' ? row.last_seen_at : null,
+      quarantinedAt: typeof row.quarantined_at === 'string' ? row.quarantined_at : null,
       clientIds: clients.filter((value: string) => value && value.length > 0),
     };
   });
@@ -5157,6 +8643,7 @@ app.get('/api/devices/search', async (c) => {
                  AND ( ? IS NULL OR s.region = ? )`;
   const rows = await c.env.DB.prepare(
     `SELECT d.device_id, d.site_id, s.region AS region, d.firmware, d.model, d.online, d.last_seen_at,
+            d.quarantined_at, d.quarantine_reason,
             COALESCE(SUM(CASE WHEN a.state IN ('open','ack') THEN 1 ELSE 0 END),0) AS open_alerts
        FROM devices d
        LEFT JOIN sites s ON s.site_id=d.site_id
@@ -5190,6 +8677,8 @@ app.get('/api/devices/search', async (c) => {
       model: string | null;
       online: number | null;
       last_seen_at: string | null;
+      quarantined_at: string | null;
+      quarantine_reason: string | null;
       region: string | null;
       open_alerts: number | null;
     }>();
@@ -5235,6 +8724,8 @@ app.get('/api/devices/search', async (c) => {
       model: row.model,
       online: isOnline,
       last_seen_at: row.last_seen_at,
+      quarantined_at: row.quarantined_at ?? null,
+      quarantine_reason: row.quarantine_reason ?? null,
       region: row.region,
       open_alerts: openAlerts,
       health: derivedHealth,
@@ -5257,7 +8748,7 @@ app.post('/api/commissioning/:deviceId/report', async (c) => {
   const deviceId = c.req.param('deviceId');
   const payload = await c.req.json<Omit<CommissioningPayload, 'deviceId'>>();
   const { generateCommissioningPDF } = await getPdfModule();
-  const res = await generateCommissioningPDF(c.env, { ...payload, deviceId });
+  const res = await generateCommissioningPDF(c.env, { ...payload, deviceId }, await loadDisplayPreferences(c.env.DB, auth.sub));
   return c.json(res);
 });
 
@@ -5594,7 +9085,7 @@ app.get('/api/reports/preview-html', async (c) => {
         return c.text(message, 400);
       }
     }
-    innerHtml = renderClientMonthlyHtmlV2(c.env, payload);
+    innerHtml = renderClientMonthlyHtmlV2(c.env, payload, await loadDisplayPreferences(c.env.DB, c.get('auth')?.sub));
   } else {
     return c.text('Bad Request', 400);
   }
@@ -5635,7 +9126,7 @@ app.post('/api/reports/client-monthly', async (c) => {
   const { payload, client } = prepared;
 
   const { generateClientMonthlyReport } = await getPdfModule();
-  const pdf = await generateClientMonthlyReport(c.env, payload);
+  const pdf = await generateClientMonthlyReport(c.env, payload, await loadDisplayPreferences(c.env.DB, auth.sub));
 
   await logReportDelivery(c.env.DB, {
     type: 'monthly',
@@ -5848,7 +9339,7 @@ app.post('/api/reports/client-monthly/v2', async (c) => {
   const { payload, client } = prepared;
 
   const { generateClientMonthlyReport } = await getPdfModule();
-  const pdf = await generateClientMonthlyReport(c.env, payload);
+  const pdf = await generateClientMonthlyReport(c.env, payload, await loadDisplayPreferences(c.env.DB, auth.sub));
   const path = keyToPath(pdf.key);
   await logReportDelivery(c.env.DB, {
     type: 'monthly',
@@ -5960,6 +9451,145 @@ app.get('/api/reports/history', async (c) => {
   return c.json(rows);
 });
 
+async function loadSiteDeviceIds(DB: D1Database, siteId: string): Promise<string[]> {
+  const rows = await DB.prepare('SELECT device_id FROM devices WHERE site_id=?').bind(siteId).all<{ device_id: string }>();
+  return (rows.results ?? []).map((row) => row.device_id);
+}
+
+async function loadClientDeviceIds(DB: D1Database, clientId: string): Promise<string[]> {
+  const rows = await DB.prepare(
+    `SELECT DISTINCT d.device_id
+       FROM devices d
+       JOIN site_clients sc ON sc.site_id = d.site_id
+      WHERE sc.client_id = ?`,
+  )
+    .bind(clientId)
+    .all<{ device_id: string }>();
+  return (rows.results ?? []).map((row) => row.device_id);
+}
+
+async function buildEnergyResponse(c: Context<Ctx>, deviceIds: string[]) {
+  const range = parseEnergyRange(c.req.query('from'), c.req.query('to'));
+  if (!range.ok) {
+    return bad(c, [range.error]);
+  }
+  const granularity = c.req.query('granularity') === 'month' ? 'month' : 'day';
+  const settings = await loadEnergySettings(c.env.DB);
+  const periods = await loadEnergyPeriods(c.env.DB, deviceIds, range.from, range.to, granularity);
+  const totals = periods.reduce(
+    (acc, row) => ({ kwhElectric: acc.kwhElectric + row.kwhElectric, kwhThermal: acc.kwhThermal + row.kwhThermal }),
+    { kwhElectric: 0, kwhThermal: 0 },
+  );
+  return c.json({
+    from: range.from,
+    to: range.to,
+    granularity,
+    deviceCount: deviceIds.length,
+    settings,
+    totals: summarizeEnergy(totals, settings),
+    periods: periods.map((row) => ({ period: row.period, coveredSec: row.coveredSec, ...summarizeEnergy(row, settings) })),
+  });
+}
+
+app.get('/api/devices/:id/energy', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  const id = c.req.param('id');
+  if (!(await canAccessDevice(c.env.DB, auth, id))) {
+    return c.text('Forbidden', 403);
+  }
+  return buildEnergyResponse(c, [id]);
+});
+
+app.get('/api/sites/:siteId/energy', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  const siteId = c.req.param('siteId');
+  if (!(await canAccessSite(c.env.DB, auth, siteId))) {
+    return c.text('Forbidden', 403);
+  }
+  return buildEnergyResponse(c, await loadSiteDeviceIds(c.env.DB, siteId));
+});
+
+app.get('/api/clients/:clientId/energy', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  const clientId = c.req.param('clientId');
+  if (!canAccessClient(auth, clientId)) {
+    return c.text('Forbidden', 403);
+  }
+  return buildEnergyResponse(c, await loadClientDeviceIds(c.env.DB, clientId));
+});
+
+app.post('/api/ops/energy/rollup', async (c) => {
+  const blocked = await guardWrite(c);
+  if (blocked) {
+    return blocked;
+  }
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  requireRole(auth, ['admin', 'ops']);
+  const daysParam = Number(c.req.query('days') ?? '2');
+  const days = Number.isFinite(daysParam) && daysParam >= 1 ? Math.min(Math.floor(daysParam), 31) : 2;
+  const written = await rollupEnergyDaily(c.env.DB, days);
+  const costed = await rollupCostDaily(c.env.DB, days);
+  await audit(c.env as any, auth, 'energy.rollup', 'fleet', { days, written, costed });
+  return c.json({ ok: true, days, written, costed });
+});
+
+async function buildCostResponse(c: Context<Ctx>, deviceIds: string[]) {
+  const range = parseEnergyRange(c.req.query('from'), c.req.query('to'));
+  if (!range.ok) {
+    return bad(c, [range.error]);
+  }
+  const summary = await loadCostSummary(c.env.DB, deviceIds, range.from, range.to);
+  return c.json({ from: range.from, to: range.to, deviceCount: deviceIds.length, ...summary });
+}
+
+app.get('/api/devices/:id/cost', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  const id = c.req.param('id');
+  if (!(await canAccessDevice(c.env.DB, auth, id))) {
+    return c.text('Forbidden', 403);
+  }
+  return buildCostResponse(c, [id]);
+});
+
+app.get('/api/sites/:siteId/cost', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  const siteId = c.req.param('siteId');
+  if (!(await canAccessSite(c.env.DB, auth, siteId))) {
+    return c.text('Forbidden', 403);
+  }
+  return buildCostResponse(c, await loadSiteDeviceIds(c.env.DB, siteId));
+});
+
+app.get('/api/clients/:clientId/cost', async (c) => {
+  const auth = c.get('auth');
+  if (!auth) {
+    return c.text('Unauthorized', 401);
+  }
+  const clientId = c.req.param('clientId');
+  if (!canAccessClient(auth, clientId)) {
+    return c.text('Forbidden', 403);
+  }
+  return buildCostResponse(c, await loadClientDeviceIds(c.env.DB, clientId));
+});
+
 app.get('/api/clients/:clientId/slo-summary', async (c) => {
   const auth = c.get('auth');
   if (!auth) {
@@ -7154,45 +10784,22 @@ async function canAccessDevice(DB: D1Database, auth: AccessContext, deviceId: st
   return !!row;
 }
 
-const textEncoder = new TextEncoder();
-
-function hexToUint8Array(hex: string): Uint8Array | null {
-  if (hex.length % 2 !== 0) {
-    return null;
-  }
-  const out = new Uint8Array(hex.length / 2);
-  for (let i = 0; i < hex.length; i += 2) {
-    const value = Number.parseInt(hex.slice(i, i + 2), 16);
-    if (!Number.isFinite(value)) {
-      return null;
-    }
-    out[i / 2] = value;
+async function canAccessSite(DB: D1Database, auth: AccessContext, siteId: string): Promise<boolean> {
+  const restricted = auth.roles.some((role) => RESTRICTED_DEVICE_ROLES.has(role));
+  if (!restricted) {
+    return true;
   }
-  return out;
-}
-
-function timingSafeEqualBytes(a: Uint8Array, b: Uint8Array): boolean {
-  if (a.length !== b.length) {
+  const clientIds = auth.clientIds ?? [];
+  if (clientIds.length === 0) {
     return false;
   }
-  let diff = 0;
-  for (let i = 0; i < a.length; i += 1) {
-    diff |= a[i]! ^ b[i]!;
-  }
-  return diff === 0;
-}
-
-async function verifyDeviceKey(DB: D1Database, deviceId: string, key: string | null | undefined) {
-  if (!key) return false;
-  const row = await DB.prepare('SELECT key_hash FROM devices WHERE device_id=?')
-    .bind(deviceId)
-    .first<{ key_hash?: string | null }>();
-  const stored = row?.key_hash;
-  if (!stored) return false;
-  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', textEncoder.encode(key)));
-  const storedBytes = hexToUint8Array(stored.toLowerCase());
-  if (!storedBytes) return false;
-  return timingSafeEqualBytes(digest, storedBytes);
+  const placeholders = clientIds.map(() => '?').join(',');
+  const row = await DB.prepare(
+    `SELECT 1 FROM site_clients WHERE site_id=? AND client_id IN (${placeholders}) LIMIT 1`,
+  )
+    .bind(siteId, ...clientIds)
+    .first();
+  return !!row;
 }
 
 async function isDuplicate(DB: D1Database, key: string) {
@@ -7517,6 +11124,44 @@ async function computeClientMonthlyMetricsV1(
   return { uptimePct, ingestSuccessPct, avgCop, alerts };
 }
 
+async function computeClientMonthlyCost(
+  DB: D1Database,
+  deviceIds: string[],
+  startIso: string,
+  lastIso: string,
+): Promise<ClientMonthlyReportPayload['cost']> {
+  const summary = await loadCostSummary(DB, deviceIds, startIso.slice(0, 10), lastIso.slice(0, 10));
+  if (summary.days.length === 0 || !summary.currency) {
+    return null;
+  }
+  return {
+    currency: summary.currency,
+    total: summary.cost,
+    perDay: summary.costPerDay,
+    perKwhHeat: summary.costPerKwhHeat,
+  };
+}
+
+async function computeClientMonthlyEnergy(
+  DB: D1Database,
+  deviceIds: string[],
+  startIso: string,
+  lastIso: string,
+): Promise<EnergySummary | null> {
+  const periods = await loadEnergyPeriods(DB, deviceIds, startIso.slice(0, 10), lastIso.slice(0, 10), 'month');
+  if (periods.length === 0) {
+    return null;
+  }
+  const settings = await loadEnergySettings(DB);
+  return summarizeEnergy(
+    periods.reduce(
+      (acc, row) => ({ kwhElectric: acc.kwhElectric + row.kwhElectric, kwhThermal: acc.kwhThermal + row.kwhThermal }),
+      { kwhElectric: 0, kwhThermal: 0 },
+    ),
+    settings,
+  );
+}
+
 async function computeClientMonthlyMetricsV2(
   DB: D1Database,
   clientId: string,
@@ -7573,22 +11218,17 @@ async function buildIncidentReportV2Payload(
     .all<{ device_id: string; open_count: number | null }>();
 
   const incidentsRows = await env.DB.prepare(
-    `SELECT incident_id, site_id, started_at, last_alert_at, resolved_at
+    `SELECT ${INCIDENT_COLUMNS}
        FROM incidents
       WHERE site_id=?
+        AND merged_into IS NULL
         AND started_at <= ?
         AND (resolved_at IS NULL OR resolved_at >= ?)
       ORDER BY started_at DESC
       LIMIT 50`,
   )
     .bind(siteId, endIso, startIso)
-    .all<{
-      incident_id: string;
-      site_id: string;
-      started_at: string;
-      last_alert_at: string | null;
-      resolved_at: string | null;
-    }>();
+    .all<IncidentRow>();
 
   const incidents = incidentsRows.results ?? [];
   let incidentMeta = new Map<
@@ -7599,9 +11239,25 @@ async function buildIncidentReportV2Payload(
     }
   >();
 
+  const timelines = new Map<string, NonNullable<IncidentReportV2Payload['incidents'][number]['timeline']>>();
+
   if (incidents.length > 0) {
     const ids = incidents.map((row) => row.incident_id);
     const placeholders = ids.map(() => '?').join(',');
+    const eventRows = await env.DB.prepare(
+      `SELECT incident_id, ts, actor, kind, body
+         FROM incident_events
+        WHERE incident_id IN (${placeholders})
+        ORDER BY ts`,
+    )
+      .bind(...ids)
+      .all<{ incident_id: string; ts: string; actor: string | null; kind: string; body: string | null }>();
+    for (const row of eventRows.results ?? []) {
+      const list = timelines.get(row.incident_id) ?? [];
+      list.push({ ts: row.ts, kind: row.kind, actor: row.actor, body: row.body });
+      timelines.set(row.incident_id, list);
+    }
+
     const metaRows = await env.DB.prepare(
       `SELECT ia.incident_id, a.type, a.severity, a.state, COUNT(*) as count
          FROM incident_alerts ia
@@ -7674,6 +11330,13 @@ async function buildIncidentReportV2Payload(
         resolvedAt: row.resolved_at ?? null,
         stateCounts: bucket?.states ?? {},
         alertBreakdown,
+        title: row.title ?? null,
+        status: row.status ?? null,
+        severity: row.severity ?? null,
+        owner: row.owner ?? null,
+        rootCause: row.root_cause ?? null,
+        postmortem: row.postmortem ?? null,
+        timeline: timelines.get(row.incident_id) ?? [],
       };
     }),
     maintenance: (maintenanceRows.results ?? []).map((row) => ({
@@ -7761,6 +11424,18 @@ async function buildClientMonthlyReportPayload(
     .first<{ uptime_target: number | null; ingest_target: number | null; cop_target: number | null; report_recipients: string | null }>();
 
   const periodEndDisplay = new Date(range.end.getTime() - 1);
+  const energy = await computeClientMonthlyEnergy(env.DB, deviceIds, startIso, periodEndDisplay.toISOString()).catch(
+    (error) => {
+      console.warn('monthly energy summary failed', error);
+      return null;
+    },
+  );
+  const cost = await computeClientMonthlyCost(env.DB, deviceIds, startIso, periodEndDisplay.toISOString()).catch(
+    (error) => {
+      console.warn('monthly cost summary failed', error);
+      return null;
+    },
+  );
 
   const payload: ClientMonthlyReportPayload = {
     clientId,
@@ -7778,6 +11453,8 @@ async function buildClientMonthlyReportPayload(
       copTarget: toNumber(slo?.cop_target),
     },
     recipients: slo?.report_recipients ?? null,
+    energy,
+    cost,
   };
 
   return { payload, client: { id: clientId, name: client.name ?? clientId } };
@@ -8076,6 +11753,17 @@ async function processHeartbeatInline(
 export async function queue(batch: MessageBatch<IngestMessage>, env: Env, ctx: ExecutionContext) {
   await baseQueueHandler(batch, env, ctx);
 
+  for (const message of batch.messages) {
+    if (message.body?.type !== 'export') continue;
+    try {
+      await processExportJob(env.DB, message.body.jobId, exportDeps(env));
+      message.ack();
+    } catch (error) {
+      console.error('export job pass failed', message.body.jobId, error);
+      message.retry();
+    }
+  }
+
   for (const message of batch.messages) {
     if (message.body?.type !== 'telemetry') continue;
     const telemetry = message.body.body;
@@ -8112,6 +11800,44 @@ async function runFastBurnJob(env: Env) {
   await expireStaleCommands(env.DB).catch((error) => {
     console.error('command expiry sweep error', error);
   });
+  if (!(await isReadOnly(env.DB).catch(() => false))) {
+    const commandDeps: ScheduleDeps = {
+      issue: async (deviceId, actor, setting, notAfter) => {
+        const result = await issueDeviceCommand(env, deviceId, actor, setting, { notAfter });
+        return result.ok
+          ? { ok: true, commandId: result.command.commandId }
+          : { ok: false, error: `${result.response.status} ${await result.response.text().catch(() => '')}`.trim() };
+      },
+    };
+    // Demand response runs first so devices it releases are picked up by their schedules in the same pass.
+    await runDemandResponse(env.DB, commandDeps, { commandTtlMs: COMMAND_TTL_MS }).catch((error) => {
+      console.error('demand response sweep error', error);
+    });
+    const heldDeviceIds = await loadDemandResponseHolds(env.DB).catch(() => new Set<string>());
+    await runSchedules(env.DB, commandDeps, { commandTtlMs: COMMAND_TTL_MS, heldDeviceIds }).catch((error) => {
+      console.error('schedule sweep error', error);
+    });
+  }
+  await runEscalations(env.DB, {
+    loadUsers: () => _loadAuthUsers(env.DB),
+    notify: (recipients, subject, text) => sendEmail(env, recipients, subject, text),
+  }).catch((error) => {
+    console.error('escalation sweep error', error);
+  });
+  await runNotificationJobs(env).catch((error) => {
+    console.error('notification dispatch error', error);
+  });
+  await runUserNotifications(env.DB, {
+    send: (to, subject, text) => sendEmail(env, [to], subject, text),
+  }).catch((error) => {
+    console.error('user notification dispatch error', error);
+  });
+  await refreshTelemetryRollups(env.DB).catch((error) => {
+    console.error('telemetry rollup error', error);
+  });
+  await sweepExportJobs(env.DB, exportDeps(env)).catch((error) => {
+    console.error('export job sweep error', error);
+  });
 }
 
 async function runNightlyJobs(env: Env) {
@@ -8130,6 +11856,19 @@ async function runNightlyJobs(env: Env) {
   await sweepIncidents(env.DB).catch((error) => {
     console.error('incident sweep error', error);
   });
+  // Three days so yesterday is final and late telemetry for the day before is folded in.
+  await rollupEnergyDaily(env.DB, 3).catch((error) => {
+    console.error('energy rollup error', error);
+  });
+  await rollupCostDaily(env.DB, 3).catch((error) => {
+    console.error('cost rollup error', error);
+  });
+  const archiveBucket = telemetryArchiveBucket(env);
+  if (archiveBucket) {
+    await archiveTelemetry(env.DB, archiveBucket).catch((error) => {
+      console.error('telemetry archive error', error);
+    });
+  }
 }
 
 async function runMonthlyJobs(env: Env, evt: ScheduledEvent) {
@@ -8154,6 +11893,9 @@ async function runHousekeepingJobs(env: Env) {
   try {
     await pruneR2Prefix(env.REPORTS, 'provisioning/', 180);
   } catch {}
+  try {
+    await pruneR2Prefix(env.REPORTS, 'exports/', 30);
+  } catch {}
   try {
     await env.DB
       .prepare("DELETE FROM device_commands WHERE status != 'pending' AND ack_at < datetime('now','-365 days')")
@@ -0,0 +1,488 @@
+import type { D1Database } from './types/env';
+import { COMMAND_MODES, isCommandMode } from './lib/commands';
+import { forEachEnergyInterval, loadEnergySamples } from './lib/energy';
+import { releaseScheduleState, settingKey, type ScheduleDeps, type ScheduleSetting } from './schedules';
+
+/** What each device is asked to do before, during and after the event window. */
+export type DrStrategy = {
+  preheat?: ScheduleSetting;
+  during: ScheduleSetting;
+  /** Sent when the event ends; without it the device is handed back to its schedule. */
+  restore?: ScheduleSetting;
+};
+
+export type DrTarget = { siteIds: string[]; regions: string[]; clientIds: string[] };
+
+export type DrEventStatus = 'scheduled' | 'active' | 'completed' | 'cancelled';
+
+export type DrDevicePhase = 'pending' | 'preheat' | 'event' | 'restored';
+
+export type DrEventRow = {
+  id: string;
+  name: string;
+  status: DrEventStatus;
+  target_json: string;
+  strategy_json: string;
+  starts_at: string;
+  ends_at: string;
+  preheat_min: number;
+  report_json: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const DR_EVENT_COLUMNS =
+  'id, name, status, target_json, strategy_json, starts_at, ends_at, preheat_min, report_json, created_by, created_at, updated_at';
+
+export type DrCompliance = 'compliant' | 'not_reduced' | 'no_ack' | 'no_data' | 'not_dispatched';
+
+export type DrDeviceReport = {
+  deviceId: string;
+  ackStatus: string | null;
+  compliance: DrCompliance;
+  baselineKw: number | null;
+  eventKw: number | null;
+  shiftedKw: number | null;
+  shiftedKwh: number | null;
+  preheatKwh: number | null;
+  baselinePreheatKwh: number | null;
+};
+
+export type DrReport = {
+  eventId: string;
+  generatedAt: string;
+  window: { preheatStart: string; start: string; end: string; hours: number };
+  totals: {
+    devices: number;
+    compliant: number;
+    shiftedKw: number;
+    shiftedKwh: number;
+    preheatExtraKwh: number;
+  };
+  devices: DrDeviceReport[];
+};
+
+export const MAX_DR_EVENT_DEVICES = 2000;
+const MAX_COMMANDS_PER_RUN = 200;
+const MAX_EVENT_HOURS = 24;
+const MAX_PREHEAT_MIN = 6 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+const parseJson = <T>(json: string | null, fallback: T): T => {
+  if (!json) return fallback;
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? (parsed as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export function eventWindow(row: Pick<DrEventRow, 'starts_at' | 'ends_at' | 'preheat_min'>) {
+  const start = Date.parse(row.starts_at);
+  const end = Date.parse(row.ends_at);
+  return { preheatStart: start - row.preheat_min * 60_000, start, end };
+}
+
+/** The phase a device should be in at `ms`; `null` once the event window has closed. */
+export function desiredPhase(
+  window: ReturnType<typeof eventWindow>,
+  strategy: DrStrategy,
+  ms: number,
+): Exclude<DrDevicePhase, 'restored'> | null {
+  if (ms >= window.end) return null;
+  if (ms >= window.start) return 'event';
+  if (ms >= window.preheatStart && strategy.preheat) return 'preheat';
+  return 'pending';
+}
+
+/** Device ids matched by any of the target's sites, regions or clients. */
+export async function resolveDrTargetDevices(DB: D1Database, target: DrTarget): Promise<string[]> {
+  const clauses: string[] = [];
+  const binds: string[] = [];
+  const list = (values: string[]) => values.map(() => '?').join(',');
+  if (target.siteIds.length > 0) {
+    clauses.push(`d.site_id IN (${list(target.siteIds)})`);
+    binds.push(...target.siteIds);
+  }
+  if (target.regions.length > 0) {
+    clauses.push(`d.site_id IN (SELECT site_id FROM sites WHERE region IN (${list(target.regions)}))`);
+    binds.push(...target.regions);
+  }
+  if (target.clientIds.length > 0) {
+    clauses.push(`d.site_id IN (SELECT site_id FROM site_clients WHERE client_id IN (${list(target.clientIds)}))`);
+    binds.push(...target.clientIds);
+  }
+  if (clauses.length === 0) return [];
+  const rows = await DB.prepare(
+    `SELECT d.device_id FROM devices d WHERE ${clauses.join(' OR ')} ORDER BY d.device_id LIMIT ${MAX_DR_EVENT_DEVICES + 1}`,
+  )
+    .bind(...binds)
+    .all<{ device_id: string }>();
+  return (rows.results ?? []).map((row) => row.device_id);
+}
+
+/** Devices an active event currently controls; the scheduler leaves them alone. */
+export async function loadDemandResponseHolds(DB: D1Database): Promise<Set<string>> {
+  const rows = await DB.prepare(
+    `SELECT DISTINCT ded.device_id
+       FROM dr_event_devices ded
+       JOIN dr_events e ON e.id = ded.event_id
+      WHERE e.status = 'active' AND ded.phase IN ('preheat', 'event')`,
+  ).all<{ device_id: string }>();
+  return new Set((rows.results ?? []).map((row) => row.device_id));
+}
+
+type DrDeviceProgressRow = {
+  device_id: string;
+  strategy_json: string | null;
+  phase: DrDevicePhase;
+  preheat_command_id: string | null;
+  event_command_id: string | null;
+  command_status: string | null;
+};
+
+/**
+ * Moves active events forward: activates events whose pre-heat window has opened, sends the
+ * pre-heat and event commands as each phase starts (re-sending ones that expired unacknowledged),
+ * and once the window closes restores every device and stores the post-event report.
+ * At most a fixed number of commands go out per run so a large event spreads over a few runs.
+ */
+export async function runDemandResponse(
+  DB: D1Database,
+  deps: ScheduleDeps,
+  options: { commandTtlMs: number },
+  now = new Date(),
+): Promise<{ activated: number; issued: number; failed: number; finished: number }> {
+  const summary = { activated: 0, issued: 0, failed: 0, finished: 0 };
+  const nowMs = now.getTime();
+  const events = await DB.prepare(
+    `SELECT ${DR_EVENT_COLUMNS}
+       FROM dr_events
+      WHERE status IN ('scheduled', 'active') OR (status = 'cancelled' AND report_json IS NULL)
+      ORDER BY starts_at`,
+  ).all<DrEventRow>();
+  let budget = MAX_COMMANDS_PER_RUN;
+
+  for (const event of events.results ?? []) {
+    const window = eventWindow(event);
+    let status = event.status;
+    if (status === 'scheduled') {
+      if (nowMs < window.preheatStart) continue;
+      await DB.prepare("UPDATE dr_events SET status='active', updated_at=? WHERE id=? AND status='scheduled'")
+        .bind(now.toISOString(), event.id)
+        .run();
+      status = 'active';
+      summary.activated += 1;
+    }
+
+    const eventStrategy = parseJson<DrStrategy>(event.strategy_json, { during: {} });
+    const rows = await DB.prepare(
+      `SELECT ded.device_id, ded.strategy_json, ded.phase, ded.preheat_command_id, ded.event_command_id,
+              dc.status AS command_status
+         FROM dr_event_devices ded
+         LEFT JOIN device_commands dc
+           ON dc.command_id = CASE ded.phase WHEN 'preheat' THEN ded.preheat_command_id ELSE ded.event_command_id END
+        WHERE ded.event_id = ? AND ded.phase != 'restored'
+        ORDER BY ded.device_id`,
+    )
+      .bind(event.id)
+      .all<DrDeviceProgressRow>();
+    const pending = rows.results ?? [];
+    const actor = `demand-response:${event.id}`;
+
+    for (const device of pending) {
+      const strategy = device.strategy_json ? parseJson<DrStrategy>(device.strategy_json, eventStrategy) : eventStrategy;
+      const phase = status === 'cancelled' ? null : desiredPhase(window, strategy, nowMs);
+
+      if (phase === null) {
+        let restoreCommandId: string | null = null;
+        if (device.phase !== 'pending') {
+          if (strategy.restore) {
+            if (budget <= 0) continue;
+            budget -= 1;
+            const result = await deps.issue(device.device_id, actor, strategy.restore, new Date(nowMs + options.commandTtlMs));
+            if (!result.ok) {
+              summary.failed += 1;
+              await recordDeviceError(DB, event.id, device.device_id, result.error, now);
+              continue;
+            }
+            restoreCommandId = result.commandId;
+            summary.issued += 1;
+          } else {
+            await releaseScheduleState(DB, device.device_id);
+          }
+        }
+        await DB.prepare(
+          "UPDATE dr_event_devices SET phase='restored', restore_command_id=?, updated_at=? WHERE event_id=? AND device_id=?",
+        )
+          .bind(restoreCommandId, now.toISOString(), event.id, device.device_id)
+          .run();
+        continue;
+      }
+
+      if (phase === 'pending') continue;
+      if (device.phase === phase && device.command_status !== 'expired') continue;
+      const setting = phase === 'preheat' ? strategy.preheat : strategy.during;
+      if (!setting || budget <= 0) continue;
+      budget -= 1;
+      const notAfter = new Date(phase === 'preheat' ? window.start : window.end);
+      const result = await deps.issue(device.device_id, actor, setting, notAfter);
+      if (!result.ok) {
+        summary.failed += 1;
+        await recordDeviceError(DB, event.id, device.device_id, result.error, now);
+        continue;
+      }
+      summary.issued += 1;
+      await DB.prepare(
+        `UPDATE dr_event_devices
+            SET phase=?, ${phase === 'preheat' ? 'preheat_command_id' : 'event_command_id'}=?, last_error=NULL, updated_at=?
+          WHERE event_id=? AND device_id=?`,
+      )
+        .bind(phase, result.commandId, now.toISOString(), event.id, device.device_id)
+        .run();
+    }
+
+    if (status === 'cancelled' || nowMs >= window.end) {
+      const remaining = await DB.prepare(
+        "SELECT COUNT(*) AS n FROM dr_event_devices WHERE event_id=? AND phase != 'restored'",
+      )
+        .bind(event.id)
+        .first<{ n: number }>();
+      if ((remaining?.n ?? 0) > 0) continue;
+      const report = await computeDemandResponseReport(DB, event, now);
+      await DB.prepare('UPDATE dr_events SET status=?, report_json=?, updated_at=? WHERE id=?')
+        .bind(status === 'cancelled' ? 'cancelled' : 'completed', JSON.stringify(report), now.toISOString(), event.id)
+        .run();
+      summary.finished += 1;
+    }
+  }
+  return summary;
+}
+
+async function recordDeviceError(DB: D1Database, eventId: string, deviceId: string, error: string, now: Date) {
+  await DB.prepare('UPDATE dr_event_devices SET last_error=?, updated_at=? WHERE event_id=? AND device_id=?')
+    .bind(error.slice(0, 500), now.toISOString(), eventId, deviceId)
+    .run();
+}
+
+function windowKwh(samples: Awaited<ReturnType<typeof loadEnergySamples>>, fromMs: number, toMs: number) {
+  let kwh = 0;
+  let covered = 0;
+  forEachEnergyInterval(samples, (startMs, endMs, kwhElectric) => {
+    if (startMs < fromMs || startMs >= toMs) return;
+    kwh += kwhElectric;
+    covered += endMs - startMs;
+  });
+  return covered > 0 ? kwh : null;
+}
+
+/** Classifies one device from its event command's ack and its metered draw against the baseline. */
+export function classifyCompliance(input: {
+  commandId: string | null;
+  ackStatus: string | null;
+  eventKwh: number | null;
+  baselineKwh: number | null;
+}): DrCompliance {
+  if (!input.commandId) return 'not_dispatched';
+  if (input.ackStatus !== 'applied') return 'no_ack';
+  if (input.eventKwh == null || input.baselineKwh == null) return 'no_data';
+  return input.eventKwh < input.baselineKwh ? 'compliant' : 'not_reduced';
+}
+
+/**
+ * Compares each device's draw during the event (and pre-heat) with the same clock window one day
+ * earlier. Shifted kW is the average reduction over the event window; pre-heat extra kWh is the
+ * energy pulled forward ahead of it.
+ */
+export async function computeDemandResponseReport(DB: D1Database, event: DrEventRow, now = new Date()): Promise<DrReport> {
+  const window = eventWindow(event);
+  const hours = (window.end - window.start) / 3_600_000;
+  const rows = await DB.prepare(
+    `SELECT ded.device_id, ded.event_command_id, dc.status AS ack_status
+       FROM dr_event_devices ded
+       LEFT JOIN device_commands dc ON dc.command_id = ded.event_command_id
+      WHERE ded.event_id = ?
+      ORDER BY ded.device_id`,
+  )
+    .bind(event.id)
+    .all<{ device_id: string; event_command_id: string | null; ack_status: string | null }>();
+
+  const devices: DrDeviceReport[] = [];
+  for (const row of rows.results ?? []) {
+    const [actual, baseline] = await Promise.all([
+      loadEnergySamples(DB, row.device_id, new Date(window.preheatStart).toISOString(), new Date(window.end).toISOString()),
+      loadEnergySamples(
+        DB,
+        row.device_id,
+        new Date(window.preheatStart - DAY_MS).toISOString(),
+        new Date(window.end - DAY_MS).toISOString(),
+      ),
+    ]);
+    const eventKwh = windowKwh(actual, window.start, window.end);
+    const baselineKwh = windowKwh(baseline, window.start - DAY_MS, window.end - DAY_MS);
+    const preheatKwh = event.preheat_min > 0 ? windowKwh(actual, window.preheatStart, window.start) : null;
+    const baselinePreheatKwh =
+      event.preheat_min > 0 ? windowKwh(baseline, window.preheatStart - DAY_MS, window.start - DAY_MS) : null;
+    const shiftedKwh = eventKwh != null && baselineKwh != null ? baselineKwh - eventKwh : null;
+    devices.push({
+      deviceId: row.device_id,
+      ackStatus: row.ack_status,
+      compliance: classifyCompliance({
+        commandId: row.event_command_id,
+        ackStatus: row.ack_status,
+        eventKwh,
+        baselineKwh,
+      }),
+      baselineKw: baselineKwh != null && hours > 0 ? round3(baselineKwh / hours) : null,
+      eventKw: eventKwh != null && hours > 0 ? round3(eventKwh / hours) : null,
+      shiftedKw: shiftedKwh != null && hours > 0 ? round3(shiftedKwh / hours) : null,
+      shiftedKwh: shiftedKwh != null ? round3(shiftedKwh) : null,
+      preheatKwh: preheatKwh != null ? round3(preheatKwh) : null,
+      baselinePreheatKwh: baselinePreheatKwh != null ? round3(baselinePreheatKwh) : null,
+    });
+  }
+
+  const shiftedKwh = devices.reduce((acc, device) => acc + (device.shiftedKwh ?? 0), 0);
+  const preheatExtraKwh = devices.reduce(
+    (acc, device) =>
+      acc + (device.preheatKwh != null && device.baselinePreheatKwh != null ? device.preheatKwh - device.baselinePreheatKwh : 0),
+    0,
+  );
+  return {
+    eventId: event.id,
+    generatedAt: now.toISOString(),
+    window: {
+      preheatStart: new Date(window.preheatStart).toISOString(),
+      start: new Date(window.start).toISOString(),
+      end: new Date(window.end).toISOString(),
+      hours: round3(hours),
+    },
+    totals: {
+      devices: devices.length,
+      compliant: devices.filter((device) => device.compliance === 'compliant').length,
+      shiftedKw: hours > 0 ? round3(shiftedKwh / hours) : 0,
+      shiftedKwh: round3(shiftedKwh),
+      preheatExtraKwh: round3(preheatExtraKwh),
+    },
+    devices,
+  };
+}
+
+export type DrEventInput = {
+  name: string;
+  target: DrTarget;
+  strategy: DrStrategy;
+  deviceStrategies: Record<string, DrStrategy>;
+  startsAt: string;
+  endsAt: string;
+  preheatMin: number;
+};
+
+function parseSetting(raw: unknown, path: string, errors: string[]): ScheduleSetting | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${path} must be an object`);
+    return undefined;
+  }
+  const input = raw as Record<string, unknown>;
+  const setting: ScheduleSetting = {};
+  if (input.dhwSetC !== undefined) {
+    if (typeof input.dhwSetC === 'number' && Number.isFinite(input.dhwSetC)) setting.dhwSetC = input.dhwSetC;
+    else errors.push(`${path}.dhwSetC must be a number`);
+  }
+  if (input.mode !== undefined) {
+    if (isCommandMode(input.mode)) setting.mode = input.mode;
+    else errors.push(`${path}.mode must be one of ${COMMAND_MODES.join(', ')}`);
+  }
+  if (settingKey(setting) === settingKey({})) {
+    errors.push(`${path} must set dhwSetC or mode`);
+  }
+  return setting;
+}
+
+function parseStrategy(raw: unknown, path: string, preheatMin: number, errors: string[]): DrStrategy {
+  const input = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const during = parseSetting(input.during, `${path}.during`, errors);
+  if (!during && input.during === undefined) errors.push(`${path}.during is required`);
+  const preheat = parseSetting(input.preheat, `${path}.preheat`, errors);
+  if (preheat && preheatMin === 0) errors.push(`${path}.preheat needs preheatMin greater than zero`);
+  const restore = parseSetting(input.restore, `${path}.restore`, errors);
+  return {
+    during: during ?? {},
+    ...(preheat ? { preheat } : {}),
+    ...(restore ? { restore } : {}),
+  };
+}
+
+const stringList = (value: unknown) =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.filter((item): item is string => typeof item === 'string' && !!item.trim()).map((item) => item.trim())))
+    : [];
+
+export function parseDrEventInput(
+  body: unknown,
+  now = new Date(),
+): { ok: true; value: DrEventInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = typeof input.name === 'string' ? input.name.trim().slice(0, 120) : '';
+  if (!name) errors.push('name is required');
+
+  const rawTarget = input.target && typeof input.target === 'object' ? (input.target as Record<string, unknown>) : {};
+  const target: DrTarget = {
+    siteIds: stringList(rawTarget.siteIds),
+    regions: stringList(rawTarget.regions),
+    clientIds: stringList(rawTarget.clientIds),
+  };
+  if (target.siteIds.length + target.regions.length + target.clientIds.length === 0) {
+    errors.push('target needs at least one siteIds, regions or clientIds entry');
+  }
+
+  const start = typeof input.startsAt === 'string' ? Date.parse(input.startsAt) : NaN;
+  const end = typeof input.endsAt === 'string' ? Date.parse(input.endsAt) : NaN;
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    errors.push('startsAt and endsAt must be ISO timestamps');
+  } else {
+    if (end <= start) errors.push('endsAt must be after startsAt');
+    if (end - start > MAX_EVENT_HOURS * 3_600_000) errors.push(`events are limited to ${MAX_EVENT_HOURS} hours`);
+    if (end <= now.getTime()) errors.push('endsAt must be in the future');
+  }
+
+  const preheatMin = input.preheatMin === undefined ? 0 : Number(input.preheatMin);
+  if (!Number.isInteger(preheatMin) || preheatMin < 0 || preheatMin > MAX_PREHEAT_MIN) {
+    errors.push(`preheatMin must be a whole number of minutes between 0 and ${MAX_PREHEAT_MIN}`);
+  }
+  const safePreheat = Number.isInteger(preheatMin) ? preheatMin : 0;
+
+  const strategy = parseStrategy(input.strategy, 'strategy', safePreheat, errors);
+  const deviceStrategies: Record<string, DrStrategy> = {};
+  if (input.deviceStrategies && typeof input.deviceStrategies === 'object' && !Array.isArray(input.deviceStrategies)) {
+    for (const [deviceId, raw] of Object.entries(input.deviceStrategies as Record<string, unknown>)) {
+      deviceStrategies[deviceId] = parseStrategy(raw, `deviceStrategies.${deviceId}`, safePreheat, errors);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: {
+      name,
+      target,
+      strategy,
+      deviceStrategies,
+      startsAt: new Date(start).toISOString(),
+      endsAt: new Date(end).toISOString(),
+      preheatMin: safePreheat,
+    },
+  };
+}
@@ -1,5 +1,7 @@
 import type { Env, DurableObjectState } from './types/env';
 import type { TelemetryPayload } from './types';
+import { clampCommandBody, type CommandBody, type WriteLimits } from './lib/commands';
+import { emptyRateLimitState, evaluateRateLimit, type RateLimitRequest, type RateLimitState } from './lib/rate-limit';
 
 type BaselineSample = { t: number; dt?: number; cop?: number; cur?: number };
 type BaselineDeviationState = {
@@ -41,11 +43,6 @@ interface CommandSnapshot {
   ack?: CommandAckSnapshot | null;
 }
 
-interface CommandBody {
-  dhwSetC?: number;
-  mode?: string;
-}
-
 interface DeviceStateSnapshot {
   telemetry?: TelemetrySnapshot;
   heartbeat?: HeartbeatSnapshot;
@@ -101,7 +98,7 @@ type CommandEnvelope = {
   deviceId: string;
   actor: string;
   command: CommandBody;
-  limits: { minC: number; maxC: number };
+  limits: WriteLimits;
 };
 
 export class DeviceStateSQLiteDO {
@@ -203,7 +200,7 @@ export class DeviceStateSQLiteDO {
         typeof envelope.expiresAt === 'string' && envelope.expiresAt.length > 0
           ? envelope.expiresAt
           : new Date(now + 30 * 60 * 1000).toISOString();
-      const { applied, clamped } = clampCommand(envelope.command, envelope.limits);
+      const { applied, clamped } = clampCommandBody(envelope.command, envelope.limits);
 
       const record: CommandSnapshot = {
         id: envelope.commandId,
@@ -282,6 +279,33 @@ export class DeviceStateSQLiteDO {
       return new Response(null, { status: 204 });
     }
 
+    // Controller rate limits. Profile-wide buckets live in the instance named `profile:<id>`.
+    if (request.method === 'POST' && url.pathname === '/rate-limit') {
+      const body = (await request.json().catch(() => null)) as RateLimitRequest | null;
+      if (!body || typeof body.bucket !== 'string' || !body.limit) {
+        return new Response(JSON.stringify({ error: 'invalid_rate_limit' }), {
+          status: 400,
+          headers: { 'content-type': 'application/json' },
+        });
+      }
+      const stored = (await this.state.storage.get<RateLimitState>('rateLimit')) ?? emptyRateLimitState();
+      const { state, decision } = evaluateRateLimit(stored, body, Date.now());
+      if (state !== stored) {
+        await this.state.storage.put('rateLimit', state);
+      }
+      const status = decision.allowed ? 200 : decision.reason === 'quarantined' ? 403 : 429;
+      return new Response(JSON.stringify(decision), {
+        status,
+        headers: { 'content-type': 'application/json' },
+      });
+    }
+
+    if (request.method === 'DELETE' && url.pathname === '/quarantine') {
+      const stored = (await this.state.storage.get<RateLimitState>('rateLimit')) ?? emptyRateLimitState();
+      await this.state.storage.put('rateLimit', { ...stored, strikes: [], quarantinedAt: null, quarantineReason: null });
+      return new Response(null, { status: 204 });
+    }
+
     if (request.method === 'DELETE' && url.pathname === '/command') {
       this.snapshot.commands = [];
       await this.persist();
@@ -379,23 +403,3 @@ export class DeviceSQLiteDO {
     await this.state.storage.put('bucket', Math.min(bucket + 1, 5));
   }
 }
-
-function clampCommand(command: CommandBody, limits: { minC: number; maxC: number }) {
-  const applied: CommandBody = { ...command };
-  let clamped: Partial<CommandBody> | null = null;
-
-  if (typeof command.dhwSetC === 'number' && Number.isFinite(command.dhwSetC)) {
-    const { minC, maxC } = limits;
-    const bounded = Math.min(Math.max(command.dhwSetC, minC), maxC);
-    if (bounded !== command.dhwSetC) {
-      clamped = { ...(clamped ?? {}), dhwSetC: bounded };
-    }
-    applied.dhwSetC = bounded;
-  }
-
-  if (typeof command.mode === 'string') {
-    applied.mode = command.mode;
-  }
-
-  return { applied, clamped };
-}
@@ -0,0 +1,374 @@
+import { parseSqlTimestamp } from './notifications';
+import type { D1Database } from './types/env';
+
+export type EscalationTarget = { kind: 'user' | 'role'; value: string };
+
+export type EscalationTier = {
+  targets: EscalationTarget[];
+  timeoutMin: number;
+};
+
+export type EscalationPolicyRow = {
+  id: string;
+  name: string;
+  severities: string | null;
+  rules: string | null;
+  site_ids: string | null;
+  client_ids: string | null;
+  tiers_json: string;
+  enabled: number;
+  created_at: string;
+};
+
+export type EscalationEventKind = 'started' | 'notified' | 'acked' | 'resolved' | 'exhausted';
+
+export type EscalationDeps = {
+  loadUsers: () => Promise<Array<{ email: string; roles: string[] }>>;
+  notify: (recipients: string[], subject: string, text: string) => Promise<boolean>;
+};
+
+const MAX_TIERS = 10;
+const MAX_TIMEOUT_MIN = 24 * 60;
+
+const parseList = (json: string | null): string[] | null => {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed.map(String) : null;
+  } catch {
+    return null;
+  }
+};
+
+export function parseTiers(json: string | null): EscalationTier[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? (parsed as EscalationTier[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+type AlertForPolicy = { type: string; severity: string | null; site_id: string | null; client_ids: string | null };
+
+/** Policies default to critical alerts only when no severity filter is set. */
+export function policyMatches(policy: EscalationPolicyRow, alert: AlertForPolicy): boolean {
+  const severities = parseList(policy.severities) ?? ['critical'];
+  if (!alert.severity || !severities.includes(alert.severity)) return false;
+  const rules = parseList(policy.rules);
+  if (rules && !rules.includes(alert.type)) return false;
+  const sites = parseList(policy.site_ids);
+  if (sites && (!alert.site_id || !sites.includes(alert.site_id))) return false;
+  const clients = parseList(policy.client_ids);
+  const alertClients = alert.client_ids ? alert.client_ids.split(',') : [];
+  if (clients && !alertClients.some((id) => clients.includes(id))) return false;
+  return true;
+}
+
+export function resolveTierRecipients(
+  tier: EscalationTier,
+  users: Array<{ email: string; roles: string[] }>,
+): string[] {
+  const recipients = new Set<string>();
+  for (const target of tier.targets) {
+    if (target.kind === 'user') {
+      recipients.add(target.value.toLowerCase());
+    } else {
+      for (const user of users) {
+        if (user.roles.includes(target.value)) recipients.add(user.email.toLowerCase());
+      }
+    }
+  }
+  return [...recipients];
+}
+
+export async function recordEscalationEvent(
+  DB: D1Database,
+  alertId: string,
+  kind: EscalationEventKind,
+  tier: number | null,
+  detail: Record<string, unknown> | null,
+  ts = new Date().toISOString(),
+) {
+  await DB.prepare(
+    `INSERT INTO alert_escalation_events (id, alert_id, ts, kind, tier, detail_json)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+  )
+    .bind(crypto.randomUUID(), alertId, ts, kind, tier, detail ? JSON.stringify(detail) : null)
+    .run();
+}
+
+/**
+ * Stops an active escalation when a person acks or resolves the alert so the
+ * next cron pass does not page anyone else.
+ */
+export async function stopEscalation(DB: D1Database, alertId: string, kind: 'acked' | 'resolved', actor: string) {
+  const result = await DB.prepare(
+    "UPDATE alert_escalations SET status=?, updated_at=? WHERE alert_id=? AND status='active'",
+  )
+    .bind(kind, new Date().toISOString(), alertId)
+    .run();
+  if (result.meta?.changes) {
+    await recordEscalationEvent(DB, alertId, kind, null, { by: actor });
+  }
+}
+
+async function notifyTier(
+  DB: D1Database,
+  deps: EscalationDeps,
+  users: Array<{ email: string; roles: string[] }>,
+  alert: { alert_id: string; device_id: string; type: string; severity: string | null; opened_at: string },
+  policy: { id: string; name: string },
+  tiers: EscalationTier[],
+  tierIndex: number,
+  now: Date,
+) {
+  const tier = tiers[tierIndex]!;
+  const recipients = resolveTierRecipients(tier, users);
+  const subject = `[${(alert.severity ?? 'alert').toUpperCase()}] ${alert.type} on ${alert.device_id} — escalation tier ${tierIndex + 1}`;
+  const text = [
+    `Alert ${alert.alert_id} has not been acknowledged.`,
+    `Device: ${alert.device_id}`,
+    `Rule: ${alert.type}`,
+    `Opened: ${alert.opened_at}`,
+    `Policy: ${policy.name} (tier ${tierIndex + 1} of ${tiers.length})`,
+  ].join('\n');
+  const sent = recipients.length > 0 ? await deps.notify(recipients, subject, text).catch(() => false) : false;
+
+  const nextAt = new Date(now.getTime() + tier.timeoutMin * 60_000).toISOString();
+  await DB.prepare(
+    'UPDATE alert_escalations SET tier=?, next_escalation_at=?, updated_at=? WHERE alert_id=?',
+  )
+    .bind(tierIndex, nextAt, now.toISOString(), alert.alert_id)
+    .run();
+  await recordEscalationEvent(
+    DB,
+    alert.alert_id,
+    'notified',
+    tierIndex,
+    { recipients, sent, timeoutMin: tier.timeoutMin },
+    now.toISOString(),
+  );
+}
+
+type ActiveEscalationRow = {
+  alert_id: string;
+  policy_id: string;
+  tier: number;
+  device_id: string;
+  type: string;
+  severity: string | null;
+  opened_at: string;
+  state: string;
+  policy_name: string | null;
+  tiers_json: string | null;
+};
+
+/**
+ * Attaches policies to newly opened alerts and walks active escalations to the
+ * next tier once the current tier's timeout passes without an ack. Alerts no
+ * policy covers are recorded as `unmatched` so each open alert is scanned once.
+ */
+export async function runEscalations(
+  DB: D1Database,
+  deps: EscalationDeps,
+  now = new Date(),
+): Promise<{ started: number; escalated: number; closed: number }> {
+  const summary = { started: 0, escalated: 0, closed: 0 };
+  const policies = await DB.prepare(
+    `SELECT id, name, severities, rules, site_ids, client_ids, tiers_json, enabled, created_at
+       FROM escalation_policies
+      WHERE enabled=1
+      ORDER BY created_at`,
+  ).all<EscalationPolicyRow>();
+  const enabledPolicies = policies.results ?? [];
+
+  let users: Array<{ email: string; roles: string[] }> | null = null;
+  const getUsers = async () => (users ??= await deps.loadUsers());
+
+  if (enabledPolicies.length > 0) {
+    const fresh = await DB.prepare(
+      `SELECT a.alert_id, a.device_id, a.type, a.severity, a.opened_at, d.site_id,
+              (SELECT group_concat(sc.client_id) FROM site_clients sc WHERE sc.site_id = d.site_id) AS client_ids
+         FROM alerts a
+         LEFT JOIN devices d ON d.device_id = a.device_id
+        WHERE a.state='open'
+          AND NOT EXISTS (SELECT 1 FROM alert_escalations ae WHERE ae.alert_id = a.alert_id)
+        ORDER BY a.opened_at
+        LIMIT 200`,
+    ).all<{
+      alert_id: string;
+      device_id: string;
+      type: string;
+      severity: string | null;
+      opened_at: string;
+      site_id: string | null;
+      client_ids: string | null;
+    }>();
+
+    for (const alert of fresh.results ?? []) {
+      // First matching policy (oldest first) owns the alert; policies never reach back to alerts
+      // opened before they were created.
+      const openedAt = Date.parse(alert.opened_at);
+      const policy = enabledPolicies.find(
+        (candidate) => openedAt >= parseSqlTimestamp(candidate.created_at) && policyMatches(candidate, alert),
+      );
+      const tiers = policy ? parseTiers(policy.tiers_json) : [];
+      if (!policy || tiers.length === 0) {
+        // Record the miss so unmatched alerts drop out of the scan instead of filling its limit.
+        await DB.prepare(
+          `INSERT OR IGNORE INTO alert_escalations (alert_id, policy_id, tier, status, next_escalation_at, started_at, updated_at)
+           VALUES (?, '', 0, 'unmatched', ?, ?, ?)`,
+        )
+          .bind(alert.alert_id, now.toISOString(), now.toISOString(), now.toISOString())
+          .run();
+        continue;
+      }
+
+      await DB.prepare(
+        `INSERT OR IGNORE INTO alert_escalations (alert_id, policy_id, tier, status, next_escalation_at, started_at, updated_at)
+         VALUES (?, ?, 0, 'active', ?, ?, ?)`,
+      )
+        .bind(alert.alert_id, policy.id, now.toISOString(), now.toISOString(), now.toISOString())
+        .run();
+      await recordEscalationEvent(DB, alert.alert_id, 'started', 0, { policyId: policy.id, policy: policy.name }, now.toISOString());
+      await notifyTier(DB, deps, await getUsers(), alert, policy, tiers, 0, now);
+      summary.started += 1;
+    }
+  }
+
+  const due = await DB.prepare(
+    `SELECT ae.alert_id, ae.policy_id, ae.tier, a.device_id, a.type, a.severity, a.opened_at, a.state,
+            p.name AS policy_name, p.tiers_json
+       FROM alert_escalations ae
+       JOIN alerts a ON a.alert_id = ae.alert_id
+       LEFT JOIN escalation_policies p ON p.id = ae.policy_id
+      WHERE ae.status='active' AND ae.next_escalation_at <= ?
+      ORDER BY ae.next_escalation_at
+      LIMIT 200`,
+  )
+    .bind(now.toISOString())
+    .all<ActiveEscalationRow>();
+
+  for (const row of due.results ?? []) {
+    // Acks and resolves made outside the API (e.g. auto-close) are caught here.
+    if (row.state !== 'open') {
+      const status = row.state === 'ack' ? 'acked' : 'resolved';
+      await DB.prepare('UPDATE alert_escalations SET status=?, updated_at=? WHERE alert_id=?')
+        .bind(status, now.toISOString(), row.alert_id)
+        .run();
+      await recordEscalationEvent(DB, row.alert_id, status, row.tier, null, now.toISOString());
+      summary.closed += 1;
+      continue;
+    }
+
+    const tiers = parseTiers(row.tiers_json);
+    const nextTier = row.tier + 1;
+    if (nextTier >= tiers.length) {
+      await DB.prepare("UPDATE alert_escalations SET status='exhausted', updated_at=? WHERE alert_id=?")
+        .bind(now.toISOString(), row.alert_id)
+        .run();
+      await recordEscalationEvent(DB, row.alert_id, 'exhausted', row.tier, null, now.toISOString());
+      summary.closed += 1;
+      continue;
+    }
+
+    await notifyTier(
+      DB,
+      deps,
+      await getUsers(),
+      row,
+      { id: row.policy_id, name: row.policy_name ?? row.policy_id },
+      tiers,
+      nextTier,
+      now,
+    );
+    summary.escalated += 1;
+  }
+
+  return summary;
+}
+
+export type EscalationPolicyInput = {
+  name: string;
+  severities: string[] | null;
+  rules: string[] | null;
+  siteIds: string[] | null;
+  clientIds: string[] | null;
+  tiers: EscalationTier[];
+  enabled: boolean;
+};
+
+export function parseEscalationPolicyInput(
+  body: unknown,
+): { ok: true; value: EscalationPolicyInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = typeof input.name === 'string' ? input.name.trim().slice(0, 120) : '';
+  if (!name) errors.push('name is required');
+
+  const list = (key: string): string[] | null => {
+    const value = input[key];
+    if (value == null) return null;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+      errors.push(`${key} must be an array of strings`);
+      return null;
+    }
+    const items = (value as string[]).map((item) => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : null;
+  };
+  const severities = list('severities');
+  if (severities?.some((severity) => !['minor', 'major', 'critical'].includes(severity))) {
+    errors.push('severities must be minor, major or critical');
+  }
+  const rules = list('rules');
+  const siteIds = list('siteIds');
+  const clientIds = list('clientIds');
+
+  const tiers: EscalationTier[] = [];
+  if (!Array.isArray(input.tiers) || input.tiers.length === 0) {
+    errors.push('at least one tier is required');
+  } else if (input.tiers.length > MAX_TIERS) {
+    errors.push(`no more than ${MAX_TIERS} tiers are allowed`);
+  } else {
+    input.tiers.forEach((raw, index) => {
+      const tier = raw as { targets?: unknown; timeoutMin?: unknown } | null;
+      const timeoutMin = tier?.timeoutMin;
+      if (typeof timeoutMin !== 'number' || !Number.isInteger(timeoutMin) || timeoutMin < 1 || timeoutMin > MAX_TIMEOUT_MIN) {
+        errors.push(`tiers[${index}].timeoutMin must be an integer between 1 and ${MAX_TIMEOUT_MIN}`);
+        return;
+      }
+      const targets: EscalationTarget[] = [];
+      for (const target of Array.isArray(tier?.targets) ? tier.targets : []) {
+        const kind = (target as EscalationTarget | null)?.kind;
+        const value = (target as EscalationTarget | null)?.value;
+        if ((kind === 'user' || kind === 'role') && typeof value === 'string' && value.trim()) {
+          targets.push({ kind, value: value.trim() });
+        } else {
+          errors.push(`tiers[${index}] has an invalid target`);
+        }
+      }
+      if (targets.length === 0) {
+        errors.push(`tiers[${index}] needs at least one user or role`);
+      }
+      tiers.push({ targets, timeoutMin });
+    });
+  }
+
+  if (input.enabled != null && typeof input.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: { name, severities, rules, siteIds, clientIds, tiers, enabled: input.enabled !== false },
+  };
+}
@@ -0,0 +1,453 @@
+import type { D1Database, R2Bucket } from './types/env';
+import {
+  encodeArrowFile,
+  encodeParquet,
+  MAX_COLUMNAR_ROWS,
+  parseNdjsonRecords,
+  type ColumnarRecord,
+  type ColumnSpec,
+} from './lib/columnar';
+import type { SeriesPoint, SeriesResolution } from './lib/rollups';
+import {
+  convertMetricValue,
+  csvFormat,
+  DEFAULT_DISPLAY_PREFERENCES,
+  exportColumnName,
+  readDisplayPreferences,
+  type DisplayPreferences,
+} from './lib/units';
+
+export type ExportFormat = 'ndjson' | 'csv' | 'parquet' | 'arrow';
+export type ExportStatus = 'queued' | 'running' | 'assembling' | 'done' | 'failed' | 'cancelled';
+
+export type ExportJobInput = {
+  clientId: string | null;
+  siteIds: string[];
+  deviceIds: string[];
+  metrics: string[];
+  from: string;
+  to: string;
+  resolution: SeriesResolution;
+  format: ExportFormat;
+  notify: boolean;
+};
+
+export type ExportJobRow = {
+  id: string;
+  requested_by: string;
+  status: ExportStatus;
+  filters_json: string;
+  device_ids_json: string;
+  format: ExportFormat;
+  notify: number;
+  /** Requester's display preferences at creation; metric values and column names follow them. */
+  display_json: string | null;
+  total_chunks: number;
+  done_chunks: number;
+  row_count: number;
+  object_key: string | null;
+  size_bytes: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+};
+
+export type ExportDeps = {
+  bucket: R2Bucket;
+  loadSeries: (deviceId: string, resolution: SeriesResolution, fromMs: number, toMs: number) => Promise<SeriesPoint[]>;
+  /** Schedules another pass over the job; absent when no queue is bound (the cron sweep takes over). */
+  enqueue?: (jobId: string) => Promise<void>;
+  /** Tells the requester the job finished; `url` is a signed download link for successful jobs. */
+  notify: (job: ExportJobRow, url: string | null) => Promise<void>;
+  signUrl: (key: string) => Promise<string>;
+};
+
+export const EXPORT_FORMATS: ExportFormat[] = ['ndjson', 'csv', 'parquet', 'arrow'];
+export const EXPORT_RESOLUTIONS: SeriesResolution[] = ['raw', '1m', '15m', '1h', '1d'];
+export const MAX_EXPORT_DEVICES = 500;
+export const MAX_EXPORT_SITES = 100;
+export const MAX_EXPORT_METRICS = 20;
+export const MAX_EXPORT_CHUNKS = 20_000;
+/** A job untouched for this long has lost its queue message and is picked up by the cron sweep. */
+export const EXPORT_STALL_MS = 10 * 60_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_EXPORT_SPAN_MS = 366 * DAY_MS;
+const METRIC_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,63}$/;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+/** R2 multipart parts must be at least 5 MiB and, except the last, all the same size. */
+const MULTIPART_PART_BYTES = 5 * 1024 * 1024;
+const PASS_MAX_CHUNKS = 50;
+const PASS_MAX_MS = 20_000;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv; charset=utf-8',
+  parquet: 'application/vnd.apache.parquet',
+  arrow: 'application/vnd.apache.arrow.file',
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.from(
+    new Set(
+      (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+        .map((entry) => String(entry).trim())
+        .filter(Boolean),
+    ),
+  );
+
+/** Date-only bounds cover whole UTC days, so `to: 2024-05-31` includes the 31st. */
+export function exportWindow(input: Pick<ExportJobInput, 'from' | 'to'>): { fromMs: number; toMs: number } {
+  const fromMs = Date.parse(DATE_ONLY.test(input.from) ? `${input.from}T00:00:00Z` : input.from);
+  const toMs = DATE_ONLY.test(input.to) ? Date.parse(`${input.to}T00:00:00Z`) + DAY_MS : Date.parse(input.to);
+  return { fromMs, toMs };
+}
+
+export function parseExportJobInput(body: unknown): { ok: true; value: ExportJobInput } | { ok: false; errors: string[] } {
+  const errors: string[] = [];
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const clientId = typeof raw.clientId === 'string' && raw.clientId.trim() ? raw.clientId.trim() : null;
+  const siteIds = stringList(raw.siteIds);
+  const deviceIds = stringList(raw.deviceIds);
+  if (!clientId && siteIds.length === 0 && deviceIds.length === 0) {
+    errors.push('select a client, sites or devices');
+  }
+  if (siteIds.length > MAX_EXPORT_SITES) errors.push(`siteIds may list at most ${MAX_EXPORT_SITES} sites`);
+  if (deviceIds.length > MAX_EXPORT_DEVICES) errors.push(`deviceIds may list at most ${MAX_EXPORT_DEVICES} devices`);
+  const metrics = stringList(raw.metrics);
+  if (metrics.length === 0) errors.push('metrics must list at least one metric');
+  if (metrics.length > MAX_EXPORT_METRICS) errors.push(`metrics may list at most ${MAX_EXPORT_METRICS} names`);
+  if (metrics.some((metric) => !METRIC_PATTERN.test(metric))) errors.push('metric names must be alphanumeric');
+
+  const from = typeof raw.from === 'string' ? raw.from.trim() : '';
+  const to = typeof raw.to === 'string' ? raw.to.trim() : '';
+  const { fromMs, toMs } = exportWindow({ from, to });
+  if (Number.isNaN(fromMs)) errors.push('from must be an ISO date or timestamp');
+  if (Number.isNaN(toMs)) errors.push('to must be an ISO date or timestamp');
+  if (!Number.isNaN(fromMs) && !Number.isNaN(toMs)) {
+    if (fromMs >= toMs) errors.push('from must be before to');
+    else if (toMs - fromMs > MAX_EXPORT_SPAN_MS) errors.push('window may span at most 366 days');
+  }
+
+  const resolution = (raw.resolution ?? '15m') as SeriesResolution;
+  if (!EXPORT_RESOLUTIONS.includes(resolution)) errors.push(`resolution must be one of ${EXPORT_RESOLUTIONS.join(', ')}`);
+  const format = (raw.format ?? 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) errors.push(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+
+  return errors.length
+    ? { ok: false, errors }
+    : {
+        ok: true,
+        value: { clientId, siteIds, deviceIds, metrics, from, to, resolution, format, notify: raw.notify !== false },
+      };
+}
+
+/** Time slice per chunk: small enough that one device's slice stays well inside a single pass. */
+export function exportSliceMs(resolution: SeriesResolution): number {
+  if (resolution === 'raw' || resolution === '1m') return DAY_MS;
+  if (resolution === '15m') return 30 * DAY_MS;
+  return MAX_EXPORT_SPAN_MS;
+}
+
+export function countExportChunks(deviceCount: number, fromMs: number, toMs: number, resolution: SeriesResolution): number {
+  return deviceCount * Math.ceil((toMs - fromMs) / exportSliceMs(resolution));
+}
+
+/** Chunks run device by device, each device's slices in time order, so the output stays sorted. */
+export function exportChunkAt(
+  index: number,
+  deviceIds: string[],
+  fromMs: number,
+  toMs: number,
+  resolution: SeriesResolution,
+): { deviceId: string; fromMs: number; toMs: number } | null {
+  const sliceMs = exportSliceMs(resolution);
+  const slices = Math.ceil((toMs - fromMs) / sliceMs);
+  const deviceId = deviceIds[Math.floor(index / slices)];
+  if (deviceId === undefined || slices <= 0) return null;
+  const start = fromMs + (index % slices) * sliceMs;
+  return { deviceId, fromMs: start, toMs: Math.min(start + sliceMs, toMs) };
+}
+
+/**
+ * One row per point, keeping only the requested metrics in the requester's units; points without
+ * any of them are dropped.
+ */
+export function pointsToExportRows(
+  deviceId: string,
+  points: SeriesPoint[],
+  metrics: string[],
+  prefs: DisplayPreferences = DEFAULT_DISPLAY_PREFERENCES,
+): ColumnarRecord[] {
+  const rows: ColumnarRecord[] = [];
+  for (const point of points) {
+    const values = metrics.map((metric) => point.metrics[metric] ?? null);
+    if (values.every((value) => value === null)) continue;
+    const row: ColumnarRecord = { device_id: deviceId, timestamp: point.timestamp };
+    metrics.forEach((metric, index) => {
+      row[exportColumnName(metric, prefs)] = convertMetricValue(metric, values[index]!, prefs);
+    });
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function exportColumns(metrics: string[], prefs: DisplayPreferences = DEFAULT_DISPLAY_PREFERENCES): ColumnSpec[] {
+  return [
+    { name: 'device_id', type: 'string' },
+    { name: 'timestamp', type: 'timestamp' },
+    ...metrics.map((metric): ColumnSpec => ({ name: exportColumnName(metric, prefs), type: 'double' })),
+  ];
+}
+
+function csvValue(value: unknown, format: { delimiter: string; decimal: string }): string {
+  if (value === null || value === undefined) return '';
+  const str = typeof value === 'number' && format.decimal !== '.' ? String(value).replace('.', format.decimal) : String(value);
+  return str.includes(format.delimiter) || /["\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/** CSV body lines; numbers use the locale's decimal separator and the matching field delimiter. */
+export function toCsvLines(rows: ColumnarRecord[], columns: string[], locale = DEFAULT_DISPLAY_PREFERENCES.locale): string {
+  const format = csvFormat(locale);
+  return rows.map((row) => columns.map((column) => csvValue(row[column], format)).join(format.delimiter) + '\n').join('');
+}
+
+export function exportPartKey(jobId: string, index: number): string {
+  return `exports/${jobId}/parts/${String(index).padStart(6, '0')}.ndjson`;
+}
+
+export function exportObjectKey(job: Pick<ExportJobRow, 'id' | 'format'>): string {
+  return `exports/${job.id}/telemetry-export-${job.id.slice(0, 8)}.${job.format}`;
+}
+
+/**
+ * Resolves the job's device list from its filters: explicit devices, devices at the given sites,
+ * and devices at every site of the client. Unknown ids are dropped. Id lists are read 90 at a time to
+ * stay under D1's bound-parameter limit; more than `MAX_EXPORT_DEVICES` results means the job is too big.
+ */
+export async function resolveExportDevices(DB: D1Database, input: ExportJobInput): Promise<string[]> {
+  const found = new Set<string>();
+  const collect = async (where: string, binds: string[]) => {
+    const rows = await DB.prepare(`SELECT device_id FROM devices WHERE ${where} ORDER BY device_id LIMIT ?`)
+      .bind(...binds, MAX_EXPORT_DEVICES + 1)
+      .all<{ device_id: string }>();
+    for (const row of rows.results ?? []) found.add(row.device_id);
+  };
+  for (const [column, ids] of [
+    ['device_id', input.deviceIds],
+    ['site_id', input.siteIds],
+  ] as const) {
+    for (let i = 0; i < ids.length; i += 90) {
+      const chunk = ids.slice(i, i + 90);
+      await collect(`${column} IN (${chunk.map(() => '?').join(',')})`, chunk);
+    }
+  }
+  if (input.clientId) {
+    await collect('site_id IN (SELECT site_id FROM site_clients WHERE client_id=?)', [input.clientId]);
+  }
+  return Array.from(found).sort().slice(0, MAX_EXPORT_DEVICES + 1);
+}
+
+export async function loadExportJob(DB: D1Database, jobId: string): Promise<ExportJobRow | null> {
+  return DB.prepare('SELECT * FROM export_jobs WHERE id=?').bind(jobId).first<ExportJobRow>();
+}
+
+async function failJob(DB: D1Database, jobId: string, error: string, now: Date) {
+  await DB.prepare(
+    "UPDATE export_jobs SET status='failed', error=?, updated_at=?, completed_at=? WHERE id=? AND status IN ('queued','running','assembling')",
+  )
+    .bind(error.slice(0, 500), now.toISOString(), now.toISOString(), jobId)
+    .run();
+}
+
+async function listPartKeys(bucket: R2Bucket, jobId: string): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix: `exports/${jobId}/parts/`, cursor });
+    keys.push(...page.objects.map((object) => object.key));
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return keys.sort();
+}
+
+async function readPart(bucket: R2Bucket, key: string): Promise<ColumnarRecord[]> {
+  const object = await bucket.get(key);
+  return object ? parseNdjsonRecords(await object.text()) : [];
+}
+
+/** Writes the parts out as one object: a multipart upload for text formats, a single put for columnar ones. */
+async function assembleExport(bucket: R2Bucket, job: ExportJobRow, metrics: string[]): Promise<{ key: string; size: number }> {
+  const key = exportObjectKey(job);
+  const prefs = readDisplayPreferences(job.display_json);
+  const parts = await listPartKeys(bucket, job.id);
+  const httpMetadata = { contentType: CONTENT_TYPES[job.format] };
+
+  if (job.format === 'parquet' || job.format === 'arrow') {
+    if (job.row_count > MAX_COLUMNAR_ROWS) {
+      throw new Error(`${job.row_count} rows exceed the ${MAX_COLUMNAR_ROWS} row limit for ${job.format}; use csv or ndjson`);
+    }
+    const rows: ColumnarRecord[] = [];
+    for (const part of parts) rows.push(...(await readPart(bucket, part)));
+    const encode = job.format === 'parquet' ? encodeParquet : encodeArrowFile;
+    const stored = await bucket.put(key, encode(exportColumns(metrics, prefs), rows), { httpMetadata });
+    return { key, size: stored.size };
+  }
+
+  const columns = exportColumns(metrics, prefs).map((column) => column.name);
+  const { delimiter } = csvFormat(prefs.locale);
+  const encoder = new TextEncoder();
+  const upload = await bucket.createMultipartUpload(key, { httpMetadata });
+  try {
+    const uploaded: R2UploadedPart[] = [];
+    const pending: Uint8Array[] = [];
+    let buffered = 0;
+    let size = 0;
+    const drain = async (final: boolean) => {
+      while (buffered >= MULTIPART_PART_BYTES || (final && (buffered > 0 || uploaded.length === 0))) {
+        const part = new Uint8Array(Math.min(MULTIPART_PART_BYTES, buffered));
+        let filled = 0;
+        while (filled < part.length) {
+          const head = pending[0]!;
+          const take = Math.min(head.length, part.length - filled);
+          part.set(head.subarray(0, take), filled);
+          filled += take;
+          if (take === head.length) pending.shift();
+          else pending[0] = head.subarray(take);
+        }
+        buffered -= part.length;
+        size += part.length;
+        uploaded.push(await upload.uploadPart(uploaded.length + 1, part));
+        if (part.length === 0) break;
+      }
+    };
+    const write = async (text: string) => {
+      const bytes = encoder.encode(text);
+      pending.push(bytes);
+      buffered += bytes.length;
+      await drain(false);
+    };
+
+    if (job.format === 'csv') await write(`${columns.join(delimiter)}\n`);
+    for (const part of parts) {
+      if (job.format === 'csv') await write(toCsvLines(await readPart(bucket, part), columns, prefs.locale));
+      else await write((await (await bucket.get(part))?.text()) ?? '');
+    }
+    await drain(true);
+    await upload.complete(uploaded);
+    return { key, size };
+  } catch (error) {
+    await upload.abort().catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Advances one export job: processes chunks in order until the pass budget runs out, then either
+ * re-enqueues itself or assembles the final file and notifies the requester. Each chunk writes a
+ * part object keyed by its index and bumps `done_chunks` with a compare-and-set, so a duplicate
+ * delivery (queue retry racing the cron sweep) rewrites the same part and then stops. Assembly is
+ * claimed the same way by moving the job to `assembling`; a claim older than {@link EXPORT_STALL_MS}
+ * is taken to be from a worker that died and may be taken over.
+ */
+export async function processExportJob(
+  DB: D1Database,
+  jobId: string,
+  deps: ExportDeps,
+): Promise<ExportStatus | null> {
+  const job = await loadExportJob(DB, jobId);
+  if (!job || !['queued', 'running', 'assembling'].includes(job.status)) return job?.status ?? null;
+  const filters = JSON.parse(job.filters_json) as ExportJobInput;
+  const deviceIds = JSON.parse(job.device_ids_json) as string[];
+  const prefs = readDisplayPreferences(job.display_json);
+  const { fromMs, toMs } = exportWindow(filters);
+
+  try {
+    await DB.prepare("UPDATE export_jobs SET status='running', updated_at=? WHERE id=? AND status='queued'")
+      .bind(new Date().toISOString(), jobId)
+      .run();
+    const started = Date.now();
+    let done = job.done_chunks;
+    let rowCount = job.row_count;
+    for (let pass = 0; done < job.total_chunks && pass < PASS_MAX_CHUNKS && Date.now() - started < PASS_MAX_MS; pass++) {
+      const chunk = exportChunkAt(done, deviceIds, fromMs, toMs, filters.resolution);
+      const rows = chunk
+        ? pointsToExportRows(
+            chunk.deviceId,
+            await deps.loadSeries(chunk.deviceId, filters.resolution, chunk.fromMs, chunk.toMs),
+            filters.metrics,
+            prefs,
+          )
+        : [];
+      if (rows.length > 0) {
+        await deps.bucket.put(exportPartKey(jobId, done), rows.map((row) => JSON.stringify(row)).join('\n') + '\n');
+      }
+      const claimed = await DB.prepare(
+        `UPDATE export_jobs SET done_chunks=?, row_count=row_count+?, updated_at=?
+          WHERE id=? AND done_chunks=? AND status='running'`,
+      )
+        .bind(done + 1, rows.length, new Date().toISOString(), jobId, done)
+        .run();
+      if (!claimed.meta?.changes) return (await loadExportJob(DB, jobId))?.status ?? null;
+      done += 1;
+      rowCount += rows.length;
+    }
+
+    if (done < job.total_chunks) {
+      await deps.enqueue?.(jobId);
+      return 'running';
+    }
+
+    const claimedAt = new Date();
+    const assembling = await DB.prepare(
+      `UPDATE export_jobs SET status='assembling', updated_at=?
+        WHERE id=? AND (status='running' OR (status='assembling' AND updated_at <= ?))`,
+    )
+      .bind(claimedAt.toISOString(), jobId, new Date(claimedAt.getTime() - EXPORT_STALL_MS).toISOString())
+      .run();
+    if (!assembling.meta?.changes) return (await loadExportJob(DB, jobId))?.status ?? null;
+
+    const { key, size } = await assembleExport(deps.bucket, { ...job, row_count: rowCount }, filters.metrics);
+    const finished = new Date().toISOString();
+    const stored = await DB.prepare(
+      `UPDATE export_jobs SET status='done', object_key=?, size_bytes=?, updated_at=?, completed_at=?
+        WHERE id=? AND status='assembling'`,
+    )
+      .bind(key, size, finished, finished, jobId)
+      .run();
+    if (!stored.meta?.changes) {
+      // Cancelled while the file was being written.
+      await deps.bucket.delete(key).catch(() => {});
+      return (await loadExportJob(DB, jobId))?.status ?? null;
+    }
+    const leftovers = await listPartKeys(deps.bucket, jobId);
+    if (leftovers.length > 0) await deps.bucket.delete(leftovers).catch(() => {});
+    const completed = await loadExportJob(DB, jobId);
+    if (completed?.notify) await deps.notify(completed, await deps.signUrl(key)).catch(() => {});
+    return 'done';
+  } catch (error) {
+    console.error('export job failed', jobId, error);
+    await failJob(DB, jobId, error instanceof Error ? error.message : String(error), new Date());
+    const failed = await loadExportJob(DB, jobId);
+    if (failed?.notify) await deps.notify(failed, null).catch(() => {});
+    return 'failed';
+  }
+}
+
+/** Cron fallback: advances queued/running jobs whose queue message was lost (or every job when there is no queue). */
+export async function sweepExportJobs(DB: D1Database, deps: ExportDeps, now = new Date()): Promise<number> {
+  const staleBefore = deps.enqueue ? new Date(now.getTime() - EXPORT_STALL_MS).toISOString() : now.toISOString();
+  const rows = await DB.prepare(
+    `SELECT id FROM export_jobs
+      WHERE status IN ('queued','running','assembling') AND updated_at <= ?
+      ORDER BY created_at
+      LIMIT 5`,
+  )
+    .bind(staleBefore)
+    .all<{ id: string }>();
+  for (const row of rows.results ?? []) {
+    await processExportJob(DB, row.id, deps);
+  }
+  return rows.results?.length ?? 0;
+}
@@ -27,6 +27,7 @@ async function selectExistingIncidents(DB: D1Database, windowHours: number): Pro
     `SELECT incident_id, site_id, last_alert_at
        FROM incidents
       WHERE last_alert_at >= datetime('now', ?)
+        AND merged_into IS NULL
       ORDER BY last_alert_at`
   )
     .bind(`-${windowHours} hours`)
@@ -103,6 +104,7 @@ export async function sweepIncidents(DB: D1Database, windowHours = 48): Promise<
     assigned += 1;
   }
 
+  // Incidents with an owner are closed through the workflow, not by the sweep.
   await DB.prepare(
     `UPDATE incidents
         SET resolved_at = (
@@ -111,8 +113,11 @@ export async function sweepIncidents(DB: D1Database, windowHours = 48): Promise<
                 JOIN alerts a ON a.alert_id = ia2.alert_id
                WHERE ia2.incident_id = incidents.incident_id
             ),
+            status = 'resolved',
             updated_at = datetime('now')
       WHERE resolved_at IS NULL
+        AND owner IS NULL
+        AND merged_into IS NULL
         AND started_at >= datetime('now', ?)
         AND NOT EXISTS (
               SELECT 1 FROM incident_alerts ia3
@@ -126,3 +131,363 @@ export async function sweepIncidents(DB: D1Database, windowHours = 48): Promise<
 
   return { created, assigned };
 }
+
+export const INCIDENT_STATUSES = ['investigating', 'mitigated', 'resolved'] as const;
+export type IncidentStatus = (typeof INCIDENT_STATUSES)[number];
+
+export const INCIDENT_SEVERITIES = ['minor', 'major', 'critical'] as const;
+export type IncidentSeverity = (typeof INCIDENT_SEVERITIES)[number];
+
+export type IncidentEventKind =
+  | 'status'
+  | 'severity'
+  | 'owner'
+  | 'title'
+  | 'comment'
+  | 'postmortem'
+  | 'alerts_linked'
+  | 'merged'
+  | 'merged_into'
+  | 'split'
+  | 'split_from';
+
+export type IncidentRow = {
+  incident_id: string;
+  site_id: string;
+  started_at: string;
+  last_alert_at: string;
+  resolved_at: string | null;
+  title: string | null;
+  status: IncidentStatus;
+  severity: IncidentSeverity | null;
+  owner: string | null;
+  root_cause: string | null;
+  postmortem: string | null;
+  merged_into: string | null;
+};
+
+export type IncidentTimelineEntry = {
+  ts: string;
+  kind: IncidentEventKind | 'opened';
+  actor: string | null;
+  body: string | null;
+  meta: Record<string, unknown> | null;
+};
+
+export type IncidentUpdate = {
+  title?: string | null;
+  status?: IncidentStatus;
+  severity?: IncidentSeverity | null;
+  owner?: string | null;
+  rootCause?: string | null;
+};
+
+const MAX_TEXT_LENGTH = 10_000;
+const MAX_LINKED_ALERTS = 200;
+
+export const INCIDENT_COLUMNS =
+  'incident_id, site_id, started_at, last_alert_at, resolved_at, title, status, severity, owner, root_cause, postmortem, merged_into';
+
+export async function loadIncident(DB: D1Database, incidentId: string): Promise<IncidentRow | null> {
+  return DB.prepare(`SELECT ${INCIDENT_COLUMNS} FROM incidents WHERE incident_id=?`)
+    .bind(incidentId)
+    .first<IncidentRow>();
+}
+
+export async function recordIncidentEvent(
+  DB: D1Database,
+  incidentId: string,
+  kind: IncidentEventKind,
+  actor: string | null,
+  body: string | null = null,
+  meta: Record<string, unknown> | null = null,
+) {
+  await DB.prepare(
+    `INSERT INTO incident_events (id, incident_id, ts, actor, kind, body, meta_json)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+  )
+    .bind(crypto.randomUUID(), incidentId, new Date().toISOString(), actor, kind, body, meta ? JSON.stringify(meta) : null)
+    .run();
+}
+
+/** Timeline of workflow events, preceded by the incident opening. */
+export async function loadIncidentTimeline(DB: D1Database, incident: IncidentRow): Promise<IncidentTimelineEntry[]> {
+  const rows = await DB.prepare(
+    'SELECT ts, actor, kind, body, meta_json FROM incident_events WHERE incident_id=? ORDER BY ts',
+  )
+    .bind(incident.incident_id)
+    .all<{ ts: string; actor: string | null; kind: IncidentEventKind; body: string | null; meta_json: string | null }>();
+  const entries: IncidentTimelineEntry[] = [
+    { ts: incident.started_at, kind: 'opened', actor: null, body: null, meta: null },
+  ];
+  for (const row of rows.results ?? []) {
+    let meta: Record<string, unknown> | null = null;
+    try {
+      meta = row.meta_json ? (JSON.parse(row.meta_json) as Record<string, unknown>) : null;
+    } catch {
+      meta = null;
+    }
+    entries.push({ ts: row.ts, kind: row.kind, actor: row.actor, body: row.body, meta });
+  }
+  return entries;
+}
+
+/** Applies a partial update and records one timeline event per changed field. */
+export async function updateIncident(DB: D1Database, incident: IncidentRow, update: IncidentUpdate, actor: string) {
+  const next = {
+    title: update.title !== undefined ? update.title : incident.title,
+    status: update.status ?? incident.status,
+    severity: update.severity !== undefined ? update.severity : incident.severity,
+    owner: update.owner !== undefined ? update.owner : incident.owner,
+    root_cause: update.rootCause !== undefined ? update.rootCause : incident.root_cause,
+  };
+  let resolvedAt = incident.resolved_at;
+  if (next.status === 'resolved' && !resolvedAt) {
+    resolvedAt = new Date().toISOString();
+  } else if (next.status !== 'resolved') {
+    resolvedAt = null;
+  }
+
+  await DB.prepare(
+    `UPDATE incidents
+        SET title=?, status=?, severity=?, owner=?, root_cause=?, resolved_at=?, updated_at=datetime('now')
+      WHERE incident_id=?`,
+  )
+    .bind(next.title, next.status, next.severity, next.owner, next.root_cause, resolvedAt, incident.incident_id)
+    .run();
+
+  const changes: Array<[IncidentEventKind, string | null, string | null]> = [
+    ['status', incident.status, next.status],
+    ['severity', incident.severity, next.severity],
+    ['owner', incident.owner, next.owner],
+    ['title', incident.title, next.title],
+  ];
+  for (const [kind, from, to] of changes) {
+    if (from !== to) {
+      await recordIncidentEvent(DB, incident.incident_id, kind, actor, to, { from, to });
+    }
+  }
+  if (incident.root_cause !== next.root_cause) {
+    await recordIncidentEvent(DB, incident.incident_id, 'postmortem', actor, null, { field: 'root_cause' });
+  }
+  return { ...incident, ...next, resolved_at: resolvedAt };
+}
+
+/** Recomputes started_at/last_alert_at from the alerts currently linked to the incident. */
+async function refreshIncidentBounds(DB: D1Database, incidentId: string) {
+  await DB.prepare(
+    `UPDATE incidents
+        SET started_at = COALESCE(
+              (SELECT MIN(a.opened_at) FROM incident_alerts ia JOIN alerts a ON a.alert_id = ia.alert_id
+                WHERE ia.incident_id = incidents.incident_id),
+              started_at),
+            last_alert_at = COALESCE(
+              (SELECT MAX(a.opened_at) FROM incident_alerts ia JOIN alerts a ON a.alert_id = ia.alert_id
+                WHERE ia.incident_id = incidents.incident_id),
+              last_alert_at),
+            updated_at = datetime('now')
+      WHERE incident_id = ?`,
+  )
+    .bind(incidentId)
+    .run();
+}
+
+/**
+ * Moves alerts onto the incident, detaching them from whichever incident held them.
+ * Returns the ids that were linked; unknown alert ids are ignored.
+ */
+export async function linkAlertsToIncident(DB: D1Database, incidentId: string, alertIds: string[], actor: string) {
+  if (alertIds.length === 0) return [];
+  const placeholders = alertIds.map(() => '?').join(',');
+  const existing = await DB.prepare(
+    `SELECT a.alert_id, ia.incident_id
+       FROM alerts a
+       LEFT JOIN incident_alerts ia ON ia.alert_id = a.alert_id
+      WHERE a.alert_id IN (${placeholders})`,
+  )
+    .bind(...alertIds)
+    .all<{ alert_id: string; incident_id: string | null }>();
+  const rows = (existing.results ?? []).filter((row) => row.incident_id !== incidentId);
+  if (rows.length === 0) return [];
+
+  const linked = Array.from(new Set(rows.map((row) => row.alert_id)));
+  const previous = Array.from(
+    new Set(rows.map((row) => row.incident_id).filter((id): id is string => !!id)),
+  );
+  await DB.batch([
+    ...linked.map((alertId) =>
+      DB.prepare('DELETE FROM incident_alerts WHERE alert_id=? AND incident_id<>?').bind(alertId, incidentId),
+    ),
+    ...linked.map((alertId) =>
+      DB.prepare('INSERT OR IGNORE INTO incident_alerts (incident_id, alert_id) VALUES (?, ?)').bind(incidentId, alertId),
+    ),
+  ]);
+  for (const id of [incidentId, ...previous]) {
+    await refreshIncidentBounds(DB, id);
+  }
+  await recordIncidentEvent(DB, incidentId, 'alerts_linked', actor, null, { alertIds: linked, from: previous });
+  return linked;
+}
+
+/** Folds the source incidents into the target; sources stay as tombstones pointing at the target. */
+export async function mergeIncidents(DB: D1Database, target: IncidentRow, sourceIds: string[], actor: string) {
+  const sources = sourceIds.filter((id) => id !== target.incident_id);
+  if (sources.length === 0) return [];
+  const placeholders = sources.map(() => '?').join(',');
+  const found = await DB.prepare(
+    `SELECT incident_id FROM incidents WHERE incident_id IN (${placeholders}) AND merged_into IS NULL`,
+  )
+    .bind(...sources)
+    .all<{ incident_id: string }>();
+  const merged = (found.results ?? []).map((row) => row.incident_id);
+  if (merged.length === 0) return [];
+
+  const now = new Date().toISOString();
+  await DB.batch(
+    merged.flatMap((sourceId) => [
+      DB.prepare(
+        'INSERT OR IGNORE INTO incident_alerts (incident_id, alert_id) SELECT ?, alert_id FROM incident_alerts WHERE incident_id=?',
+      ).bind(target.incident_id, sourceId),
+      DB.prepare('DELETE FROM incident_alerts WHERE incident_id=?').bind(sourceId),
+      DB.prepare(
+        `UPDATE incidents SET merged_into=?, status='resolved', resolved_at=COALESCE(resolved_at, ?), updated_at=datetime('now')
+          WHERE incident_id=?`,
+      ).bind(target.incident_id, now, sourceId),
+      DB.prepare('UPDATE incident_events SET incident_id=? WHERE incident_id=?').bind(target.incident_id, sourceId),
+    ]),
+  );
+  await refreshIncidentBounds(DB, target.incident_id);
+  await recordIncidentEvent(DB, target.incident_id, 'merged', actor, null, { incidentIds: merged });
+  for (const sourceId of merged) {
+    await recordIncidentEvent(DB, sourceId, 'merged_into', actor, null, { incidentId: target.incident_id });
+  }
+  return merged;
+}
+
+/** Moves the given alerts into a new incident on the same site. */
+export async function splitIncident(DB: D1Database, source: IncidentRow, alertIds: string[], actor: string) {
+  const placeholders = alertIds.map(() => '?').join(',');
+  const rows = await DB.prepare(
+    `SELECT a.alert_id, a.opened_at
+       FROM incident_alerts ia
+       JOIN alerts a ON a.alert_id = ia.alert_id
+      WHERE ia.incident_id=? AND ia.alert_id IN (${placeholders})
+      ORDER BY a.opened_at`,
+  )
+    .bind(source.incident_id, ...alertIds)
+    .all<{ alert_id: string; opened_at: string }>();
+  const moved = rows.results ?? [];
+  if (moved.length === 0) return null;
+
+  const incidentId = crypto.randomUUID();
+  const first = moved[0]!;
+  const last = moved[moved.length - 1]!;
+  await DB.batch([
+    DB.prepare(
+      `INSERT INTO incidents (incident_id, site_id, started_at, last_alert_at, status, severity, created_at, updated_at)
+       VALUES (?, ?, ?, ?, 'investigating', ?, datetime('now'), datetime('now'))`,
+    ).bind(incidentId, source.site_id, first.opened_at, last.opened_at, source.severity),
+    ...moved.map((row) =>
+      DB.prepare('UPDATE incident_alerts SET incident_id=? WHERE incident_id=? AND alert_id=?').bind(
+        incidentId,
+        source.incident_id,
+        row.alert_id,
+      ),
+    ),
+  ]);
+  await refreshIncidentBounds(DB, source.incident_id);
+  const ids = moved.map((row) => row.alert_id);
+  await recordIncidentEvent(DB, source.incident_id, 'split', actor, null, { incidentId, alertIds: ids });
+  await recordIncidentEvent(DB, incidentId, 'split_from', actor, null, { incidentId: source.incident_id, alertIds: ids });
+  return incidentId;
+}
+
+const optionalText = (
+  input: Record<string, unknown>,
+  key: string,
+  errors: string[],
+  maxLength = MAX_TEXT_LENGTH,
+): string | null | undefined => {
+  const value = input[key];
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== 'string') {
+    errors.push(`${key} must be a string`);
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    errors.push(`${key} must be at most ${maxLength} characters`);
+    return undefined;
+  }
+  return trimmed || null;
+};
+
+export function parseIncidentUpdateInput(
+  body: unknown,
+): { ok: true; value: IncidentUpdate } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+  const value: IncidentUpdate = {};
+
+  const title = optionalText(input, 'title', errors, 200);
+  if (title !== undefined) value.title = title;
+  const owner = optionalText(input, 'owner', errors, 320);
+  if (owner !== undefined) value.owner = owner?.toLowerCase() ?? null;
+  const rootCause = optionalText(input, 'rootCause', errors);
+  if (rootCause !== undefined) value.rootCause = rootCause;
+
+  if (input.status !== undefined) {
+    if (typeof input.status === 'string' && (INCIDENT_STATUSES as readonly string[]).includes(input.status)) {
+      value.status = input.status as IncidentStatus;
+    } else {
+      errors.push(`status must be one of ${INCIDENT_STATUSES.join(', ')}`);
+    }
+  }
+  if (input.severity !== undefined) {
+    if (input.severity === null) {
+      value.severity = null;
+    } else if (
+      typeof input.severity === 'string' &&
+      (INCIDENT_SEVERITIES as readonly string[]).includes(input.severity)
+    ) {
+      value.severity = input.severity as IncidentSeverity;
+    } else {
+      errors.push(`severity must be one of ${INCIDENT_SEVERITIES.join(', ')}`);
+    }
+  }
+
+  if (errors.length === 0 && Object.keys(value).length === 0) {
+    errors.push('no changes supplied');
+  }
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+export function parseIncidentTextInput(
+  body: unknown,
+  key: 'body' | 'postmortem',
+): { ok: true; value: string } | { ok: false; errors: string[] } {
+  const input = body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+  const errors: string[] = [];
+  const text = optionalText(input, key, errors);
+  if (errors.length > 0) return { ok: false, errors };
+  if (!text) return { ok: false, errors: [`${key} is required`] };
+  return { ok: true, value: text };
+}
+
+export function parseIdListInput(
+  body: unknown,
+  key: 'alertIds' | 'incidentIds',
+): { ok: true; value: string[] } | { ok: false; errors: string[] } {
+  const value = body && typeof body === 'object' ? (body as Record<string, unknown>)[key] : undefined;
+  if (!Array.isArray(value) || value.length === 0 || value.some((id) => typeof id !== 'string' || !id.trim())) {
+    return { ok: false, errors: [`${key} must be a non-empty array of ids`] };
+  }
+  if (value.length > MAX_LINKED_ALERTS) {
+    return { ok: false, errors: [`${key} accepts at most ${MAX_LINKED_ALERTS} ids`] };
+  }
+  return { ok: true, value: Array.from(new Set((value as string[]).map((id) => id.trim()))) };
+}
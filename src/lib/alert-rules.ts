@@ -0,0 +1,338 @@
+import type { Env } from '../types/env';
+
+export type Severity = 'minor' | 'major' | 'critical';
+
+export type RuleName =
+  | 'overheat'
+  | 'low_flow_under_load'
+  | 'low_cop'
+  | 'short_cycling'
+  | 'no_heartbeat_warn'
+  | 'no_heartbeat_crit';
+
+export type RuleConfig = {
+  dwellSec: number;
+  cooldownSec: number;
+  suppressWhenOffline?: boolean;
+};
+
+export type AlertRuleScope = 'fleet' | 'client' | 'site' | 'device';
+
+export const ALERT_RULE_SCOPES: AlertRuleScope[] = ['fleet', 'client', 'site', 'device'];
+
+export const DEFAULT_RULES: Record<RuleName, RuleConfig> = {
+  overheat: { dwellSec: 120, cooldownSec: 300 },
+  low_flow_under_load: { dwellSec: 90, cooldownSec: 300, suppressWhenOffline: true },
+  low_cop: { dwellSec: 600, cooldownSec: 900, suppressWhenOffline: true },
+  short_cycling: { dwellSec: 0, cooldownSec: 900, suppressWhenOffline: false },
+  no_heartbeat_warn: { dwellSec: 0, cooldownSec: 0 },
+  no_heartbeat_crit: { dwellSec: 0, cooldownSec: 0 },
+};
+
+export const DEFAULT_SEVERITY: Record<RuleName, Severity> = {
+  overheat: 'critical',
+  low_flow_under_load: 'major',
+  low_cop: 'minor',
+  short_cycling: 'major',
+  no_heartbeat_warn: 'major',
+  no_heartbeat_crit: 'critical',
+};
+
+export const DEFAULT_THRESHOLDS = {
+  overheatC: 60,
+  minFlowLps: 0.05,
+  lowCop: 2.0,
+  minPowerKWForLowCop: 0.8,
+  shortCycleWindowSec: 600,
+  shortCycleToggles: 3,
+  heartbeatWarnSec: 300,
+  heartbeatCritSec: 1200,
+};
+
+export type AlertThresholds = typeof DEFAULT_THRESHOLDS;
+
+// Thresholds a rule row may override; keys outside a rule's list are ignored.
+export const RULE_THRESHOLD_KEYS: Record<RuleName, Array<keyof AlertThresholds>> = {
+  overheat: ['overheatC'],
+  low_flow_under_load: ['minFlowLps'],
+  low_cop: ['lowCop', 'minPowerKWForLowCop'],
+  short_cycling: ['shortCycleWindowSec', 'shortCycleToggles'],
+  no_heartbeat_warn: ['heartbeatWarnSec'],
+  no_heartbeat_crit: ['heartbeatCritSec'],
+};
+
+export const isRuleName = (value: string): value is RuleName => Object.hasOwn(DEFAULT_RULES, value);
+
+export const isAlertRuleScope = (value: string): value is AlertRuleScope =>
+  (ALERT_RULE_SCOPES as string[]).includes(value);
+
+export type AlertRuleRow = {
+  id: string;
+  rule: string;
+  scope: string;
+  scope_id: string | null;
+  enabled: number | null;
+  severity: string | null;
+  dwell_sec: number | null;
+  cooldown_sec: number | null;
+  thresholds_json: string | null;
+};
+
+export type EffectiveRule = RuleConfig & { enabled: boolean; severity: Severity };
+
+export type EffectiveAlertConfig = {
+  thresholds: AlertThresholds;
+  rules: Record<RuleName, EffectiveRule>;
+};
+
+export type AlertRuleTarget = {
+  deviceId: string;
+  siteId: string | null;
+  clientIds: string[];
+};
+
+const SCOPE_RANK: Record<AlertRuleScope, number> = { fleet: 0, client: 1, site: 2, device: 3 };
+
+export function defaultAlertConfig(): EffectiveAlertConfig {
+  const rules = {} as Record<RuleName, EffectiveRule>;
+  for (const name of Object.keys(DEFAULT_RULES) as RuleName[]) {
+    rules[name] = { ...DEFAULT_RULES[name], enabled: true, severity: DEFAULT_SEVERITY[name] };
+  }
+  return { thresholds: { ...DEFAULT_THRESHOLDS }, rules };
+}
+
+export function ruleAppliesTo(
+  row: { scope: string; scope_id: string | null },
+  target: AlertRuleTarget,
+): boolean {
+  switch (row.scope) {
+    case 'fleet':
+      return true;
+    case 'client':
+      return row.scope_id != null && target.clientIds.includes(row.scope_id);
+    case 'site':
+      return row.scope_id != null && row.scope_id === target.siteId;
+    case 'device':
+      return row.scope_id === target.deviceId;
+    default:
+      return false;
+  }
+}
+
+export function parseThresholds(rule: RuleName, json: string | null): Partial<AlertThresholds> {
+  if (!json) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return {};
+  }
+  if (!parsed || typeof parsed !== 'object') return {};
+  const out: Partial<AlertThresholds> = {};
+  for (const key of RULE_THRESHOLD_KEYS[rule]) {
+    const value = (parsed as Record<string, unknown>)[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+/**
+ * Layers stored overrides on top of the built-in defaults. Precedence is
+ * fleet < client < site < device, so the most specific row wins per field.
+ */
+export function resolveAlertConfig(rows: AlertRuleRow[], target: AlertRuleTarget): EffectiveAlertConfig {
+  const config = defaultAlertConfig();
+  const applicable = rows
+    .filter((row) => isRuleName(row.rule) && isAlertRuleScope(row.scope) && ruleAppliesTo(row, target))
+    .sort(
+      (a, b) =>
+        SCOPE_RANK[a.scope as AlertRuleScope] - SCOPE_RANK[b.scope as AlertRuleScope] ||
+        (a.scope_id ?? '').localeCompare(b.scope_id ?? ''),
+    );
+
+  for (const row of applicable) {
+    const name = row.rule as RuleName;
+    const current = config.rules[name];
+    config.rules[name] = {
+      ...current,
+      enabled: row.enabled == null ? current.enabled : row.enabled !== 0,
+      severity:
+        row.severity === 'minor' || row.severity === 'major' || row.severity === 'critical'
+          ? row.severity
+          : current.severity,
+      dwellSec: row.dwell_sec ?? current.dwellSec,
+      cooldownSec: row.cooldown_sec ?? current.cooldownSec,
+    };
+    Object.assign(config.thresholds, parseThresholds(name, row.thresholds_json));
+  }
+
+  return config;
+}
+
+const RULE_COLUMNS = 'id, rule, scope, scope_id, enabled, severity, dwell_sec, cooldown_sec, thresholds_json';
+
+export async function loadAlertTarget(env: Env, deviceId: string): Promise<AlertRuleTarget> {
+  const device = await env.DB.prepare(
+    `SELECT d.site_id, (SELECT group_concat(sc.client_id) FROM site_clients sc WHERE sc.site_id = d.site_id) AS client_ids
+       FROM devices d WHERE d.device_id=?`,
+  )
+    .bind(deviceId)
+    .first<{ site_id: string | null; client_ids: string | null }>()
+    .catch(() => null);
+  return {
+    deviceId,
+    siteId: device?.site_id ?? null,
+    clientIds: device?.client_ids ? device.client_ids.split(',') : [],
+  };
+}
+
+export async function loadAlertConfig(env: Env, target: AlertRuleTarget): Promise<EffectiveAlertConfig> {
+  const rows = await env.DB.prepare(
+    `SELECT ${RULE_COLUMNS} FROM alert_rules
+      WHERE scope='fleet'
+         OR (scope='device' AND scope_id=?)
+         OR (scope='site' AND scope_id=?)
+         OR scope='client'`,
+  )
+    .bind(target.deviceId, target.siteId)
+    .all<AlertRuleRow>()
+    .catch(() => null);
+
+  return resolveAlertConfig(rows?.results ?? [], target);
+}
+
+/**
+ * Bulk variant for fleet-wide sweeps: loads every rule and the site/client
+ * mapping once, then resolves per device without further queries.
+ */
+export async function loadAlertConfigResolver(
+  env: Env,
+): Promise<(deviceId: string, siteId: string | null) => EffectiveAlertConfig> {
+  const [rows, mappings] = await Promise.all([
+    env.DB.prepare(`SELECT ${RULE_COLUMNS} FROM alert_rules`)
+      .all<AlertRuleRow>()
+      .catch(() => null),
+    env.DB.prepare('SELECT client_id, site_id FROM site_clients')
+      .all<{ client_id: string; site_id: string }>()
+      .catch(() => null),
+  ]);
+  const ruleRows = rows?.results ?? [];
+  const clientsBySite = new Map<string, string[]>();
+  for (const row of mappings?.results ?? []) {
+    const list = clientsBySite.get(row.site_id) ?? [];
+    list.push(row.client_id);
+    clientsBySite.set(row.site_id, list);
+  }
+
+  return (deviceId, siteId) =>
+    ruleRows.length === 0
+      ? defaultAlertConfig()
+      : resolveAlertConfig(ruleRows, {
+          deviceId,
+          siteId,
+          clientIds: siteId ? clientsBySite.get(siteId) ?? [] : [],
+        });
+}
+
+export type AlertRuleInput = {
+  rule: RuleName;
+  scope: AlertRuleScope;
+  scopeId: string | null;
+  enabled: boolean | null;
+  severity: Severity | null;
+  dwellSec: number | null;
+  cooldownSec: number | null;
+  thresholds: Partial<AlertThresholds> | null;
+};
+
+/**
+ * Validates an admin payload. Returns a list of error strings rather than
+ * throwing so routes can hand them straight back in a 400 body.
+ */
+export function parseAlertRuleInput(
+  body: unknown,
+): { ok: true; value: AlertRuleInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const rule = typeof input.rule === 'string' ? input.rule : '';
+  if (!isRuleName(rule)) errors.push('rule is not a known alert rule');
+
+  const scope = typeof input.scope === 'string' ? input.scope : 'fleet';
+  if (!isAlertRuleScope(scope)) errors.push('scope must be fleet, client, site or device');
+
+  const scopeId = typeof input.scopeId === 'string' && input.scopeId.trim() ? input.scopeId.trim() : null;
+  if (scope !== 'fleet' && !scopeId) errors.push('scopeId is required for non-fleet scopes');
+
+  const optionalSeconds = (key: 'dwellSec' | 'cooldownSec'): number | null => {
+    const value = input[key];
+    if (value == null) return null;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      errors.push(`${key} must be a non-negative integer`);
+      return null;
+    }
+    return value;
+  };
+  const dwellSec = optionalSeconds('dwellSec');
+  const cooldownSec = optionalSeconds('cooldownSec');
+
+  let severity: Severity | null = null;
+  if (input.severity != null) {
+    if (input.severity === 'minor' || input.severity === 'major' || input.severity === 'critical') {
+      severity = input.severity;
+    } else {
+      errors.push('severity must be minor, major or critical');
+    }
+  }
+
+  let enabled: boolean | null = null;
+  if (input.enabled != null) {
+    if (typeof input.enabled === 'boolean') {
+      enabled = input.enabled;
+    } else {
+      errors.push('enabled must be a boolean');
+    }
+  }
+
+  let thresholds: Partial<AlertThresholds> | null = null;
+  if (input.thresholds != null) {
+    if (typeof input.thresholds !== 'object' || Array.isArray(input.thresholds)) {
+      errors.push('thresholds must be an object');
+    } else if (isRuleName(rule)) {
+      const allowed = RULE_THRESHOLD_KEYS[rule] as string[];
+      thresholds = {};
+      for (const [key, value] of Object.entries(input.thresholds as Record<string, unknown>)) {
+        if (!allowed.includes(key)) {
+          errors.push(`threshold ${key} does not apply to ${rule}`);
+        } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+          errors.push(`threshold ${key} must be a number`);
+        } else {
+          thresholds[key as keyof AlertThresholds] = value;
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      rule: rule as RuleName,
+      scope: scope as AlertRuleScope,
+      scopeId: scope === 'fleet' ? null : scopeId,
+      enabled,
+      severity,
+      dwellSec,
+      cooldownSec,
+      thresholds,
+    },
+  };
+}
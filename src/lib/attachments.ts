@@ -0,0 +1,96 @@
+import type { D1Database } from '../types/env';
+
+export type AttachmentKind = 'photo' | 'document';
+
+export type AttachmentRow = {
+  attachment_id: string;
+  session_id: string;
+  step_id: string | null;
+  kind: AttachmentKind;
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  r2_key: string;
+  thumb_key: string | null;
+  uploaded_by: string | null;
+  created_at: string;
+};
+
+export type ValidatedAttachment = { contentType: string; kind: AttachmentKind; filename: string };
+
+/** Only formats the commissioning PDF can embed: photos as images, documents as appended pages. */
+export const ATTACHMENT_TYPES: Record<string, AttachmentKind> = {
+  'image/jpeg': 'photo',
+  'image/png': 'photo',
+  'application/pdf': 'document',
+};
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_THUMBNAIL_BYTES = 128 * 1024;
+export const MAX_FILES_PER_UPLOAD = 10;
+// The PDF and provisioning ZIP hold every attachment in memory, so a session stays well under the Worker limit.
+export const MAX_SESSION_ATTACHMENTS = 50;
+export const MAX_SESSION_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  bytes.length >= signature.length && signature.every((value, index) => bytes[index] === value);
+
+/** Detects the file type from its leading bytes; the browser-supplied type is not trusted. */
+export function sniffContentType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf';
+  return null;
+}
+
+export function safeFilename(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const cleaned = base
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^[._]+/, '')
+    .slice(-100);
+  return cleaned || 'file';
+}
+
+export const attachmentKeys = (sessionId: string, attachmentId: string, filename: string) => {
+  const prefix = `commissioning/${sessionId}/attachments/${attachmentId}`;
+  return { key: `${prefix}/${filename}`, thumbKey: `${prefix}/thumb` };
+};
+
+export function validateAttachment(
+  file: { name: string; type: string; size: number },
+  bytes: Uint8Array,
+): { ok: true; value: ValidatedAttachment } | { ok: false; error: string } {
+  if (file.size === 0) {
+    return { ok: false, error: 'is empty' };
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return { ok: false, error: `is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB` };
+  }
+  const contentType = sniffContentType(bytes);
+  const kind = contentType ? ATTACHMENT_TYPES[contentType] : undefined;
+  if (!contentType || !kind) {
+    return { ok: false, error: 'must be a JPEG, PNG or PDF file' };
+  }
+  const declared = file.type.split(';')[0]?.trim().toLowerCase() ?? '';
+  if (declared && declared !== 'application/octet-stream' && declared !== contentType) {
+    return { ok: false, error: `is declared as ${declared} but contains ${contentType}` };
+  }
+  return { ok: true, value: { contentType, kind, filename: safeFilename(file.name) } };
+}
+
+/** Thumbnails are rendered by the uploading browser; accept small JPEG/PNG images only. */
+export function thumbnailContentType(bytes: Uint8Array): string | null {
+  if (bytes.length === 0 || bytes.length > MAX_THUMBNAIL_BYTES) return null;
+  const contentType = sniffContentType(bytes);
+  return contentType === 'image/jpeg' || contentType === 'image/png' ? contentType : null;
+}
+
+export async function loadSessionAttachments(DB: D1Database, sessionId: string): Promise<AttachmentRow[]> {
+  const rows = await DB.prepare(
+    'SELECT * FROM commissioning_attachments WHERE session_id=? ORDER BY created_at, attachment_id',
+  )
+    .bind(sessionId)
+    .all<AttachmentRow>();
+  return rows.results ?? [];
+}
@@ -0,0 +1,208 @@
+export type ChecklistStepType = 'manual' | 'photo' | 'reading' | 'auto';
+
+/** Pass thresholds of an auto-measured step; `null` leaves that metric unchecked. */
+export type AutoThresholds = {
+  delta_t_min: number | null;
+  flow_min_lpm: number | null;
+  cop_min: number | null;
+};
+
+export type ChecklistStep = {
+  id: string;
+  title: string;
+  type: ChecklistStepType;
+  required: boolean;
+  hint: string | null;
+  /** Numeric readings: unit label and the inclusive range that passes. */
+  unit?: string | null;
+  min?: number | null;
+  max?: number | null;
+  /** Auto-measured steps: median window in seconds and pass thresholds. */
+  window_s?: number;
+  thresholds?: AutoThresholds;
+};
+
+export type ChecklistInput = { name: string; steps: ChecklistStep[] };
+
+export type StepState = 'pending' | 'pass' | 'fail' | 'skip';
+
+export type WindowSampleSummary = {
+  count: number;
+  delta_t_med: number | null;
+  flow_lpm_med: number | null;
+  cop_med: number | null;
+};
+
+export const CHECKLIST_STEP_TYPES: ChecklistStepType[] = ['manual', 'photo', 'reading', 'auto'];
+export const STEP_STATES: StepState[] = ['pending', 'pass', 'fail', 'skip'];
+export const MAX_CHECKLIST_STEPS = 50;
+export const DEFAULT_AUTO_WINDOW_S = 90;
+
+const STEP_ID = /^[A-Za-z][A-Za-z0-9_]{0,63}$/;
+// Checklist ids are `<name>-v<version>`, so names stay URL-safe.
+const CHECKLIST_NAME = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+export const isStepState = (value: unknown): value is StepState => STEP_STATES.includes(value as StepState);
+
+export const checklistId = (name: string, version: number) => `${name}-v${version}`;
+
+function parseJson(value: string | null | undefined): unknown {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the `steps_json` of any checklist version. Versions written before steps were typed are plain
+ * `{id,title}` lists; their steps are manual and required unless `required_steps_json` lists a subset.
+ */
+export function readChecklistSteps(stepsJson: string | null | undefined, requiredJson?: string | null): ChecklistStep[] {
+  const raw = parseJson(stepsJson);
+  if (!Array.isArray(raw)) return [];
+  const required = parseJson(requiredJson);
+  const requiredIds = Array.isArray(required)
+    ? new Set(required.map((item) => (typeof item === 'string' ? item : item?.id)).filter(Boolean))
+    : null;
+  const steps: ChecklistStep[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object' || typeof item.id !== 'string') continue;
+    const type: ChecklistStepType = CHECKLIST_STEP_TYPES.includes(item.type) ? item.type : 'manual';
+    const step: ChecklistStep = {
+      id: item.id,
+      title: typeof item.title === 'string' ? item.title : item.id,
+      type,
+      required: requiredIds ? requiredIds.has(item.id) : item.required !== false,
+      hint: typeof item.hint === 'string' ? item.hint : null,
+    };
+    if (type === 'reading') {
+      step.unit = typeof item.unit === 'string' ? item.unit : null;
+      step.min = typeof item.min === 'number' ? item.min : null;
+      step.max = typeof item.max === 'number' ? item.max : null;
+    }
+    if (type === 'auto') {
+      step.window_s = typeof item.window_s === 'number' ? item.window_s : DEFAULT_AUTO_WINDOW_S;
+      const thresholds = item.thresholds && typeof item.thresholds === 'object' ? item.thresholds : {};
+      step.thresholds = {
+        delta_t_min: typeof thresholds.delta_t_min === 'number' ? thresholds.delta_t_min : null,
+        flow_min_lpm: typeof thresholds.flow_min_lpm === 'number' ? thresholds.flow_min_lpm : null,
+        cop_min: typeof thresholds.cop_min === 'number' ? thresholds.cop_min : null,
+      };
+    }
+    steps.push(step);
+  }
+  return steps;
+}
+
+/** Whether a checklist version declares step types, i.e. was written after untyped `{id,title}` lists. */
+export function hasTypedSteps(stepsJson: string | null | undefined): boolean {
+  const raw = parseJson(stepsJson);
+  return Array.isArray(raw) && raw.some((item) => item && typeof item === 'object' && typeof item.type === 'string');
+}
+
+export function parseChecklistInput(body: unknown): { ok: true; value: ChecklistInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = typeof input.name === 'string' ? input.name.trim().toLowerCase() : '';
+  if (!CHECKLIST_NAME.test(name)) {
+    errors.push('name must be lowercase letters, digits and dashes');
+  }
+
+  const steps: ChecklistStep[] = [];
+  if (!Array.isArray(input.steps) || input.steps.length === 0) {
+    errors.push('steps must be a non-empty array');
+  } else if (input.steps.length > MAX_CHECKLIST_STEPS) {
+    errors.push(`steps must have at most ${MAX_CHECKLIST_STEPS} entries`);
+  } else {
+    const seen = new Set<string>();
+    (input.steps as unknown[]).forEach((entry, index) => {
+      const raw = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+      const label = `steps[${index}]`;
+      const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+      if (!STEP_ID.test(id)) {
+        errors.push(`${label}.id must start with a letter and use letters, digits and underscores`);
+      } else if (seen.has(id)) {
+        errors.push(`${label}.id ${id} is used twice`);
+      }
+      seen.add(id);
+      const title = typeof raw.title === 'string' ? raw.title.trim().slice(0, 200) : '';
+      if (!title) errors.push(`${label}.title is required`);
+      const type = (raw.type ?? 'manual') as ChecklistStepType;
+      if (!CHECKLIST_STEP_TYPES.includes(type)) {
+        errors.push(`${label}.type must be one of ${CHECKLIST_STEP_TYPES.join(', ')}`);
+        return;
+      }
+      const optionalNumber = (value: unknown, key: string): number | null => {
+        if (value == null || value === '') return null;
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          errors.push(`${label}.${key} must be a finite number`);
+          return null;
+        }
+        return value;
+      };
+      const step: ChecklistStep = {
+        id,
+        title,
+        type,
+        required: raw.required !== false,
+        hint: typeof raw.hint === 'string' && raw.hint.trim() ? raw.hint.trim().slice(0, 500) : null,
+      };
+      if (type === 'reading') {
+        step.unit = typeof raw.unit === 'string' && raw.unit.trim() ? raw.unit.trim().slice(0, 20) : null;
+        step.min = optionalNumber(raw.min, 'min');
+        step.max = optionalNumber(raw.max, 'max');
+        if (step.min == null && step.max == null) {
+          errors.push(`${label} needs a min or a max`);
+        } else if (step.min != null && step.max != null && step.min > step.max) {
+          errors.push(`${label}.min must not exceed max`);
+        }
+      }
+      if (type === 'auto') {
+        const windowS = optionalNumber(raw.window_s, 'window_s') ?? DEFAULT_AUTO_WINDOW_S;
+        if (windowS < 10 || windowS > 300) errors.push(`${label}.window_s must be between 10 and 300`);
+        const thresholds = (raw.thresholds && typeof raw.thresholds === 'object' ? raw.thresholds : {}) as Record<
+          string,
+          unknown
+        >;
+        step.window_s = windowS;
+        step.thresholds = {
+          delta_t_min: optionalNumber(thresholds.delta_t_min, 'thresholds.delta_t_min'),
+          flow_min_lpm: optionalNumber(thresholds.flow_min_lpm, 'thresholds.flow_min_lpm'),
+          cop_min: optionalNumber(thresholds.cop_min, 'thresholds.cop_min'),
+        };
+        if (Object.values(step.thresholds).every((value) => value == null)) {
+          errors.push(`${label} needs at least one threshold`);
+        }
+      }
+      steps.push(step);
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: { name, steps } };
+}
+
+export function evaluateReading(step: Pick<ChecklistStep, 'min' | 'max'>, value: number): 'pass' | 'fail' {
+  if (step.min != null && value < step.min) return 'fail';
+  if (step.max != null && value > step.max) return 'fail';
+  return 'pass';
+}
+
+/** An auto-measured step passes when the window has samples and every configured median meets its threshold. */
+export function evaluateWindowSample(sample: WindowSampleSummary, thresholds: AutoThresholds): boolean {
+  if (sample.count === 0) return false;
+  const meets = (value: number | null, min: number | null) => min == null || (value != null && value >= min);
+  return (
+    meets(sample.delta_t_med, thresholds.delta_t_min) &&
+    meets(sample.flow_lpm_med, thresholds.flow_min_lpm) &&
+    meets(sample.cop_med, thresholds.cop_min)
+  );
+}
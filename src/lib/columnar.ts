@@ -0,0 +1,587 @@
+// Minimal Parquet and Arrow IPC writers for archive downloads. Worker-safe, no Node deps.
+// Both write a single row group / record batch with nullable columns and no compression.
+
+/** Columnar files are built in memory; larger extracts must use NDJSON or CSV. */
+export const MAX_COLUMNAR_ROWS = 250_000;
+
+export type ColumnType = 'double' | 'boolean' | 'timestamp' | 'string';
+export type ColumnSpec = { name: string; type: ColumnType };
+export type ColumnarRecord = Record<string, unknown>;
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/** Epoch milliseconds for ISO/SQLite timestamps; zoneless values are taken as UTC. */
+function parseTimestamp(value: string): number | null {
+  const match = ISO_TIMESTAMP.exec(value);
+  if (!match) return null;
+  const ms = Date.parse(value.replace(' ', 'T') + (match[1] ? '' : 'Z'));
+  return Number.isNaN(ms) ? null : ms;
+}
+
+function classify(value: unknown): ColumnType {
+  if (typeof value === 'number' && Number.isFinite(value)) return 'double';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'string' && parseTimestamp(value) !== null) return 'timestamp';
+  return 'string';
+}
+
+/**
+ * Column schema for a set of NDJSON records: every column is nullable and takes the one type all
+ * its non-null values share, falling back to string. `projection` fixes the columns and their
+ * order (unknown names become all-null string columns); otherwise keys appear in first-seen order.
+ */
+export function inferColumns(records: ColumnarRecord[], projection?: string[]): ColumnSpec[] {
+  const names = projection?.length ? projection : Array.from(new Set(records.flatMap((record) => Object.keys(record))));
+  return names.map((name) => {
+    let type: ColumnType | null = null;
+    for (const record of records) {
+      const value = record[name];
+      if (value === null || value === undefined) continue;
+      const next = classify(value);
+      if (type === null) type = next;
+      else if (type !== next) return { name, type: 'string' };
+    }
+    return { name, type: type ?? 'string' };
+  });
+}
+
+export function parseNdjsonRecords(text: string): ColumnarRecord[] {
+  const records: ColumnarRecord[] = [];
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) records.push(parsed as ColumnarRecord);
+    } catch (error) {
+      console.warn('ndjson parse failed', error);
+    }
+  }
+  return records;
+}
+
+type ColumnValues =
+  | { type: 'double'; values: Array<number | null> }
+  | { type: 'boolean'; values: Array<boolean | null> }
+  | { type: 'timestamp'; values: Array<number | null> }
+  | { type: 'string'; values: Array<Uint8Array | null> };
+
+const encoder = new TextEncoder();
+
+function columnValues(column: ColumnSpec, records: ColumnarRecord[]): ColumnValues {
+  const raw = records.map((record) => record[column.name]);
+  switch (column.type) {
+    case 'double':
+      return { type: 'double', values: raw.map((value) => (typeof value === 'number' && Number.isFinite(value) ? value : null)) };
+    case 'boolean':
+      return { type: 'boolean', values: raw.map((value) => (typeof value === 'boolean' ? value : null)) };
+    case 'timestamp':
+      return { type: 'timestamp', values: raw.map((value) => (typeof value === 'string' ? parseTimestamp(value) : null)) };
+    default:
+      return {
+        type: 'string',
+        values: raw.map((value) =>
+          value === null || value === undefined
+            ? null
+            : encoder.encode(typeof value === 'string' ? value : JSON.stringify(value)),
+        ),
+      };
+  }
+}
+
+class ByteWriter {
+  private buf: Uint8Array<ArrayBuffer> = new Uint8Array(1024);
+  private view = new DataView(this.buf.buffer);
+  length = 0;
+
+  private reserve(n: number) {
+    if (this.length + n <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.length + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(v: number) {
+    this.reserve(1);
+    this.buf[this.length++] = v & 0xff;
+  }
+  u16(v: number) {
+    this.reserve(2);
+    this.view.setUint16(this.length, v, true);
+    this.length += 2;
+  }
+  i32(v: number) {
+    this.reserve(4);
+    this.view.setInt32(this.length, v, true);
+    this.length += 4;
+  }
+  i64(v: number) {
+    this.reserve(8);
+    this.view.setBigInt64(this.length, BigInt(Math.trunc(v)), true);
+    this.length += 8;
+  }
+  f64(v: number) {
+    this.reserve(8);
+    this.view.setFloat64(this.length, v, true);
+    this.length += 8;
+  }
+  bytes(data: Uint8Array) {
+    this.reserve(data.length);
+    this.buf.set(data, this.length);
+    this.length += data.length;
+  }
+  varint(v: number) {
+    let n = v;
+    while (n >= 0x80) {
+      this.u8((n % 0x80) | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    this.u8(n);
+  }
+  align(to: number) {
+    while (this.length % to !== 0) this.u8(0);
+  }
+  patchU32(at: number, v: number) {
+    this.view.setUint32(at, v, true);
+  }
+  result(): Uint8Array<ArrayBuffer> {
+    return this.buf.slice(0, this.length);
+  }
+}
+
+/** LSB-first bitmap, as used by Arrow validity/boolean buffers and Parquet PLAIN booleans. */
+function bitmap(flags: boolean[]): Uint8Array {
+  const out = new Uint8Array(Math.ceil(flags.length / 8));
+  flags.forEach((flag, index) => {
+    if (flag) out[index >> 3]! |= 1 << (index & 7);
+  });
+  return out;
+}
+
+// --- Parquet --------------------------------------------------------------------------------
+
+// Thrift compact protocol field types.
+const T_TRUE = 1;
+const T_FALSE = 2;
+const T_I32 = 5;
+const T_I64 = 6;
+const T_BINARY = 8;
+const T_LIST = 9;
+const T_STRUCT = 12;
+
+class CompactWriter {
+  private out = new ByteWriter();
+  private lastIds: number[] = [0];
+
+  private header(id: number, type: number) {
+    const last = this.lastIds[this.lastIds.length - 1]!;
+    const delta = id - last;
+    if (delta > 0 && delta <= 15) this.out.u8((delta << 4) | type);
+    else {
+      this.out.u8(type);
+      this.zigzag(id);
+    }
+    this.lastIds[this.lastIds.length - 1] = id;
+  }
+  private zigzag(v: number) {
+    this.out.varint(v >= 0 ? v * 2 : -v * 2 - 1);
+  }
+  i32(id: number, v: number) {
+    this.header(id, T_I32);
+    this.zigzag(v);
+  }
+  i64(id: number, v: number) {
+    this.header(id, T_I64);
+    this.zigzag(v);
+  }
+  bool(id: number, v: boolean) {
+    this.header(id, v ? T_TRUE : T_FALSE);
+  }
+  string(id: number, v: string) {
+    this.header(id, T_BINARY);
+    this.binary(v);
+  }
+  private binary(v: string) {
+    const data = encoder.encode(v);
+    this.out.varint(data.length);
+    this.out.bytes(data);
+  }
+  struct(id: number, body: () => void) {
+    this.header(id, T_STRUCT);
+    this.structBody(body);
+  }
+  private structBody(body: () => void) {
+    this.lastIds.push(0);
+    body();
+    this.out.u8(0);
+    this.lastIds.pop();
+  }
+  private listHeader(id: number, size: number, elemType: number) {
+    this.header(id, T_LIST);
+    if (size < 15) this.out.u8((size << 4) | elemType);
+    else {
+      this.out.u8(0xf0 | elemType);
+      this.out.varint(size);
+    }
+  }
+  i32List(id: number, values: number[]) {
+    this.listHeader(id, values.length, T_I32);
+    values.forEach((v) => this.zigzag(v));
+  }
+  stringList(id: number, values: string[]) {
+    this.listHeader(id, values.length, T_BINARY);
+    values.forEach((v) => this.binary(v));
+  }
+  structList<T>(id: number, items: T[], body: (item: T) => void) {
+    this.listHeader(id, items.length, T_STRUCT);
+    items.forEach((item) => this.structBody(() => body(item)));
+  }
+  /** Closes the top-level struct. */
+  finish(): Uint8Array<ArrayBuffer> {
+    this.out.u8(0);
+    return this.out.result();
+  }
+}
+
+const PARQUET_TYPE = { boolean: 0, timestamp: 2, double: 5, string: 6 } as const;
+const CONVERTED_UTF8 = 0;
+const CONVERTED_TIMESTAMP_MILLIS = 9;
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const REPETITION_OPTIONAL = 1;
+
+/** Definition levels (max level 1) as a single bit-packed run of the RLE/bit-packing hybrid. */
+function definitionLevels(present: boolean[]): Uint8Array {
+  const run = new ByteWriter();
+  run.varint(Math.ceil(present.length / 8) * 2 + 1);
+  run.bytes(bitmap(present));
+  const body = run.result();
+  const out = new ByteWriter();
+  out.i32(body.length);
+  out.bytes(body);
+  return out.result();
+}
+
+function parquetPage(column: ColumnValues): Uint8Array {
+  const page = new ByteWriter();
+  const present = column.values.map((value) => value !== null);
+  page.bytes(definitionLevels(present));
+  switch (column.type) {
+    case 'double':
+      column.values.forEach((value) => value !== null && page.f64(value));
+      break;
+    case 'timestamp':
+      column.values.forEach((value) => value !== null && page.i64(value));
+      break;
+    case 'boolean':
+      page.bytes(bitmap(column.values.filter((value): value is boolean => value !== null)));
+      break;
+    case 'string':
+      column.values.forEach((value) => {
+        if (value === null) return;
+        page.i32(value.length);
+        page.bytes(value);
+      });
+      break;
+  }
+  return page.result();
+}
+
+/**
+ * Parquet file with one row group and one PLAIN, uncompressed data page per column. Timestamps
+ * are INT64 milliseconds annotated as UTC, strings are UTF-8 BYTE_ARRAYs.
+ */
+export function encodeParquet(columns: ColumnSpec[], records: ColumnarRecord[]): Uint8Array<ArrayBuffer> {
+  const file = new ByteWriter();
+  file.bytes(encoder.encode('PAR1'));
+  const chunks = columns.map((column) => {
+    const values = columnValues(column, records);
+    const body = parquetPage(values);
+    const header = new CompactWriter();
+    header.i32(1, 0); // DATA_PAGE
+    header.i32(2, body.length);
+    header.i32(3, body.length);
+    header.struct(5, () => {
+      header.i32(1, records.length);
+      header.i32(2, ENCODING_PLAIN);
+      header.i32(3, ENCODING_RLE);
+      header.i32(4, ENCODING_RLE);
+    });
+    const headerBytes = header.finish();
+    const offset = file.length;
+    file.bytes(headerBytes);
+    file.bytes(body);
+    return { column, offset, size: headerBytes.length + body.length };
+  });
+
+  const meta = new CompactWriter();
+  meta.i32(1, 1);
+  meta.structList(2, [null, ...columns], (column) => {
+    if (column === null) {
+      meta.string(4, 'schema');
+      meta.i32(5, columns.length);
+      return;
+    }
+    meta.i32(1, PARQUET_TYPE[column.type]);
+    meta.i32(3, REPETITION_OPTIONAL);
+    meta.string(4, column.name);
+    if (column.type === 'string') {
+      meta.i32(6, CONVERTED_UTF8);
+      meta.struct(10, () => meta.struct(1, () => undefined));
+    } else if (column.type === 'timestamp') {
+      meta.i32(6, CONVERTED_TIMESTAMP_MILLIS);
+      meta.struct(10, () =>
+        meta.struct(8, () => {
+          meta.bool(1, true);
+          meta.struct(2, () => meta.struct(1, () => undefined));
+        }),
+      );
+    }
+  });
+  meta.i64(3, records.length);
+  meta.structList(4, records.length ? [chunks] : [], (group) => {
+    meta.structList(1, group, (chunk) => {
+      meta.i64(2, chunk.offset);
+      meta.struct(3, () => {
+        meta.i32(1, PARQUET_TYPE[chunk.column.type]);
+        meta.i32List(2, [ENCODING_PLAIN, ENCODING_RLE]);
+        meta.stringList(3, [chunk.column.name]);
+        meta.i32(4, 0); // UNCOMPRESSED
+        meta.i64(5, records.length);
+        meta.i64(6, chunk.size);
+        meta.i64(7, chunk.size);
+        meta.i64(9, chunk.offset);
+      });
+    });
+    meta.i64(2, group.reduce((total, chunk) => total + chunk.size, 0));
+    meta.i64(3, records.length);
+  });
+  meta.string(6, 'greenbro archive export');
+  const footer = meta.finish();
+  file.bytes(footer);
+  file.i32(footer.length);
+  file.bytes(encoder.encode('PAR1'));
+  return file.result();
+}
+
+// --- Arrow IPC ------------------------------------------------------------------------------
+
+/** A flatbuffer table field: inline scalar, or an offset to a child written after the table. */
+type FbField =
+  | { kind: 'u8' | 'i16' | 'bool'; value: number }
+  | { kind: 'i64'; value: number }
+  | { kind: 'table'; value: FbTable }
+  | { kind: 'string'; value: string }
+  | { kind: 'tables'; value: FbTable[] }
+  | { kind: 'structs'; value: Uint8Array; align: number; count: number };
+type FbTable = Array<FbField | null>;
+
+const u8 = (value: number): FbField => ({ kind: 'u8', value });
+const i16 = (value: number): FbField => ({ kind: 'i16', value });
+const i64 = (value: number): FbField => ({ kind: 'i64', value });
+const table = (value: FbTable): FbField => ({ kind: 'table', value });
+const tables = (value: FbTable[]): FbField => ({ kind: 'tables', value });
+
+const INLINE_SIZE = { u8: 1, bool: 1, i16: 2, i64: 8, table: 4, string: 4, tables: 4, structs: 4 } as const;
+
+/**
+ * Serialises a flatbuffer front to back: each table's vtable precedes it and every referenced
+ * child is written after the offset that points at it, so all uoffsets are positive.
+ */
+function encodeFlatbuffer(root: FbTable): Uint8Array {
+  const out = new ByteWriter();
+  out.i32(0);
+  const patchOffset = (at: number, target: number) => out.patchU32(at, target - at);
+
+  const writeTable = (fields: FbTable): number => {
+    const layout: Array<{ field: FbField; offset: number }> = [];
+    let size = 4;
+    const slots = fields.map((field) => {
+      if (!field) return 0;
+      const width = INLINE_SIZE[field.kind];
+      size = Math.ceil(size / width) * width;
+      layout.push({ field, offset: size });
+      const offset = size;
+      size += width;
+      return offset;
+    });
+    out.align(2);
+    const vtable = out.length;
+    out.u16(4 + slots.length * 2);
+    out.u16(size);
+    slots.forEach((slot) => out.u16(slot));
+    out.align(8);
+    const start = out.length;
+    out.i32(start - vtable);
+    for (const { field, offset } of layout) {
+      while (out.length < start + offset) out.u8(0);
+      if (field.kind === 'u8' || field.kind === 'bool') out.u8(field.value);
+      else if (field.kind === 'i16') out.u16(field.value);
+      else if (field.kind === 'i64') out.i64(field.value);
+      else out.i32(0);
+    }
+    while (out.length < start + size) out.u8(0);
+    for (const { field, offset } of layout) {
+      const at = start + offset;
+      if (field.kind === 'table') patchOffset(at, writeTable(field.value));
+      else if (field.kind === 'string') patchOffset(at, writeString(field.value));
+      else if (field.kind === 'tables') patchOffset(at, writeTables(field.value));
+      else if (field.kind === 'structs') patchOffset(at, writeStructs(field.value, field.count, field.align));
+    }
+    return start;
+  };
+  const writeString = (value: string): number => {
+    const data = encoder.encode(value);
+    out.align(4);
+    const at = out.length;
+    out.i32(data.length);
+    out.bytes(data);
+    out.u8(0);
+    return at;
+  };
+  const writeTables = (items: FbTable[]): number => {
+    out.align(4);
+    const at = out.length;
+    out.i32(items.length);
+    const slots = items.map(() => {
+      const slot = out.length;
+      out.i32(0);
+      return slot;
+    });
+    items.forEach((item, index) => patchOffset(slots[index]!, writeTable(item)));
+    return at;
+  };
+  const writeStructs = (data: Uint8Array, count: number, align: number): number => {
+    while ((out.length + 4) % align !== 0) out.u8(0);
+    const at = out.length;
+    out.i32(count);
+    out.bytes(data);
+    return at;
+  };
+
+  patchOffset(0, writeTable(root));
+  return out.result();
+}
+
+const ARROW_METADATA_V5 = 4;
+const ARROW_HEADER = { schema: 1, recordBatch: 3 } as const;
+const ARROW_TYPE = { double: 3, string: 5, boolean: 6, timestamp: 10 } as const;
+
+function arrowSchema(columns: ColumnSpec[]): FbTable {
+  const typeTable = (type: ColumnType): FbTable => {
+    if (type === 'double') return [i16(2)]; // FloatingPoint(DOUBLE)
+    if (type === 'timestamp') return [i16(1), { kind: 'string', value: 'UTC' }]; // Timestamp(MILLISECOND, UTC)
+    return []; // Utf8 / Bool carry no parameters
+  };
+  return [
+    i16(0), // little endian
+    tables(
+      columns.map((column) => [
+        { kind: 'string', value: column.name },
+        { kind: 'bool', value: 1 },
+        u8(ARROW_TYPE[column.type]),
+        table(typeTable(column.type)),
+        null,
+        tables([]),
+      ]),
+    ),
+  ];
+}
+
+function structBytes(rows: number[][]): Uint8Array {
+  const out = new ByteWriter();
+  rows.forEach((row) => row.forEach((value) => out.i64(value)));
+  return out.result();
+}
+
+/** Writes one encapsulated IPC message (continuation marker, length, metadata, body). */
+function writeMessage(file: ByteWriter, header: number, headerTable: FbTable, body: Uint8Array) {
+  const metadata = encodeFlatbuffer([i16(ARROW_METADATA_V5), u8(header), table(headerTable), i64(body.length)]);
+  const offset = file.length;
+  const padded = Math.ceil((metadata.length + 8) / 8) * 8 - 8;
+  file.i32(-1);
+  file.i32(padded);
+  file.bytes(metadata);
+  file.align(8);
+  file.bytes(body);
+  return { offset, metaDataLength: padded + 8, bodyLength: body.length };
+}
+
+/** Arrow IPC file (Feather v2) holding a single record batch; readable by pyarrow, pandas and DuckDB. */
+export function encodeArrowFile(columns: ColumnSpec[], records: ColumnarRecord[]): Uint8Array<ArrayBuffer> {
+  const file = new ByteWriter();
+  file.bytes(encoder.encode('ARROW1'));
+  file.align(8);
+  writeMessage(file, ARROW_HEADER.schema, arrowSchema(columns), new Uint8Array(0));
+
+  const body = new ByteWriter();
+  const nodes: number[][] = [];
+  const buffers: number[][] = [];
+  const pushBuffer = (data: Uint8Array) => {
+    buffers.push([body.length, data.length]);
+    body.bytes(data);
+    body.align(8);
+  };
+  for (const column of columns) {
+    const values = columnValues(column, records);
+    const present = values.values.map((value) => value !== null);
+    nodes.push([records.length, present.filter((flag) => !flag).length]);
+    pushBuffer(bitmap(present));
+    const data = new ByteWriter();
+    if (values.type === 'boolean') {
+      pushBuffer(bitmap(values.values.map((value) => value === true)));
+      continue;
+    }
+    if (values.type === 'string') {
+      let end = 0;
+      data.i32(0);
+      const chars = new ByteWriter();
+      for (const value of values.values) {
+        if (value) {
+          chars.bytes(value);
+          end += value.length;
+        }
+        data.i32(end);
+      }
+      pushBuffer(data.result());
+      pushBuffer(chars.result());
+      continue;
+    }
+    for (const value of values.values) {
+      if (values.type === 'double') data.f64(value ?? 0);
+      else data.i64(value ?? 0);
+    }
+    pushBuffer(data.result());
+  }
+  const batch = writeMessage(
+    file,
+    ARROW_HEADER.recordBatch,
+    [
+      i64(records.length),
+      { kind: 'structs', value: structBytes(nodes), align: 8, count: nodes.length },
+      { kind: 'structs', value: structBytes(buffers), align: 8, count: buffers.length },
+    ],
+    body.result(),
+  );
+  file.i32(-1);
+  file.i32(0);
+
+  const block = new ByteWriter();
+  block.i64(batch.offset);
+  block.i32(batch.metaDataLength);
+  block.i32(0);
+  block.i64(batch.bodyLength);
+  const footer = encodeFlatbuffer([
+    i16(ARROW_METADATA_V5),
+    table(arrowSchema(columns)),
+    { kind: 'structs', value: new Uint8Array(0), align: 8, count: 0 },
+    { kind: 'structs', value: block.result(), align: 8, count: 1 },
+  ]);
+  file.bytes(footer);
+  file.i32(footer.length);
+  file.bytes(encoder.encode('ARROW1'));
+  return file.result();
+}
@@ -0,0 +1,254 @@
+import type { Role } from '../types';
+
+/**
+ * Typed registry of device command kinds. Each kind lists its parameters, the roles allowed to
+ * issue it and the ranges values are clamped to. Commands travel to devices as flat JSON bodies:
+ * the original setpoint/mode writes keep their legacy `{ dhwSetC, mode }` shape (no `kind`) so
+ * existing firmware is unaffected, every other kind adds a `kind` discriminator next to its params.
+ */
+
+export type CommandParamValue = number | string | boolean;
+
+export type CommandBody = {
+  kind?: string;
+  dhwSetC?: number;
+  mode?: string;
+  [param: string]: CommandParamValue | undefined;
+};
+
+export type WriteLimits = { minC: number; maxC: number };
+
+export type CommandField =
+  | {
+      name: string;
+      type: 'number';
+      label: string;
+      required?: boolean;
+      unit?: string;
+      min: number;
+      max: number;
+      step: number;
+      integer?: boolean;
+      /** Clamp to the deployment's WRITE_MIN_C / WRITE_MAX_C instead of min/max. */
+      writeLimits?: boolean;
+    }
+  | { name: string; type: 'enum'; label: string; required?: boolean; options: readonly string[] }
+  | { name: string; type: 'boolean'; label: string; required?: boolean }
+  | { name: string; type: 'text'; label: string; required?: boolean; pattern: RegExp; maxLength: number };
+
+export type CommandKindSpec = {
+  kind: string;
+  label: string;
+  description: string;
+  roles: Role[];
+  fields: CommandField[];
+  /** At least one field must be set (for kinds where every field is optional). */
+  requireAny?: boolean;
+  /** Disruptive commands the UI asks the operator to confirm. */
+  confirm?: boolean;
+};
+
+export const LEGACY_COMMAND_KIND = 'setpoint';
+
+export const COMMAND_MODES = ['auto', 'heating', 'cooling', 'dhw', 'eco', 'away', 'holiday', 'off'] as const;
+
+export const COMMAND_KINDS: readonly CommandKindSpec[] = [
+  {
+    kind: LEGACY_COMMAND_KIND,
+    label: 'Setpoint & mode',
+    description: 'Domestic hot water setpoint and operating mode.',
+    roles: ['admin', 'ops'],
+    requireAny: true,
+    fields: [
+      { name: 'dhwSetC', type: 'number', label: 'DHW setpoint', unit: '°C', min: 0, max: 100, step: 0.5, writeLimits: true },
+      { name: 'mode', type: 'enum', label: 'Mode', options: COMMAND_MODES },
+    ],
+  },
+  {
+    kind: 'heating_curve_offset',
+    label: 'Heating curve offset',
+    description: 'Shift the weather-compensation curve up or down.',
+    roles: ['admin', 'ops'],
+    fields: [{ name: 'offsetK', type: 'number', label: 'Offset', unit: 'K', required: true, min: -5, max: 5, step: 0.5 }],
+  },
+  {
+    kind: 'legionella_cycle',
+    label: 'Legionella cycle',
+    description: 'Start a thermal disinfection cycle now.',
+    roles: ['admin', 'ops'],
+    fields: [{ name: 'targetC', type: 'number', label: 'Target', unit: '°C', min: 60, max: 70, step: 1 }],
+  },
+  {
+    kind: 'fault_reset',
+    label: 'Fault reset',
+    description: 'Clear latched controller faults.',
+    roles: ['admin', 'ops'],
+    fields: [],
+    confirm: true,
+  },
+  {
+    kind: 'compressor_min_off',
+    label: 'Compressor min-off time',
+    description: 'Minimum rest between compressor starts.',
+    roles: ['admin'],
+    fields: [
+      { name: 'minutes', type: 'number', label: 'Min-off', unit: 'min', required: true, min: 3, max: 30, step: 1, integer: true },
+    ],
+  },
+  {
+    kind: 'reboot',
+    label: 'Reboot controller',
+    description: 'Restart the controller. Telemetry pauses until it reconnects.',
+    roles: ['admin'],
+    fields: [],
+    confirm: true,
+  },
+  {
+    kind: 'firmware_param',
+    label: 'Firmware parameter',
+    description: 'Write a raw controller parameter.',
+    roles: ['admin'],
+    confirm: true,
+    fields: [
+      { name: 'key', type: 'text', label: 'Parameter', required: true, pattern: /^[a-z][a-z0-9_.]{0,63}$/, maxLength: 64 },
+      { name: 'value', type: 'text', label: 'Value', required: true, pattern: /^[\x20-\x7e]*$/, maxLength: 64 },
+    ],
+  },
+];
+
+const KINDS_BY_NAME = new Map(COMMAND_KINDS.map((spec) => [spec.kind, spec]));
+
+export function getCommandKind(kind: string): CommandKindSpec | undefined {
+  return KINDS_BY_NAME.get(kind);
+}
+
+export function commandKindOf(body: CommandBody): string {
+  return typeof body.kind === 'string' && body.kind ? body.kind : LEGACY_COMMAND_KIND;
+}
+
+export const isCommandMode = (value: unknown): value is string =>
+  typeof value === 'string' && (COMMAND_MODES as readonly string[]).includes(value);
+
+export function canIssueCommand(roles: Role[], kind: CommandKindSpec): boolean {
+  return roles.some((role) => kind.roles.includes(role));
+}
+
+function parseField(field: CommandField, raw: unknown, errors: string[]): CommandParamValue | undefined {
+  if (raw === undefined || raw === null || raw === '') {
+    if (field.required) errors.push(`${field.name} is required`);
+    return undefined;
+  }
+  switch (field.type) {
+    case 'number': {
+      const value = typeof raw === 'string' && raw.trim() ? Number(raw) : raw;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${field.name} must be a number`);
+        return undefined;
+      }
+      if (field.integer && !Number.isInteger(value)) {
+        errors.push(`${field.name} must be a whole number`);
+        return undefined;
+      }
+      return value;
+    }
+    case 'enum':
+      if (typeof raw === 'string' && field.options.includes(raw)) return raw;
+      errors.push(`${field.name} must be one of ${field.options.join(', ')}`);
+      return undefined;
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw;
+      errors.push(`${field.name} must be true or false`);
+      return undefined;
+    case 'text': {
+      const value = typeof raw === 'number' ? String(raw) : raw;
+      if (typeof value === 'string' && value.length <= field.maxLength && field.pattern.test(value)) return value;
+      errors.push(`${field.name} is not a valid ${field.label.toLowerCase()}`);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Validates an operator command against the registry. Unknown parameters are rejected so typos
+ * never reach a controller; numeric ranges are left to {@link clampCommandBody}.
+ */
+export function parseCommandInput(
+  raw: unknown,
+): { ok: true; value: CommandBody; spec: CommandKindSpec } | { ok: false; errors: string[] } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, errors: ['command body must be an object'] };
+  }
+  const input = raw as Record<string, unknown>;
+  if (input.kind !== undefined && typeof input.kind !== 'string') {
+    return { ok: false, errors: ['kind must be a string'] };
+  }
+  const kind = commandKindOf(input as CommandBody);
+  const spec = getCommandKind(kind);
+  if (!spec) {
+    return { ok: false, errors: [`unknown command kind: ${kind}`] };
+  }
+
+  const errors: string[] = [];
+  const value: CommandBody = kind === LEGACY_COMMAND_KIND ? {} : { kind };
+  const known = new Set(spec.fields.map((field) => field.name));
+  for (const key of Object.keys(input)) {
+    if (key !== 'kind' && !known.has(key)) errors.push(`${key} is not a parameter of ${kind}`);
+  }
+  for (const field of spec.fields) {
+    const parsed = parseField(field, input[field.name], errors);
+    if (parsed !== undefined) value[field.name] = parsed;
+  }
+  if (spec.requireAny && spec.fields.every((field) => value[field.name] === undefined)) {
+    errors.push(`${kind} must set ${spec.fields.map((field) => field.name).join(' or ')}`);
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value, spec };
+}
+
+function fieldRange(field: Extract<CommandField, { type: 'number' }>, limits: WriteLimits) {
+  return field.writeLimits ? { min: limits.minC, max: limits.maxC } : { min: field.min, max: field.max };
+}
+
+/**
+ * Clamps numeric parameters to their registry range (setpoints to the deployment write limits).
+ * Bodies of kinds this build does not know are passed through untouched.
+ */
+export function clampCommandBody(command: CommandBody, limits: WriteLimits) {
+  const applied: CommandBody = { ...command };
+  let clamped: Partial<CommandBody> | null = null;
+  const spec = getCommandKind(commandKindOf(command));
+  for (const field of spec?.fields ?? []) {
+    const value = command[field.name];
+    if (field.type !== 'number' || typeof value !== 'number' || !Number.isFinite(value)) continue;
+    const { min, max } = fieldRange(field, limits);
+    const bounded = Math.min(Math.max(value, min), max);
+    if (bounded !== value) {
+      clamped = { ...(clamped ?? {}), [field.name]: bounded };
+    }
+    applied[field.name] = bounded;
+  }
+  return { applied, clamped };
+}
+
+/** Registry as served to the UI: only kinds the caller may issue, with live setpoint limits. */
+export function describeCommandKinds(roles: Role[], limits: WriteLimits) {
+  return COMMAND_KINDS.filter((spec) => canIssueCommand(roles, spec)).map((spec) => ({
+    kind: spec.kind,
+    label: spec.label,
+    description: spec.description,
+    confirm: spec.confirm ?? false,
+    requireAny: spec.requireAny ?? false,
+    fields: spec.fields.map((field) => {
+      switch (field.type) {
+        case 'number': {
+          const { min, max } = fieldRange(field, limits);
+          const { writeLimits: _writeLimits, ...rest } = field;
+          return { ...rest, min, max };
+        }
+        case 'text':
+          return { ...field, pattern: field.pattern.source };
+        default:
+          return field;
+      }
+    }),
+  }));
+}
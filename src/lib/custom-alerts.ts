@@ -0,0 +1,267 @@
+import type { Env } from '../types/env';
+import type { TelemetryPayload } from '../types';
+import type { Derived } from '../alerts';
+import {
+  isAlertRuleScope,
+  loadAlertTarget,
+  ruleAppliesTo,
+  type AlertRuleScope,
+  type AlertRuleTarget,
+  type Severity,
+} from './alert-rules';
+import { compileExpression, type CompiledExpression, type ExprContext } from './expr';
+
+export type CustomAlertRuleRow = {
+  id: string;
+  name: string;
+  expression: string;
+  severity: string;
+  dwell_sec: number;
+  cooldown_sec: number;
+  scope: string;
+  scope_id: string | null;
+  enabled: number;
+};
+
+export type CustomAlertRule = {
+  id: string;
+  name: string;
+  severity: Severity;
+  dwellSec: number;
+  cooldownSec: number;
+  expr: CompiledExpression;
+};
+
+// Alert type written to `alerts.type`, `alert_state.rule` and `alert_snoozes.type`.
+export const customAlertType = (ruleId: string) => `custom:${ruleId}`;
+
+const asSeverity = (value: string): Severity =>
+  value === 'minor' || value === 'major' || value === 'critical' ? value : 'major';
+
+export async function loadCustomAlertRules(env: Env, target: AlertRuleTarget): Promise<CustomAlertRule[]> {
+  const rows = await env.DB.prepare(
+    `SELECT id, name, expression, severity, dwell_sec, cooldown_sec, scope, scope_id, enabled
+       FROM custom_alert_rules
+      WHERE enabled=1`,
+  )
+    .all<CustomAlertRuleRow>()
+    .catch(() => null);
+
+  const rules: CustomAlertRule[] = [];
+  for (const row of rows?.results ?? []) {
+    if (!ruleAppliesTo(row, target)) continue;
+    const compiled = compileExpression(row.expression);
+    if (!compiled.ok) {
+      console.warn('custom alert rule failed to compile', row.id, compiled.error);
+      continue;
+    }
+    rules.push({
+      id: row.id,
+      name: row.name,
+      severity: asSeverity(row.severity),
+      dwellSec: row.dwell_sec,
+      cooldownSec: row.cooldown_sec,
+      expr: compiled.expr,
+    });
+  }
+  return rules;
+}
+
+/**
+ * Telemetry only evaluates enabled rules in scope, so a rule that is disabled, deleted or re-scoped would leave its
+ * alerts open forever. Closes them, or with `stillApplies` only those on devices the rule no longer covers, and
+ * drops their dwell/cooldown state so the rule starts clean if it comes back.
+ */
+export async function closeCustomRuleAlerts(
+  env: Env,
+  ruleId: string,
+  tsISO: string,
+  stillApplies?: (target: AlertRuleTarget) => boolean,
+): Promise<number> {
+  const type = customAlertType(ruleId);
+  const open = await env.DB.prepare("SELECT alert_id, device_id FROM alerts WHERE type=? AND state IN ('open','ack')")
+    .bind(type)
+    .all<{ alert_id: string; device_id: string }>();
+
+  let closed = 0;
+  for (const row of open.results ?? []) {
+    if (stillApplies?.(await loadAlertTarget(env, row.device_id))) continue;
+    await env.DB.prepare("UPDATE alerts SET state='closed', closed_at=? WHERE alert_id=? AND state IN ('open','ack')")
+      .bind(tsISO, row.alert_id)
+      .run();
+    await env.DB.prepare('DELETE FROM alert_state WHERE device_id=? AND rule=?').bind(row.device_id, type).run();
+    closed += 1;
+  }
+  if (!stillApplies) {
+    await env.DB.prepare('DELETE FROM alert_state WHERE rule=?').bind(type).run();
+  }
+  return closed;
+}
+
+export type CustomAlertRuleInput = {
+  name: string;
+  expression: string;
+  severity: Severity;
+  dwellSec: number;
+  cooldownSec: number;
+  scope: AlertRuleScope;
+  scopeId: string | null;
+  enabled: boolean;
+};
+
+export function parseCustomAlertRuleInput(
+  body: unknown,
+): { ok: true; value: CustomAlertRuleInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = typeof input.name === 'string' ? input.name.trim().slice(0, 120) : '';
+  if (!name) errors.push('name is required');
+
+  const expression = typeof input.expression === 'string' ? input.expression : '';
+  const compiled = compileExpression(expression);
+  if (!compiled.ok) errors.push(`expression: ${compiled.error}`);
+
+  const severity = input.severity ?? 'major';
+  if (severity !== 'minor' && severity !== 'major' && severity !== 'critical') {
+    errors.push('severity must be minor, major or critical');
+  }
+
+  const seconds = (key: 'dwellSec' | 'cooldownSec', fallback: number): number => {
+    const value = input[key];
+    if (value == null) return fallback;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      errors.push(`${key} must be a non-negative integer`);
+      return fallback;
+    }
+    return value;
+  };
+  const dwellSec = seconds('dwellSec', 0);
+  const cooldownSec = seconds('cooldownSec', 900);
+
+  const scope = typeof input.scope === 'string' ? input.scope : 'fleet';
+  if (!isAlertRuleScope(scope)) errors.push('scope must be fleet, client, site or device');
+  const scopeId = typeof input.scopeId === 'string' && input.scopeId.trim() ? input.scopeId.trim() : null;
+  if (scope !== 'fleet' && !scopeId) errors.push('scopeId is required for non-fleet scopes');
+
+  if (input.enabled != null && typeof input.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      name,
+      expression: expression.trim(),
+      severity: severity as Severity,
+      dwellSec,
+      cooldownSec,
+      scope: scope as AlertRuleScope,
+      scopeId: scope === 'fleet' ? null : scopeId,
+      enabled: input.enabled !== false,
+    },
+  };
+}
+
+export type DryRunSample = {
+  ts: string;
+  metrics: TelemetryPayload['metrics'];
+  status?: TelemetryPayload['status'];
+  faults?: TelemetryPayload['faults'];
+  derived: Derived;
+};
+
+export type DryRunResult = {
+  samples: number;
+  matches: number;
+  alerts: Array<{ openedAt: string; closedAt: string | null }>;
+};
+
+/**
+ * Replays samples (oldest first) through the same dwell/cooldown semantics as
+ * `maybeOpen`/`maybeClose` without touching alert state. Snoozes and
+ * maintenance windows are ignored so the result reflects the expression alone.
+ */
+export function simulateCustomAlert(
+  expr: CompiledExpression,
+  samples: DryRunSample[],
+  dwellSec: number,
+  cooldownSec: number,
+): DryRunResult {
+  let matches = 0;
+  let dwellStart: number | null = null;
+  let cooldownUntil = 0;
+  let open: { openedAt: string; closedAt: string | null } | null = null;
+  const alerts: DryRunResult['alerts'] = [];
+
+  for (const sample of samples) {
+    const now = Date.parse(sample.ts);
+    const ctx: ExprContext = {
+      metrics: sample.metrics,
+      status: sample.status,
+      faults: sample.faults,
+      derived: sample.derived,
+    };
+
+    if (expr.test(ctx)) {
+      matches += 1;
+      if (open || cooldownUntil > now) continue;
+      dwellStart ??= now;
+      if ((now - dwellStart) / 1000 >= dwellSec) {
+        open = { openedAt: sample.ts, closedAt: null };
+        alerts.push(open);
+      }
+    } else {
+      dwellStart = null;
+      if (open) {
+        open.closedAt = sample.ts;
+        open = null;
+        cooldownUntil = now + cooldownSec * 1000;
+      }
+    }
+  }
+
+  return { samples: samples.length, matches, alerts };
+}
+
+export type TelemetryRow = {
+  ts: string;
+  metrics_json: string | null;
+  status_json: string | null;
+  faults_json: string | null;
+  deltaT: number | null;
+  thermalKW: number | null;
+  cop: number | null;
+  cop_quality: string | null;
+};
+
+const parseJson = <T>(json: string | null): T | undefined => {
+  if (!json) return undefined;
+  try {
+    return JSON.parse(json) as T;
+  } catch {
+    return undefined;
+  }
+};
+
+export function telemetryRowToSample(row: TelemetryRow): DryRunSample {
+  return {
+    ts: row.ts,
+    metrics: parseJson<TelemetryPayload['metrics']>(row.metrics_json) ?? {},
+    status: parseJson<TelemetryPayload['status']>(row.status_json),
+    faults: parseJson<TelemetryPayload['faults']>(row.faults_json),
+    derived: {
+      deltaT: row.deltaT,
+      thermalKW: row.thermalKW,
+      cop: row.cop,
+      copQuality: row.cop_quality === 'measured' || row.cop_quality === 'estimated' ? row.cop_quality : null,
+    },
+  };
+}
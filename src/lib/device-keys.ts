@@ -0,0 +1,351 @@
+import type { D1Database } from '../types/env';
+
+export type DeviceKeyRow = {
+  id: string;
+  device_id: string;
+  key_hash: string;
+  label: string | null;
+  created_by: string | null;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+};
+
+/** `expiring` keys were superseded by a rotation and stay valid until `expiresAt`. */
+export type DeviceKeyStatus = 'active' | 'expiring' | 'expired' | 'revoked';
+
+export type DeviceKey = {
+  id: string;
+  deviceId: string;
+  label: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  status: DeviceKeyStatus;
+};
+
+export type ProvisioningRow = {
+  deviceId: string;
+  profileId: string;
+  siteId: string | null;
+  manufacturer: string | null;
+  model: string | null;
+};
+
+/** A freshly minted key; `key` is the plaintext and is never stored or returned again. */
+export type MintedDeviceKey = { deviceId: string; keyId: string; key: string };
+
+export const MAX_PROVISIONING_ROWS = 200;
+export const DEFAULT_ROTATION_GRACE_HOURS = 24;
+export const MAX_ROTATION_GRACE_HOURS = 24 * 30;
+
+const USAGE_REFRESH_MS = 60_000;
+const LEGACY_KEY_LABEL = 'Provisioned before key tracking';
+const PROVISIONING_COLUMNS = ['device_id', 'profile_id', 'site_id', 'manufacturer', 'model'];
+
+export const DEVICE_KEY_COLUMNS =
+  'id, device_id, key_hash, label, created_by, created_at, expires_at, revoked_at, revoked_by, last_used_at, last_used_ip';
+
+// Device ids end up in MQTT topics, R2 keys and URLs, so they are restricted to URL-safe characters.
+export const isValidDeviceId = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Za-z0-9][A-Za-z0-9_.:-]{0,63}$/.test(value);
+
+/** Batch ids end up in R2 object keys, so only URL- and path-safe characters are accepted. */
+export const isValidBatchId = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(value);
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/** 64 hex characters, the same shape `scripts/device-provision.mjs` generates. */
+export function generateDeviceKey(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes);
+}
+
+export async function hashDeviceKey(key: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key))));
+}
+
+function timingSafeEqualHex(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export function deviceKeyStatus(row: Pick<DeviceKeyRow, 'expires_at' | 'revoked_at'>, now = Date.now()): DeviceKeyStatus {
+  if (row.revoked_at) return 'revoked';
+  if (!row.expires_at) return 'active';
+  return Date.parse(row.expires_at) > now ? 'expiring' : 'expired';
+}
+
+export function toDeviceKey(row: DeviceKeyRow, now = Date.now()): DeviceKey {
+  return {
+    id: row.id,
+    deviceId: row.device_id,
+    label: row.label,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    revokedBy: row.revoked_by,
+    lastUsedAt: row.last_used_at,
+    lastUsedIp: row.last_used_ip,
+    status: deviceKeyStatus(row, now),
+  };
+}
+
+async function recordKeyUsage(DB: D1Database, row: DeviceKeyRow, ip: string | null, now: number) {
+  const clientIp = ip?.trim() || 'unknown';
+  const last = row.last_used_at ? Date.parse(row.last_used_at) : Number.NaN;
+  if (row.last_used_ip === clientIp && now - last < USAGE_REFRESH_MS) {
+    return;
+  }
+  const ts = new Date(now).toISOString();
+  try {
+    await DB.batch([
+      DB.prepare('UPDATE device_keys SET last_used_at=?, last_used_ip=? WHERE id=?').bind(ts, clientIp, row.id),
+      DB.prepare(
+        `INSERT INTO device_key_usage (key_id, ip, first_seen_at, last_seen_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT(key_id, ip) DO UPDATE SET last_seen_at=excluded.last_seen_at`,
+      ).bind(row.id, clientIp, ts, ts),
+    ]);
+  } catch {
+    // Usage tracking is best effort and must never reject an authenticated device.
+  }
+}
+
+/**
+ * Checks a device key against the device's usable keys (active, or superseded but inside the rotation
+ * grace period) and records the use. Devices without tracked keys fall back to `devices.key_hash`.
+ */
+export async function verifyDeviceKey(
+  DB: D1Database,
+  deviceId: string,
+  key: string | null | undefined,
+  ip?: string | null,
+): Promise<boolean> {
+  if (!key) return false;
+  const digest = await hashDeviceKey(key);
+  const keys = await DB.prepare(`SELECT ${DEVICE_KEY_COLUMNS} FROM device_keys WHERE device_id=?`)
+    .bind(deviceId)
+    .all<DeviceKeyRow>();
+  const rows = keys.results ?? [];
+  if (rows.length === 0) {
+    const row = await DB.prepare('SELECT key_hash FROM devices WHERE device_id=?')
+      .bind(deviceId)
+      .first<{ key_hash?: string | null }>();
+    return !!row?.key_hash && timingSafeEqualHex(digest, row.key_hash.toLowerCase());
+  }
+  const now = Date.now();
+  const match = rows.find((row) => {
+    const status = deviceKeyStatus(row, now);
+    return (status === 'active' || status === 'expiring') && timingSafeEqualHex(digest, row.key_hash.toLowerCase());
+  });
+  if (!match) return false;
+  await recordKeyUsage(DB, match, ip ?? null, now);
+  return true;
+}
+
+async function mintKey(DB: D1Database, deviceId: string, actor: string | null, label: string | null, createdAt: string) {
+  const key = generateDeviceKey();
+  const hash = await hashDeviceKey(key);
+  const keyId = crypto.randomUUID();
+  const insert = DB.prepare(
+    'INSERT INTO device_keys (id, device_id, key_hash, label, created_by, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+  ).bind(keyId, deviceId, hash, label, actor, createdAt);
+  return { minted: { deviceId, keyId, key } satisfies MintedDeviceKey, hash, insert };
+}
+
+/** Creates the devices and one key each in a single batch, so a failure leaves nothing half-provisioned. */
+export async function provisionDevices(
+  DB: D1Database,
+  rows: ProvisioningRow[],
+  actor: string | null,
+  now = new Date(),
+): Promise<MintedDeviceKey[]> {
+  const createdAt = now.toISOString();
+  const minted: MintedDeviceKey[] = [];
+  const statements: D1PreparedStatement[] = [];
+  for (const row of rows) {
+    const key = await mintKey(DB, row.deviceId, actor, 'Initial key', createdAt);
+    statements.push(
+      DB.prepare(
+        `INSERT INTO devices (device_id, profile_id, site_id, manufacturer, model, key_hash, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      ).bind(row.deviceId, row.profileId, row.siteId, row.manufacturer, row.model, key.hash, createdAt),
+      key.insert,
+    );
+    minted.push(key.minted);
+  }
+  if (statements.length) {
+    await DB.batch(statements);
+  }
+  return minted;
+}
+
+/**
+ * Mints a new key and limits every other usable key of the device to `graceHours` from now, so
+ * controllers can be re-flashed while the old key still works. A grace of 0 cuts the old keys off.
+ */
+export async function rotateDeviceKey(
+  DB: D1Database,
+  deviceId: string,
+  opts: { graceHours: number; actor: string | null; label?: string | null },
+  now = new Date(),
+): Promise<MintedDeviceKey & { previousExpiresAt: string }> {
+  const createdAt = now.toISOString();
+  const previousExpiresAt = new Date(now.getTime() + opts.graceHours * 3_600_000).toISOString();
+  const tracked = await DB.prepare('SELECT COUNT(*) AS n FROM device_keys WHERE device_id=?')
+    .bind(deviceId)
+    .first<{ n: number }>();
+  const statements: D1PreparedStatement[] = [];
+  if (!Number(tracked?.n ?? 0)) {
+    // Bring the untracked legacy key under management so the grace period applies to it too.
+    statements.push(
+      DB.prepare(
+        `INSERT OR IGNORE INTO device_keys (id, device_id, key_hash, label, created_at)
+         SELECT 'legacy-' || device_id, device_id, lower(key_hash), ?, created_at
+           FROM devices WHERE device_id=? AND key_hash <> ''`,
+      ).bind(LEGACY_KEY_LABEL, deviceId),
+    );
+  }
+  statements.push(
+    DB.prepare(
+      `UPDATE device_keys SET expires_at=?
+        WHERE device_id=? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)`,
+    ).bind(previousExpiresAt, deviceId, previousExpiresAt),
+  );
+  const key = await mintKey(DB, deviceId, opts.actor, opts.label ?? null, createdAt);
+  statements.push(key.insert, DB.prepare('UPDATE devices SET key_hash=? WHERE device_id=?').bind(key.hash, deviceId));
+  await DB.batch(statements);
+  return { ...key.minted, previousExpiresAt };
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i]!;
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Parses a provisioning CSV with a header row. `device_id` and `profile_id` are required columns;
+ * `site_id`, `manufacturer` and `model` are optional. Errors name the 1-based file line.
+ */
+export function parseProvisioningCsv(
+  text: unknown,
+): { ok: true; value: ProvisioningRow[] } | { ok: false; errors: string[] } {
+  if (typeof text !== 'string' || !text.trim()) {
+    return { ok: false, errors: ['csv must be a non-empty string'] };
+  }
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim());
+  const header = splitCsvLine(lines[headerIndex]!).map((cell) => cell.toLowerCase());
+  const errors: string[] = [];
+  for (const column of header) {
+    if (!PROVISIONING_COLUMNS.includes(column)) errors.push(`unknown column ${column || '(empty)'}`);
+  }
+  for (const column of ['device_id', 'profile_id']) {
+    if (!header.includes(column)) errors.push(`missing column ${column}`);
+  }
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+
+  const rows: ProvisioningRow[] = [];
+  const seen = new Map<string, number>();
+  for (let index = headerIndex + 1; index < lines.length; index += 1) {
+    const line = lines[index]!;
+    if (!line.trim()) continue;
+    const lineNo = index + 1;
+    const cells = splitCsvLine(line);
+    if (cells.length > header.length) {
+      errors.push(`line ${lineNo}: expected ${header.length} columns, got ${cells.length}`);
+      continue;
+    }
+    const cell = (column: string) => {
+      const value = cells[header.indexOf(column)];
+      return value ? value : null;
+    };
+    const deviceId = cell('device_id');
+    const profileId = cell('profile_id');
+    const siteId = cell('site_id');
+    if (!isValidDeviceId(deviceId)) {
+      errors.push(`line ${lineNo}: device_id must be 1-64 letters, digits, '.', '_', ':' or '-'`);
+    } else if (seen.has(deviceId)) {
+      errors.push(`line ${lineNo}: duplicate device_id ${deviceId} (first on line ${seen.get(deviceId)})`);
+    } else {
+      seen.set(deviceId, lineNo);
+    }
+    if (!profileId) errors.push(`line ${lineNo}: profile_id is required`);
+    if (siteId && siteId.length > 64) errors.push(`line ${lineNo}: site_id is too long`);
+    rows.push({
+      deviceId: deviceId ?? '',
+      profileId: profileId?.slice(0, 64) ?? '',
+      siteId,
+      manufacturer: cell('manufacturer')?.slice(0, 80) ?? null,
+      model: cell('model')?.slice(0, 80) ?? null,
+    });
+  }
+
+  if (!rows.length && !errors.length) errors.push('csv has no device rows');
+  if (rows.length > MAX_PROVISIONING_ROWS) errors.push(`at most ${MAX_PROVISIONING_ROWS} devices per batch`);
+  return errors.length ? { ok: false, errors } : { ok: true, value: rows };
+}
+
+/** Ids from the list that already exist, queried in chunks to stay under D1's bound-parameter limit. */
+export async function findExistingDevices(DB: D1Database, ids: string[]): Promise<string[]> {
+  const found: string[] = [];
+  for (let i = 0; i < ids.length; i += 90) {
+    const chunk = ids.slice(i, i + 90);
+    const rows = await DB.prepare(
+      `SELECT device_id FROM devices WHERE device_id IN (${chunk.map(() => '?').join(',')})`,
+    )
+      .bind(...chunk)
+      .all<{ device_id: string }>();
+    found.push(...(rows.results ?? []).map((row) => row.device_id));
+  }
+  return found;
+}
+
+export function parseGraceHours(value: unknown): number | null {
+  if (value == null) return DEFAULT_ROTATION_GRACE_HOURS;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_ROTATION_GRACE_HOURS) {
+    return null;
+  }
+  return value;
+}
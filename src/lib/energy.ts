@@ -0,0 +1,291 @@
+import type { D1Database } from '../types/env';
+import { getNum, getSetting } from './settings';
+
+export type EnergySample = {
+  ts: number;
+  powerKW: number | null;
+  thermalKW: number | null;
+};
+
+export type EnergyTotals = {
+  kwhElectric: number;
+  kwhThermal: number;
+  coveredSec: number;
+  samples: number;
+};
+
+export type EnergyReference = 'resistive' | 'gas';
+
+export type EnergySettings = {
+  reference: EnergyReference;
+  /** Efficiency of the appliance the heat pump displaces (1.0 for an element, ~0.9 for a gas boiler). */
+  referenceEfficiency: number;
+  gridKgCo2PerKwh: number;
+  gasKgCo2PerKwh: number;
+};
+
+export type EnergySummary = {
+  kwhElectric: number;
+  kwhThermal: number;
+  spf: number | null;
+  referenceKwh: number;
+  savingsKwh: number;
+  co2AvoidedKg: number;
+};
+
+export type EnergyDailyRow = {
+  device_id: string;
+  day: string;
+  kwh_electric: number;
+  kwh_thermal: number;
+  covered_sec: number;
+  samples: number;
+};
+
+/** Samples further apart than this are treated as a gap rather than integrated across. */
+export const MAX_INTEGRATION_GAP_SEC = 15 * 60;
+
+export const DEFAULT_ENERGY_SETTINGS: EnergySettings = {
+  reference: 'resistive',
+  referenceEfficiency: 1,
+  // Eskom-grid default; operators outside South Africa should override energy_grid_kg_co2_per_kwh.
+  gridKgCo2PerKwh: 0.95,
+  gasKgCo2PerKwh: 0.202,
+};
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function utcDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+const emptyTotals = (): EnergyTotals => ({ kwhElectric: 0, kwhThermal: 0, coveredSec: 0, samples: 0 });
+
+/**
+ * Walks consecutive samples and reports the energy of each interval using the trapezoid rule.
+ * A quantity missing at either end contributes nothing for that interval; negative readings are
+ * clamped to zero so sensor noise around standby cannot subtract energy.
+ */
+export function forEachEnergyInterval(
+  samples: EnergySample[],
+  visit: (startMs: number, endMs: number, kwhElectric: number, kwhThermal: number) => void,
+  maxGapSec = MAX_INTEGRATION_GAP_SEC,
+) {
+  for (let i = 1; i < samples.length; i += 1) {
+    const prev = samples[i - 1]!;
+    const next = samples[i]!;
+    const seconds = (next.ts - prev.ts) / 1000;
+    if (!(seconds > 0) || seconds > maxGapSec) continue;
+    const hours = seconds / 3600;
+    const trapezoid = (a: number | null, b: number | null) =>
+      a != null && b != null && Number.isFinite(a) && Number.isFinite(b)
+        ? ((Math.max(a, 0) + Math.max(b, 0)) / 2) * hours
+        : 0;
+    visit(prev.ts, next.ts, trapezoid(prev.powerKW, next.powerKW), trapezoid(prev.thermalKW, next.thermalKW));
+  }
+}
+
+/** Integrates samples into per-UTC-day totals. Intervals are attributed to the day they start in. */
+export function integrateEnergyByDay(samples: EnergySample[], maxGapSec = MAX_INTEGRATION_GAP_SEC) {
+  const days = new Map<string, EnergyTotals>();
+  const bucket = (ms: number) => {
+    const day = utcDay(ms);
+    let totals = days.get(day);
+    if (!totals) {
+      totals = emptyTotals();
+      days.set(day, totals);
+    }
+    return totals;
+  };
+  for (const sample of samples) {
+    bucket(sample.ts).samples += 1;
+  }
+  forEachEnergyInterval(
+    samples,
+    (startMs, endMs, kwhElectric, kwhThermal) => {
+      const totals = bucket(startMs);
+      totals.kwhElectric += kwhElectric;
+      totals.kwhThermal += kwhThermal;
+      totals.coveredSec += (endMs - startMs) / 1000;
+    },
+    maxGapSec,
+  );
+  return days;
+}
+
+export function summarizeEnergy(
+  totals: Pick<EnergyTotals, 'kwhElectric' | 'kwhThermal'>,
+  settings: EnergySettings,
+): EnergySummary {
+  const efficiency = settings.referenceEfficiency > 0 ? settings.referenceEfficiency : 1;
+  const referenceKwh = totals.kwhThermal / efficiency;
+  const referenceFactor = settings.reference === 'gas' ? settings.gasKgCo2PerKwh : settings.gridKgCo2PerKwh;
+  return {
+    kwhElectric: round3(totals.kwhElectric),
+    kwhThermal: round3(totals.kwhThermal),
+    spf: totals.kwhElectric > 0 ? Math.round((totals.kwhThermal / totals.kwhElectric) * 100) / 100 : null,
+    referenceKwh: round3(referenceKwh),
+    savingsKwh: round3(referenceKwh - totals.kwhElectric),
+    co2AvoidedKg: round3(referenceKwh * referenceFactor - totals.kwhElectric * settings.gridKgCo2PerKwh),
+  };
+}
+
+export async function loadEnergySettings(DB: D1Database): Promise<EnergySettings> {
+  const reference = (await getSetting(DB, 'energy_reference')) === 'gas' ? 'gas' : 'resistive';
+  return {
+    reference,
+    referenceEfficiency: await getNum(DB, 'energy_reference_efficiency', reference === 'gas' ? 0.9 : 1),
+    gridKgCo2PerKwh: await getNum(DB, 'energy_grid_kg_co2_per_kwh', DEFAULT_ENERGY_SETTINGS.gridKgCo2PerKwh),
+    gasKgCo2PerKwh: await getNum(DB, 'energy_gas_kg_co2_per_kwh', DEFAULT_ENERGY_SETTINGS.gasKgCo2PerKwh),
+  };
+}
+
+/** Loads power/thermal samples for one device, ordered by time. */
+export async function loadEnergySamples(
+  DB: D1Database,
+  deviceId: string,
+  startIso: string,
+  endIso: string,
+): Promise<EnergySample[]> {
+  const rows = await DB.prepare(
+    `SELECT ts, json_extract(metrics_json, '$.powerKW') AS power_kw, thermalKW AS thermal_kw
+       FROM telemetry
+      WHERE device_id = ? AND ts >= ? AND ts < ?
+      ORDER BY ts`,
+  )
+    .bind(deviceId, startIso, endIso)
+    .all<{ ts: string; power_kw: number | null; thermal_kw: number | null }>();
+  const samples: EnergySample[] = [];
+  for (const row of rows.results ?? []) {
+    const ts = Date.parse(row.ts);
+    if (Number.isNaN(ts)) continue;
+    samples.push({
+      ts,
+      powerKW: typeof row.power_kw === 'number' ? row.power_kw : null,
+      thermalKW: typeof row.thermal_kw === 'number' ? row.thermal_kw : null,
+    });
+  }
+  return samples;
+}
+
+/** Integrates the given UTC days for one device without persisting anything. */
+export async function computeDeviceEnergyDays(
+  DB: D1Database,
+  deviceId: string,
+  fromDay: string,
+  days: number,
+): Promise<EnergyDailyRow[]> {
+  const startMs = Date.parse(`${fromDay}T00:00:00Z`);
+  const endMs = startMs + days * DAY_MS;
+  const samples = await loadEnergySamples(DB, deviceId, new Date(startMs).toISOString(), new Date(endMs).toISOString());
+  const totals = integrateEnergyByDay(samples);
+  return Array.from(totals.entries())
+    .map(([day, value]) => ({
+      device_id: deviceId,
+      day,
+      kwh_electric: round3(value.kwhElectric),
+      kwh_thermal: round3(value.kwhThermal),
+      covered_sec: Math.round(value.coveredSec),
+      samples: value.samples,
+    }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+}
+
+/**
+ * Recomputes `device_energy_daily` for the trailing `days` UTC days (including today) so late
+ * telemetry is picked up. Returns the number of device-days written.
+ */
+export async function rollupEnergyDaily(DB: D1Database, days = 2, now = new Date()): Promise<number> {
+  const todayMs = Date.parse(`${utcDay(now.getTime())}T00:00:00Z`);
+  const fromDay = utcDay(todayMs - (days - 1) * DAY_MS);
+  const devices = await DB.prepare('SELECT device_id FROM devices').all<{ device_id: string }>();
+  let written = 0;
+  for (const device of devices.results ?? []) {
+    const rows = await computeDeviceEnergyDays(DB, device.device_id, fromDay, days);
+    if (rows.length === 0) continue;
+    await DB.batch(
+      rows.map((row) =>
+        DB.prepare(
+          `INSERT INTO device_energy_daily (device_id, day, kwh_electric, kwh_thermal, covered_sec, samples, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+           ON CONFLICT(device_id, day) DO UPDATE SET
+             kwh_electric=excluded.kwh_electric,
+             kwh_thermal=excluded.kwh_thermal,
+             covered_sec=excluded.covered_sec,
+             samples=excluded.samples,
+             updated_at=excluded.updated_at`,
+        ).bind(row.device_id, row.day, row.kwh_electric, row.kwh_thermal, row.covered_sec, row.samples),
+      ),
+    );
+    written += rows.length;
+  }
+  return written;
+}
+
+export type EnergyPeriodRow = { period: string; kwhElectric: number; kwhThermal: number; coveredSec: number };
+
+/**
+ * Sums stored daily rows for a set of devices into daily (`YYYY-MM-DD`) or monthly (`YYYY-MM`) periods.
+ * Devices are read 90 at a time so a large fleet stays under D1's bound-parameter limit.
+ */
+export async function loadEnergyPeriods(
+  DB: D1Database,
+  deviceIds: string[],
+  fromDay: string,
+  toDay: string,
+  granularity: 'day' | 'month',
+): Promise<EnergyPeriodRow[]> {
+  const periodExpr = granularity === 'month' ? 'substr(day, 1, 7)' : 'day';
+  const periods = new Map<string, { kwhElectric: number; kwhThermal: number; coveredSec: number }>();
+  for (let i = 0; i < deviceIds.length; i += 90) {
+    const chunk = deviceIds.slice(i, i + 90);
+    const rows = await DB.prepare(
+      `SELECT ${periodExpr} AS period,
+              SUM(kwh_electric) AS kwh_electric,
+              SUM(kwh_thermal) AS kwh_thermal,
+              SUM(covered_sec) AS covered_sec
+         FROM device_energy_daily
+        WHERE device_id IN (${chunk.map(() => '?').join(',')}) AND day >= ? AND day <= ?
+        GROUP BY period`,
+    )
+      .bind(...chunk, fromDay, toDay)
+      .all<{ period: string; kwh_electric: number | null; kwh_thermal: number | null; covered_sec: number | null }>();
+    for (const row of rows.results ?? []) {
+      const entry = periods.get(row.period) ?? { kwhElectric: 0, kwhThermal: 0, coveredSec: 0 };
+      entry.kwhElectric += row.kwh_electric ?? 0;
+      entry.kwhThermal += row.kwh_thermal ?? 0;
+      entry.coveredSec += row.covered_sec ?? 0;
+      periods.set(row.period, entry);
+    }
+  }
+  return Array.from(periods.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, entry]) => ({
+      period,
+      kwhElectric: round3(entry.kwhElectric),
+      kwhThermal: round3(entry.kwhThermal),
+      coveredSec: entry.coveredSec,
+    }));
+}
+
+export function parseEnergyRange(
+  fromParam: string | null | undefined,
+  toParam: string | null | undefined,
+  now = new Date(),
+): { ok: true; from: string; to: string } | { ok: false; error: string } {
+  const isDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+  const to = toParam ?? utcDay(now.getTime());
+  const from = fromParam ?? utcDay(Date.parse(`${to}T00:00:00Z`) - 29 * DAY_MS);
+  if (!isDay(from) || !isDay(to)) {
+    return { ok: false, error: 'from and to must be YYYY-MM-DD' };
+  }
+  if (from > to) {
+    return { ok: false, error: 'from must not be after to' };
+  }
+  if (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`) > 366 * DAY_MS) {
+    return { ok: false, error: 'range is limited to 366 days' };
+  }
+  return { ok: true, from, to };
+}
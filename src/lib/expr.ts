@@ -0,0 +1,393 @@
+import type { TelemetryPayload } from '../types';
+import type { Derived } from '../alerts';
+
+/**
+ * A deliberately small expression language for custom alert rules. It only
+ * reads values from the telemetry sample it is given; there is no assignment,
+ * no property access beyond the known paths and a fixed set of functions.
+ *
+ *   tankC < 45 and mode == 'dhw'
+ *   eevSteps >= 480 and deltaT < 3
+ *   fault('E12') or (cop < 1.5 and powerKW > 1)
+ */
+
+export type ExprContext = {
+  metrics: TelemetryPayload['metrics'];
+  status?: TelemetryPayload['status'];
+  faults?: TelemetryPayload['faults'];
+  derived: Derived;
+};
+
+type Value = number | string | boolean | null;
+
+type Node =
+  | { kind: 'lit'; value: Value }
+  | { kind: 'ref'; path: string[] }
+  | { kind: 'call'; name: string; args: Node[] }
+  | { kind: 'unary'; op: '-' | 'not'; arg: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node };
+
+type Token =
+  | { type: 'num'; value: number }
+  | { type: 'str'; value: string }
+  | { type: 'ident'; value: string }
+  | { type: 'op'; value: string };
+
+const METRIC_KEYS = [
+  'tankC',
+  'supplyC',
+  'returnC',
+  'ambientC',
+  'flowLps',
+  'compCurrentA',
+  'eevSteps',
+  'powerKW',
+] as const;
+const DERIVED_KEYS = ['deltaT', 'thermalKW', 'cop', 'copQuality'] as const;
+const STATUS_KEYS = ['mode', 'defrost', 'online'] as const;
+
+const FUNCTIONS = new Map<string, { minArgs: number; maxArgs: number }>([
+  ['fault', { minArgs: 1, maxArgs: 1 }],
+  ['faultCount', { minArgs: 0, maxArgs: 0 }],
+  ['abs', { minArgs: 1, maxArgs: 1 }],
+  ['min', { minArgs: 1, maxArgs: 8 }],
+  ['max', { minArgs: 1, maxArgs: 8 }],
+]);
+
+const MAX_SOURCE_LENGTH = 500;
+const MAX_DEPTH = 32;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source.charAt(i);
+    if (/\s/.test(ch)) {
+      i += 1;
+      continue;
+    }
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new Error(`Invalid number at ${i}`);
+      tokens.push({ type: 'num', value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) throw new Error(`Unterminated string at ${i}`);
+      tokens.push({ type: 'str', value: source.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(i))!;
+      tokens.push({ type: 'ident', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+    const two = source.slice(i, i + 2);
+    if (['<=', '>=', '==', '!=', '&&', '||'].includes(two)) {
+      tokens.push({ type: 'op', value: two });
+      i += 2;
+      continue;
+    }
+    if ('<>=!+-*/(),'.includes(ch)) {
+      tokens.push({ type: 'op', value: ch === '=' ? '==' : ch });
+      i += 1;
+      continue;
+    }
+    throw new Error(`Unexpected character '${ch}' at ${i}`);
+  }
+  return tokens;
+}
+
+function checkRef(path: string[]): void {
+  const [head = '', ...rest] = path;
+  if (rest.length === 0) {
+    const known = [...METRIC_KEYS, ...DERIVED_KEYS, ...STATUS_KEYS] as readonly string[];
+    if (!known.includes(head)) throw new Error(`Unknown field '${head}'`);
+    return;
+  }
+  const key = rest[0] ?? '';
+  if (head === 'metrics' && rest.length === 1 && (METRIC_KEYS as readonly string[]).includes(key)) return;
+  if (head === 'derived' && rest.length === 1 && (DERIVED_KEYS as readonly string[]).includes(key)) return;
+  if (head === 'status') {
+    if (rest.length === 1 && (STATUS_KEYS as readonly string[]).includes(key)) return;
+    // status.flags.<group>.<flag>
+    if (key === 'flags' && rest.length === 3) return;
+  }
+  throw new Error(`Unknown field '${path.join('.')}'`);
+}
+
+function parse(tokens: Token[]): Node {
+  let pos = 0;
+  let depth = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => {
+    const token = peek();
+    return token?.type === 'op' && token.value === value;
+  };
+  const isWord = (value: string) => {
+    const token = peek();
+    return token?.type === 'ident' && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected '${value}'`);
+    pos += 1;
+  };
+  const nest = <T>(fn: () => T): T => {
+    depth += 1;
+    if (depth > MAX_DEPTH) throw new Error('Expression is nested too deeply');
+    try {
+      return fn();
+    } finally {
+      depth -= 1;
+    }
+  };
+
+  const parseOr = (): Node =>
+    nest(() => {
+      let left = parseAnd();
+      while (isOp('||') || isWord('or')) {
+        pos += 1;
+        left = { kind: 'binary', op: 'or', left, right: parseAnd() };
+      }
+      return left;
+    });
+
+  const parseAnd = (): Node => {
+    let left = parseNot();
+    while (isOp('&&') || isWord('and')) {
+      pos += 1;
+      left = { kind: 'binary', op: 'and', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): Node => {
+    if (isOp('!') || isWord('not')) {
+      pos += 1;
+      return nest(() => ({ kind: 'unary', op: 'not', arg: parseNot() }));
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): Node => {
+    const left = parseAdditive();
+    const token = peek();
+    if (token?.type === 'op' && ['<', '<=', '>', '>=', '==', '!='].includes(token.value)) {
+      pos += 1;
+      return { kind: 'binary', op: token.value, left, right: parseAdditive() };
+    }
+    return left;
+  };
+
+  const parseAdditive = (): Node => {
+    let left = parseMultiplicative();
+    while (isOp('+') || isOp('-')) {
+      const op = (peek() as { value: string }).value;
+      pos += 1;
+      left = { kind: 'binary', op, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): Node => {
+    let left = parseUnary();
+    while (isOp('*') || isOp('/')) {
+      const op = (peek() as { value: string }).value;
+      pos += 1;
+      left = { kind: 'binary', op, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Node => {
+    if (isOp('-')) {
+      pos += 1;
+      return nest(() => ({ kind: 'unary', op: '-', arg: parseUnary() }));
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Node => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of expression');
+    pos += 1;
+    if (token.type === 'num' || token.type === 'str') {
+      return { kind: 'lit', value: token.value };
+    }
+    if (token.type === 'op') {
+      if (token.value !== '(') throw new Error(`Unexpected '${token.value}'`);
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    if (token.value === 'true' || token.value === 'false') {
+      return { kind: 'lit', value: token.value === 'true' };
+    }
+    if (token.value === 'null') {
+      return { kind: 'lit', value: null };
+    }
+    if (isOp('(')) {
+      const spec = FUNCTIONS.get(token.value);
+      if (!spec) throw new Error(`Unknown function '${token.value}'`);
+      pos += 1;
+      const args: Node[] = [];
+      if (!isOp(')')) {
+        args.push(parseOr());
+        while (isOp(',')) {
+          pos += 1;
+          args.push(parseOr());
+        }
+      }
+      expect(')');
+      if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+        throw new Error(`Wrong number of arguments for '${token.value}'`);
+      }
+      return { kind: 'call', name: token.value, args };
+    }
+    const path = token.value.split('.');
+    checkRef(path);
+    return { kind: 'ref', path };
+  };
+
+  const root = parseOr();
+  if (pos < tokens.length) {
+    throw new Error('Unexpected trailing input');
+  }
+  return root;
+}
+
+function lookup(path: string[], ctx: ExprContext): Value {
+  const [head = '', ...rest] = path;
+  const pick = (value: unknown): Value =>
+    typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean' ? value : null;
+
+  if (rest.length === 0) {
+    if ((METRIC_KEYS as readonly string[]).includes(head)) {
+      return pick(ctx.metrics[head as keyof ExprContext['metrics']]);
+    }
+    if ((DERIVED_KEYS as readonly string[]).includes(head)) {
+      return pick(ctx.derived[head as keyof Derived]);
+    }
+    return pick(ctx.status?.[head as (typeof STATUS_KEYS)[number]]);
+  }
+  if (head === 'metrics') return pick(ctx.metrics[rest[0] as keyof ExprContext['metrics']]);
+  if (head === 'derived') return pick(ctx.derived[rest[0] as keyof Derived]);
+  if (rest[0] === 'flags') return pick(ctx.status?.flags?.[rest[1] ?? '']?.[rest[2] ?? '']);
+  return pick(ctx.status?.[rest[0] as (typeof STATUS_KEYS)[number]]);
+}
+
+function evaluate(node: Node, ctx: ExprContext): Value {
+  switch (node.kind) {
+    case 'lit':
+      return node.value;
+    case 'ref':
+      return lookup(node.path, ctx);
+    case 'unary': {
+      const value = evaluate(node.arg, ctx);
+      if (node.op === 'not') return !truthy(value);
+      return typeof value === 'number' ? -value : null;
+    }
+    case 'call': {
+      const [first] = node.args;
+      if (node.name === 'fault') {
+        const code = first ? evaluate(first, ctx) : null;
+        return (ctx.faults ?? []).some((fault) => fault.active && fault.code === String(code));
+      }
+      if (node.name === 'faultCount') {
+        return (ctx.faults ?? []).filter((fault) => fault.active).length;
+      }
+      const nums = node.args.map((arg) => evaluate(arg, ctx));
+      if (nums.some((value) => typeof value !== 'number')) return null;
+      const values = nums as number[];
+      if (node.name === 'abs') return Math.abs(values[0] ?? 0);
+      return node.name === 'min' ? Math.min(...values) : Math.max(...values);
+    }
+    case 'binary': {
+      if (node.op === 'and') return truthy(evaluate(node.left, ctx)) && truthy(evaluate(node.right, ctx));
+      if (node.op === 'or') return truthy(evaluate(node.left, ctx)) || truthy(evaluate(node.right, ctx));
+      const left = evaluate(node.left, ctx);
+      const right = evaluate(node.right, ctx);
+      if (node.op === '==') return left === right;
+      if (node.op === '!=') return left !== right;
+      // Missing readings never satisfy an ordering or arithmetic operator.
+      if (left === null || right === null) return null;
+      if (typeof left === 'number' && typeof right === 'number') {
+        switch (node.op) {
+          case '+':
+            return left + right;
+          case '-':
+            return left - right;
+          case '*':
+            return left * right;
+          case '/':
+            return right === 0 ? null : left / right;
+          case '<':
+            return left < right;
+          case '<=':
+            return left <= right;
+          case '>':
+            return left > right;
+          case '>=':
+            return left >= right;
+        }
+      }
+      if (typeof left === 'string' && typeof right === 'string') {
+        switch (node.op) {
+          case '<':
+            return left < right;
+          case '<=':
+            return left <= right;
+          case '>':
+            return left > right;
+          case '>=':
+            return left >= right;
+        }
+      }
+      return null;
+    }
+  }
+}
+
+function truthy(value: Value): boolean {
+  return value === true || (typeof value === 'number' && value !== 0) || (typeof value === 'string' && value !== '');
+}
+
+export type CompiledExpression = {
+  source: string;
+  test: (ctx: ExprContext) => boolean;
+};
+
+export function compileExpression(
+  source: string,
+): { ok: true; expr: CompiledExpression } | { ok: false; error: string } {
+  const trimmed = source.trim();
+  if (!trimmed) {
+    return { ok: false, error: 'Expression is empty' };
+  }
+  if (trimmed.length > MAX_SOURCE_LENGTH) {
+    return { ok: false, error: `Expression exceeds ${MAX_SOURCE_LENGTH} characters` };
+  }
+  try {
+    const root = parse(tokenize(trimmed));
+    return {
+      ok: true,
+      expr: {
+        source: trimmed,
+        test: (ctx) => {
+          try {
+            return truthy(evaluate(root, ctx));
+          } catch {
+            return false;
+          }
+        },
+      },
+    };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
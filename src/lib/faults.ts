@@ -0,0 +1,336 @@
+import type { D1Database } from '../types/env';
+import type { TelemetryPayload } from '../types';
+import type { Severity } from './alert-rules';
+
+export type FaultCatalogueRow = {
+  id: string;
+  manufacturer: string;
+  model: string;
+  code: string;
+  severity: string;
+  title: string;
+  description: string | null;
+  causes_json: string;
+  actions_json: string;
+  links_json: string;
+};
+
+export type FaultLink = { label: string; url: string };
+
+export type FaultCatalogueEntry = {
+  id: string;
+  /** Null matches any manufacturer (stored as ''). */
+  manufacturer: string | null;
+  /** Null matches any model (stored as ''). */
+  model: string | null;
+  code: string;
+  severity: Severity;
+  title: string;
+  description: string | null;
+  causes: string[];
+  actions: string[];
+  links: FaultLink[];
+};
+
+export type FaultCatalogueInput = Omit<FaultCatalogueEntry, 'id'>;
+
+export type ReportedFault = NonNullable<TelemetryPayload['faults']>[number];
+
+export type FaultEventRow = {
+  id: string;
+  device_id: string;
+  code: string;
+  catalogue_id: string | null;
+  severity: string | null;
+  description: string | null;
+  started_at: string;
+  last_seen_at: string;
+  ended_at: string | null;
+};
+
+export type FaultTransitions = {
+  /** Active faults after enrichment, in the order the controller reported them. */
+  faults: ReportedFault[];
+  /** Faults that started a new occurrence with this sample. */
+  started: ReportedFault[];
+  /** Codes whose open occurrence ended with this sample. */
+  cleared: string[];
+};
+
+export type FaultCodeStats = {
+  code: string;
+  title: string | null;
+  severity: Severity | null;
+  occurrences: number;
+  /** Seconds active within the window; open occurrences count up to `toMs`. */
+  totalActiveSec: number;
+  meanDurationSec: number;
+  longestSec: number;
+  lastStartedAt: string;
+  active: boolean;
+};
+
+// Alert type written to `alerts.type`, `alert_state.rule` and `alert_snoozes.type`.
+export const faultAlertType = (code: string) => `fault:${code}`;
+
+const MAX_LIST_ITEMS = 20;
+const MAX_TEXT = 500;
+
+const asSeverity = (value: string | null): Severity | null =>
+  value === 'minor' || value === 'major' || value === 'critical' ? value : null;
+
+function parseJsonArray<T>(raw: string | null): T[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toFaultCatalogueEntry(row: FaultCatalogueRow): FaultCatalogueEntry {
+  return {
+    id: row.id,
+    manufacturer: row.manufacturer || null,
+    model: row.model || null,
+    code: row.code,
+    severity: asSeverity(row.severity) ?? 'major',
+    title: row.title,
+    description: row.description,
+    causes: parseJsonArray<string>(row.causes_json),
+    actions: parseJsonArray<string>(row.actions_json),
+    links: parseJsonArray<FaultLink>(row.links_json),
+  };
+}
+
+export function parseFaultCatalogueInput(
+  body: unknown,
+): { ok: true; value: FaultCatalogueInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const optionalText = (key: string, max: number): string | null =>
+    typeof input[key] === 'string' && (input[key] as string).trim() ? (input[key] as string).trim().slice(0, max) : null;
+
+  const code = optionalText('code', 64);
+  if (!code) errors.push('code is required');
+  const title = optionalText('title', 120);
+  if (!title) errors.push('title is required');
+
+  const severity = input.severity ?? 'major';
+  if (severity !== 'minor' && severity !== 'major' && severity !== 'critical') {
+    errors.push('severity must be minor, major or critical');
+  }
+
+  const textList = (key: 'causes' | 'actions'): string[] => {
+    const value = input[key];
+    if (value == null) return [];
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+      errors.push(`${key} must be an array of strings`);
+      return [];
+    }
+    const items = (value as string[]).map((item) => item.trim().slice(0, MAX_TEXT)).filter(Boolean);
+    if (items.length > MAX_LIST_ITEMS) errors.push(`${key} may list at most ${MAX_LIST_ITEMS} entries`);
+    return items;
+  };
+  const causes = textList('causes');
+  const actions = textList('actions');
+
+  const links: FaultLink[] = [];
+  if (input.links != null) {
+    if (!Array.isArray(input.links)) {
+      errors.push('links must be an array of {label, url}');
+    } else {
+      for (const entry of input.links as unknown[]) {
+        const link = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+        const url = typeof link.url === 'string' ? link.url.trim() : '';
+        if (!/^https?:\/\//i.test(url)) {
+          errors.push('link urls must start with http:// or https://');
+          continue;
+        }
+        const label = typeof link.label === 'string' && link.label.trim() ? link.label.trim().slice(0, 120) : url;
+        links.push({ label, url: url.slice(0, 2000) });
+      }
+      if (links.length > MAX_LIST_ITEMS) errors.push(`links may list at most ${MAX_LIST_ITEMS} entries`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      manufacturer: optionalText('manufacturer', 80),
+      model: optionalText('model', 80),
+      code: code!,
+      severity: severity as Severity,
+      title: title!,
+      description: optionalText('description', 2000),
+      causes,
+      actions,
+      links,
+    },
+  };
+}
+
+/** Exact model beats manufacturer-wide, which beats a generic entry for the code. */
+export function matchFaultEntry(
+  entries: FaultCatalogueEntry[],
+  manufacturer: string | null,
+  model: string | null,
+  code: string,
+): FaultCatalogueEntry | null {
+  let best: FaultCatalogueEntry | null = null;
+  let bestScore = -1;
+  for (const entry of entries) {
+    if (entry.code !== code) continue;
+    if (entry.manufacturer && entry.manufacturer !== manufacturer) continue;
+    if (entry.model && entry.model !== model) continue;
+    const score = (entry.manufacturer ? 2 : 0) + (entry.model ? 1 : 0);
+    if (score > bestScore) {
+      best = entry;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export async function loadFaultCatalogue(DB: D1Database, codes: string[]): Promise<FaultCatalogueEntry[]> {
+  if (codes.length === 0) return [];
+  const rows = await DB.prepare(
+    `SELECT id, manufacturer, model, code, severity, title, description, causes_json, actions_json, links_json
+       FROM fault_catalogue
+      WHERE code IN (${codes.map(() => '?').join(',')})`,
+  )
+    .bind(...codes)
+    .all<FaultCatalogueRow>();
+  return (rows.results ?? []).map(toFaultCatalogueEntry);
+}
+
+/** The device's own manufacturer/model, falling back to the defaults of its controller profile. */
+export async function loadDeviceModel(
+  DB: D1Database,
+  deviceId: string,
+): Promise<{ manufacturer: string | null; model: string | null }> {
+  const row = await DB.prepare(
+    `SELECT COALESCE(d.manufacturer, p.manufacturer) AS manufacturer, COALESCE(d.model, p.model) AS model
+       FROM devices d
+       LEFT JOIN controller_profiles p ON p.id = d.profile_id
+      WHERE d.device_id=?`,
+  )
+    .bind(deviceId)
+    .first<{ manufacturer: string | null; model: string | null }>();
+  return { manufacturer: row?.manufacturer ?? null, model: row?.model ?? null };
+}
+
+/**
+ * Enriches a telemetry sample's faults from the catalogue and keeps `device_fault_events` in step:
+ * an active code without an open occurrence starts one, an open occurrence whose code is no longer
+ * reported active is ended at the sample timestamp. Samples without a `faults` list are passed in
+ * as empty, so controllers that drop the list once their faults clear still end the occurrences.
+ */
+export async function trackDeviceFaults(
+  DB: D1Database,
+  deviceId: string,
+  ts: string,
+  reported: ReportedFault[],
+): Promise<FaultTransitions> {
+  const open = await DB.prepare('SELECT code FROM device_fault_events WHERE device_id=? AND ended_at IS NULL')
+    .bind(deviceId)
+    .all<{ code: string }>();
+  const openCodes = new Set((open.results ?? []).map((row) => row.code));
+  if (reported.length === 0 && openCodes.size === 0) {
+    return { faults: [], started: [], cleared: [] };
+  }
+
+  const { manufacturer, model } = await loadDeviceModel(DB, deviceId);
+  const entries = await loadFaultCatalogue(DB, Array.from(new Set(reported.map((fault) => fault.code))));
+  const faults = reported.map((fault): ReportedFault => {
+    const entry = matchFaultEntry(entries, manufacturer, model, fault.code);
+    return entry ? { ...fault, severity: entry.severity, title: entry.title } : fault;
+  });
+
+  const activeCodes = new Set<string>();
+
+  const started: ReportedFault[] = [];
+  for (const fault of faults) {
+    if (!fault.active || activeCodes.has(fault.code)) continue;
+    activeCodes.add(fault.code);
+    if (openCodes.has(fault.code)) {
+      await DB.prepare(
+        'UPDATE device_fault_events SET last_seen_at=? WHERE device_id=? AND code=? AND ended_at IS NULL AND last_seen_at < ?',
+      )
+        .bind(ts, deviceId, fault.code, ts)
+        .run();
+      continue;
+    }
+    const entry = matchFaultEntry(entries, manufacturer, model, fault.code);
+    await DB.prepare(
+      `INSERT INTO device_fault_events (id, device_id, code, catalogue_id, severity, description, started_at, last_seen_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT DO NOTHING`,
+    )
+      .bind(crypto.randomUUID(), deviceId, fault.code, entry?.id ?? null, entry?.severity ?? null, fault.description ?? null, ts, ts)
+      .run();
+    started.push(fault);
+  }
+
+  const cleared = Array.from(openCodes).filter((code) => !activeCodes.has(code));
+  for (const code of cleared) {
+    await DB.prepare('UPDATE device_fault_events SET ended_at=? WHERE device_id=? AND code=? AND ended_at IS NULL')
+      .bind(ts, deviceId, code)
+      .run();
+  }
+
+  return { faults, started, cleared };
+}
+
+/** Frequency and duration per code for occurrences overlapping `[fromMs, toMs)`, most frequent first. */
+export function summarizeFaultHistory(
+  events: FaultEventRow[],
+  fromMs: number,
+  toMs: number,
+  catalogue: FaultCatalogueEntry[] = [],
+): FaultCodeStats[] {
+  const byCode = new Map<string, FaultCodeStats & { durations: number[] }>();
+  for (const event of events) {
+    const start = Date.parse(event.started_at);
+    const end = event.ended_at ? Date.parse(event.ended_at) : toMs;
+    if (!Number.isFinite(start) || end < fromMs || start >= toMs) continue;
+    const seconds = Math.max(0, (Math.min(end, toMs) - Math.max(start, fromMs)) / 1000);
+    const entry = catalogue.find((candidate) => candidate.id === event.catalogue_id);
+    const stats = byCode.get(event.code) ?? {
+      code: event.code,
+      title: entry?.title ?? null,
+      severity: asSeverity(event.severity),
+      occurrences: 0,
+      totalActiveSec: 0,
+      meanDurationSec: 0,
+      longestSec: 0,
+      lastStartedAt: event.started_at,
+      active: false,
+      durations: [],
+    };
+    stats.occurrences += 1;
+    stats.totalActiveSec += seconds;
+    stats.longestSec = Math.max(stats.longestSec, seconds);
+    stats.durations.push(seconds);
+    if (event.started_at > stats.lastStartedAt) stats.lastStartedAt = event.started_at;
+    if (!event.ended_at) stats.active = true;
+    byCode.set(event.code, stats);
+  }
+  return Array.from(byCode.values())
+    .map(({ durations, ...stats }) => ({
+      ...stats,
+      totalActiveSec: Math.round(stats.totalActiveSec),
+      longestSec: Math.round(stats.longestSec),
+      meanDurationSec: Math.round(durations.reduce((sum, value) => sum + value, 0) / durations.length),
+    }))
+    .sort((a, b) => b.occurrences - a.occurrences || b.lastStartedAt.localeCompare(a.lastStartedAt));
+}
@@ -0,0 +1,24 @@
+// The standard PDF fonts only encode WinAnsi (cp1252): Latin-1 plus a handful of punctuation marks.
+const CP1252_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+const REPLACEMENTS: Record<string, string> = { '→': '->', '←': '<-', '≤': '<=', '≥': '>=', '✓': 'v', '✔': 'v', '−': '-' };
+// Direction marks some locales put around numbers; they draw nothing, so they are dropped.
+const BIDI_MARKS = new Set(['\u061c', '\u200e', '\u200f']);
+
+/** Maps free text to characters Helvetica can draw; anything else becomes `?` rather than failing the PDF. */
+export function winAnsi(text: string): string {
+  let out = '';
+  for (const char of text.normalize('NFC')) {
+    const code = char.codePointAt(0)!;
+    if (char === '\t' || char === '\n') out += ' ';
+    else if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || CP1252_EXTRAS.has(char)) out += char;
+    else if (code === 0x202f) out += ' ';
+    else if (BIDI_MARKS.has(char)) continue;
+    else out += REPLACEMENTS[char] ?? '?';
+  }
+  return out;
+}
+
+/** The locale with its digits pinned to Latin (`ar-EG` → `ar-EG-u-nu-latn`); separators and grouping are kept. */
+export function latinDigits(locale: string): string {
+  return new Intl.Locale(locale, { numberingSystem: 'latn' }).toString();
+}
@@ -0,0 +1,268 @@
+import type { D1Database } from '../types/env';
+import type { TelemetryPayload } from '../types';
+
+export type CanonicalMetric = keyof TelemetryPayload['metrics'];
+
+/** Units a controller may report in; values are converted to the canonical unit of their metric. */
+export type ProfileUnit = 'C' | 'F' | 'K' | 'lps' | 'lpm' | 'm3h' | 'gpm' | 'kW' | 'W' | 'A' | 'mA' | 'steps';
+
+export type ProfileField = {
+  metric: CanonicalMetric;
+  /** Payload keys under `metrics`, tried in order; the first numeric value wins. */
+  keys: string[];
+  unit: ProfileUnit;
+  /** Applied to the raw value before unit conversion, e.g. 0.1 for tenths of a degree. */
+  scale: number;
+  offset: number;
+};
+
+export type ControllerProfile = {
+  id: string;
+  name: string;
+  manufacturer: string | null;
+  model: string | null;
+  description: string | null;
+  /** Several fields may target the same metric (e.g. `flow_lps` then `flow_lpm`); the first present wins. */
+  fields: ProfileField[];
+  /** Metrics that must be present for a sample to be accepted. */
+  required: CanonicalMetric[];
+};
+
+export type ControllerProfileRow = {
+  id: string;
+  name: string;
+  manufacturer: string | null;
+  model: string | null;
+  description: string | null;
+  fields_json: string;
+  required_json: string;
+};
+
+export type ControllerProfileInput = Omit<ControllerProfile, 'id'>;
+
+export const CANONICAL_METRICS: CanonicalMetric[] = [
+  'supplyC',
+  'returnC',
+  'tankC',
+  'ambientC',
+  'flowLps',
+  'compCurrentA',
+  'eevSteps',
+  'powerKW',
+];
+
+const METRIC_DIMENSION: Record<CanonicalMetric, 'temperature' | 'flow' | 'current' | 'power' | 'count'> = {
+  supplyC: 'temperature',
+  returnC: 'temperature',
+  tankC: 'temperature',
+  ambientC: 'temperature',
+  flowLps: 'flow',
+  compCurrentA: 'current',
+  eevSteps: 'count',
+  powerKW: 'power',
+};
+
+const UNIT_CONVERSIONS: Record<ProfileUnit, { dimension: (typeof METRIC_DIMENSION)[CanonicalMetric]; toCanonical: (value: number) => number }> = {
+  C: { dimension: 'temperature', toCanonical: (value) => value },
+  F: { dimension: 'temperature', toCanonical: (value) => ((value - 32) * 5) / 9 },
+  K: { dimension: 'temperature', toCanonical: (value) => value - 273.15 },
+  lps: { dimension: 'flow', toCanonical: (value) => value },
+  lpm: { dimension: 'flow', toCanonical: (value) => value / 60 },
+  m3h: { dimension: 'flow', toCanonical: (value) => value / 3.6 },
+  gpm: { dimension: 'flow', toCanonical: (value) => value * 0.0630901964 },
+  kW: { dimension: 'power', toCanonical: (value) => value },
+  W: { dimension: 'power', toCanonical: (value) => value / 1000 },
+  A: { dimension: 'current', toCanonical: (value) => value },
+  mA: { dimension: 'current', toCanonical: (value) => value / 1000 },
+  steps: { dimension: 'count', toCanonical: (value) => value },
+};
+
+export const PROFILE_UNITS = Object.keys(UNIT_CONVERSIONS) as ProfileUnit[];
+
+const field = (metric: CanonicalMetric, keys: string[], unit: ProfileUnit): ProfileField => ({
+  metric,
+  keys,
+  unit,
+  scale: 1,
+  offset: 0,
+});
+
+/**
+ * Mapping used when a device's profile id has no registry entry: the snake_case keys documented in
+ * the controller API plus the camelCase and legacy aliases early firmware sent.
+ */
+export const BUILTIN_PROFILE: ControllerProfile = {
+  id: 'builtin',
+  name: 'Greenbro controller (built-in)',
+  manufacturer: null,
+  model: null,
+  description: null,
+  fields: [
+    field('supplyC', ['supply_c', 'supplyC', 'outlet_temp_c'], 'C'),
+    field('returnC', ['return_c', 'returnC', 'inlet_temp_c'], 'C'),
+    field('tankC', ['tank_c', 'tankC'], 'C'),
+    field('ambientC', ['ambient_c', 'ambientC'], 'C'),
+    field('flowLps', ['flow_lps', 'flowLps'], 'lps'),
+    field('flowLps', ['flow_lpm', 'flowLpm'], 'lpm'),
+    field('compCurrentA', ['compressor_a', 'compCurrentA'], 'A'),
+    field('eevSteps', ['eev_steps', 'eevSteps'], 'steps'),
+    field('powerKW', ['power_kw', 'powerKW'], 'kW'),
+  ],
+  required: ['supplyC', 'returnC'],
+};
+
+const isCanonicalMetric = (value: unknown): value is CanonicalMetric =>
+  typeof value === 'string' && (CANONICAL_METRICS as string[]).includes(value);
+
+function readNumber(raw: Record<string, unknown>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = raw[key];
+    if (value == null) continue;
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string') {
+      const parsed = Number(value);
+      if (value.trim() !== '' && Number.isFinite(parsed)) return parsed;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Maps a raw `metrics` object through the profile into canonical units. `missing` names the first
+ * payload key of each required metric that was absent, for the 400 sent back to the controller.
+ */
+export function normalizeMetrics(
+  profile: ControllerProfile,
+  raw: Record<string, unknown>,
+): { ok: true; metrics: TelemetryPayload['metrics'] } | { ok: false; metrics: TelemetryPayload['metrics']; missing: string[] } {
+  const metrics: TelemetryPayload['metrics'] = {};
+  for (const entry of profile.fields) {
+    if (metrics[entry.metric] != null) continue;
+    const value = readNumber(raw, entry.keys);
+    if (value == null) continue;
+    const converted = UNIT_CONVERSIONS[entry.unit].toCanonical(value * entry.scale + entry.offset);
+    if (Number.isFinite(converted)) metrics[entry.metric] = converted;
+  }
+  const missing = profile.required
+    .filter((metric) => metrics[metric] == null)
+    .map((metric) => profile.fields.find((entry) => entry.metric === metric)?.keys[0] ?? metric);
+  return missing.length ? { ok: false, metrics, missing } : { ok: true, metrics };
+}
+
+function parseJsonArray(raw: string | null): unknown[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toControllerProfile(row: ControllerProfileRow): ControllerProfile {
+  const parsed = parseControllerProfileInput({
+    name: row.name,
+    manufacturer: row.manufacturer,
+    model: row.model,
+    description: row.description,
+    fields: parseJsonArray(row.fields_json),
+    required: parseJsonArray(row.required_json),
+  });
+  // Stored rows were validated on write; a row that no longer parses maps nothing rather than guessing.
+  return parsed.ok
+    ? { id: row.id, ...parsed.value }
+    : { id: row.id, name: row.name, manufacturer: row.manufacturer, model: row.model, description: row.description, fields: [], required: [] };
+}
+
+export function parseControllerProfileInput(
+  body: unknown,
+): { ok: true; value: ControllerProfileInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+  const text = (key: string, max: number): string | null =>
+    typeof input[key] === 'string' && (input[key] as string).trim() ? (input[key] as string).trim().slice(0, max) : null;
+
+  const name = text('name', 120);
+  if (!name) errors.push('name is required');
+
+  const fields: ProfileField[] = [];
+  if (!Array.isArray(input.fields) || input.fields.length === 0) {
+    errors.push('fields must be a non-empty array');
+  } else {
+    (input.fields as unknown[]).forEach((entry, index) => {
+      const raw = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+      const label = `fields[${index}]`;
+      if (!isCanonicalMetric(raw.metric)) {
+        errors.push(`${label}.metric must be one of ${CANONICAL_METRICS.join(', ')}`);
+        return;
+      }
+      const keys = (Array.isArray(raw.keys) ? raw.keys : typeof raw.keys === 'string' ? [raw.keys] : [])
+        .filter((key): key is string => typeof key === 'string' && key.trim().length > 0)
+        .map((key) => key.trim());
+      if (keys.length === 0) errors.push(`${label}.keys must list at least one payload key`);
+      const unit = (raw.unit ?? null) as ProfileUnit | null;
+      const conversion = unit ? UNIT_CONVERSIONS[unit] : undefined;
+      if (!conversion) {
+        errors.push(`${label}.unit must be one of ${PROFILE_UNITS.join(', ')}`);
+      } else if (conversion.dimension !== METRIC_DIMENSION[raw.metric]) {
+        errors.push(`${label}.unit ${unit} cannot express ${raw.metric}`);
+      }
+      const numberOr = (value: unknown, fallback: number, key: string) => {
+        if (value == null) return fallback;
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          errors.push(`${label}.${key} must be a finite number`);
+          return fallback;
+        }
+        return value;
+      };
+      const scale = numberOr(raw.scale, 1, 'scale');
+      if (scale === 0) errors.push(`${label}.scale must not be zero`);
+      fields.push({ metric: raw.metric, keys, unit: unit as ProfileUnit, scale, offset: numberOr(raw.offset, 0, 'offset') });
+    });
+  }
+
+  const required: CanonicalMetric[] = [];
+  if (input.required != null) {
+    if (!Array.isArray(input.required) || !input.required.every(isCanonicalMetric)) {
+      errors.push(`required must list metrics from ${CANONICAL_METRICS.join(', ')}`);
+    } else {
+      for (const metric of input.required as CanonicalMetric[]) {
+        if (!required.includes(metric)) required.push(metric);
+        if (!fields.some((entry) => entry.metric === metric)) errors.push(`required metric ${metric} has no field`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      name: name!,
+      manufacturer: text('manufacturer', 80),
+      model: text('model', 80),
+      description: text('description', 2000),
+      fields,
+      required,
+    },
+  };
+}
+
+// Profile ids appear in the ingest URL, so they are restricted to URL-safe characters.
+export const isValidProfileId = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/.test(value) && value !== BUILTIN_PROFILE.id;
+
+export const CONTROLLER_PROFILE_COLUMNS = 'id, name, manufacturer, model, description, fields_json, required_json';
+
+/** Registry entry for the profile id, or the built-in mapping when the id is not registered. */
+export async function loadControllerProfile(DB: D1Database, profileId: string): Promise<ControllerProfile> {
+  const row = await DB.prepare(`SELECT ${CONTROLLER_PROFILE_COLUMNS} FROM controller_profiles WHERE id=?`)
+    .bind(profileId)
+    .first<ControllerProfileRow>();
+  return row ? toControllerProfile(row) : BUILTIN_PROFILE;
+}
@@ -0,0 +1,214 @@
+import type { D1Database } from '../types/env';
+import { getSetting } from './settings';
+
+export type TokenBucketLimit = { burst: number; perMinute: number };
+
+export type RateLimitedRoute = 'ingest' | 'heartbeat' | 'poll';
+
+export type IngestRateLimits = {
+  /** Per-device buckets, one per controller endpoint. */
+  device: Record<RateLimitedRoute, TokenBucketLimit>;
+  /** One bucket shared by every device of a profile, across all endpoints. */
+  profile: TokenBucketLimit;
+  /** Profile bucket overrides keyed by profile id. */
+  profiles: Record<string, TokenBucketLimit>;
+  maxPayloadBytes: number;
+  /** A device that is rejected `strikes` times within `windowMinutes` is quarantined until released. */
+  quarantine: { strikes: number; windowMinutes: number };
+};
+
+export type BucketState = { tokens: number; updatedAt: number };
+
+export type RateLimitState = {
+  buckets: Record<string, BucketState>;
+  strikes: number[];
+  quarantinedAt: number | null;
+  quarantineReason: string | null;
+};
+
+/** Body of `POST /rate-limit` on the DeviceState Durable Object. */
+export type RateLimitRequest = {
+  bucket: string;
+  limit: TokenBucketLimit;
+  bytes?: number;
+  maxBytes?: number | null;
+  quarantine?: IngestRateLimits['quarantine'] | null;
+};
+
+export type RateLimitReason = 'rate_limited' | 'payload_too_large' | 'quarantined';
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: RateLimitReason;
+      retryAfter: number | null;
+      quarantinedAt: string | null;
+      quarantinedNow: boolean;
+    };
+
+export const RATE_LIMIT_SETTING = 'ingest_rate_limits';
+
+// Controllers post telemetry every 10-30 s and heartbeats every minute; long polls return after at most 30 s.
+export const DEFAULT_INGEST_RATE_LIMITS: IngestRateLimits = {
+  device: {
+    ingest: { burst: 20, perMinute: 12 },
+    heartbeat: { burst: 10, perMinute: 4 },
+    poll: { burst: 20, perMinute: 30 },
+  },
+  profile: { burst: 2000, perMinute: 6000 },
+  profiles: {},
+  maxPayloadBytes: 32 * 1024,
+  quarantine: { strikes: 30, windowMinutes: 10 },
+};
+
+// Oversized payloads are retried unchanged by most firmware, so ask for a long back-off.
+export const PAYLOAD_RETRY_AFTER_S = 60;
+
+const positive = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+
+function parseLimit(value: unknown, fallback: TokenBucketLimit): TokenBucketLimit {
+  const raw = asRecord(value);
+  return { burst: positive(raw.burst, fallback.burst), perMinute: positive(raw.perMinute, fallback.perMinute) };
+}
+
+/** Merges a partial `ingest_rate_limits` setting over the defaults, ignoring malformed fields. */
+export function parseIngestRateLimits(value: unknown): IngestRateLimits {
+  const defaults = DEFAULT_INGEST_RATE_LIMITS;
+  const raw = asRecord(value);
+  const device = asRecord(raw.device);
+  const profiles: Record<string, TokenBucketLimit> = {};
+  for (const [id, limit] of Object.entries(asRecord(raw.profiles))) {
+    profiles[id] = parseLimit(limit, parseLimit(raw.profile, defaults.profile));
+  }
+  const quarantine = asRecord(raw.quarantine);
+  return {
+    device: {
+      ingest: parseLimit(device.ingest, defaults.device.ingest),
+      heartbeat: parseLimit(device.heartbeat, defaults.device.heartbeat),
+      poll: parseLimit(device.poll, defaults.device.poll),
+    },
+    profile: parseLimit(raw.profile, defaults.profile),
+    profiles,
+    maxPayloadBytes: positive(raw.maxPayloadBytes, defaults.maxPayloadBytes),
+    quarantine: {
+      strikes: Math.round(positive(quarantine.strikes, defaults.quarantine.strikes)),
+      windowMinutes: positive(quarantine.windowMinutes, defaults.quarantine.windowMinutes),
+    },
+  };
+}
+
+let cachedLimits: { at: number; limits: IngestRateLimits } | null = null;
+const LIMITS_CACHE_MS = 60_000;
+
+/** Reads the limits from settings at most once a minute per isolate; every controller request needs them. */
+export async function loadIngestRateLimits(DB: D1Database, now = Date.now()): Promise<IngestRateLimits> {
+  if (cachedLimits && now - cachedLimits.at < LIMITS_CACHE_MS) {
+    return cachedLimits.limits;
+  }
+  let parsed: unknown = null;
+  try {
+    const raw = await getSetting(DB, RATE_LIMIT_SETTING);
+    parsed = raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    console.warn('invalid ingest_rate_limits setting', error);
+  }
+  cachedLimits = { at: now, limits: parseIngestRateLimits(parsed) };
+  return cachedLimits.limits;
+}
+
+export const emptyRateLimitState = (): RateLimitState => ({
+  buckets: {},
+  strikes: [],
+  quarantinedAt: null,
+  quarantineReason: null,
+});
+
+/**
+ * Refills the bucket for the time elapsed since it was last touched and takes one token.
+ * When the bucket is empty, `retryAfter` is the number of seconds until the next token.
+ */
+export function takeToken(
+  bucket: BucketState | undefined,
+  limit: TokenBucketLimit,
+  now: number,
+): { bucket: BucketState; allowed: boolean; retryAfter: number } {
+  const perMs = limit.perMinute / 60_000;
+  const current = bucket ?? { tokens: limit.burst, updatedAt: now };
+  const elapsed = Math.max(0, now - current.updatedAt);
+  const tokens = Math.min(limit.burst, current.tokens + elapsed * perMs);
+  if (tokens >= 1) {
+    return { bucket: { tokens: tokens - 1, updatedAt: now }, allowed: true, retryAfter: 0 };
+  }
+  return {
+    bucket: { tokens, updatedAt: now },
+    allowed: false,
+    retryAfter: Math.max(1, Math.ceil((1 - tokens) / perMs / 1000)),
+  };
+}
+
+/** Applies one controller request to the stored state; pure so the Durable Object only has to persist the result. */
+export function evaluateRateLimit(
+  state: RateLimitState,
+  request: RateLimitRequest,
+  now: number,
+): { state: RateLimitState; decision: RateLimitDecision } {
+  if (state.quarantinedAt != null) {
+    return {
+      state,
+      decision: {
+        allowed: false,
+        reason: 'quarantined',
+        retryAfter: null,
+        quarantinedAt: new Date(state.quarantinedAt).toISOString(),
+        quarantinedNow: false,
+      },
+    };
+  }
+
+  let reason: RateLimitReason;
+  let retryAfter: number;
+  let buckets = state.buckets;
+  if (request.maxBytes && (request.bytes ?? 0) > request.maxBytes) {
+    reason = 'payload_too_large';
+    retryAfter = PAYLOAD_RETRY_AFTER_S;
+  } else {
+    const taken = takeToken(state.buckets[request.bucket], request.limit, now);
+    buckets = { ...state.buckets, [request.bucket]: taken.bucket };
+    if (taken.allowed) {
+      return { state: { ...state, buckets }, decision: { allowed: true } };
+    }
+    reason = 'rate_limited';
+    retryAfter = taken.retryAfter;
+  }
+
+  const quarantine = request.quarantine;
+  if (!quarantine) {
+    return {
+      state: { ...state, buckets },
+      decision: { allowed: false, reason, retryAfter, quarantinedAt: null, quarantinedNow: false },
+    };
+  }
+  const windowMs = quarantine.windowMinutes * 60_000;
+  const strikes = [...state.strikes.filter((ts) => now - ts < windowMs), now];
+  if (strikes.length >= quarantine.strikes) {
+    return {
+      state: { buckets, strikes: [], quarantinedAt: now, quarantineReason: reason },
+      decision: {
+        allowed: false,
+        reason,
+        retryAfter,
+        quarantinedAt: new Date(now).toISOString(),
+        quarantinedNow: true,
+      },
+    };
+  }
+  return {
+    state: { ...state, buckets, strikes },
+    decision: { allowed: false, reason, retryAfter, quarantinedAt: null, quarantinedNow: false },
+  };
+}
@@ -0,0 +1,421 @@
+import type { D1Database } from '../types/env';
+import { getSetting, setSetting } from './settings';
+
+export type RollupResolution = '1m' | '15m' | '1h' | '1d';
+export type SeriesResolution = 'raw' | RollupResolution;
+
+export type MetricStats = { min: number; max: number; avg: number; last: number; n: number };
+
+export type RollupSample = { deviceId: string; ts: number; values: Record<string, number> };
+
+export type RollupBucket = {
+  deviceId: string;
+  bucket: number;
+  samples: number;
+  lastTs: number;
+  metrics: Record<string, MetricStats>;
+};
+
+export type SeriesPoint = {
+  timestamp: string;
+  metrics: Record<string, number | null>;
+  min?: Record<string, number>;
+  max?: Record<string, number>;
+};
+
+const MINUTE_MS = 60_000;
+
+/** Finest first; each level is built from the one before it. */
+export const ROLLUP_RESOLUTIONS: ReadonlyArray<{ key: RollupResolution; ms: number }> = [
+  { key: '1m', ms: MINUTE_MS },
+  { key: '15m', ms: 15 * MINUTE_MS },
+  { key: '1h', ms: 60 * MINUTE_MS },
+  { key: '1d', ms: 24 * 60 * MINUTE_MS },
+];
+
+/** Series requests aim for at most this many points per metric. */
+export const MAX_SERIES_POINTS = 1500;
+/** Raw rows are only served for short windows; longer ones come from rollups. */
+export const RAW_SERIES_MAX_SPAN_MS = 6 * 60 * MINUTE_MS;
+/** Telemetry this late (by device timestamp) is still folded into rollups. */
+export const ROLLUP_LATE_ARRIVAL_MS = 15 * MINUTE_MS;
+
+const WATERMARK_KEY = 'telemetry_rollup_watermark';
+const MAX_ROWS_PER_RUN = 50_000;
+const MAX_RAW_SERIES_ROWS = 20_000;
+const WRITE_CHUNK = 100;
+
+const floorTo = (ms: number, step: number) => Math.floor(ms / step) * step;
+
+type TelemetryRow = {
+  device_id: string;
+  ts: string;
+  metrics_json: string | null;
+  deltaT: number | null;
+  thermalKW: number | null;
+  cop: number | null;
+};
+
+/** Numeric metrics of one telemetry row plus the derived deltaT/cop/thermalKW columns. */
+export function telemetryRowToSample(row: TelemetryRow): RollupSample | null {
+  const ts = Date.parse(row.ts);
+  if (Number.isNaN(ts)) return null;
+  const values: Record<string, number> = {};
+  if (row.metrics_json) {
+    try {
+      const parsed = JSON.parse(row.metrics_json) as Record<string, unknown>;
+      for (const [key, value] of Object.entries(parsed)) {
+        if (typeof value === 'number' && Number.isFinite(value)) values[key] = value;
+      }
+    } catch {
+      // Malformed metrics still contribute their derived columns.
+    }
+  }
+  for (const key of ['deltaT', 'thermalKW', 'cop'] as const) {
+    const value = row[key];
+    if (typeof value === 'number' && Number.isFinite(value)) values[key] = value;
+  }
+  return { deviceId: row.device_id, ts, values };
+}
+
+function addStats(target: Record<string, MetricStats>, key: string, stats: MetricStats) {
+  const current = target[key];
+  if (!current) {
+    target[key] = { ...stats };
+    return;
+  }
+  const n = current.n + stats.n;
+  current.avg = (current.avg * current.n + stats.avg * stats.n) / n;
+  current.min = Math.min(current.min, stats.min);
+  current.max = Math.max(current.max, stats.max);
+  current.last = stats.last;
+  current.n = n;
+}
+
+function groupInto<T extends { deviceId: string }>(
+  items: T[],
+  bucketOf: (item: T) => number,
+  bucketMs: number,
+  apply: (bucket: RollupBucket, item: T) => void,
+): RollupBucket[] {
+  const buckets = new Map<string, RollupBucket>();
+  for (const item of items) {
+    const start = floorTo(bucketOf(item), bucketMs);
+    const key = `${item.deviceId}|${start}`;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { deviceId: item.deviceId, bucket: start, samples: 0, lastTs: 0, metrics: {} };
+      buckets.set(key, bucket);
+    }
+    apply(bucket, item);
+  }
+  return Array.from(buckets.values()).sort((a, b) => a.bucket - b.bucket || a.deviceId.localeCompare(b.deviceId));
+}
+
+/** Aggregates raw samples into buckets of `bucketMs`. */
+export function bucketSamples(samples: RollupSample[], bucketMs: number): RollupBucket[] {
+  const ordered = [...samples].sort((a, b) => a.ts - b.ts);
+  return groupInto(ordered, (sample) => sample.ts, bucketMs, (bucket, sample) => {
+    bucket.samples += 1;
+    bucket.lastTs = Math.max(bucket.lastTs, sample.ts);
+    for (const [key, value] of Object.entries(sample.values)) {
+      addStats(bucket.metrics, key, { min: value, max: value, avg: value, last: value, n: 1 });
+    }
+  });
+}
+
+/** Combines finer buckets into coarser ones, weighting averages by sample count. */
+export function mergeBuckets(children: RollupBucket[], bucketMs: number): RollupBucket[] {
+  const ordered = [...children].sort((a, b) => a.bucket - b.bucket);
+  return groupInto(ordered, (child) => child.bucket, bucketMs, (bucket, child) => {
+    bucket.samples += child.samples;
+    bucket.lastTs = Math.max(bucket.lastTs, child.lastTs);
+    for (const [key, stats] of Object.entries(child.metrics)) {
+      addStats(bucket.metrics, key, stats);
+    }
+  });
+}
+
+/** Finest resolution that keeps a `from`–`to` window under {@link MAX_SERIES_POINTS}. */
+export function pickSeriesResolution(fromMs: number, toMs: number): SeriesResolution {
+  const span = Math.max(0, toMs - fromMs);
+  if (span <= RAW_SERIES_MAX_SPAN_MS) return 'raw';
+  const level = ROLLUP_RESOLUTIONS.find((entry) => span / entry.ms <= MAX_SERIES_POINTS);
+  return level?.key ?? '1d';
+}
+
+/** Bucket width of a series resolution; raw points are treated as one-minute samples when aligned. */
+export function seriesStepMs(resolution: SeriesResolution): number {
+  return ROLLUP_RESOLUTIONS.find((entry) => entry.key === resolution)?.ms ?? MINUTE_MS;
+}
+
+const METRIC_ALIASES: Record<string, string> = {
+  deltaT: 'delta_t',
+  thermalKW: 'thermal_kw',
+  flowLps: 'flow_lps',
+  compCurrentA: 'compressor_current',
+  powerKW: 'power_kw',
+};
+
+/** Adds the snake_case names the dashboard charts look up alongside the stored camelCase keys. */
+function withAliases<T>(values: Record<string, T>): Record<string, T> {
+  const result = { ...values };
+  for (const [key, alias] of Object.entries(METRIC_ALIASES)) {
+    if (result[key] !== undefined && result[alias] === undefined) result[alias] = result[key] as T;
+  }
+  return result;
+}
+
+function bucketToPoint(bucket: RollupBucket): SeriesPoint {
+  const metrics: Record<string, number | null> = {};
+  const min: Record<string, number> = {};
+  const max: Record<string, number> = {};
+  for (const [key, stats] of Object.entries(bucket.metrics)) {
+    metrics[key] = Math.round(stats.avg * 1000) / 1000;
+    min[key] = stats.min;
+    max[key] = stats.max;
+  }
+  return {
+    timestamp: new Date(bucket.bucket).toISOString(),
+    metrics: withAliases(metrics),
+    min: withAliases(min),
+    max: withAliases(max),
+  };
+}
+
+type RollupRow = { device_id: string; bucket: string; samples: number; last_ts: string; stats_json: string };
+
+function parseRollupRow(row: RollupRow): RollupBucket | null {
+  const bucket = Date.parse(row.bucket);
+  if (Number.isNaN(bucket)) return null;
+  let metrics: Record<string, MetricStats> = {};
+  try {
+    metrics = JSON.parse(row.stats_json) as Record<string, MetricStats>;
+  } catch {
+    return null;
+  }
+  return { deviceId: row.device_id, bucket, samples: row.samples, lastTs: Date.parse(row.last_ts) || bucket, metrics };
+}
+
+async function writeBuckets(DB: D1Database, resolution: RollupResolution, buckets: RollupBucket[]) {
+  for (let i = 0; i < buckets.length; i += WRITE_CHUNK) {
+    await DB.batch(
+      buckets.slice(i, i + WRITE_CHUNK).map((bucket) =>
+        DB.prepare(
+          `INSERT INTO telemetry_rollups (device_id, resolution, bucket, samples, last_ts, stats_json, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+           ON CONFLICT(device_id, resolution, bucket) DO UPDATE SET
+             samples=excluded.samples,
+             last_ts=excluded.last_ts,
+             stats_json=excluded.stats_json,
+             updated_at=excluded.updated_at`,
+        ).bind(
+          bucket.deviceId,
+          resolution,
+          new Date(bucket.bucket).toISOString(),
+          bucket.samples,
+          new Date(bucket.lastTs).toISOString(),
+          JSON.stringify(bucket.metrics),
+        ),
+      ),
+    );
+  }
+}
+
+async function loadRollupRows(
+  DB: D1Database,
+  resolution: RollupResolution,
+  fromMs: number,
+  toMs: number,
+  deviceId?: string,
+): Promise<RollupBucket[]> {
+  const sql = `SELECT device_id, bucket, samples, last_ts, stats_json
+                 FROM telemetry_rollups
+                WHERE resolution=? AND bucket >= ? AND bucket < ?${deviceId ? ' AND device_id=?' : ''}
+                ORDER BY bucket`;
+  const binds: unknown[] = [resolution, new Date(fromMs).toISOString(), new Date(toMs).toISOString()];
+  if (deviceId) binds.push(deviceId);
+  const rows = await DB.prepare(sql)
+    .bind(...binds)
+    .all<RollupRow>();
+  return (rows.results ?? []).map(parseRollupRow).filter((bucket): bucket is RollupBucket => bucket !== null);
+}
+
+const toSamples = (rows: TelemetryRow[]) =>
+  rows.map(telemetryRowToSample).filter((sample): sample is RollupSample => sample !== null);
+
+async function loadTelemetryRows(
+  DB: D1Database,
+  fromMs: number,
+  toMs: number,
+  limit: number,
+  deviceId?: string,
+): Promise<TelemetryRow[]> {
+  const sql = `SELECT device_id, ts, metrics_json, deltaT, thermalKW, cop
+                 FROM telemetry
+                WHERE ${deviceId ? 'device_id=? AND ' : ''}ts >= ? AND ts < ?
+                ORDER BY ts
+                LIMIT ?`;
+  const binds: unknown[] = [new Date(fromMs).toISOString(), new Date(toMs).toISOString(), limit];
+  if (deviceId) binds.unshift(deviceId);
+  const rows = await DB.prepare(sql)
+    .bind(...binds)
+    .all<TelemetryRow>();
+  return rows.results ?? [];
+}
+
+async function loadTelemetrySamples(
+  DB: D1Database,
+  fromMs: number,
+  toMs: number,
+  limit: number,
+  deviceId?: string,
+): Promise<RollupSample[]> {
+  return toSamples(await loadTelemetryRows(DB, fromMs, toMs, limit, deviceId));
+}
+
+/** Every row of one minute, read in pages keyed on `(ts, device_id)` so no single read is truncated. */
+async function loadMinuteSamples(DB: D1Database, minuteMs: number, pageSize: number): Promise<RollupSample[]> {
+  const from = new Date(minuteMs).toISOString();
+  const to = new Date(minuteMs + MINUTE_MS).toISOString();
+  const samples: RollupSample[] = [];
+  let after: TelemetryRow | null = null;
+  for (;;) {
+    const keyset: string[] = after ? [after.ts, after.ts, after.device_id] : [];
+    const rows = await DB.prepare(
+      `SELECT device_id, ts, metrics_json, deltaT, thermalKW, cop
+         FROM telemetry
+        WHERE ts >= ? AND ts < ?${after ? ' AND (ts > ? OR (ts = ? AND device_id > ?))' : ''}
+        ORDER BY ts, device_id
+        LIMIT ?`,
+    )
+      .bind(from, to, ...keyset, pageSize)
+      .all<TelemetryRow>();
+    const page: TelemetryRow[] = rows.results ?? [];
+    samples.push(...toSamples(page));
+    if (page.length < pageSize) return samples;
+    after = page[page.length - 1]!;
+  }
+}
+
+/** Telemetry before this instant (less the late-arrival window) is reflected in the rollups. */
+export async function readRollupWatermark(DB: D1Database): Promise<number | null> {
+  const stored = await getSetting(DB, WATERMARK_KEY);
+  const parsed = stored ? Date.parse(stored) : NaN;
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Folds telemetry received since the last run into the rollup tables. Minutes within
+ * {@link ROLLUP_LATE_ARRIVAL_MS} of the previous run are recomputed to catch late uploads; a
+ * backlog (first run, or after an outage) is worked through at most 50k rows per call, except
+ * that a single minute holding more than that is folded in whole.
+ */
+export async function refreshTelemetryRollups(
+  DB: D1Database,
+  now = new Date(),
+  maxRows = MAX_ROWS_PER_RUN,
+): Promise<{ samples: number; watermark: string | null }> {
+  let watermark = await readRollupWatermark(DB);
+  if (watermark === null) {
+    const oldest = await DB.prepare('SELECT MIN(ts) AS ts FROM telemetry').first<{ ts: string | null }>();
+    watermark = oldest?.ts ? Date.parse(oldest.ts) : NaN;
+    if (Number.isNaN(watermark)) return { samples: 0, watermark: null };
+  }
+  const start = floorTo(Math.min(watermark, now.getTime() - ROLLUP_LATE_ARRIVAL_MS), MINUTE_MS);
+  let end = now.getTime();
+
+  const rows = await loadTelemetryRows(DB, start, end, maxRows);
+  let samples = toSamples(rows);
+  if (rows.length >= maxRows) {
+    // Stop at the last complete minute so the next run picks up where this one left off.
+    const cutoff = floorTo(samples[samples.length - 1]?.ts ?? start, MINUTE_MS);
+    if (cutoff > start) {
+      end = cutoff;
+      samples = samples.filter((sample) => sample.ts < cutoff);
+    } else {
+      // The first minute alone fills the read: fold just that minute, paging through all of it.
+      end = start + MINUTE_MS;
+      samples = await loadMinuteSamples(DB, start, maxRows);
+    }
+  }
+
+  const [minute, ...coarser] = ROLLUP_RESOLUTIONS;
+  await writeBuckets(DB, minute!.key, bucketSamples(samples, minute!.ms));
+  let finer = minute!;
+  for (const level of coarser) {
+    const children = await loadRollupRows(DB, finer.key, floorTo(start, level.ms), end);
+    await writeBuckets(DB, level.key, mergeBuckets(children, level.ms));
+    finer = level;
+  }
+
+  const mark = new Date(end).toISOString();
+  await setSetting(DB, WATERMARK_KEY, mark);
+  return { samples: samples.length, watermark: mark };
+}
+
+/** Raw samples for one device that have been moved out of D1 (see `telemetry-archive.ts`). */
+export type ArchiveReader = (deviceId: string, fromMs: number, toMs: number) => Promise<RollupSample[]>;
+
+/** Stored buckets win; archived buckets only fill the gaps left by pruned rollups. */
+function fillMissingBuckets(stored: RollupBucket[], archived: RollupBucket[]): RollupBucket[] {
+  if (archived.length === 0) return stored;
+  const present = new Set(stored.map((bucket) => bucket.bucket));
+  return [...stored, ...archived.filter((bucket) => !present.has(bucket.bucket))].sort((a, b) => a.bucket - b.bucket);
+}
+
+/**
+ * Series for one device between `fromMs` and `toMs`. Windows longer than a few hours come from
+ * the rollup tables; anything newer than the rollup watermark is aggregated from raw telemetry
+ * on the fly so the latest buckets are never missing. With `readArchive`, raw and 1-minute
+ * windows reaching past the D1 retention period are read back from the archive.
+ */
+export async function loadDeviceSeries(
+  DB: D1Database,
+  deviceId: string,
+  fromMs: number,
+  toMs: number,
+  readArchive?: ArchiveReader,
+): Promise<{ resolution: SeriesResolution; points: SeriesPoint[]; truncated: boolean }> {
+  return loadSeriesAtResolution(DB, deviceId, pickSeriesResolution(fromMs, toMs), fromMs, toMs, readArchive);
+}
+
+/** As {@link loadDeviceSeries}, but at a caller-chosen resolution (used by fleet exports). */
+export async function loadSeriesAtResolution(
+  DB: D1Database,
+  deviceId: string,
+  resolution: SeriesResolution,
+  fromMs: number,
+  toMs: number,
+  readArchive?: ArchiveReader,
+): Promise<{ resolution: SeriesResolution; points: SeriesPoint[]; truncated: boolean }> {
+  if (resolution === 'raw') {
+    const archived = readArchive ? await readArchive(deviceId, fromMs, toMs) : [];
+    const samples = [...archived, ...(await loadTelemetrySamples(DB, fromMs, toMs, MAX_RAW_SERIES_ROWS, deviceId))];
+    samples.sort((a, b) => a.ts - b.ts);
+    return {
+      resolution,
+      truncated: samples.length >= MAX_RAW_SERIES_ROWS,
+      points: samples
+        .slice(0, MAX_RAW_SERIES_ROWS)
+        .map((sample) => ({ timestamp: new Date(sample.ts).toISOString(), metrics: withAliases(sample.values) })),
+    };
+  }
+
+  const stepMs = seriesStepMs(resolution);
+  const from = floorTo(fromMs, stepMs);
+  const watermark = (await readRollupWatermark(DB)) ?? from;
+  const tailFrom = Math.max(from, Math.min(floorTo(watermark - ROLLUP_LATE_ARRIVAL_MS, stepMs), toMs));
+  let stored = tailFrom > from ? await loadRollupRows(DB, resolution, from, tailFrom, deviceId) : [];
+  if (resolution === '1m' && readArchive && tailFrom > from) {
+    // 1-minute rollups are pruned with the raw rows; rebuild them from the archived day files.
+    stored = fillMissingBuckets(stored, bucketSamples(await readArchive(deviceId, from, tailFrom), stepMs));
+  }
+  const tailSamples = tailFrom < toMs ? await loadTelemetrySamples(DB, tailFrom, toMs, MAX_RAW_SERIES_ROWS, deviceId) : [];
+  const tail = bucketSamples(tailSamples, stepMs);
+  return {
+    resolution,
+    truncated: tailSamples.length >= MAX_RAW_SERIES_ROWS,
+    points: [...stored, ...tail].map(bucketToPoint),
+  };
+}
@@ -14,7 +14,7 @@ export const IngestSchema = {
     ts: { type: 'string', format: 'date-time' },
     metrics: {
       type: 'object',
-      required: ['supply_c', 'return_c'],
+      // Which metrics are required is decided by the controller profile at ingest.
       properties: {
         supply_c: { type: ['number', 'string'] },
         return_c: { type: ['number', 'string'] },
@@ -0,0 +1,161 @@
+import type { SeriesPoint } from './rollups';
+
+export type CompareMode = 'absolute' | 'difference';
+export type CompareNormalize = 'none' | 'minmax' | 'zscore';
+
+export const MAX_COMPARE_DEVICES = 8;
+/** Cap on how many devices of a site feed the median used by difference mode. */
+export const MAX_REFERENCE_DEVICES = 24;
+
+export type CompareInput = {
+  deviceIds: string[];
+  metric: string;
+  mode: CompareMode;
+  normalize: CompareNormalize;
+};
+
+export type ComparedSeries = { deviceId: string; siteId: string | null; values: Array<number | null> };
+
+const METRIC_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,63}$/;
+
+export function parseCompareInput(query: {
+  devices?: string;
+  metric?: string;
+  mode?: string;
+  normalize?: string;
+}): { ok: true; value: CompareInput } | { ok: false; errors: string[] } {
+  const errors: string[] = [];
+  const deviceIds = Array.from(
+    new Set(
+      (query.devices ?? '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean),
+    ),
+  );
+  if (deviceIds.length === 0) errors.push('devices must list at least one device id');
+  if (deviceIds.length > MAX_COMPARE_DEVICES) errors.push(`devices may list at most ${MAX_COMPARE_DEVICES} device ids`);
+  const metric = (query.metric ?? '').trim();
+  if (!METRIC_PATTERN.test(metric)) errors.push('metric is required');
+  const mode = query.mode ?? 'absolute';
+  if (mode !== 'absolute' && mode !== 'difference') errors.push('mode must be absolute or difference');
+  const normalize = query.normalize ?? 'none';
+  if (normalize !== 'none' && normalize !== 'minmax' && normalize !== 'zscore') {
+    errors.push('normalize must be none, minmax or zscore');
+  }
+  return errors.length
+    ? { ok: false, errors }
+    : { ok: true, value: { deviceIds, metric, mode: mode as CompareMode, normalize: normalize as CompareNormalize } };
+}
+
+/**
+ * Places each series on a shared grid of `stepMs` buckets, averaging points that land in the same
+ * bucket (raw series from different devices never share exact timestamps).
+ */
+export function alignSeries(
+  series: Map<string, SeriesPoint[]>,
+  metric: string,
+  stepMs: number,
+): { timestamps: number[]; values: Map<string, Array<number | null>> } {
+  const sums = new Map<string, Map<number, { total: number; n: number }>>();
+  const grid = new Set<number>();
+  for (const [key, points] of series) {
+    const buckets = new Map<number, { total: number; n: number }>();
+    for (const point of points) {
+      const value = point.metrics[metric];
+      const ts = Date.parse(point.timestamp);
+      if (typeof value !== 'number' || !Number.isFinite(value) || Number.isNaN(ts)) continue;
+      const bucket = Math.floor(ts / stepMs) * stepMs;
+      const entry = buckets.get(bucket) ?? { total: 0, n: 0 };
+      entry.total += value;
+      entry.n += 1;
+      buckets.set(bucket, entry);
+      grid.add(bucket);
+    }
+    sums.set(key, buckets);
+  }
+  const timestamps = Array.from(grid).sort((a, b) => a - b);
+  const values = new Map<string, Array<number | null>>();
+  for (const [key, buckets] of sums) {
+    values.set(
+      key,
+      timestamps.map((ts) => {
+        const entry = buckets.get(ts);
+        return entry ? entry.total / entry.n : null;
+      }),
+    );
+  }
+  return { timestamps, values };
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+/** Median across several aligned series at each grid index, ignoring gaps. */
+export function medianSeries(rows: Array<Array<number | null>>, length: number): Array<number | null> {
+  return Array.from({ length }, (_, index) =>
+    median(rows.map((row) => row[index]).filter((value): value is number => typeof value === 'number')),
+  );
+}
+
+/** Rescales one device's values to 0–1 (`minmax`) or to standard scores (`zscore`). */
+export function normalizeValues(values: Array<number | null>, method: CompareNormalize): Array<number | null> {
+  const present = values.filter((value): value is number => value !== null);
+  if (method === 'none' || present.length === 0) return values;
+  if (method === 'minmax') {
+    const min = Math.min(...present);
+    const span = Math.max(...present) - min;
+    return values.map((value) => (value === null ? null : span > 0 ? (value - min) / span : 0));
+  }
+  const mean = present.reduce((acc, value) => acc + value, 0) / present.length;
+  const std = Math.sqrt(present.reduce((acc, value) => acc + (value - mean) ** 2, 0) / present.length);
+  return values.map((value) => (value === null ? null : std > 0 ? (value - mean) / std : 0));
+}
+
+const round4 = (value: number | null) => (value === null ? null : Math.round(value * 10_000) / 10_000);
+
+/**
+ * Overlays the compared devices on one time axis. In difference mode each device is shown
+ * relative to the median of its own site (`referenceBySite` lists the devices that make up that
+ * median); normalisation is applied per device afterwards.
+ */
+export function buildComparison(input: {
+  devices: Array<{ deviceId: string; siteId: string | null }>;
+  series: Map<string, SeriesPoint[]>;
+  referenceBySite: Map<string, string[]>;
+  metric: string;
+  mode: CompareMode;
+  normalize: CompareNormalize;
+  stepMs: number;
+}): { timestamps: string[]; series: ComparedSeries[]; medians: Array<{ siteId: string; values: Array<number | null> }> } {
+  const { timestamps, values } = alignSeries(input.series, input.metric, input.stepMs);
+  const medians = new Map<string, Array<number | null>>();
+  if (input.mode === 'difference') {
+    for (const [siteId, deviceIds] of input.referenceBySite) {
+      const rows = deviceIds.map((id) => values.get(id)).filter((row): row is Array<number | null> => Boolean(row));
+      medians.set(siteId, medianSeries(rows, timestamps.length));
+    }
+  }
+
+  const series = input.devices.map(({ deviceId, siteId }) => {
+    let row = values.get(deviceId) ?? timestamps.map(() => null);
+    if (input.mode === 'difference') {
+      const reference = siteId ? medians.get(siteId) : undefined;
+      row = row.map((value, index) => {
+        const base = reference?.[index];
+        return value === null || base === null || base === undefined ? null : value - base;
+      });
+    }
+    return { deviceId, siteId, values: normalizeValues(row, input.normalize).map(round4) };
+  });
+
+  return {
+    timestamps: timestamps.map((ts) => new Date(ts).toISOString()),
+    series,
+    medians: Array.from(medians.entries()).map(([siteId, row]) => ({ siteId, values: row.map(round4) })),
+  };
+}
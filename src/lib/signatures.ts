@@ -0,0 +1,214 @@
+import type { D1Database, Env } from '../types/env';
+import { loadSessionAttachments, sniffContentType } from './attachments';
+
+export type SignatureRow = {
+  session_id: string;
+  signer_name: string;
+  signed_at: string;
+  signature_key: string;
+  signature_sha256: string;
+  state_hash: string;
+  seal: string;
+  captured_by: string | null;
+};
+
+export type SignatureInput = { signerName: string; image: Uint8Array };
+
+export type SignatureVerification = {
+  stateHash: string | null;
+  stateMatches: boolean;
+  imageMatches: boolean;
+  sealValid: boolean;
+  valid: boolean;
+};
+
+export const MAX_SIGNATURE_BYTES = 200 * 1024;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+
+const sha256Hex = async (data: Uint8Array | string) => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return toHex(await crypto.subtle.digest('SHA-256', bytes.slice().buffer as ArrayBuffer));
+};
+
+const fromHex = (hex: string): Uint8Array | null =>
+  /^(?:[0-9a-f]{2})*$/i.test(hex) ? Uint8Array.from(hex.match(/../g) ?? [], (byte) => parseInt(byte, 16)) : null;
+
+/** Compares two hex digests byte by byte without stopping at the first difference. */
+function timingSafeEqualHex(a: string, b: string): boolean {
+  const left = fromHex(a);
+  const right = fromHex(b);
+  if (!left || !right || left.byteLength !== right.byteLength) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < left.byteLength; i += 1) {
+    diff |= left[i]! ^ right[i]!;
+  }
+  return diff === 0;
+}
+
+/** Seals are keyed separately from login tokens when a signing secret is configured, so rotating JWT_SECRET keeps old seals valid. */
+export const signingSecret = (env: Env) => env.COMMISSIONING_SIGNING_SECRET || env.JWT_SECRET;
+
+/** Accepts `{ signer_name, image }` where `image` is the PNG data URL drawn on the signature pad. */
+export function parseSignatureInput(value: unknown): { ok: true; value: SignatureInput } | { ok: false; errors: string[] } {
+  if (!value || typeof value !== 'object') {
+    return { ok: false, errors: ['signature must be an object'] };
+  }
+  const input = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const signerName = typeof input.signer_name === 'string' ? input.signer_name.trim() : '';
+  if (!signerName || signerName.length > 120) {
+    errors.push('signature.signer_name is required (at most 120 characters)');
+  }
+  const match = typeof input.image === 'string' ? /^data:image\/png;base64,([A-Za-z0-9+/=]+)$/.exec(input.image) : null;
+  let image = new Uint8Array(0);
+  if (!match) {
+    errors.push('signature.image must be a PNG data URL');
+  } else {
+    image = Uint8Array.from(atob(match[1]!), (char) => char.charCodeAt(0));
+    if (sniffContentType(image) !== 'image/png') {
+      errors.push('signature.image must be a PNG data URL');
+    } else if (image.byteLength > MAX_SIGNATURE_BYTES) {
+      errors.push(`signature.image must be under ${MAX_SIGNATURE_BYTES / 1024} KB`);
+    }
+  }
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: { signerName, image } };
+}
+
+/**
+ * SHA-256 over a canonical JSON snapshot of the session, its steps, its attachments and the signature itself.
+ * Changing any recorded result after signing changes the hash.
+ */
+export async function sessionStateHash(
+  DB: D1Database,
+  sessionId: string,
+  signature: Pick<SignatureRow, 'signer_name' | 'signed_at' | 'signature_sha256'>,
+): Promise<string | null> {
+  const session = await DB.prepare('SELECT * FROM commissioning_sessions WHERE session_id=?')
+    .bind(sessionId)
+    .first<Record<string, unknown>>();
+  if (!session) {
+    return null;
+  }
+  const steps = await DB.prepare(
+    'SELECT step_id,title,state,readings_json,comment,updated_at FROM commissioning_steps WHERE session_id=? ORDER BY updated_at',
+  )
+    .bind(sessionId)
+    .all<{ step_id: string; title: string; state: string; readings_json: string | null; comment: string | null }>();
+  const attachments = await loadSessionAttachments(DB, sessionId);
+
+  const snapshot = {
+    session: {
+      session_id: session.session_id,
+      device_id: session.device_id,
+      site_id: session.site_id ?? null,
+      checklist_id: session.checklist_id ?? null,
+      operator_sub: session.operator_sub ?? null,
+      started_at: session.started_at ?? null,
+      finished_at: session.finished_at ?? null,
+      status: session.status,
+      notes: session.notes ?? null,
+    },
+    steps: (steps.results ?? [])
+      .map((step) => ({
+        step_id: step.step_id,
+        title: step.title,
+        state: step.state,
+        readings_json: step.readings_json ?? null,
+        comment: step.comment ?? null,
+      }))
+      .sort((a, b) => a.step_id.localeCompare(b.step_id)),
+    attachments: attachments
+      .map((attachment) => ({
+        attachment_id: attachment.attachment_id,
+        step_id: attachment.step_id,
+        filename: attachment.filename,
+        content_type: attachment.content_type,
+        size_bytes: attachment.size_bytes,
+      }))
+      .sort((a, b) => a.attachment_id.localeCompare(b.attachment_id)),
+    signature: {
+      signer_name: signature.signer_name,
+      signed_at: signature.signed_at,
+      signature_sha256: signature.signature_sha256,
+    },
+  };
+  return sha256Hex(JSON.stringify(snapshot));
+}
+
+/** HMAC-SHA256 over `${session_id}.${state_hash}`, hex encoded. */
+export async function sealStateHash(secret: string, sessionId: string, stateHash: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${sessionId}.${stateHash}`)));
+}
+
+/** Re-derives the state hash, re-hashes the stored signature image and checks the seal. */
+export async function verifySignature(env: Env, row: SignatureRow): Promise<SignatureVerification> {
+  const stateHash = await sessionStateHash(env.DB, row.session_id, row);
+  const stateMatches = stateHash !== null && timingSafeEqualHex(stateHash, row.state_hash);
+  const image = await env.REPORTS.get(row.signature_key);
+  const imageMatches =
+    image !== null && timingSafeEqualHex(await sha256Hex(new Uint8Array(await image.arrayBuffer())), row.signature_sha256);
+  const seal = await sealStateHash(signingSecret(env), row.session_id, row.state_hash);
+  const sealValid = timingSafeEqualHex(seal, row.seal);
+  return { stateHash, stateMatches, imageMatches, sealValid, valid: stateMatches && imageMatches && sealValid };
+}
+
+/** Stores the drawn signature and seals the session state as it stands once the outcome is recorded. */
+export async function recordSignature(
+  env: Env,
+  sessionId: string,
+  input: SignatureInput,
+  capturedBy: string | null,
+): Promise<SignatureRow | null> {
+  const signature = {
+    signer_name: input.signerName,
+    signed_at: new Date().toISOString(),
+    signature_sha256: await sha256Hex(input.image),
+  };
+  const stateHash = await sessionStateHash(env.DB, sessionId, signature);
+  if (!stateHash) {
+    return null;
+  }
+  const row: SignatureRow = {
+    ...signature,
+    session_id: sessionId,
+    signature_key: `commissioning/${sessionId}/signature.png`,
+    state_hash: stateHash,
+    seal: await sealStateHash(signingSecret(env), sessionId, stateHash),
+    captured_by: capturedBy,
+  };
+  await env.REPORTS.put(row.signature_key, input.image, { httpMetadata: { contentType: 'image/png' } });
+  await env.DB.prepare(
+    `INSERT INTO commissioning_signatures
+       (session_id, signer_name, signed_at, signature_key, signature_sha256, state_hash, seal, captured_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  )
+    .bind(
+      row.session_id,
+      row.signer_name,
+      row.signed_at,
+      row.signature_key,
+      row.signature_sha256,
+      row.state_hash,
+      row.seal,
+      row.captured_by,
+    )
+    .run();
+  return row;
+}
+
+export async function loadSignature(DB: D1Database, sessionId: string): Promise<SignatureRow | null> {
+  return DB.prepare('SELECT * FROM commissioning_signatures WHERE session_id=?').bind(sessionId).first<SignatureRow>();
+}
@@ -0,0 +1,401 @@
+import type { D1Database } from '../types/env';
+import { forEachEnergyInterval, loadEnergySamples, utcDay, type EnergySample } from './energy';
+import { CLOCK_TIME_PATTERN, isValidTimeZone, localTimeParts, weeklyWindowCovers } from './time';
+
+/** A priced time-of-use window. `days` uses 0 = Sunday … 6 = Saturday, times are local HH:MM. */
+export type TariffBand = {
+  name: string;
+  rate: number;
+  days: number[];
+  start: string;
+  end: string;
+};
+
+/** Rates for a set of months (1-12). `rate` applies outside every band (off-peak / flat). */
+export type TariffSeason = {
+  name: string;
+  months: number[];
+  rate: number;
+  bands: TariffBand[];
+};
+
+export type TariffDefinition = {
+  seasons: TariffSeason[];
+};
+
+export type TariffRow = {
+  id: string;
+  name: string;
+  currency: string;
+  timezone: string;
+  definition_json: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Tariff = {
+  id: string;
+  name: string;
+  currency: string;
+  timezone: string;
+  definition: TariffDefinition;
+};
+
+export type TariffInput = {
+  name: string;
+  currency: string;
+  timezone: string;
+  definition: TariffDefinition;
+  siteIds: string[];
+  clientIds: string[];
+};
+
+export type CostTotals = {
+  cost: number;
+  kwhElectric: number;
+  kwhThermal: number;
+  bands: Record<string, { kwh: number; cost: number }>;
+};
+
+export type CostDailyRow = {
+  device_id: string;
+  day: string;
+  tariff_id: string;
+  currency: string;
+  cost: number;
+  kwh_electric: number;
+  kwh_thermal: number;
+  bands_json: string;
+};
+
+export const DEFAULT_TARIFF_TIMEZONE = 'Africa/Johannesburg';
+const ALL_MONTHS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+const MAX_SEASONS = 4;
+const MAX_BANDS = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round4 = (value: number) => Math.round(value * 10_000) / 10_000;
+
+/** Resolves the rate in force at `ms`. The first matching season and band win. */
+export function rateAt(tariff: Pick<Tariff, 'timezone' | 'definition'>, ms: number): { rate: number; band: string } {
+  const { month, weekday, minute } = localTimeParts(ms, tariff.timezone);
+  const seasons = tariff.definition.seasons;
+  const season = seasons.find((candidate) => candidate.months.includes(month)) ?? seasons[0];
+  if (!season) {
+    return { rate: 0, band: 'none' };
+  }
+  const band = season.bands.find((candidate) => weeklyWindowCovers(candidate, weekday, minute));
+  return band ? { rate: band.rate, band: band.name } : { rate: season.rate, band: 'standard' };
+}
+
+/**
+ * Prices integrated electricity per UTC day. Each interval is charged at the rate in force at its
+ * midpoint; intervals are at most a few minutes long, so band edges cost little accuracy.
+ */
+export function priceEnergyByDay(samples: EnergySample[], tariff: Pick<Tariff, 'timezone' | 'definition'>) {
+  const days = new Map<string, CostTotals>();
+  forEachEnergyInterval(samples, (startMs, endMs, kwhElectric, kwhThermal) => {
+    const day = utcDay(startMs);
+    let totals = days.get(day);
+    if (!totals) {
+      totals = { cost: 0, kwhElectric: 0, kwhThermal: 0, bands: {} };
+      days.set(day, totals);
+    }
+    const { rate, band } = rateAt(tariff, (startMs + endMs) / 2);
+    const cost = kwhElectric * rate;
+    totals.cost += cost;
+    totals.kwhElectric += kwhElectric;
+    totals.kwhThermal += kwhThermal;
+    const bucket = totals.bands[band] ?? { kwh: 0, cost: 0 };
+    bucket.kwh += kwhElectric;
+    bucket.cost += cost;
+    totals.bands[band] = bucket;
+  });
+  return days;
+}
+
+export function parseTariffRow(row: TariffRow): Tariff {
+  let definition: TariffDefinition = { seasons: [] };
+  try {
+    const parsed = JSON.parse(row.definition_json) as TariffDefinition;
+    if (parsed && Array.isArray(parsed.seasons)) {
+      definition = parsed;
+    }
+  } catch {
+    // fall through with an empty definition, which prices everything at zero
+  }
+  return { id: row.id, name: row.name, currency: row.currency, timezone: row.timezone, definition };
+}
+
+/**
+ * Returns a resolver from device to tariff. A site assignment wins over a client assignment;
+ * when a site belongs to several clients with different tariffs, the lowest client id wins.
+ */
+export async function loadTariffResolver(DB: D1Database) {
+  const [tariffs, assignments, devices] = await Promise.all([
+    DB.prepare('SELECT id, name, currency, timezone, definition_json, created_at, updated_at FROM tariffs').all<TariffRow>(),
+    DB.prepare('SELECT tariff_id, scope, scope_id FROM tariff_assignments ORDER BY scope_id').all<{
+      tariff_id: string;
+      scope: 'site' | 'client';
+      scope_id: string;
+    }>(),
+    DB.prepare(
+      `SELECT d.device_id, d.site_id, GROUP_CONCAT(sc.client_id) AS client_ids
+         FROM devices d
+         LEFT JOIN site_clients sc ON sc.site_id = d.site_id
+        GROUP BY d.device_id`,
+    ).all<{ device_id: string; site_id: string | null; client_ids: string | null }>(),
+  ]);
+  const byId = new Map((tariffs.results ?? []).map((row) => [row.id, parseTariffRow(row)]));
+  const bySite = new Map<string, string>();
+  const byClient = new Map<string, string>();
+  for (const row of assignments.results ?? []) {
+    (row.scope === 'site' ? bySite : byClient).set(row.scope_id, row.tariff_id);
+  }
+  const deviceTariff = new Map<string, Tariff>();
+  for (const device of devices.results ?? []) {
+    let tariffId = device.site_id ? bySite.get(device.site_id) : undefined;
+    if (!tariffId && device.client_ids) {
+      const clientIds = device.client_ids.split(',').sort();
+      tariffId = clientIds.map((id) => byClient.get(id)).find((id): id is string => !!id);
+    }
+    const tariff = tariffId ? byId.get(tariffId) : undefined;
+    if (tariff) {
+      deviceTariff.set(device.device_id, tariff);
+    }
+  }
+  return (deviceId: string) => deviceTariff.get(deviceId) ?? null;
+}
+
+/** Recomputes `device_cost_daily` for the trailing `days` UTC days. Returns device-days written. */
+export async function rollupCostDaily(DB: D1Database, days = 2, now = new Date()): Promise<number> {
+  const resolve = await loadTariffResolver(DB);
+  const todayMs = Date.parse(`${utcDay(now.getTime())}T00:00:00Z`);
+  const startMs = todayMs - (days - 1) * DAY_MS;
+  const devices = await DB.prepare('SELECT device_id FROM devices').all<{ device_id: string }>();
+  let written = 0;
+  for (const device of devices.results ?? []) {
+    const tariff = resolve(device.device_id);
+    if (!tariff) continue;
+    const samples = await loadEnergySamples(
+      DB,
+      device.device_id,
+      new Date(startMs).toISOString(),
+      new Date(todayMs + DAY_MS).toISOString(),
+    );
+    const priced = priceEnergyByDay(samples, tariff);
+    if (priced.size === 0) continue;
+    await DB.batch(
+      Array.from(priced.entries()).map(([day, totals]) =>
+        DB.prepare(
+          `INSERT INTO device_cost_daily (device_id, day, tariff_id, currency, cost, kwh_electric, kwh_thermal, bands_json, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+           ON CONFLICT(device_id, day) DO UPDATE SET
+             tariff_id=excluded.tariff_id,
+             currency=excluded.currency,
+             cost=excluded.cost,
+             kwh_electric=excluded.kwh_electric,
+             kwh_thermal=excluded.kwh_thermal,
+             bands_json=excluded.bands_json,
+             updated_at=excluded.updated_at`,
+        ).bind(
+          device.device_id,
+          day,
+          tariff.id,
+          tariff.currency,
+          round4(totals.cost),
+          round4(totals.kwhElectric),
+          round4(totals.kwhThermal),
+          JSON.stringify(
+            Object.fromEntries(
+              Object.entries(totals.bands).map(([band, value]) => [band, { kwh: round4(value.kwh), cost: round4(value.cost) }]),
+            ),
+          ),
+        ),
+      ),
+    );
+    written += priced.size;
+  }
+  return written;
+}
+
+export type CostSummary = {
+  currency: string | null;
+  cost: number;
+  kwhElectric: number;
+  kwhThermal: number;
+  costPerDay: number | null;
+  costPerKwhHeat: number | null;
+  days: Array<{ day: string; cost: number; kwhElectric: number; kwhThermal: number }>;
+};
+
+type CostSumRow = {
+  day: string;
+  currency: string;
+  cost: number | null;
+  kwh_electric: number | null;
+  kwh_thermal: number | null;
+};
+
+/**
+ * Sums stored daily costs for a set of devices. Mixed currencies report `currency: null`. Devices are read
+ * 90 at a time so a large fleet stays under D1's bound-parameter limit.
+ */
+export async function loadCostSummary(
+  DB: D1Database,
+  deviceIds: string[],
+  fromDay: string,
+  toDay: string,
+): Promise<CostSummary> {
+  const empty: CostSummary = {
+    currency: null,
+    cost: 0,
+    kwhElectric: 0,
+    kwhThermal: 0,
+    costPerDay: null,
+    costPerKwhHeat: null,
+    days: [],
+  };
+  const list: CostSumRow[] = [];
+  for (let i = 0; i < deviceIds.length; i += 90) {
+    const chunk = deviceIds.slice(i, i + 90);
+    const rows = await DB.prepare(
+      `SELECT day, currency, SUM(cost) AS cost, SUM(kwh_electric) AS kwh_electric, SUM(kwh_thermal) AS kwh_thermal
+         FROM device_cost_daily
+        WHERE device_id IN (${chunk.map(() => '?').join(',')}) AND day >= ? AND day <= ?
+        GROUP BY day, currency`,
+    )
+      .bind(...chunk, fromDay, toDay)
+      .all<CostSumRow>();
+    list.push(...(rows.results ?? []));
+  }
+  if (list.length === 0) return empty;
+
+  const currencies = new Set(list.map((row) => row.currency));
+  const days = new Map<string, { day: string; cost: number; kwhElectric: number; kwhThermal: number }>();
+  for (const row of list) {
+    const entry = days.get(row.day) ?? { day: row.day, cost: 0, kwhElectric: 0, kwhThermal: 0 };
+    entry.cost += row.cost ?? 0;
+    entry.kwhElectric += row.kwh_electric ?? 0;
+    entry.kwhThermal += row.kwh_thermal ?? 0;
+    days.set(row.day, entry);
+  }
+  const series = Array.from(days.values())
+    .sort((a, b) => a.day.localeCompare(b.day))
+    .map((entry) => ({
+      day: entry.day,
+      cost: Math.round(entry.cost * 100) / 100,
+      kwhElectric: round4(entry.kwhElectric),
+      kwhThermal: round4(entry.kwhThermal),
+    }));
+  const cost = series.reduce((acc, entry) => acc + entry.cost, 0);
+  const kwhElectric = series.reduce((acc, entry) => acc + entry.kwhElectric, 0);
+  const kwhThermal = series.reduce((acc, entry) => acc + entry.kwhThermal, 0);
+  return {
+    currency: currencies.size === 1 ? (list[0]?.currency ?? null) : null,
+    cost: Math.round(cost * 100) / 100,
+    kwhElectric: round4(kwhElectric),
+    kwhThermal: round4(kwhThermal),
+    costPerDay: series.length > 0 ? Math.round((cost / series.length) * 100) / 100 : null,
+    costPerKwhHeat: kwhThermal > 0 ? round4(cost / kwhThermal) : null,
+    days: series,
+  };
+}
+
+const isRate = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const stringList = (value: unknown) =>
+  Array.isArray(value) ? Array.from(new Set(value.filter((item): item is string => typeof item === 'string' && !!item.trim()).map((item) => item.trim()))) : [];
+
+/**
+ * Accepts either `{ rate }` for a flat tariff or `{ seasons: [...] }` for seasonal/time-of-use.
+ */
+export function parseTariffInput(body: unknown): { ok: true; value: TariffInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > 120) {
+    errors.push('name is required (max 120 characters)');
+  }
+  const currency = typeof input.currency === 'string' ? input.currency.trim().toUpperCase() : 'ZAR';
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    errors.push('currency must be a 3-letter ISO code');
+  }
+  const timezone = typeof input.timezone === 'string' && input.timezone.trim() ? input.timezone.trim() : DEFAULT_TARIFF_TIMEZONE;
+  if (!isValidTimeZone(timezone)) {
+    errors.push('timezone must be an IANA time zone');
+  }
+
+  const seasons: TariffSeason[] = [];
+  if (input.seasons === undefined && input.rate !== undefined) {
+    if (!isRate(input.rate)) {
+      errors.push('rate must be a non-negative number');
+    } else {
+      seasons.push({ name: 'All year', months: ALL_MONTHS, rate: input.rate, bands: [] });
+    }
+  } else if (!Array.isArray(input.seasons) || input.seasons.length === 0 || input.seasons.length > MAX_SEASONS) {
+    errors.push(`provide a flat rate or between 1 and ${MAX_SEASONS} seasons`);
+  } else {
+    input.seasons.forEach((raw, seasonIndex) => {
+      const season = (raw ?? {}) as Record<string, unknown>;
+      const path = `seasons[${seasonIndex}]`;
+      const months = Array.isArray(season.months) && season.months.length > 0 ? season.months : ALL_MONTHS;
+      if (!months.every((month) => Number.isInteger(month) && month >= 1 && month <= 12)) {
+        errors.push(`${path}.months must contain months 1-12`);
+      }
+      if (!isRate(season.rate)) {
+        errors.push(`${path}.rate must be a non-negative number`);
+      }
+      const rawBands = Array.isArray(season.bands) ? season.bands : [];
+      if (rawBands.length > MAX_BANDS) {
+        errors.push(`${path} allows at most ${MAX_BANDS} bands`);
+      }
+      const bands: TariffBand[] = [];
+      rawBands.slice(0, MAX_BANDS).forEach((rawBand, bandIndex) => {
+        const band = (rawBand ?? {}) as Record<string, unknown>;
+        const bandPath = `${path}.bands[${bandIndex}]`;
+        const bandName = typeof band.name === 'string' ? band.name.trim() : '';
+        const days = Array.isArray(band.days) ? band.days : [];
+        if (!bandName) errors.push(`${bandPath}.name is required`);
+        if (!isRate(band.rate)) errors.push(`${bandPath}.rate must be a non-negative number`);
+        if (days.length === 0 || !days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+          errors.push(`${bandPath}.days must list weekdays 0 (Sunday) to 6 (Saturday)`);
+        }
+        if (typeof band.start !== 'string' || !CLOCK_TIME_PATTERN.test(band.start)) errors.push(`${bandPath}.start must be HH:MM`);
+        if (typeof band.end !== 'string' || !CLOCK_TIME_PATTERN.test(band.end)) errors.push(`${bandPath}.end must be HH:MM`);
+        bands.push({
+          name: bandName,
+          rate: band.rate as number,
+          days: days as number[],
+          start: band.start as string,
+          end: band.end as string,
+        });
+      });
+      seasons.push({
+        name: typeof season.name === 'string' && season.name.trim() ? season.name.trim() : `Season ${seasonIndex + 1}`,
+        months: months as number[],
+        rate: season.rate as number,
+        bands,
+      });
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: {
+      name,
+      currency,
+      timezone,
+      definition: { seasons },
+      siteIds: stringList(input.siteIds),
+      clientIds: stringList(input.clientIds),
+    },
+  };
+}
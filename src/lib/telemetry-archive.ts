@@ -0,0 +1,225 @@
+import type { D1Database, R2Bucket } from '../types/env';
+import { utcDay } from './energy';
+import {
+  ROLLUP_LATE_ARRIVAL_MS,
+  readRollupWatermark,
+  telemetryRowToSample,
+  type ArchiveReader,
+  type RollupSample,
+} from './rollups';
+import { getNum } from './settings';
+
+export type TelemetryRetention = {
+  /** Raw telemetry older than this stays in D1 only until the nightly archive run. */
+  rawDays: number;
+  /** 1-minute rollups are pruned after this; coarser rollups are kept indefinitely. */
+  minuteRollupDays: number;
+};
+
+export const DEFAULT_TELEMETRY_RETENTION: TelemetryRetention = { rawDays: 90, minuteRollupDays: 90 };
+export const MIN_RAW_RETENTION_DAYS = 7;
+
+/** One archived NDJSON line: the telemetry row exactly as it was stored in D1. */
+export type ArchivedTelemetryRow = {
+  device_id: string;
+  ts: string;
+  metrics_json: string | null;
+  deltaT: number | null;
+  thermalKW: number | null;
+  cop: number | null;
+  cop_quality: string | null;
+  status_json: string | null;
+  faults_json: string | null;
+};
+
+export type ArchiveManifestEntry = {
+  device_id: string;
+  day: string;
+  object_key: string;
+  row_count: number;
+  size_bytes: number;
+  first_ts: string;
+  last_ts: string;
+  archived_at: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PARTITIONS_PER_RUN = 200;
+/** Raw and 1-minute series windows span at most a day or so; this bounds R2 reads per request. */
+const MAX_ARCHIVE_DAYS_PER_READ = 4;
+const TELEMETRY_COLUMNS = 'device_id, ts, metrics_json, deltaT, thermalKW, cop, cop_quality, status_json, faults_json';
+
+const startOfDay = (ms: number) => Math.floor(ms / DAY_MS) * DAY_MS;
+
+export async function loadTelemetryRetention(DB: D1Database): Promise<TelemetryRetention> {
+  const rawDays = Math.max(
+    MIN_RAW_RETENTION_DAYS,
+    Math.floor(await getNum(DB, 'telemetry_retention_raw_days', DEFAULT_TELEMETRY_RETENTION.rawDays)),
+  );
+  // Archived days are rebuilt from raw files, so 1-minute rollups never outlive the raw rows.
+  const minuteRollupDays = Math.max(
+    rawDays,
+    Math.floor(await getNum(DB, 'telemetry_retention_1m_days', DEFAULT_TELEMETRY_RETENTION.minuteRollupDays)),
+  );
+  return { rawDays, minuteRollupDays };
+}
+
+/**
+ * Start of the first UTC day that stays in D1. Days are only archived once the rollups have
+ * absorbed them (plus the late-arrival window), so no rollup is ever built from a partial day.
+ */
+export function archiveCutoff(nowMs: number, rawDays: number, watermarkMs: number): number {
+  return Math.min(startOfDay(nowMs - rawDays * DAY_MS), startOfDay(watermarkMs - ROLLUP_LATE_ARRIVAL_MS));
+}
+
+/** Partitioned by device, then day: `telemetry/<device>/<YYYY-MM-DD>.ndjson`. */
+export function archiveObjectKey(deviceId: string, day: string): string {
+  return `telemetry/${encodeURIComponent(deviceId)}/${day}.ndjson`;
+}
+
+export function toNdjson(rows: ArchivedTelemetryRow[]): string {
+  return rows.map((row) => JSON.stringify(row)).join('\n') + (rows.length ? '\n' : '');
+}
+
+export function parseArchivedRows(text: string): ArchivedTelemetryRow[] {
+  const rows: ArchivedTelemetryRow[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const row = JSON.parse(line) as ArchivedTelemetryRow;
+      if (typeof row.device_id === 'string' && typeof row.ts === 'string') rows.push(row);
+    } catch {
+      // A torn line only loses itself.
+    }
+  }
+  return rows;
+}
+
+/** Rows for the same device/day archived on an earlier run plus late arrivals; newer copies win. */
+export function mergeArchivedRows(
+  existing: ArchivedTelemetryRow[],
+  incoming: ArchivedTelemetryRow[],
+): ArchivedTelemetryRow[] {
+  const byTs = new Map<string, ArchivedTelemetryRow>();
+  for (const row of [...existing, ...incoming]) byTs.set(row.ts, row);
+  return Array.from(byTs.values()).sort((a, b) => a.ts.localeCompare(b.ts));
+}
+
+async function readArchivedObject(bucket: R2Bucket, key: string): Promise<ArchivedTelemetryRow[]> {
+  const object = await bucket.get(key);
+  return object ? parseArchivedRows(await object.text()) : [];
+}
+
+/**
+ * Moves raw telemetry older than the retention period to `bucket`, one NDJSON object per device
+ * and UTC day, records each object in `telemetry_archive` and `export_log`, then deletes the rows
+ * from D1. Rows are only deleted after the object and manifest are written, so a failed run
+ * leaves D1 intact and is simply retried the next night. Also prunes expired 1-minute rollups.
+ */
+export async function archiveTelemetry(
+  DB: D1Database,
+  bucket: R2Bucket,
+  now = new Date(),
+  maxPartitions = MAX_PARTITIONS_PER_RUN,
+): Promise<{ partitions: number; rows: number; bytes: number; cutoff: string | null }> {
+  const retention = await loadTelemetryRetention(DB);
+  const watermark = await readRollupWatermark(DB);
+  if (watermark === null) return { partitions: 0, rows: 0, bytes: 0, cutoff: null };
+  const cutoff = archiveCutoff(now.getTime(), retention.rawDays, watermark);
+  const cutoffIso = new Date(cutoff).toISOString();
+
+  const partitions = await DB.prepare(
+    `SELECT device_id, substr(ts, 1, 10) AS day
+       FROM telemetry
+      WHERE ts < ?
+      GROUP BY device_id, day
+      ORDER BY day, device_id
+      LIMIT ?`,
+  )
+    .bind(cutoffIso, maxPartitions)
+    .all<{ device_id: string; day: string }>();
+
+  let rows = 0;
+  let bytes = 0;
+  const encoder = new TextEncoder();
+  for (const { device_id: deviceId, day } of partitions.results ?? []) {
+    const dayStart = `${day}T00:00:00.000Z`;
+    const dayEnd = new Date(Date.parse(dayStart) + DAY_MS).toISOString();
+    const fresh = await DB.prepare(
+      `SELECT ${TELEMETRY_COLUMNS} FROM telemetry WHERE device_id=? AND ts >= ? AND ts < ? ORDER BY ts`,
+    )
+      .bind(deviceId, dayStart, dayEnd)
+      .all<ArchivedTelemetryRow>();
+    const incoming = fresh.results ?? [];
+    if (incoming.length === 0) continue;
+
+    const key = archiveObjectKey(deviceId, day);
+    const previous = await DB.prepare('SELECT object_key FROM telemetry_archive WHERE device_id=? AND day=?')
+      .bind(deviceId, day)
+      .first<{ object_key: string }>();
+    const merged = previous ? mergeArchivedRows(await readArchivedObject(bucket, previous.object_key), incoming) : incoming;
+    const body = toNdjson(merged);
+    const size = encoder.encode(body).length;
+    await bucket.put(key, body, {
+      httpMetadata: { contentType: 'application/x-ndjson' },
+      customMetadata: { deviceId, day, rows: String(merged.length) },
+    });
+
+    const archivedAt = now.toISOString();
+    await DB.batch([
+      DB.prepare(
+        `INSERT INTO telemetry_archive (device_id, day, object_key, row_count, size_bytes, first_ts, last_ts, archived_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(device_id, day) DO UPDATE SET
+           object_key=excluded.object_key,
+           row_count=excluded.row_count,
+           size_bytes=excluded.size_bytes,
+           first_ts=excluded.first_ts,
+           last_ts=excluded.last_ts,
+           archived_at=excluded.archived_at`,
+      ).bind(deviceId, day, key, merged.length, size, merged[0]!.ts, merged[merged.length - 1]!.ts, archivedAt),
+      DB.prepare(
+        `INSERT INTO export_log (id, table_name, row_count, object_key, size_bytes, exported_at, meta_json)
+         VALUES (?, 'telemetry', ?, ?, ?, ?, ?)`,
+      ).bind(crypto.randomUUID(), merged.length, key, size, archivedAt, JSON.stringify({ deviceId, day, retention: true })),
+      // Bounded by the last row read so telemetry landing mid-run waits for the next night.
+      DB.prepare('DELETE FROM telemetry WHERE device_id=? AND ts >= ? AND ts <= ?').bind(
+        deviceId,
+        dayStart,
+        incoming[incoming.length - 1]!.ts,
+      ),
+    ]);
+    rows += incoming.length;
+    bytes += size;
+  }
+
+  const minuteCutoff = new Date(
+    Math.min(cutoff, startOfDay(now.getTime() - retention.minuteRollupDays * DAY_MS)),
+  ).toISOString();
+  await DB.prepare("DELETE FROM telemetry_rollups WHERE resolution='1m' AND bucket < ?").bind(minuteCutoff).run();
+
+  return { partitions: partitions.results?.length ?? 0, rows, bytes, cutoff: cutoffIso };
+}
+
+/** Reads archived samples back for series queries; days without a manifest entry cost one query. */
+export function createArchiveReader(DB: D1Database, bucket: R2Bucket | null | undefined): ArchiveReader {
+  return async (deviceId, fromMs, toMs) => {
+    if (!bucket || toMs <= fromMs) return [];
+    const entries = await DB.prepare(
+      `SELECT object_key FROM telemetry_archive
+        WHERE device_id=? AND day >= ? AND day <= ?
+        ORDER BY day
+        LIMIT ?`,
+    )
+      .bind(deviceId, utcDay(fromMs), utcDay(toMs - 1), MAX_ARCHIVE_DAYS_PER_READ)
+      .all<{ object_key: string }>();
+    const samples: RollupSample[] = [];
+    for (const entry of entries.results ?? []) {
+      for (const row of await readArchivedObject(bucket, entry.object_key)) {
+        const sample = telemetryRowToSample(row);
+        if (sample && sample.ts >= fromMs && sample.ts < toMs) samples.push(sample);
+      }
+    }
+    return samples;
+  };
+}
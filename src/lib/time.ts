@@ -3,3 +3,69 @@ export const hourOfWeek = (d: Date | number) => {
   const dow = (t.getUTCDay() + 6) % 7;
   return dow * 24 + t.getUTCHours();
 };
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Local month (1-12), weekday (0 = Sunday) and minute of day in an IANA time zone. */
+export function localTimeParts(ms: number, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(new Date(ms))) {
+    parts[part.type] = part.value;
+  }
+  return {
+    month: Number(parts.month),
+    weekday: WEEKDAYS[parts.weekday ?? ''] ?? 0,
+    minute: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/** Minutes since midnight for an `HH:MM` clock time. */
+export const clockMinutes = (value: string) => {
+  const [hours = '0', minutes = '0'] = value.split(':');
+  return Number(hours) * 60 + Number(minutes);
+};
+
+/** A recurring `HH:MM`–`HH:MM` window on the given weekdays (0 = Sunday). Equal ends cover the whole day. */
+export type WeeklyWindow = { days: number[]; start: string; end: string };
+
+/** Whether a window covers a local weekday and minute of day. */
+export function weeklyWindowCovers(window: WeeklyWindow, weekday: number, minute: number): boolean {
+  const start = clockMinutes(window.start);
+  const end = clockMinutes(window.end);
+  if (start === end) {
+    return window.days.includes(weekday);
+  }
+  if (start < end) {
+    return window.days.includes(weekday) && minute >= start && minute < end;
+  }
+  // Window wraps midnight: the early-morning tail belongs to the previous day's window.
+  if (minute >= start) {
+    return window.days.includes(weekday);
+  }
+  return minute < end && window.days.includes((weekday + 6) % 7);
+}
+
+export const CLOCK_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
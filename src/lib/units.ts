@@ -0,0 +1,209 @@
+import type { D1Database } from '../types/env';
+
+export type TemperatureUnit = 'C' | 'F';
+export type FlowUnit = 'lps' | 'lpm' | 'm3h' | 'gpm';
+export type PowerUnit = 'kW' | 'BTUh';
+export type EnergyUnit = 'kWh' | 'kBTU';
+
+/** Per-user display settings; stored values are always °C, L/s, kW and kWh. */
+export type DisplayPreferences = {
+  /** BCP 47 tag used for number and date formatting, e.g. `en-GB` or `de-DE`. */
+  locale: string;
+  temperature: TemperatureUnit;
+  flow: FlowUnit;
+  power: PowerUnit;
+  energy: EnergyUnit;
+};
+
+/** Temperature differences convert by scale only, so ΔT is a quantity of its own. */
+export type Quantity = 'temperature' | 'temperatureDelta' | 'flow' | 'power' | 'energy';
+
+export const DEFAULT_DISPLAY_PREFERENCES: DisplayPreferences = {
+  locale: 'en-GB',
+  temperature: 'C',
+  flow: 'lps',
+  power: 'kW',
+  energy: 'kWh',
+};
+
+const BTUH_PER_KW = 3412.142;
+const GPM_PER_LPS = 15.850323;
+
+const UNIT_OPTIONS = {
+  temperature: ['C', 'F'],
+  flow: ['lps', 'lpm', 'm3h', 'gpm'],
+  power: ['kW', 'BTUh'],
+  energy: ['kWh', 'kBTU'],
+} as const;
+
+const SYMBOLS: Record<string, string> = {
+  C: '°C',
+  F: '°F',
+  lps: 'L/s',
+  lpm: 'L/min',
+  m3h: 'm³/h',
+  gpm: 'GPM',
+  kW: 'kW',
+  BTUh: 'BTU/h',
+  kWh: 'kWh',
+  kBTU: 'kBTU',
+};
+
+/** Metric keys (stored camelCase and the snake_case series aliases) and the quantity they measure. */
+export const METRIC_QUANTITIES: Record<string, Quantity> = {
+  supplyC: 'temperature',
+  returnC: 'temperature',
+  tankC: 'temperature',
+  ambientC: 'temperature',
+  supply_c: 'temperature',
+  return_c: 'temperature',
+  tank_c: 'temperature',
+  ambient_c: 'temperature',
+  deltaT: 'temperatureDelta',
+  delta_t: 'temperatureDelta',
+  flowLps: 'flow',
+  flow_lps: 'flow',
+  powerKW: 'power',
+  power_kw: 'power',
+  thermalKW: 'power',
+  thermal_kw: 'power',
+};
+
+const unitFor = (quantity: Quantity, prefs: DisplayPreferences): string =>
+  quantity === 'temperature' || quantity === 'temperatureDelta' ? prefs.temperature : prefs[quantity];
+
+const isSupportedLocale = (value: string): boolean => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([value]).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+export function parseDisplayPreferences(
+  body: unknown,
+): { ok: true; value: DisplayPreferences } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+  const value: DisplayPreferences = { ...DEFAULT_DISPLAY_PREFERENCES };
+
+  if (input.locale != null) {
+    if (typeof input.locale !== 'string' || !isSupportedLocale(input.locale.trim())) {
+      errors.push('locale must be a supported BCP 47 language tag');
+    } else {
+      value.locale = Intl.getCanonicalLocales(input.locale.trim())[0]!;
+    }
+  }
+  for (const key of Object.keys(UNIT_OPTIONS) as Array<keyof typeof UNIT_OPTIONS>) {
+    const raw = input[key];
+    if (raw == null) continue;
+    const options: readonly string[] = UNIT_OPTIONS[key];
+    if (typeof raw !== 'string' || !options.includes(raw)) {
+      errors.push(`${key} must be one of ${options.join(', ')}`);
+    } else {
+      (value as Record<string, string>)[key] = raw;
+    }
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}
+
+/** Lenient read of a stored preferences blob: unknown or invalid entries fall back to the defaults. */
+export function readDisplayPreferences(raw: string | null | undefined): DisplayPreferences {
+  if (!raw) return { ...DEFAULT_DISPLAY_PREFERENCES };
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const result = parseDisplayPreferences(parsed);
+    if (result.ok) return result.value;
+    const value = { ...DEFAULT_DISPLAY_PREFERENCES };
+    for (const key of Object.keys(value) as Array<keyof DisplayPreferences>) {
+      const single = parseDisplayPreferences({ [key]: parsed[key] });
+      if (single.ok) (value as Record<string, string>)[key] = single.value[key];
+    }
+    return value;
+  } catch {
+    return { ...DEFAULT_DISPLAY_PREFERENCES };
+  }
+}
+
+export async function loadDisplayPreferences(DB: D1Database, userId: string | null | undefined): Promise<DisplayPreferences> {
+  if (!userId) return { ...DEFAULT_DISPLAY_PREFERENCES };
+  try {
+    const row = await DB.prepare('SELECT preferences_json FROM auth_users WHERE id=?')
+      .bind(userId)
+      .first<{ preferences_json: string | null }>();
+    return readDisplayPreferences(row?.preferences_json);
+  } catch {
+    // Access-only users have no auth_users row, and older databases lack the column.
+    return { ...DEFAULT_DISPLAY_PREFERENCES };
+  }
+}
+
+export function convertQuantity(quantity: Quantity, value: number, prefs: DisplayPreferences): number {
+  switch (unitFor(quantity, prefs)) {
+    case 'F':
+      return quantity === 'temperatureDelta' ? value * 1.8 : value * 1.8 + 32;
+    case 'lpm':
+      return value * 60;
+    case 'm3h':
+      return value * 3.6;
+    case 'gpm':
+      return value * GPM_PER_LPS;
+    case 'BTUh':
+      return value * BTUH_PER_KW;
+    case 'kBTU':
+      return (value * BTUH_PER_KW) / 1000;
+    default:
+      return value;
+  }
+}
+
+export function unitSymbol(quantity: Quantity, prefs: DisplayPreferences): string {
+  return SYMBOLS[unitFor(quantity, prefs)] ?? '';
+}
+
+/** True when the preference differs from the stored unit, i.e. values of this quantity are converted. */
+export function isConverted(quantity: Quantity, prefs: DisplayPreferences): boolean {
+  return unitFor(quantity, prefs) !== unitFor(quantity, DEFAULT_DISPLAY_PREFERENCES);
+}
+
+export function formatNumber(value: number | null | undefined, digits: number, locale: string): string {
+  if (value == null || !Number.isFinite(value)) return '—';
+  return new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+}
+
+/** Converts a stored value and formats it with the unit symbol, e.g. `113.0 °F` or `0,50 L/s`. */
+export function formatQuantity(
+  quantity: Quantity,
+  value: number | null | undefined,
+  prefs: DisplayPreferences,
+  digits = 1,
+): string {
+  if (value == null || !Number.isFinite(value)) return '—';
+  return `${formatNumber(convertQuantity(quantity, value, prefs), digits, prefs.locale)} ${unitSymbol(quantity, prefs)}`;
+}
+
+/** Export column for a metric: converted metrics gain a unit suffix (`supplyC_F`) so files stay self-describing. */
+export function exportColumnName(metric: string, prefs: DisplayPreferences): string {
+  const quantity = METRIC_QUANTITIES[metric];
+  return quantity && isConverted(quantity, prefs) ? `${metric}_${unitFor(quantity, prefs)}` : metric;
+}
+
+export function convertMetricValue(metric: string, value: number | null, prefs: DisplayPreferences): number | null {
+  const quantity = METRIC_QUANTITIES[metric];
+  if (value == null || !quantity) return value;
+  return Math.round(convertQuantity(quantity, value, prefs) * 1000) / 1000;
+}
+
+/**
+ * CSV separators for a locale. Locales with a decimal comma get `;` between fields, the convention
+ * spreadsheet software in those locales expects.
+ */
+export function csvFormat(locale: string): { delimiter: string; decimal: string } {
+  const decimal =
+    new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal')?.value ?? '.';
+  return { delimiter: decimal === ',' ? ';' : ',', decimal };
+}
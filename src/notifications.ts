@@ -0,0 +1,504 @@
+import type { D1Database, Env } from './types/env';
+
+export type NotificationChannel = 'webhook' | 'slack' | 'teams';
+export type NotificationEventType = 'alert.opened' | 'incident.created';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['webhook', 'slack', 'teams'];
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = ['alert.opened', 'incident.created'];
+
+export type NotificationEvent = {
+  key: string;
+  type: NotificationEventType;
+  ts: string;
+  severity: string | null;
+  rules: string[];
+  deviceId: string | null;
+  siteId: string | null;
+  clientIds: string[];
+  alertId: string | null;
+  incidentId: string | null;
+  title: string;
+};
+
+export type NotificationSubscriptionRow = {
+  id: string;
+  name: string;
+  channel: string;
+  url: string;
+  secret: string | null;
+  template: string | null;
+  events: string | null;
+  severities: string | null;
+  rules: string | null;
+  client_ids: string | null;
+  site_ids: string | null;
+  enabled: number;
+  created_at: string;
+};
+
+export type NotificationDeliveryRow = {
+  id: string;
+  subscription_id: string;
+  event_key: string;
+  event_type: string;
+  event_json: string;
+  status: string;
+  attempts: number;
+  next_attempt_at: string;
+};
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 60 * 60_000;
+const EVENT_LOOKBACK_MINUTES = 60;
+const DELIVERY_BATCH = 50;
+const DELIVERY_TIMEOUT_MS = 10_000;
+// A delivery claimed by a run that died mid-send is retried once this lease runs out.
+const DELIVERY_LEASE_MS = 5 * 60_000;
+
+const parseList = (json: string | null): string[] | null => {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed.map(String) : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Empty or missing filters match everything; each populated filter must match. */
+export function subscriptionMatches(
+  sub: Pick<NotificationSubscriptionRow, 'events' | 'severities' | 'rules' | 'site_ids' | 'client_ids'>,
+  event: NotificationEvent,
+): boolean {
+  const events = parseList(sub.events);
+  if (events && !events.includes(event.type)) return false;
+  const severities = parseList(sub.severities);
+  if (severities && (!event.severity || !severities.includes(event.severity))) return false;
+  const rules = parseList(sub.rules);
+  if (rules && !event.rules.some((rule) => rules.includes(rule))) return false;
+  const sites = parseList(sub.site_ids);
+  if (sites && (!event.siteId || !sites.includes(event.siteId))) return false;
+  const clients = parseList(sub.client_ids);
+  if (clients && !event.clientIds.some((id) => clients.includes(id))) return false;
+  return true;
+}
+
+// datetime('now') yields "YYYY-MM-DD HH:MM:SS" in UTC without a zone marker.
+export const parseSqlTimestamp = (value: string) => Date.parse(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+
+export function backoffDelayMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+const templateValues = (event: NotificationEvent): Record<string, string> => ({
+  type: event.type,
+  ts: event.ts,
+  title: event.title,
+  severity: event.severity ?? '',
+  rule: event.rules[0] ?? '',
+  rules: event.rules.join(', '),
+  deviceId: event.deviceId ?? '',
+  siteId: event.siteId ?? '',
+  clientIds: event.clientIds.join(', '),
+  alertId: event.alertId ?? '',
+  incidentId: event.incidentId ?? '',
+});
+
+/**
+ * Substitutes `{{name}}` placeholders in a JSON template. Values are escaped as
+ * JSON string content so the rendered body stays valid JSON.
+ */
+export function renderTemplate(template: string, event: NotificationEvent): string {
+  const values = templateValues(event);
+  return template.replace(/\{\{\s*([A-Za-z]+)\s*\}\}/g, (match, name: string) =>
+    name in values ? JSON.stringify(values[name]).slice(1, -1) : match,
+  );
+}
+
+const SEVERITY_COLOURS: Record<string, string> = {
+  critical: 'D92D20',
+  major: 'F79009',
+  minor: '2E90FA',
+};
+
+export function buildNotificationBody(
+  channel: NotificationChannel,
+  template: string | null,
+  event: NotificationEvent,
+): string {
+  const headline = `[${(event.severity ?? 'info').toUpperCase()}] ${event.title}`;
+  const details = [
+    event.deviceId ? `Device: ${event.deviceId}` : null,
+    event.siteId ? `Site: ${event.siteId}` : null,
+    event.rules.length > 0 ? `Rule: ${event.rules.join(', ')}` : null,
+    `At: ${event.ts}`,
+  ].filter((line): line is string => line !== null);
+
+  if (channel === 'slack') {
+    return JSON.stringify({
+      text: headline,
+      blocks: [
+        { type: 'section', text: { type: 'mrkdwn', text: `*${headline}*` } },
+        { type: 'context', elements: details.map((text) => ({ type: 'mrkdwn', text })) },
+      ],
+    });
+  }
+
+  if (channel === 'teams') {
+    return JSON.stringify({
+      '@type': 'MessageCard',
+      '@context': 'https://schema.org/extensions',
+      themeColor: SEVERITY_COLOURS[event.severity ?? ''] ?? '667085',
+      summary: headline,
+      title: headline,
+      text: details.join('<br>'),
+    });
+  }
+
+  if (template) {
+    return renderTemplate(template, event);
+  }
+  return JSON.stringify({ event: event.type, ...event });
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+
+/** HMAC-SHA256 over `${timestamp}.${body}`, hex encoded. */
+export async function signNotification(secret: string, timestamp: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return toHex(signature);
+}
+
+export async function collectNotificationEvents(DB: D1Database): Promise<NotificationEvent[]> {
+  const cutoff = `-${EVENT_LOOKBACK_MINUTES} minutes`;
+  const events: NotificationEvent[] = [];
+
+  const alerts = await DB.prepare(
+    `SELECT a.alert_id, a.device_id, a.type, a.severity, a.opened_at, d.site_id,
+            (SELECT group_concat(sc.client_id) FROM site_clients sc WHERE sc.site_id = d.site_id) AS client_ids
+       FROM alerts a
+       LEFT JOIN devices d ON d.device_id = a.device_id
+      WHERE a.opened_at >= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', ?)
+      ORDER BY a.opened_at`,
+  )
+    .bind(cutoff)
+    .all<{
+      alert_id: string;
+      device_id: string;
+      type: string;
+      severity: string | null;
+      opened_at: string;
+      site_id: string | null;
+      client_ids: string | null;
+    }>();
+  for (const row of alerts.results ?? []) {
+    events.push({
+      key: `alert:${row.alert_id}`,
+      type: 'alert.opened',
+      ts: row.opened_at,
+      severity: row.severity,
+      rules: [row.type],
+      deviceId: row.device_id,
+      siteId: row.site_id,
+      clientIds: row.client_ids ? row.client_ids.split(',') : [],
+      alertId: row.alert_id,
+      incidentId: null,
+      title: `${row.type} on ${row.device_id}`,
+    });
+  }
+
+  const incidents = await DB.prepare(
+    `SELECT i.incident_id, i.site_id, i.started_at,
+            (SELECT group_concat(DISTINCT a.type) FROM incident_alerts ia JOIN alerts a ON a.alert_id = ia.alert_id
+              WHERE ia.incident_id = i.incident_id) AS rules,
+            (SELECT MAX(CASE a.severity WHEN 'critical' THEN 3 WHEN 'major' THEN 2 WHEN 'minor' THEN 1 ELSE 0 END)
+               FROM incident_alerts ia JOIN alerts a ON a.alert_id = ia.alert_id
+              WHERE ia.incident_id = i.incident_id) AS severity_rank,
+            (SELECT group_concat(sc.client_id) FROM site_clients sc WHERE sc.site_id = i.site_id) AS client_ids
+       FROM incidents i
+      WHERE i.created_at >= datetime('now', ?)
+      ORDER BY i.created_at`,
+  )
+    .bind(cutoff)
+    .all<{
+      incident_id: string;
+      site_id: string;
+      started_at: string;
+      rules: string | null;
+      severity_rank: number | null;
+      client_ids: string | null;
+    }>();
+  const severityByRank = [null, 'minor', 'major', 'critical'] as const;
+  for (const row of incidents.results ?? []) {
+    events.push({
+      key: `incident:${row.incident_id}`,
+      type: 'incident.created',
+      ts: row.started_at,
+      severity: severityByRank[row.severity_rank ?? 0] ?? null,
+      rules: row.rules ? row.rules.split(',') : [],
+      deviceId: null,
+      siteId: row.site_id,
+      clientIds: row.client_ids ? row.client_ids.split(',') : [],
+      alertId: null,
+      incidentId: row.incident_id,
+      title: `Incident at site ${row.site_id}`,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Queues one delivery per matching subscription for alerts and incidents seen
+ * in the lookback window. The (subscription, event) unique index keeps repeated
+ * sweeps idempotent.
+ */
+export async function fanOutNotifications(DB: D1Database, now = new Date()): Promise<number> {
+  const subs = await DB.prepare(
+    `SELECT id, name, channel, url, secret, template, events, severities, rules, client_ids, site_ids, enabled, created_at
+       FROM notification_subscriptions
+      WHERE enabled=1`,
+  ).all<NotificationSubscriptionRow>();
+  const subscriptions = subs.results ?? [];
+  if (subscriptions.length === 0) return 0;
+
+  const events = await collectNotificationEvents(DB);
+  let queued = 0;
+  for (const event of events) {
+    for (const sub of subscriptions) {
+      // Subscriptions only see events raised after they were created.
+      if (Date.parse(event.ts) < parseSqlTimestamp(sub.created_at)) continue;
+      if (!subscriptionMatches(sub, event)) continue;
+      const result = await DB.prepare(
+        `INSERT OR IGNORE INTO notification_deliveries
+           (id, subscription_id, event_key, event_type, event_json, status, attempts, next_attempt_at)
+         VALUES (?, ?, ?, ?, ?, 'pending', 0, ?)`,
+      )
+        .bind(crypto.randomUUID(), sub.id, event.key, event.type, JSON.stringify(event), now.toISOString())
+        .run();
+      queued += result.meta?.changes ?? 0;
+    }
+  }
+  return queued;
+}
+
+export async function sendNotification(
+  sub: Pick<NotificationSubscriptionRow, 'channel' | 'url' | 'secret' | 'template'>,
+  event: NotificationEvent,
+): Promise<{ ok: boolean; status: number | null; error: string | null }> {
+  const channel = (NOTIFICATION_CHANNELS as string[]).includes(sub.channel)
+    ? (sub.channel as NotificationChannel)
+    : 'webhook';
+  const body = buildNotificationBody(channel, sub.template, event);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Greenbro-Event': event.type,
+    'X-Greenbro-Timestamp': timestamp,
+  };
+  if (sub.secret) {
+    headers['X-Greenbro-Signature'] = `sha256=${await signNotification(sub.secret, timestamp, body)}`;
+  }
+
+  try {
+    const res = await fetch(sub.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    return { ok: res.ok, status: res.status, error: res.ok ? null : (await res.text()).slice(0, 500) };
+  } catch (error) {
+    return { ok: false, status: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Sends due deliveries. Each row is claimed (`sending`, with `next_attempt_at` pushed out by a
+ * lease) before its request goes out, so overlapping runs never post the same event twice.
+ */
+export async function dispatchNotificationDeliveries(
+  DB: D1Database,
+  now = new Date(),
+): Promise<{ delivered: number; failed: number; retried: number }> {
+  const due = await DB.prepare(
+    `SELECT d.id, d.subscription_id, d.event_key, d.event_type, d.event_json, d.status, d.attempts, d.next_attempt_at,
+            s.channel, s.url, s.secret, s.template
+       FROM notification_deliveries d
+       JOIN notification_subscriptions s ON s.id = d.subscription_id
+      WHERE d.status IN ('pending','sending') AND d.next_attempt_at <= ?
+      ORDER BY d.next_attempt_at
+      LIMIT ${DELIVERY_BATCH}`,
+  )
+    .bind(now.toISOString())
+    .all<NotificationDeliveryRow & Pick<NotificationSubscriptionRow, 'channel' | 'url' | 'secret' | 'template'>>();
+
+  const summary = { delivered: 0, failed: 0, retried: 0 };
+  for (const row of due.results ?? []) {
+    const claimed = await DB.prepare(
+      `UPDATE notification_deliveries SET status='sending', next_attempt_at=?
+        WHERE id=? AND status IN ('pending','sending') AND next_attempt_at=?`,
+    )
+      .bind(new Date(Date.now() + DELIVERY_LEASE_MS).toISOString(), row.id, row.next_attempt_at)
+      .run();
+    if (!claimed.meta?.changes) continue;
+
+    const event = JSON.parse(row.event_json) as NotificationEvent;
+    const result = await sendNotification(row, event);
+    const attempts = row.attempts + 1;
+    const attemptedAt = new Date().toISOString();
+
+    if (result.ok) {
+      await DB.prepare(
+        `UPDATE notification_deliveries
+            SET status='delivered', attempts=?, last_attempt_at=?, last_status_code=?, last_error=NULL, delivered_at=?
+          WHERE id=? AND status='sending'`,
+      )
+        .bind(attempts, attemptedAt, result.status, attemptedAt, row.id)
+        .run();
+      summary.delivered += 1;
+      continue;
+    }
+
+    const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+    const nextAttempt = new Date(Date.now() + backoffDelayMs(attempts)).toISOString();
+    await DB.prepare(
+      `UPDATE notification_deliveries
+          SET status=?, attempts=?, last_attempt_at=?, last_status_code=?, last_error=?, next_attempt_at=?
+        WHERE id=? AND status='sending'`,
+    )
+      .bind(exhausted ? 'failed' : 'pending', attempts, attemptedAt, result.status, result.error, nextAttempt, row.id)
+      .run();
+    if (exhausted) {
+      summary.failed += 1;
+    } else {
+      summary.retried += 1;
+    }
+  }
+  return summary;
+}
+
+export async function runNotificationJobs(env: Env) {
+  await fanOutNotifications(env.DB);
+  return dispatchNotificationDeliveries(env.DB);
+}
+
+export type NotificationSubscriptionInput = {
+  name: string;
+  channel: NotificationChannel;
+  url: string;
+  secret: string | null;
+  template: string | null;
+  events: NotificationEventType[] | null;
+  severities: string[] | null;
+  rules: string[] | null;
+  clientIds: string[] | null;
+  siteIds: string[] | null;
+  enabled: boolean;
+};
+
+export const SAMPLE_NOTIFICATION_EVENT: NotificationEvent = {
+  key: 'test:sample',
+  type: 'alert.opened',
+  ts: '2024-01-01T00:00:00.000Z',
+  severity: 'major',
+  rules: ['overheat'],
+  deviceId: 'sample-device',
+  siteId: 'sample-site',
+  clientIds: ['sample-client'],
+  alertId: 'sample-alert',
+  incidentId: null,
+  title: 'overheat on sample-device',
+};
+
+export function parseNotificationSubscriptionInput(
+  body: unknown,
+): { ok: true; value: NotificationSubscriptionInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = typeof input.name === 'string' ? input.name.trim().slice(0, 120) : '';
+  if (!name) errors.push('name is required');
+
+  const channel = typeof input.channel === 'string' ? input.channel : 'webhook';
+  if (!(NOTIFICATION_CHANNELS as string[]).includes(channel)) {
+    errors.push('channel must be webhook, slack or teams');
+  }
+
+  const url = typeof input.url === 'string' ? input.url.trim() : '';
+  try {
+    if (new URL(url).protocol !== 'https:') errors.push('url must use https');
+  } catch {
+    errors.push('url is invalid');
+  }
+
+  const secret = typeof input.secret === 'string' && input.secret.length > 0 ? input.secret : null;
+  if (secret && secret.length < 16) errors.push('secret must be at least 16 characters');
+
+  const template = typeof input.template === 'string' && input.template.trim() ? input.template : null;
+  if (template) {
+    try {
+      JSON.parse(renderTemplate(template, SAMPLE_NOTIFICATION_EVENT));
+    } catch {
+      errors.push('template must render to valid JSON');
+    }
+  }
+
+  const list = (key: string): string[] | null => {
+    const value = input[key];
+    if (value == null) return null;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+      errors.push(`${key} must be an array of strings`);
+      return null;
+    }
+    const items = (value as string[]).map((item) => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : null;
+  };
+  const events = list('events');
+  if (events?.some((event) => !(NOTIFICATION_EVENT_TYPES as string[]).includes(event))) {
+    errors.push('events must be alert.opened or incident.created');
+  }
+  const severities = list('severities');
+  if (severities?.some((severity) => !['minor', 'major', 'critical'].includes(severity))) {
+    errors.push('severities must be minor, major or critical');
+  }
+  const rules = list('rules');
+  const clientIds = list('clientIds');
+  const siteIds = list('siteIds');
+
+  if (input.enabled != null && typeof input.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      name,
+      channel: channel as NotificationChannel,
+      url,
+      secret,
+      template,
+      events: events as NotificationEventType[] | null,
+      severities,
+      rules,
+      clientIds,
+      siteIds,
+      enabled: input.enabled !== false,
+    },
+  };
+}
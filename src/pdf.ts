@@ -1,6 +1,17 @@
 import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
 import type { Env } from './types/env';
 import { BRAND, drawBrandPdfHeader } from './brand';
+import { latinDigits, winAnsi } from './lib/pdf-text';
+import {
+  convertQuantity,
+  DEFAULT_DISPLAY_PREFERENCES,
+  formatNumber,
+  formatQuantity,
+  METRIC_QUANTITIES,
+  unitSymbol,
+  type DisplayPreferences,
+  type Quantity,
+} from './lib/units';
 
 export type CommissioningPayload = {
   deviceId: string;
@@ -32,6 +43,20 @@ export type ClientMonthlyReportPayload = {
     copTarget?: number | null;
   };
   recipients?: string | null;
+  energy?: {
+    kwhElectric: number;
+    kwhThermal: number;
+    spf: number | null;
+    referenceKwh: number;
+    savingsKwh: number;
+    co2AvoidedKg: number;
+  } | null;
+  cost?: {
+    currency: string;
+    total: number;
+    perDay: number | null;
+    perKwhHeat: number | null;
+  } | null;
 };
 
 export type IncidentReportV2Payload = {
@@ -53,6 +78,13 @@ export type IncidentReportV2Payload = {
     lastAlertAt: string | null;
     stateCounts: Record<string, number>;
     alertBreakdown: Array<{ type: string; severity: string; count: number }>;
+    title?: string | null;
+    status?: string | null;
+    severity?: string | null;
+    owner?: string | null;
+    rootCause?: string | null;
+    postmortem?: string | null;
+    timeline?: Array<{ ts: string; kind: string; actor: string | null; body: string | null }>;
   }>;
   maintenance: Array<{
     siteId?: string | null;
@@ -66,6 +98,7 @@ export type IncidentReportV2Payload = {
 export async function generateCommissioningPDF(
   env: Env,
   payload: CommissioningPayload,
+  prefs: DisplayPreferences = DEFAULT_DISPLAY_PREFERENCES,
 ): Promise<{ key: string; url: string }> {
   const pdfDoc = await PDFDocument.create();
   const pageSize: [number, number] = [595, 842];
@@ -99,7 +132,7 @@ export async function generateCommissioningPDF(
   drawText('Measurements:', 40, y, 14);
   y -= 18;
   for (const [k, v] of Object.entries(payload.measurements)) {
-    drawText(`${k}: ${v}`, 50, y);
+    drawText(`${k}: ${measurementText(k, v, prefs)}`, 50, y);
     y -= 14;
     if (y < 80) {
       y = resetPage();
@@ -126,20 +159,42 @@ export async function generateCommissioningPDF(
   return { key, url: `/api/reports/${encodeURIComponent(key)}` };
 }
 
-function pct(value: number | null | undefined, digits = 2): string {
+// Helvetica has no native digits (ar-EG, fa-IR, bn-BD) and WinAnsi lacks some separators, so numbers keep the
+// reader's grouping and decimal mark but are always written in Latin digits.
+const pdfNumber = (value: number | null | undefined, digits: number, locale: string) =>
+  winAnsi(formatNumber(value, digits, latinDigits(locale)));
+
+const pdfQuantity = (quantity: Quantity, value: number, prefs: DisplayPreferences) =>
+  winAnsi(formatQuantity(quantity, value, { ...prefs, locale: latinDigits(prefs.locale) }, 1));
+
+function pct(value: number | null | undefined, locale: string, digits = 2): string {
   if (value == null || !Number.isFinite(value)) return '—';
-  return `${(value * 100).toFixed(digits)}%`;
+  return `${pdfNumber(value * 100, digits, locale)}%`;
 }
 
-function fmt(value: number | null | undefined, digits = 2): string {
-  if (value == null || !Number.isFinite(value)) return '—';
-  return value.toFixed(digits);
+function fmt(value: number | null | undefined, locale: string, digits = 2): string {
+  return pdfNumber(value, digits, locale);
+}
+
+/** Numeric measurements of a known metric are converted to the reader's units; anything else prints as given. */
+function measurementText(key: string, value: string | number, prefs: DisplayPreferences): string {
+  const quantity = METRIC_QUANTITIES[key];
+  if (typeof value !== 'number') return String(value);
+  return quantity ? pdfQuantity(quantity, value, prefs) : pdfNumber(value, 2, prefs.locale);
+}
+
+// Free text is drawn on a single line, so collapse whitespace and clip it.
+function truncateLine(value: string, max = 90): string {
+  const flat = value.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
 }
 
 export async function generateClientMonthlyReport(
   env: Env,
   payload: ClientMonthlyReportPayload,
+  prefs: DisplayPreferences = DEFAULT_DISPLAY_PREFERENCES,
 ): Promise<{ key: string; url: string }> {
+  const { locale } = prefs;
   const pdfDoc = await PDFDocument.create();
   const pageSize: [number, number] = [595, 842];
   let page = pdfDoc.addPage(pageSize);
@@ -173,8 +228,8 @@ export async function generateClientMonthlyReport(
   const rows: Array<{ label: string; target: string; actual: string; status: string }> = [
     {
       label: 'Uptime',
-      target: pct(payload.targets.uptimeTarget ?? null, 2),
-      actual: pct(payload.metrics.uptimePct, 2),
+      target: pct(payload.targets.uptimeTarget ?? null, locale),
+      actual: pct(payload.metrics.uptimePct, locale),
       status:
         payload.metrics.uptimePct == null || payload.targets.uptimeTarget == null
           ? 'n/a'
@@ -184,8 +239,8 @@ export async function generateClientMonthlyReport(
     },
     {
       label: 'Ingest success',
-      target: pct(payload.targets.ingestTarget ?? null, 2),
-      actual: pct(payload.metrics.ingestSuccessPct, 2),
+      target: pct(payload.targets.ingestTarget ?? null, locale),
+      actual: pct(payload.metrics.ingestSuccessPct, locale),
       status:
         payload.metrics.ingestSuccessPct == null || payload.targets.ingestTarget == null
           ? 'n/a'
@@ -195,8 +250,8 @@ export async function generateClientMonthlyReport(
     },
     {
       label: 'Average COP',
-      target: fmt(payload.targets.copTarget ?? null, 2),
-      actual: fmt(payload.metrics.avgCop, 2),
+      target: fmt(payload.targets.copTarget ?? null, locale),
+      actual: fmt(payload.metrics.avgCop, locale),
       status:
         payload.metrics.avgCop == null || payload.targets.copTarget == null
           ? 'n/a'
@@ -270,6 +325,49 @@ export async function generateClientMonthlyReport(
     });
   }
 
+  if (payload.energy) {
+    if (y < 160) {
+      y = resetPage();
+    }
+    const energy = payload.energy;
+    const heat = (value: number) => pdfQuantity('energy', value, prefs);
+    page.drawLine({ start: { x: 40, y }, end: { x: 555, y }, thickness: 0.5 });
+    y -= 18;
+    drawText('Energy & carbon', 40, y, 14);
+    y -= 18;
+    [
+      ['Electricity used', heat(energy.kwhElectric)],
+      ['Heat delivered', heat(energy.kwhThermal)],
+      ['Seasonal performance factor', fmt(energy.spf, locale)],
+      ['Saved vs reference heater', heat(energy.savingsKwh)],
+      ['CO2 avoided', `${fmt(energy.co2AvoidedKg, locale, 1)} kg`],
+    ].forEach(([label, value]) => {
+      drawText(label!, colX[0], y);
+      drawText(value!, colX[2], y);
+      y -= 16;
+    });
+  }
+
+  if (payload.cost) {
+    if (y < 120) {
+      y = resetPage();
+    }
+    const cost = payload.cost;
+    const perHeatUnit = cost.perKwhHeat == null ? null : cost.perKwhHeat / convertQuantity('energy', 1, prefs);
+    y -= 6;
+    drawText('Running cost', 40, y, 14);
+    y -= 18;
+    [
+      ['Electricity cost', `${cost.currency} ${fmt(cost.total, locale)}`],
+      ['Average per day', `${cost.currency} ${fmt(cost.perDay, locale)}`],
+      [`Cost per ${unitSymbol('energy', prefs)} of heat`, `${cost.currency} ${fmt(perHeatUnit, locale, 3)}`],
+    ].forEach(([label, value]) => {
+      drawText(label!, colX[0], y);
+      drawText(value!, colX[2], y);
+      y -= 16;
+    });
+  }
+
   if (y < 120) {
     y = resetPage();
   }
@@ -336,7 +434,8 @@ export async function generateIncidentReportV2(
     if (y < 60) {
       y = resetPage();
     }
-    page.drawText(text, { x, y, size, font, color: textColor });
+    // Titles, root causes and timeline comments are user text.
+    page.drawText(winAnsi(text), { x, y, size, font, color: textColor });
     y -= size + lineGap;
   };
 
@@ -395,7 +494,12 @@ export async function generateIncidentReportV2(
   } else {
     payload.incidents.forEach((incident) => {
       ensureSpace(100);
-      drawText(`Incident ${incident.incidentId}`, 40, 13);
+      drawText(incident.title ? `Incident ${incident.incidentId} — ${incident.title}` : `Incident ${incident.incidentId}`, 40, 13);
+      if (incident.status || incident.severity || incident.owner) {
+        drawText(
+          `• Status: ${incident.status ?? '—'} · Severity: ${incident.severity ?? '—'} · Owner: ${incident.owner ?? 'unassigned'}`,
+        );
+      }
       drawText(`• Started: ${incident.startedAt}`);
       drawText(`• Last alert: ${incident.lastAlertAt ?? '—'}`);
       drawText(`• Resolved: ${incident.resolvedAt ?? 'Open'}`);
@@ -406,6 +510,16 @@ export async function generateIncidentReportV2(
           drawText(`    - ${row.type} (${row.severity}): ${row.count}`);
         });
       }
+      if (incident.rootCause) {
+        drawText(`• Root cause: ${truncateLine(incident.rootCause)}`);
+      }
+      if (incident.timeline && incident.timeline.length > 0) {
+        drawText('• Timeline:', 40, 12);
+        incident.timeline.forEach((entry) => {
+          const detail = entry.body ? `: ${truncateLine(entry.body)}` : '';
+          drawText(`    - ${entry.ts} ${entry.kind}${entry.actor ? ` (${entry.actor})` : ''}${detail}`, 40, 10, 4);
+        });
+      }
       y -= 4;
     });
   }
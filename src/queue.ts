@@ -1,5 +1,7 @@
 import type { Env, ExecutionContext, MessageBatch } from './types/env';
 import type { IngestMessage, TelemetryPayload } from './types';
+import { syncFaultAlerts } from './alerts';
+import { trackDeviceFaults } from './lib/faults';
 import { computeDerived, computeDerivedFromTelemetry } from './lib/math';
 
 export async function handleQueueBatch(
@@ -8,6 +10,10 @@ export async function handleQueueBatch(
   ctx: ExecutionContext,
 ): Promise<void> {
   for (const message of batch.messages) {
+    if (message.body?.type === 'export') {
+      // Export chunks are advanced by `queue` in app.tsx, which owns the R2 and email wiring.
+      continue;
+    }
     const started = Date.now();
     try {
       const receivedAt = new Date().toISOString();
@@ -15,6 +21,9 @@ export async function handleQueueBatch(
       if (message.body.type === 'telemetry') {
         const telemetry = sanitizeTelemetry(message.body.body);
         const derived = computeDerivedFromTelemetry(telemetry);
+        const transitions = await trackDeviceFaults(env.DB, telemetry.deviceId, telemetry.ts, telemetry.faults ?? []);
+        if (telemetry.faults) telemetry.faults = transitions.faults;
+        await syncFaultAlerts(env, telemetry.deviceId, telemetry.ts, transitions);
 
         await persistTelemetry(env, telemetry, derived);
         await upsertLatest(env, telemetry, derived);
@@ -1,6 +1,14 @@
 import type { Env } from './types/env';
 import type { ClientMonthlyReportPayload, IncidentReportV2Payload } from './pdf';
 import { BRAND } from './brand';
+import {
+  convertQuantity,
+  DEFAULT_DISPLAY_PREFERENCES,
+  formatNumber,
+  formatQuantity,
+  unitSymbol,
+  type DisplayPreferences,
+} from './lib/units';
 
 function escapeHtml(value: unknown): string {
   return String(value ?? '')
@@ -71,10 +79,29 @@ function renderIncidentRow(incident: IncidentReportV2Payload['incidents'][number
         )
         .join('')}</ul>`
     : '<p>No alerts recorded for this incident.</p>';
+  const timeline = incident.timeline?.length
+    ? `<section>
+        <h4>Timeline</h4>
+        <ol>${incident.timeline
+          .map(
+            (entry) =>
+              `<li>${formatDate(entry.ts)} — ${escapeHtml(entry.kind)}${
+                entry.actor ? ` (${escapeHtml(entry.actor)})` : ''
+              }${entry.body ? `: ${escapeHtml(entry.body)}` : ''}</li>`,
+          )
+          .join('')}</ol>
+      </section>`
+    : '';
+  const heading = incident.title
+    ? `Incident ${escapeHtml(incident.incidentId)} — ${escapeHtml(incident.title)}`
+    : `Incident ${escapeHtml(incident.incidentId)}`;
   return `
     <article class="incident-card">
-      <h3>Incident ${escapeHtml(incident.incidentId)}</h3>
+      <h3>${heading}</h3>
       <dl>
+        <div><dt>Status</dt><dd>${escapeHtml(incident.status ?? '—')}</dd></div>
+        <div><dt>Severity</dt><dd>${escapeHtml(incident.severity ?? '—')}</dd></div>
+        <div><dt>Owner</dt><dd>${escapeHtml(incident.owner ?? 'Unassigned')}</dd></div>
         <div><dt>Started</dt><dd>${formatDate(incident.startedAt)}</dd></div>
         <div><dt>Last alert</dt><dd>${formatDate(incident.lastAlertAt)}</dd></div>
         <div><dt>Resolved</dt><dd>${formatDate(incident.resolvedAt)}</dd></div>
@@ -84,6 +111,8 @@ function renderIncidentRow(incident: IncidentReportV2Payload['incidents'][number
         <h4>Alert breakdown</h4>
         ${alerts}
       </section>
+      ${incident.rootCause ? `<section><h4>Root cause</h4><p>${escapeHtml(incident.rootCause)}</p></section>` : ''}
+      ${timeline}
     </article>
   `;
 }
@@ -171,17 +200,21 @@ export function renderIncidentHtmlV2(_env: Env, payload: IncidentReportV2Payload
   `;
 }
 
-function fmtPercent(value: number | null | undefined, digits = 2): string {
+function fmtPercent(value: number | null | undefined, locale: string, digits = 2): string {
   if (value == null || !Number.isFinite(value)) return '—';
-  return `${(value * 100).toFixed(digits)}%`;
+  return `${escapeHtml(formatNumber(value * 100, digits, locale))}%`;
 }
 
-function fmtNumber(value: number | null | undefined, digits = 2): string {
-  if (value == null || !Number.isFinite(value)) return '—';
-  return Number(value).toFixed(digits);
+function fmtNumber(value: number | null | undefined, locale: string, digits = 2): string {
+  return escapeHtml(formatNumber(value, digits, locale));
 }
 
-export function renderClientMonthlyHtmlV2(_env: Env, payload: ClientMonthlyReportPayload): string {
+export function renderClientMonthlyHtmlV2(
+  _env: Env,
+  payload: ClientMonthlyReportPayload,
+  prefs: DisplayPreferences = DEFAULT_DISPLAY_PREFERENCES,
+): string {
+  const { locale } = prefs;
   const alerts = payload.metrics.alerts.length
     ? payload.metrics.alerts
         .map(
@@ -211,12 +244,14 @@ export function renderClientMonthlyHtmlV2(_env: Env, payload: ClientMonthlyRepor
             <tr><th scope="col">Metric</th><th scope="col">Target</th><th scope="col">Actual</th><th scope="col">Status</th></tr>
           </thead>
           <tbody>
-            <tr><th scope="row">Uptime</th><td>${fmtPercent(payload.targets.uptimeTarget)}</td><td>${fmtPercent(payload.metrics.uptimePct)}</td><td>${renderStatus(payload.metrics.uptimePct, payload.targets.uptimeTarget)}</td></tr>
-            <tr><th scope="row">Ingest success</th><td>${fmtPercent(payload.targets.ingestTarget)}</td><td>${fmtPercent(payload.metrics.ingestSuccessPct)}</td><td>${renderStatus(payload.metrics.ingestSuccessPct, payload.targets.ingestTarget)}</td></tr>
-            <tr><th scope="row">Average COP</th><td>${fmtNumber(payload.targets.copTarget)}</td><td>${fmtNumber(payload.metrics.avgCop)}</td><td>${renderStatus(payload.metrics.avgCop, payload.targets.copTarget)}</td></tr>
+            <tr><th scope="row">Uptime</th><td>${fmtPercent(payload.targets.uptimeTarget, locale)}</td><td>${fmtPercent(payload.metrics.uptimePct, locale)}</td><td>${renderStatus(payload.metrics.uptimePct, payload.targets.uptimeTarget)}</td></tr>
+            <tr><th scope="row">Ingest success</th><td>${fmtPercent(payload.targets.ingestTarget, locale)}</td><td>${fmtPercent(payload.metrics.ingestSuccessPct, locale)}</td><td>${renderStatus(payload.metrics.ingestSuccessPct, payload.targets.ingestTarget)}</td></tr>
+            <tr><th scope="row">Average COP</th><td>${fmtNumber(payload.targets.copTarget, locale)}</td><td>${fmtNumber(payload.metrics.avgCop, locale)}</td><td>${renderStatus(payload.metrics.avgCop, payload.targets.copTarget)}</td></tr>
           </tbody>
         </table>
       </section>
+      ${renderMonthlyEnergy(payload.energy, prefs)}
+      ${renderMonthlyCost(payload.cost, prefs)}
       <section aria-labelledby="monthly-alerts-heading">
         <h2 id="monthly-alerts-heading">Alert breakdown</h2>
         <table class="report-table">
@@ -237,6 +272,47 @@ export function renderClientMonthlyHtmlV2(_env: Env, payload: ClientMonthlyRepor
   `;
 }
 
+function renderMonthlyEnergy(energy: ClientMonthlyReportPayload['energy'], prefs: DisplayPreferences): string {
+  if (!energy) {
+    return '';
+  }
+  const kwh = (value: number) => escapeHtml(formatQuantity('energy', value, prefs, 1));
+  return `
+      <section aria-labelledby="monthly-energy-heading">
+        <h2 id="monthly-energy-heading">Energy &amp; carbon</h2>
+        <table class="report-table">
+          <tbody>
+            <tr><th scope="row">Electricity used</th><td>${kwh(energy.kwhElectric)}</td></tr>
+            <tr><th scope="row">Heat delivered</th><td>${kwh(energy.kwhThermal)}</td></tr>
+            <tr><th scope="row">Seasonal performance factor</th><td>${fmtNumber(energy.spf, prefs.locale)}</td></tr>
+            <tr><th scope="row">Saved vs reference heater</th><td>${kwh(energy.savingsKwh)}</td></tr>
+            <tr><th scope="row">CO₂ avoided</th><td>${escapeHtml(formatNumber(energy.co2AvoidedKg, 1, prefs.locale))} kg</td></tr>
+          </tbody>
+        </table>
+      </section>`;
+}
+
+function renderMonthlyCost(cost: ClientMonthlyReportPayload['cost'], prefs: DisplayPreferences): string {
+  if (!cost) {
+    return '';
+  }
+  const money = (value: number | null, digits: number) =>
+    value == null ? 'n/a' : `${escapeHtml(cost.currency)} ${escapeHtml(formatNumber(value, digits, prefs.locale))}`;
+  // Cost per unit of heat: dividing by the size of one kWh in the display unit gives cost per display unit.
+  const perHeatUnit = cost.perKwhHeat == null ? null : cost.perKwhHeat / convertQuantity('energy', 1, prefs);
+  return `
+      <section aria-labelledby="monthly-cost-heading">
+        <h2 id="monthly-cost-heading">Running cost</h2>
+        <table class="report-table">
+          <tbody>
+            <tr><th scope="row">Electricity cost</th><td>${money(cost.total, 2)}</td></tr>
+            <tr><th scope="row">Average per day</th><td>${money(cost.perDay, 2)}</td></tr>
+            <tr><th scope="row">Cost per ${escapeHtml(unitSymbol('energy', prefs))} of heat</th><td>${money(perHeatUnit, 3)}</td></tr>
+          </tbody>
+        </table>
+      </section>`;
+}
+
 function renderStatus(actual: number | null | undefined, target: number | null | undefined): string {
   if (actual == null || target == null || !Number.isFinite(actual) || !Number.isFinite(target)) {
     return 'n/a';
@@ -277,6 +353,16 @@ export function sampleIncidentReportV2Payload(): IncidentReportV2Payload {
           { type: 'High discharge temp', severity: 'critical', count: 1 },
           { type: 'Sensor offline', severity: 'major', count: 2 },
         ],
+        title: 'Discharge temperature excursion',
+        status: 'mitigated',
+        severity: 'critical',
+        owner: 'ops@example.com',
+        rootCause: null,
+        postmortem: null,
+        timeline: [
+          { ts: start.toISOString(), kind: 'owner', actor: 'ops@example.com', body: 'ops@example.com' },
+          { ts: now.toISOString(), kind: 'status', actor: 'ops@example.com', body: 'mitigated' },
+        ],
       },
     ],
     maintenance: [
@@ -320,5 +406,19 @@ export function sampleClientMonthlyReportPayload(): ClientMonthlyReportPayload {
       copTarget: 3.2,
     },
     recipients: 'ops@demo.invalid',
+    energy: {
+      kwhElectric: 1240.5,
+      kwhThermal: 4466.2,
+      spf: 3.6,
+      referenceKwh: 4466.2,
+      savingsKwh: 3225.7,
+      co2AvoidedKg: 3064.4,
+    },
+    cost: {
+      currency: 'ZAR',
+      total: 3187.42,
+      perDay: 102.82,
+      perKwhHeat: 0.714,
+    },
   };
 }
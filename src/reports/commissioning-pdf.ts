@@ -1,5 +1,8 @@
-import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from 'pdf-lib';
 import type { Env } from '../types/env';
+import { loadSessionAttachments, type AttachmentRow } from '../lib/attachments';
+import { winAnsi } from '../lib/pdf-text';
+import { loadSignature } from '../lib/signatures';
 
 type SessionRow = {
   session_id: string;
@@ -40,6 +43,8 @@ export async function renderCommissioningPdf(env: Env, session_id: string): Prom
     .bind(session_id)
     .all<StepRow>();
 
+  const attachments = await loadSessionAttachments(db, session_id);
+
   const pdf = await PDFDocument.create();
   const font = await pdf.embedFont(StandardFonts.Helvetica);
   const green = rgb(0.13, 0.82, 0.41);
@@ -80,6 +85,60 @@ export async function renderCommissioningPdf(env: Env, session_id: string): Prom
       page.drawText(step.readings_json, { x: 64, y, size: 9, font });
       y -= 12;
     }
+    const stepFiles = attachments.filter((attachment) => attachment.step_id === step.step_id);
+    if (stepFiles.length) {
+      page.drawText(`Attachments: ${stepFiles.map((attachment) => attachment.filename).join(', ')}`, {
+        x: 64,
+        y,
+        size: 9,
+        font,
+      });
+      y -= 12;
+    }
+  }
+
+  // Customer acceptance: the signature, who signed and when, and the sealed state hash to verify against.
+  const signature = await loadSignature(db, session_id);
+  if (signature) {
+    if (y < 230) {
+      page = pdf.addPage([595, 842]);
+      y = 800;
+      drawHeader();
+    }
+    y -= 8;
+    const top = y;
+    page.drawText('Customer acceptance', { x: 52, y: y - 14, size: 12, font, color: green });
+    y -= 32;
+    const image = await env.REPORTS.get(signature.signature_key);
+    if (image) {
+      const png = await pdf.embedPng(new Uint8Array(await image.arrayBuffer()));
+      const scaled = png.scaleToFit(220, 80);
+      page.drawImage(png, { x: 52, y: y - scaled.height, width: scaled.width, height: scaled.height });
+      y -= scaled.height + 8;
+    }
+    const lines = [
+      `Signed by ${winAnsi(signature.signer_name)} at ${signature.signed_at}`,
+      `State hash (SHA-256): ${signature.state_hash}`,
+      `Seal (HMAC-SHA256): ${signature.seal}`,
+      `Verify: GET /api/commissioning/session/${session_id}/signature?hash=<state hash>`,
+    ];
+    for (const line of lines) {
+      page.drawText(line, { x: 52, y, size: 8, font });
+      y -= 11;
+    }
+    page.drawRectangle({
+      x: 44,
+      y: y - 4,
+      width: 507,
+      height: top - y + 4,
+      borderColor: green,
+      borderWidth: 1,
+    });
+    y -= 16;
+  }
+
+  if (attachments.length) {
+    await appendAttachments(env, pdf, font, attachments, stepRows);
   }
 
   const bytes = await pdf.save();
@@ -87,3 +146,71 @@ export async function renderCommissioningPdf(env: Env, session_id: string): Prom
   await env.REPORTS.put(key, bytes, { httpMetadata: { contentType: 'application/pdf' } });
   return { key, size: bytes.byteLength };
 }
+
+const PAGE: [number, number] = [595, 842];
+const MARGIN = 40;
+
+/** Photos get a page each with a caption; PDF documents such as signed handover forms are appended page by page. */
+async function appendAttachments(
+  env: Env,
+  pdf: PDFDocument,
+  font: PDFFont,
+  attachments: AttachmentRow[],
+  steps: StepRow[],
+) {
+  const stepTitles = new Map(steps.map((step) => [step.step_id, step.title]));
+  const caption = (attachment: AttachmentRow) =>
+    `${attachment.filename} — ${attachment.step_id ? stepTitles.get(attachment.step_id) ?? attachment.step_id : 'Session'}`;
+
+  const index = pdf.addPage(PAGE);
+  let y = 800;
+  index.drawText('Attachments', { x: MARGIN, y, size: 16, font });
+  y -= 24;
+  const failed: string[] = [];
+
+  for (const attachment of attachments) {
+    if (y < 60) break;
+    index.drawText(`• ${caption(attachment)} (${Math.ceil(attachment.size_bytes / 1024)} KB)`, {
+      x: 52,
+      y,
+      size: 10,
+      font,
+    });
+    y -= 14;
+  }
+
+  for (const attachment of attachments) {
+    try {
+      const object = await env.REPORTS.get(attachment.r2_key);
+      if (!object) {
+        failed.push(attachment.filename);
+        continue;
+      }
+      const bytes = new Uint8Array(await object.arrayBuffer());
+      if (attachment.kind === 'document') {
+        const source = await PDFDocument.load(bytes, { ignoreEncryption: true });
+        const pages = await pdf.copyPages(source, source.getPageIndices());
+        pages.forEach((page) => pdf.addPage(page));
+        continue;
+      }
+      const image =
+        attachment.content_type === 'image/png' ? await pdf.embedPng(bytes) : await pdf.embedJpg(bytes);
+      const page = pdf.addPage(PAGE);
+      page.drawText(caption(attachment), { x: MARGIN, y: 800, size: 11, font });
+      const scaled = image.scaleToFit(PAGE[0] - MARGIN * 2, 800 - MARGIN - 16);
+      page.drawImage(image, {
+        x: (PAGE[0] - scaled.width) / 2,
+        y: 800 - 16 - scaled.height,
+        width: scaled.width,
+        height: scaled.height,
+      });
+    } catch (error) {
+      console.warn('commissioning attachment could not be embedded', attachment.attachment_id, error);
+      failed.push(attachment.filename);
+    }
+  }
+
+  if (failed.length && y >= 40) {
+    index.drawText(`Not embedded: ${failed.join(', ')}`, { x: MARGIN, y: y - 10, size: 9, font });
+  }
+}
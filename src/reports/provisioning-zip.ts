@@ -1,13 +1,19 @@
 import type { Env } from '../types/env';
 import { zipStore } from '../lib/zip';
+import { loadSessionAttachments } from '../lib/attachments';
 
-export async function renderProvisioningZip(env: Env, opts: { device_id: string; session_id?: string | null }) {
-  const labelsKey = `labels/${opts.device_id}-latest.pdf`;
+type ProvisioningZipOptions =
+  | { device_id: string; session_id?: string | null }
+  /** Bulk provisioning: one folder per device with its labels and config. */
+  | { device_ids: string[]; batch_id: string };
+
+async function deviceFiles(env: Env, deviceId: string, prefix: string) {
+  const labelsKey = `labels/${deviceId}-latest.pdf`;
   const existing = await env.REPORTS.get(labelsKey);
   let labels = existing ? await existing.arrayBuffer() : null;
   if (!labels) {
     const { renderDeviceLabels } = await import('./labels-pdf');
-    const gen = await renderDeviceLabels(env, { device_id: opts.device_id });
+    const gen = await renderDeviceLabels(env, { device_id: deviceId });
     const copy = await env.REPORTS.get(gen.key);
     if (copy) {
       const buffer = await copy.arrayBuffer();
@@ -17,9 +23,9 @@ export async function renderProvisioningZip(env: Env, opts: { device_id: string;
   }
 
   const d = await env.DB.prepare(
-    'SELECT device_id, site as site_id, profile_id, firmware, map_version FROM devices WHERE device_id=?',
+    'SELECT device_id, site_id, profile_id, firmware, map_version FROM devices WHERE device_id=?',
   )
-    .bind(opts.device_id)
+    .bind(deviceId)
     .first<{
       device_id: string;
       site_id: string | null;
@@ -29,15 +35,15 @@ export async function renderProvisioningZip(env: Env, opts: { device_id: string;
     }>();
 
   const config = {
-    device_id: d?.device_id ?? opts.device_id,
+    device_id: d?.device_id ?? deviceId,
     site_id: d?.site_id ?? null,
     profile_id: d?.profile_id ?? null,
     firmware: d?.firmware ?? null,
     map_version: d?.map_version ?? null,
     mqtt_topics: d?.profile_id
       ? {
-          telemetry: `devices/${d.profile_id}/${opts.device_id}/telemetry`,
-          heartbeat: `devices/${d.profile_id}/${opts.device_id}/heartbeat`,
+          telemetry: `devices/${d.profile_id}/${deviceId}/telemetry`,
+          heartbeat: `devices/${d.profile_id}/${deviceId}/heartbeat`,
         }
       : null,
     rs485: {
@@ -48,12 +54,42 @@ export async function renderProvisioningZip(env: Env, opts: { device_id: string;
     },
   };
 
+  return [
+    { name: `${prefix}labels.pdf`, data: new Uint8Array(labels || new ArrayBuffer(0)) },
+    { name: `${prefix}config.json`, data: new TextEncoder().encode(JSON.stringify(config, null, 2)) },
+  ];
+}
+
+export async function renderProvisioningZip(env: Env, opts: ProvisioningZipOptions) {
+  const bulk = 'device_ids' in opts;
+  const files = [];
+  if (bulk) {
+    for (const deviceId of opts.device_ids) {
+      files.push(...(await deviceFiles(env, deviceId, `${deviceId}/`)));
+    }
+  } else {
+    files.push(...(await deviceFiles(env, opts.device_id, '')));
+  }
+
+  const attachments = !bulk && opts.session_id ? await loadSessionAttachments(env.DB, opts.session_id) : [];
+  for (const attachment of attachments) {
+    const object = await env.REPORTS.get(attachment.r2_key);
+    if (!object) continue;
+    // Prefix with the id so two photos called IMG_0001.jpg on the same step don't collide.
+    files.push({
+      name: `attachments/${attachment.step_id ?? 'session'}/${attachment.attachment_id.slice(0, 8)}-${attachment.filename}`,
+      data: new Uint8Array(await object.arrayBuffer()),
+    });
+  }
+
   const readme = [
     '# Greenbro Provisioning',
     '',
     'Contents:',
+    ...(bulk ? ['- <device_id>/ → one folder per device'] : []),
     '- labels.pdf  → print and affix',
     '- config.json → provisioning metadata (no secrets)',
+    ...(attachments.length ? ['- attachments/ → commissioning photos and documents, one folder per step'] : []),
     '',
     'RS-485:',
     '- Wire A→A (D+), B→B (D-), terminate last device (120Ω).',
@@ -64,14 +100,10 @@ export async function renderProvisioningZip(env: Env, opts: { device_id: string;
     '',
   ].join('\n');
 
-  const files = [
-    { name: 'labels.pdf', data: new Uint8Array(labels || new ArrayBuffer(0)) },
-    { name: 'config.json', data: new TextEncoder().encode(JSON.stringify(config, null, 2)) },
-    { name: 'README.md', data: new TextEncoder().encode(readme) },
-  ];
+  files.push({ name: 'README.md', data: new TextEncoder().encode(readme) });
 
   const zip = zipStore(files);
-  const key = `provisioning/${opts.device_id}-${Date.now()}.zip`;
+  const key = `provisioning/${bulk ? `batch-${opts.batch_id}` : opts.device_id}-${Date.now()}.zip`;
   await env.REPORTS.put(key, zip, { httpMetadata: { contentType: 'application/zip' } });
   return { key, size: zip.byteLength };
 }
@@ -0,0 +1,553 @@
+import type { D1Database } from './types/env';
+import { COMMAND_MODES, isCommandMode } from './lib/commands';
+import { CLOCK_TIME_PATTERN, clockMinutes, isValidTimeZone, localTimeParts, weeklyWindowCovers } from './lib/time';
+
+/** The subset of a device command a schedule may set. */
+export type ScheduleSetting = { dhwSetC?: number; mode?: string };
+
+/** A weekly window. `days` uses 0 = Sunday … 6 = Saturday; times are local quarter hours and may wrap midnight. */
+export type ScheduleBlock = ScheduleSetting & {
+  days: number[];
+  start: string;
+  end: string;
+};
+
+export type ScheduleScope = 'device' | 'site';
+
+export type DeviceScheduleRow = {
+  id: string;
+  name: string;
+  scope: ScheduleScope;
+  scope_id: string;
+  timezone: string;
+  default_json: string;
+  blocks_json: string;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ScheduleOverrideRow = {
+  id: string;
+  scope: ScheduleScope;
+  scope_id: string;
+  starts_at: string;
+  ends_at: string;
+  body_json: string;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+export type ScheduleProgram = {
+  id: string;
+  name: string;
+  scope: ScheduleScope;
+  scopeId: string;
+  timezone: string;
+  defaults: ScheduleSetting;
+  blocks: ScheduleBlock[];
+};
+
+export type ScheduleOverride = {
+  id: string;
+  scope: ScheduleScope;
+  scopeId: string;
+  startsAt: number;
+  endsAt: number;
+  setting: ScheduleSetting;
+  reason: string | null;
+};
+
+export type ResolvedSchedule = {
+  setting: ScheduleSetting;
+  /** `schedule:<id>` or `override:<id>`. */
+  source: string;
+  label: string;
+};
+
+export type ScheduleConflict = {
+  kind: 'duplicate_schedule' | 'overlapping_blocks' | 'overlapping_overrides' | 'clamped';
+  message: string;
+};
+
+export type ScheduleDeps = {
+  /** Issues a command through the normal pipeline; the command must not outlive `notAfter`. */
+  issue: (
+    deviceId: string,
+    actor: string,
+    setting: ScheduleSetting,
+    notAfter: Date,
+  ) => Promise<{ ok: true; commandId: string } | { ok: false; error: string }>;
+};
+
+export const SCHEDULE_STEP_MIN = 15;
+const STEP_MS = SCHEDULE_STEP_MIN * 60_000;
+const DEFAULT_TIMEZONE = 'Africa/Johannesburg';
+const MAX_BLOCKS = 28;
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const parseJson = <T>(json: string | null, fallback: T): T => {
+  if (!json) return fallback;
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? (parsed as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export function parseScheduleRow(row: DeviceScheduleRow): ScheduleProgram {
+  const blocks = parseJson<ScheduleBlock[]>(row.blocks_json, []);
+  return {
+    id: row.id,
+    name: row.name,
+    scope: row.scope,
+    scopeId: row.scope_id,
+    timezone: row.timezone,
+    defaults: parseJson<ScheduleSetting>(row.default_json, {}),
+    blocks: Array.isArray(blocks) ? blocks : [],
+  };
+}
+
+export function parseOverrideRow(row: ScheduleOverrideRow): ScheduleOverride {
+  return {
+    id: row.id,
+    scope: row.scope,
+    scopeId: row.scope_id,
+    startsAt: Date.parse(row.starts_at),
+    endsAt: Date.parse(row.ends_at),
+    setting: parseJson<ScheduleSetting>(row.body_json, {}),
+    reason: row.reason,
+  };
+}
+
+const isEmptySetting = (setting: ScheduleSetting) => setting.dhwSetC === undefined && setting.mode === undefined;
+
+export const settingKey = (setting: ScheduleSetting) =>
+  JSON.stringify({ dhwSetC: setting.dhwSetC ?? null, mode: setting.mode ?? null });
+
+export function describeSetting(setting: ScheduleSetting): string {
+  const parts: string[] = [];
+  if (setting.dhwSetC !== undefined) parts.push(`DHW ${setting.dhwSetC}°C`);
+  if (setting.mode !== undefined) parts.push(`mode ${setting.mode}`);
+  return parts.join(', ') || 'no change';
+}
+
+/** Device-scoped entries beat site-scoped ones; among equals the first (oldest) wins. */
+const byScope = <T extends { scope: ScheduleScope }>(items: T[]) =>
+  [...items.filter((item) => item.scope === 'device'), ...items.filter((item) => item.scope === 'site')];
+
+/**
+ * Resolves what a device should be running at `ms`. An active override replaces the weekly
+ * program outright; otherwise the winning program's first matching block, or its default, applies.
+ */
+export function resolveScheduleAt(
+  programs: ScheduleProgram[],
+  overrides: ScheduleOverride[],
+  ms: number,
+): ResolvedSchedule | null {
+  const activeOverrides = overrides
+    .filter((override) => override.startsAt <= ms && ms < override.endsAt)
+    .sort((a, b) => b.startsAt - a.startsAt);
+  const override = byScope(activeOverrides)[0];
+  if (override) {
+    return { setting: override.setting, source: `override:${override.id}`, label: override.reason ?? 'Override' };
+  }
+  const program = byScope(programs)[0];
+  if (!program) {
+    return null;
+  }
+  const { weekday, minute } = localTimeParts(ms, program.timezone);
+  const block = program.blocks.find((candidate) => weeklyWindowCovers(candidate, weekday, minute));
+  const setting = block ? { dhwSetC: block.dhwSetC, mode: block.mode } : program.defaults;
+  const clean: ScheduleSetting = {};
+  if (setting.dhwSetC !== undefined) clean.dhwSetC = setting.dhwSetC;
+  if (setting.mode !== undefined) clean.mode = setting.mode;
+  if (isEmptySetting(clean)) {
+    return null;
+  }
+  return {
+    setting: clean,
+    source: `schedule:${program.id}`,
+    label: block ? `${program.name} ${block.start}–${block.end}` : program.name,
+  };
+}
+
+/**
+ * Finds the next time within `horizonMs` at which the resolved setting changes. Programs only
+ * change on quarter hours, so it checks those plus override boundaries.
+ */
+export function findNextChange(
+  programs: ScheduleProgram[],
+  overrides: ScheduleOverride[],
+  fromMs: number,
+  horizonMs = 7 * 24 * 60 * 60 * 1000,
+): { at: number; resolved: ResolvedSchedule | null } | null {
+  const current = resolveScheduleAt(programs, overrides, fromMs);
+  const currentKey = current ? `${current.source}|${settingKey(current.setting)}` : '';
+  const until = fromMs + horizonMs;
+  const candidates = new Set<number>();
+  for (let at = Math.floor(fromMs / STEP_MS) * STEP_MS + STEP_MS; at <= until; at += STEP_MS) {
+    candidates.add(at);
+  }
+  for (const override of overrides) {
+    if (override.startsAt > fromMs && override.startsAt <= until) candidates.add(override.startsAt);
+    if (override.endsAt > fromMs && override.endsAt <= until) candidates.add(override.endsAt);
+  }
+  for (const at of [...candidates].sort((a, b) => a - b)) {
+    const resolved = resolveScheduleAt(programs, overrides, at);
+    const key = resolved ? `${resolved.source}|${settingKey(resolved.setting)}` : '';
+    if (key !== currentKey) {
+      return { at, resolved };
+    }
+  }
+  return null;
+}
+
+/**
+ * Lists reasons the programs for one device may not behave as the author expects: several
+ * programs competing at the same scope, overlapping blocks or overrides that disagree, and
+ * setpoints the command pipeline will clamp.
+ */
+export function findScheduleConflicts(
+  programs: ScheduleProgram[],
+  overrides: ScheduleOverride[],
+  limits: { minC: number; maxC: number },
+): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  for (const scope of ['device', 'site'] as const) {
+    const competing = programs.filter((program) => program.scope === scope);
+    if (competing.length > 1) {
+      conflicts.push({
+        kind: 'duplicate_schedule',
+        message: `${competing.length} ${scope} schedules apply; "${competing[0]!.name}" wins over ${competing
+          .slice(1)
+          .map((program) => `"${program.name}"`)
+          .join(', ')}`,
+      });
+    }
+  }
+
+  const winner = byScope(programs)[0];
+  if (winner) {
+    const reported = new Set<string>();
+    for (let weekday = 0; weekday < 7; weekday += 1) {
+      for (let minute = 0; minute < 24 * 60; minute += SCHEDULE_STEP_MIN) {
+        const covering = winner.blocks
+          .map((block, index) => ({ block, index }))
+          .filter(({ block }) => weeklyWindowCovers(block, weekday, minute));
+        const first = covering[0];
+        if (!first) continue;
+        for (const other of covering.slice(1)) {
+          const pair = `${first.index}:${other.index}`;
+          if (reported.has(pair) || settingKey(first.block) === settingKey(other.block)) continue;
+          reported.add(pair);
+          conflicts.push({
+            kind: 'overlapping_blocks',
+            message: `"${winner.name}" blocks ${first.block.start}–${first.block.end} and ${other.block.start}–${
+              other.block.end
+            } overlap on ${WEEKDAY_LABELS[weekday]}; the first listed wins`,
+          });
+        }
+      }
+    }
+  }
+
+  const sorted = [...overrides].sort((a, b) => a.startsAt - b.startsAt);
+  for (let i = 0; i < sorted.length; i += 1) {
+    for (let j = i + 1; j < sorted.length; j += 1) {
+      const a = sorted[i]!;
+      const b = sorted[j]!;
+      if (b.startsAt < a.endsAt && settingKey(a.setting) !== settingKey(b.setting)) {
+        conflicts.push({
+          kind: 'overlapping_overrides',
+          message: `Overrides "${a.reason ?? a.id}" and "${b.reason ?? b.id}" overlap from ${new Date(
+            b.startsAt,
+          ).toISOString()}`,
+        });
+      }
+    }
+  }
+
+  const setpoints = new Set<number>();
+  for (const program of programs) {
+    if (program.defaults.dhwSetC !== undefined) setpoints.add(program.defaults.dhwSetC);
+    for (const block of program.blocks) {
+      if (block.dhwSetC !== undefined) setpoints.add(block.dhwSetC);
+    }
+  }
+  for (const override of overrides) {
+    if (override.setting.dhwSetC !== undefined) setpoints.add(override.setting.dhwSetC);
+  }
+  for (const value of [...setpoints].sort((a, b) => a - b)) {
+    if (value < limits.minC || value > limits.maxC) {
+      const bounded = Math.min(Math.max(value, limits.minC), limits.maxC);
+      conflicts.push({
+        kind: 'clamped',
+        message: `DHW ${value}°C is outside the write limits and will be clamped to ${bounded}°C`,
+      });
+    }
+  }
+  return conflicts;
+}
+
+type ScheduleStateRow = {
+  device_id: string;
+  source: string;
+  desired_json: string;
+  command_id: string | null;
+  command_status: string | null;
+};
+
+/** Loads enabled programs and unexpired overrides, keyed by device. */
+export async function loadDeviceSchedules(
+  DB: D1Database,
+  deviceIds: string[] | null,
+  now = new Date(),
+): Promise<Map<string, { programs: ScheduleProgram[]; overrides: ScheduleOverride[] }>> {
+  const [programRows, overrideRows] = await Promise.all([
+    DB.prepare(
+      `SELECT id, name, scope, scope_id, timezone, default_json, blocks_json, enabled, created_at, updated_at
+         FROM device_schedules
+        WHERE enabled=1
+        ORDER BY created_at`,
+    ).all<DeviceScheduleRow>(),
+    DB.prepare(
+      `SELECT id, scope, scope_id, starts_at, ends_at, body_json, reason, created_by, created_at
+         FROM schedule_overrides
+        WHERE ends_at > ?
+        ORDER BY starts_at`,
+    )
+      .bind(now.toISOString())
+      .all<ScheduleOverrideRow>(),
+  ]);
+  const programs = (programRows.results ?? []).map(parseScheduleRow);
+  const overrides = (overrideRows.results ?? []).map(parseOverrideRow);
+  const result = new Map<string, { programs: ScheduleProgram[]; overrides: ScheduleOverride[] }>();
+  if (programs.length === 0 && overrides.length === 0) {
+    return result;
+  }
+
+  const devices = await DB.prepare('SELECT device_id, site_id FROM devices').all<{
+    device_id: string;
+    site_id: string | null;
+  }>();
+  const wanted = deviceIds ? new Set(deviceIds) : null;
+  const applies = (item: { scope: ScheduleScope; scopeId: string }, device: { device_id: string; site_id: string | null }) =>
+    item.scope === 'device' ? item.scopeId === device.device_id : !!device.site_id && item.scopeId === device.site_id;
+  for (const device of devices.results ?? []) {
+    if (wanted && !wanted.has(device.device_id)) continue;
+    const entry = {
+      programs: programs.filter((program) => applies(program, device)),
+      overrides: overrides.filter((override) => applies(override, device)),
+    };
+    if (entry.programs.length > 0 || entry.overrides.length > 0) {
+      result.set(device.device_id, entry);
+    }
+  }
+  return result;
+}
+
+/** Forgets what the scheduler last sent so the next run re-issues the device's current program. */
+export async function releaseScheduleState(DB: D1Database, deviceId: string) {
+  await DB.prepare('DELETE FROM device_schedule_state WHERE device_id=?').bind(deviceId).run();
+}
+
+/**
+ * Issues a command to every scheduled device whose resolved setting differs from what the
+ * scheduler last asked for. Commands that expired before the device picked them up are
+ * re-issued while the window is still open; rejected ones are not retried. Devices held by a
+ * demand-response event are skipped until the event releases them.
+ */
+export async function runSchedules(
+  DB: D1Database,
+  deps: ScheduleDeps,
+  options: { commandTtlMs: number; heldDeviceIds?: Set<string> },
+  now = new Date(),
+): Promise<{ issued: number; unchanged: number; failed: number }> {
+  const summary = { issued: 0, unchanged: 0, failed: 0 };
+  const schedules = await loadDeviceSchedules(DB, null, now);
+  const states = await DB.prepare(
+    `SELECT s.device_id, s.source, s.desired_json, s.command_id, dc.status AS command_status
+       FROM device_schedule_state s
+       LEFT JOIN device_commands dc ON dc.command_id = s.command_id`,
+  ).all<ScheduleStateRow>();
+  const stateByDevice = new Map((states.results ?? []).map((row) => [row.device_id, row]));
+
+  // Devices whose programs were all removed keep their last setting; forget the bookkeeping.
+  const orphaned = [...stateByDevice.keys()].filter((deviceId) => !schedules.has(deviceId));
+  if (orphaned.length > 0) {
+    await DB.batch(orphaned.map((deviceId) => DB.prepare('DELETE FROM device_schedule_state WHERE device_id=?').bind(deviceId)));
+  }
+
+  for (const [deviceId, { programs, overrides }] of schedules) {
+    if (options.heldDeviceIds?.has(deviceId)) continue;
+    const resolved = resolveScheduleAt(programs, overrides, now.getTime());
+    if (!resolved) continue;
+    const key = settingKey(resolved.setting);
+    const state = stateByDevice.get(deviceId);
+    if (
+      state &&
+      state.source === resolved.source &&
+      state.desired_json === key &&
+      state.command_status !== 'expired'
+    ) {
+      summary.unchanged += 1;
+      continue;
+    }
+
+    const next = findNextChange(programs, overrides, now.getTime(), options.commandTtlMs);
+    const notAfter = new Date(next ? next.at : now.getTime() + options.commandTtlMs);
+    const result = await deps.issue(deviceId, `scheduler:${resolved.source}`, resolved.setting, notAfter).catch(
+      (error: unknown) => ({ ok: false as const, error: error instanceof Error ? error.message : String(error) }),
+    );
+    if (!result.ok) {
+      console.warn('scheduled command failed', { deviceId, source: resolved.source, error: result.error });
+      summary.failed += 1;
+      continue;
+    }
+    await DB.prepare(
+      `INSERT INTO device_schedule_state (device_id, source, desired_json, command_id, issued_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(device_id) DO UPDATE SET
+         source=excluded.source,
+         desired_json=excluded.desired_json,
+         command_id=excluded.command_id,
+         issued_at=excluded.issued_at`,
+    )
+      .bind(deviceId, resolved.source, key, result.commandId, now.toISOString())
+      .run();
+    summary.issued += 1;
+  }
+  return summary;
+}
+
+export type ScheduleInput = {
+  name: string;
+  scope: ScheduleScope;
+  scopeId: string;
+  timezone: string;
+  defaults: ScheduleSetting;
+  blocks: ScheduleBlock[];
+  enabled: boolean;
+};
+
+export type ScheduleOverrideInput = {
+  scope: ScheduleScope;
+  scopeId: string;
+  startsAt: string;
+  endsAt: string;
+  setting: ScheduleSetting;
+  reason: string | null;
+};
+
+function parseSetting(raw: unknown, path: string, errors: string[]): ScheduleSetting {
+  const setting: ScheduleSetting = {};
+  if (!raw || typeof raw !== 'object') return setting;
+  const input = raw as Record<string, unknown>;
+  if (input.dhwSetC !== undefined && input.dhwSetC !== null) {
+    if (typeof input.dhwSetC === 'number' && Number.isFinite(input.dhwSetC)) {
+      setting.dhwSetC = input.dhwSetC;
+    } else {
+      errors.push(`${path}.dhwSetC must be a number`);
+    }
+  }
+  if (input.mode !== undefined && input.mode !== null) {
+    if (isCommandMode(input.mode)) {
+      setting.mode = input.mode;
+    } else {
+      errors.push(`${path}.mode must be one of ${COMMAND_MODES.join(', ')}`);
+    }
+  }
+  return setting;
+}
+
+const isQuarterHour = (value: unknown): value is string =>
+  typeof value === 'string' && CLOCK_TIME_PATTERN.test(value) && clockMinutes(value) % SCHEDULE_STEP_MIN === 0;
+
+function parseScope(input: Record<string, unknown>, errors: string[]) {
+  const scope: ScheduleScope | null = input.scope === 'site' ? 'site' : input.scope === 'device' ? 'device' : null;
+  const scopeId = typeof input.scopeId === 'string' ? input.scopeId.trim() : '';
+  if (!scope) errors.push('scope must be device or site');
+  if (!scopeId) errors.push('scopeId is required');
+  return { scope: scope ?? ('device' as ScheduleScope), scopeId };
+}
+
+export function parseScheduleInput(body: unknown): { ok: true; value: ScheduleInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = typeof input.name === 'string' ? input.name.trim().slice(0, 120) : '';
+  if (!name) errors.push('name is required');
+  const { scope, scopeId } = parseScope(input, errors);
+  const timezone = typeof input.timezone === 'string' && input.timezone.trim() ? input.timezone.trim() : DEFAULT_TIMEZONE;
+  if (!isValidTimeZone(timezone)) errors.push('timezone must be an IANA time zone');
+
+  const defaults = parseSetting(input.defaults, 'defaults', errors);
+  const rawBlocks = Array.isArray(input.blocks) ? input.blocks : [];
+  if (rawBlocks.length > MAX_BLOCKS) errors.push(`at most ${MAX_BLOCKS} blocks are allowed`);
+  const blocks: ScheduleBlock[] = rawBlocks.slice(0, MAX_BLOCKS).map((raw, index) => {
+    const block = (raw ?? {}) as Record<string, unknown>;
+    const path = `blocks[${index}]`;
+    const days = Array.isArray(block.days) ? block.days : [];
+    if (days.length === 0 || !days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      errors.push(`${path}.days must list weekdays 0 (Sunday) to 6 (Saturday)`);
+    }
+    if (!isQuarterHour(block.start)) errors.push(`${path}.start must be HH:MM on a quarter hour`);
+    if (!isQuarterHour(block.end)) errors.push(`${path}.end must be HH:MM on a quarter hour`);
+    const setting = parseSetting(block, path, errors);
+    if (isEmptySetting(setting)) errors.push(`${path} must set dhwSetC or mode`);
+    return { days: days as number[], start: block.start as string, end: block.end as string, ...setting };
+  });
+  if (blocks.length === 0 && isEmptySetting(defaults)) {
+    errors.push('provide at least one block or a default setting');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: { name, scope, scopeId, timezone, defaults, blocks, enabled: input.enabled !== false },
+  };
+}
+
+export function parseScheduleOverrideInput(
+  body: unknown,
+): { ok: true; value: ScheduleOverrideInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+  const { scope, scopeId } = parseScope(input, errors);
+  const startsAt = typeof input.startsAt === 'string' ? Date.parse(input.startsAt) : NaN;
+  const endsAt = typeof input.endsAt === 'string' ? Date.parse(input.endsAt) : NaN;
+  if (Number.isNaN(startsAt) || Number.isNaN(endsAt)) {
+    errors.push('startsAt and endsAt must be ISO timestamps');
+  } else if (endsAt <= startsAt) {
+    errors.push('endsAt must be after startsAt');
+  }
+  const setting = parseSetting(input, 'override', errors);
+  if (isEmptySetting(setting)) errors.push('override must set dhwSetC or mode');
+  const reason = typeof input.reason === 'string' && input.reason.trim() ? input.reason.trim().slice(0, 200) : null;
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: {
+      scope,
+      scopeId,
+      startsAt: new Date(startsAt).toISOString(),
+      endsAt: new Date(endsAt).toISOString(),
+      setting,
+      reason,
+    },
+  };
+}
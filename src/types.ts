@@ -19,7 +19,14 @@ export type TelemetryPayload = {
     online?: boolean;
     flags?: Record<string, Record<string, boolean>>;
   };
-  faults?: Array<{ code: string; description?: string; active: boolean }>;
+  faults?: Array<{
+    code: string;
+    description?: string;
+    active: boolean;
+    /** Filled from the fault catalogue at ingest when the code is catalogued. */
+    severity?: 'minor' | 'major' | 'critical';
+    title?: string;
+  }>;
   derived?: {
     deltaT?: number;
     thermalKW?: number;
@@ -36,4 +43,5 @@ export type HeartbeatPayload = {
 
 export type IngestMessage =
   | { type: 'telemetry'; profileId: string; body: TelemetryPayload }
-  | { type: 'heartbeat'; profileId: string; body: HeartbeatPayload };
+  | { type: 'heartbeat'; profileId: string; body: HeartbeatPayload }
+  | { type: 'export'; jobId: string };
@@ -34,6 +34,7 @@ export interface Env {
   ACCESS_JWKS: string;
   ACCESS_JWKS_URL?: string;
   JWT_SECRET: string;
+  COMMISSIONING_SIGNING_SECRET?: string;
   WRITE_MIN_C: string;
   WRITE_MAX_C: string;
   DEV_AUTH_BYPASS?: string;
@@ -0,0 +1,451 @@
+import type { D1Database } from './types/env';
+import {
+  collectNotificationEvents,
+  parseSqlTimestamp,
+  subscriptionMatches,
+  type NotificationEvent,
+} from './notifications';
+
+export type DigestMode = 'off' | 'hourly' | 'daily';
+
+/** Stored as JSON in auth_users.notification_prefs_json; times are local to `timezone`. */
+export type NotificationPreferences = {
+  email: boolean;
+  digest: DigestMode;
+  digestHour: number;
+  quietHours: { start: string; end: string } | null;
+  timezone: string;
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email: true,
+  digest: 'off',
+  digestHour: 7,
+  quietHours: null,
+  timezone: 'UTC',
+};
+
+export type UserAlertSubscriptionRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  site_ids: string | null;
+  client_ids: string | null;
+  device_ids: string | null;
+  rules: string | null;
+  severities: string | null;
+  enabled: number;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type UserAlertSubscriptionInput = {
+  name: string;
+  siteIds: string[] | null;
+  clientIds: string[] | null;
+  deviceIds: string[] | null;
+  rules: string[] | null;
+  severities: string[] | null;
+  enabled: boolean;
+};
+
+/** What a user may see right now, from `auth_users.roles` and `auth_users.client_ids`. */
+export type SubscriberAccess = { roles: string[]; clientIds: string[] };
+
+export type UserNotificationDeps = {
+  send: (to: string, subject: string, text: string) => Promise<boolean>;
+};
+
+const DIGEST_MODES: DigestMode[] = ['off', 'hourly', 'daily'];
+const HOUR_MS = 60 * 60_000;
+const PENDING_TTL_MS = 7 * 24 * HOUR_MS;
+const DISPATCH_BATCH = 500;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const parseList = (json: string | null): string[] | null => {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed.map(String) : null;
+  } catch {
+    return null;
+  }
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function parseNotificationPreferences(
+  value: unknown,
+): { ok: true; value: NotificationPreferences } | { ok: false; errors: string[] } {
+  if (!value || typeof value !== 'object') {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (input.email != null && typeof input.email !== 'boolean') errors.push('email must be a boolean');
+  const digest = input.digest ?? DEFAULT_NOTIFICATION_PREFERENCES.digest;
+  if (!(DIGEST_MODES as unknown[]).includes(digest)) errors.push('digest must be off, hourly or daily');
+  const digestHour = input.digestHour ?? DEFAULT_NOTIFICATION_PREFERENCES.digestHour;
+  if (typeof digestHour !== 'number' || !Number.isInteger(digestHour) || digestHour < 0 || digestHour > 23) {
+    errors.push('digestHour must be an hour from 0 to 23');
+  }
+  const timezone = input.timezone ?? DEFAULT_NOTIFICATION_PREFERENCES.timezone;
+  if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) errors.push('timezone must be an IANA time zone');
+
+  let quietHours: NotificationPreferences['quietHours'] = null;
+  if (input.quietHours != null) {
+    const quiet = input.quietHours as Record<string, unknown>;
+    if (
+      typeof quiet !== 'object' ||
+      typeof quiet.start !== 'string' ||
+      typeof quiet.end !== 'string' ||
+      !TIME_PATTERN.test(quiet.start) ||
+      !TIME_PATTERN.test(quiet.end)
+    ) {
+      errors.push('quietHours must have start and end times as HH:MM');
+    } else if (quiet.start === quiet.end) {
+      errors.push('quietHours start and end must differ');
+    } else {
+      quietHours = { start: quiet.start, end: quiet.end };
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: {
+      email: input.email !== false,
+      digest: digest as DigestMode,
+      digestHour: digestHour as number,
+      quietHours,
+      timezone: timezone as string,
+    },
+  };
+}
+
+/** Falls back to the defaults for missing or unreadable stored preferences. */
+export function readNotificationPreferences(json: string | null | undefined): NotificationPreferences {
+  if (!json) return DEFAULT_NOTIFICATION_PREFERENCES;
+  try {
+    const parsed = parseNotificationPreferences(JSON.parse(json));
+    return parsed.ok ? parsed.value : DEFAULT_NOTIFICATION_PREFERENCES;
+  } catch {
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+}
+
+export function parseUserSubscriptionInput(
+  body: unknown,
+): { ok: true; value: UserAlertSubscriptionInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: ['body must be an object'] };
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = typeof input.name === 'string' ? input.name.trim().slice(0, 120) : '';
+  if (!name) errors.push('name is required');
+
+  const list = (key: string): string[] | null => {
+    const value = input[key];
+    if (value == null) return null;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+      errors.push(`${key} must be an array of strings`);
+      return null;
+    }
+    const items = (value as string[]).map((item) => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : null;
+  };
+  const siteIds = list('siteIds');
+  const clientIds = list('clientIds');
+  const deviceIds = list('deviceIds');
+  const rules = list('rules');
+  const severities = list('severities');
+  if (severities?.some((severity) => !['minor', 'major', 'critical'].includes(severity))) {
+    errors.push('severities must be minor, major or critical');
+  }
+  if (input.enabled != null && typeof input.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: { name, siteIds, clientIds, deviceIds, rules, severities, enabled: input.enabled !== false },
+  };
+}
+
+// auth_users stores roles and client ids as JSON arrays or comma-separated lists.
+const parseStoredList = (value: string | null): string[] => {
+  if (!value) return [];
+  if (value.trim().startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.map((item) => String(item).trim()).filter(Boolean) : [];
+    } catch {
+      return [];
+    }
+  }
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+};
+
+export function readSubscriberAccess(roles: string | null, clientIds: string | null): SubscriberAccess {
+  return {
+    roles: parseStoredList(roles).map((role) => role.toLowerCase()),
+    clientIds: parseStoredList(clientIds),
+  };
+}
+
+const seesAllClients = (access: SubscriberAccess) => access.roles.includes('admin') || access.roles.includes('ops');
+
+/**
+ * Client users only hear about their own clients: an unscoped subscription is pinned to them and other client ids
+ * are rejected. Returns the client ids to store, or an error.
+ */
+export function scopeSubscriptionClients(
+  access: SubscriberAccess,
+  clientIds: string[] | null,
+): { ok: true; clientIds: string[] | null } | { ok: false; error: string } {
+  if (seesAllClients(access)) {
+    return { ok: true, clientIds };
+  }
+  if (!access.roles.includes('client') || access.clientIds.length === 0) {
+    return { ok: false, error: 'clientIds: your account is not linked to any client' };
+  }
+  if (clientIds?.some((id) => !access.clientIds.includes(id))) {
+    return { ok: false, error: 'clientIds must be clients you have access to' };
+  }
+  return { ok: true, clientIds: clientIds ?? access.clientIds };
+}
+
+/**
+ * Narrows a stored subscription to its owner's access at delivery time, since roles and clients can change after
+ * it was saved. Returns null when the owner can no longer see any of it.
+ */
+export function scopeSubscriptionForDelivery<T extends Pick<UserAlertSubscriptionRow, 'client_ids'>>(
+  sub: T,
+  access: SubscriberAccess,
+): T | null {
+  if (seesAllClients(access)) return sub;
+  if (!access.roles.includes('client') || access.clientIds.length === 0) return null;
+  const stored = parseList(sub.client_ids);
+  const clients = stored ? stored.filter((id) => access.clientIds.includes(id)) : access.clientIds;
+  return clients.length > 0 ? { ...sub, client_ids: JSON.stringify(clients) } : null;
+}
+
+/** Site, client, rule and severity filters work as for channel subscriptions; devices are matched by id. */
+export function userSubscriptionMatches(sub: UserAlertSubscriptionRow, event: NotificationEvent): boolean {
+  const devices = parseList(sub.device_ids);
+  if (devices && (!event.deviceId || !devices.includes(event.deviceId))) return false;
+  return subscriptionMatches({ ...sub, events: null }, event);
+}
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+/** Minutes past local midnight in the given zone. */
+export function localMinutes(now: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((item) => item.type === type)?.value ?? 0);
+  return part('hour') * 60 + part('minute');
+}
+
+/** Quiet hours may wrap midnight (22:00–07:00). */
+export function isQuietTime(prefs: NotificationPreferences, now: Date): boolean {
+  if (!prefs.quietHours) return false;
+  const start = toMinutes(prefs.quietHours.start);
+  const end = toMinutes(prefs.quietHours.end);
+  const minutes = localMinutes(now, prefs.timezone);
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Whether a user's pending notifications should go out now. Immediate delivery waits out quiet hours and then
+ * sends what built up in one email; daily digests go out during the chosen local hour.
+ */
+export function deliveryDue(prefs: NotificationPreferences, now: Date, lastSentAt: Date | null): boolean {
+  const sinceLast = lastSentAt ? now.getTime() - lastSentAt.getTime() : Infinity;
+  if (prefs.digest === 'daily') {
+    return Math.floor(localMinutes(now, prefs.timezone) / 60) === prefs.digestHour && sinceLast >= 23 * HOUR_MS;
+  }
+  if (isQuietTime(prefs, now)) return false;
+  return prefs.digest === 'off' || sinceLast >= HOUR_MS;
+}
+
+const formatLocal = (ts: string, timeZone: string) => {
+  const date = new Date(ts);
+  return Number.isNaN(date.getTime())
+    ? ts
+    : new Intl.DateTimeFormat('en-GB', { timeZone, dateStyle: 'medium', timeStyle: 'short' }).format(date);
+};
+
+export function buildUserNotificationEmail(
+  events: NotificationEvent[],
+  prefs: NotificationPreferences,
+): { subject: string; text: string } {
+  const line = (event: NotificationEvent) =>
+    [
+      `[${(event.severity ?? 'info').toUpperCase()}] ${event.title}`,
+      event.siteId ? `site ${event.siteId}` : null,
+      formatLocal(event.ts, prefs.timezone),
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+  const footer = ['', 'Manage your alert subscriptions on your Greenbro profile page.'];
+  if (events.length === 1) {
+    const [event] = events as [NotificationEvent];
+    return {
+      subject: `[${(event.severity ?? 'info').toUpperCase()}] ${event.title}`,
+      text: [line(event), ...footer].join('\n'),
+    };
+  }
+  const label = prefs.digest === 'daily' ? 'Daily' : prefs.digest === 'hourly' ? 'Hourly' : 'Alert';
+  return {
+    subject: `${label} digest: ${events.length} alerts and incidents`,
+    text: [...events.map((event) => `- ${line(event)}`), ...footer].join('\n'),
+  };
+}
+
+/**
+ * Queues one notification per user for each alert or incident that any of their enabled subscriptions match.
+ * The (user, event) unique index keeps overlapping subscriptions and repeated sweeps from duplicating mail.
+ * Subscriptions are re-scoped to the owner's current roles and clients; users left with no role get nothing.
+ */
+export async function fanOutUserNotifications(DB: D1Database, now = new Date()): Promise<number> {
+  const subs = await DB.prepare(
+    `SELECT s.id, s.user_id, s.name, s.site_ids, s.client_ids, s.device_ids, s.rules, s.severities, s.enabled,
+            s.created_at, u.notification_prefs_json, u.roles, u.client_ids AS user_client_ids
+       FROM user_alert_subscriptions s
+       JOIN auth_users u ON u.id = s.user_id
+      WHERE s.enabled=1`,
+  ).all<
+    UserAlertSubscriptionRow & {
+      notification_prefs_json: string | null;
+      roles: string | null;
+      user_client_ids: string | null;
+    }
+  >();
+  const subscriptions = (subs.results ?? [])
+    .filter((sub) => readNotificationPreferences(sub.notification_prefs_json).email)
+    .map((sub) => scopeSubscriptionForDelivery(sub, readSubscriberAccess(sub.roles, sub.user_client_ids)))
+    .filter((sub): sub is NonNullable<typeof sub> => sub !== null);
+  if (subscriptions.length === 0) return 0;
+
+  const events = await collectNotificationEvents(DB);
+  let queued = 0;
+  for (const event of events) {
+    const users = new Set(
+      subscriptions
+        // Subscriptions only see events raised after they were created.
+        .filter((sub) => Date.parse(event.ts) >= parseSqlTimestamp(sub.created_at))
+        .filter((sub) => userSubscriptionMatches(sub, event))
+        .map((sub) => sub.user_id),
+    );
+    for (const userId of users) {
+      const result = await DB.prepare(
+        `INSERT OR IGNORE INTO user_notifications (id, user_id, event_key, event_json, status, created_at)
+         VALUES (?, ?, ?, ?, 'pending', ?)`,
+      )
+        .bind(crypto.randomUUID(), userId, event.key, JSON.stringify(event), now.toISOString())
+        .run();
+      queued += result.meta?.changes ?? 0;
+    }
+  }
+  return queued;
+}
+
+/**
+ * Sends what is due, user by user, so mail held for one user's quiet hours or digest never crowds out anyone
+ * else's. Users who have switched email off since their mail was queued have it dropped.
+ */
+export async function dispatchUserNotifications(
+  DB: D1Database,
+  deps: UserNotificationDeps,
+  now = new Date(),
+): Promise<{ emailed: number; held: number; dropped: number }> {
+  // Mail that could not go out for a week (no email webhook configured, say) is dropped rather than sent late.
+  await DB.prepare("UPDATE user_notifications SET status='dropped' WHERE status='pending' AND created_at < ?")
+    .bind(new Date(now.getTime() - PENDING_TTL_MS).toISOString())
+    .run();
+
+  const users = await DB.prepare(
+    `SELECT n.user_id, u.email, u.notification_prefs_json, COUNT(*) AS pending,
+            (SELECT MAX(s.sent_at) FROM user_notifications s
+              WHERE s.user_id = n.user_id AND s.status='sent') AS last_sent_at
+       FROM user_notifications n
+       JOIN auth_users u ON u.id = n.user_id
+      WHERE n.status='pending'
+      GROUP BY n.user_id`,
+  ).all<{
+    user_id: string;
+    email: string;
+    notification_prefs_json: string | null;
+    pending: number;
+    last_sent_at: string | null;
+  }>();
+
+  const summary = { emailed: 0, held: 0, dropped: 0 };
+  for (const user of users.results ?? []) {
+    const prefs = readNotificationPreferences(user.notification_prefs_json);
+    if (!prefs.email) {
+      await DB.prepare("UPDATE user_notifications SET status='dropped' WHERE user_id=? AND status='pending'")
+        .bind(user.user_id)
+        .run();
+      summary.dropped += Number(user.pending);
+      continue;
+    }
+    if (!deliveryDue(prefs, now, user.last_sent_at ? new Date(user.last_sent_at) : null)) {
+      summary.held += Number(user.pending);
+      continue;
+    }
+    const pending = await DB.prepare(
+      `SELECT id, event_json FROM user_notifications
+        WHERE user_id=? AND status='pending'
+        ORDER BY created_at
+        LIMIT ${DISPATCH_BATCH}`,
+    )
+      .bind(user.user_id)
+      .all<{ id: string; event_json: string }>();
+    const rows = pending.results ?? [];
+    if (rows.length === 0) continue;
+    const events = rows.map((row) => JSON.parse(row.event_json) as NotificationEvent);
+    const { subject, text } = buildUserNotificationEmail(events, prefs);
+    if (!(await deps.send(user.email, subject, text))) {
+      summary.held += rows.length;
+      continue;
+    }
+    const sentAt = now.toISOString();
+    await DB.batch(
+      rows.map((row) =>
+        DB.prepare("UPDATE user_notifications SET status='sent', sent_at=? WHERE id=?").bind(sentAt, row.id),
+      ),
+    );
+    summary.emailed += 1;
+  }
+  return summary;
+}
+
+export async function runUserNotifications(DB: D1Database, deps: UserNotificationDeps, now = new Date()) {
+  await fanOutUserNotifications(DB, now);
+  return dispatchUserNotifications(DB, deps, now);
+}
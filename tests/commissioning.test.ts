@@ -1,5 +1,6 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
+import { PDFDocument } from 'pdf-lib';
 
 import worker from '../src/app';
 import { pruneR2Prefix } from '../src/lib/prune';
@@ -34,6 +35,7 @@ type StepRow = {
   readings_json: string | null;
   comment: string | null;
   updated_at: string;
+  version: number;
 };
 
 type ArtifactRow = {
@@ -44,6 +46,31 @@ type ArtifactRow = {
   created_at: string;
 };
 
+type AttachmentRow = {
+  attachment_id: string;
+  session_id: string;
+  step_id: string | null;
+  kind: string;
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  r2_key: string;
+  thumb_key: string | null;
+  uploaded_by: string | null;
+  created_at: string;
+};
+
+type SignatureRow = {
+  session_id: string;
+  signer_name: string;
+  signed_at: string;
+  signature_key: string;
+  signature_sha256: string;
+  state_hash: string;
+  seal: string;
+  captured_by: string | null;
+};
+
 class MockD1PreparedStatement {
   #sql: string;
   #db: MockD1Database;
@@ -67,7 +94,7 @@ class MockD1PreparedStatement {
     return this.#db.execute<T>(this.#sql, this.#args, 'all');
   }
 
-  async run(): Promise<{ success: boolean }> {
+  async run(): Promise<{ success: boolean; meta?: { changes: number } }> {
     return this.#db.execute(this.#sql, this.#args, 'run');
   }
 }
@@ -78,6 +105,8 @@ class MockD1Database {
   #sessions = new Map<string, SessionRow>();
   #steps = new Map<string, StepRow>();
   #artifacts = new Map<string, ArtifactRow>();
+  #attachments = new Map<string, AttachmentRow>();
+  #signatures = new Map<string, SignatureRow>();
   #latest = new Map<string, { ts: string; metrics_json: string | null; delta_t: number | null; cop: number | null }>();
   #telemetry = new Map<
     string,
@@ -275,29 +304,33 @@ class MockD1Database {
           readings_json: null,
           comment: null,
           updated_at: now,
+          version: 0,
         });
         return { success: true };
       }
-      case "UPDATE commissioning_steps SET state=?, readings_json=?, comment=?, updated_at=datetime('now') WHERE session_id=? AND step_id=?": {
-        const [state, readings_json, comment, session_id, step_id] = args as [
+      case "UPDATE commissioning_steps SET state=?, readings_json=?, comment=?, updated_at=datetime('now'), version=version+1 WHERE session_id=? AND step_id=? AND version=?": {
+        const [state, readings_json, comment, session_id, step_id, version] = args as [
           string,
           string | null,
           string | null,
           string,
           string,
+          number,
         ];
         const key = `${session_id}:${step_id}`;
         const existing = this.#steps.get(key);
-        if (existing) {
-          existing.state = state;
-          existing.readings_json = readings_json;
-          existing.comment = comment;
-          existing.updated_at = new Date().toISOString();
-          this.#steps.set(key, existing);
+        if (!existing || existing.version !== version) {
+          return { success: true, meta: { changes: 0 } };
         }
-        return { success: true };
+        existing.state = state;
+        existing.readings_json = readings_json;
+        existing.comment = comment;
+        // Second resolution, as D1 stores it: only the version tells same-second writes apart.
+        existing.updated_at = new Date().toISOString().slice(0, 19).replace('T', ' ');
+        existing.version += 1;
+        return { success: true, meta: { changes: 1 } };
       }
-      case "UPDATE commissioning_steps SET state=?, readings_json=?, updated_at=datetime('now') WHERE session_id=? AND step_id=?": {
+      case "UPDATE commissioning_steps SET state=?, readings_json=?, updated_at=datetime('now'), version=version+1 WHERE session_id=? AND step_id=?": {
         const [state, readings_json, session_id, step_id] = args as [string, string | null, string, string];
         const key = `${session_id}:${step_id}`;
         const existing = this.#steps.get(key);
@@ -305,6 +338,7 @@ class MockD1Database {
           existing.state = state;
           existing.readings_json = readings_json;
           existing.updated_at = new Date().toISOString();
+          existing.version += 1;
           this.#steps.set(key, existing);
         }
         return { success: true };
@@ -386,6 +420,15 @@ class MockD1Database {
           .sort((a, b) => a.updated_at.localeCompare(b.updated_at));
         return { results: rows as unknown as T[] };
       }
+      case 'SELECT step_id,title,state,readings_json,comment,updated_at FROM commissioning_steps WHERE session_id=? ORDER BY updated_at':
+      case 'SELECT step_id,title,state,readings_json,comment,updated_at,version FROM commissioning_steps WHERE session_id=? ORDER BY updated_at': {
+        const id = String(args[0] ?? '');
+        const rows = [...this.#steps.values()]
+          .filter((row) => row.session_id === id)
+          .sort((a, b) => a.updated_at.localeCompare(b.updated_at))
+          .map((row) => ({ ...row }));
+        return { results: rows as unknown as T[] };
+      }
       case 'SELECT step_id, state FROM commissioning_steps WHERE session_id=?': {
         const id = String(args[0] ?? '');
         const rows = [...this.#steps.values()]
@@ -416,6 +459,70 @@ class MockD1Database {
         const row = rows.length > 0 ? rows[rows.length - 1] : null;
         return row ? ({ ...row } as unknown as T) : null;
       }
+      case 'SELECT * FROM commissioning_attachments WHERE session_id=? ORDER BY created_at, attachment_id': {
+        const id = String(args[0] ?? '');
+        const rows = [...this.#attachments.values()]
+          .filter((row) => row.session_id === id)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.attachment_id.localeCompare(b.attachment_id));
+        return { results: rows.map((row) => ({ ...row })) as unknown as T[] };
+      }
+      case 'SELECT COUNT(*) AS files, COALESCE(SUM(size_bytes), 0) AS bytes FROM commissioning_attachments WHERE session_id=?': {
+        const id = String(args[0] ?? '');
+        const rows = [...this.#attachments.values()].filter((row) => row.session_id === id);
+        return {
+          files: rows.length,
+          bytes: rows.reduce((sum, row) => sum + row.size_bytes, 0),
+        } as unknown as T;
+      }
+      case `INSERT INTO commissioning_attachments
+         (attachment_id, session_id, step_id, kind, filename, content_type, size_bytes, r2_key, thumb_key, uploaded_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`: {
+        const [attachment_id, session_id, step_id, kind, filename, content_type, size_bytes, r2_key, thumb_key, uploaded_by, created_at] =
+          args as [string, string, string | null, string, string, string, number, string, string | null, string | null, string];
+        this.#attachments.set(attachment_id, {
+          attachment_id,
+          session_id,
+          step_id,
+          kind,
+          filename,
+          content_type,
+          size_bytes,
+          r2_key,
+          thumb_key,
+          uploaded_by,
+          created_at,
+        });
+        return { success: true };
+      }
+      case 'SELECT * FROM commissioning_attachments WHERE attachment_id=?': {
+        const row = this.#attachments.get(String(args[0] ?? '')) ?? null;
+        return row ? ({ ...row } as unknown as T) : null;
+      }
+      case 'DELETE FROM commissioning_attachments WHERE attachment_id=?': {
+        this.#attachments.delete(String(args[0] ?? ''));
+        return { success: true };
+      }
+      case 'SELECT * FROM commissioning_signatures WHERE session_id=?': {
+        const row = this.#signatures.get(String(args[0] ?? '')) ?? null;
+        return row ? ({ ...row } as unknown as T) : null;
+      }
+      case `INSERT INTO commissioning_signatures
+       (session_id, signer_name, signed_at, signature_key, signature_sha256, state_hash, seal, captured_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`: {
+        const [session_id, signer_name, signed_at, signature_key, signature_sha256, state_hash, seal, captured_by] =
+          args as [string, string, string, string, string, string, string, string | null];
+        this.#signatures.set(session_id, {
+          session_id,
+          signer_name,
+          signed_at,
+          signature_key,
+          signature_sha256,
+          state_hash,
+          seal,
+          captured_by,
+        });
+        return { success: true };
+      }
       case 'INSERT INTO ops_metrics (ts, route, status_code, duration_ms, device_id) VALUES (?, ?, ?, ?, ?)': {
         return { success: true };
       }
@@ -440,6 +547,12 @@ class MockR2Bucket {
     return this.#objects.get(key) ?? null;
   }
 
+  async get(key: string) {
+    const entry = this.#objects.get(key);
+    if (!entry) return null;
+    return { arrayBuffer: async () => entry.body.slice().buffer, httpMetadata: entry.httpMetadata };
+  }
+
   async list({ prefix = '', cursor, limit = 1000 }: { prefix?: string; cursor?: string; limit?: number }) {
     const keys = [...this.#objects.keys()].filter((key) => key.startsWith(prefix));
     let start = 0;
@@ -715,6 +828,65 @@ test('finalise enforces required steps before passing session', async () => {
   assert.equal(secondBody.ok, true);
 });
 
+test('typed checklist steps are evaluated by the worker', async () => {
+  const env = createEnv();
+  const ctx = createCtx();
+  env.DB.seedChecklist({
+    checklist_id: 'field-install-v2',
+    name: 'field-install',
+    version: 2,
+    steps_json: JSON.stringify([
+      { id: 'pressure', title: 'System pressure', type: 'reading', required: true, unit: 'bar', min: 1, max: 2.5 },
+      { id: 'load', title: 'ΔT under load', type: 'auto', required: true, window_s: 60, thresholds: { delta_t_min: 4 } },
+    ]),
+    required_steps_json: JSON.stringify(['pressure', 'load']),
+    created_at: new Date().toISOString(),
+  });
+
+  const startRes = await worker.fetch(
+    new Request('http://test/api/commissioning/start', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ device_id: 'device-typed', checklist_id: 'field-install-v2' }),
+    }),
+    env,
+    ctx,
+  );
+  const { session_id: sessionId } = (await startRes.json()) as { session_id: string };
+
+  const postStep = (body: Record<string, unknown>) =>
+    worker.fetch(
+      new Request('http://test/api/commissioning/step', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ session_id: sessionId, ...body }),
+      }),
+      env,
+      ctx,
+    );
+
+  const reading = await postStep({ step_id: 'pressure', state: 'pass', readings: { value: 3.1 } });
+  assert.equal(reading.status, 200);
+  assert.equal(((await reading.json()) as { state: string }).state, 'fail');
+  assert.equal(env.DB.getStep(sessionId, 'pressure')?.state, 'fail');
+
+  const missingValue = await postStep({ step_id: 'pressure', state: 'pass' });
+  assert.equal(missingValue.status, 400);
+
+  const manualAuto = await postStep({ step_id: 'load', state: 'pass' });
+  assert.equal(manualAuto.status, 400);
+  assert.equal(env.DB.getStep(sessionId, 'load')?.state, 'pending');
+
+  const skipped = await postStep({ step_id: 'load', state: 'skip', comment: 'No load available' });
+  assert.equal(skipped.status, 200);
+
+  const invalidState = await postStep({ step_id: 'load', state: 'done' });
+  assert.equal(invalidState.status, 400);
+
+  const unknownStep = await postStep({ step_id: 'nope', state: 'pass' });
+  assert.equal(unknownStep.status, 404);
+});
+
 test('measure-now updates step with latest telemetry', async () => {
   const env = createEnv();
   const ctx = createCtx();
@@ -761,6 +933,66 @@ test('measure-now updates step with latest telemetry', async () => {
   assert.equal(readings.flow_lpm >= 6, true);
 });
 
+test('measure endpoints only measure auto steps of typed checklists, against their stored thresholds', async () => {
+  const env = createEnv();
+  const ctx = createCtx();
+  env.DB.seedChecklist({
+    checklist_id: 'field-install-v2',
+    name: 'field-install',
+    version: 2,
+    steps_json: JSON.stringify([
+      { id: 'pressure', title: 'System pressure', type: 'reading', required: true, unit: 'bar', min: 1, max: 2.5 },
+      { id: 'load', title: 'ΔT under load', type: 'auto', required: true, window_s: 60, thresholds: { delta_t_min: 4 } },
+    ]),
+    required_steps_json: JSON.stringify(['pressure', 'load']),
+    created_at: new Date().toISOString(),
+  });
+
+  const startRes = await worker.fetch(
+    new Request('http://test/api/commissioning/start', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ device_id: 'device-typed', checklist_id: 'field-install-v2' }),
+    }),
+    env,
+    ctx,
+  );
+  const { session_id: sessionId } = (await startRes.json()) as { session_id: string };
+  env.DB.seedLatestState('device-typed', {
+    ts: '2024-01-01T00:00:00.000Z',
+    metrics_json: JSON.stringify({ outlet_temp_c: 43, return_temp_c: 40, flow_lpm: 6.2 }),
+    delta_t: null,
+    cop: 3.1,
+  });
+
+  const measure = (path: string, body: Record<string, unknown>) =>
+    worker.fetch(
+      new Request(`http://test/api/commissioning/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ session_id: sessionId, ...body }),
+      }),
+      env,
+      ctx,
+    );
+
+  // A looser expectation in the request does not override the 4 K stored on the step.
+  const loose = await measure('measure-now', { step_id: 'load', expectations: { delta_t_min: 1 } });
+  assert.equal(loose.status, 200);
+  const looseBody = (await loose.json()) as { pass: boolean; thresholds: { delta_t_min: number } };
+  assert.equal(looseBody.pass, false);
+  assert.equal(looseBody.thresholds.delta_t_min, 4);
+  assert.equal(env.DB.getStep(sessionId, 'load')?.state, 'fail');
+
+  for (const path of ['measure-now', 'measure-window']) {
+    const reading = await measure(path, { step_id: 'pressure' });
+    assert.equal(reading.status, 400, path);
+    const unknown = await measure(path, { step_id: 'nope' });
+    assert.equal(unknown.status, 400, path);
+  }
+  assert.equal(env.DB.getStep(sessionId, 'pressure')?.state, 'pending');
+});
+
 test('labels endpoint stores artifact in R2', async () => {
   const env = createEnv();
   const ctx = createCtx();
@@ -798,6 +1030,275 @@ test('labels endpoint stores artifact in R2', async () => {
   assert.equal(dbArtifact?.r2_key, body.r2_key);
 });
 
+test('attachments are validated, stored per step and embedded in the report PDF', async () => {
+  const env = createEnv();
+  const ctx = createCtx();
+
+  const startRes = await worker.fetch(
+    new Request('http://test/api/commissioning/start', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ device_id: 'device-4', checklist_id: 'greenbro-standard-v1' }),
+    }),
+    env,
+    ctx,
+  );
+  const { session_id: sessionId } = (await startRes.json()) as { session_id: string };
+  const upload = (form: FormData) =>
+    worker.fetch(
+      new Request(`http://test/api/commissioning/session/${sessionId}/attachments`, { method: 'POST', body: form }),
+      env,
+      ctx,
+    );
+
+  const rejected = new FormData();
+  rejected.append('file', new File(['not an image'], 'nameplate.png', { type: 'image/png' }));
+  const rejectedRes = await upload(rejected);
+  assert.equal(rejectedRes.status, 400);
+  const rejectedBody = (await rejectedRes.json()) as { errors: string[] };
+  assert.match(rejectedBody.errors[0] ?? '', /must be a JPEG, PNG or PDF/);
+
+  const png = Uint8Array.from(
+    atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='),
+    (char) => char.charCodeAt(0),
+  );
+  const handover = await PDFDocument.create();
+  handover.addPage([595, 842]);
+  const handoverBytes = await handover.save();
+
+  const photoForm = new FormData();
+  photoForm.append('step_id', 'sensors_sane');
+  photoForm.append('file', new File([png], 'name plate.png', { type: 'image/png' }));
+  photoForm.append('thumbnail_0', new File([png], 'thumb.png', { type: 'image/png' }));
+  const photoRes = await upload(photoForm);
+  assert.equal(photoRes.status, 200);
+
+  const documentForm = new FormData();
+  documentForm.append('file', new File([handoverBytes], 'handover.pdf', { type: 'application/pdf' }));
+  assert.equal((await upload(documentForm)).status, 200);
+
+  const detailRes = await worker.fetch(new Request(`http://test/api/commissioning/session/${sessionId}`), env, ctx);
+  const detail = (await detailRes.json()) as {
+    attachments: Array<{ attachment_id: string; step_id: string | null; kind: string; filename: string; thumb_url: string }>;
+  };
+  assert.deepEqual(
+    detail.attachments.map((row) => [row.step_id, row.kind, row.filename]),
+    [
+      ['sensors_sane', 'photo', 'name_plate.png'],
+      [null, 'document', 'handover.pdf'],
+    ],
+  );
+  assert.match(detail.attachments[0]?.thumb_url ?? '', /thumb/);
+
+  const spareForm = new FormData();
+  spareForm.append('file', new File([png], 'spare.png', { type: 'image/png' }));
+  const spareRes = await upload(spareForm);
+  const { attachments: [spare] } = (await spareRes.json()) as { attachments: Array<{ attachment_id: string }> };
+  const deleteAttachment = (id: string) =>
+    worker.fetch(new Request(`http://test/api/commissioning/attachments/${id}`, { method: 'DELETE' }), env, ctx);
+  const deleteRes = await deleteAttachment(spare!.attachment_id);
+  assert.equal(deleteRes.status, 200);
+  assert.equal(env.REPORTS.getObject(`commissioning/${sessionId}/attachments/${spare!.attachment_id}/spare.png`), null);
+  const afterRes = await worker.fetch(new Request(`http://test/api/commissioning/session/${sessionId}`), env, ctx);
+  const after = (await afterRes.json()) as { attachments: unknown[] };
+  assert.equal(after.attachments.length, 2);
+
+  const finalRes = await worker.fetch(
+    new Request('http://test/api/commissioning/finalise', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ session_id: sessionId, outcome: 'failed' }),
+    }),
+    env,
+    ctx,
+  );
+  const { r2_key: pdfKey } = (await finalRes.json()) as { r2_key: string };
+  const report = await PDFDocument.load(env.REPORTS.getObject(pdfKey)!.body);
+  // Report page, attachment index, the photo and the appended handover form.
+  assert.equal(report.getPageCount(), 4);
+
+  // Evidence on a finalised session can no longer be added or removed.
+  const lateForm = new FormData();
+  lateForm.append('file', new File([png], 'late.png', { type: 'image/png' }));
+  const lateRes = await upload(lateForm);
+  assert.equal(lateRes.status, 409);
+  assert.equal(((await lateRes.json()) as { error: string }).error, 'session_closed');
+  assert.equal((await deleteAttachment(detail.attachments[0]!.attachment_id)).status, 409);
+});
+
+test('customer signature seals the finalised session state', async () => {
+  const env = createEnv();
+  const ctx = createCtx();
+  const post = (path: string, payload: unknown) =>
+    worker.fetch(
+      new Request(`http://test${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      }),
+      env,
+      ctx,
+    );
+
+  const startRes = await post('/api/commissioning/start', { device_id: 'device-5', checklist_id: 'greenbro-standard-v1' });
+  const { session_id: sessionId } = (await startRes.json()) as { session_id: string };
+  for (const stepId of [
+    'sensors_sane',
+    'deltaT_under_load',
+    'flow_detected',
+    'heartbeat_seen',
+    'alert_fires_and_clears',
+    'handover_complete',
+  ]) {
+    assert.equal((await post('/api/commissioning/step', { session_id: sessionId, step_id: stepId, state: 'pass' })).status, 200);
+  }
+
+  const image =
+    'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+  const invalid = await post('/api/commissioning/finalise', {
+    session_id: sessionId,
+    outcome: 'passed',
+    signature: { signer_name: 'Thandi Customer', image: 'data:image/png;base64,aGVsbG8=' },
+  });
+  assert.equal(invalid.status, 400);
+  const failed = await post('/api/commissioning/finalise', {
+    session_id: sessionId,
+    outcome: 'failed',
+    signature: { signer_name: 'Thandi Customer', image },
+  });
+  assert.equal(failed.status, 400);
+
+  const finalRes = await post('/api/commissioning/finalise', {
+    session_id: sessionId,
+    outcome: 'passed',
+    signature: { signer_name: 'Thandi Customer', image },
+  });
+  assert.equal(finalRes.status, 200);
+  const finalBody = (await finalRes.json()) as { r2_key: string; state_hash: string };
+  assert.match(finalBody.state_hash, /^[0-9a-f]{64}$/);
+  assert.ok(env.REPORTS.getObject(`commissioning/${sessionId}/signature.png`));
+
+  const verify = async (query = '') => {
+    const res = await worker.fetch(
+      new Request(`http://test/api/commissioning/session/${sessionId}/signature${query}`),
+      env,
+      ctx,
+    );
+    return (await res.json()) as { signed: boolean; valid: boolean; state_matches: boolean; hash_matches: boolean | null };
+  };
+  const verified = await verify(`?hash=${finalBody.state_hash}`);
+  assert.equal(verified.signed, true);
+  assert.equal(verified.valid, true);
+  assert.equal(verified.hash_matches, true);
+  assert.equal((await verify('?hash=deadbeef')).valid, false);
+
+  const again = await post('/api/commissioning/finalise', {
+    session_id: sessionId,
+    outcome: 'passed',
+    signature: { signer_name: 'Someone Else', image },
+  });
+  assert.equal(again.status, 409);
+
+  // A signed session takes no further changes through the API.
+  const unsigned = await post('/api/commissioning/finalise', { session_id: sessionId, outcome: 'failed' });
+  assert.equal(unsigned.status, 409);
+  assert.equal(((await unsigned.json()) as { error: string }).error, 'already_signed');
+  const edit = await post('/api/commissioning/step', {
+    session_id: sessionId,
+    step_id: 'sensors_sane',
+    state: 'pass',
+    comment: 'edited later',
+  });
+  assert.equal(edit.status, 409);
+  assert.equal((await verify()).valid, true);
+
+  // Replacing the stored signature image is caught by its hash.
+  const signatureObject = env.REPORTS.getObject(`commissioning/${sessionId}/signature.png`)!;
+  const originalImage = signatureObject.body;
+  signatureObject.body = new Uint8Array([...originalImage, 0]);
+  const swapped = (await verify()) as { valid: boolean; image_matches: boolean };
+  assert.equal(swapped.image_matches, false);
+  assert.equal(swapped.valid, false);
+  signatureObject.body = originalImage;
+
+  // Editing a recorded result behind the API's back breaks the seal.
+  env.DB.getStep(sessionId, 'sensors_sane')!.comment = 'edited later';
+  const tampered = await verify();
+  assert.equal(tampered.state_matches, false);
+  assert.equal(tampered.valid, false);
+});
+
+test('queued step updates are rejected when the step changed since it was read', async () => {
+  const env = createEnv();
+  const ctx = createCtx();
+  const post = (path: string, payload: unknown) =>
+    worker.fetch(
+      new Request(`http://test${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      }),
+      env,
+      ctx,
+    );
+  const stepVersion = async (sessionId: string, stepId: string) => {
+    const res = await worker.fetch(new Request(`http://test/api/commissioning/session/${sessionId}`), env, ctx);
+    const body = (await res.json()) as { steps: Array<{ step_id: string; version: number }> };
+    return body.steps.find((step) => step.step_id === stepId)?.version;
+  };
+
+  const startRes = await post('/api/commissioning/start', { device_id: 'device-6', checklist_id: 'greenbro-standard-v1' });
+  const { session_id: sessionId } = (await startRes.json()) as { session_id: string };
+  const base = await stepVersion(sessionId, 'sensors_sane');
+  assert.equal(base, 0);
+
+  const first = await post('/api/commissioning/step', {
+    session_id: sessionId,
+    step_id: 'sensors_sane',
+    state: 'pass',
+    base_version: base,
+  });
+  assert.equal(first.status, 200);
+  const firstBody = (await first.json()) as { version: number };
+  assert.equal(firstBody.version, 1);
+
+  // A second device still holding the old version must not overwrite the newer result, even within the same second.
+  const stale = await post('/api/commissioning/step', {
+    session_id: sessionId,
+    step_id: 'sensors_sane',
+    state: 'fail',
+    comment: 'offline edit',
+    base_version: base,
+  });
+  assert.equal(stale.status, 409);
+  const staleBody = (await stale.json()) as { error: string; current: { state: string; version: number } };
+  assert.equal(staleBody.error, 'conflict');
+  assert.equal(staleBody.current.state, 'pass');
+  assert.equal(staleBody.current.version, 1);
+
+  // Chained on the version the first write returned, the follow-up edit goes through.
+  const chained = await post('/api/commissioning/step', {
+    session_id: sessionId,
+    step_id: 'sensors_sane',
+    state: 'pass',
+    comment: 'checked twice',
+    base_version: firstBody.version,
+  });
+  assert.equal(chained.status, 200);
+  assert.equal(await stepVersion(sessionId, 'sensors_sane'), 2);
+
+  const finalRes = await post('/api/commissioning/finalise', { session_id: sessionId, outcome: 'failed' });
+  assert.equal(finalRes.status, 200);
+  const closed = await post('/api/commissioning/step', {
+    session_id: sessionId,
+    step_id: 'sensors_sane',
+    state: 'fail',
+    base_version: 2,
+  });
+  assert.equal(closed.status, 409);
+  assert.equal(((await closed.json()) as { error: string }).error, 'session_closed');
+});
+
 test('email-bundle posts to ops webhook with PDF and ZIP links', async () => {
   const env = createEnv();
   const ctx = createCtx();
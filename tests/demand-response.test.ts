@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { classifyCompliance, desiredPhase, eventWindow, parseDrEventInput } from '../src/demand-response';
+
+const window = eventWindow({ starts_at: '2024-06-03T16:00:00Z', ends_at: '2024-06-03T18:00:00Z', preheat_min: 60 });
+
+test('desiredPhase walks pre-heat, event and release', () => {
+  const strategy = { preheat: { dhwSetC: 60 }, during: { dhwSetC: 45 } };
+  assert.equal(desiredPhase(window, strategy, Date.parse('2024-06-03T14:30:00Z')), 'pending');
+  assert.equal(desiredPhase(window, strategy, Date.parse('2024-06-03T15:10:00Z')), 'preheat');
+  assert.equal(desiredPhase(window, strategy, Date.parse('2024-06-03T16:00:00Z')), 'event');
+  assert.equal(desiredPhase(window, strategy, Date.parse('2024-06-03T18:00:00Z')), null);
+  // Without a pre-heat setting the device waits for the event itself.
+  assert.equal(desiredPhase(window, { during: { mode: 'eco' } }, Date.parse('2024-06-03T15:10:00Z')), 'pending');
+});
+
+test('classifyCompliance needs an applied command and a reduction against the baseline', () => {
+  assert.equal(classifyCompliance({ commandId: null, ackStatus: null, eventKwh: 1, baselineKwh: 2 }), 'not_dispatched');
+  assert.equal(classifyCompliance({ commandId: 'cmd', ackStatus: 'expired', eventKwh: 1, baselineKwh: 2 }), 'no_ack');
+  assert.equal(classifyCompliance({ commandId: 'cmd', ackStatus: 'applied', eventKwh: null, baselineKwh: 2 }), 'no_data');
+  assert.equal(classifyCompliance({ commandId: 'cmd', ackStatus: 'applied', eventKwh: 2.5, baselineKwh: 2 }), 'not_reduced');
+  assert.equal(classifyCompliance({ commandId: 'cmd', ackStatus: 'applied', eventKwh: 0.5, baselineKwh: 2 }), 'compliant');
+});
+
+test('parseDrEventInput accepts fleet targets with per-device strategies', () => {
+  const parsed = parseDrEventInput(
+    {
+      name: 'Stage 4 evening',
+      target: { regions: ['Gauteng', 'Gauteng'], clientIds: ['client-a'] },
+      startsAt: '2024-06-03T16:00:00Z',
+      endsAt: '2024-06-03T18:00:00Z',
+      preheatMin: 60,
+      strategy: { preheat: { dhwSetC: 60 }, during: { dhwSetC: 45 } },
+      deviceStrategies: { 'dev-9': { during: { mode: 'off' }, restore: { mode: 'auto' } } },
+    },
+    new Date('2024-06-03T12:00:00Z'),
+  );
+  assert.equal(parsed.ok, true);
+  if (parsed.ok) {
+    assert.deepEqual(parsed.value.target, { siteIds: [], regions: ['Gauteng'], clientIds: ['client-a'] });
+    assert.deepEqual(parsed.value.deviceStrategies['dev-9'], { during: { mode: 'off' }, restore: { mode: 'auto' } });
+  }
+});
+
+test('parseDrEventInput rejects empty targets, bad windows and pre-heat without lead time', () => {
+  const parsed = parseDrEventInput(
+    {
+      name: 'Broken',
+      target: {},
+      startsAt: '2024-06-03T18:00:00Z',
+      endsAt: '2024-06-03T16:00:00Z',
+      strategy: { preheat: { dhwSetC: 60 }, during: {} },
+    },
+    new Date('2024-06-03T12:00:00Z'),
+  );
+  assert.equal(parsed.ok, false);
+  if (!parsed.ok) {
+    assert.deepEqual(parsed.errors, [
+      'target needs at least one siteIds, regions or clientIds entry',
+      'endsAt must be after startsAt',
+      'strategy.during must set dhwSetC or mode',
+      'strategy.preheat needs preheatMin greater than zero',
+    ]);
+  }
+});
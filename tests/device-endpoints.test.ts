@@ -361,6 +361,46 @@ test('ingest enqueues telemetry payload', async () => {
   assert.equal(operations[0].body.metrics.supplyC, 48.2);
 });
 
+test('oversized controller bodies are refused before the device key is checked', async () => {
+  const db = new MockD1Database();
+  const env = buildEnv(db);
+  const body = JSON.stringify({
+    device_id: 'HP-100',
+    ts: '2025-10-25T12:34:56Z',
+    metrics: { supply_c: 48.2 },
+    meta: { padding: 'x'.repeat(40 * 1024) },
+  });
+  const declared = await appModule.fetch(
+    new Request('https://worker/api/ingest/profile-1', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': String(body.length),
+        'X-GREENBRO-DEVICE-KEY': 'wrong',
+      },
+      body,
+    }),
+    env as unknown as Env,
+    ctx,
+  );
+  assert.equal(declared.status, 429);
+  assert.equal(declared.headers.get('Retry-After'), '60');
+  assert.deepEqual(await declared.json(), { error: 'payload_too_large', retry_after: 60 });
+
+  // Without a Content-Length the body is measured instead.
+  const measured = await appModule.fetch(
+    new Request('https://worker/api/heartbeat/profile-1', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-GREENBRO-DEVICE-KEY': 'wrong' },
+      body,
+    }),
+    env as unknown as Env,
+    ctx,
+  );
+  assert.equal(measured.status, 429);
+  assert.equal(((env as any).__operations as IngestMessage[]).length, 0);
+});
+
 test('heartbeat enqueue', async () => {
   const db = new MockD1Database();
   const deviceKey = 'test-key-456';
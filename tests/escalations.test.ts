@@ -0,0 +1,166 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  parseEscalationPolicyInput,
+  policyMatches,
+  resolveTierRecipients,
+  runEscalations,
+  type EscalationPolicyRow,
+} from '../src/escalations';
+import type { D1Database } from '../src/types/env';
+
+const policy = (overrides: Partial<EscalationPolicyRow>): EscalationPolicyRow => ({
+  id: 'pol-1',
+  name: 'Default on-call',
+  severities: null,
+  rules: null,
+  site_ids: null,
+  client_ids: null,
+  tiers_json: '[]',
+  enabled: 1,
+  created_at: '2024-01-01 00:00:00',
+  ...overrides,
+});
+
+const alert = { type: 'overheat', severity: 'critical', site_id: 'site-1', client_ids: 'client-a,client-b' };
+
+test('policyMatches defaults to critical alerts and applies scope filters', () => {
+  assert.equal(policyMatches(policy({}), alert), true);
+  assert.equal(policyMatches(policy({}), { ...alert, severity: 'major' }), false);
+  assert.equal(policyMatches(policy({ severities: '["major"]' }), { ...alert, severity: 'major' }), true);
+  assert.equal(policyMatches(policy({ rules: '["low_cop"]' }), alert), false);
+  assert.equal(policyMatches(policy({ site_ids: '["site-2"]' }), alert), false);
+  assert.equal(policyMatches(policy({ client_ids: '["client-b"]' }), alert), true);
+});
+
+test('resolveTierRecipients expands roles and de-duplicates addresses', () => {
+  const recipients = resolveTierRecipients(
+    {
+      timeoutMin: 15,
+      targets: [
+        { kind: 'user', value: 'Oncall@Example.com' },
+        { kind: 'role', value: 'ops' },
+      ],
+    },
+    [
+      { email: 'oncall@example.com', roles: ['ops'] },
+      { email: 'lead@example.com', roles: ['ops', 'admin'] },
+      { email: 'client@example.com', roles: ['client'] },
+    ],
+  );
+  assert.deepEqual(recipients.sort(), ['lead@example.com', 'oncall@example.com']);
+});
+
+test('parseEscalationPolicyInput validates tiers', () => {
+  const ok = parseEscalationPolicyInput({
+    name: 'Night shift',
+    tiers: [{ timeoutMin: 10, targets: [{ kind: 'role', value: 'ops' }] }],
+  });
+  assert.equal(ok.ok, true);
+
+  const bad = parseEscalationPolicyInput({
+    name: 'Broken',
+    tiers: [{ timeoutMin: 0, targets: [] }, { timeoutMin: 5, targets: [{ kind: 'team', value: 'x' }] }],
+  });
+  assert.equal(bad.ok, false);
+  if (!bad.ok) {
+    assert.ok(bad.errors.some((error) => error.includes('tiers[0].timeoutMin')));
+    assert.ok(bad.errors.some((error) => error.includes('tiers[1] has an invalid target')));
+  }
+});
+
+type MockAlertRow = {
+  alert_id: string;
+  device_id: string;
+  type: string;
+  severity: string;
+  opened_at: string;
+  site_id: string | null;
+  client_ids: string | null;
+};
+
+class MockEscalationStatement {
+  #sql: string;
+  #db: MockEscalationDB;
+  #args: unknown[] = [];
+
+  constructor(sql: string, db: MockEscalationDB) {
+    this.#sql = sql;
+    this.#db = db;
+  }
+
+  bind(...args: unknown[]) {
+    this.#args = args;
+    return this;
+  }
+
+  async all<T>() {
+    const sql = this.#sql;
+    if (sql.includes('FROM escalation_policies')) return { results: this.#db.policies as T[] };
+    if (sql.includes('FROM alerts a')) {
+      const limit = Number(/LIMIT (\d+)/.exec(sql)?.[1]);
+      const fresh = this.#db.alerts.filter((alert) => !this.#db.escalations.has(alert.alert_id));
+      return { results: fresh.slice(0, limit) as T[] };
+    }
+    if (sql.includes('FROM alert_escalations ae')) return { results: [] as T[] };
+    throw new Error(`Unhandled SQL in mock: ${sql}`);
+  }
+
+  async run() {
+    const sql = this.#sql;
+    if (sql.startsWith('INSERT OR IGNORE INTO alert_escalations')) {
+      const alertId = String(this.#args[0]);
+      const status = sql.includes("'unmatched'") ? 'unmatched' : 'active';
+      if (!this.#db.escalations.has(alertId)) this.#db.escalations.set(alertId, status);
+    } else if (!sql.startsWith('INSERT INTO alert_escalation_events') && !sql.startsWith('UPDATE alert_escalations')) {
+      throw new Error(`Unhandled SQL in mock: ${sql}`);
+    }
+    return { success: true, meta: { changes: 1 } };
+  }
+}
+
+class MockEscalationDB {
+  policies: EscalationPolicyRow[] = [];
+  alerts: MockAlertRow[] = [];
+  escalations = new Map<string, string>();
+
+  prepare(sql: string) {
+    return new MockEscalationStatement(sql, this);
+  }
+}
+
+test('runEscalations skips past unmatched and pre-policy alerts to reach new critical ones', async () => {
+  const db = new MockEscalationDB();
+  db.policies = [
+    policy({
+      created_at: '2025-03-01 09:00:00',
+      tiers_json: JSON.stringify([{ timeoutMin: 15, targets: [{ kind: 'user', value: 'oncall@example.com' }] }]),
+    }),
+  ];
+  const base = { device_id: 'dev-1', type: 'overheat', site_id: 'site-1', client_ids: null };
+  for (let i = 0; i < 150; i += 1) {
+    db.alerts.push({ ...base, alert_id: `minor-${i}`, severity: 'minor', opened_at: '2025-03-01T10:00:00.000Z' });
+    db.alerts.push({ ...base, alert_id: `historic-${i}`, severity: 'critical', opened_at: '2025-02-01T10:00:00.000Z' });
+  }
+  db.alerts.push({ ...base, alert_id: 'new-critical', severity: 'critical', opened_at: '2025-03-01T11:00:00.000Z' });
+
+  const paged: string[][] = [];
+  const deps = {
+    loadUsers: async () => [],
+    notify: async (recipients: string[]) => {
+      paged.push(recipients);
+      return true;
+    },
+  };
+  const now = new Date('2025-03-01T12:00:00Z');
+  const first = await runEscalations(db as unknown as D1Database, deps, now);
+  assert.equal(first.started, 0);
+  const second = await runEscalations(db as unknown as D1Database, deps, now);
+  assert.equal(second.started, 1);
+
+  assert.deepEqual(paged, [['oncall@example.com']]);
+  assert.equal(db.escalations.get('new-critical'), 'active');
+  assert.equal(db.escalations.get('historic-0'), 'unmatched');
+  assert.equal(db.escalations.get('minor-0'), 'unmatched');
+});
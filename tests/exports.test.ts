@@ -0,0 +1,243 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  countExportChunks,
+  exportChunkAt,
+  exportColumns,
+  exportObjectKey,
+  exportPartKey,
+  exportWindow,
+  parseExportJobInput,
+  pointsToExportRows,
+  processExportJob,
+  resolveExportDevices,
+  toCsvLines,
+  type ExportDeps,
+  type ExportJobRow,
+} from '../src/exports';
+import type { D1Database } from '../src/types/env';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test('parseExportJobInput defaults to 15m CSV and treats a date-only end as inclusive', () => {
+  const parsed = parseExportJobInput({ clientId: 'client-x', metrics: 'cop, deltaT', from: '2024-03-01', to: '2024-05-31' });
+  assert.equal(parsed.ok, true);
+  if (!parsed.ok) return;
+  assert.deepEqual(parsed.value.metrics, ['cop', 'deltaT']);
+  assert.equal(parsed.value.resolution, '15m');
+  assert.equal(parsed.value.format, 'csv');
+  assert.equal(parsed.value.notify, true);
+  const { fromMs, toMs } = exportWindow(parsed.value);
+  assert.equal(new Date(fromMs).toISOString(), '2024-03-01T00:00:00.000Z');
+  assert.equal(new Date(toMs).toISOString(), '2024-06-01T00:00:00.000Z');
+});
+
+test('parseExportJobInput rejects an empty scope, bad metrics, reversed windows and unknown formats', () => {
+  const parsed = parseExportJobInput({ metrics: ['cop', 'bad name'], from: '2024-05-01', to: '2024-04-01', format: 'xlsx' });
+  assert.equal(parsed.ok, false);
+  if (parsed.ok) return;
+  assert.deepEqual(parsed.errors, [
+    'select a client, sites or devices',
+    'metric names must be alphanumeric',
+    'from must be before to',
+    'format must be one of ndjson, csv, parquet, arrow',
+  ]);
+  const tooLong = parseExportJobInput({ deviceIds: ['dev-1'], metrics: ['cop'], from: '2023-01-01', to: '2024-06-01' });
+  assert.equal(tooLong.ok, false);
+  const tooManySites = parseExportJobInput({
+    siteIds: Array.from({ length: 101 }, (_, i) => `site-${i}`),
+    metrics: ['cop'],
+    from: '2024-03-01',
+    to: '2024-03-02',
+  });
+  assert.equal(tooManySites.ok, false);
+});
+
+test('resolveExportDevices reads long id lists in chunks and merges the matches', async () => {
+  const queries: Array<{ sql: string; args: unknown[] }> = [];
+  const DB = {
+    prepare: (sql: string) => ({
+      bind: (...args: unknown[]) => ({
+        all: async () => {
+          queries.push({ sql, args });
+          // Explicit ids match themselves; every site and the client share one device.
+          const ids = sql.includes('device_id IN') ? (args.slice(0, -1) as string[]) : ['dev-shared'];
+          return { results: ids.map((device_id) => ({ device_id })) };
+        },
+      }),
+    }),
+  } as unknown as D1Database;
+
+  const parsed = parseExportJobInput({
+    clientId: 'client-x',
+    siteIds: ['site-1', 'site-2'],
+    deviceIds: Array.from({ length: 150 }, (_, i) => `dev-${String(i).padStart(3, '0')}`),
+    metrics: ['cop'],
+    from: '2024-03-01',
+    to: '2024-03-02',
+  });
+  assert.ok(parsed.ok);
+  const devices = await resolveExportDevices(DB, parsed.value);
+  assert.equal(devices.length, 151);
+  assert.equal(devices[0], 'dev-000');
+  assert.equal(devices.at(-1), 'dev-shared');
+  assert.deepEqual(queries.map((query) => query.args.length), [91, 61, 3, 2]);
+});
+
+test('export chunks walk each device through time-ordered slices', () => {
+  const fromMs = Date.parse('2024-03-01T00:00:00Z');
+  const toMs = fromMs + 75 * DAY_MS;
+  const devices = ['dev-a', 'dev-b'];
+  // 15m slices are 30 days, so 75 days is three slices per device.
+  assert.equal(countExportChunks(devices.length, fromMs, toMs, '15m'), 6);
+  assert.deepEqual(exportChunkAt(2, devices, fromMs, toMs, '15m'), {
+    deviceId: 'dev-a',
+    fromMs: fromMs + 60 * DAY_MS,
+    toMs,
+  });
+  assert.equal(exportChunkAt(3, devices, fromMs, toMs, '15m')?.deviceId, 'dev-b');
+  assert.equal(exportChunkAt(6, devices, fromMs, toMs, '15m'), null);
+  assert.equal(countExportChunks(1, fromMs, fromMs + 2 * DAY_MS, 'raw'), 2);
+});
+
+test('pointsToExportRows keeps the requested metrics and drops empty points before CSV encoding', () => {
+  const rows = pointsToExportRows(
+    'dev-1',
+    [
+      { timestamp: '2024-03-01T00:00:00.000Z', metrics: { cop: 3.2, deltaT: 5, tankC: 48 } },
+      { timestamp: '2024-03-01T00:15:00.000Z', metrics: { tankC: 49 } },
+      { timestamp: '2024-03-01T00:30:00.000Z', metrics: { cop: null, deltaT: 4.5 } },
+    ],
+    ['cop', 'deltaT'],
+  );
+  assert.equal(rows.length, 2);
+  const columns = exportColumns(['cop', 'deltaT']).map((column) => column.name);
+  assert.deepEqual(columns, ['device_id', 'timestamp', 'cop', 'deltaT']);
+  assert.equal(
+    toCsvLines(rows, columns),
+    'dev-1,2024-03-01T00:00:00.000Z,3.2,5\ndev-1,2024-03-01T00:30:00.000Z,,4.5\n',
+  );
+  assert.equal(exportPartKey('job-1', 12), 'exports/job-1/parts/000012.ndjson');
+  assert.equal(
+    exportObjectKey({ id: '0123456789abcdef', format: 'parquet' }),
+    'exports/0123456789abcdef/telemetry-export-01234567.parquet',
+  );
+});
+
+test('export rows follow the requester units and CSV uses the locale decimal separator', () => {
+  const prefs = { locale: 'de-DE', temperature: 'F', flow: 'gpm', power: 'kW', energy: 'kWh' } as const;
+  const rows = pointsToExportRows(
+    'dev-1',
+    [{ timestamp: '2024-03-01T00:00:00.000Z', metrics: { supplyC: 45, deltaT: 5, flowLps: 1, cop: 3.25 } }],
+    ['supplyC', 'deltaT', 'flowLps', 'cop'],
+    prefs,
+  );
+  const columns = exportColumns(['supplyC', 'deltaT', 'flowLps', 'cop'], prefs).map((column) => column.name);
+  assert.deepEqual(columns, ['device_id', 'timestamp', 'supplyC_F', 'deltaT_F', 'flowLps_gpm', 'cop']);
+  assert.equal(toCsvLines(rows, columns, prefs.locale), 'dev-1;2024-03-01T00:00:00.000Z;113;9;15,85;3,25\n');
+});
+
+class MockExportDB {
+  constructor(public job: ExportJobRow) {}
+
+  prepare(sql: string) {
+    let args: unknown[] = [];
+    const job = this.job;
+    const statement = {
+      bind: (...values: unknown[]) => {
+        args = values;
+        return statement;
+      },
+      first: async () => ({ ...job }),
+      run: async () => {
+        let changes = 0;
+        if (sql.includes("SET status='assembling'")) {
+          const [now, , staleBefore] = args as string[];
+          if (job.status === 'running' || (job.status === 'assembling' && job.updated_at <= staleBefore!)) {
+            Object.assign(job, { status: 'assembling', updated_at: now });
+            changes = 1;
+          }
+        } else if (sql.includes("SET status='done'")) {
+          if (job.status === 'assembling') {
+            const [key, size, finished] = args as [string, number, string];
+            Object.assign(job, { status: 'done', object_key: key, size_bytes: size, updated_at: finished });
+            changes = 1;
+          }
+        } else if (!sql.includes("SET status='running'") && !sql.includes("SET status='failed'")) {
+          throw new Error(`Unhandled SQL in mock: ${sql}`);
+        }
+        return { success: true, meta: { changes } };
+      },
+    };
+    return statement;
+  }
+}
+
+test('processExportJob lets one worker assemble a finished job and takes over stale claims', async () => {
+  const finishedJob = (overrides: Partial<ExportJobRow>): ExportJobRow => ({
+    id: 'job-1',
+    requested_by: 'ops@example.com',
+    status: 'running',
+    filters_json: JSON.stringify({
+      clientId: null,
+      siteIds: [],
+      deviceIds: ['dev-1'],
+      metrics: ['supplyC'],
+      from: '2024-05-01',
+      to: '2024-05-02',
+      resolution: '15m',
+      format: 'parquet',
+      notify: true,
+    }),
+    device_ids_json: JSON.stringify(['dev-1']),
+    format: 'parquet',
+    notify: 1,
+    display_json: null,
+    total_chunks: 1,
+    done_chunks: 1,
+    row_count: 0,
+    object_key: null,
+    size_bytes: null,
+    error: null,
+    created_at: '2024-05-02T00:00:00.000Z',
+    updated_at: '2024-05-02T00:00:00.000Z',
+    completed_at: null,
+    ...overrides,
+  });
+  const puts: string[] = [];
+  const notified: Array<string | null> = [];
+  const deps: ExportDeps = {
+    bucket: {
+      list: async () => ({ objects: [], truncated: false }),
+      put: async (key: string) => {
+        puts.push(key);
+        return { size: 128 };
+      },
+      delete: async () => {},
+    } as unknown as ExportDeps['bucket'],
+    loadSeries: async () => [],
+    notify: async (_job, url) => {
+      notified.push(url);
+    },
+    signUrl: async (key) => `https://signed/${key}`,
+  };
+
+  const racing = new MockExportDB(finishedJob({}));
+  const results = await Promise.all([
+    processExportJob(racing as unknown as D1Database, 'job-1', deps),
+    processExportJob(racing as unknown as D1Database, 'job-1', deps),
+  ]);
+  assert.deepEqual(results.sort(), ['assembling', 'done']);
+  assert.equal(racing.job.status, 'done');
+  assert.equal(puts.length, 1);
+  assert.equal(notified.length, 1);
+
+  const fresh = new MockExportDB(finishedJob({ status: 'assembling', updated_at: new Date().toISOString() }));
+  assert.equal(await processExportJob(fresh as unknown as D1Database, 'job-1', deps), 'assembling');
+  assert.equal(puts.length, 1);
+
+  const stale = new MockExportDB(finishedJob({ status: 'assembling', updated_at: '2024-05-02T00:00:00.000Z' }));
+  assert.equal(await processExportJob(stale as unknown as D1Database, 'job-1', deps), 'done');
+  assert.equal(puts.length, 2);
+});
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { parseIdListInput, parseIncidentTextInput, parseIncidentUpdateInput } from '../src/incidents';
+
+test('parseIncidentUpdateInput accepts partial workflow changes', () => {
+  const parsed = parseIncidentUpdateInput({ status: 'mitigated', owner: ' Ops@Example.com ', severity: null });
+  assert.deepEqual(parsed, { ok: true, value: { status: 'mitigated', owner: 'ops@example.com', severity: null } });
+
+  const cleared = parseIncidentUpdateInput({ title: '   ' });
+  assert.deepEqual(cleared, { ok: true, value: { title: null } });
+});
+
+test('parseIncidentUpdateInput rejects unknown states and empty updates', () => {
+  const invalid = parseIncidentUpdateInput({ status: 'closed', severity: 'urgent' });
+  assert.equal(invalid.ok, false);
+  if (!invalid.ok) {
+    assert.equal(invalid.errors.length, 2);
+  }
+  assert.deepEqual(parseIncidentUpdateInput({}), { ok: false, errors: ['no changes supplied'] });
+});
+
+test('parseIncidentTextInput requires non-empty text', () => {
+  assert.deepEqual(parseIncidentTextInput({ body: '  looking into it ' }, 'body'), { ok: true, value: 'looking into it' });
+  assert.deepEqual(parseIncidentTextInput({ body: ' ' }, 'body'), { ok: false, errors: ['body is required'] });
+  assert.equal(parseIncidentTextInput({ postmortem: 42 }, 'postmortem').ok, false);
+});
+
+test('parseIdListInput de-duplicates ids and rejects empty lists', () => {
+  assert.deepEqual(parseIdListInput({ alertIds: ['a', 'b', 'a'] }, 'alertIds'), { ok: true, value: ['a', 'b'] });
+  assert.equal(parseIdListInput({ alertIds: [] }, 'alertIds').ok, false);
+  assert.equal(parseIdListInput({ incidentIds: ['x', 3] }, 'incidentIds').ok, false);
+});
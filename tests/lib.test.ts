@@ -1,8 +1,73 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
 
+import { tableFromIPC } from 'apache-arrow';
+import { parquetReadObjects } from 'hyparquet';
+
+import { isRuleName, parseAlertRuleInput, resolveAlertConfig, type AlertRuleRow } from '../src/lib/alert-rules';
+import { safeFilename, thumbnailContentType, validateAttachment } from '../src/lib/attachments';
+import {
+  evaluateReading,
+  evaluateWindowSample,
+  parseChecklistInput,
+  readChecklistSteps,
+} from '../src/lib/checklists';
+import { encodeArrowFile, encodeParquet, inferColumns } from '../src/lib/columnar';
+import { canIssueCommand, clampCommandBody, describeCommandKinds, parseCommandInput } from '../src/lib/commands';
+import { closeCustomRuleAlerts, simulateCustomAlert, type DryRunSample } from '../src/lib/custom-alerts';
+import {
+  hashDeviceKey,
+  isValidBatchId,
+  parseProvisioningCsv,
+  verifyDeviceKey,
+  type DeviceKeyRow,
+} from '../src/lib/device-keys';
+import {
+  DEFAULT_ENERGY_SETTINGS,
+  integrateEnergyByDay,
+  loadEnergyPeriods,
+  parseEnergyRange,
+  summarizeEnergy,
+} from '../src/lib/energy';
+import { compileExpression } from '../src/lib/expr';
+import {
+  matchFaultEntry,
+  parseFaultCatalogueInput,
+  summarizeFaultHistory,
+  trackDeviceFaults,
+  type FaultCatalogueEntry,
+  type FaultEventRow,
+} from '../src/lib/faults';
 import { computeDerived } from '../src/lib/math';
-import { hourOfWeek } from '../src/lib/time';
+import { latinDigits, winAnsi } from '../src/lib/pdf-text';
+import { BUILTIN_PROFILE, normalizeMetrics, parseControllerProfileInput } from '../src/lib/profiles';
+import {
+  emptyRateLimitState,
+  evaluateRateLimit,
+  parseIngestRateLimits,
+  takeToken,
+  type RateLimitRequest,
+} from '../src/lib/rate-limit';
+import {
+  bucketSamples,
+  loadDeviceSeries,
+  mergeBuckets,
+  pickSeriesResolution,
+  refreshTelemetryRollups,
+  telemetryRowToSample,
+} from '../src/lib/rollups';
+import { alignSeries, buildComparison, normalizeValues, parseCompareInput } from '../src/lib/series-compare';
+import {
+  archiveCutoff,
+  archiveObjectKey,
+  mergeArchivedRows,
+  parseArchivedRows,
+  toNdjson,
+  type ArchivedTelemetryRow,
+} from '../src/lib/telemetry-archive';
+import { loadCostSummary, parseTariffInput, priceEnergyByDay, rateAt, type Tariff } from '../src/lib/tariffs';
+import { hourOfWeek, weeklyWindowCovers } from '../src/lib/time';
+import { formatQuantity, parseDisplayPreferences, readDisplayPreferences } from '../src/lib/units';
 import { z } from '../src/lib/z';
 
 test('hourOfWeek returns Monday 00:00 as zero', () => {
@@ -15,6 +80,24 @@ test('hourOfWeek rolls over at end of week', () => {
   assert.equal(hourOfWeek(sundayLate), 7 * 24 - 1);
 });
 
+test('weeklyWindowCovers hands the tail of a midnight-wrapping window to the previous day', () => {
+  const evenings = { days: [5], start: '22:00', end: '06:00' };
+  assert.equal(weeklyWindowCovers(evenings, 5, 23 * 60), true);
+  assert.equal(weeklyWindowCovers(evenings, 6, 5 * 60), true);
+  assert.equal(weeklyWindowCovers(evenings, 5, 5 * 60), false);
+  assert.equal(weeklyWindowCovers(evenings, 6, 6 * 60), false);
+  assert.equal(weeklyWindowCovers({ days: [1], start: '00:00', end: '00:00' }, 1, 0), true);
+  assert.equal(weeklyWindowCovers({ days: [1], start: '08:00', end: '17:00' }, 1, 17 * 60), false);
+});
+
+test('winAnsi keeps cp1252 punctuation and replaces what Helvetica cannot draw', () => {
+  assert.equal(winAnsi('Müller — “ok” … 5 €'), 'Müller — “ok” … 5 €');
+  assert.equal(winAnsi('A → B ✓'), 'A -> B v');
+  assert.equal(winAnsi('Иван 👍\t1\u202f234'), '???? ? 1 234');
+  assert.equal(winAnsi('\u200e\u22121,5'), '-1,5');
+  assert.equal(latinDigits('ar-EG'), 'ar-EG-u-nu-latn');
+});
+
 test('computeDerived calculates thermal output and COP', () => {
   const derived = computeDerived({
     supplyC: 45,
@@ -48,3 +131,1124 @@ test('z returns zero when std is missing or zero', () => {
 test('z returns the expected score', () => {
   assert.equal(z(12, 10, 2), 1);
 });
+
+const ruleRow = (overrides: Partial<AlertRuleRow>): AlertRuleRow => ({
+  id: crypto.randomUUID(),
+  rule: 'overheat',
+  scope: 'fleet',
+  scope_id: null,
+  enabled: null,
+  severity: null,
+  dwell_sec: null,
+  cooldown_sec: null,
+  thresholds_json: null,
+  ...overrides,
+});
+
+test('resolveAlertConfig falls back to built-in defaults', () => {
+  const config = resolveAlertConfig([], { deviceId: 'dev-1', siteId: null, clientIds: [] });
+  assert.equal(config.thresholds.overheatC, 60);
+  assert.equal(config.rules.low_cop.dwellSec, 600);
+  assert.equal(config.rules.overheat.severity, 'critical');
+  assert.equal(config.rules.overheat.enabled, true);
+});
+
+test('resolveAlertConfig applies device over site over client over fleet', () => {
+  const rows = [
+    ruleRow({ scope: 'device', scope_id: 'dev-1', thresholds_json: '{"overheatC":70}' }),
+    ruleRow({ scope: 'fleet', thresholds_json: '{"overheatC":62}', cooldown_sec: 120 }),
+    ruleRow({ scope: 'site', scope_id: 'site-a', thresholds_json: '{"overheatC":65}', dwell_sec: 30 }),
+    ruleRow({ scope: 'client', scope_id: 'client-x', dwell_sec: 45, severity: 'major' }),
+    ruleRow({ scope: 'site', scope_id: 'site-b', thresholds_json: '{"overheatC":99}' }),
+  ];
+
+  const config = resolveAlertConfig(rows, { deviceId: 'dev-1', siteId: 'site-a', clientIds: ['client-x'] });
+  assert.equal(config.thresholds.overheatC, 70);
+  assert.equal(config.rules.overheat.dwellSec, 30);
+  assert.equal(config.rules.overheat.cooldownSec, 120);
+  assert.equal(config.rules.overheat.severity, 'major');
+
+  const other = resolveAlertConfig(rows, { deviceId: 'dev-2', siteId: 'site-c', clientIds: [] });
+  assert.equal(other.thresholds.overheatC, 62);
+  assert.equal(other.rules.overheat.dwellSec, 120);
+});
+
+test('resolveAlertConfig ignores thresholds that belong to another rule', () => {
+  const config = resolveAlertConfig(
+    [ruleRow({ rule: 'low_cop', thresholds_json: '{"lowCop":2.5,"overheatC":10}', enabled: 0 })],
+    { deviceId: 'dev-1', siteId: null, clientIds: [] },
+  );
+  assert.equal(config.thresholds.lowCop, 2.5);
+  assert.equal(config.thresholds.overheatC, 60);
+  assert.equal(config.rules.low_cop.enabled, false);
+});
+
+test('parseAlertRuleInput rejects unknown rules and scoped rows without an id', () => {
+  const result = parseAlertRuleInput({ rule: 'nope', scope: 'site', thresholds: { overheatC: 'hot' } });
+  assert.equal(result.ok, false);
+  assert.equal(isRuleName('toString'), false);
+  assert.equal(parseAlertRuleInput({ rule: '__proto__', scope: 'fleet' }).ok, false);
+
+  const scoped = parseAlertRuleInput({ rule: 'overheat', scope: 'site' });
+  assert.equal(scoped.ok, false);
+
+  const valid = parseAlertRuleInput({ rule: 'overheat', scope: 'device', scopeId: 'dev-1', thresholds: { overheatC: 65 } });
+  assert.ok(valid.ok);
+  assert.deepEqual(valid.value.thresholds, { overheatC: 65 });
+});
+
+const noDerived = { deltaT: null, thermalKW: null, cop: null, copQuality: null } as const;
+
+test('compileExpression evaluates metrics, status and derived values', () => {
+  const compiled = compileExpression("tankC < 45 and mode == 'dhw'");
+  assert.ok(compiled.ok);
+  assert.equal(compiled.expr.test({ metrics: { tankC: 40 }, status: { mode: 'dhw' }, derived: noDerived }), true);
+  assert.equal(compiled.expr.test({ metrics: { tankC: 40 }, status: { mode: 'heat' }, derived: noDerived }), false);
+  assert.equal(compiled.expr.test({ metrics: {}, status: { mode: 'dhw' }, derived: noDerived }), false);
+
+  const pinned = compileExpression('eevSteps >= 480 && derived.deltaT < 3 || fault("E12")');
+  assert.ok(pinned.ok);
+  assert.equal(
+    pinned.expr.test({ metrics: { eevSteps: 480 }, derived: { ...noDerived, deltaT: 2.5 } }),
+    true,
+  );
+  assert.equal(
+    pinned.expr.test({ metrics: {}, faults: [{ code: 'E12', active: true }], derived: noDerived }),
+    true,
+  );
+});
+
+test('compileExpression rejects unknown fields and functions', () => {
+  assert.equal(compileExpression('constructor.name == 1').ok, false);
+  assert.equal(compileExpression('eval("1")').ok, false);
+  assert.equal(compileExpression('toString() == 1').ok, false);
+  assert.equal(compileExpression('constructor(1) == 1').ok, false);
+  assert.equal(compileExpression('tankC <').ok, false);
+});
+
+test('simulateCustomAlert honours dwell and cooldown', () => {
+  const compiled = compileExpression('tankC < 45');
+  assert.ok(compiled.ok);
+  const base = Date.UTC(2024, 0, 1, 0, 0, 0);
+  const samples: DryRunSample[] = [40, 40, 40, 50, 40, 40, 40].map((tankC, i) => ({
+    ts: new Date(base + i * 60_000).toISOString(),
+    metrics: { tankC },
+    derived: noDerived,
+  }));
+
+  const result = simulateCustomAlert(compiled.expr, samples, 120, 120);
+  assert.equal(result.matches, 6);
+  assert.deepEqual(result.alerts, [
+    { openedAt: samples[2]!.ts, closedAt: samples[3]!.ts },
+  ]);
+});
+
+test('closeCustomRuleAlerts closes alerts the rule no longer covers and clears their state', async () => {
+  const calls: Array<{ sql: string; args: unknown[] }> = [];
+  const sites: Record<string, string> = { 'dev-1': 'site-a', 'dev-2': 'site-b' };
+  const DB = {
+    prepare: (sql: string) => ({
+      bind: (...args: unknown[]) => ({
+        all: async () => ({
+          results: [
+            { alert_id: 'a1', device_id: 'dev-1' },
+            { alert_id: 'a2', device_id: 'dev-2' },
+          ],
+        }),
+        first: async () => ({ site_id: sites[args[0] as string], client_ids: null }),
+        run: async () => {
+          calls.push({ sql, args });
+          return { success: true };
+        },
+      }),
+    }),
+  };
+  const env = { DB } as unknown as Parameters<typeof closeCustomRuleAlerts>[0];
+
+  // Re-scoped to site-a: only the site-b device's alert closes.
+  const inSiteA = (target: { siteId: string | null }) => target.siteId === 'site-a';
+  const rescoped = await closeCustomRuleAlerts(env, 'r1', '2024-03-01T00:00:00Z', inSiteA);
+  assert.equal(rescoped, 1);
+  assert.deepEqual(
+    calls.map((call) => call.args),
+    [
+      ['2024-03-01T00:00:00Z', 'a2'],
+      ['dev-2', 'custom:r1'],
+    ],
+  );
+
+  // Disabled or deleted: everything closes and the rule's state is dropped for every device.
+  calls.length = 0;
+  assert.equal(await closeCustomRuleAlerts(env, 'r1', '2024-03-01T00:00:00Z'), 2);
+  assert.equal(calls.filter((call) => call.sql.startsWith('UPDATE alerts')).length, 2);
+  assert.deepEqual(calls.at(-1), { sql: 'DELETE FROM alert_state WHERE rule=?', args: ['custom:r1'] });
+});
+
+test('integrateEnergyByDay applies the trapezoid rule and skips long gaps', () => {
+  const base = Date.UTC(2024, 0, 1, 23, 50, 0);
+  const minute = 60_000;
+  const days = integrateEnergyByDay([
+    { ts: base, powerKW: 1, thermalKW: 3 },
+    { ts: base + 6 * minute, powerKW: 2, thermalKW: 6 },
+    { ts: base + 12 * minute, powerKW: 2, thermalKW: null },
+    // 30 minute gap: not integrated
+    { ts: base + 42 * minute, powerKW: 2, thermalKW: 6 },
+  ]);
+  // The 23:56 → 00:02 interval belongs to the day it starts in.
+  const first = days.get('2024-01-01')!;
+  assert.ok(Math.abs(first.kwhElectric - 0.35) < 1e-9);
+  assert.ok(Math.abs(first.kwhThermal - 0.45) < 1e-9);
+  assert.equal(first.coveredSec, 720);
+  const second = days.get('2024-01-02')!;
+  assert.equal(second.kwhElectric, 0);
+  assert.equal(second.coveredSec, 0);
+  assert.equal(second.samples, 2);
+});
+
+test('summarizeEnergy reports SPF, savings and CO2 against the reference', () => {
+  const resistive = summarizeEnergy({ kwhElectric: 100, kwhThermal: 350 }, DEFAULT_ENERGY_SETTINGS);
+  assert.equal(resistive.spf, 3.5);
+  assert.equal(resistive.savingsKwh, 250);
+  assert.equal(resistive.co2AvoidedKg, 237.5);
+
+  const gas = summarizeEnergy(
+    { kwhElectric: 100, kwhThermal: 360 },
+    { ...DEFAULT_ENERGY_SETTINGS, reference: 'gas', referenceEfficiency: 0.9 },
+  );
+  assert.equal(gas.referenceKwh, 400);
+  assert.equal(gas.co2AvoidedKg, Math.round((400 * 0.202 - 100 * 0.95) * 1000) / 1000);
+  assert.equal(summarizeEnergy({ kwhElectric: 0, kwhThermal: 0 }, DEFAULT_ENERGY_SETTINGS).spf, null);
+});
+
+test('loadEnergyPeriods reads large fleets in chunks and merges their periods', async () => {
+  const binds: unknown[][] = [];
+  const DB = {
+    prepare: () => ({
+      bind: (...args: unknown[]) => ({
+        all: async () => {
+          binds.push(args);
+          // Every chunk reports the same two months, out of order.
+          return {
+            results: [
+              { period: '2024-02', kwh_electric: 2, kwh_thermal: 6, covered_sec: 100 },
+              { period: '2024-01', kwh_electric: 1, kwh_thermal: 3, covered_sec: 50 },
+            ],
+          };
+        },
+      }),
+    }),
+  } as unknown as Parameters<typeof loadEnergyPeriods>[0];
+
+  const deviceIds = Array.from({ length: 200 }, (_, i) => `dev-${i}`);
+  const periods = await loadEnergyPeriods(DB, deviceIds, '2024-01-01', '2024-02-29', 'month');
+  assert.deepEqual(binds.map((args) => args.length), [92, 92, 22]);
+  assert.deepEqual(periods, [
+    { period: '2024-01', kwhElectric: 3, kwhThermal: 9, coveredSec: 150 },
+    { period: '2024-02', kwhElectric: 6, kwhThermal: 18, coveredSec: 300 },
+  ]);
+  assert.deepEqual(await loadEnergyPeriods(DB, [], '2024-01-01', '2024-02-29', 'day'), []);
+});
+
+test('parseEnergyRange defaults to 30 days and validates bounds', () => {
+  assert.deepEqual(parseEnergyRange(null, '2024-03-31'), { ok: true, from: '2024-03-02', to: '2024-03-31' });
+  assert.equal(parseEnergyRange('2024-04-01', '2024-03-01').ok, false);
+  assert.equal(parseEnergyRange('2022-01-01', '2024-01-01').ok, false);
+  assert.equal(parseEnergyRange('yesterday', null).ok, false);
+});
+
+const touTariff: Pick<Tariff, 'timezone' | 'definition'> = {
+  timezone: 'Africa/Johannesburg',
+  definition: {
+    seasons: [
+      {
+        name: 'High demand',
+        months: [6, 7, 8],
+        rate: 1,
+        bands: [{ name: 'peak', rate: 5, days: [1, 2, 3, 4, 5], start: '06:00', end: '09:00' }],
+      },
+      {
+        name: 'Low demand',
+        months: [1, 2, 3, 4, 5, 9, 10, 11, 12],
+        rate: 1,
+        bands: [{ name: 'saturday-night', rate: 0.5, days: [6], start: '22:00', end: '06:00' }],
+      },
+    ],
+  },
+};
+
+test('rateAt applies seasons and time-of-use bands in local time', () => {
+  // 05:00 UTC is 07:00 in Johannesburg on a winter Monday.
+  assert.deepEqual(rateAt(touTariff, Date.UTC(2024, 6, 1, 5, 0)), { rate: 5, band: 'peak' });
+  assert.deepEqual(rateAt(touTariff, Date.UTC(2024, 6, 1, 12, 0)), { rate: 1, band: 'standard' });
+  assert.deepEqual(rateAt(touTariff, Date.UTC(2024, 6, 6, 5, 0)), { rate: 1, band: 'standard' });
+});
+
+test('rateAt carries bands that wrap midnight into the next morning', () => {
+  // Saturday 22:00 local onwards, through Sunday 06:00.
+  assert.equal(rateAt(touTariff, Date.UTC(2024, 0, 6, 19, 0)).band, 'standard');
+  assert.equal(rateAt(touTariff, Date.UTC(2024, 0, 6, 21, 0)).band, 'saturday-night');
+  assert.equal(rateAt(touTariff, Date.UTC(2024, 0, 6, 23, 30)).band, 'saturday-night');
+  assert.equal(rateAt(touTariff, Date.UTC(2024, 0, 7, 23, 30)).band, 'standard');
+});
+
+test('priceEnergyByDay prices each interval at its band rate', () => {
+  const start = Date.UTC(2024, 6, 1, 4, 54);
+  const samples = [0, 6, 12].map((minutes) => ({ ts: start + minutes * 60_000, powerKW: 10, thermalKW: 30 }));
+  const day = priceEnergyByDay(samples, touTariff).get('2024-07-01')!;
+  // 04:54-05:00 UTC is 06:54 local (peak) and so is 05:00-05:06.
+  assert.ok(Math.abs(day.kwhElectric - 2) < 1e-9);
+  assert.ok(Math.abs(day.kwhThermal - 6) < 1e-9);
+  assert.ok(Math.abs(day.cost - 10) < 1e-9);
+  assert.deepEqual(Object.keys(day.bands), ['peak']);
+
+  const offPeak = priceEnergyByDay(
+    [0, 6].map((minutes) => ({ ts: Date.UTC(2024, 6, 1, 12, minutes), powerKW: 10, thermalKW: null })),
+    touTariff,
+  ).get('2024-07-01')!;
+  assert.ok(Math.abs(offPeak.cost - 1) < 1e-9);
+});
+
+test('loadCostSummary reads large fleets in chunks and keeps days in order', async () => {
+  const binds: unknown[][] = [];
+  const DB = {
+    prepare: () => ({
+      bind: (...args: unknown[]) => ({
+        all: async () => {
+          binds.push(args);
+          return {
+            results: [
+              { day: '2024-01-02', currency: 'EUR', cost: 2, kwh_electric: 10, kwh_thermal: 30 },
+              { day: '2024-01-01', currency: 'EUR', cost: 1, kwh_electric: 5, kwh_thermal: 15 },
+            ],
+          };
+        },
+      }),
+    }),
+  } as unknown as Parameters<typeof loadCostSummary>[0];
+
+  const deviceIds = Array.from({ length: 100 }, (_, i) => `dev-${i}`);
+  const summary = await loadCostSummary(DB, deviceIds, '2024-01-01', '2024-01-02');
+  assert.deepEqual(binds.map((args) => args.length), [92, 12]);
+  assert.deepEqual(summary.days.map((day) => [day.day, day.cost]), [
+    ['2024-01-01', 2],
+    ['2024-01-02', 4],
+  ]);
+  assert.equal(summary.currency, 'EUR');
+  assert.equal(summary.cost, 6);
+  assert.equal((await loadCostSummary(DB, [], '2024-01-01', '2024-01-02')).cost, 0);
+});
+
+test('parseTariffInput accepts flat rates and validates bands', () => {
+  const flat = parseTariffInput({ name: 'Municipal flat', rate: 3.1, siteIds: ['site-1', 'site-1'] });
+  assert.equal(flat.ok, true);
+  if (flat.ok) {
+    assert.equal(flat.value.currency, 'ZAR');
+    assert.equal(flat.value.timezone, 'Africa/Johannesburg');
+    assert.deepEqual(flat.value.siteIds, ['site-1']);
+    assert.equal(flat.value.definition.seasons[0]?.months.length, 12);
+  }
+
+  const invalid = parseTariffInput({
+    name: 'Broken',
+    currency: 'rand',
+    timezone: 'Mars/Olympus',
+    seasons: [{ rate: 1, bands: [{ name: 'peak', rate: -1, days: [7], start: '6am', end: '09:00' }] }],
+  });
+  assert.equal(invalid.ok, false);
+  if (!invalid.ok) {
+    assert.equal(invalid.errors.length, 5);
+  }
+});
+
+test('parseCommandInput keeps legacy setpoint bodies and validates registry kinds', () => {
+  const legacy = parseCommandInput({ dhwSetC: 52, mode: 'eco' });
+  assert.equal(legacy.ok, true);
+  if (legacy.ok) {
+    assert.deepEqual(legacy.value, { dhwSetC: 52, mode: 'eco' });
+    assert.equal(legacy.spec.kind, 'setpoint');
+  }
+
+  const offset = parseCommandInput({ kind: 'heating_curve_offset', offsetK: '1.5' });
+  assert.equal(offset.ok, true);
+  if (offset.ok) assert.deepEqual(offset.value, { kind: 'heating_curve_offset', offsetK: 1.5 });
+
+  assert.deepEqual(parseCommandInput({ kind: 'self_destruct' }), { ok: false, errors: ['unknown command kind: self_destruct'] });
+  const invalid = parseCommandInput({ kind: 'compressor_min_off', minutes: 4.5, speed: 3 });
+  assert.equal(invalid.ok, false);
+  if (!invalid.ok) {
+    assert.deepEqual(invalid.errors, ['speed is not a parameter of compressor_min_off', 'minutes must be a whole number']);
+  }
+  const empty = parseCommandInput({ mode: 'turbo' });
+  assert.equal(empty.ok, false);
+  if (!empty.ok) {
+    assert.equal(empty.errors[1], 'setpoint must set dhwSetC or mode');
+  }
+});
+
+test('clampCommandBody clamps setpoints to write limits and other kinds to their ranges', () => {
+  const limits = { minC: 40, maxC: 60 };
+  assert.deepEqual(clampCommandBody({ dhwSetC: 70, mode: 'auto' }, limits), {
+    applied: { dhwSetC: 60, mode: 'auto' },
+    clamped: { dhwSetC: 60 },
+  });
+  assert.deepEqual(clampCommandBody({ kind: 'heating_curve_offset', offsetK: -9 }, limits).clamped, { offsetK: -5 });
+  assert.deepEqual(clampCommandBody({ kind: 'reboot' }, limits), { applied: { kind: 'reboot' }, clamped: null });
+});
+
+test('command registry filters kinds by role', () => {
+  const reboot = parseCommandInput({ kind: 'reboot' });
+  assert.equal(reboot.ok, true);
+  if (reboot.ok) {
+    assert.equal(canIssueCommand(['ops'], reboot.spec), false);
+    assert.equal(canIssueCommand(['admin'], reboot.spec), true);
+  }
+  const opsKinds = describeCommandKinds(['ops'], { minC: 40, maxC: 60 });
+  assert.equal(opsKinds.some((kind) => kind.kind === 'reboot'), false);
+  assert.deepEqual(opsKinds[0]?.fields[0], {
+    name: 'dhwSetC',
+    type: 'number',
+    label: 'DHW setpoint',
+    unit: '°C',
+    min: 40,
+    max: 60,
+    step: 0.5,
+  });
+  assert.deepEqual(describeCommandKinds(['client'], { minC: 40, maxC: 60 }), []);
+});
+
+test('telemetryRowToSample keeps numeric metrics and derived columns', () => {
+  const sample = telemetryRowToSample({
+    device_id: 'dev-1',
+    ts: '2024-03-04T10:00:30Z',
+    metrics_json: JSON.stringify({ supplyC: 45.5, mode: 'heating', flowLps: null }),
+    deltaT: 5,
+    thermalKW: null,
+    cop: 3.2,
+  });
+  assert.deepEqual(sample?.values, { supplyC: 45.5, deltaT: 5, cop: 3.2 });
+});
+
+test('bucketSamples and mergeBuckets keep min/max/avg/last across resolutions', () => {
+  const at = (iso: string, supplyC: number) => ({ deviceId: 'dev-1', ts: Date.parse(iso), values: { supplyC } });
+  const minutes = bucketSamples(
+    [at('2024-03-04T10:00:10Z', 40), at('2024-03-04T10:00:40Z', 44), at('2024-03-04T10:01:10Z', 50)],
+    60_000,
+  );
+  assert.equal(minutes.length, 2);
+  assert.deepEqual(minutes[0]?.metrics.supplyC, { min: 40, max: 44, avg: 42, last: 44, n: 2 });
+
+  const quarter = mergeBuckets(minutes, 15 * 60_000);
+  assert.equal(quarter.length, 1);
+  assert.equal(quarter[0]?.bucket, Date.parse('2024-03-04T10:00:00Z'));
+  assert.equal(quarter[0]?.samples, 3);
+  assert.deepEqual(quarter[0]?.metrics.supplyC, { min: 40, max: 50, avg: 134 / 3, last: 50, n: 3 });
+});
+
+test('pickSeriesResolution scales with the requested window', () => {
+  const to = Date.parse('2024-03-04T00:00:00Z');
+  const hours = (n: number) => to - n * 60 * 60 * 1000;
+  assert.equal(pickSeriesResolution(hours(2), to), 'raw');
+  assert.equal(pickSeriesResolution(hours(24), to), '1m');
+  assert.equal(pickSeriesResolution(hours(24 * 7), to), '15m');
+  assert.equal(pickSeriesResolution(hours(24 * 30), to), '1h');
+  assert.equal(pickSeriesResolution(hours(24 * 365), to), '1d');
+});
+
+test('refreshTelemetryRollups folds a minute that overflows one read in full before moving on', async () => {
+  type Row = { device_id: string; ts: string; metrics_json: string; deltaT: null; thermalKW: null; cop: null };
+  const row = (deviceId: string, ts: string): Row => ({
+    device_id: deviceId,
+    ts,
+    metrics_json: '{"supplyC":45}',
+    deltaT: null,
+    thermalKW: null,
+    cop: null,
+  });
+  const telemetry = [
+    ...['dev-1', 'dev-2', 'dev-3', 'dev-4', 'dev-5'].map((id) => row(id, '2024-05-10T10:00:30.000Z')),
+    row('dev-1', '2024-05-10T10:01:10.000Z'),
+  ];
+  const settings = new Map([['telemetry_rollup_watermark', '2024-05-10T10:00:00.000Z']]);
+  const rollups = new Map<string, { device_id: string; resolution: string; bucket: string; samples: number }>();
+  const DB = {
+    prepare: (sql: string) => {
+      const statement = {
+        args: [] as unknown[],
+        bind: (...args: unknown[]) => {
+          statement.args = args;
+          return statement;
+        },
+        first: async () => (sql.includes('FROM settings') ? { value: settings.get(String(statement.args[0])) } : null),
+        all: async () => {
+          if (sql.includes('FROM telemetry_rollups')) {
+            const [resolution, from, to] = statement.args as string[];
+            const results = [...rollups.values()]
+              .filter((entry) => entry.resolution === resolution && entry.bucket >= from! && entry.bucket < to!)
+              .map((entry) => ({ ...entry, last_ts: entry.bucket, stats_json: '{}' }));
+            return { results };
+          }
+          const [from, to, ...rest] = statement.args as string[];
+          const limit = Number(rest.pop());
+          const [afterTs, , afterDevice] = rest;
+          const results = telemetry
+            .filter((entry) => entry.ts >= from! && entry.ts < to!)
+            .filter(
+              (entry) => !afterTs || entry.ts > afterTs || (entry.ts === afterTs && entry.device_id > afterDevice!),
+            )
+            .sort((a, b) => a.ts.localeCompare(b.ts) || a.device_id.localeCompare(b.device_id))
+            .slice(0, limit);
+          return { results };
+        },
+        run: async () => {
+          if (sql.includes('INTO settings')) settings.set(String(statement.args[0]), String(statement.args[1]));
+          if (sql.includes('INTO telemetry_rollups')) {
+            const [device_id, resolution, bucket, samples] = statement.args as [string, string, string, number];
+            rollups.set(`${device_id}|${resolution}|${bucket}`, { device_id, resolution, bucket, samples });
+          }
+          return { success: true };
+        },
+      };
+      return statement;
+    },
+    batch: async (statements: Array<{ run: () => Promise<unknown> }>) =>
+      Promise.all(statements.map((entry) => entry.run())),
+  } as unknown as Parameters<typeof refreshTelemetryRollups>[0];
+
+  const now = new Date('2024-05-10T12:00:00Z');
+  const first = await refreshTelemetryRollups(DB, now, 3);
+  assert.deepEqual(first, { samples: 5, watermark: '2024-05-10T10:01:00.000Z' });
+  const minute = [...rollups.values()].filter((entry) => entry.resolution === '1m');
+  assert.equal(minute.length, 5);
+
+  const second = await refreshTelemetryRollups(DB, now, 3);
+  assert.deepEqual(second, { samples: 1, watermark: now.toISOString() });
+});
+
+test('archiveCutoff waits for the rollups before archiving a day', () => {
+  const now = Date.parse('2024-06-10T02:00:00Z');
+  assert.equal(archiveCutoff(now, 30, now), Date.parse('2024-05-11T00:00:00Z'));
+  // Rollups stalled ten weeks ago: nothing newer than their watermark day may leave D1.
+  assert.equal(archiveCutoff(now, 30, Date.parse('2024-04-01T00:10:00Z')), Date.parse('2024-03-31T00:00:00Z'));
+  assert.equal(archiveObjectKey('HP 1/a', '2024-05-10'), 'telemetry/HP%201%2Fa/2024-05-10.ndjson');
+});
+
+test('archived NDJSON round-trips and merges late rows by timestamp', () => {
+  const row = (ts: string, cop: number): ArchivedTelemetryRow => ({
+    device_id: 'dev-1',
+    ts,
+    metrics_json: '{"supplyC":45}',
+    deltaT: 5,
+    thermalKW: 2,
+    cop,
+    cop_quality: null,
+    status_json: null,
+    faults_json: null,
+  });
+  const first = [row('2024-05-10T10:00:00Z', 3), row('2024-05-10T11:00:00Z', 3.1)];
+  const text = toNdjson(first) + '{"torn":\n';
+  assert.deepEqual(parseArchivedRows(text), first);
+
+  const merged = mergeArchivedRows(parseArchivedRows(text), [row('2024-05-10T09:30:00Z', 2.9), row('2024-05-10T11:00:00Z', 3.4)]);
+  assert.deepEqual(
+    merged.map((entry) => [entry.ts, entry.cop]),
+    [
+      ['2024-05-10T09:30:00Z', 2.9],
+      ['2024-05-10T10:00:00Z', 3],
+      ['2024-05-10T11:00:00Z', 3.4],
+    ],
+  );
+});
+
+test('loadDeviceSeries reads archived raw samples ahead of D1 rows', async () => {
+  const d1Row = {
+    device_id: 'dev-1',
+    ts: '2024-05-10T11:30:00Z',
+    metrics_json: '{"supplyC":47}',
+    deltaT: null,
+    thermalKW: null,
+    cop: null,
+  };
+  const DB = {
+    prepare: () => ({ bind: () => ({ all: async () => ({ results: [d1Row] }) }) }),
+  } as unknown as Parameters<typeof loadDeviceSeries>[0];
+  const from = Date.parse('2024-05-10T10:00:00Z');
+  const to = Date.parse('2024-05-10T12:00:00Z');
+  const series = await loadDeviceSeries(DB, 'dev-1', from, to, async (deviceId, fromMs, toMs) => {
+    assert.deepEqual([deviceId, fromMs, toMs], ['dev-1', from, to]);
+    return [{ deviceId, ts: Date.parse('2024-05-10T10:15:00Z'), values: { supplyC: 44 } }];
+  });
+  assert.equal(series.resolution, 'raw');
+  assert.deepEqual(
+    series.points.map((point) => [point.timestamp, point.metrics.supplyC]),
+    [
+      ['2024-05-10T10:15:00.000Z', 44],
+      ['2024-05-10T11:30:00.000Z', 47],
+    ],
+  );
+});
+
+test('inferColumns types nullable columns and honours projection', () => {
+  const records = [
+    { ts: '2024-05-10T10:00:00Z', cop: 3.2, ok: true, note: 'a' },
+    { ts: '2024-05-10 11:00:00', cop: null, ok: false, note: 4 },
+  ];
+  assert.deepEqual(inferColumns(records), [
+    { name: 'ts', type: 'timestamp' },
+    { name: 'cop', type: 'double' },
+    { name: 'ok', type: 'boolean' },
+    { name: 'note', type: 'string' },
+  ]);
+  assert.deepEqual(inferColumns(records, ['cop', 'missing']), [
+    { name: 'cop', type: 'double' },
+    { name: 'missing', type: 'string' },
+  ]);
+});
+
+test('encodeParquet and encodeArrowFile frame their output', () => {
+  const records = [{ ts: '2024-05-10T10:00:00Z', cop: 3.2 }, { ts: '2024-05-10T10:01:00Z', cop: null }];
+  const columns = inferColumns(records);
+  const ascii = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+  const parquet = encodeParquet(columns, records);
+  assert.equal(ascii(parquet.subarray(0, 4)), 'PAR1');
+  assert.equal(ascii(parquet.subarray(-4)), 'PAR1');
+  const footerLength = new DataView(parquet.buffer).getInt32(parquet.length - 8, true);
+  assert.ok(footerLength > 0 && footerLength < parquet.length - 12);
+
+  const arrow = encodeArrowFile(columns, records);
+  assert.equal(ascii(arrow.subarray(0, 6)), 'ARROW1');
+  assert.equal(ascii(arrow.subarray(-6)), 'ARROW1');
+  // Schema message follows the padded magic with a continuation marker.
+  assert.equal(new DataView(arrow.buffer).getInt32(8, true), -1);
+});
+
+test('encodeParquet and encodeArrowFile round-trip through independent readers', async () => {
+  const records = [
+    { ts: '2024-05-10T10:00:00Z', cop: 3.25, ok: true, note: 'Wärmepumpe ✓ 热泵' },
+    { ts: '2024-05-10 10:01:30', cop: null, ok: false, note: null },
+    { ts: null, cop: -1.5, ok: null, note: '' },
+  ];
+  const columns = inferColumns(records);
+
+  const arrow = tableFromIPC(encodeArrowFile(columns, records));
+  assert.deepEqual(
+    arrow.schema.fields.map((field) => [field.name, String(field.type), field.nullable]),
+    [
+      ['ts', 'Timestamp<MILLISECOND, UTC>', true],
+      ['cop', 'Float64', true],
+      ['ok', 'Bool', true],
+      ['note', 'Utf8', true],
+    ],
+  );
+  assert.deepEqual(
+    arrow.toArray().map((row) => row.toJSON()),
+    [
+      { ts: Date.parse('2024-05-10T10:00:00Z'), cop: 3.25, ok: true, note: 'Wärmepumpe ✓ 热泵' },
+      { ts: Date.parse('2024-05-10T10:01:30Z'), cop: null, ok: false, note: null },
+      { ts: null, cop: -1.5, ok: null, note: '' },
+    ],
+  );
+
+  const parquet = encodeParquet(columns, records);
+  assert.deepEqual(await parquetReadObjects({ file: parquet.buffer }), [
+    { ts: new Date('2024-05-10T10:00:00Z'), cop: 3.25, ok: true, note: 'Wärmepumpe ✓ 热泵' },
+    { ts: new Date('2024-05-10T10:01:30Z'), cop: null, ok: false, note: null },
+    { ts: null, cop: -1.5, ok: null, note: '' },
+  ]);
+});
+
+test('alignSeries puts devices on a shared bucket grid', () => {
+  const point = (iso: string, cop: number) => ({ timestamp: iso, metrics: { cop } });
+  const aligned = alignSeries(
+    new Map([
+      ['dev-1', [point('2024-03-04T10:00:10Z', 3), point('2024-03-04T10:00:50Z', 4), point('2024-03-04T10:02:00Z', 5)]],
+      ['dev-2', [point('2024-03-04T10:01:30Z', 2)]],
+    ]),
+    'cop',
+    60_000,
+  );
+  assert.deepEqual(
+    aligned.timestamps.map((ts) => new Date(ts).toISOString().slice(11, 16)),
+    ['10:00', '10:01', '10:02'],
+  );
+  assert.deepEqual(aligned.values.get('dev-1'), [3.5, null, 5]);
+  assert.deepEqual(aligned.values.get('dev-2'), [null, 2, null]);
+});
+
+test('buildComparison subtracts each site median and normalises per device', () => {
+  const at = (cop: number) => [{ timestamp: '2024-03-04T10:00:00Z', metrics: { cop } }];
+  const result = buildComparison({
+    devices: [
+      { deviceId: 'dev-1', siteId: 'site-1' },
+      { deviceId: 'dev-4', siteId: 'site-2' },
+    ],
+    series: new Map([
+      ['dev-1', at(4)],
+      ['dev-2', at(3)],
+      ['dev-3', at(2)],
+      ['dev-4', at(5)],
+    ]),
+    referenceBySite: new Map([
+      ['site-1', ['dev-1', 'dev-2', 'dev-3']],
+      ['site-2', ['dev-4']],
+    ]),
+    metric: 'cop',
+    mode: 'difference',
+    normalize: 'none',
+    stepMs: 60_000,
+  });
+  assert.deepEqual(result.series.map((entry) => entry.values), [[1], [0]]);
+  assert.deepEqual(result.medians, [
+    { siteId: 'site-1', values: [3] },
+    { siteId: 'site-2', values: [5] },
+  ]);
+
+  assert.deepEqual(normalizeValues([2, null, 4, 6], 'minmax'), [0, null, 0.5, 1]);
+  assert.deepEqual(normalizeValues([1, 3], 'zscore'), [-1, 1]);
+});
+
+test('parseCompareInput caps devices and validates options', () => {
+  const ok = parseCompareInput({ devices: 'a, b,a', metric: 'cop' });
+  assert.deepEqual(ok, { ok: true, value: { deviceIds: ['a', 'b'], metric: 'cop', mode: 'absolute', normalize: 'none' } });
+  const invalid = parseCompareInput({ devices: '1,2,3,4,5,6,7,8,9', metric: '', mode: 'ratio', normalize: 'log' });
+  assert.equal(invalid.ok, false);
+  if (!invalid.ok) assert.equal(invalid.errors.length, 4);
+});
+
+const faultEntry = (overrides: Partial<FaultCatalogueEntry>): FaultCatalogueEntry => ({
+  id: 'f-generic',
+  manufacturer: null,
+  model: null,
+  code: 'E12',
+  severity: 'minor',
+  title: 'Low flow',
+  description: null,
+  causes: [],
+  actions: [],
+  links: [],
+  ...overrides,
+});
+
+test('matchFaultEntry prefers model-specific over manufacturer-wide over generic entries', () => {
+  const entries = [
+    faultEntry({}),
+    faultEntry({ id: 'f-acme', manufacturer: 'Acme', severity: 'major' }),
+    faultEntry({ id: 'f-acme-x', manufacturer: 'Acme', model: 'X200', severity: 'critical' }),
+  ];
+  assert.equal(matchFaultEntry(entries, 'Acme', 'X200', 'E12')?.id, 'f-acme-x');
+  assert.equal(matchFaultEntry(entries, 'Acme', 'X100', 'E12')?.id, 'f-acme');
+  assert.equal(matchFaultEntry(entries, 'Other', null, 'E12')?.id, 'f-generic');
+  assert.equal(matchFaultEntry(entries, 'Acme', 'X200', 'E99'), null);
+});
+
+test('parseFaultCatalogueInput validates severity and links', () => {
+  const parsed = parseFaultCatalogueInput({
+    code: ' E12 ',
+    title: 'Low flow',
+    manufacturer: '',
+    causes: ['Blocked strainer', ' '],
+    links: [{ label: 'Manual', url: 'https://example.com/manual.pdf' }],
+  });
+  assert.equal(parsed.ok, true);
+  if (parsed.ok) {
+    assert.equal(parsed.value.code, 'E12');
+    assert.equal(parsed.value.manufacturer, null);
+    assert.equal(parsed.value.severity, 'major');
+    assert.deepEqual(parsed.value.causes, ['Blocked strainer']);
+  }
+  const invalid = parseFaultCatalogueInput({ code: 'E1', title: 'x', severity: 'fatal', links: [{ url: 'ftp://x' }] });
+  assert.equal(invalid.ok, false);
+  if (!invalid.ok) {
+    assert.deepEqual(invalid.errors, [
+      'severity must be minor, major or critical',
+      'link urls must start with http:// or https://',
+    ]);
+  }
+});
+
+test('summarizeFaultHistory clips occurrences to the window and counts open ones to the end', () => {
+  const event = (id: string, code: string, started: string, ended: string | null): FaultEventRow => ({
+    id,
+    device_id: 'dev-1',
+    code,
+    catalogue_id: code === 'E12' ? 'f-generic' : null,
+    severity: code === 'E12' ? 'minor' : null,
+    description: null,
+    started_at: started,
+    last_seen_at: started,
+    ended_at: ended,
+  });
+  const fromMs = Date.parse('2024-03-01T00:00:00Z');
+  const toMs = Date.parse('2024-03-02T00:00:00Z');
+  const stats = summarizeFaultHistory(
+    [
+      event('a', 'E12', '2024-02-29T23:50:00Z', '2024-03-01T00:10:00Z'),
+      event('b', 'E12', '2024-03-01T06:00:00Z', '2024-03-01T06:30:00Z'),
+      event('c', 'E40', '2024-03-01T23:00:00Z', null),
+    ],
+    fromMs,
+    toMs,
+    [faultEntry({})],
+  );
+  assert.deepEqual(
+    stats.map((entry) => [entry.code, entry.occurrences, entry.totalActiveSec, entry.longestSec, entry.active]),
+    [
+      ['E12', 2, 2400, 1800, false],
+      ['E40', 1, 3600, 3600, true],
+    ],
+  );
+  assert.equal(stats[0]!.title, 'Low flow');
+  assert.equal(stats[0]!.meanDurationSec, 1200);
+});
+
+test('trackDeviceFaults ends open occurrences when a sample no longer reports faults', async () => {
+  const calls: Array<{ sql: string; args: unknown[] }> = [];
+  let openCodes = ['E12'];
+  const DB = {
+    prepare: (sql: string) => ({
+      bind: (...args: unknown[]) => ({
+        all: async () => {
+          calls.push({ sql, args });
+          return { results: sql.includes('FROM device_fault_events') ? openCodes.map((code) => ({ code })) : [] };
+        },
+        first: async () => null,
+        run: async () => {
+          calls.push({ sql, args });
+          return { success: true };
+        },
+      }),
+    }),
+  } as unknown as Parameters<typeof trackDeviceFaults>[0];
+
+  const transitions = await trackDeviceFaults(DB, 'dev-1', '2024-03-01T06:30:00Z', []);
+  assert.deepEqual(transitions, { faults: [], started: [], cleared: ['E12'] });
+  const ended = calls.find((call) => call.sql.startsWith('UPDATE device_fault_events SET ended_at=?'));
+  assert.deepEqual(ended?.args, ['2024-03-01T06:30:00Z', 'dev-1', 'E12']);
+
+  // Devices with nothing open skip the catalogue lookups entirely.
+  openCodes = [];
+  calls.length = 0;
+  assert.deepEqual(await trackDeviceFaults(DB, 'dev-1', '2024-03-01T06:31:00Z', []), {
+    faults: [],
+    started: [],
+    cleared: [],
+  });
+  assert.equal(calls.length, 1);
+});
+
+
+test('normalizeMetrics keeps the built-in aliases and converts flow in l/min', () => {
+  const result = normalizeMetrics(BUILTIN_PROFILE, { outlet_temp_c: '45.5', returnC: 40, flow_lpm: 30, power_kw: null });
+  assert.equal(result.ok, true);
+  assert.deepEqual(result.metrics, { supplyC: 45.5, returnC: 40, flowLps: 0.5 });
+
+  const missing = normalizeMetrics(BUILTIN_PROFILE, { supply_c: 45 });
+  assert.equal(missing.ok, false);
+  if (!missing.ok) {
+    assert.deepEqual(missing.missing, ['return_c']);
+  }
+});
+
+test('normalizeMetrics applies profile scaling, offsets and units', () => {
+  const parsed = parseControllerProfileInput({
+    name: 'Acme AW-12',
+    fields: [
+      { metric: 'supplyC', keys: ['LWT'], unit: 'F', scale: 0.1 },
+      { metric: 'returnC', keys: ['EWT'], unit: 'K' },
+      { metric: 'flowLps', keys: ['FLOW'], unit: 'm3h' },
+      { metric: 'powerKW', keys: ['PWR'], unit: 'W' },
+    ],
+    required: ['supplyC'],
+  });
+  assert.equal(parsed.ok, true);
+  if (!parsed.ok) return;
+  const result = normalizeMetrics({ id: 'acme-aw12', ...parsed.value }, { LWT: 1220, EWT: 313.15, FLOW: 1.8, PWR: 2500 });
+  assert.equal(result.ok, true);
+  assert.equal(result.metrics.supplyC, 50);
+  assert.ok(Math.abs(result.metrics.returnC! - 40) < 1e-9);
+  assert.equal(result.metrics.flowLps, 0.5);
+  assert.equal(result.metrics.powerKW, 2.5);
+});
+
+test('parseControllerProfileInput rejects units that cannot express the metric', () => {
+  const parsed = parseControllerProfileInput({
+    name: 'Broken',
+    fields: [
+      { metric: 'supplyC', keys: ['t'], unit: 'lpm' },
+      { metric: 'flowLps', keys: [], unit: 'gpm', scale: 0 },
+      { metric: 'pressureBar', keys: ['p'], unit: 'C' },
+    ],
+    required: ['returnC'],
+  });
+  assert.equal(parsed.ok, false);
+  if (!parsed.ok) {
+    assert.deepEqual(parsed.errors, [
+      'fields[0].unit lpm cannot express supplyC',
+      'fields[1].keys must list at least one payload key',
+      'fields[1].scale must not be zero',
+      'fields[2].metric must be one of supplyC, returnC, tankC, ambientC, flowLps, compCurrentA, eevSteps, powerKW',
+      'required metric returnC has no field',
+    ]);
+  }
+});
+
+test('parseDisplayPreferences fills defaults and rejects unknown units and locales', () => {
+  const parsed = parseDisplayPreferences({ locale: 'en-us', temperature: 'F' });
+  assert.deepEqual(parsed, {
+    ok: true,
+    value: { locale: 'en-US', temperature: 'F', flow: 'lps', power: 'kW', energy: 'kWh' },
+  });
+  const invalid = parseDisplayPreferences({ locale: 'not a locale', flow: 'cfm' });
+  assert.equal(invalid.ok, false);
+  if (!invalid.ok) {
+    assert.deepEqual(invalid.errors, [
+      'locale must be a supported BCP 47 language tag',
+      'flow must be one of lps, lpm, m3h, gpm',
+    ]);
+  }
+  // A stored blob with one bad entry keeps the valid ones.
+  assert.equal(readDisplayPreferences('{"temperature":"F","flow":"cfm"}').temperature, 'F');
+  assert.equal(readDisplayPreferences('not json').temperature, 'C');
+});
+
+test('formatQuantity converts temperatures, differences and power for display', () => {
+  const prefs = { locale: 'de-DE', temperature: 'F', flow: 'lps', power: 'BTUh', energy: 'kBTU' } as const;
+  assert.equal(formatQuantity('temperature', 45, prefs), '113,0 °F');
+  assert.equal(formatQuantity('temperatureDelta', 5, prefs), '9,0 °F');
+  assert.equal(formatQuantity('power', 2, prefs, 0), '6.824 BTU/h');
+  assert.equal(formatQuantity('energy', 10, prefs), '34,1 kBTU');
+  assert.equal(formatQuantity('flow', null, prefs), '—');
+});
+
+test('parseProvisioningCsv reads quoted cells and reports errors by line', () => {
+  const parsed = parseProvisioningCsv('device_id,profile_id,site_id,model\nHP-1,greenbro-v2,,"AW 12, split"\n\nHP-2,acme,SITE-1,\n');
+  assert.deepEqual(parsed, {
+    ok: true,
+    value: [
+      { deviceId: 'HP-1', profileId: 'greenbro-v2', siteId: null, manufacturer: null, model: 'AW 12, split' },
+      { deviceId: 'HP-2', profileId: 'acme', siteId: 'SITE-1', manufacturer: null, model: null },
+    ],
+  });
+  const invalid = parseProvisioningCsv('device_id,profile_id\nHP-1,p\nHP 2,p\nHP-1,\n');
+  assert.equal(invalid.ok, false);
+  if (!invalid.ok) {
+    assert.deepEqual(invalid.errors, [
+      "line 3: device_id must be 1-64 letters, digits, '.', '_', ':' or '-'",
+      'line 4: duplicate device_id HP-1 (first on line 2)',
+      'line 4: profile_id is required',
+    ]);
+  }
+  assert.deepEqual(parseProvisioningCsv('device_id,serial\nHP-1\n'), {
+    ok: false,
+    errors: ['unknown column serial', 'missing column profile_id'],
+  });
+});
+
+test('isValidBatchId only accepts ids that are safe inside an object key', () => {
+  assert.equal(isValidBatchId(crypto.randomUUID()), true);
+  assert.equal(isValidBatchId('batch_2024-05'), true);
+  assert.equal(isValidBatchId('../reports/x'), false);
+  assert.equal(isValidBatchId('a/b'), false);
+  assert.equal(isValidBatchId(''), false);
+  assert.equal(isValidBatchId('x'.repeat(65)), false);
+  assert.equal(isValidBatchId(42), false);
+});
+
+test('verifyDeviceKey honours rotation grace and revocation and throttles usage writes', async () => {
+  const now = Date.now();
+  const key = (id: string, overrides: Partial<DeviceKeyRow>): DeviceKeyRow => ({
+    id,
+    device_id: 'HP-1',
+    key_hash: '',
+    label: null,
+    created_by: null,
+    created_at: new Date(now).toISOString(),
+    expires_at: null,
+    revoked_at: null,
+    revoked_by: null,
+    last_used_at: null,
+    last_used_ip: null,
+    ...overrides,
+  });
+  const rows = [
+    key('current', { key_hash: await hashDeviceKey('new-key') }),
+    key('previous', { key_hash: await hashDeviceKey('old-key'), expires_at: new Date(now + 3_600_000).toISOString() }),
+    key('stale', { key_hash: await hashDeviceKey('stale-key'), expires_at: new Date(now - 1000).toISOString() }),
+    key('revoked', { key_hash: await hashDeviceKey('leaked-key'), revoked_at: new Date(now).toISOString() }),
+  ];
+  let usageWrites = 0;
+  const DB = {
+    prepare: () => ({ bind: () => ({ all: async () => ({ results: rows }) }) }),
+    batch: async () => {
+      usageWrites += 1;
+    },
+  } as unknown as Parameters<typeof verifyDeviceKey>[0];
+
+  assert.equal(await verifyDeviceKey(DB, 'HP-1', 'new-key', '198.51.100.7'), true);
+  assert.equal(await verifyDeviceKey(DB, 'HP-1', 'old-key', '198.51.100.7'), true);
+  assert.equal(await verifyDeviceKey(DB, 'HP-1', 'stale-key', '198.51.100.7'), false);
+  assert.equal(await verifyDeviceKey(DB, 'HP-1', 'leaked-key', '198.51.100.7'), false);
+  assert.equal(await verifyDeviceKey(DB, 'HP-1', undefined), false);
+  assert.equal(usageWrites, 2);
+
+  rows[0]!.last_used_at = new Date(now).toISOString();
+  rows[0]!.last_used_ip = '198.51.100.7';
+  await verifyDeviceKey(DB, 'HP-1', 'new-key', '198.51.100.7');
+  assert.equal(usageWrites, 2);
+  await verifyDeviceKey(DB, 'HP-1', 'new-key', '203.0.113.9');
+  assert.equal(usageWrites, 3);
+});
+
+test('takeToken allows the burst, then refills at the configured rate', () => {
+  const limit = { burst: 3, perMinute: 6 };
+  const now = 1_700_000_000_000;
+  let bucket = undefined as ReturnType<typeof takeToken>['bucket'] | undefined;
+  for (let i = 0; i < 3; i += 1) {
+    const result = takeToken(bucket, limit, now);
+    assert.equal(result.allowed, true);
+    bucket = result.bucket;
+  }
+  const empty = takeToken(bucket, limit, now);
+  assert.equal(empty.allowed, false);
+  assert.equal(empty.retryAfter, 10);
+  assert.equal(takeToken(empty.bucket, limit, now + 5_000).allowed, false);
+  assert.equal(takeToken(empty.bucket, limit, now + 10_000).allowed, true);
+  assert.equal(takeToken(empty.bucket, limit, now + 3_600_000).bucket.tokens, 2);
+});
+
+test('evaluateRateLimit quarantines repeat offenders and refuses them until released', () => {
+  const limits = parseIngestRateLimits({ device: { ingest: { burst: 1, perMinute: 1 } }, quarantine: { strikes: 3 } });
+  assert.deepEqual(limits.device.heartbeat, { burst: 10, perMinute: 4 });
+  assert.equal(limits.quarantine.windowMinutes, 10);
+  const request: RateLimitRequest = {
+    bucket: 'ingest',
+    limit: limits.device.ingest,
+    bytes: 100,
+    maxBytes: 1024,
+    quarantine: limits.quarantine,
+  };
+  const now = 1_700_000_000_000;
+  let state = emptyRateLimitState();
+  const step = (overrides: Partial<RateLimitRequest> = {}, at = now) => {
+    const result = evaluateRateLimit(state, { ...request, ...overrides }, at);
+    state = result.state;
+    return result.decision;
+  };
+
+  assert.deepEqual(step(), { allowed: true });
+  const limited = step();
+  assert.equal(limited.allowed, false);
+  assert.equal(!limited.allowed && limited.reason, 'rate_limited');
+  assert.equal(!limited.allowed && limited.retryAfter, 60);
+  const oversized = step({ bytes: 4096 });
+  assert.equal(!oversized.allowed && oversized.reason, 'payload_too_large');
+  assert.equal(state.quarantinedAt, null);
+
+  const third = step();
+  assert.equal(!third.allowed && third.quarantinedNow, true);
+  assert.equal(state.quarantinedAt, now);
+
+  const refused = step({}, now + 3_600_000);
+  assert.equal(!refused.allowed && refused.reason, 'quarantined');
+  assert.equal(!refused.allowed && refused.quarantinedNow, false);
+
+  state = { ...state, strikes: [], quarantinedAt: null, quarantineReason: null };
+  assert.deepEqual(step({}, now + 3_600_000), { allowed: true });
+  assert.equal(step({ bytes: 0, quarantine: null }, now + 3_600_000).allowed, false);
+  assert.equal(state.strikes.length, 0);
+});
+
+test('parseChecklistInput validates typed steps', () => {
+  const parsed = parseChecklistInput({
+    name: 'Field-Install',
+    steps: [
+      { id: 'visual', title: 'Visual inspection' },
+      { id: 'nameplate', title: 'Nameplate photo', type: 'photo', required: false },
+      { id: 'pressure', title: 'System pressure', type: 'reading', unit: 'bar', min: 1, max: 2.5 },
+      { id: 'load', title: 'ΔT under load', type: 'auto', thresholds: { delta_t_min: 4, cop_min: 2.5 } },
+    ],
+  });
+  assert.equal(parsed.ok, true);
+  if (!parsed.ok) return;
+  assert.equal(parsed.value.name, 'field-install');
+  assert.deepEqual(
+    parsed.value.steps.map((step) => [step.id, step.type, step.required]),
+    [
+      ['visual', 'manual', true],
+      ['nameplate', 'photo', false],
+      ['pressure', 'reading', true],
+      ['load', 'auto', true],
+    ],
+  );
+  assert.equal(parsed.value.steps[3]?.window_s, 90);
+  assert.deepEqual(parsed.value.steps[3]?.thresholds, { delta_t_min: 4, flow_min_lpm: null, cop_min: 2.5 });
+
+  const invalid = parseChecklistInput({
+    name: 'x y',
+    steps: [
+      { id: 'a', title: 'A', type: 'reading', min: 5, max: 1 },
+      { id: 'a', title: '', type: 'auto', window_s: 5 },
+      { id: 'b', title: 'B', type: 'video' },
+    ],
+  });
+  assert.equal(invalid.ok, false);
+  if (invalid.ok) return;
+  assert.deepEqual(invalid.errors, [
+    'name must be lowercase letters, digits and dashes',
+    'steps[0].min must not exceed max',
+    'steps[1].id a is used twice',
+    'steps[1].title is required',
+    'steps[1].window_s must be between 10 and 300',
+    'steps[1] needs at least one threshold',
+    'steps[2].type must be one of manual, photo, reading, auto',
+  ]);
+});
+
+test('readChecklistSteps keeps untyped versions manual and evaluates typed steps', () => {
+  const legacy = readChecklistSteps(
+    JSON.stringify([
+      { id: 'sensors_sane', title: 'Sensors sane' },
+      { id: 'labels_printed', title: 'Labels printed' },
+    ]),
+    JSON.stringify(['sensors_sane']),
+  );
+  assert.deepEqual(
+    legacy.map((step) => [step.id, step.type, step.required]),
+    [
+      ['sensors_sane', 'manual', true],
+      ['labels_printed', 'manual', false],
+    ],
+  );
+  assert.deepEqual(readChecklistSteps('not json'), []);
+
+  assert.equal(evaluateReading({ min: 1, max: 2.5 }, 1.8), 'pass');
+  assert.equal(evaluateReading({ min: 1, max: 2.5 }, 2.6), 'fail');
+  assert.equal(evaluateReading({ min: null, max: 2.5 }, -4), 'pass');
+
+  const thresholds = { delta_t_min: 4, flow_min_lpm: null, cop_min: 2.5 };
+  const sample = { count: 12, delta_t_med: 4.5, flow_lpm_med: null, cop_med: 3.1 };
+  assert.equal(evaluateWindowSample(sample, thresholds), true);
+  assert.equal(evaluateWindowSample({ ...sample, cop_med: null }, thresholds), false);
+  assert.equal(evaluateWindowSample({ ...sample, count: 0 }, thresholds), false);
+});
+
+test('validateAttachment trusts file contents over the declared type', () => {
+  const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0]);
+  const pdf = new TextEncoder().encode('%PDF-1.7\n');
+
+  const photo = validateAttachment({ name: 'C:\\fakepath\\Name plate (1).JPG', type: 'image/jpeg', size: 6 }, jpeg);
+  assert.deepEqual(photo, { ok: true, value: { contentType: 'image/jpeg', kind: 'photo', filename: 'Name_plate_1_.JPG' } });
+  const form = validateAttachment({ name: 'handover.pdf', type: '', size: pdf.length }, pdf);
+  assert.equal(form.ok && form.value.kind, 'document');
+
+  const spoofed = validateAttachment({ name: 'x.png', type: 'image/png', size: 6 }, jpeg);
+  assert.equal(spoofed.ok, false);
+  const text = validateAttachment({ name: 'notes.txt', type: 'text/plain', size: 4 }, new TextEncoder().encode('hi!!'));
+  assert.deepEqual(text, { ok: false, error: 'must be a JPEG, PNG or PDF file' });
+  assert.equal(validateAttachment({ name: 'big.jpg', type: 'image/jpeg', size: 11 * 1024 * 1024 }, jpeg).ok, false);
+
+  assert.equal(safeFilename('../../etc/passwd'), 'passwd');
+  assert.equal(safeFilename('...'), 'file');
+  assert.equal(thumbnailContentType(jpeg), 'image/jpeg');
+  assert.equal(thumbnailContentType(pdf), null);
+});
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  backoffDelayMs,
+  buildNotificationBody,
+  dispatchNotificationDeliveries,
+  renderTemplate,
+  SAMPLE_NOTIFICATION_EVENT,
+  signNotification,
+  subscriptionMatches,
+  type NotificationSubscriptionRow,
+} from '../src/notifications';
+import type { D1Database } from '../src/types/env';
+
+const subscription = (overrides: Partial<NotificationSubscriptionRow>): NotificationSubscriptionRow => ({
+  id: 'sub-1',
+  name: 'On-call',
+  channel: 'webhook',
+  url: 'https://hooks.example.com/greenbro',
+  secret: null,
+  template: null,
+  events: null,
+  severities: null,
+  rules: null,
+  client_ids: null,
+  site_ids: null,
+  enabled: 1,
+  created_at: '2024-01-01 00:00:00',
+  ...overrides,
+});
+
+test('subscriptionMatches applies every populated filter', () => {
+  const event = SAMPLE_NOTIFICATION_EVENT;
+  assert.equal(subscriptionMatches(subscription({}), event), true);
+  assert.equal(subscriptionMatches(subscription({ severities: '["critical"]' }), event), false);
+  assert.equal(subscriptionMatches(subscription({ severities: '["major","critical"]' }), event), true);
+  assert.equal(subscriptionMatches(subscription({ rules: '["low_cop"]' }), event), false);
+  assert.equal(subscriptionMatches(subscription({ site_ids: '["sample-site"]' }), event), true);
+  assert.equal(subscriptionMatches(subscription({ client_ids: '["other"]' }), event), false);
+  assert.equal(subscriptionMatches(subscription({ events: '["incident.created"]' }), event), false);
+});
+
+test('renderTemplate escapes values so the body stays valid JSON', () => {
+  const body = renderTemplate('{"text":"{{severity}}: {{title}}","unknown":"{{nope}}"}', {
+    ...SAMPLE_NOTIFICATION_EVENT,
+    title: 'quote " and \\ slash',
+  });
+  assert.deepEqual(JSON.parse(body), { text: 'major: quote " and \\ slash', unknown: '{{nope}}' });
+});
+
+test('buildNotificationBody produces Slack and Teams payloads', () => {
+  const slack = JSON.parse(buildNotificationBody('slack', null, SAMPLE_NOTIFICATION_EVENT));
+  assert.equal(slack.text, '[MAJOR] overheat on sample-device');
+  assert.ok(Array.isArray(slack.blocks));
+
+  const teams = JSON.parse(buildNotificationBody('teams', null, SAMPLE_NOTIFICATION_EVENT));
+  assert.equal(teams['@type'], 'MessageCard');
+  assert.equal(teams.themeColor, 'F79009');
+});
+
+test('signNotification matches a known HMAC-SHA256 vector', async () => {
+  const signature = await signNotification('key', '1700000000', 'The quick brown fox jumps over the lazy dog');
+  assert.equal(signature, '2f658d6aef4f246e91cd741bbcded7479e9605f9d41c9e248122a117e0e1765b');
+});
+
+test('backoffDelayMs doubles and caps at one hour', () => {
+  assert.equal(backoffDelayMs(1), 30_000);
+  assert.equal(backoffDelayMs(2), 60_000);
+  assert.equal(backoffDelayMs(3), 120_000);
+  assert.equal(backoffDelayMs(20), 60 * 60_000);
+});
+
+test('overlapping dispatch runs send each delivery once', async () => {
+  const delivery = {
+    id: 'del-1',
+    subscription_id: 'sub-1',
+    event_key: 'alert:a1',
+    event_type: 'alert.opened',
+    event_json: JSON.stringify(SAMPLE_NOTIFICATION_EVENT),
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: '2024-01-01T00:00:00.000Z',
+    channel: 'webhook',
+    url: 'https://hooks.example.com/greenbro',
+    secret: null,
+    template: null,
+  };
+  const DB = {
+    prepare: (sql: string) => {
+      let args: unknown[] = [];
+      const statement = {
+        bind: (...values: unknown[]) => {
+          args = values;
+          return statement;
+        },
+        all: async () => ({
+          results: ['pending', 'sending'].includes(delivery.status) ? [{ ...delivery }] : [],
+        }),
+        run: async () => {
+          let changes = 0;
+          if (sql.includes("SET status='sending'")) {
+            const [leaseUntil, , seen] = args as string[];
+            if (['pending', 'sending'].includes(delivery.status) && delivery.next_attempt_at === seen) {
+              Object.assign(delivery, { status: 'sending', next_attempt_at: leaseUntil });
+              changes = 1;
+            }
+          } else if (sql.includes("SET status='delivered'") && delivery.status === 'sending') {
+            delivery.status = 'delivered';
+            changes = 1;
+          }
+          return { success: true, meta: { changes } };
+        },
+      };
+      return statement;
+    },
+  } as unknown as D1Database;
+
+  const originalFetch = globalThis.fetch;
+  let posts = 0;
+  globalThis.fetch = (async () => {
+    posts += 1;
+    return new Response('ok', { status: 200 });
+  }) as typeof fetch;
+  try {
+    const now = new Date('2024-01-01T00:01:00.000Z');
+    const runs = await Promise.all([dispatchNotificationDeliveries(DB, now), dispatchNotificationDeliveries(DB, now)]);
+    assert.equal(posts, 1);
+    assert.equal(runs[0].delivered + runs[1].delivered, 1);
+    assert.equal(delivery.status, 'delivered');
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
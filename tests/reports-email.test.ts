@@ -1,7 +1,7 @@
 import assert from 'node:assert/strict';
 import test from 'node:test';
 
-import { generateCommissioningPDF } from '../src/pdf';
+import { generateCommissioningPDF, generateIncidentReportV2 } from '../src/pdf';
 import { emailCommissioning } from '../src/lib/email';
 import type { Env } from '../src/types/env';
 
@@ -68,6 +68,59 @@ test('generateCommissioningPDF stores PDF bytes in REPORTS bucket', async () =>
   assert.deepEqual((write.options as { httpMetadata?: { contentType?: string } }).httpMetadata?.contentType, 'application/pdf');
 });
 
+test('generateCommissioningPDF writes Latin digits for locales with native numerals', async () => {
+  for (const locale of ['ar-EG', 'fa-IR', 'bn-BD']) {
+    const bucket = new BucketStub();
+    const env = { REPORTS: bucket } as unknown as Env;
+    const prefs = { locale, temperature: 'C', flow: 'lps', power: 'kW', energy: 'kWh' } as const;
+
+    await generateCommissioningPDF(
+      env,
+      {
+        deviceId: 'HP-200',
+        performedBy: 'Installer',
+        ts: '2024-01-15T10:20:30Z',
+        checklist: [],
+        measurements: { supplyC: -12.5, cop: 3.42 },
+      },
+      prefs,
+    );
+
+    assert.equal(bucket.puts.length, 1, locale);
+  }
+});
+
+test('generateIncidentReportV2 draws user text outside WinAnsi instead of failing', async () => {
+  const bucket = new BucketStub();
+  const env = { REPORTS: bucket } as unknown as Env;
+
+  await generateIncidentReportV2(env, {
+    siteId: 'site-1',
+    siteName: 'Склад №3',
+    windowLabel: 'Last 24 hours',
+    windowStart: '2024-01-15T00:00:00Z',
+    windowEnd: '2024-01-16T00:00:00Z',
+    generatedAt: '2024-01-16T00:00:00Z',
+    summary: { severities: [], topDevices: [] },
+    incidents: [
+      {
+        incidentId: 'inc-1',
+        startedAt: '2024-01-15T02:00:00Z',
+        resolvedAt: null,
+        lastAlertAt: null,
+        stateCounts: {},
+        alertBreakdown: [],
+        title: 'Pump → tank leak 🔥',
+        rootCause: 'Клапан заклинило ✓',
+        timeline: [{ ts: '2024-01-15T03:00:00Z', kind: 'comment', actor: 'ops', body: 'Fixed ✓ 👍 — “done”' }],
+      },
+    ],
+    maintenance: [],
+  });
+
+  assert.equal(bucket.puts.length, 1);
+});
+
 test('emailCommissioning posts to webhook with signed report URL', async () => {
   const bucket = new BucketStub();
   const db = new SettingsDB({ ops_webhook_url: 'https://hooks.example/ops' });
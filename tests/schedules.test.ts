@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  findNextChange,
+  findScheduleConflicts,
+  parseScheduleInput,
+  parseScheduleOverrideInput,
+  resolveScheduleAt,
+  type ScheduleOverride,
+  type ScheduleProgram,
+} from '../src/schedules';
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const program = (overrides: Partial<ScheduleProgram>): ScheduleProgram => ({
+  id: 'sched-1',
+  name: 'Morning boost',
+  scope: 'device',
+  scopeId: 'dev-1',
+  timezone: 'Africa/Johannesburg',
+  defaults: { dhwSetC: 45 },
+  blocks: [{ days: ALL_DAYS, start: '05:00', end: '07:00', dhwSetC: 55 }],
+  ...overrides,
+});
+
+const away: ScheduleOverride = {
+  id: 'ovr-1',
+  scope: 'site',
+  scopeId: 'site-1',
+  startsAt: Date.parse('2024-03-04T04:00:00Z'),
+  endsAt: Date.parse('2024-03-05T00:00:00Z'),
+  setting: { dhwSetC: 40, mode: 'away' },
+  reason: 'Site closed',
+};
+
+test('resolveScheduleAt applies blocks in local time and falls back to the default', () => {
+  // 03:30 UTC is 05:30 in Johannesburg.
+  const boost = resolveScheduleAt([program({})], [], Date.parse('2024-03-04T03:30:00Z'));
+  assert.deepEqual(boost?.setting, { dhwSetC: 55 });
+  assert.equal(boost?.source, 'schedule:sched-1');
+  const rest = resolveScheduleAt([program({})], [], Date.parse('2024-03-04T06:00:00Z'));
+  assert.deepEqual(rest?.setting, { dhwSetC: 45 });
+});
+
+test('resolveScheduleAt prefers overrides, then device programs over site programs', () => {
+  const site = program({ id: 'sched-site', scope: 'site', scopeId: 'site-1', defaults: { dhwSetC: 50 }, blocks: [] });
+  const at = Date.parse('2024-03-04T06:00:00Z');
+  assert.equal(resolveScheduleAt([site, program({})], [], at)?.source, 'schedule:sched-1');
+  assert.equal(resolveScheduleAt([site], [], at)?.source, 'schedule:sched-site');
+  const overridden = resolveScheduleAt([site, program({})], [away], Date.parse('2024-03-04T04:30:00Z'));
+  assert.equal(overridden?.source, 'override:ovr-1');
+  assert.deepEqual(overridden?.setting, { dhwSetC: 40, mode: 'away' });
+});
+
+test('findNextChange reports the next block boundary and override edges', () => {
+  const from = Date.parse('2024-03-04T02:00:00Z');
+  const next = findNextChange([program({})], [], from);
+  assert.equal(next && new Date(next.at).toISOString(), '2024-03-04T03:00:00.000Z');
+  assert.deepEqual(next?.resolved?.setting, { dhwSetC: 55 });
+
+  const withOverride = findNextChange([program({})], [away], Date.parse('2024-03-04T03:10:00Z'));
+  assert.equal(withOverride && new Date(withOverride.at).toISOString(), '2024-03-04T04:00:00.000Z');
+  assert.equal(withOverride?.resolved?.source, 'override:ovr-1');
+
+  assert.equal(findNextChange([program({ blocks: [] })], [], from), null);
+});
+
+test('findScheduleConflicts flags competing programs, overlaps and clamped setpoints', () => {
+  const overlapping = program({
+    blocks: [
+      { days: [1], start: '05:00', end: '07:00', dhwSetC: 55 },
+      { days: [1], start: '06:00', end: '08:00', dhwSetC: 70 },
+    ],
+  });
+  const second = program({ id: 'sched-2', name: 'Legacy' });
+  const conflicts = findScheduleConflicts(
+    [overlapping, second],
+    [away, { ...away, id: 'ovr-2', reason: 'Maintenance', setting: { mode: 'off' } }],
+    { minC: 40, maxC: 60 },
+  );
+  assert.deepEqual(
+    conflicts.map((conflict) => conflict.kind),
+    ['duplicate_schedule', 'overlapping_blocks', 'overlapping_overrides', 'clamped'],
+  );
+  assert.match(conflicts[3]!.message, /70°C .* clamped to 60°C/);
+  assert.deepEqual(findScheduleConflicts([program({})], [], { minC: 40, maxC: 60 }), []);
+});
+
+test('parseScheduleInput validates scope, quarter hours and settings', () => {
+  const ok = parseScheduleInput({
+    name: 'DHW boost',
+    scope: 'site',
+    scopeId: 'site-1',
+    defaults: { dhwSetC: 45 },
+    blocks: [{ days: [1, 2, 3, 4, 5], start: '05:00', end: '07:00', dhwSetC: 55 }],
+  });
+  assert.equal(ok.ok, true);
+  if (ok.ok) {
+    assert.equal(ok.value.timezone, 'Africa/Johannesburg');
+    assert.equal(ok.value.enabled, true);
+  }
+
+  const invalid = parseScheduleInput({
+    name: 'Broken',
+    scope: 'region',
+    blocks: [{ days: [], start: '05:10', end: '07:00' }],
+  });
+  assert.equal(invalid.ok, false);
+  if (!invalid.ok) {
+    assert.deepEqual(invalid.errors, [
+      'scope must be device or site',
+      'scopeId is required',
+      'blocks[0].days must list weekdays 0 (Sunday) to 6 (Saturday)',
+      'blocks[0].start must be HH:MM on a quarter hour',
+      'blocks[0] must set dhwSetC or mode',
+    ]);
+  }
+});
+
+test('parseScheduleOverrideInput requires an ordered window and a setting', () => {
+  const ok = parseScheduleOverrideInput({
+    scope: 'device',
+    scopeId: 'dev-1',
+    startsAt: '2024-12-20T00:00:00Z',
+    endsAt: '2025-01-06T00:00:00Z',
+    mode: 'holiday',
+    reason: 'Year-end shutdown',
+  });
+  assert.equal(ok.ok, true);
+  if (ok.ok) {
+    assert.deepEqual(ok.value.setting, { mode: 'holiday' });
+    assert.equal(ok.value.startsAt, '2024-12-20T00:00:00.000Z');
+  }
+  const backwards = parseScheduleOverrideInput({
+    scope: 'device',
+    scopeId: 'dev-1',
+    startsAt: '2025-01-06T00:00:00Z',
+    endsAt: '2024-12-20T00:00:00Z',
+  });
+  assert.equal(backwards.ok, false);
+  if (!backwards.ok) {
+    assert.deepEqual(backwards.errors, ['endsAt must be after startsAt', 'override must set dhwSetC or mode']);
+  }
+});
@@ -0,0 +1,458 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { SAMPLE_NOTIFICATION_EVENT } from '../src/notifications';
+import type { D1Database } from '../src/types/env';
+import {
+  buildUserNotificationEmail,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  deliveryDue,
+  dispatchUserNotifications,
+  fanOutUserNotifications,
+  isQuietTime,
+  parseNotificationPreferences,
+  parseUserSubscriptionInput,
+  readNotificationPreferences,
+  readSubscriberAccess,
+  scopeSubscriptionClients,
+  userSubscriptionMatches,
+  type NotificationPreferences,
+  type UserAlertSubscriptionRow,
+} from '../src/user-notifications';
+
+const prefs = (overrides: Partial<NotificationPreferences>): NotificationPreferences => ({
+  ...DEFAULT_NOTIFICATION_PREFERENCES,
+  ...overrides,
+});
+
+const subscription = (overrides: Partial<UserAlertSubscriptionRow>): UserAlertSubscriptionRow => ({
+  id: 'usub-1',
+  user_id: 'user-1',
+  name: 'My sites',
+  site_ids: null,
+  client_ids: null,
+  device_ids: null,
+  rules: null,
+  severities: null,
+  enabled: 1,
+  created_at: '2025-01-01 00:00:00',
+  ...overrides,
+});
+
+test('notification preferences are validated and defaulted', () => {
+  const parsed = parseNotificationPreferences({
+    digest: 'daily',
+    digestHour: 6,
+    quietHours: { start: '22:00', end: '06:30' },
+    timezone: 'Africa/Johannesburg',
+  });
+  assert.deepEqual(parsed, {
+    ok: true,
+    value: {
+      email: true,
+      digest: 'daily',
+      digestHour: 6,
+      quietHours: { start: '22:00', end: '06:30' },
+      timezone: 'Africa/Johannesburg',
+    },
+  });
+
+  const invalid = parseNotificationPreferences({
+    digest: 'weekly',
+    digestHour: 24,
+    quietHours: { start: '7pm', end: '07:00' },
+    timezone: 'Mars/Olympus',
+  });
+  assert.equal(invalid.ok, false);
+  assert.equal(invalid.ok ? 0 : invalid.errors.length, 4);
+
+  const sameTimes = parseNotificationPreferences({ quietHours: { start: '08:00', end: '08:00' } });
+  assert.equal(sameTimes.ok, false);
+
+  assert.deepEqual(readNotificationPreferences(null), DEFAULT_NOTIFICATION_PREFERENCES);
+  assert.deepEqual(readNotificationPreferences('not json'), DEFAULT_NOTIFICATION_PREFERENCES);
+});
+
+test('quiet hours wrap midnight in the user time zone', () => {
+  const overnight = prefs({ quietHours: { start: '22:00', end: '07:00' }, timezone: 'Africa/Johannesburg' });
+  // 21:30 UTC is 23:30 in Johannesburg.
+  assert.equal(isQuietTime(overnight, new Date('2025-03-01T21:30:00Z')), true);
+  assert.equal(isQuietTime(overnight, new Date('2025-03-01T04:59:00Z')), true);
+  assert.equal(isQuietTime(overnight, new Date('2025-03-01T05:00:00Z')), false);
+  assert.equal(isQuietTime(overnight, new Date('2025-03-01T12:00:00Z')), false);
+
+  const lunch = prefs({ quietHours: { start: '12:00', end: '13:00' } });
+  assert.equal(isQuietTime(lunch, new Date('2025-03-01T12:15:00Z')), true);
+  assert.equal(isQuietTime(lunch, new Date('2025-03-01T13:00:00Z')), false);
+  assert.equal(isQuietTime(prefs({}), new Date('2025-03-01T12:15:00Z')), false);
+});
+
+test('delivery waits for quiet hours and digest schedules', () => {
+  const now = new Date('2025-03-01T08:10:00Z');
+  const anHourAgo = new Date('2025-03-01T07:10:00Z');
+  const recently = new Date('2025-03-01T07:50:00Z');
+
+  assert.equal(deliveryDue(prefs({}), now, recently), true);
+  assert.equal(deliveryDue(prefs({ quietHours: { start: '08:00', end: '09:00' } }), now, null), false);
+
+  assert.equal(deliveryDue(prefs({ digest: 'hourly' }), now, recently), false);
+  assert.equal(deliveryDue(prefs({ digest: 'hourly' }), now, anHourAgo), true);
+
+  const daily = prefs({ digest: 'daily', digestHour: 10, timezone: 'Africa/Johannesburg' });
+  assert.equal(deliveryDue(daily, now, null), true);
+  assert.equal(deliveryDue(daily, now, recently), false);
+  assert.equal(deliveryDue(daily, new Date('2025-03-01T09:10:00Z'), null), false);
+  // The digest hour is honoured even inside quiet hours.
+  assert.equal(deliveryDue({ ...daily, quietHours: { start: '09:00', end: '11:00' } }, now, null), true);
+});
+
+test('user subscriptions add a device filter to the channel filters', () => {
+  assert.equal(userSubscriptionMatches(subscription({}), SAMPLE_NOTIFICATION_EVENT), true);
+  assert.equal(
+    userSubscriptionMatches(
+      subscription({ device_ids: JSON.stringify([SAMPLE_NOTIFICATION_EVENT.deviceId]) }),
+      SAMPLE_NOTIFICATION_EVENT,
+    ),
+    true,
+  );
+  assert.equal(
+    userSubscriptionMatches(subscription({ device_ids: JSON.stringify(['other-device']) }), SAMPLE_NOTIFICATION_EVENT),
+    false,
+  );
+  assert.equal(
+    userSubscriptionMatches(subscription({ severities: JSON.stringify(['minor']) }), SAMPLE_NOTIFICATION_EVENT),
+    false,
+  );
+  assert.equal(
+    userSubscriptionMatches(subscription({ site_ids: JSON.stringify(['elsewhere']) }), SAMPLE_NOTIFICATION_EVENT),
+    false,
+  );
+});
+
+test('user subscription input is validated', () => {
+  const parsed = parseUserSubscriptionInput({
+    name: ' Critical at home ',
+    severities: ['critical'],
+    deviceIds: ['dev-1', ''],
+  });
+  assert.equal(parsed.ok, true);
+  if (parsed.ok) {
+    assert.equal(parsed.value.name, 'Critical at home');
+    assert.deepEqual(parsed.value.severities, ['critical']);
+    assert.deepEqual(parsed.value.deviceIds, ['dev-1']);
+    assert.equal(parsed.value.siteIds, null);
+    assert.equal(parsed.value.enabled, true);
+  }
+
+  const invalid = parseUserSubscriptionInput({ name: '', severities: ['urgent'], siteIds: 'site-1' });
+  assert.equal(invalid.ok, false);
+  assert.equal(invalid.ok ? 0 : invalid.errors.length, 3);
+});
+
+test('digest emails list each event in the user time zone', () => {
+  const email = buildUserNotificationEmail(
+    [SAMPLE_NOTIFICATION_EVENT, { ...SAMPLE_NOTIFICATION_EVENT, key: 'alert:2', title: 'Second alert' }],
+    prefs({ digest: 'hourly', timezone: 'Africa/Johannesburg' }),
+  );
+  assert.equal(email.subject, 'Hourly digest: 2 alerts and incidents');
+  assert.match(email.text, new RegExp(SAMPLE_NOTIFICATION_EVENT.title));
+  assert.match(email.text, /Second alert/);
+});
+
+type MockUser = {
+  id: string;
+  email: string;
+  roles: string;
+  client_ids: string | null;
+  notification_prefs_json: string | null;
+};
+
+type MockAlert = {
+  alert_id: string;
+  device_id: string;
+  type: string;
+  severity: string;
+  opened_at: string;
+  site_id: string;
+  client_ids: string;
+};
+
+type MockNotification = {
+  id: string;
+  user_id: string;
+  event_key: string;
+  event_json: string;
+  status: string;
+  created_at: string;
+  sent_at: string | null;
+};
+
+class MockNotificationStatement {
+  #sql: string;
+  #db: MockNotificationDB;
+  #args: unknown[] = [];
+
+  constructor(sql: string, db: MockNotificationDB) {
+    this.#sql = sql;
+    this.#db = db;
+  }
+
+  bind(...args: unknown[]) {
+    this.#args = args;
+    return this;
+  }
+
+  async all<T>() {
+    return { results: this.#db.select(this.#sql, this.#args) as T[] };
+  }
+
+  async run() {
+    return { success: true, meta: { changes: this.#db.write(this.#sql, this.#args) } };
+  }
+}
+
+class MockNotificationDB {
+  users: MockUser[] = [];
+  subscriptions: UserAlertSubscriptionRow[] = [];
+  alerts: MockAlert[] = [];
+  notifications: MockNotification[] = [];
+
+  prepare(sql: string) {
+    return new MockNotificationStatement(sql, this);
+  }
+
+  async batch(statements: MockNotificationStatement[]) {
+    return Promise.all(statements.map((statement) => statement.run()));
+  }
+
+  select(sql: string, args: unknown[]): unknown[] {
+    if (sql.includes('FROM user_alert_subscriptions s')) {
+      return this.subscriptions.flatMap((sub) => {
+        const user = this.users.find((row) => row.id === sub.user_id);
+        return sub.enabled && user
+          ? [
+              {
+                ...sub,
+                notification_prefs_json: user.notification_prefs_json,
+                roles: user.roles,
+                user_client_ids: user.client_ids,
+              },
+            ]
+          : [];
+      });
+    }
+    if (sql.includes('FROM alerts a')) return this.alerts;
+    if (sql.includes('FROM incidents i')) return [];
+    if (sql.includes('GROUP BY n.user_id')) {
+      return this.users.flatMap((user) => {
+        const pending = this.notifications.filter((row) => row.user_id === user.id && row.status === 'pending');
+        const sent = this.notifications
+          .filter((row) => row.user_id === user.id && row.status === 'sent')
+          .map((row) => row.sent_at!)
+          .sort();
+        return pending.length > 0
+          ? [
+              {
+                user_id: user.id,
+                email: user.email,
+                notification_prefs_json: user.notification_prefs_json,
+                pending: pending.length,
+                last_sent_at: sent.at(-1) ?? null,
+              },
+            ]
+          : [];
+      });
+    }
+    if (sql.startsWith('SELECT id, event_json FROM user_notifications')) {
+      const limit = Number(/LIMIT (\d+)/.exec(sql)?.[1]);
+      return this.notifications
+        .filter((row) => row.user_id === args[0] && row.status === 'pending')
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .slice(0, limit);
+    }
+    throw new Error(`Unhandled SQL in mock: ${sql}`);
+  }
+
+  write(sql: string, args: unknown[]): number {
+    if (sql.startsWith('INSERT OR IGNORE INTO user_notifications')) {
+      const [id, user_id, event_key, event_json, created_at] = args as string[];
+      if (this.notifications.some((row) => row.user_id === user_id && row.event_key === event_key)) return 0;
+      this.notifications.push({
+        id: id!,
+        user_id: user_id!,
+        event_key: event_key!,
+        event_json: event_json!,
+        status: 'pending',
+        created_at: created_at!,
+        sent_at: null,
+      });
+      return 1;
+    }
+    const update = (match: (row: MockNotification) => boolean, apply: (row: MockNotification) => void) => {
+      const rows = this.notifications.filter(match);
+      rows.forEach(apply);
+      return rows.length;
+    };
+    if (sql.includes("status='dropped' WHERE status='pending' AND created_at < ?")) {
+      return update(
+        (row) => row.status === 'pending' && row.created_at < String(args[0]),
+        (row) => (row.status = 'dropped'),
+      );
+    }
+    if (sql.includes("status='dropped' WHERE user_id=? AND status='pending'")) {
+      return update(
+        (row) => row.status === 'pending' && row.user_id === args[0],
+        (row) => (row.status = 'dropped'),
+      );
+    }
+    if (sql.includes("status='sent', sent_at=? WHERE id=?")) {
+      return update(
+        (row) => row.id === args[1],
+        (row) => {
+          row.status = 'sent';
+          row.sent_at = String(args[0]);
+        },
+      );
+    }
+    throw new Error(`Unhandled SQL in mock: ${sql}`);
+  }
+}
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+const user = (overrides: Partial<MockUser> & { id: string }): MockUser => ({
+  email: `${overrides.id}@example.com`,
+  roles: 'ops',
+  client_ids: null,
+  notification_prefs_json: null,
+  ...overrides,
+});
+
+const alert = (overrides: Partial<MockAlert> & { alert_id: string }): MockAlert => ({
+  device_id: 'dev-1',
+  type: 'overheat',
+  severity: 'critical',
+  opened_at: '2025-03-01T11:55:00.000Z',
+  site_id: 'site-1',
+  client_ids: 'client-a',
+  ...overrides,
+});
+
+const asD1 = (db: MockNotificationDB) => db as unknown as D1Database;
+
+test('subscriptions are scoped to the clients a user may see', () => {
+  const ops = readSubscriberAccess('["ops"]', null);
+  const client = readSubscriberAccess('client', 'client-a, client-b');
+  assert.deepEqual(client, { roles: ['client'], clientIds: ['client-a', 'client-b'] });
+
+  assert.deepEqual(scopeSubscriptionClients(ops, null), { ok: true, clientIds: null });
+  assert.deepEqual(scopeSubscriptionClients(ops, ['client-z']), { ok: true, clientIds: ['client-z'] });
+  assert.deepEqual(scopeSubscriptionClients(client, null), { ok: true, clientIds: ['client-a', 'client-b'] });
+  assert.deepEqual(scopeSubscriptionClients(client, ['client-b']), { ok: true, clientIds: ['client-b'] });
+  assert.equal(scopeSubscriptionClients(client, ['client-a', 'client-z']).ok, false);
+  assert.equal(scopeSubscriptionClients(readSubscriberAccess('client', null), null).ok, false);
+  assert.equal(scopeSubscriptionClients(readSubscriberAccess('contractor', 'client-a'), null).ok, false);
+});
+
+test('fan-out queues each event once per user after the subscription was created', async () => {
+  const db = new MockNotificationDB();
+  db.users = [user({ id: 'ops-1' }), user({ id: 'muted', notification_prefs_json: JSON.stringify({ email: false }) })];
+  db.subscriptions = [
+    subscription({ id: 'all', user_id: 'ops-1', device_ids: JSON.stringify(['dev-1']) }),
+    subscription({ id: 'critical', user_id: 'ops-1', severities: JSON.stringify(['critical']) }),
+    subscription({
+      id: 'late',
+      user_id: 'ops-1',
+      device_ids: JSON.stringify(['dev-2']),
+      created_at: '2025-03-01 11:58:00',
+    }),
+    subscription({ id: 'muted', user_id: 'muted' }),
+  ];
+  db.alerts = [
+    alert({ alert_id: 'a1' }),
+    // Raised before the only subscription covering dev-2 existed.
+    alert({ alert_id: 'a2', device_id: 'dev-2', severity: 'minor', opened_at: '2025-03-01T11:56:00.000Z' }),
+  ];
+
+  assert.equal(await fanOutUserNotifications(asD1(db), NOW), 1);
+  assert.equal(await fanOutUserNotifications(asD1(db), NOW), 0);
+  assert.deepEqual(
+    db.notifications.map((row) => [row.user_id, row.event_key, row.status]),
+    [['ops-1', 'alert:a1', 'pending']],
+  );
+});
+
+test('fan-out narrows subscriptions to the owner\'s current access', async () => {
+  const db = new MockNotificationDB();
+  db.users = [
+    // Saved an unscoped subscription while on ops, since demoted to a single client.
+    user({ id: 'demoted', roles: 'client', client_ids: 'client-a' }),
+    // Subscribed to client-b, since removed from it.
+    user({ id: 'moved', roles: '["client"]', client_ids: '["client-a"]' }),
+    user({ id: 'no-roles', roles: '' }),
+  ];
+  db.subscriptions = [
+    subscription({ id: 's1', user_id: 'demoted' }),
+    subscription({ id: 's2', user_id: 'moved', client_ids: JSON.stringify(['client-b']) }),
+    subscription({ id: 's3', user_id: 'no-roles' }),
+  ];
+  db.alerts = [alert({ alert_id: 'a1', client_ids: 'client-a' }), alert({ alert_id: 'a2', client_ids: 'client-b' })];
+
+  await fanOutUserNotifications(asD1(db), NOW);
+  assert.deepEqual(
+    db.notifications.map((row) => [row.user_id, row.event_key]),
+    [['demoted', 'alert:a1']],
+  );
+});
+
+test('dispatch sends due mail, holds quiet hours and digests, and drops stale or unwanted mail', async () => {
+  const db = new MockNotificationDB();
+  db.users = [
+    user({ id: 'now' }),
+    user({ id: 'quiet', notification_prefs_json: JSON.stringify({ quietHours: { start: '11:00', end: '13:00' } }) }),
+    user({ id: 'muted', notification_prefs_json: JSON.stringify({ email: false }) }),
+  ];
+  const queue = (userId: string, key: string, createdAt: string) =>
+    db.notifications.push({
+      id: `${userId}:${key}`,
+      user_id: userId,
+      event_key: key,
+      event_json: JSON.stringify({ ...SAMPLE_NOTIFICATION_EVENT, key, title: key }),
+      status: 'pending',
+      created_at: createdAt,
+      sent_at: null,
+    });
+  // Far more held mail than one dispatch batch must not crowd out other users.
+  for (let i = 0; i < 600; i += 1) {
+    queue('quiet', `held-${String(i).padStart(3, '0')}`, '2025-03-01T10:00:00.000Z');
+  }
+  queue('now', 'fresh', '2025-03-01T11:59:00.000Z');
+  queue('now', 'stale', '2025-02-20T11:59:00.000Z');
+  queue('muted', 'queued-before-opt-out', '2025-03-01T11:59:00.000Z');
+
+  const sent: Array<{ to: string; subject: string }> = [];
+  const deps = {
+    send: async (to: string, subject: string) => {
+      sent.push({ to, subject });
+      return true;
+    },
+  };
+
+  const first = await dispatchUserNotifications(asD1(db), deps, NOW);
+  assert.deepEqual(first, { emailed: 1, held: 600, dropped: 1 });
+  assert.deepEqual(sent, [{ to: 'now@example.com', subject: `[MAJOR] fresh` }]);
+  const status = (id: string) => db.notifications.find((row) => row.id === id)?.status;
+  assert.equal(status('now:fresh'), 'sent');
+  assert.equal(status('now:stale'), 'dropped');
+  assert.equal(status('muted:queued-before-opt-out'), 'dropped');
+  assert.equal(status('quiet:held-000'), 'pending');
+
+  // Once quiet hours end the held mail goes out as digests of at most one batch each.
+  const later = new Date('2025-03-01T13:05:00Z');
+  const second = await dispatchUserNotifications(asD1(db), deps, later);
+  assert.equal(second.emailed, 1);
+  assert.match(sent[1]?.subject ?? '', /500 alerts/);
+  assert.equal(db.notifications.filter((row) => row.user_id === 'quiet' && row.status === 'pending').length, 100);
+  await dispatchUserNotifications(asD1(db), deps, later);
+  assert.equal(db.notifications.filter((row) => row.status === 'pending').length, 0);
+});